@@ -0,0 +1,183 @@
+import { useEffect, useState } from "react";
+import type { AccountWithBalance } from "../../lib/schemas/api-responses";
+
+/**
+ * クレジットカードの請求設定フォーム
+ *
+ * 設計方針:
+ * - 締め日・支払日・支払月・引き落とし口座を編集し、保存処理は親コンポーネントが担う
+ * - 締め日・支払日は31を「月末」として表示する（短い月は月末に丸めて計算される）
+ * - 引き落とし口座にはカード以外の有効な口座のみを選択肢とする
+ */
+
+export interface CardBillingSettingsValue {
+	closingDay: number | null;
+	paymentDay: number | null;
+	paymentMonthOffset: number;
+	paymentAccountId: number | null;
+}
+
+interface CardBillingSettingsProps {
+	/** 編集対象のカード */
+	card: AccountWithBalance;
+	/** 引き落とし口座の候補 */
+	paymentAccounts: AccountWithBalance[];
+	/** 保存時のコールバック */
+	onSave: (value: CardBillingSettingsValue) => void;
+	/** 保存中かどうか */
+	isSaving?: boolean;
+}
+
+const DAY_OPTIONS = Array.from({ length: 31 }, (_, index) => index + 1);
+
+const formatDayLabel = (day: number) => (day === 31 ? "月末" : `${day}日`);
+
+const parseNullableNumber = (value: string) =>
+	value === "" ? null : Number(value);
+
+export function CardBillingSettings({
+	card,
+	paymentAccounts,
+	onSave,
+	isSaving = false,
+}: CardBillingSettingsProps) {
+	const [value, setValue] = useState<CardBillingSettingsValue>({
+		closingDay: card.closingDay,
+		paymentDay: card.paymentDay,
+		paymentMonthOffset: card.paymentMonthOffset,
+		paymentAccountId: card.paymentAccountId,
+	});
+
+	// カードの切り替え・保存後の再取得時にフォームを同期
+	useEffect(() => {
+		setValue({
+			closingDay: card.closingDay,
+			paymentDay: card.paymentDay,
+			paymentMonthOffset: card.paymentMonthOffset,
+			paymentAccountId: card.paymentAccountId,
+		});
+	}, [
+		card.closingDay,
+		card.paymentDay,
+		card.paymentMonthOffset,
+		card.paymentAccountId,
+	]);
+
+	const selectClassName =
+		"block w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+	return (
+		<form
+			className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 items-end"
+			onSubmit={(event) => {
+				event.preventDefault();
+				onSave(value);
+			}}
+		>
+			<div>
+				<label
+					htmlFor="card-closing-day"
+					className="block text-sm text-gray-700 mb-1"
+				>
+					締め日
+				</label>
+				<select
+					id="card-closing-day"
+					value={value.closingDay ?? ""}
+					onChange={(e) =>
+						setValue({
+							...value,
+							closingDay: parseNullableNumber(e.target.value),
+						})
+					}
+					className={selectClassName}
+				>
+					<option value="">未設定</option>
+					{DAY_OPTIONS.map((day) => (
+						<option key={day} value={day}>
+							{formatDayLabel(day)}
+						</option>
+					))}
+				</select>
+			</div>
+			<div>
+				<label
+					htmlFor="card-payment-month-offset"
+					className="block text-sm text-gray-700 mb-1"
+				>
+					支払月
+				</label>
+				<select
+					id="card-payment-month-offset"
+					value={value.paymentMonthOffset}
+					onChange={(e) =>
+						setValue({ ...value, paymentMonthOffset: Number(e.target.value) })
+					}
+					className={selectClassName}
+				>
+					<option value={1}>翌月</option>
+					<option value={2}>翌々月</option>
+				</select>
+			</div>
+			<div>
+				<label
+					htmlFor="card-payment-day"
+					className="block text-sm text-gray-700 mb-1"
+				>
+					支払日
+				</label>
+				<select
+					id="card-payment-day"
+					value={value.paymentDay ?? ""}
+					onChange={(e) =>
+						setValue({
+							...value,
+							paymentDay: parseNullableNumber(e.target.value),
+						})
+					}
+					className={selectClassName}
+				>
+					<option value="">未設定</option>
+					{DAY_OPTIONS.map((day) => (
+						<option key={day} value={day}>
+							{formatDayLabel(day)}
+						</option>
+					))}
+				</select>
+			</div>
+			<div>
+				<label
+					htmlFor="card-payment-account"
+					className="block text-sm text-gray-700 mb-1"
+				>
+					引き落とし口座
+				</label>
+				<select
+					id="card-payment-account"
+					value={value.paymentAccountId ?? ""}
+					onChange={(e) =>
+						setValue({
+							...value,
+							paymentAccountId: parseNullableNumber(e.target.value),
+						})
+					}
+					className={selectClassName}
+				>
+					<option value="">未設定</option>
+					{paymentAccounts.map((account) => (
+						<option key={account.id} value={account.id}>
+							{account.name}
+						</option>
+					))}
+				</select>
+			</div>
+			<button
+				type="submit"
+				disabled={isSaving}
+				className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+			>
+				設定を保存
+			</button>
+		</form>
+	);
+}
@@ -0,0 +1,242 @@
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	useAccounts,
+	useCardStatement,
+	useReconcileCardTransactions,
+	useUpdateAccount,
+	useUpdateCardStatement,
+} from "../../lib/hooks/use-accounts";
+import { CardStatementReconciliation } from "./card-statement-reconciliation";
+
+/**
+ * CardStatementReconciliation コンポーネントのテスト
+ *
+ * テスト方針:
+ * - 請求期間・照合済みの合計・明細上の請求額との差額が表示されることを検証
+ * - チェックボックス・明細の請求額の保存が照合・更新APIに渡されることを検証
+ * - カード未登録時の表示を検証
+ * - データ取得・更新はuse-accountsのフックをモックする
+ */
+
+vi.mock("../../lib/hooks/use-accounts", () => ({
+	useAccounts: vi.fn(),
+	useCardStatement: vi.fn(),
+	useReconcileCardTransactions: vi.fn(),
+	useUpdateAccount: vi.fn(),
+	useUpdateCardStatement: vi.fn(),
+}));
+
+const mockUseAccounts = vi.mocked(useAccounts);
+const mockUseCardStatement = vi.mocked(useCardStatement);
+const mockUseReconcileCardTransactions = vi.mocked(
+	useReconcileCardTransactions,
+);
+const mockUseUpdateAccount = vi.mocked(useUpdateAccount);
+const mockUseUpdateCardStatement = vi.mocked(useUpdateCardStatement);
+
+const baseAccount = {
+	openingBalance: 0,
+	color: null,
+	displayOrder: 1,
+	closingDay: null,
+	paymentDay: null,
+	paymentMonthOffset: 1,
+	paymentAccountId: null,
+	isActive: true,
+	createdAt: "2025-01-01T00:00:00Z",
+	updatedAt: "2025-01-01T00:00:00Z",
+	income: 0,
+	expense: 0,
+	transferIn: 0,
+	transferOut: 0,
+	balance: 0,
+	transactionCount: 0,
+};
+
+const accounts = [
+	{ ...baseAccount, id: 1, name: "メイン口座", type: "bank" },
+	{
+		...baseAccount,
+		id: 2,
+		name: "楽天カード",
+		type: "credit_card",
+		closingDay: 15,
+		paymentDay: 10,
+		paymentAccountId: 1,
+	},
+];
+
+const statement = {
+	success: true,
+	data: {
+		account: accounts[1],
+		cycle: {
+			closingMonth: "2025-06",
+			periodStart: "2025-05-16",
+			closingDate: "2025-06-15",
+			paymentDate: "2025-07-10",
+		},
+		statement: {
+			id: 7,
+			accountId: 2,
+			closingDate: "2025-06-15",
+			paymentDate: "2025-07-10",
+			statementAmount: 9000,
+			settlementTransactionId: null,
+			createdAt: "2025-06-20T00:00:00Z",
+			updatedAt: "2025-06-20T00:00:00Z",
+		},
+		entries: [
+			{
+				id: 11,
+				transactionDate: "2025-05-20",
+				type: "expense",
+				amount: 8000,
+				fee: 0,
+				accountId: 2,
+				transferAccountId: null,
+				description: "スーパー",
+				categoryName: "食費",
+				reconciledStatementId: 7,
+				charge: 8000,
+				reconciled: true,
+			},
+			{
+				id: 12,
+				transactionDate: "2025-06-01",
+				type: "expense",
+				amount: 1200,
+				fee: 0,
+				accountId: 2,
+				transferAccountId: null,
+				description: "書籍",
+				categoryName: "教育",
+				reconciledStatementId: null,
+				charge: 1200,
+				reconciled: false,
+			},
+		],
+		summary: {
+			calculatedAmount: 9200,
+			reconciledAmount: 8000,
+			unreconciledAmount: 1200,
+			transactionCount: 2,
+			reconciledCount: 1,
+			statementAmount: 9000,
+			difference: 1000,
+		},
+	},
+};
+
+const mockReconcileMutate = vi.fn();
+const mockUpdateStatementMutate = vi.fn();
+
+describe("CardStatementReconciliation", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		cleanup();
+		mockUseAccounts.mockReturnValue({
+			data: { success: true, data: accounts, totalBalance: 0 },
+			isLoading: false,
+			error: null,
+		} as any);
+		mockUseCardStatement.mockReturnValue({
+			data: statement,
+			isLoading: false,
+			error: null,
+		} as any);
+		mockUseReconcileCardTransactions.mockReturnValue({
+			mutate: mockReconcileMutate,
+			isPending: false,
+			error: null,
+		} as any);
+		mockUseUpdateAccount.mockReturnValue({
+			mutate: vi.fn(),
+			isPending: false,
+			error: null,
+		} as any);
+		mockUseUpdateCardStatement.mockReturnValue({
+			mutate: mockUpdateStatementMutate,
+			isPending: false,
+			error: null,
+		} as any);
+	});
+
+	it("請求期間と照合済みの合計、明細との差額を表示する", () => {
+		// 実行
+		render(<CardStatementReconciliation />);
+
+		// 検証
+		expect(mockUseCardStatement).toHaveBeenCalledWith(
+			2,
+			undefined,
+			expect.anything(),
+		);
+		expect(screen.getByTestId("statement-month")).toHaveTextContent(
+			"2025年06月締め",
+		);
+		expect(screen.getByText("2025-05-16 〜 2025-06-15")).toBeInTheDocument();
+		expect(screen.getByTestId("statement-calculated")).toHaveTextContent(
+			"¥9,200",
+		);
+		expect(screen.getByTestId("statement-reconciled")).toHaveTextContent(
+			"¥8,000",
+		);
+		expect(screen.getByTestId("statement-difference")).toHaveTextContent(
+			"¥1,000",
+		);
+		expect(screen.getByTestId("settlement-status")).toHaveTextContent(
+			"支払日にメイン口座からの振替を登録します",
+		);
+		expect(screen.getAllByTestId("statement-entry")).toHaveLength(2);
+	});
+
+	it("チェックボックスで取引を照合・照合解除する", () => {
+		// 実行
+		render(<CardStatementReconciliation />);
+		fireEvent.click(screen.getByLabelText("書籍を照合済みにする"));
+		fireEvent.click(screen.getByLabelText("スーパーを照合済みにする"));
+
+		// 検証
+		expect(mockReconcileMutate).toHaveBeenNthCalledWith(1, {
+			id: 2,
+			data: { month: "2025-06", transactionIds: [12], reconciled: true },
+		});
+		expect(mockReconcileMutate).toHaveBeenNthCalledWith(2, {
+			id: 2,
+			data: { month: "2025-06", transactionIds: [11], reconciled: false },
+		});
+	});
+
+	it("明細の請求額を入力して保存する", () => {
+		// 実行
+		render(<CardStatementReconciliation />);
+		fireEvent.change(screen.getByLabelText("明細の請求額"), {
+			target: { value: "9,200" },
+		});
+		fireEvent.click(screen.getByRole("button", { name: "保存" }));
+
+		// 検証
+		expect(mockUpdateStatementMutate).toHaveBeenCalledWith({
+			id: 2,
+			data: { month: "2025-06", statementAmount: 9200 },
+		});
+	});
+
+	it("クレジットカードが未登録の場合は案内を表示する", () => {
+		mockUseAccounts.mockReturnValue({
+			data: { success: true, data: [accounts[0]], totalBalance: 0 },
+			isLoading: false,
+			error: null,
+		} as any);
+
+		// 実行
+		render(<CardStatementReconciliation />);
+
+		// 検証
+		expect(
+			screen.getByText(/クレジットカードの口座が登録されていません/),
+		).toBeInTheDocument();
+	});
+});
@@ -0,0 +1,378 @@
+import { useState } from "react";
+import {
+	useAccounts,
+	useCardStatement,
+	useReconcileCardTransactions,
+	useUpdateAccount,
+	useUpdateCardStatement,
+} from "../../lib/hooks/use-accounts";
+import { CardBillingSettings } from "./card-billing-settings";
+
+/**
+ * クレジットカードの明細照合コンポーネント
+ *
+ * 設計方針:
+ * - カードと締め月を選び、請求期間の取引をカード会社の明細と1件ずつ照合する
+ * - 照合済みの合計と明細上の請求額の差額を表示し、照合漏れ・計上漏れに気付けるようにする
+ * - 請求期間・請求額の計算はサーバー側（GET /api/accounts/:id/statement）で行い、画面は表示に専念
+ * - 締め月は未指定の場合サーバーが今日を含む請求を返すため、前後の移動は応答の締め月を基準にする
+ */
+
+const formatYen = (value: number) =>
+	`${value < 0 ? "-" : ""}¥${Math.abs(value).toLocaleString()}`;
+
+// YYYY-MM形式の年月を前後に移動
+const shiftMonth = (month: string, months: number) => {
+	const [year, monthNumber] = month.split("-").map(Number);
+	const date = new Date(year, monthNumber - 1 + months, 1);
+	return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+};
+
+export function CardStatementReconciliation() {
+	const [selectedCardId, setSelectedCardId] = useState<number | null>(null);
+	const [month, setMonth] = useState<string | undefined>(undefined);
+	// 明細上の請求額の入力中の値（未編集の場合はnull）
+	const [amountInput, setAmountInput] = useState<string | null>(null);
+
+	const isClient = typeof window !== "undefined";
+	const accountsQuery = useAccounts({
+		// クライアント側でのみ実行されるようにする（SSR時の問題を回避）
+		enabled: isClient,
+	});
+	const accounts = accountsQuery.data?.data ?? [];
+	const cards = accounts.filter((account) => account.type === "credit_card");
+	const card =
+		cards.find((account) => account.id === selectedCardId) ?? cards[0];
+
+	const statementQuery = useCardStatement(card?.id ?? 0, month, {
+		enabled: isClient && !!card,
+	});
+	const updateAccountMutation = useUpdateAccount();
+	const updateStatementMutation = useUpdateCardStatement({
+		onSuccess: () => setAmountInput(null),
+	});
+	const reconcileMutation = useReconcileCardTransactions();
+
+	if (accountsQuery.error) {
+		return (
+			<div className="bg-white rounded-lg shadow-sm border p-6">
+				<p className="text-sm font-medium text-red-600" role="alert">
+					口座データの取得に失敗しました
+				</p>
+			</div>
+		);
+	}
+
+	if (accountsQuery.isLoading) {
+		return (
+			<div className="bg-white rounded-lg shadow-sm border p-6 animate-pulse">
+				<div className="w-48 h-6 bg-gray-200 rounded" />
+			</div>
+		);
+	}
+
+	if (!card) {
+		return (
+			<div className="bg-white rounded-lg shadow-sm border p-6">
+				<p className="text-sm text-gray-500">
+					クレジットカードの口座が登録されていません。ダッシュボードの「口座残高」から種別をクレジットカードとして追加してください。
+				</p>
+			</div>
+		);
+	}
+
+	const statementData = statementQuery.data?.data;
+	const cycle = statementData?.cycle;
+	const summary = statementData?.summary;
+	const entries = statementData?.entries ?? [];
+	const unreconciledIds = entries
+		.filter((entry) => !entry.reconciled)
+		.map((entry) => entry.id);
+	const paymentAccount = accounts.find(
+		(account) => account.id === card.paymentAccountId,
+	);
+
+	const reconcile = (transactionIds: number[], reconciled: boolean) => {
+		if (!cycle || transactionIds.length === 0) return;
+		reconcileMutation.mutate({
+			id: card.id,
+			data: { month: cycle.closingMonth, transactionIds, reconciled },
+		});
+	};
+
+	const saveStatementAmount = () => {
+		if (!cycle || amountInput === null) return;
+		updateStatementMutation.mutate({
+			id: card.id,
+			data: {
+				month: cycle.closingMonth,
+				statementAmount:
+					amountInput === "" ? null : Number.parseInt(amountInput, 10) || 0,
+			},
+		});
+	};
+
+	const selectClassName =
+		"px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+	return (
+		<div className="space-y-6">
+			{/* カード・締め月の選択 */}
+			<div className="bg-white rounded-lg shadow-sm border p-4 flex flex-wrap items-center gap-3">
+				<label htmlFor="card-select" className="text-sm text-gray-700">
+					カード
+				</label>
+				<select
+					id="card-select"
+					value={card.id}
+					onChange={(e) => {
+						setSelectedCardId(Number(e.target.value));
+						setMonth(undefined);
+						setAmountInput(null);
+					}}
+					className={selectClassName}
+				>
+					{cards.map((account) => (
+						<option key={account.id} value={account.id}>
+							{account.name}
+						</option>
+					))}
+				</select>
+
+				{cycle && (
+					<div className="flex items-center gap-2 ml-auto">
+						<button
+							type="button"
+							onClick={() => {
+								setMonth(shiftMonth(cycle.closingMonth, -1));
+								setAmountInput(null);
+							}}
+							className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+						>
+							前の請求
+						</button>
+						<span
+							className="text-sm font-medium text-gray-900"
+							data-testid="statement-month"
+						>
+							{`${cycle.closingMonth.replace("-", "年")}月締め`}
+						</span>
+						<button
+							type="button"
+							onClick={() => {
+								setMonth(shiftMonth(cycle.closingMonth, 1));
+								setAmountInput(null);
+							}}
+							className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+						>
+							次の請求
+						</button>
+					</div>
+				)}
+			</div>
+
+			{/* 請求設定 */}
+			<div className="bg-white rounded-lg shadow-sm border p-4 space-y-3">
+				<h3 className="text-base font-semibold text-gray-900">請求設定</h3>
+				<CardBillingSettings
+					card={card}
+					paymentAccounts={accounts.filter(
+						(account) => account.type !== "credit_card",
+					)}
+					isSaving={updateAccountMutation.isPending}
+					onSave={(value) =>
+						updateAccountMutation.mutate({ id: card.id, data: value })
+					}
+				/>
+				{updateAccountMutation.error && (
+					<p className="text-sm text-red-600" role="alert">
+						請求設定の保存に失敗しました
+					</p>
+				)}
+			</div>
+
+			{statementQuery.error && (
+				<p className="text-sm font-medium text-red-600" role="alert">
+					請求の取得に失敗しました
+				</p>
+			)}
+
+			{cycle && summary && (
+				<>
+					{/* 請求期間・集計 */}
+					<div className="bg-white rounded-lg shadow-sm border p-4 space-y-4">
+						<dl className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm">
+							<div>
+								<dt className="text-gray-500">利用期間</dt>
+								<dd className="text-gray-900">{`${cycle.periodStart} 〜 ${cycle.closingDate}`}</dd>
+							</div>
+							<div>
+								<dt className="text-gray-500">支払日</dt>
+								<dd className="text-gray-900">{cycle.paymentDate}</dd>
+							</div>
+							<div>
+								<dt className="text-gray-500">引き落とし</dt>
+								<dd className="text-gray-900" data-testid="settlement-status">
+									{statementData.statement?.settlementTransactionId
+										? `登録済み（${paymentAccount?.name ?? "引き落とし口座"}から振替）`
+										: paymentAccount && card.closingDay && card.paymentDay
+											? `支払日に${paymentAccount.name}からの振替を登録します`
+											: "請求設定（締め日・支払日・引き落とし口座）が未設定です"}
+								</dd>
+							</div>
+						</dl>
+
+						<dl className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+							<div>
+								<dt className="text-sm text-gray-500">
+									取引から計算した請求額
+								</dt>
+								<dd
+									className="text-lg font-bold text-gray-900"
+									data-testid="statement-calculated"
+								>
+									{formatYen(summary.calculatedAmount)}
+								</dd>
+							</div>
+							<div>
+								<dt className="text-sm text-gray-500">
+									照合済み（{summary.reconciledCount}/{summary.transactionCount}
+									件）
+								</dt>
+								<dd
+									className="text-lg font-bold text-gray-900"
+									data-testid="statement-reconciled"
+								>
+									{formatYen(summary.reconciledAmount)}
+								</dd>
+							</div>
+							<div>
+								<dt>
+									<label
+										htmlFor="statement-amount"
+										className="text-sm text-gray-500"
+									>
+										明細の請求額
+									</label>
+								</dt>
+								<dd className="flex items-center gap-2">
+									<input
+										type="text"
+										id="statement-amount"
+										inputMode="numeric"
+										value={
+											amountInput ??
+											(summary.statementAmount === null
+												? ""
+												: String(summary.statementAmount))
+										}
+										onChange={(e) =>
+											setAmountInput(e.target.value.replace(/[^0-9]/g, ""))
+										}
+										placeholder="未入力"
+										className="w-28 px-2 py-1 border border-gray-300 rounded-md text-sm text-right"
+									/>
+									<button
+										type="button"
+										onClick={saveStatementAmount}
+										disabled={
+											amountInput === null || updateStatementMutation.isPending
+										}
+										className="px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+									>
+										保存
+									</button>
+								</dd>
+							</div>
+							<div>
+								<dt className="text-sm text-gray-500">
+									差額（明細 − 照合済み）
+								</dt>
+								<dd
+									className={`text-lg font-bold ${summary.difference === 0 ? "text-green-600" : summary.difference === null ? "text-gray-400" : "text-red-600"}`}
+									data-testid="statement-difference"
+								>
+									{summary.difference === null
+										? "-"
+										: summary.difference === 0
+											? "一致"
+											: formatYen(summary.difference)}
+								</dd>
+							</div>
+						</dl>
+					</div>
+
+					{/* 取引の照合 */}
+					<div className="bg-white rounded-lg shadow-sm border">
+						<div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+							<h3 className="text-base font-semibold text-gray-900">
+								請求期間の取引
+							</h3>
+							<button
+								type="button"
+								onClick={() => reconcile(unreconciledIds, true)}
+								disabled={
+									unreconciledIds.length === 0 || reconcileMutation.isPending
+								}
+								className="text-sm text-blue-600 hover:text-blue-800 font-medium disabled:opacity-50"
+							>
+								すべて照合済みにする
+							</button>
+						</div>
+						{entries.length === 0 ? (
+							<p className="p-4 text-sm text-gray-500">
+								この請求期間の取引はありません
+							</p>
+						) : (
+							<ul className="divide-y divide-gray-100">
+								{entries.map((entry) => {
+									const label =
+										entry.description ?? entry.categoryName ?? "取引";
+									return (
+										<li
+											key={entry.id}
+											className="flex items-center gap-3 px-4 py-2"
+											data-testid="statement-entry"
+										>
+											<input
+												type="checkbox"
+												checked={entry.reconciled}
+												onChange={(e) =>
+													reconcile([entry.id], e.target.checked)
+												}
+												disabled={reconcileMutation.isPending}
+												aria-label={`${label}を照合済みにする`}
+												className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+											/>
+											<span className="text-sm text-gray-500 w-24 flex-shrink-0">
+												{entry.transactionDate}
+											</span>
+											<span className="text-sm text-gray-900 truncate flex-1">
+												{label}
+												{entry.categoryName && entry.description && (
+													<span className="ml-2 text-xs text-gray-500">
+														{entry.categoryName}
+													</span>
+												)}
+											</span>
+											<span
+												className={`text-sm font-medium ${entry.charge < 0 ? "text-green-600" : "text-gray-900"}`}
+											>
+												{formatYen(entry.charge)}
+											</span>
+										</li>
+									);
+								})}
+							</ul>
+						)}
+						{reconcileMutation.error && (
+							<p className="px-4 pb-3 text-sm text-red-600" role="alert">
+								照合状態の更新に失敗しました
+							</p>
+						)}
+					</div>
+				</>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,10 @@
+/**
+ * クレジットカード明細コンポーネントの統合エクスポート
+ *
+ * 設計方針:
+ * - カードの請求設定・明細照合関連コンポーネントの単一エントリーポイント
+ */
+
+export { CardStatementReconciliation } from "./card-statement-reconciliation";
+export { CardBillingSettings } from "./card-billing-settings";
+export type { CardBillingSettingsValue } from "./card-billing-settings";
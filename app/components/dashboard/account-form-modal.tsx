@@ -0,0 +1,187 @@
+import { useCallback, useState } from "react";
+import { ACCOUNT_TYPES, type AccountType } from "../../../db/schema";
+import { ACCOUNT_TYPE_LABELS } from "../../constants/account-types";
+import type { CreateAccountRequest } from "../../lib/schemas/api-responses";
+import { Modal } from "../ui/modal";
+
+/**
+ * 口座の追加フォームモーダル
+ *
+ * 設計方針:
+ * - 予算設定フォームと同じくModalを再利用し、保存処理は親コンポーネントが担う
+ * - 開始残高は登録時点の残高。クレジットカードの未払い残高などはマイナスで入力できる
+ */
+
+interface AccountFormModalProps {
+	/** モーダルの表示状態 */
+	isOpen: boolean;
+	/** モーダルを閉じる関数 */
+	onClose: () => void;
+	/** フォーム送信時のコールバック */
+	onSubmit: (data: CreateAccountRequest) => Promise<void>;
+}
+
+export function AccountFormModal({
+	isOpen,
+	onClose,
+	onSubmit,
+}: AccountFormModalProps) {
+	const [name, setName] = useState("");
+	const [type, setType] = useState<AccountType>("bank");
+	const [displayBalance, setDisplayBalance] = useState("");
+	const [isSubmitting, setIsSubmitting] = useState(false);
+	const [submitError, setSubmitError] = useState<string | null>(null);
+
+	const resetForm = useCallback(() => {
+		setName("");
+		setType("bank");
+		setDisplayBalance("");
+		setSubmitError(null);
+	}, []);
+
+	const handleSubmit = useCallback(
+		async (event: React.FormEvent<HTMLFormElement>) => {
+			event.preventDefault();
+
+			setIsSubmitting(true);
+			setSubmitError(null);
+			try {
+				await onSubmit({
+					name: name.trim(),
+					type,
+					// 未入力（または「-」のみ）の場合は0とする
+					openingBalance: Number.parseInt(displayBalance, 10) || 0,
+				});
+
+				// 保存成功後に状態をリセットしてモーダルを閉じる
+				resetForm();
+				onClose();
+			} catch (error) {
+				console.error("Account form submit error:", error);
+				setSubmitError(
+					error instanceof Error
+						? error.message
+						: "口座の登録中にエラーが発生しました",
+				);
+			} finally {
+				setIsSubmitting(false);
+			}
+		},
+		[displayBalance, name, onClose, onSubmit, resetForm, type],
+	);
+
+	// モーダルが閉じられる際の状態リセット
+	const handleClose = useCallback(() => {
+		resetForm();
+		onClose();
+	}, [onClose, resetForm]);
+
+	return (
+		<Modal isOpen={isOpen} onClose={handleClose} title="口座の追加" size="sm">
+			<form onSubmit={handleSubmit} className="space-y-6">
+				{/* 口座名 */}
+				<div>
+					<label
+						htmlFor="accountName"
+						className="block text-sm font-medium text-gray-700 mb-2"
+					>
+						口座名 <span className="text-red-500">*</span>
+					</label>
+					<input
+						type="text"
+						id="accountName"
+						name="accountName"
+						value={name}
+						onChange={(e) => setName(e.target.value)}
+						maxLength={100}
+						className="block w-full border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+						placeholder="例: 〇〇銀行 普通預金"
+						required
+					/>
+				</div>
+
+				{/* 種別 */}
+				<div>
+					<label
+						htmlFor="accountType"
+						className="block text-sm font-medium text-gray-700 mb-2"
+					>
+						種別
+					</label>
+					<select
+						id="accountType"
+						name="accountType"
+						value={type}
+						onChange={(e) => setType(e.target.value as AccountType)}
+						className="block w-full border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+					>
+						{ACCOUNT_TYPES.map((accountType) => (
+							<option key={accountType} value={accountType}>
+								{ACCOUNT_TYPE_LABELS[accountType]}
+							</option>
+						))}
+					</select>
+				</div>
+
+				{/* 開始残高 */}
+				<div>
+					<label
+						htmlFor="accountOpeningBalance"
+						className="block text-sm font-medium text-gray-700 mb-2"
+					>
+						開始残高
+					</label>
+					<div className="relative">
+						<div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+							<span className="text-gray-500 sm:text-sm">¥</span>
+						</div>
+						<input
+							type="text"
+							id="accountOpeningBalance"
+							name="accountOpeningBalance"
+							inputMode="numeric"
+							value={displayBalance}
+							onChange={(e) =>
+								// 先頭のマイナスのみ許可（クレジットカードの未払い残高など）
+								setDisplayBalance(e.target.value.replace(/(?!^-)[^0-9]/g, ""))
+							}
+							className="block w-full pl-8 pr-12 border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 text-right"
+							placeholder="0"
+						/>
+						<div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
+							<span className="text-gray-500 sm:text-sm">円</span>
+						</div>
+					</div>
+				</div>
+
+				{/* 送信エラー */}
+				{submitError && (
+					<div
+						className="p-3 bg-red-50 border border-red-200 rounded-md"
+						role="alert"
+					>
+						<p className="text-sm text-red-600">{submitError}</p>
+					</div>
+				)}
+
+				{/* ボタン */}
+				<div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+					<button
+						type="button"
+						onClick={handleClose}
+						className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+					>
+						キャンセル
+					</button>
+					<button
+						type="submit"
+						disabled={isSubmitting}
+						className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+					>
+						口座を追加
+					</button>
+				</div>
+			</form>
+		</Modal>
+	);
+}
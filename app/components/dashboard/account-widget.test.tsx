@@ -0,0 +1,187 @@
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	useAccounts,
+	useCreateAccount,
+	useMigratePaymentMethods,
+} from "../../lib/hooks/use-accounts";
+import { AccountWidget } from "./account-widget";
+
+/**
+ * AccountWidget コンポーネントのテスト
+ *
+ * テスト方針:
+ * - 口座ごとの残高と合計残高が表示されることを検証
+ * - 支払い方法からの移行が計画の表示→実行の2段階で行われることを検証
+ * - ローディング・エラー時の表示を検証
+ * - データ取得・更新はuse-accountsのフックをモックする
+ */
+
+vi.mock("../../lib/hooks/use-accounts", () => ({
+	useAccounts: vi.fn(),
+	useCreateAccount: vi.fn(),
+	useMigratePaymentMethods: vi.fn(),
+}));
+
+const mockUseAccounts = vi.mocked(useAccounts);
+const mockUseCreateAccount = vi.mocked(useCreateAccount);
+const mockUseMigratePaymentMethods = vi.mocked(useMigratePaymentMethods);
+
+const accounts = [
+	{
+		id: 1,
+		name: "メイン口座",
+		type: "bank",
+		openingBalance: 100000,
+		color: "#3B82F6",
+		displayOrder: 1,
+		isActive: true,
+		createdAt: "2025-01-01T00:00:00Z",
+		updatedAt: "2025-01-01T00:00:00Z",
+		income: 250000,
+		expense: 80000,
+		balance: 270000,
+		transactionCount: 10,
+	},
+	{
+		id: 2,
+		name: "楽天カード",
+		type: "credit_card",
+		openingBalance: 0,
+		color: null,
+		displayOrder: 2,
+		isActive: true,
+		createdAt: "2025-01-01T00:00:00Z",
+		updatedAt: "2025-01-01T00:00:00Z",
+		income: 0,
+		expense: 32000,
+		balance: -32000,
+		transactionCount: 5,
+	},
+];
+
+const mockPreviewMutate = vi.fn();
+const mockRunMutate = vi.fn();
+
+// 移行フックは計画の取得用・実行用の順に呼ばれる
+const mockMigrationHooks = (plan?: unknown[]) => {
+	mockUseMigratePaymentMethods
+		.mockReturnValueOnce({
+			mutate: mockPreviewMutate,
+			reset: vi.fn(),
+			data: plan
+				? {
+						success: true,
+						data: {
+							dryRun: true,
+							createdAccounts: 0,
+							linkedTransactions: 0,
+							plan,
+						},
+					}
+				: undefined,
+			isPending: false,
+			error: null,
+		} as any)
+		.mockReturnValueOnce({
+			mutate: mockRunMutate,
+			isPending: false,
+			error: null,
+		} as any);
+};
+
+describe("AccountWidget", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		cleanup();
+		mockUseCreateAccount.mockReturnValue({ mutateAsync: vi.fn() } as any);
+	});
+
+	it("口座ごとの残高と合計残高を表示する", () => {
+		mockUseAccounts.mockReturnValue({
+			data: { success: true, data: accounts, totalBalance: 238000 },
+			isLoading: false,
+			error: null,
+		} as any);
+		mockMigrationHooks();
+
+		// 実行
+		render(<AccountWidget />);
+
+		// 検証
+		expect(screen.getByTestId("account-total-balance")).toHaveTextContent(
+			"¥238,000",
+		);
+		const items = screen.getAllByTestId("account-item");
+		expect(items).toHaveLength(2);
+		expect(items[0]).toHaveTextContent("メイン口座");
+		expect(items[0]).toHaveTextContent("銀行");
+		expect(items[0]).toHaveTextContent("¥270,000");
+		// クレジットカードの未払い額は負の残高として表示
+		expect(items[1]).toHaveTextContent("クレジットカード");
+		expect(items[1]).toHaveTextContent("-¥32,000");
+	});
+
+	it("支払い方法からの移行は計画を取得してから実行する", () => {
+		mockUseAccounts.mockReturnValue({
+			data: { success: true, data: [], totalBalance: 0 },
+			isLoading: false,
+			error: null,
+		} as any);
+		mockMigrationHooks();
+
+		// 実行
+		render(<AccountWidget />);
+		fireEvent.click(
+			screen.getByRole("button", { name: "支払い方法から口座を作成" }),
+		);
+
+		// 検証
+		expect(mockPreviewMutate).toHaveBeenCalledWith(true);
+		expect(mockRunMutate).not.toHaveBeenCalled();
+	});
+
+	it("移行計画を表示し、実行ボタンで移行する", () => {
+		mockUseAccounts.mockReturnValue({
+			data: { success: true, data: [], totalBalance: 0 },
+			isLoading: false,
+			error: null,
+		} as any);
+		mockMigrationHooks([
+			{
+				paymentMethod: "credit",
+				transactionCount: 12,
+				accountName: "クレジットカード",
+				accountType: "credit_card",
+				accountId: null,
+			},
+		]);
+
+		// 実行
+		render(<AccountWidget />);
+
+		// 検証
+		expect(screen.getByTestId("migration-plan")).toHaveTextContent(
+			"credit → クレジットカード（新規作成）（12件）",
+		);
+		fireEvent.click(screen.getByRole("button", { name: "移行を実行" }));
+		expect(mockRunMutate).toHaveBeenCalledWith(false);
+	});
+
+	it("取得に失敗した場合はエラーを表示する", () => {
+		mockUseAccounts.mockReturnValue({
+			data: undefined,
+			isLoading: false,
+			error: new Error("network error"),
+		} as any);
+		mockMigrationHooks();
+
+		// 実行
+		render(<AccountWidget />);
+
+		// 検証
+		expect(screen.getByRole("alert")).toHaveTextContent(
+			"口座データの取得に失敗しました",
+		);
+	});
+});
@@ -0,0 +1,210 @@
+import { useState } from "react";
+import type { AccountType } from "../../../db/schema";
+import { ACCOUNT_TYPE_LABELS } from "../../constants/account-types";
+import {
+	useAccounts,
+	useCreateAccount,
+	useMigratePaymentMethods,
+} from "../../lib/hooks/use-accounts";
+import { AccountFormModal } from "./account-form-modal";
+
+/**
+ * ダッシュボード用口座残高ウィジェットコンポーネント
+ *
+ * 設計方針:
+ * - 口座ごとの現在残高（開始残高＋収入−支出）と全口座の合計を表示
+ * - 既存取引の支払い方法（paymentMethod）から口座への移行は、
+ *   まず計画（dryRun）を表示し、確認後に実行する2段階とする
+ * - 口座未登録時は追加・移行の導線のみを表示
+ */
+
+export interface AccountWidgetProps {
+	/**
+	 * 表示する口座の最大件数
+	 */
+	maxItems?: number;
+}
+
+const formatYen = (value: number) =>
+	`${value < 0 ? "-" : ""}¥${Math.abs(value).toLocaleString()}`;
+
+export function AccountWidget({ maxItems = 6 }: AccountWidgetProps) {
+	const [isFormOpen, setIsFormOpen] = useState(false);
+
+	const { data, isLoading, error } = useAccounts({
+		// クライアント側でのみ実行されるようにする（SSR時の問題を回避）
+		enabled: typeof window !== "undefined",
+	});
+
+	const createAccountMutation = useCreateAccount();
+	const previewMigration = useMigratePaymentMethods();
+	const runMigration = useMigratePaymentMethods({
+		// 実行後は計画の表示を閉じる
+		onSuccess: () => previewMigration.reset(),
+	});
+
+	const migrationPlan = previewMigration.data?.data.plan;
+
+	// エラー表示
+	if (error) {
+		return (
+			<div className="bg-white rounded-lg shadow-sm border p-6">
+				<div className="flex items-center space-x-2 text-red-600" role="alert">
+					<span className="text-sm font-medium">
+						口座データの取得に失敗しました
+					</span>
+				</div>
+			</div>
+		);
+	}
+
+	// ローディング表示
+	if (isLoading) {
+		return (
+			<div className="bg-white rounded-lg shadow-sm border p-6 animate-pulse">
+				<div className="w-32 h-6 bg-gray-200 rounded mb-4" />
+				<div className="space-y-3">
+					{["loading-1", "loading-2", "loading-3"].map((loadingKey) => (
+						<div key={loadingKey} className="flex justify-between">
+							<div className="w-24 h-4 bg-gray-200 rounded" />
+							<div className="w-16 h-4 bg-gray-200 rounded" />
+						</div>
+					))}
+				</div>
+			</div>
+		);
+	}
+
+	const accounts = data?.data ?? [];
+
+	return (
+		<div className="bg-white rounded-lg shadow-sm border">
+			{/* ヘッダー */}
+			<div className="px-6 py-4 border-b border-gray-200">
+				<div className="flex items-center justify-between">
+					<h3 className="text-lg font-semibold text-gray-900">口座残高</h3>
+					<button
+						type="button"
+						onClick={() => setIsFormOpen(true)}
+						className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+					>
+						口座を追加
+					</button>
+				</div>
+			</div>
+
+			<div className="p-6 space-y-4">
+				{accounts.length === 0 ? (
+					<p className="text-sm text-gray-500">
+						口座が登録されていません。口座を追加するか、登録済みの取引の支払い方法から移行できます。
+					</p>
+				) : (
+					<>
+						<div className="flex items-baseline justify-between">
+							<span className="text-sm text-gray-600">合計</span>
+							<span
+								className={`text-xl font-bold ${(data?.totalBalance ?? 0) < 0 ? "text-red-600" : "text-gray-900"}`}
+								data-testid="account-total-balance"
+							>
+								{formatYen(data?.totalBalance ?? 0)}
+							</span>
+						</div>
+						<ul className="divide-y divide-gray-100">
+							{accounts.slice(0, maxItems).map((account) => (
+								<li
+									key={account.id}
+									className="flex items-center justify-between py-2"
+									data-testid="account-item"
+								>
+									<span className="flex items-center text-sm text-gray-900 min-w-0">
+										<span
+											className="w-2 h-2 rounded-full mr-2 flex-shrink-0"
+											style={{ backgroundColor: account.color ?? "#6B7280" }}
+										/>
+										<span className="truncate">{account.name}</span>
+										<span className="ml-2 text-xs text-gray-500 flex-shrink-0">
+											{ACCOUNT_TYPE_LABELS[account.type as AccountType] ??
+												account.type}
+										</span>
+									</span>
+									<span
+										className={`text-sm font-medium ${account.balance < 0 ? "text-red-600" : "text-gray-900"}`}
+									>
+										{formatYen(account.balance)}
+									</span>
+								</li>
+							))}
+						</ul>
+					</>
+				)}
+
+				{/* 支払い方法からの移行 */}
+				{migrationPlan ? (
+					<div
+						className="p-3 bg-blue-50 border border-blue-200 rounded-md"
+						data-testid="migration-plan"
+					>
+						{migrationPlan.length === 0 ? (
+							<p className="text-sm text-blue-800">
+								移行が必要な支払い方法はありません
+							</p>
+						) : (
+							<>
+								<p className="text-sm font-medium text-blue-800 mb-2">
+									以下の口座に取引を紐付けます
+								</p>
+								<ul className="text-sm text-blue-800 space-y-1 mb-3">
+									{migrationPlan.map((item) => (
+										<li key={item.paymentMethod}>
+											{`${item.paymentMethod} → ${item.accountName}`}
+											{item.accountId === null && "（新規作成）"}
+											{`（${item.transactionCount}件）`}
+										</li>
+									))}
+								</ul>
+								<button
+									type="button"
+									onClick={() => runMigration.mutate(false)}
+									disabled={runMigration.isPending}
+									className="px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+								>
+									移行を実行
+								</button>
+							</>
+						)}
+						<button
+							type="button"
+							onClick={() => previewMigration.reset()}
+							className="ml-3 text-sm text-gray-600 hover:text-gray-800"
+						>
+							閉じる
+						</button>
+					</div>
+				) : (
+					<button
+						type="button"
+						onClick={() => previewMigration.mutate(true)}
+						disabled={previewMigration.isPending}
+						className="text-sm text-gray-600 hover:text-gray-800 disabled:opacity-50"
+					>
+						支払い方法から口座を作成
+					</button>
+				)}
+
+				{(previewMigration.error || runMigration.error) && (
+					<p className="text-sm text-red-600" role="alert">
+						支払い方法の移行に失敗しました
+					</p>
+				)}
+			</div>
+
+			<AccountFormModal
+				isOpen={isFormOpen}
+				onClose={() => setIsFormOpen(false)}
+				onSubmit={async (account) => {
+					await createAccountMutation.mutateAsync(account);
+				}}
+			/>
+		</div>
+	);
+}
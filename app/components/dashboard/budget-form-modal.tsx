@@ -0,0 +1,173 @@
+import { useCallback, useState } from "react";
+import { useCategoryOptions } from "../../lib/hooks/use-categories";
+import type { CreateBudgetRequest } from "../../lib/schemas/api-responses";
+import { Modal } from "../ui/modal";
+
+/**
+ * 月次予算の設定フォームモーダル
+ *
+ * 設計方針:
+ * - 取引登録フォームと同じくModalを再利用し、保存処理は親コンポーネントが担う
+ * - 対象月は親から受け取り、カテゴリと金額のみを入力させる
+ * - カテゴリ未選択の場合は全支出を対象とする全体予算として登録
+ * - カテゴリの選択肢はAPIから取得し、取得できない場合のみデフォルトカテゴリの固定リストで代替する
+ */
+
+interface BudgetFormModalProps {
+	/** モーダルの表示状態 */
+	isOpen: boolean;
+	/** 予算の対象年 */
+	year: number;
+	/** 予算の対象月（1〜12） */
+	month: number;
+	/** モーダルを閉じる関数 */
+	onClose: () => void;
+	/** フォーム送信時のコールバック */
+	onSubmit: (data: CreateBudgetRequest) => Promise<void>;
+}
+
+export function BudgetFormModal({
+	isOpen,
+	year,
+	month,
+	onClose,
+	onSubmit,
+}: BudgetFormModalProps) {
+	const [displayAmount, setDisplayAmount] = useState("");
+	const [isSubmitting, setIsSubmitting] = useState(false);
+	const [submitError, setSubmitError] = useState<string | null>(null);
+	const { categories: categoryOptions } = useCategoryOptions("expense");
+
+	const handleSubmit = useCallback(
+		async (event: React.FormEvent<HTMLFormElement>) => {
+			event.preventDefault();
+
+			const formData = new FormData(event.currentTarget);
+			const categoryId = formData.get("budgetCategoryId");
+
+			setIsSubmitting(true);
+			setSubmitError(null);
+			try {
+				await onSubmit({
+					categoryId: categoryId ? Number(categoryId) : null,
+					amount: Number.parseInt(displayAmount, 10),
+					period: "monthly",
+					year,
+					month,
+				});
+
+				// 保存成功後に状態をリセットしてモーダルを閉じる
+				setDisplayAmount("");
+				onClose();
+			} catch (error) {
+				console.error("Budget form submit error:", error);
+				setSubmitError(
+					error instanceof Error
+						? error.message
+						: "予算の登録中にエラーが発生しました",
+				);
+			} finally {
+				setIsSubmitting(false);
+			}
+		},
+		[displayAmount, month, onClose, onSubmit, year],
+	);
+
+	// モーダルが閉じられる際の状態リセット
+	const handleClose = useCallback(() => {
+		setDisplayAmount("");
+		setSubmitError(null);
+		onClose();
+	}, [onClose]);
+
+	return (
+		<Modal isOpen={isOpen} onClose={handleClose} title="予算設定" size="sm">
+			<form onSubmit={handleSubmit} className="space-y-6">
+				<p className="text-sm text-gray-600">
+					{year}年{month}月の予算を設定します
+				</p>
+
+				{/* カテゴリ */}
+				<div>
+					<label
+						htmlFor="budgetCategoryId"
+						className="block text-sm font-medium text-gray-700 mb-2"
+					>
+						カテゴリ
+					</label>
+					<select
+						id="budgetCategoryId"
+						name="budgetCategoryId"
+						className="block w-full border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+					>
+						<option value="">全体（すべての支出）</option>
+						{categoryOptions.map((category) => (
+							<option key={category.id} value={category.id}>
+								{category.name}
+							</option>
+						))}
+					</select>
+				</div>
+
+				{/* 金額入力 */}
+				<div>
+					<label
+						htmlFor="budgetAmount"
+						className="block text-sm font-medium text-gray-700 mb-2"
+					>
+						予算金額 <span className="text-red-500">*</span>
+					</label>
+					<div className="relative">
+						<div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+							<span className="text-gray-500 sm:text-sm">¥</span>
+						</div>
+						<input
+							type="text"
+							id="budgetAmount"
+							name="budgetAmount"
+							inputMode="numeric"
+							value={displayAmount}
+							onChange={(e) =>
+								setDisplayAmount(e.target.value.replace(/[^0-9]/g, ""))
+							}
+							className="block w-full pl-8 pr-12 border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 text-right"
+							placeholder="0"
+							required
+						/>
+						<div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
+							<span className="text-gray-500 sm:text-sm">円</span>
+						</div>
+					</div>
+				</div>
+
+				{/* 送信エラー */}
+				{submitError && (
+					<div
+						className="p-3 bg-red-50 border border-red-200 rounded-md"
+						role="alert"
+					>
+						<p className="text-sm text-red-600">{submitError}</p>
+					</div>
+				)}
+
+				{/* ボタン */}
+				<div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+					<button
+						type="button"
+						onClick={handleClose}
+						className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+					>
+						キャンセル
+					</button>
+					<button
+						type="submit"
+						disabled={isSubmitting}
+						className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+					>
+						予算を設定
+					</button>
+				</div>
+			</form>
+		</Modal>
+	);
+}
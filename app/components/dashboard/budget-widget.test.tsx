@@ -0,0 +1,138 @@
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { useBudgetStatus, useCreateBudget } from "../../lib/hooks/use-budgets";
+import { useCategoryOptions } from "../../lib/hooks/use-categories";
+import { BudgetWidget } from "./budget-widget";
+
+/**
+ * BudgetWidget コンポーネントのテスト
+ *
+ * テスト方針:
+ * - 予算未設定時にプレースホルダーから設定モーダルを開けることを検証
+ * - 予算ごとの消化状況・超過警告・1日あたりの目安が表示されることを検証
+ * - データ取得はuse-budgetsのフックをモックする
+ * - 設定モーダルのカテゴリの選択肢はuseCategoryOptionsをモックする
+ */
+
+vi.mock("../../lib/hooks/use-budgets", () => ({
+	useBudgetStatus: vi.fn(),
+	useCreateBudget: vi.fn(),
+}));
+
+vi.mock("../../lib/hooks/use-categories", () => ({
+	useCategoryOptions: vi.fn(),
+}));
+
+const mockUseBudgetStatus = vi.mocked(useBudgetStatus);
+const mockUseCreateBudget = vi.mocked(useCreateBudget);
+const mockUseCategoryOptions = vi.mocked(useCategoryOptions);
+
+const createBudgetProgress = (overrides: Record<string, unknown>) => ({
+	id: 1,
+	categoryId: 1,
+	amount: 30000,
+	period: "monthly",
+	year: 2025,
+	month: 7,
+	createdAt: "2025-07-01T00:00:00Z",
+	updatedAt: "2025-07-01T00:00:00Z",
+	category: {
+		id: 1,
+		name: "食費",
+		type: "expense",
+		color: "#FF6B6B",
+		icon: "utensils",
+	},
+	spent: 12000,
+	remaining: 18000,
+	percentage: 40,
+	isOverBudget: false,
+	remainingDays: 10,
+	remainingPerDay: 1800,
+	...overrides,
+});
+
+const mockStatus = (budgets: unknown[]) => {
+	mockUseBudgetStatus.mockReturnValue({
+		data: {
+			success: true,
+			data: {
+				startDate: "2025-07-01",
+				endDate: "2025-07-31",
+				totalDays: 31,
+				totalSpent: 0,
+				budgets,
+			},
+		},
+		isLoading: false,
+		error: null,
+	} as any);
+};
+
+describe("BudgetWidget", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		cleanup();
+		mockUseCreateBudget.mockReturnValue({ mutateAsync: vi.fn() } as any);
+		mockUseCategoryOptions.mockReturnValue({
+			categories: [{ id: 1, name: "食費", type: "expense", isActive: true }],
+			isFallback: false,
+			isLoading: false,
+		});
+	});
+
+	it("予算未設定の場合、プレースホルダーから設定モーダルを開ける", () => {
+		mockStatus([]);
+
+		// 実行
+		render(<BudgetWidget />);
+		fireEvent.click(screen.getByTestId("budget-cta-button"));
+
+		// 検証
+		expect(screen.getByTestId("budget-placeholder")).toBeInTheDocument();
+		expect(screen.getByText("予算設定")).toBeInTheDocument();
+	});
+
+	it("予算ごとの消化状況と1日あたりの目安が表示される", () => {
+		mockStatus([createBudgetProgress({})]);
+
+		// 実行
+		render(<BudgetWidget />);
+
+		// 検証
+		expect(screen.getByText("食費")).toBeInTheDocument();
+		expect(
+			screen.getByText("残り ¥18,000（1日あたり ¥1,800）"),
+		).toBeInTheDocument();
+		expect(screen.getByTestId("budget-progress-bar")).toHaveStyle({
+			width: "40%",
+		});
+		expect(screen.queryByRole("alert")).not.toBeInTheDocument();
+	});
+
+	it("予算超過時は警告と超過額が表示される", () => {
+		mockStatus([
+			createBudgetProgress({
+				id: 2,
+				categoryId: null,
+				category: null,
+				amount: 100000,
+				spent: 120000,
+				remaining: -20000,
+				percentage: 120,
+				isOverBudget: true,
+				remainingPerDay: null,
+			}),
+		]);
+
+		// 実行
+		render(<BudgetWidget />);
+
+		// 検証
+		expect(screen.getByText("全体")).toBeInTheDocument();
+		expect(screen.getByRole("alert")).toHaveTextContent(
+			"1件の予算を超過しています",
+		);
+		expect(screen.getByText("¥20,000 超過")).toBeInTheDocument();
+	});
+});
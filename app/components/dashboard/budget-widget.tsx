@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { useBudgetStatus, useCreateBudget } from "../../lib/hooks/use-budgets";
+import type { BudgetProgress } from "../../lib/schemas/api-responses";
+import { BudgetFormModal } from "./budget-form-modal";
+import { BudgetPlaceholder } from "./budget-placeholder";
+
+/**
+ * ダッシュボード用予算ウィジェットコンポーネント
+ *
+ * 設計方針:
+ * - 今月の月次予算ごとに予算額と支出実績をプログレスバーで表示
+ * - 消化率80%以上で注意、超過時は警告として色分け
+ * - 残り日数で割った「1日あたり使える金額」を表示し、日々の支出の目安にする
+ * - 予算未設定時は既存のBudgetPlaceholderを表示し、設定モーダルへ誘導
+ */
+
+export interface BudgetWidgetProps {
+	/**
+	 * 表示する予算の最大件数
+	 */
+	maxItems?: number;
+}
+
+// 注意表示に切り替える消化率（%）
+const WARNING_PERCENTAGE = 80;
+
+// 消化率に応じたプログレスバーの色
+const getProgressColorClass = (budget: BudgetProgress): string => {
+	if (budget.isOverBudget) return "bg-red-500";
+	if (budget.percentage >= WARNING_PERCENTAGE) return "bg-yellow-500";
+	return "bg-green-500";
+};
+
+// 残額・1日あたりの目安の表示テキスト
+const getGuidanceText = (budget: BudgetProgress): string => {
+	if (budget.isOverBudget) {
+		return `¥${Math.abs(budget.remaining).toLocaleString()} 超過`;
+	}
+	if (budget.remainingPerDay !== null) {
+		return `残り ¥${budget.remaining.toLocaleString()}（1日あたり ¥${budget.remainingPerDay.toLocaleString()}）`;
+	}
+	return `残り ¥${budget.remaining.toLocaleString()}`;
+};
+
+export function BudgetWidget({ maxItems = 5 }: BudgetWidgetProps) {
+	const [isFormOpen, setIsFormOpen] = useState(false);
+
+	// 今月を対象に予算状況を取得
+	const now = new Date();
+	const year = now.getFullYear();
+	const month = now.getMonth() + 1;
+
+	const { data, isLoading, error } = useBudgetStatus(
+		{ period: "monthly", year, month },
+		{
+			// クライアント側でのみ実行されるようにする（SSR時の問題を回避）
+			enabled: typeof window !== "undefined",
+		},
+	);
+
+	const createBudgetMutation = useCreateBudget();
+
+	const formModal = (
+		<BudgetFormModal
+			isOpen={isFormOpen}
+			year={year}
+			month={month}
+			onClose={() => setIsFormOpen(false)}
+			onSubmit={async (budget) => {
+				await createBudgetMutation.mutateAsync(budget);
+			}}
+		/>
+	);
+
+	// エラー表示
+	if (error) {
+		return (
+			<div className="bg-white rounded-lg shadow-sm border p-6">
+				<div className="flex items-center space-x-2 text-red-600">
+					<svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+						<path
+							fillRule="evenodd"
+							d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z"
+							clipRule="evenodd"
+						/>
+					</svg>
+					<span className="text-sm font-medium">
+						予算データの取得に失敗しました
+					</span>
+				</div>
+			</div>
+		);
+	}
+
+	// ローディング表示
+	if (isLoading) {
+		return (
+			<div className="bg-white rounded-lg shadow-sm border p-6 animate-pulse">
+				<div className="w-32 h-6 bg-gray-200 rounded mb-4" />
+				<div className="space-y-4">
+					{["loading-1", "loading-2", "loading-3"].map((loadingKey) => (
+						<div key={loadingKey}>
+							<div className="w-24 h-4 bg-gray-200 rounded mb-2" />
+							<div className="w-full h-2 bg-gray-200 rounded" />
+						</div>
+					))}
+				</div>
+			</div>
+		);
+	}
+
+	const budgets = data?.data.budgets ?? [];
+
+	// 予算未設定時はプレースホルダーから設定モーダルへ誘導
+	if (budgets.length === 0) {
+		return (
+			<>
+				<BudgetPlaceholder onSetBudgetClick={() => setIsFormOpen(true)} />
+				{formModal}
+			</>
+		);
+	}
+
+	const overBudgets = budgets.filter((budget) => budget.isOverBudget);
+
+	return (
+		<div className="bg-white rounded-lg shadow-sm border">
+			{/* ヘッダー */}
+			<div className="px-6 py-4 border-b border-gray-200">
+				<div className="flex items-center justify-between">
+					<h3 className="text-lg font-semibold text-gray-900">今月の予算</h3>
+					<button
+						type="button"
+						onClick={() => setIsFormOpen(true)}
+						className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+					>
+						予算を追加
+					</button>
+				</div>
+			</div>
+
+			<div className="p-6">
+				{/* 予算超過の警告 */}
+				{overBudgets.length > 0 && (
+					<div
+						className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md"
+						role="alert"
+					>
+						<p className="text-sm font-medium text-red-800">
+							{overBudgets.length}件の予算を超過しています
+						</p>
+					</div>
+				)}
+
+				{/* 予算ごとの進捗 */}
+				<ul className="space-y-4">
+					{budgets.slice(0, maxItems).map((budget) => (
+						<li key={budget.id} data-testid="budget-item">
+							<div className="flex items-center justify-between mb-1">
+								<span className="flex items-center text-sm font-medium text-gray-900">
+									<span
+										className="w-2 h-2 rounded-full mr-2"
+										style={{
+											backgroundColor: budget.category?.color ?? "#6B7280",
+										}}
+									/>
+									{budget.category?.name ?? "全体"}
+								</span>
+								<span className="text-sm text-gray-600">
+									¥{budget.spent.toLocaleString()} / ¥
+									{budget.amount.toLocaleString()}
+								</span>
+							</div>
+							<div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+								<div
+									className={`h-full rounded-full ${getProgressColorClass(budget)}`}
+									data-testid="budget-progress-bar"
+									style={{ width: `${Math.min(budget.percentage, 100)}%` }}
+								/>
+							</div>
+							<p
+								className={`text-xs mt-1 ${budget.isOverBudget ? "text-red-600 font-medium" : "text-gray-500"}`}
+							>
+								{getGuidanceText(budget)}
+							</p>
+						</li>
+					))}
+				</ul>
+			</div>
+
+			{formModal}
+		</div>
+	);
+}
@@ -14,3 +14,12 @@ export { SubscriptionWidget } from "./subscription-widget";
 export type { SubscriptionWidgetProps } from "./subscription-widget";
 
 export { BudgetPlaceholder } from "./budget-placeholder";
+
+export { BudgetWidget } from "./budget-widget";
+export type { BudgetWidgetProps } from "./budget-widget";
+
+export { AccountWidget } from "./account-widget";
+export type { AccountWidgetProps } from "./account-widget";
+
+export { UpcomingPaymentsWidget } from "./upcoming-payments-widget";
+export type { UpcomingPaymentsWidgetProps } from "./upcoming-payments-widget";
@@ -1,6 +1,8 @@
 import { useMemo } from "react";
 import { Link } from "react-router";
+import { getDaysUntil, getTodayInJst } from "../../../db/queries/recurrence";
 import type { SelectSubscription } from "../../../db/schema";
+import { getFrequencyLabel } from "../../constants/subscription-frequencies";
 import {
 	useActiveSubscriptions,
 	useInactiveSubscriptions,
@@ -43,6 +45,7 @@ interface SubscriptionDisplayItem {
 	nextPaymentDate: string;
 	isActive: boolean;
 	frequency: string;
+	intervalCount: number;
 	categoryName?: string;
 	daysUntilPayment: number;
 }
@@ -77,16 +80,17 @@ export function SubscriptionWidget({
 
 	// 表示用データの整形とソート
 	const { activeItems, inactiveItems } = useMemo(() => {
-		const today = new Date();
-		today.setHours(0, 0, 0, 0);
+		// 支払日までの日数は日本時間の今日を基準に日付単位で計算する
+		const today = getTodayInJst();
 
 		// アクティブなサブスクリプションの処理
 		const activeSubscriptions = activeSubscriptionsResponse?.data || [];
 		const processedActive = activeSubscriptions
 			.map((subscription): SubscriptionDisplayItem => {
-				const nextPaymentDate = new Date(subscription.nextPaymentDate);
-				const timeDiff = nextPaymentDate.getTime() - today.getTime();
-				const daysUntilPayment = Math.ceil(timeDiff / (1000 * 60 * 60 * 24));
+				const daysUntilPayment = getDaysUntil(
+					subscription.nextPaymentDate,
+					today,
+				);
 
 				return {
 					id: subscription.id,
@@ -95,6 +99,7 @@ export function SubscriptionWidget({
 					nextPaymentDate: subscription.nextPaymentDate,
 					isActive: subscription.isActive,
 					frequency: subscription.frequency,
+					intervalCount: subscription.intervalCount,
 					daysUntilPayment,
 				};
 			})
@@ -112,6 +117,7 @@ export function SubscriptionWidget({
 					nextPaymentDate: subscription.nextPaymentDate,
 					isActive: subscription.isActive,
 					frequency: subscription.frequency,
+					intervalCount: subscription.intervalCount,
 					daysUntilPayment: 0, // 停止中は支払日計算不要
 				}),
 			)
@@ -128,27 +134,14 @@ export function SubscriptionWidget({
 		maxInactiveItems,
 	]);
 
-	// 頻度の日本語ラベル取得
-	const getFrequencyLabel = (frequency: string): string => {
-		const labels: Record<string, string> = {
-			daily: "日次",
-			weekly: "週次",
-			monthly: "月次",
-			yearly: "年次",
-		};
-		return labels[frequency] || frequency;
-	};
-
 	// 次回支払日の表示テキスト取得
 	const getPaymentDateDisplay = (
 		dateString: string,
 		daysUntilPayment: number,
 	): { text: string; colorClass: string } => {
-		const date = new Date(dateString);
-		const formattedDate = date.toLocaleDateString("ja-JP", {
-			month: "short",
-			day: "numeric",
-		});
+		// 実行環境のタイムゾーンで日付がずれないよう、文字列から月日を取り出す
+		const [, month, day] = dateString.split("-").map(Number);
+		const formattedDate = `${month}月${day}日`;
 
 		if (daysUntilPayment < 0) {
 			return {
@@ -272,7 +265,10 @@ export function SubscriptionWidget({
 													{item.name}
 												</span>
 												<span className="text-xs text-gray-500 bg-gray-200 px-2 py-1 rounded">
-													{getFrequencyLabel(item.frequency)}
+													{getFrequencyLabel(
+														item.frequency,
+														item.intervalCount,
+													)}
 												</span>
 											</div>
 											{!compact && (
@@ -0,0 +1,151 @@
+import { cleanup, render, screen } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { useDashboardSummary } from "../../lib/hooks/use-dashboard";
+import { SummaryCards } from "./summary-cards";
+
+/**
+ * SummaryCards コンポーネントのテスト
+ *
+ * テスト方針:
+ * - 今月の収入・支出・収支・サブスク月額と前月比が表示されることを検証
+ * - 前月比の色が指標ごとの良し悪しに応じて変わることを検証
+ * - ローディング・エラー時の表示を検証
+ * - データ取得はuse-dashboardのフックをモックする
+ */
+
+vi.mock("../../lib/hooks/use-dashboard", () => ({
+	useDashboardSummary: vi.fn(),
+}));
+
+const mockUseDashboardSummary = vi.mocked(useDashboardSummary);
+
+const summary = {
+	month: "2025-07",
+	previousMonth: "2025-06",
+	income: { current: 300000, previous: 250000, change: 50000, changeRate: 20 },
+	expense: {
+		current: 200000,
+		previous: 160000,
+		change: 40000,
+		changeRate: 25,
+	},
+	balance: {
+		current: 100000,
+		previous: 90000,
+		change: 10000,
+		changeRate: 11.1,
+	},
+	subscriptions: {
+		current: 1980,
+		previous: 0,
+		change: 1980,
+		changeRate: null,
+		monthlyTotal: 4980,
+	},
+};
+
+describe("SummaryCards", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		cleanup();
+	});
+
+	it("今月の金額と前月比を表示する", () => {
+		mockUseDashboardSummary.mockReturnValue({
+			data: { success: true, data: summary },
+			isLoading: false,
+			error: null,
+		} as any);
+
+		// 実行
+		render(<SummaryCards />);
+
+		// 検証
+		expect(screen.getByTestId("summary-value-income")).toHaveTextContent(
+			"¥300,000",
+		);
+		expect(screen.getByTestId("summary-value-expense")).toHaveTextContent(
+			"¥200,000",
+		);
+		expect(screen.getByTestId("summary-value-balance")).toHaveTextContent(
+			"¥100,000",
+		);
+		expect(screen.getByTestId("summary-value-subscriptions")).toHaveTextContent(
+			"¥4,980",
+		);
+		expect(screen.getByTestId("summary-change-income")).toHaveTextContent(
+			"前月比 +¥50,000（+20%）",
+		);
+		// サブスクは月額換算を表示し、前月比は支払額どうしで比較する（前月が0の場合は割合を表示しない）
+		expect(
+			screen.getByTestId("summary-change-subscriptions"),
+		).toHaveTextContent("支払額の前月比 +¥1,980");
+		expect(
+			screen.getByTestId("summary-change-subscriptions").textContent,
+		).not.toContain("%");
+	});
+
+	it("収入の増加は緑、支出の増加は赤で表示する", () => {
+		mockUseDashboardSummary.mockReturnValue({
+			data: { success: true, data: summary },
+			isLoading: false,
+			error: null,
+		} as any);
+
+		// 実行
+		render(<SummaryCards />);
+
+		// 検証
+		expect(screen.getByTestId("summary-change-income")).toHaveClass(
+			"text-green-600",
+		);
+		expect(screen.getByTestId("summary-change-expense")).toHaveClass(
+			"text-red-600",
+		);
+	});
+
+	it("compact指定時は前月比を表示しない", () => {
+		mockUseDashboardSummary.mockReturnValue({
+			data: { success: true, data: summary },
+			isLoading: false,
+			error: null,
+		} as any);
+
+		// 実行
+		render(<SummaryCards compact />);
+
+		// 検証
+		expect(screen.getByTestId("summary-value-income")).toBeInTheDocument();
+		expect(screen.queryByTestId("summary-change-income")).toBeNull();
+	});
+
+	it("ローディング中はスケルトンを表示する", () => {
+		mockUseDashboardSummary.mockReturnValue({
+			data: undefined,
+			isLoading: true,
+			error: null,
+		} as any);
+
+		// 実行
+		render(<SummaryCards />);
+
+		// 検証
+		expect(screen.getByTestId("summary-cards-loading")).toBeInTheDocument();
+	});
+
+	it("取得に失敗した場合はエラーを表示する", () => {
+		mockUseDashboardSummary.mockReturnValue({
+			data: undefined,
+			isLoading: false,
+			error: new Error("ネットワークエラー"),
+		} as any);
+
+		// 実行
+		render(<SummaryCards />);
+
+		// 検証
+		expect(screen.getByRole("alert")).toHaveTextContent(
+			"サマリーの取得に失敗しました",
+		);
+	});
+});
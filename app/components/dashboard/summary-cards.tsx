@@ -1,72 +1,205 @@
+import { useDashboardSummary } from "../../lib/hooks/use-dashboard";
+import type { SummaryComparison } from "../../lib/schemas/api-responses";
+
 /**
- * ダッシュボード用サマリーカードコンポーネント（簡易版）
+ * ダッシュボード用サマリーカードコンポーネント
  *
  * 設計方針:
- * - サブスクリプション管理に特化したダッシュボード
+ * - 今月の収入・支出・収支とサブスクの月額負担を前月比付きで表示
+ * - サブスクは月額換算の履歴を持たないため、金額は月額換算、前月比は今月と前月の支払額どうしで表示する
+ * - 全カードのデータは /api/dashboard/summary の1リクエストで取得する
  * - レスポンシブデザインでモバイルファーストを採用
  * - アイコンとカラーリングで視覚的な分かりやすさを重視
  */
 
 export interface SummaryCardsProps {
 	/**
-	 * カードの表示を簡潔にするかどうか
+	 * カードの表示を簡潔にするかどうか（前月比の表示を省略）
 	 */
 	compact?: boolean;
 }
 
-export function SummaryCards({ compact = false }: SummaryCardsProps) {
+// 前月比の色: 増えると良い指標（収入・収支）と減ると良い指標（支出・サブスク）で逆にする
+type ChangeDirection = "higher-is-better" | "lower-is-better";
+
+interface SummaryCardConfig {
+	key: "income" | "expense" | "balance" | "subscriptions";
+	label: string;
+	comparisonLabel: string;
+	direction: ChangeDirection;
+	iconClassName: string;
+	iconPath: string;
+}
+
+const CARD_CONFIGS: SummaryCardConfig[] = [
+	{
+		key: "income",
+		label: "今月の収入",
+		comparisonLabel: "前月比",
+		direction: "higher-is-better",
+		iconClassName: "bg-green-50 text-green-600",
+		iconPath: "M7 11l5-5m0 0l5 5m-5-5v12",
+	},
+	{
+		key: "expense",
+		label: "今月の支出",
+		comparisonLabel: "前月比",
+		direction: "lower-is-better",
+		iconClassName: "bg-red-50 text-red-600",
+		iconPath: "M17 13l-5 5m0 0l-5-5m5 5V6",
+	},
+	{
+		key: "balance",
+		label: "今月の収支",
+		comparisonLabel: "前月比",
+		direction: "higher-is-better",
+		iconClassName: "bg-blue-50 text-blue-600",
+		iconPath:
+			"M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z",
+	},
+	{
+		key: "subscriptions",
+		label: "サブスク月額",
+		// 月額換算の履歴は持たないため、今月と前月に記録された支払額どうしを比較する
+		comparisonLabel: "支払額の前月比",
+		direction: "lower-is-better",
+		iconClassName: "bg-purple-50 text-purple-600",
+		iconPath:
+			"M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15",
+	},
+];
+
+const formatYen = (value: number) =>
+	`${value < 0 ? "-" : ""}¥${Math.abs(value).toLocaleString()}`;
+
+// 前月比の表示（増加は+、減少は-を付け、前月が0でなければ割合も併記）
+const formatChange = ({ change, changeRate }: SummaryComparison) => {
+	const sign = change > 0 ? "+" : change < 0 ? "-" : "±";
+	const amount = `${sign}¥${Math.abs(change).toLocaleString()}`;
+	return changeRate === null
+		? amount
+		: `${amount}（${sign}${Math.abs(changeRate)}%）`;
+};
+
+const getChangeClassName = (change: number, direction: ChangeDirection) => {
+	if (change === 0) return "text-gray-500";
+	const isImproved = direction === "higher-is-better" ? change > 0 : change < 0;
+	return isImproved ? "text-green-600" : "text-red-600";
+};
+
+function SummaryCard({
+	config,
+	value,
+	displayValue,
+	compact,
+}: {
+	config: SummaryCardConfig;
+	value: SummaryComparison;
+	displayValue: number; // カードに表示する金額（前月比の対象と異なる場合がある）
+	compact: boolean;
+}) {
 	return (
-		<div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 md:gap-6">
-			<div className="bg-white p-4 md:p-6 rounded-lg shadow-sm border border-gray-200 hover:shadow-md transition-shadow">
-				<div className="flex items-center">
-					<div className="p-2 rounded-lg bg-blue-50">
-						<div className="text-blue-600">
-							<svg
-								className="w-6 h-6"
-								fill="none"
-								stroke="currentColor"
-								viewBox="0 0 24 24"
-							>
-								<path
-									strokeLinecap="round"
-									strokeLinejoin="round"
-									strokeWidth={2}
-									d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
-								/>
-							</svg>
-						</div>
-					</div>
-					<div className="ml-4 flex-1">
-						<p className="text-sm font-medium text-gray-600">サブスク管理</p>
-						<p className="text-2xl font-bold text-gray-900">準備完了</p>
-					</div>
+		<div
+			className="bg-white p-4 md:p-6 rounded-lg shadow-sm border border-gray-200 hover:shadow-md transition-shadow"
+			data-testid={`summary-card-${config.key}`}
+		>
+			<div className="flex items-center">
+				<div className={`p-2 rounded-lg ${config.iconClassName}`}>
+					<svg
+						className="w-6 h-6"
+						fill="none"
+						stroke="currentColor"
+						viewBox="0 0 24 24"
+						aria-hidden="true"
+					>
+						<path
+							strokeLinecap="round"
+							strokeLinejoin="round"
+							strokeWidth={2}
+							d={config.iconPath}
+						/>
+					</svg>
+				</div>
+				<div className="ml-4 flex-1 min-w-0">
+					<p className="text-sm font-medium text-gray-600">{config.label}</p>
+					<p
+						className={`text-2xl font-bold ${displayValue < 0 ? "text-red-600" : "text-gray-900"}`}
+						data-testid={`summary-value-${config.key}`}
+					>
+						{formatYen(displayValue)}
+					</p>
+					{!compact && (
+						<p
+							className={`text-xs mt-1 ${getChangeClassName(value.change, config.direction)}`}
+							data-testid={`summary-change-${config.key}`}
+						>
+							{config.comparisonLabel} {formatChange(value)}
+						</p>
+					)}
 				</div>
 			</div>
-			<div className="bg-white p-4 md:p-6 rounded-lg shadow-sm border border-gray-200 hover:shadow-md transition-shadow">
-				<div className="flex items-center">
-					<div className="p-2 rounded-lg bg-green-50">
-						<div className="text-green-600">
-							<svg
-								className="w-6 h-6"
-								fill="none"
-								stroke="currentColor"
-								viewBox="0 0 24 24"
-							>
-								<path
-									strokeLinecap="round"
-									strokeLinejoin="round"
-									strokeWidth={2}
-									d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z"
-								/>
-							</svg>
-						</div>
-					</div>
-					<div className="ml-4 flex-1">
-						<p className="text-sm font-medium text-gray-600">状態</p>
-						<p className="text-2xl font-bold text-gray-900">正常稼働</p>
+		</div>
+	);
+}
+
+export function SummaryCards({ compact = false }: SummaryCardsProps) {
+	const { data, isLoading, error } = useDashboardSummary({
+		// クライアント側でのみ実行されるようにする（SSR時の問題を回避）
+		enabled: typeof window !== "undefined",
+	});
+
+	if (error) {
+		return (
+			<div
+				className="bg-red-50 border border-red-200 rounded-lg p-4"
+				role="alert"
+			>
+				<p className="text-sm font-medium text-red-800">
+					サマリーの取得に失敗しました
+				</p>
+				<p className="text-sm text-red-700 mt-1">
+					{error.message || "不明なエラーが発生しました"}
+				</p>
+			</div>
+		);
+	}
+
+	const summary = data?.data;
+
+	if (isLoading || !summary) {
+		return (
+			<div
+				className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 md:gap-6 animate-pulse"
+				data-testid="summary-cards-loading"
+			>
+				{CARD_CONFIGS.map((config) => (
+					<div
+						key={config.key}
+						className="bg-white p-4 md:p-6 rounded-lg shadow-sm border border-gray-200"
+					>
+						<div className="w-20 h-4 bg-gray-200 rounded mb-2" />
+						<div className="w-28 h-6 bg-gray-200 rounded" />
 					</div>
-				</div>
+				))}
 			</div>
+		);
+	}
+
+	return (
+		<div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 md:gap-6">
+			{CARD_CONFIGS.map((config) => (
+				<SummaryCard
+					key={config.key}
+					config={config}
+					value={summary[config.key]}
+					displayValue={
+						config.key === "subscriptions"
+							? summary.subscriptions.monthlyTotal
+							: summary[config.key].current
+					}
+					compact={compact}
+				/>
+			))}
 		</div>
 	);
 }
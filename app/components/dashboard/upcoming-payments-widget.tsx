@@ -0,0 +1,194 @@
+import { Link } from "react-router";
+import { useUpcomingSubscriptionEvents } from "../../lib/hooks/use-subscriptions";
+import type { UpcomingSubscriptionEvent } from "../../lib/schemas/api-responses";
+
+/**
+ * ダッシュボード用「今後の支払い」ウィジェットコンポーネント
+ *
+ * 設計方針:
+ * - 今日から指定日数後までのサブスクリプションの支払い・トライアル終了・解約期限を日付ごとのタイムラインで表示
+ * - 解約期限はリマインダーで解約期限を設定したサブスクリプションのみ表示される
+ * - 期間内の支払額の合計を見出しに表示し、近い将来の出費の目安にする
+ */
+
+export interface UpcomingPaymentsWidgetProps {
+	/**
+	 * 表示する期間（今日から何日後まで）
+	 */
+	days?: number;
+}
+
+// 予定の種類の表示名と色
+const EVENT_TYPE_LABELS: Record<
+	UpcomingSubscriptionEvent["type"],
+	{ label: string; className: string }
+> = {
+	payment: { label: "支払い", className: "bg-blue-100 text-blue-800" },
+	trial_end: {
+		label: "トライアル終了",
+		className: "bg-yellow-100 text-yellow-800",
+	},
+	cancellation_deadline: {
+		label: "解約期限",
+		className: "bg-red-100 text-red-800",
+	},
+};
+
+// 日付の表示（M/D）
+const formatDate = (date: string): string => {
+	const [, month, day] = date.split("-");
+	return `${Number(month)}/${Number(day)}`;
+};
+
+// 今日からの日数の表示
+const formatDaysUntil = (daysUntil: number): string =>
+	daysUntil === 0 ? "今日" : `あと${daysUntil}日`;
+
+// 予定を日付ごとにまとめる（予定は日付順に並んでいる）
+const groupByDate = (
+	events: UpcomingSubscriptionEvent[],
+): {
+	date: string;
+	daysUntil: number;
+	events: UpcomingSubscriptionEvent[];
+}[] => {
+	const groups: {
+		date: string;
+		daysUntil: number;
+		events: UpcomingSubscriptionEvent[];
+	}[] = [];
+	for (const event of events) {
+		const last = groups[groups.length - 1];
+		if (last && last.date === event.date) {
+			last.events.push(event);
+		} else {
+			groups.push({
+				date: event.date,
+				daysUntil: event.daysUntil,
+				events: [event],
+			});
+		}
+	}
+	return groups;
+};
+
+export function UpcomingPaymentsWidget({
+	days = 30,
+}: UpcomingPaymentsWidgetProps) {
+	const { data, isLoading, error } = useUpcomingSubscriptionEvents(
+		{ days },
+		{
+			// クライアント側でのみ実行されるようにする（SSR時の問題を回避）
+			enabled: typeof window !== "undefined",
+		},
+	);
+
+	// エラー表示
+	if (error) {
+		return (
+			<div className="bg-white rounded-lg shadow-sm border p-6">
+				<div className="flex items-center space-x-2 text-red-600">
+					<svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+						<path
+							fillRule="evenodd"
+							d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z"
+							clipRule="evenodd"
+						/>
+					</svg>
+					<span className="text-sm font-medium">
+						今後の支払いの取得に失敗しました
+					</span>
+				</div>
+			</div>
+		);
+	}
+
+	// ローディング表示
+	if (isLoading) {
+		return (
+			<div className="bg-white rounded-lg shadow-sm border p-6 animate-pulse">
+				<div className="w-32 h-6 bg-gray-200 rounded mb-4" />
+				<div className="space-y-3">
+					{["loading-1", "loading-2", "loading-3"].map((loadingKey) => (
+						<div key={loadingKey} className="w-full h-4 bg-gray-200 rounded" />
+					))}
+				</div>
+			</div>
+		);
+	}
+
+	const events = data?.data ?? [];
+	const paymentTotal = events
+		.filter((event) => event.type === "payment")
+		.reduce((sum, event) => sum + (event.amount ?? 0), 0);
+
+	return (
+		<div className="bg-white rounded-lg shadow-sm border">
+			<div className="px-6 py-4 border-b border-gray-200">
+				<div className="flex items-center justify-between">
+					<h2 className="text-lg font-semibold text-gray-900">今後の支払い</h2>
+					<span className="text-sm text-gray-600">
+						{days}日間の合計 ¥{paymentTotal.toLocaleString()}
+					</span>
+				</div>
+			</div>
+
+			<div className="p-6">
+				{events.length === 0 ? (
+					<p className="text-sm text-center text-gray-500">
+						{days}日以内の支払いの予定はありません
+					</p>
+				) : (
+					<ol className="relative border-l border-gray-200 ml-2 space-y-5">
+						{groupByDate(events).map((group) => (
+							<li key={group.date} className="ml-4">
+								<span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-blue-500 border-2 border-white" />
+								<p className="text-sm font-medium text-gray-900">
+									{formatDate(group.date)}
+									<span className="ml-2 text-xs font-normal text-gray-500">
+										{formatDaysUntil(group.daysUntil)}
+									</span>
+								</p>
+								<ul className="mt-2 space-y-1">
+									{group.events.map((event) => (
+										<li
+											key={`${event.subscriptionId}-${event.type}`}
+											className="flex items-center justify-between text-sm"
+										>
+											<span className="flex items-center gap-2 min-w-0">
+												<span
+													className={`inline-flex shrink-0 items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+														EVENT_TYPE_LABELS[event.type].className
+													}`}
+												>
+													{EVENT_TYPE_LABELS[event.type].label}
+												</span>
+												<span className="truncate text-gray-700">
+													{event.name}
+												</span>
+											</span>
+											{event.amount !== null && (
+												<span className="shrink-0 ml-2 text-gray-900">
+													¥{event.amount.toLocaleString()}
+												</span>
+											)}
+										</li>
+									))}
+								</ul>
+							</li>
+						))}
+					</ol>
+				)}
+
+				<div className="mt-6 text-right">
+					<Link
+						to="/subscriptions"
+						className="text-sm text-blue-600 hover:text-blue-800"
+					>
+						リマインダーを設定する
+					</Link>
+				</div>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,9 @@
+/**
+ * 分割払いコンポーネントの統合エクスポート
+ *
+ * 設計方針:
+ * - 分割払いの登録・一覧関連コンポーネントの単一エントリーポイント
+ */
+
+export { InstallmentPlanForm } from "./installment-plan-form";
+export { InstallmentPlanList } from "./installment-plan-list";
@@ -0,0 +1,329 @@
+import { useState } from "react";
+import { getTodayInJst } from "../../../db/queries/recurrence";
+import {
+	type InstallmentPaymentType,
+	MAX_INSTALLMENT_PAYMENTS,
+	MAX_REVOLVING_INTEREST_RATE,
+} from "../../../db/schema";
+import { useAccounts } from "../../lib/hooks/use-accounts";
+import { useCategoriesByType } from "../../lib/hooks/use-categories";
+import { useCreateInstallmentPlan } from "../../lib/hooks/use-installments";
+
+/**
+ * 分割払い・リボ払いの登録フォーム
+ *
+ * 設計方針:
+ * - 購入金額・手数料・支払回数・初回支払日を入力し、毎月の支払額を入力中にプレビューする
+ * - 支払額の端数は初回に上乗せされるため、プレビューは2回目以降の金額を表示する（計算の正はサーバー側）
+ * - リボ払いは手数料・支払回数の代わりに毎月の支払額と実質年率を入力する
+ *   （支払回数・利息の合計は登録時にサーバー側で計算し、一覧に表示する）
+ * - 毎月の支出として予算に計上されるため、カテゴリは支出カテゴリから選ぶ
+ */
+
+const INITIAL_FORM = {
+	paymentType: "installment" as InstallmentPaymentType,
+	name: "",
+	principalAmount: "",
+	fee: "",
+	paymentCount: "12",
+	firstPaymentDate: "",
+	monthlyPayment: "",
+	interestRate: "15",
+	categoryId: "",
+	accountId: "",
+};
+
+export function InstallmentPlanForm() {
+	const [form, setForm] = useState({
+		...INITIAL_FORM,
+		firstPaymentDate: getTodayInJst(),
+	});
+
+	const categoriesQuery = useCategoriesByType("expense");
+	const accountsQuery = useAccounts({
+		// クライアント側でのみ実行されるようにする（SSR時の問題を回避）
+		enabled: typeof window !== "undefined",
+	});
+	const createMutation = useCreateInstallmentPlan({
+		onSuccess: () =>
+			setForm({ ...INITIAL_FORM, firstPaymentDate: getTodayInJst() }),
+	});
+
+	const principalAmount = Number.parseInt(form.principalAmount, 10) || 0;
+	const fee = Number.parseInt(form.fee, 10) || 0;
+	const paymentCount = Number.parseInt(form.paymentCount, 10) || 0;
+	const monthlyAmount =
+		paymentCount > 0 ? Math.floor((principalAmount + fee) / paymentCount) : 0;
+	const monthlyPayment = Number.parseInt(form.monthlyPayment, 10) || 0;
+	const interestRate = Number(form.interestRate);
+	const isRevolving = form.paymentType === "revolving";
+	const hasValidTerms = isRevolving
+		? monthlyPayment > 0 &&
+			form.interestRate !== "" &&
+			interestRate >= 0 &&
+			interestRate <= MAX_REVOLVING_INTEREST_RATE
+		: paymentCount >= 2 && paymentCount <= MAX_INSTALLMENT_PAYMENTS;
+	const canSubmit =
+		form.name.trim() !== "" &&
+		principalAmount > 0 &&
+		hasValidTerms &&
+		form.firstPaymentDate !== "";
+
+	const updateForm = (changes: Partial<typeof form>) =>
+		setForm((current) => ({ ...current, ...changes }));
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!canSubmit) return;
+		createMutation.mutate({
+			name: form.name.trim(),
+			principalAmount,
+			firstPaymentDate: form.firstPaymentDate,
+			categoryId: form.categoryId ? Number(form.categoryId) : null,
+			accountId: form.accountId ? Number(form.accountId) : null,
+			...(isRevolving
+				? { paymentType: "revolving", monthlyPayment, interestRate }
+				: { paymentType: "installment", fee, paymentCount }),
+		});
+	};
+
+	const inputClassName =
+		"w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+	return (
+		<form
+			onSubmit={handleSubmit}
+			className="bg-white rounded-lg shadow-sm border p-4 space-y-4"
+		>
+			<h3 className="text-base font-semibold text-gray-900">
+				分割払い・リボ払いを登録
+			</h3>
+
+			<fieldset className="flex gap-4 text-sm text-gray-700">
+				<legend className="sr-only">支払い方法</legend>
+				{(
+					[
+						["installment", "分割払い"],
+						["revolving", "リボ払い"],
+					] as const
+				).map(([paymentType, label]) => (
+					<label key={paymentType} className="inline-flex items-center gap-2">
+						<input
+							type="radio"
+							name="installment-payment-type"
+							value={paymentType}
+							checked={form.paymentType === paymentType}
+							onChange={() => updateForm({ paymentType })}
+						/>
+						{label}
+					</label>
+				))}
+			</fieldset>
+
+			<div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+				<div className="sm:col-span-2">
+					<label
+						htmlFor="installment-name"
+						className="block text-sm text-gray-700 mb-1"
+					>
+						名前
+					</label>
+					<input
+						id="installment-name"
+						type="text"
+						value={form.name}
+						onChange={(e) => updateForm({ name: e.target.value })}
+						placeholder="例: ノートパソコン"
+						maxLength={100}
+						className={inputClassName}
+					/>
+				</div>
+				<div>
+					<label
+						htmlFor="installment-principal"
+						className="block text-sm text-gray-700 mb-1"
+					>
+						購入金額
+					</label>
+					<input
+						id="installment-principal"
+						type="text"
+						inputMode="numeric"
+						value={form.principalAmount}
+						onChange={(e) =>
+							updateForm({
+								principalAmount: e.target.value.replace(/[^0-9]/g, ""),
+							})
+						}
+						placeholder="0"
+						className={`${inputClassName} text-right`}
+					/>
+				</div>
+				{isRevolving ? (
+					<>
+						<div>
+							<label
+								htmlFor="installment-monthly-payment"
+								className="block text-sm text-gray-700 mb-1"
+							>
+								毎月の支払額（利息を含む）
+							</label>
+							<input
+								id="installment-monthly-payment"
+								type="text"
+								inputMode="numeric"
+								value={form.monthlyPayment}
+								onChange={(e) =>
+									updateForm({
+										monthlyPayment: e.target.value.replace(/[^0-9]/g, ""),
+									})
+								}
+								placeholder="0"
+								className={`${inputClassName} text-right`}
+							/>
+						</div>
+						<div>
+							<label
+								htmlFor="installment-interest-rate"
+								className="block text-sm text-gray-700 mb-1"
+							>
+								実質年率（%）
+							</label>
+							<input
+								id="installment-interest-rate"
+								type="number"
+								min={0}
+								max={MAX_REVOLVING_INTEREST_RATE}
+								step="0.1"
+								value={form.interestRate}
+								onChange={(e) => updateForm({ interestRate: e.target.value })}
+								className={inputClassName}
+							/>
+						</div>
+					</>
+				) : (
+					<>
+						<div>
+							<label
+								htmlFor="installment-fee"
+								className="block text-sm text-gray-700 mb-1"
+							>
+								手数料・利息
+							</label>
+							<input
+								id="installment-fee"
+								type="text"
+								inputMode="numeric"
+								value={form.fee}
+								onChange={(e) =>
+									updateForm({ fee: e.target.value.replace(/[^0-9]/g, "") })
+								}
+								placeholder="0"
+								className={`${inputClassName} text-right`}
+							/>
+						</div>
+						<div>
+							<label
+								htmlFor="installment-count"
+								className="block text-sm text-gray-700 mb-1"
+							>
+								支払回数
+							</label>
+							<input
+								id="installment-count"
+								type="number"
+								min={2}
+								max={MAX_INSTALLMENT_PAYMENTS}
+								value={form.paymentCount}
+								onChange={(e) => updateForm({ paymentCount: e.target.value })}
+								className={inputClassName}
+							/>
+						</div>
+					</>
+				)}
+				<div>
+					<label
+						htmlFor="installment-first-date"
+						className="block text-sm text-gray-700 mb-1"
+					>
+						初回支払日
+					</label>
+					<input
+						id="installment-first-date"
+						type="date"
+						value={form.firstPaymentDate}
+						onChange={(e) => updateForm({ firstPaymentDate: e.target.value })}
+						className={inputClassName}
+					/>
+				</div>
+				<div>
+					<label
+						htmlFor="installment-category"
+						className="block text-sm text-gray-700 mb-1"
+					>
+						カテゴリ
+					</label>
+					<select
+						id="installment-category"
+						value={form.categoryId}
+						onChange={(e) => updateForm({ categoryId: e.target.value })}
+						className={inputClassName}
+					>
+						<option value="">未分類</option>
+						{(categoriesQuery.data?.data ?? []).map((category) => (
+							<option key={category.id} value={category.id}>
+								{category.name}
+							</option>
+						))}
+					</select>
+				</div>
+				<div>
+					<label
+						htmlFor="installment-account"
+						className="block text-sm text-gray-700 mb-1"
+					>
+						支払い口座
+					</label>
+					<select
+						id="installment-account"
+						value={form.accountId}
+						onChange={(e) => updateForm({ accountId: e.target.value })}
+						className={inputClassName}
+					>
+						<option value="">指定しない</option>
+						{(accountsQuery.data?.data ?? []).map((account) => (
+							<option key={account.id} value={account.id}>
+								{account.name}
+							</option>
+						))}
+					</select>
+				</div>
+			</div>
+
+			<div className="flex items-center justify-between">
+				<p className="text-sm text-gray-600" data-testid="installment-preview">
+					{!canSubmit
+						? isRevolving
+							? "購入金額・毎月の支払額・実質年率を入力してください"
+							: "購入金額と支払回数（2回以上）を入力してください"
+						: isRevolving
+							? `毎月 ${monthlyPayment.toLocaleString()}円（実質年率 ${interestRate}%、支払回数と利息は登録時に計算します）`
+							: `毎月 約${monthlyAmount.toLocaleString()}円 × ${paymentCount}回（支払総額 ${(principalAmount + fee).toLocaleString()}円）`}
+				</p>
+				<button
+					type="submit"
+					disabled={!canSubmit || createMutation.isPending}
+					className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+				>
+					{createMutation.isPending ? "登録中..." : "登録"}
+				</button>
+			</div>
+
+			{createMutation.error && (
+				<p className="text-sm text-red-600" role="alert">
+					{createMutation.error.message || "分割払いの登録に失敗しました"}
+				</p>
+			)}
+		</form>
+	);
+}
@@ -0,0 +1,189 @@
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	useDeleteInstallmentPlan,
+	useInstallmentPlans,
+	usePayOffInstallmentPlan,
+} from "../../lib/hooks/use-installments";
+import { InstallmentPlanList } from "./installment-plan-list";
+
+/**
+ * InstallmentPlanList コンポーネントのテスト
+ *
+ * テスト方針:
+ * - 残高・残り回数・次回の支払いが表示されることを検証
+ * - 繰上げ返済・削除が確認を挟んでAPIに渡されることを検証
+ * - 完済済みの分割払いでは繰上げ返済ボタンを表示しないことを検証
+ * - データ取得・更新はuse-installmentsのフックをモックする
+ */
+
+vi.mock("../../lib/hooks/use-installments", () => ({
+	useInstallmentPlans: vi.fn(),
+	usePayOffInstallmentPlan: vi.fn(),
+	useDeleteInstallmentPlan: vi.fn(),
+}));
+
+const mockUseInstallmentPlans = vi.mocked(useInstallmentPlans);
+const mockUsePayOffInstallmentPlan = vi.mocked(usePayOffInstallmentPlan);
+const mockUseDeleteInstallmentPlan = vi.mocked(useDeleteInstallmentPlan);
+
+const basePlan = {
+	subscriptionId: 10,
+	paymentType: "installment",
+	principalAmount: 100000,
+	fee: 3000,
+	paymentCount: 12,
+	firstPaymentDate: "2025-01-27",
+	monthlyPayment: null,
+	interestRate: null,
+	paidOffDate: null,
+	createdAt: "2025-01-01T00:00:00Z",
+	updatedAt: "2025-01-01T00:00:00Z",
+	description: null,
+	categoryId: 3,
+	accountId: null,
+	category: { id: 3, name: "日用品", type: "expense", color: "#10b981" },
+};
+
+const activePlan = {
+	...basePlan,
+	id: 1,
+	name: "ノートパソコン",
+	summary: {
+		totalAmount: 103000,
+		monthlyAmount: 8583,
+		paidAmount: 17170,
+		paidCount: 2,
+		remainingAmount: 85830,
+		remainingPayments: 10,
+		nextPayment: { paymentNumber: 3, paymentDate: "2025-03-27", amount: 8583 },
+		status: "active",
+	},
+};
+
+const completedPlan = {
+	...basePlan,
+	id: 2,
+	name: "冷蔵庫",
+	summary: {
+		totalAmount: 103000,
+		monthlyAmount: 8583,
+		paidAmount: 103000,
+		paidCount: 12,
+		remainingAmount: 0,
+		remainingPayments: 0,
+		nextPayment: null,
+		status: "completed",
+	},
+};
+
+describe("InstallmentPlanList", () => {
+	const payOff = vi.fn();
+	const deletePlan = vi.fn();
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		cleanup();
+		mockUseInstallmentPlans.mockReturnValue({
+			data: { success: true, data: [activePlan, completedPlan] },
+			isLoading: false,
+			error: null,
+		} as any);
+		mockUsePayOffInstallmentPlan.mockReturnValue({
+			mutate: payOff,
+			isPending: false,
+			error: null,
+		} as any);
+		mockUseDeleteInstallmentPlan.mockReturnValue({
+			mutate: deletePlan,
+			isPending: false,
+			error: null,
+		} as any);
+	});
+
+	it("残高・残り回数・次回の支払いを表示する", () => {
+		render(<InstallmentPlanList />);
+
+		expect(screen.getAllByTestId("installment-plan")).toHaveLength(2);
+		expect(
+			screen.getAllByTestId("installment-remaining-amount")[0],
+		).toHaveTextContent("¥85,830");
+		expect(
+			screen.getAllByTestId("installment-remaining-payments")[0],
+		).toHaveTextContent("10回");
+		expect(screen.getByText("2025-03-27 ¥8,583")).toBeInTheDocument();
+		expect(screen.getByText("完済")).toBeInTheDocument();
+	});
+
+	it("繰上げ返済は確認後に残高の一括返済として送信する", () => {
+		render(<InstallmentPlanList />);
+
+		// 完済済みの分割払いには繰上げ返済ボタンを表示しない
+		expect(screen.getAllByRole("button", { name: "繰上げ返済" })).toHaveLength(
+			1,
+		);
+
+		fireEvent.click(screen.getByRole("button", { name: "繰上げ返済" }));
+		expect(payOff).not.toHaveBeenCalled();
+		expect(
+			screen.getByText("残高 ¥85,830 を一括で返済しますか？"),
+		).toBeInTheDocument();
+
+		fireEvent.click(screen.getByRole("button", { name: "返済する" }));
+		expect(payOff).toHaveBeenCalledWith({ id: 1 });
+	});
+
+	it("削除は確認後に送信し、キャンセルした場合は送信しない", () => {
+		render(<InstallmentPlanList />);
+
+		fireEvent.click(screen.getAllByRole("button", { name: "削除" })[1]);
+		fireEvent.click(screen.getByRole("button", { name: "キャンセル" }));
+		expect(deletePlan).not.toHaveBeenCalled();
+
+		fireEvent.click(screen.getAllByRole("button", { name: "削除" })[1]);
+		fireEvent.click(screen.getByRole("button", { name: "削除する" }));
+		expect(deletePlan).toHaveBeenCalledWith(2);
+	});
+
+	it("リボ払いは毎月の支払額・実質年率・利息の合計を表示する", () => {
+		mockUseInstallmentPlans.mockReturnValue({
+			data: {
+				success: true,
+				data: [
+					{
+						...activePlan,
+						paymentType: "revolving",
+						fee: 7497,
+						paymentCount: 11,
+						monthlyPayment: 10000,
+						interestRate: 15,
+					},
+				],
+			},
+			isLoading: false,
+			error: null,
+		} as any);
+
+		render(<InstallmentPlanList />);
+
+		expect(
+			screen.getByText(
+				"日用品・リボ払い（毎月¥10,000・実質年率15%・利息 ¥7,497）・支払総額 ¥103,000",
+			),
+		).toBeInTheDocument();
+	});
+
+	it("分割払いが未登録の場合は案内を表示する", () => {
+		mockUseInstallmentPlans.mockReturnValue({
+			data: { success: true, data: [] },
+			isLoading: false,
+			error: null,
+		} as any);
+
+		render(<InstallmentPlanList />);
+
+		expect(
+			screen.getByText("登録されている分割払いはありません"),
+		).toBeInTheDocument();
+	});
+});
@@ -0,0 +1,237 @@
+import { useState } from "react";
+import {
+	useDeleteInstallmentPlan,
+	useInstallmentPlans,
+	usePayOffInstallmentPlan,
+} from "../../lib/hooks/use-installments";
+import type { InstallmentPlanWithSummary } from "../../lib/schemas/api-responses";
+
+/**
+ * 分割払い・リボ払い一覧コンポーネント
+ *
+ * 設計方針:
+ * - 分割払いごとに残高・残り回数・次回の支払いと支払いの進捗を表示する
+ * - リボ払いは毎月の支払額・実質年率と利息の合計を表示し、残高は利息を含まない元金残高とする
+ * - 残高・進捗の計算はサーバー側（GET /api/installments）で行い、画面は表示に専念
+ * - 繰上げ返済・削除は取り消せない操作のため、ボタンを押した後に確認を挟む
+ * - 削除しても支払済みの取引は残る（定期取引の紐付けのみ外れる）
+ */
+
+const formatYen = (value: number) => `¥${value.toLocaleString()}`;
+
+const STATUS_LABELS: Record<
+	InstallmentPlanWithSummary["summary"]["status"],
+	string
+> = {
+	active: "支払い中",
+	completed: "完済",
+	paid_off: "繰上げ返済済み",
+};
+
+type PendingAction = { id: number; type: "payoff" | "delete" };
+
+// 支払条件の表示（分割払いは支払回数、リボ払いは毎月の支払額・実質年率・利息の合計）
+const getTermsText = (plan: InstallmentPlanWithSummary): string =>
+	plan.paymentType === "revolving"
+		? `リボ払い（毎月${formatYen(plan.monthlyPayment ?? 0)}・実質年率${plan.interestRate ?? 0}%・利息 ${formatYen(plan.fee)}）`
+		: `${plan.paymentCount}回払い`;
+
+export function InstallmentPlanList() {
+	const [pendingAction, setPendingAction] = useState<PendingAction | null>(
+		null,
+	);
+
+	const plansQuery = useInstallmentPlans({
+		// クライアント側でのみ実行されるようにする（SSR時の問題を回避）
+		enabled: typeof window !== "undefined",
+	});
+	const payOffMutation = usePayOffInstallmentPlan({
+		onSuccess: () => setPendingAction(null),
+	});
+	const deleteMutation = useDeleteInstallmentPlan({
+		onSuccess: () => setPendingAction(null),
+	});
+
+	if (plansQuery.error) {
+		return (
+			<div className="bg-white rounded-lg shadow-sm border p-6">
+				<p className="text-sm font-medium text-red-600" role="alert">
+					分割払いの取得に失敗しました
+				</p>
+			</div>
+		);
+	}
+
+	if (plansQuery.isLoading) {
+		return (
+			<div className="bg-white rounded-lg shadow-sm border p-6 animate-pulse">
+				<div className="w-48 h-6 bg-gray-200 rounded" />
+			</div>
+		);
+	}
+
+	const plans = plansQuery.data?.data ?? [];
+
+	if (plans.length === 0) {
+		return (
+			<div className="bg-white rounded-lg shadow-sm border p-6">
+				<p className="text-sm text-gray-500">
+					登録されている分割払いはありません
+				</p>
+			</div>
+		);
+	}
+
+	const confirmAction = () => {
+		if (!pendingAction) return;
+		if (pendingAction.type === "payoff") {
+			payOffMutation.mutate({ id: pendingAction.id });
+		} else {
+			deleteMutation.mutate(pendingAction.id);
+		}
+	};
+
+	return (
+		<div className="space-y-4">
+			{(payOffMutation.error || deleteMutation.error) && (
+				<p className="text-sm font-medium text-red-600" role="alert">
+					{payOffMutation.error
+						? "繰上げ返済に失敗しました"
+						: "分割払いの削除に失敗しました"}
+				</p>
+			)}
+
+			{plans.map((plan) => {
+				const { summary } = plan;
+				const progress =
+					summary.totalAmount > 0
+						? Math.round((summary.paidAmount / summary.totalAmount) * 100)
+						: 0;
+				const isPending = pendingAction?.id === plan.id;
+
+				return (
+					<div
+						key={plan.id}
+						className="bg-white rounded-lg shadow-sm border p-4 space-y-3"
+						data-testid="installment-plan"
+					>
+						<div className="flex flex-wrap items-center justify-between gap-2">
+							<div>
+								<h3 className="text-base font-semibold text-gray-900">
+									{plan.name}
+								</h3>
+								<p className="text-xs text-gray-500">
+									{`${plan.category?.name ?? "未分類"}・${getTermsText(plan)}・支払総額 ${formatYen(summary.totalAmount)}`}
+								</p>
+							</div>
+							<span
+								className={`px-2 py-1 text-xs font-medium rounded-full ${
+									summary.status === "active"
+										? "bg-blue-100 text-blue-800"
+										: "bg-green-100 text-green-800"
+								}`}
+							>
+								{STATUS_LABELS[summary.status]}
+							</span>
+						</div>
+
+						<div
+							className="w-full h-2 bg-gray-200 rounded-full overflow-hidden"
+							aria-hidden="true"
+						>
+							<div
+								className="h-full bg-blue-600"
+								style={{ width: `${progress}%` }}
+							/>
+						</div>
+
+						<dl className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+							<div>
+								<dt className="text-gray-500">残高</dt>
+								<dd
+									className="font-medium text-gray-900"
+									data-testid="installment-remaining-amount"
+								>
+									{formatYen(summary.remainingAmount)}
+								</dd>
+							</div>
+							<div>
+								<dt className="text-gray-500">残り回数</dt>
+								<dd
+									className="font-medium text-gray-900"
+									data-testid="installment-remaining-payments"
+								>
+									{`${summary.remainingPayments}回`}
+								</dd>
+							</div>
+							<div>
+								<dt className="text-gray-500">支払済み</dt>
+								<dd className="font-medium text-gray-900">
+									{`${formatYen(summary.paidAmount)}（${summary.paidCount}回）`}
+								</dd>
+							</div>
+							<div>
+								<dt className="text-gray-500">次回の支払い</dt>
+								<dd className="font-medium text-gray-900">
+									{summary.nextPayment
+										? `${summary.nextPayment.paymentDate} ${formatYen(summary.nextPayment.amount)}`
+										: "-"}
+								</dd>
+							</div>
+						</dl>
+
+						{isPending ? (
+							<div className="flex flex-wrap items-center justify-end gap-2">
+								<p className="text-sm text-gray-700">
+									{pendingAction.type === "payoff"
+										? `残高 ${formatYen(summary.remainingAmount)} を一括で返済しますか？`
+										: "分割払いを削除しますか？支払済みの取引は残ります"}
+								</p>
+								<button
+									type="button"
+									onClick={() => setPendingAction(null)}
+									className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+								>
+									キャンセル
+								</button>
+								<button
+									type="button"
+									onClick={confirmAction}
+									disabled={
+										payOffMutation.isPending || deleteMutation.isPending
+									}
+									className="px-3 py-1 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50"
+								>
+									{pendingAction.type === "payoff" ? "返済する" : "削除する"}
+								</button>
+							</div>
+						) : (
+							<div className="flex justify-end gap-2">
+								{summary.status === "active" && (
+									<button
+										type="button"
+										onClick={() =>
+											setPendingAction({ id: plan.id, type: "payoff" })
+										}
+										className="px-3 py-1 text-sm text-blue-600 border border-blue-300 rounded-md hover:bg-blue-50"
+									>
+										繰上げ返済
+									</button>
+								)}
+								<button
+									type="button"
+									onClick={() =>
+										setPendingAction({ id: plan.id, type: "delete" })
+									}
+									className="px-3 py-1 text-sm text-red-600 border border-red-300 rounded-md hover:bg-red-50"
+								>
+									削除
+								</button>
+							</div>
+						)}
+					</div>
+				);
+			})}
+		</div>
+	);
+}
@@ -2,12 +2,14 @@ import { Link } from "react-router";
 import { useUIActions } from "../../contexts/app-context";
 import { MobileDrawer } from "../navigation/mobile-drawer";
 import { HeaderLogo } from "../ui/logo";
+import { NotificationBell } from "./notification-bell";
 
 /**
  * アプリケーション共通ヘッダーコンポーネント
  *
  * 設計方針:
  * - ロゴとナビゲーションを含む統一的なヘッダー
+ * - サブスクリプションのリマインダーの通知ベルをナビゲーションの右側に表示
  * - レスポンシブデザイン（モバイルファーストUI）
  * - アクセシビリティ対応
  * - 既存のUIパターンと一貫性を保つ
@@ -57,29 +59,64 @@ export function Header({ showNavigation = true }: HeaderProps) {
 								>
 									サブスク管理
 								</Link>
+								<Link
+									to="/reports"
+									className="text-gray-700 hover:text-blue-600 transition-colors font-medium"
+								>
+									レポート
+								</Link>
+								<Link
+									to="/cards"
+									className="text-gray-700 hover:text-blue-600 transition-colors font-medium"
+								>
+									カード明細
+								</Link>
+								<Link
+									to="/installments"
+									className="text-gray-700 hover:text-blue-600 transition-colors font-medium"
+								>
+									分割払い
+								</Link>
+								<Link
+									to="/rules"
+									className="text-gray-700 hover:text-blue-600 transition-colors font-medium"
+								>
+									自動分類
+								</Link>
+								<Link
+									to="/tags"
+									className="text-gray-700 hover:text-blue-600 transition-colors font-medium"
+								>
+									タグ
+								</Link>
 							</nav>
 
-							{/* モバイルメニューボタン */}
-							<button
-								type="button"
-								className="md:hidden p-2 text-gray-700 hover:text-blue-600 transition-colors"
-								aria-label="メニューを開く"
-								onClick={toggleSidebar}
-							>
-								<svg
-									className="w-6 h-6"
-									fill="none"
-									stroke="currentColor"
-									viewBox="0 0 24 24"
+							<div className="flex items-center">
+								{/* 通知ベル */}
+								<NotificationBell />
+
+								{/* モバイルメニューボタン */}
+								<button
+									type="button"
+									className="md:hidden p-2 text-gray-700 hover:text-blue-600 transition-colors"
+									aria-label="メニューを開く"
+									onClick={toggleSidebar}
 								>
-									<path
-										strokeLinecap="round"
-										strokeLinejoin="round"
-										strokeWidth={2}
-										d="M4 6h16M4 12h16M4 18h16"
-									/>
-								</svg>
-							</button>
+									<svg
+										className="w-6 h-6"
+										fill="none"
+										stroke="currentColor"
+										viewBox="0 0 24 24"
+									>
+										<path
+											strokeLinecap="round"
+											strokeLinejoin="round"
+											strokeWidth={2}
+											d="M4 6h16M4 12h16M4 18h16"
+										/>
+									</svg>
+								</button>
+							</div>
 						</div>
 					)}
 				</div>
@@ -1,2 +1,3 @@
 // レイアウト コンポーネントのエクスポート
 export { Header, SimpleHeader } from "./header";
+export { NotificationBell } from "./notification-bell";
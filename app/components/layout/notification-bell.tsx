@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { Link } from "react-router";
+import {
+	useMarkAllNotificationsRead,
+	useMarkNotificationRead,
+	useNotifications,
+} from "../../lib/hooks/use-notifications";
+
+/**
+ * ヘッダーの通知ベルコンポーネント
+ *
+ * 設計方針:
+ * - サブスクリプションのリマインダー（支払日・トライアル終了・解約期限）の通知を表示
+ * - 未読の件数をベルのバッジに表示し、クリックで通知の一覧を開閉する
+ * - 未読の通知はクリックで既読にし、「すべて既読にする」でまとめて既読にできる
+ * - 通知はサーバーの定期実行で作成されるため、クライアント側でのみ定期的に再取得する
+ */
+
+// バッジに表示する未読の件数の上限
+const MAX_BADGE_COUNT = 9;
+
+// 通知の作成日時の表示（M/D）
+const formatCreatedAt = (createdAt: string): string => {
+	const [year, month, day] = createdAt.slice(0, 10).split("-");
+	return year && month && day ? `${Number(month)}/${Number(day)}` : "";
+};
+
+export function NotificationBell() {
+	const [isOpen, setIsOpen] = useState(false);
+
+	const { data } = useNotifications(
+		{},
+		{
+			// クライアント側でのみ実行されるようにする（SSR時の問題を回避）
+			enabled: typeof window !== "undefined",
+		},
+	);
+	const markRead = useMarkNotificationRead();
+	const markAllRead = useMarkAllNotificationsRead();
+
+	const notifications = data?.data ?? [];
+	const unreadCount = data?.unreadCount ?? 0;
+
+	return (
+		<div className="relative">
+			<button
+				type="button"
+				onClick={() => setIsOpen(!isOpen)}
+				aria-expanded={isOpen}
+				aria-label={unreadCount > 0 ? `通知（未読${unreadCount}件）` : "通知"}
+				className="relative p-2 text-gray-700 hover:text-blue-600 transition-colors"
+			>
+				<svg
+					className="w-6 h-6"
+					fill="none"
+					stroke="currentColor"
+					viewBox="0 0 24 24"
+					aria-hidden="true"
+				>
+					<path
+						strokeLinecap="round"
+						strokeLinejoin="round"
+						strokeWidth={2}
+						d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9"
+					/>
+				</svg>
+				{unreadCount > 0 && (
+					<span className="absolute top-1 right-1 inline-flex items-center justify-center min-w-[1.125rem] h-[1.125rem] px-1 rounded-full bg-red-600 text-white text-[10px] font-bold">
+						{unreadCount > MAX_BADGE_COUNT
+							? `${MAX_BADGE_COUNT}+`
+							: unreadCount}
+					</span>
+				)}
+			</button>
+
+			{isOpen && (
+				<div className="absolute right-0 mt-2 w-80 max-w-[calc(100vw-2rem)] bg-white rounded-lg shadow-lg border border-gray-200 z-50">
+					<div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+						<h2 className="text-sm font-semibold text-gray-900">通知</h2>
+						{unreadCount > 0 && (
+							<button
+								type="button"
+								onClick={() => markAllRead.mutate()}
+								disabled={markAllRead.isPending}
+								className="text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+							>
+								すべて既読にする
+							</button>
+						)}
+					</div>
+
+					{notifications.length === 0 ? (
+						<p className="px-4 py-6 text-sm text-center text-gray-500">
+							通知はありません
+						</p>
+					) : (
+						<ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+							{notifications.map((notification) => (
+								<li key={notification.id}>
+									<button
+										type="button"
+										onClick={() => {
+											if (!notification.isRead) {
+												markRead.mutate(notification.id);
+											}
+										}}
+										className={`w-full text-left px-4 py-3 hover:bg-gray-50 transition-colors ${
+											notification.isRead ? "" : "bg-blue-50"
+										}`}
+									>
+										<div className="flex items-start justify-between gap-2">
+											<span
+												className={`text-sm ${
+													notification.isRead
+														? "text-gray-700"
+														: "font-semibold text-gray-900"
+												}`}
+											>
+												{notification.title}
+											</span>
+											<span className="shrink-0 text-xs text-gray-500">
+												{formatCreatedAt(notification.createdAt)}
+											</span>
+										</div>
+										<p className="mt-1 text-xs text-gray-600">
+											{notification.message}
+										</p>
+										{!notification.isRead && (
+											<span className="sr-only">未読</span>
+										)}
+									</button>
+								</li>
+							))}
+						</ul>
+					)}
+
+					<div className="px-4 py-2 border-t border-gray-200 text-right">
+						<Link
+							to="/subscriptions"
+							onClick={() => setIsOpen(false)}
+							className="text-xs text-gray-600 hover:text-blue-600"
+						>
+							サブスク管理でリマインダーを設定
+						</Link>
+					</div>
+				</div>
+			)}
+		</div>
+	);
+}
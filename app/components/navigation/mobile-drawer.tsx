@@ -229,6 +229,116 @@ export function MobileDrawer({ className = "" }: MobileDrawerProps) {
 						</svg>
 						サブスク管理
 					</Link>
+
+					{/* レポート */}
+					<Link
+						to="/reports"
+						className={getLinkClassName("/reports")}
+						role="menuitem"
+					>
+						<svg
+							className="w-5 h-5 mr-3"
+							fill="none"
+							stroke="currentColor"
+							viewBox="0 0 24 24"
+						>
+							<path
+								strokeLinecap="round"
+								strokeLinejoin="round"
+								strokeWidth={2}
+								d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z"
+							/>
+						</svg>
+						レポート
+					</Link>
+
+					{/* カード明細 */}
+					<Link
+						to="/cards"
+						className={getLinkClassName("/cards")}
+						role="menuitem"
+					>
+						<svg
+							className="w-5 h-5 mr-3"
+							fill="none"
+							stroke="currentColor"
+							viewBox="0 0 24 24"
+						>
+							<path
+								strokeLinecap="round"
+								strokeLinejoin="round"
+								strokeWidth={2}
+								d="M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z"
+							/>
+						</svg>
+						カード明細
+					</Link>
+
+					{/* 分割払い */}
+					<Link
+						to="/installments"
+						className={getLinkClassName("/installments")}
+						role="menuitem"
+					>
+						<svg
+							className="w-5 h-5 mr-3"
+							fill="none"
+							stroke="currentColor"
+							viewBox="0 0 24 24"
+						>
+							<path
+								strokeLinecap="round"
+								strokeLinejoin="round"
+								strokeWidth={2}
+								d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
+							/>
+						</svg>
+						分割払い
+					</Link>
+
+					{/* 自動分類ルール */}
+					<Link
+						to="/rules"
+						className={getLinkClassName("/rules")}
+						role="menuitem"
+					>
+						<svg
+							className="w-5 h-5 mr-3"
+							fill="none"
+							stroke="currentColor"
+							viewBox="0 0 24 24"
+						>
+							<path
+								strokeLinecap="round"
+								strokeLinejoin="round"
+								strokeWidth={2}
+								d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z"
+							/>
+						</svg>
+						自動分類
+					</Link>
+
+					{/* タグ */}
+					<Link
+						to="/tags"
+						className={getLinkClassName("/tags")}
+						role="menuitem"
+					>
+						<svg
+							className="w-5 h-5 mr-3"
+							fill="none"
+							stroke="currentColor"
+							viewBox="0 0 24 24"
+						>
+							<path
+								strokeLinecap="round"
+								strokeLinejoin="round"
+								strokeWidth={2}
+								d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z"
+							/>
+						</svg>
+						タグ
+					</Link>
 				</nav>
 
 				{/* フッター */}
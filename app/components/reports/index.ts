@@ -0,0 +1,21 @@
+/**
+ * レポートコンポーネントの統合エクスポート
+ *
+ * 設計方針:
+ * - 収支レポート関連コンポーネントの単一エントリーポイント
+ * - グラフは個別に再利用できるよう名前付きでエクスポート
+ */
+
+export { ReportsDashboard } from "./reports-dashboard";
+export {
+	CategoryPieChart,
+	CumulativeLineChart,
+	MonthlyBarChart,
+	getCategoryColor,
+} from "./report-charts";
+export { getReportRange } from "./report-period";
+export type {
+	ReportPeriodMode,
+	ReportPeriodSelection,
+	ReportRange,
+} from "./report-period";
@@ -0,0 +1,152 @@
+import {
+	Bar,
+	BarChart,
+	CartesianGrid,
+	Cell,
+	Legend,
+	Line,
+	LineChart,
+	Pie,
+	PieChart,
+	ResponsiveContainer,
+	Tooltip,
+	XAxis,
+	YAxis,
+} from "recharts";
+import type {
+	CategoryStats,
+	DailyStats,
+	MonthlyStats,
+} from "../../lib/schemas/api-responses";
+
+/**
+ * レポート画面のグラフコンポーネント
+ *
+ * 設計方針:
+ * - rechartsを使用し、カテゴリ円グラフ・月別棒グラフ・累計折れ線グラフを提供
+ * - カテゴリの色はcategories.colorを使用し、未設定・未分類は固定のフォールバック色とする
+ * - 収入・支出の色は取引一覧の表示（緑・赤）に揃える
+ * - 親要素の幅に追従させるためResponsiveContainerで包む
+ */
+
+export const INCOME_COLOR = "#16A34A";
+export const EXPENSE_COLOR = "#DC2626";
+const BALANCE_COLOR = "#2563EB";
+
+// 色未設定のカテゴリに順番に割り当てる色
+const FALLBACK_COLORS = [
+	"#94A3B8",
+	"#A78BFA",
+	"#F472B6",
+	"#FBBF24",
+	"#34D399",
+	"#60A5FA",
+];
+
+// 未分類（カテゴリなし）の色
+const UNCATEGORIZED_COLOR = "#D1D5DB";
+
+const CHART_HEIGHT = 280;
+
+const formatYen = (value: number) => `¥${value.toLocaleString()}`;
+
+// 軸ラベル用の短い金額表記（1万円以上は「万」単位）
+const formatAxisYen = (value: number) =>
+	Math.abs(value) >= 10000 ? `${value / 10000}万` : value.toLocaleString();
+
+/**
+ * カテゴリの表示色を決定
+ */
+export function getCategoryColor(category: CategoryStats, index: number) {
+	if (category.categoryId === null) return UNCATEGORIZED_COLOR;
+	return category.color ?? FALLBACK_COLORS[index % FALLBACK_COLORS.length];
+}
+
+/**
+ * カテゴリ別の構成比（円グラフ）
+ */
+export function CategoryPieChart({ data }: { data: CategoryStats[] }) {
+	const chartData = data.map((category) => ({
+		...category,
+		name: category.name ?? "未分類",
+	}));
+
+	return (
+		<ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+			<PieChart>
+				<Pie
+					data={chartData}
+					dataKey="total"
+					nameKey="name"
+					innerRadius="50%"
+					outerRadius="80%"
+					paddingAngle={1}
+				>
+					{chartData.map((category, index) => (
+						<Cell
+							key={`${category.categoryId}-${category.type}`}
+							fill={getCategoryColor(category, index)}
+						/>
+					))}
+				</Pie>
+				<Tooltip formatter={(value: number) => formatYen(value)} />
+				<Legend />
+			</PieChart>
+		</ResponsiveContainer>
+	);
+}
+
+/**
+ * 月別の収入・支出（棒グラフ）
+ */
+export function MonthlyBarChart({ data }: { data: MonthlyStats[] }) {
+	return (
+		<ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+			<BarChart data={data}>
+				<CartesianGrid strokeDasharray="3 3" vertical={false} />
+				<XAxis dataKey="month" tickFormatter={(month) => month.slice(5)} />
+				<YAxis tickFormatter={formatAxisYen} width={56} />
+				<Tooltip formatter={(value: number) => formatYen(value)} />
+				<Legend />
+				<Bar dataKey="income" name="収入" fill={INCOME_COLOR} />
+				<Bar dataKey="expense" name="支出" fill={EXPENSE_COLOR} />
+			</BarChart>
+		</ResponsiveContainer>
+	);
+}
+
+/**
+ * 収支の累計（折れ線グラフ）
+ * 1ヶ月の期間は日別、それ以上は月別の累計を表示する
+ */
+export function CumulativeLineChart({
+	data,
+	xKey,
+}: {
+	data: MonthlyStats[] | DailyStats[];
+	xKey: "month" | "date";
+}) {
+	return (
+		<ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+			<LineChart data={data}>
+				<CartesianGrid strokeDasharray="3 3" vertical={false} />
+				<XAxis
+					dataKey={xKey}
+					tickFormatter={(value: string) =>
+						xKey === "date" ? value.slice(8) : value.slice(5)
+					}
+				/>
+				<YAxis tickFormatter={formatAxisYen} width={56} />
+				<Tooltip formatter={(value: number) => formatYen(value)} />
+				<Line
+					type="monotone"
+					dataKey="cumulativeBalance"
+					name="収支累計"
+					stroke={BALANCE_COLOR}
+					strokeWidth={2}
+					dot={false}
+				/>
+			</LineChart>
+		</ResponsiveContainer>
+	);
+}
@@ -0,0 +1,64 @@
+/**
+ * レポートの集計期間の定義と計算
+ *
+ * 設計方針:
+ * - 画面の期間セレクタの選択値を、統計APIに渡す開始日・終了日に変換
+ * - 「月」「年」「直近12ヶ月」の3種類を提供
+ * - 基準日を引数で受け取り、テストで日付を固定できるようにする
+ */
+
+export type ReportPeriodMode = "month" | "year" | "last12months";
+
+export interface ReportPeriodSelection {
+	mode: ReportPeriodMode;
+	year: number;
+	month: number; // modeが"month"の場合のみ使用（1〜12）
+}
+
+export interface ReportRange {
+	startDate: string;
+	endDate: string;
+	label: string;
+}
+
+const pad2 = (value: number) => String(value).padStart(2, "0");
+
+// 指定月の末日
+const lastDayOfMonth = (year: number, month: number) =>
+	new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+/**
+ * 期間の選択値から集計期間（両端を含む）を計算
+ */
+export function getReportRange(
+	selection: ReportPeriodSelection,
+	today: Date = new Date(),
+): ReportRange {
+	const { mode, year, month } = selection;
+
+	if (mode === "month") {
+		return {
+			startDate: `${year}-${pad2(month)}-01`,
+			endDate: `${year}-${pad2(month)}-${pad2(lastDayOfMonth(year, month))}`,
+			label: `${year}年${month}月`,
+		};
+	}
+
+	if (mode === "year") {
+		return {
+			startDate: `${year}-01-01`,
+			endDate: `${year}-12-31`,
+			label: `${year}年`,
+		};
+	}
+
+	// 直近12ヶ月（今月を含む）
+	const endYear = today.getFullYear();
+	const endMonth = today.getMonth() + 1;
+	const start = new Date(Date.UTC(endYear, endMonth - 12, 1));
+	return {
+		startDate: `${start.getUTCFullYear()}-${pad2(start.getUTCMonth() + 1)}-01`,
+		endDate: `${endYear}-${pad2(endMonth)}-${pad2(lastDayOfMonth(endYear, endMonth))}`,
+		label: "直近12ヶ月",
+	};
+}
@@ -0,0 +1,125 @@
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { useTransactionStats } from "../../lib/hooks/use-transactions";
+import { getReportRange } from "./report-period";
+import { ReportsDashboard } from "./reports-dashboard";
+
+/**
+ * ReportsDashboard コンポーネントのテスト
+ *
+ * テスト方針:
+ * - 期間セレクタの選択が統計APIの期間に反映されることを検証
+ * - 合計・貯蓄率・前月比・月別の数値が表示されることを検証
+ * - データ取得はuseTransactionStatsをモックし、グラフ（recharts）は描画しない
+ */
+
+vi.mock("../../lib/hooks/use-transactions", () => ({
+	useTransactionStats: vi.fn(),
+}));
+
+vi.mock("./report-charts", () => ({
+	CategoryPieChart: () => null,
+	CumulativeLineChart: () => null,
+	MonthlyBarChart: () => null,
+}));
+
+const mockUseTransactionStats = vi.mocked(useTransactionStats);
+
+const mockStats = {
+	success: true,
+	data: {
+		startDate: "2025-07-01",
+		endDate: "2025-07-31",
+		totals: {
+			income: 250000,
+			expense: 180000,
+			balance: 70000,
+			savingsRate: 28,
+			incomeCount: 1,
+			expenseCount: 12,
+		},
+		monthly: [
+			{
+				month: "2025-07",
+				income: 250000,
+				expense: 180000,
+				balance: 70000,
+				savingsRate: 28,
+				incomeChange: 0,
+				expenseChange: -15000,
+				cumulativeBalance: 70000,
+			},
+		],
+		daily: [],
+		byCategory: [],
+	},
+};
+
+// 最後にuseTransactionStatsへ渡された期間を取得
+const lastParams = () => mockUseTransactionStats.mock.calls.at(-1)?.[0];
+
+describe("ReportsDashboard", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		cleanup();
+		mockUseTransactionStats.mockReturnValue({
+			data: mockStats,
+			isLoading: false,
+			error: null,
+		} as any);
+	});
+
+	it("合計・貯蓄率・前月比・月別の数値が表示される", () => {
+		// 実行
+		render(<ReportsDashboard />);
+
+		// 検証
+		expect(screen.getByTestId("report-total-income")).toHaveTextContent(
+			"¥250,000",
+		);
+		expect(screen.getByTestId("report-total-balance")).toHaveTextContent(
+			"¥70,000",
+		);
+		expect(screen.getByTestId("report-savings-rate")).toHaveTextContent("28%");
+		expect(screen.getByText("前月比 -¥15,000")).toBeInTheDocument();
+		expect(screen.getAllByTestId("report-month-row")).toHaveLength(1);
+	});
+
+	it("期間を年に切り替えると年単位の期間で取得する", () => {
+		render(<ReportsDashboard />);
+		const year = new Date().getFullYear();
+
+		// 実行
+		fireEvent.change(screen.getByLabelText("集計期間"), {
+			target: { value: "year" },
+		});
+
+		// 検証
+		expect(lastParams()).toEqual({
+			startDate: `${year}-01-01`,
+			endDate: `${year}-12-31`,
+		});
+		expect(screen.queryByLabelText("月")).not.toBeInTheDocument();
+	});
+});
+
+describe("getReportRange", () => {
+	it("月・直近12ヶ月の期間を計算する", () => {
+		// 検証
+		expect(getReportRange({ mode: "month", year: 2024, month: 2 })).toEqual({
+			startDate: "2024-02-01",
+			endDate: "2024-02-29",
+			label: "2024年2月",
+		});
+		expect(
+			getReportRange(
+				{ mode: "last12months", year: 2025, month: 1 },
+				new Date(2025, 6, 15),
+			),
+		).toEqual({
+			startDate: "2024-08-01",
+			endDate: "2025-07-31",
+			label: "直近12ヶ月",
+		});
+	});
+});
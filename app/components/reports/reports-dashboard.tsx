@@ -0,0 +1,330 @@
+import { useState } from "react";
+import { useTransactionStats } from "../../lib/hooks/use-transactions";
+import { ClientOnly } from "../utils/client-only";
+import {
+	CategoryPieChart,
+	CumulativeLineChart,
+	MonthlyBarChart,
+} from "./report-charts";
+import {
+	type ReportPeriodMode,
+	type ReportPeriodSelection,
+	getReportRange,
+} from "./report-period";
+
+/**
+ * 収支レポートコンポーネント
+ *
+ * 設計方針:
+ * - 期間セレクタ（月・年・直近12ヶ月）で集計期間を切り替え
+ * - 合計・貯蓄率のサマリー、カテゴリ円グラフ・月別棒グラフ・累計折れ線グラフを表示
+ * - グラフはブラウザのサイズに依存するためClientOnlyでクライアント側のみ描画
+ * - 月別の数値は表でも表示し、グラフだけでは読み取りにくい前月比を確認できるようにする
+ */
+
+// 期間セレクタで選択できる過去の年数
+const SELECTABLE_YEARS = 5;
+
+const PERIOD_MODE_LABELS: Record<ReportPeriodMode, string> = {
+	month: "月",
+	year: "年",
+	last12months: "直近12ヶ月",
+};
+
+const formatYen = (value: number) => `¥${value.toLocaleString()}`;
+
+// 前月比の表示（増加は+、減少は-を付ける）
+const formatChange = (value: number | null) => {
+	if (value === null) return "-";
+	return `${value > 0 ? "+" : value < 0 ? "-" : "±"}¥${Math.abs(value).toLocaleString()}`;
+};
+
+const formatRate = (value: number | null) =>
+	value === null ? "-" : `${value}%`;
+
+export function ReportsDashboard() {
+	const now = new Date();
+	const [selection, setSelection] = useState<ReportPeriodSelection>({
+		mode: "month",
+		year: now.getFullYear(),
+		month: now.getMonth() + 1,
+	});
+	const [categoryType, setCategoryType] = useState<"expense" | "income">(
+		"expense",
+	);
+
+	const range = getReportRange(selection, now);
+	const { data, isLoading, error } = useTransactionStats(
+		{ startDate: range.startDate, endDate: range.endDate },
+		{
+			// クライアント側でのみ実行されるようにする（SSR時の問題を回避）
+			enabled: typeof window !== "undefined",
+		},
+	);
+
+	const stats = data?.data;
+	const years = Array.from(
+		{ length: SELECTABLE_YEARS },
+		(_, index) => now.getFullYear() - index,
+	);
+	// 月単位の期間では初月の前月比をサマリーに表示
+	const firstMonth = selection.mode === "month" ? stats?.monthly[0] : undefined;
+
+	const selectClassName =
+		"px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+	return (
+		<div className="space-y-6">
+			{/* 期間セレクタ */}
+			<div className="bg-white rounded-lg shadow-sm border p-4 flex flex-wrap items-center gap-3">
+				<label htmlFor="report-period-mode" className="text-sm text-gray-700">
+					集計期間
+				</label>
+				<select
+					id="report-period-mode"
+					value={selection.mode}
+					onChange={(e) =>
+						setSelection((prev) => ({
+							...prev,
+							mode: e.target.value as ReportPeriodMode,
+						}))
+					}
+					className={selectClassName}
+				>
+					{(Object.keys(PERIOD_MODE_LABELS) as ReportPeriodMode[]).map(
+						(mode) => (
+							<option key={mode} value={mode}>
+								{PERIOD_MODE_LABELS[mode]}
+							</option>
+						),
+					)}
+				</select>
+				{selection.mode !== "last12months" && (
+					<select
+						aria-label="年"
+						value={selection.year}
+						onChange={(e) =>
+							setSelection((prev) => ({
+								...prev,
+								year: Number(e.target.value),
+							}))
+						}
+						className={selectClassName}
+					>
+						{years.map((year) => (
+							<option key={year} value={year}>
+								{year}年
+							</option>
+						))}
+					</select>
+				)}
+				{selection.mode === "month" && (
+					<select
+						aria-label="月"
+						value={selection.month}
+						onChange={(e) =>
+							setSelection((prev) => ({
+								...prev,
+								month: Number(e.target.value),
+							}))
+						}
+						className={selectClassName}
+					>
+						{Array.from({ length: 12 }, (_, index) => index + 1).map(
+							(month) => (
+								<option key={month} value={month}>
+									{month}月
+								</option>
+							),
+						)}
+					</select>
+				)}
+				<span className="text-sm text-gray-500">
+					{range.startDate} 〜 {range.endDate}
+				</span>
+			</div>
+
+			{/* エラー表示 */}
+			{error && (
+				<div
+					className="bg-red-50 border border-red-200 rounded-lg p-4"
+					role="alert"
+				>
+					<p className="text-sm font-medium text-red-800">
+						レポートデータの取得に失敗しました
+					</p>
+					<p className="text-sm text-red-700 mt-1">
+						{error.message || "不明なエラーが発生しました"}
+					</p>
+				</div>
+			)}
+
+			{/* ローディング表示 */}
+			{isLoading && (
+				<div className="grid grid-cols-2 lg:grid-cols-4 gap-4 animate-pulse">
+					{["loading-1", "loading-2", "loading-3", "loading-4"].map(
+						(loadingKey) => (
+							<div
+								key={loadingKey}
+								className="bg-white rounded-lg shadow-sm border p-6"
+							>
+								<div className="w-16 h-4 bg-gray-200 rounded mb-2" />
+								<div className="w-24 h-6 bg-gray-200 rounded" />
+							</div>
+						),
+					)}
+				</div>
+			)}
+
+			{stats && (
+				<>
+					{/* サマリー */}
+					<div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+						<div className="bg-white rounded-lg shadow-sm border p-4 md:p-6">
+							<p className="text-sm font-medium text-gray-600">収入</p>
+							<p
+								className="text-2xl font-bold text-green-600"
+								data-testid="report-total-income"
+							>
+								{formatYen(stats.totals.income)}
+							</p>
+							{firstMonth && (
+								<p className="text-xs text-gray-500 mt-1">
+									前月比 {formatChange(firstMonth.incomeChange)}
+								</p>
+							)}
+						</div>
+						<div className="bg-white rounded-lg shadow-sm border p-4 md:p-6">
+							<p className="text-sm font-medium text-gray-600">支出</p>
+							<p
+								className="text-2xl font-bold text-red-600"
+								data-testid="report-total-expense"
+							>
+								{formatYen(stats.totals.expense)}
+							</p>
+							{firstMonth && (
+								<p className="text-xs text-gray-500 mt-1">
+									前月比 {formatChange(firstMonth.expenseChange)}
+								</p>
+							)}
+						</div>
+						<div className="bg-white rounded-lg shadow-sm border p-4 md:p-6">
+							<p className="text-sm font-medium text-gray-600">収支</p>
+							<p
+								className={`text-2xl font-bold ${stats.totals.balance < 0 ? "text-red-600" : "text-gray-900"}`}
+								data-testid="report-total-balance"
+							>
+								{formatYen(stats.totals.balance)}
+							</p>
+						</div>
+						<div className="bg-white rounded-lg shadow-sm border p-4 md:p-6">
+							<p className="text-sm font-medium text-gray-600">貯蓄率</p>
+							<p
+								className="text-2xl font-bold text-gray-900"
+								data-testid="report-savings-rate"
+							>
+								{formatRate(stats.totals.savingsRate)}
+							</p>
+						</div>
+					</div>
+
+					{/* グラフ */}
+					<ClientOnly>
+						<div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+							<div className="bg-white rounded-lg shadow-sm border p-4">
+								<div className="flex items-center justify-between mb-2">
+									<h3 className="text-base font-semibold text-gray-900">
+										カテゴリ別
+									</h3>
+									<select
+										aria-label="カテゴリ別の種別"
+										value={categoryType}
+										onChange={(e) =>
+											setCategoryType(e.target.value as "expense" | "income")
+										}
+										className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+									>
+										<option value="expense">支出</option>
+										<option value="income">収入</option>
+									</select>
+								</div>
+								<CategoryPieChart
+									data={stats.byCategory.filter(
+										(category) => category.type === categoryType,
+									)}
+								/>
+							</div>
+							<div className="bg-white rounded-lg shadow-sm border p-4">
+								<h3 className="text-base font-semibold text-gray-900 mb-2">
+									収支の累計
+								</h3>
+								{selection.mode === "month" ? (
+									<CumulativeLineChart data={stats.daily} xKey="date" />
+								) : (
+									<CumulativeLineChart data={stats.monthly} xKey="month" />
+								)}
+							</div>
+							<div className="bg-white rounded-lg shadow-sm border p-4 lg:col-span-2">
+								<h3 className="text-base font-semibold text-gray-900 mb-2">
+									月別の収入・支出
+								</h3>
+								<MonthlyBarChart data={stats.monthly} />
+							</div>
+						</div>
+					</ClientOnly>
+
+					{/* 月別の数値 */}
+					<div className="bg-white rounded-lg shadow-sm border overflow-x-auto">
+						<table className="min-w-full divide-y divide-gray-200 text-sm">
+							<caption className="sr-only">{range.label}の月別収支</caption>
+							<thead className="bg-gray-50">
+								<tr>
+									<th className="px-4 py-2 text-left font-medium text-gray-500">
+										月
+									</th>
+									<th className="px-4 py-2 text-right font-medium text-gray-500">
+										収入
+									</th>
+									<th className="px-4 py-2 text-right font-medium text-gray-500">
+										支出
+									</th>
+									<th className="px-4 py-2 text-right font-medium text-gray-500">
+										収支
+									</th>
+									<th className="px-4 py-2 text-right font-medium text-gray-500">
+										貯蓄率
+									</th>
+									<th className="px-4 py-2 text-right font-medium text-gray-500">
+										支出の前月比
+									</th>
+								</tr>
+							</thead>
+							<tbody className="divide-y divide-gray-200">
+								{stats.monthly.map((month) => (
+									<tr key={month.month} data-testid="report-month-row">
+										<td className="px-4 py-2">{month.month}</td>
+										<td className="px-4 py-2 text-right text-green-600">
+											{formatYen(month.income)}
+										</td>
+										<td className="px-4 py-2 text-right text-red-600">
+											{formatYen(month.expense)}
+										</td>
+										<td className="px-4 py-2 text-right">
+											{formatYen(month.balance)}
+										</td>
+										<td className="px-4 py-2 text-right">
+											{formatRate(month.savingsRate)}
+										</td>
+										<td className="px-4 py-2 text-right">
+											{formatChange(month.expenseChange)}
+										</td>
+									</tr>
+								))}
+							</tbody>
+						</table>
+					</div>
+				</>
+			)}
+		</div>
+	);
+}
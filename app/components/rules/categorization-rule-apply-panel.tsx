@@ -0,0 +1,193 @@
+import { useState } from "react";
+import { useCategories } from "../../lib/hooks/use-categories";
+import { useApplyCategorizationRules } from "../../lib/hooks/use-categorization-rules";
+import type { ApplyCategorizationRulesRequest } from "../../lib/schemas/api-responses";
+
+/**
+ * 既存の取引への自動分類ルールの再適用パネル
+ *
+ * 設計方針:
+ * - 取引を書き換える前に必ずdryRunで変更内容をプレビューし、確認してから適用する
+ * - プレビュー後に条件を変えた場合はプレビューをやり直すまで適用できないようにする
+ * - 設定済みのカテゴリを置き換えるかどうかは利用者が明示的に選ぶ（初期値は未分類の取引のみ）
+ */
+
+const formatYen = (value: number) => `¥${value.toLocaleString()}`;
+
+export function CategorizationRuleApplyPanel() {
+	const [options, setOptions] = useState<
+		Required<Pick<ApplyCategorizationRulesRequest, "overwriteCategory">> & {
+			startDate: string;
+			endDate: string;
+		}
+	>({ overwriteCategory: false, startDate: "", endDate: "" });
+
+	const categoriesQuery = useCategories();
+	const applyMutation = useApplyCategorizationRules();
+
+	const categoryNames = new Map(
+		(categoriesQuery.data?.data ?? []).map((category) => [
+			category.id,
+			category.name,
+		]),
+	);
+	const formatCategory = (categoryId: number | null) =>
+		categoryId == null
+			? "未分類"
+			: (categoryNames.get(categoryId) ?? `ID ${categoryId}`);
+
+	const runApply = (dryRun: boolean) => {
+		applyMutation.mutate({
+			dryRun,
+			overwriteCategory: options.overwriteCategory,
+			startDate: options.startDate || undefined,
+			endDate: options.endDate || undefined,
+		});
+	};
+
+	const updateOptions = (changes: Partial<typeof options>) => {
+		setOptions((current) => ({ ...current, ...changes }));
+		// 条件が変わったらプレビューをやり直す
+		applyMutation.reset();
+	};
+
+	const result = applyMutation.data?.data;
+	const canApply =
+		result?.dryRun === true &&
+		result.changedTransactions > 0 &&
+		!applyMutation.isPending;
+
+	return (
+		<section className="bg-white rounded-lg shadow-sm border p-4 space-y-4">
+			<div>
+				<h2 className="text-base font-semibold text-gray-900">
+					既存の取引に再適用
+				</h2>
+				<p className="text-sm text-gray-500">
+					現在のルールを登録済みの取引に適用します。適用前に変更内容を確認できます
+				</p>
+			</div>
+
+			<div className="flex flex-wrap items-end gap-4">
+				<div>
+					<label
+						htmlFor="apply-start-date"
+						className="block text-sm text-gray-700 mb-1"
+					>
+						開始日
+					</label>
+					<input
+						id="apply-start-date"
+						type="date"
+						value={options.startDate}
+						onChange={(e) => updateOptions({ startDate: e.target.value })}
+						className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+					/>
+				</div>
+				<div>
+					<label
+						htmlFor="apply-end-date"
+						className="block text-sm text-gray-700 mb-1"
+					>
+						終了日
+					</label>
+					<input
+						id="apply-end-date"
+						type="date"
+						value={options.endDate}
+						onChange={(e) => updateOptions({ endDate: e.target.value })}
+						className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+					/>
+				</div>
+				<label className="flex items-center gap-2 text-sm text-gray-700 py-2">
+					<input
+						type="checkbox"
+						checked={options.overwriteCategory}
+						onChange={(e) =>
+							updateOptions({ overwriteCategory: e.target.checked })
+						}
+					/>
+					設定済みのカテゴリも置き換える
+				</label>
+				<div className="flex gap-2 ml-auto">
+					<button
+						type="button"
+						onClick={() => runApply(true)}
+						disabled={applyMutation.isPending}
+						className="px-4 py-2 text-sm text-blue-600 border border-blue-300 rounded-md hover:bg-blue-50 disabled:opacity-50"
+					>
+						プレビュー
+					</button>
+					<button
+						type="button"
+						onClick={() => runApply(false)}
+						disabled={!canApply}
+						className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+					>
+						適用する
+					</button>
+				</div>
+			</div>
+
+			{applyMutation.error && (
+				<p className="text-sm font-medium text-red-600" role="alert">
+					{applyMutation.error.message || "ルールの再適用に失敗しました"}
+				</p>
+			)}
+
+			{result && (
+				<div className="space-y-2">
+					<p className="text-sm text-gray-700" data-testid="apply-summary">
+						{result.dryRun
+							? `${result.checkedTransactions}件中${result.changedTransactions}件の取引が変更されます`
+							: `${result.changedTransactions}件の取引にルールを適用しました`}
+					</p>
+					{result.dryRun && result.entries.length > 0 && (
+						<div className="overflow-x-auto">
+							<table className="min-w-full text-sm">
+								<thead>
+									<tr className="text-left text-gray-500 border-b">
+										<th className="py-2 pr-4 font-medium">日付</th>
+										<th className="py-2 pr-4 font-medium text-right">金額</th>
+										<th className="py-2 pr-4 font-medium">ルール</th>
+										<th className="py-2 pr-4 font-medium">カテゴリ</th>
+										<th className="py-2 pr-4 font-medium">タグ</th>
+										<th className="py-2 font-medium">説明</th>
+									</tr>
+								</thead>
+								<tbody>
+									{result.entries.map((entry) => (
+										<tr
+											key={entry.transactionId}
+											className="border-b last:border-b-0"
+											data-testid="apply-preview-entry"
+										>
+											<td className="py-2 pr-4 whitespace-nowrap">
+												{entry.transactionDate}
+											</td>
+											<td className="py-2 pr-4 text-right whitespace-nowrap">
+												{formatYen(entry.amount)}
+											</td>
+											<td className="py-2 pr-4">{entry.ruleName}</td>
+											<td className="py-2 pr-4">
+												{entry.before.categoryId === entry.after.categoryId
+													? formatCategory(entry.after.categoryId)
+													: `${formatCategory(entry.before.categoryId)} → ${formatCategory(entry.after.categoryId)}`}
+											</td>
+											<td className="py-2 pr-4">
+												{(entry.after.tags ?? [])
+													.map((tag) => `#${tag}`)
+													.join(" ")}
+											</td>
+											<td className="py-2">{entry.after.description ?? ""}</td>
+										</tr>
+									))}
+								</tbody>
+							</table>
+						</div>
+					)}
+				</div>
+			)}
+		</section>
+	);
+}
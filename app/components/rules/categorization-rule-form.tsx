@@ -0,0 +1,319 @@
+import { useState } from "react";
+import { useAccounts } from "../../lib/hooks/use-accounts";
+import { useCategories } from "../../lib/hooks/use-categories";
+import type {
+	CategorizationRuleWithCategory,
+	CreateCategorizationRuleRequest,
+} from "../../lib/schemas/api-responses";
+
+/**
+ * 自動分類ルールの作成・編集フォーム
+ *
+ * 設計方針:
+ * - 条件（説明のパターン・金額の範囲・口座・支払い方法）と設定する値（カテゴリ・タグ・メモ）を1画面で入力する
+ * - 入力中の値は文字列のまま保持し、送信時に数値・配列へ変換する
+ * - カテゴリの選択肢はルールの取引タイプ（収入・支出）に合わせて絞り込む
+ * - 条件・設定する値の整合性の検証はサーバー側で行い、エラーは親コンポーネントが表示する
+ */
+
+interface CategorizationRuleFormProps {
+	/** 編集するルール（新規作成の場合は未指定） */
+	rule?: CategorizationRuleWithCategory;
+	/** 送信中かどうか */
+	isSubmitting: boolean;
+	/** 送信時のコールバック */
+	onSubmit: (data: CreateCategorizationRuleRequest) => void;
+	/** キャンセル時のコールバック（編集時のみ） */
+	onCancel?: () => void;
+}
+
+const toInput = (value: number | string | null | undefined) =>
+	value == null ? "" : String(value);
+
+const toNullableNumber = (value: string) =>
+	value === "" ? null : Number.parseInt(value, 10);
+
+export function CategorizationRuleForm({
+	rule,
+	isSubmitting,
+	onSubmit,
+	onCancel,
+}: CategorizationRuleFormProps) {
+	const [form, setForm] = useState({
+		name: rule?.name ?? "",
+		type: (rule?.type ?? "expense") as "income" | "expense",
+		descriptionPattern: rule?.descriptionPattern ?? "",
+		matchType: (rule?.matchType ?? "contains") as "contains" | "regex",
+		minAmount: toInput(rule?.minAmount),
+		maxAmount: toInput(rule?.maxAmount),
+		accountId: toInput(rule?.accountId),
+		paymentMethod: rule?.paymentMethod ?? "",
+		categoryId: toInput(rule?.categoryId),
+		tags: rule?.tags?.join(", ") ?? "",
+		memo: rule?.memo ?? "",
+	});
+
+	const isClient = typeof window !== "undefined";
+	const categoriesQuery = useCategories();
+	const accountsQuery = useAccounts({
+		// クライアント側でのみ実行されるようにする（SSR時の問題を回避）
+		enabled: isClient,
+	});
+	const categoryOptions = (categoriesQuery.data?.data ?? []).filter(
+		(category) => category.type === form.type,
+	);
+
+	const updateForm = (changes: Partial<typeof form>) =>
+		setForm((current) => ({ ...current, ...changes }));
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		const tags = form.tags
+			.split(/[,、]/)
+			.map((tag) => tag.trim())
+			.filter((tag) => tag.length > 0);
+		onSubmit({
+			name: form.name.trim(),
+			type: form.type,
+			descriptionPattern: form.descriptionPattern.trim() || null,
+			matchType: form.matchType,
+			minAmount: toNullableNumber(form.minAmount),
+			maxAmount: toNullableNumber(form.maxAmount),
+			accountId: toNullableNumber(form.accountId),
+			paymentMethod: form.paymentMethod.trim() || null,
+			categoryId: toNullableNumber(form.categoryId),
+			tags: tags.length > 0 ? tags : null,
+			memo: form.memo.trim() || null,
+		});
+	};
+
+	const inputClassName =
+		"w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+	const labelClassName = "block text-sm text-gray-700 mb-1";
+
+	return (
+		<form
+			onSubmit={handleSubmit}
+			className="bg-white rounded-lg shadow-sm border p-4 space-y-4"
+		>
+			<h3 className="text-base font-semibold text-gray-900">
+				{rule ? "ルールを編集" : "ルールを追加"}
+			</h3>
+
+			<div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+				<div className="sm:col-span-2">
+					<label htmlFor="rule-name" className={labelClassName}>
+						ルール名
+					</label>
+					<input
+						id="rule-name"
+						type="text"
+						value={form.name}
+						onChange={(e) => updateForm({ name: e.target.value })}
+						placeholder="例: コンビニは食費"
+						maxLength={100}
+						className={inputClassName}
+					/>
+				</div>
+				<div>
+					<label htmlFor="rule-type" className={labelClassName}>
+						取引タイプ
+					</label>
+					<select
+						id="rule-type"
+						value={form.type}
+						onChange={(e) =>
+							updateForm({
+								type: e.target.value as "income" | "expense",
+								categoryId: "",
+							})
+						}
+						className={inputClassName}
+					>
+						<option value="expense">支出</option>
+						<option value="income">収入</option>
+					</select>
+				</div>
+			</div>
+
+			<fieldset className="space-y-3">
+				<legend className="text-sm font-medium text-gray-900 mb-2">
+					条件（指定した条件をすべて満たす取引に適用）
+				</legend>
+				<div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+					<div className="sm:col-span-2">
+						<label htmlFor="rule-pattern" className={labelClassName}>
+							説明
+						</label>
+						<input
+							id="rule-pattern"
+							type="text"
+							value={form.descriptionPattern}
+							onChange={(e) =>
+								updateForm({ descriptionPattern: e.target.value })
+							}
+							placeholder="例: ローソン"
+							maxLength={200}
+							className={inputClassName}
+						/>
+					</div>
+					<div>
+						<label htmlFor="rule-match-type" className={labelClassName}>
+							判定方法
+						</label>
+						<select
+							id="rule-match-type"
+							value={form.matchType}
+							onChange={(e) =>
+								updateForm({
+									matchType: e.target.value as "contains" | "regex",
+								})
+							}
+							className={inputClassName}
+						>
+							<option value="contains">を含む</option>
+							<option value="regex">正規表現</option>
+						</select>
+					</div>
+					<div>
+						<label htmlFor="rule-min-amount" className={labelClassName}>
+							金額（以上）
+						</label>
+						<input
+							id="rule-min-amount"
+							type="text"
+							inputMode="numeric"
+							value={form.minAmount}
+							onChange={(e) =>
+								updateForm({
+									minAmount: e.target.value.replace(/[^0-9]/g, ""),
+								})
+							}
+							className={`${inputClassName} text-right`}
+						/>
+					</div>
+					<div>
+						<label htmlFor="rule-max-amount" className={labelClassName}>
+							金額（以下）
+						</label>
+						<input
+							id="rule-max-amount"
+							type="text"
+							inputMode="numeric"
+							value={form.maxAmount}
+							onChange={(e) =>
+								updateForm({
+									maxAmount: e.target.value.replace(/[^0-9]/g, ""),
+								})
+							}
+							className={`${inputClassName} text-right`}
+						/>
+					</div>
+					<div>
+						<label htmlFor="rule-account" className={labelClassName}>
+							口座
+						</label>
+						<select
+							id="rule-account"
+							value={form.accountId}
+							onChange={(e) => updateForm({ accountId: e.target.value })}
+							className={inputClassName}
+						>
+							<option value="">指定しない</option>
+							{(accountsQuery.data?.data ?? []).map((account) => (
+								<option key={account.id} value={account.id}>
+									{account.name}
+								</option>
+							))}
+						</select>
+					</div>
+					<div>
+						<label htmlFor="rule-payment-method" className={labelClassName}>
+							支払い方法
+						</label>
+						<input
+							id="rule-payment-method"
+							type="text"
+							value={form.paymentMethod}
+							onChange={(e) => updateForm({ paymentMethod: e.target.value })}
+							placeholder="例: クレジットカード"
+							maxLength={50}
+							className={inputClassName}
+						/>
+					</div>
+				</div>
+			</fieldset>
+
+			<fieldset className="space-y-3">
+				<legend className="text-sm font-medium text-gray-900 mb-2">
+					設定する値
+				</legend>
+				<div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+					<div>
+						<label htmlFor="rule-category" className={labelClassName}>
+							カテゴリ
+						</label>
+						<select
+							id="rule-category"
+							value={form.categoryId}
+							onChange={(e) => updateForm({ categoryId: e.target.value })}
+							className={inputClassName}
+						>
+							<option value="">設定しない</option>
+							{categoryOptions.map((category) => (
+								<option key={category.id} value={category.id}>
+									{category.name}
+								</option>
+							))}
+						</select>
+					</div>
+					<div>
+						<label htmlFor="rule-tags" className={labelClassName}>
+							タグ（カンマ区切り）
+						</label>
+						<input
+							id="rule-tags"
+							type="text"
+							value={form.tags}
+							onChange={(e) => updateForm({ tags: e.target.value })}
+							placeholder="例: コンビニ, 間食"
+							className={inputClassName}
+						/>
+					</div>
+					<div>
+						<label htmlFor="rule-memo" className={labelClassName}>
+							メモ
+						</label>
+						<input
+							id="rule-memo"
+							type="text"
+							value={form.memo}
+							onChange={(e) => updateForm({ memo: e.target.value })}
+							maxLength={200}
+							className={inputClassName}
+						/>
+					</div>
+				</div>
+			</fieldset>
+
+			<div className="flex justify-end gap-2">
+				{onCancel && (
+					<button
+						type="button"
+						onClick={onCancel}
+						className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+					>
+						キャンセル
+					</button>
+				)}
+				<button
+					type="submit"
+					disabled={form.name.trim() === "" || isSubmitting}
+					className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+				>
+					{isSubmitting ? "保存中..." : rule ? "更新" : "追加"}
+				</button>
+			</div>
+		</form>
+	);
+}
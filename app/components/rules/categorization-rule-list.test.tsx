@@ -0,0 +1,190 @@
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { useAccounts } from "../../lib/hooks/use-accounts";
+import { useCategories } from "../../lib/hooks/use-categories";
+import {
+	useCategorizationRules,
+	useCreateCategorizationRule,
+	useDeleteCategorizationRule,
+	useReorderCategorizationRules,
+	useUpdateCategorizationRule,
+} from "../../lib/hooks/use-categorization-rules";
+import { CategorizationRuleList } from "./categorization-rule-list";
+
+/**
+ * CategorizationRuleList コンポーネントのテスト
+ *
+ * テスト方針:
+ * - ルールの条件と設定する値が優先順位順に表示されることを検証
+ * - 上下ボタンの並び替えで、入れ替え後の並び全体の優先順位が送信されることを検証
+ * - フォームの入力内容がルール作成のリクエストに変換されることを検証
+ * - データ取得・更新はフックをモックする
+ */
+
+vi.mock("../../lib/hooks/use-categorization-rules", () => ({
+	useCategorizationRules: vi.fn(),
+	useCreateCategorizationRule: vi.fn(),
+	useUpdateCategorizationRule: vi.fn(),
+	useDeleteCategorizationRule: vi.fn(),
+	useReorderCategorizationRules: vi.fn(),
+}));
+
+vi.mock("../../lib/hooks/use-categories", () => ({
+	useCategories: vi.fn(),
+}));
+
+vi.mock("../../lib/hooks/use-accounts", () => ({
+	useAccounts: vi.fn(),
+}));
+
+const baseRule = {
+	type: "expense",
+	descriptionPattern: null,
+	matchType: "contains",
+	minAmount: null,
+	maxAmount: null,
+	accountId: null,
+	paymentMethod: null,
+	categoryId: null,
+	category: null,
+	tags: null,
+	memo: null,
+	isActive: true,
+	createdAt: "2025-01-01T00:00:00Z",
+	updatedAt: "2025-01-01T00:00:00Z",
+};
+
+const convenienceRule = {
+	...baseRule,
+	id: 1,
+	name: "コンビニ",
+	priority: 1,
+	descriptionPattern: "ローソン",
+	categoryId: 1,
+	category: { id: 1, name: "食費", type: "expense", color: "#ef4444" },
+	tags: ["コンビニ"],
+};
+
+const largeAmountRule = {
+	...baseRule,
+	id: 2,
+	name: "高額な支出",
+	priority: 2,
+	minAmount: 10000,
+	memo: "要確認",
+	isActive: false,
+};
+
+describe("CategorizationRuleList", () => {
+	const createRule = vi.fn();
+	const updateRule = vi.fn();
+	const reorderRules = vi.fn();
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		cleanup();
+		vi.mocked(useCategorizationRules).mockReturnValue({
+			data: { success: true, data: [convenienceRule, largeAmountRule] },
+			isLoading: false,
+			error: null,
+		} as any);
+		vi.mocked(useCreateCategorizationRule).mockReturnValue({
+			mutate: createRule,
+			isPending: false,
+			error: null,
+		} as any);
+		vi.mocked(useUpdateCategorizationRule).mockReturnValue({
+			mutate: updateRule,
+			isPending: false,
+			error: null,
+		} as any);
+		vi.mocked(useDeleteCategorizationRule).mockReturnValue({
+			mutate: vi.fn(),
+			isPending: false,
+			error: null,
+		} as any);
+		vi.mocked(useReorderCategorizationRules).mockReturnValue({
+			mutate: reorderRules,
+			isPending: false,
+			error: null,
+		} as any);
+		vi.mocked(useCategories).mockReturnValue({
+			data: { success: true, data: [convenienceRule.category] },
+		} as any);
+		vi.mocked(useAccounts).mockReturnValue({
+			data: { success: true, data: [] },
+		} as any);
+	});
+
+	it("ルールの条件と設定する値を優先順位順に表示する", () => {
+		render(<CategorizationRuleList />);
+
+		const rules = screen.getAllByTestId("categorization-rule");
+		expect(rules).toHaveLength(2);
+		expect(rules[0]).toHaveTextContent("支出・説明に「ローソン」を含む");
+		expect(rules[0]).toHaveTextContent("カテゴリ「食費」・タグ #コンビニ");
+		expect(rules[1]).toHaveTextContent("金額 ¥10,000〜");
+		expect(rules[1]).toHaveTextContent("無効");
+	});
+
+	it("優先順位を下げると入れ替え後の並び全体を送信する", () => {
+		render(<CategorizationRuleList />);
+
+		// 先頭のルールは上げられない
+		expect(
+			screen.getByRole("button", { name: "コンビニの優先順位を上げる" }),
+		).toBeDisabled();
+
+		fireEvent.click(
+			screen.getByRole("button", { name: "コンビニの優先順位を下げる" }),
+		);
+		expect(reorderRules).toHaveBeenCalledWith({
+			rules: [
+				{ id: 2, priority: 1 },
+				{ id: 1, priority: 2 },
+			],
+		});
+	});
+
+	it("入力内容をルール作成のリクエストに変換して送信する", () => {
+		render(<CategorizationRuleList />);
+
+		fireEvent.change(screen.getByLabelText("ルール名"), {
+			target: { value: "スーパー" },
+		});
+		fireEvent.change(screen.getByLabelText("説明"), {
+			target: { value: "イオン" },
+		});
+		fireEvent.change(screen.getByLabelText("カテゴリ"), {
+			target: { value: "1" },
+		});
+		fireEvent.change(screen.getByLabelText("タグ（カンマ区切り）"), {
+			target: { value: "日用品, まとめ買い" },
+		});
+		fireEvent.click(screen.getByRole("button", { name: "追加" }));
+
+		expect(createRule).toHaveBeenCalledWith({
+			name: "スーパー",
+			type: "expense",
+			descriptionPattern: "イオン",
+			matchType: "contains",
+			minAmount: null,
+			maxAmount: null,
+			accountId: null,
+			paymentMethod: null,
+			categoryId: 1,
+			tags: ["日用品", "まとめ買い"],
+			memo: null,
+		});
+	});
+
+	it("無効なルールは有効にするボタンで再び有効化できる", () => {
+		render(<CategorizationRuleList />);
+
+		fireEvent.click(screen.getByRole("button", { name: "有効にする" }));
+		expect(updateRule).toHaveBeenCalledWith({
+			id: 2,
+			data: { isActive: true },
+		});
+	});
+});
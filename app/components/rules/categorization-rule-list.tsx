@@ -0,0 +1,274 @@
+import { useState } from "react";
+import {
+	useCategorizationRules,
+	useCreateCategorizationRule,
+	useDeleteCategorizationRule,
+	useReorderCategorizationRules,
+	useUpdateCategorizationRule,
+} from "../../lib/hooks/use-categorization-rules";
+import type {
+	CategorizationRuleWithCategory,
+	CreateCategorizationRuleRequest,
+} from "../../lib/schemas/api-responses";
+import { CategorizationRuleForm } from "./categorization-rule-form";
+
+/**
+ * 自動分類ルール一覧コンポーネント
+ *
+ * 設計方針:
+ * - 上から順に優先順位が高く、取引には最初に一致したルールのみ適用されることを一覧の並びで表す
+ * - 並び替えは上下ボタンで行い、入れ替え後の並び全体をPUT /api/categorization-rules/reorderで保存する
+ * - 追加・編集は同じフォームを使い、編集中のルールはその位置にフォームを表示する
+ * - 無効化したルールは削除せずに一覧に残し、適用の対象外であることを表示で示す
+ */
+
+const formatYen = (value: number) => `¥${value.toLocaleString()}`;
+
+/**
+ * ルールの条件を一覧表示用の文言に変換する
+ */
+function describeConditions(rule: CategorizationRuleWithCategory) {
+	const conditions: string[] = [rule.type === "income" ? "収入" : "支出"];
+	if (rule.descriptionPattern) {
+		conditions.push(
+			rule.matchType === "regex"
+				? `説明が /${rule.descriptionPattern}/ に一致`
+				: `説明に「${rule.descriptionPattern}」を含む`,
+		);
+	}
+	if (rule.minAmount != null || rule.maxAmount != null) {
+		conditions.push(
+			`金額 ${rule.minAmount != null ? formatYen(rule.minAmount) : ""}〜${
+				rule.maxAmount != null ? formatYen(rule.maxAmount) : ""
+			}`,
+		);
+	}
+	if (rule.accountId != null) {
+		conditions.push(`口座ID ${rule.accountId}`);
+	}
+	if (rule.paymentMethod) {
+		conditions.push(`支払い方法「${rule.paymentMethod}」`);
+	}
+	return conditions.join("・");
+}
+
+/**
+ * ルールで設定する値を一覧表示用の文言に変換する
+ */
+function describeActions(rule: CategorizationRuleWithCategory) {
+	const actions: string[] = [];
+	if (rule.category) {
+		actions.push(`カテゴリ「${rule.category.name}」`);
+	}
+	if (rule.tags && rule.tags.length > 0) {
+		actions.push(`タグ ${rule.tags.map((tag) => `#${tag}`).join(" ")}`);
+	}
+	if (rule.memo) {
+		actions.push(`メモ「${rule.memo}」`);
+	}
+	return actions.join("・");
+}
+
+export function CategorizationRuleList() {
+	const [editingId, setEditingId] = useState<number | null>(null);
+	const [pendingDeleteId, setPendingDeleteId] = useState<number | null>(null);
+	const [formKey, setFormKey] = useState(0);
+
+	const rulesQuery = useCategorizationRules({
+		// クライアント側でのみ実行されるようにする（SSR時の問題を回避）
+		enabled: typeof window !== "undefined",
+	});
+	const createMutation = useCreateCategorizationRule({
+		// 追加後はフォームを作り直して入力内容をクリアする
+		onSuccess: () => setFormKey((key) => key + 1),
+	});
+	const updateMutation = useUpdateCategorizationRule({
+		onSuccess: () => setEditingId(null),
+	});
+	const deleteMutation = useDeleteCategorizationRule({
+		onSuccess: () => setPendingDeleteId(null),
+	});
+	const reorderMutation = useReorderCategorizationRules();
+
+	const rules = rulesQuery.data?.data ?? [];
+
+	const moveRule = (index: number, direction: -1 | 1) => {
+		const target = index + direction;
+		if (target < 0 || target >= rules.length) return;
+		const reordered = [...rules];
+		[reordered[index], reordered[target]] = [
+			reordered[target],
+			reordered[index],
+		];
+		reorderMutation.mutate({
+			rules: reordered.map((rule, i) => ({ id: rule.id, priority: i + 1 })),
+		});
+	};
+
+	const handleUpdate = (id: number, data: CreateCategorizationRuleRequest) => {
+		updateMutation.mutate({ id, data });
+	};
+
+	const mutationError =
+		createMutation.error ??
+		updateMutation.error ??
+		deleteMutation.error ??
+		reorderMutation.error;
+
+	return (
+		<div className="space-y-4">
+			{mutationError && (
+				<p className="text-sm font-medium text-red-600" role="alert">
+					{mutationError.message || "自動分類ルールの保存に失敗しました"}
+				</p>
+			)}
+
+			{editingId === null && (
+				<CategorizationRuleForm
+					key={formKey}
+					isSubmitting={createMutation.isPending}
+					onSubmit={(data) => createMutation.mutate(data)}
+				/>
+			)}
+
+			{rulesQuery.error ? (
+				<div className="bg-white rounded-lg shadow-sm border p-6">
+					<p className="text-sm font-medium text-red-600" role="alert">
+						自動分類ルールの取得に失敗しました
+					</p>
+				</div>
+			) : rulesQuery.isLoading ? (
+				<div className="bg-white rounded-lg shadow-sm border p-6 animate-pulse">
+					<div className="w-48 h-6 bg-gray-200 rounded" />
+				</div>
+			) : rules.length === 0 ? (
+				<div className="bg-white rounded-lg shadow-sm border p-6">
+					<p className="text-sm text-gray-500">
+						登録されている自動分類ルールはありません
+					</p>
+				</div>
+			) : (
+				<ol className="space-y-3">
+					{rules.map((rule, index) =>
+						editingId === rule.id ? (
+							<li key={rule.id}>
+								<CategorizationRuleForm
+									rule={rule}
+									isSubmitting={updateMutation.isPending}
+									onSubmit={(data) => handleUpdate(rule.id, data)}
+									onCancel={() => setEditingId(null)}
+								/>
+							</li>
+						) : (
+							<li
+								key={rule.id}
+								className={`bg-white rounded-lg shadow-sm border p-4 space-y-2 ${
+									rule.isActive ? "" : "opacity-60"
+								}`}
+								data-testid="categorization-rule"
+							>
+								<div className="flex flex-wrap items-center justify-between gap-2">
+									<div className="flex items-center gap-2">
+										<span className="text-xs text-gray-500">{index + 1}</span>
+										<h3 className="text-base font-semibold text-gray-900">
+											{rule.name}
+										</h3>
+										{!rule.isActive && (
+											<span className="px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-600">
+												無効
+											</span>
+										)}
+									</div>
+									<div className="flex gap-1">
+										<button
+											type="button"
+											onClick={() => moveRule(index, -1)}
+											disabled={index === 0 || reorderMutation.isPending}
+											aria-label={`${rule.name}の優先順位を上げる`}
+											className="px-2 py-1 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-40"
+										>
+											↑
+										</button>
+										<button
+											type="button"
+											onClick={() => moveRule(index, 1)}
+											disabled={
+												index === rules.length - 1 || reorderMutation.isPending
+											}
+											aria-label={`${rule.name}の優先順位を下げる`}
+											className="px-2 py-1 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-40"
+										>
+											↓
+										</button>
+									</div>
+								</div>
+
+								<p className="text-sm text-gray-700">
+									<span className="text-gray-500">条件: </span>
+									{describeConditions(rule)}
+								</p>
+								<p className="text-sm text-gray-700">
+									<span className="text-gray-500">設定: </span>
+									{describeActions(rule)}
+								</p>
+
+								{pendingDeleteId === rule.id ? (
+									<div className="flex flex-wrap items-center justify-end gap-2">
+										<p className="text-sm text-gray-700">
+											ルールを削除しますか？分類済みの取引は変更されません
+										</p>
+										<button
+											type="button"
+											onClick={() => setPendingDeleteId(null)}
+											className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+										>
+											キャンセル
+										</button>
+										<button
+											type="button"
+											onClick={() => deleteMutation.mutate(rule.id)}
+											disabled={deleteMutation.isPending}
+											className="px-3 py-1 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50"
+										>
+											削除する
+										</button>
+									</div>
+								) : (
+									<div className="flex justify-end gap-2">
+										<button
+											type="button"
+											onClick={() =>
+												updateMutation.mutate({
+													id: rule.id,
+													data: { isActive: !rule.isActive },
+												})
+											}
+											disabled={updateMutation.isPending}
+											className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+										>
+											{rule.isActive ? "無効にする" : "有効にする"}
+										</button>
+										<button
+											type="button"
+											onClick={() => setEditingId(rule.id)}
+											className="px-3 py-1 text-sm text-blue-600 border border-blue-300 rounded-md hover:bg-blue-50"
+										>
+											編集
+										</button>
+										<button
+											type="button"
+											onClick={() => setPendingDeleteId(rule.id)}
+											className="px-3 py-1 text-sm text-red-600 border border-red-300 rounded-md hover:bg-red-50"
+										>
+											削除
+										</button>
+									</div>
+								)}
+							</li>
+						),
+					)}
+				</ol>
+			)}
+		</div>
+	);
+}
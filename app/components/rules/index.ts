@@ -0,0 +1,10 @@
+/**
+ * 自動分類ルールコンポーネントの統合エクスポート
+ *
+ * 設計方針:
+ * - ルールの登録・一覧・既存の取引への再適用関連コンポーネントの単一エントリーポイント
+ */
+
+export { CategorizationRuleApplyPanel } from "./categorization-rule-apply-panel";
+export { CategorizationRuleForm } from "./categorization-rule-form";
+export { CategorizationRuleList } from "./categorization-rule-list";
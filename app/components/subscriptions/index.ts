@@ -18,6 +18,15 @@ export { SubscriptionFormNative } from "./subscription-form-native";
 export { SubscriptionFormModal } from "./subscription-form-modal";
 export type { SubscriptionFormData } from "./subscription-form-modal";
 
+// サブスクリプションの価格履歴コンポーネント
+export { SubscriptionPriceHistory } from "./subscription-price-history";
+
+// サブスクリプションの支払い履歴コンポーネント
+export { SubscriptionPaymentHistory } from "./subscription-payment-history";
+
+// サブスクリプションのリマインダー設定コンポーネント
+export { SubscriptionReminderSettings } from "./subscription-reminder-settings";
+
 // サブスクリプション操作アクションコンポーネント
 export {
 	SubscriptionActions,
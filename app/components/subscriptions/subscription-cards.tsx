@@ -1,7 +1,15 @@
 import { useMemo, useState } from "react";
+import {
+	getAnnualPaymentCount,
+	getDaysUntil,
+} from "../../../db/queries/recurrence";
+import { getFrequencyLabel } from "../../constants/subscription-frequencies";
 import { useSubscriptions } from "../../lib/hooks/use-subscriptions";
 import type { SelectSubscription } from "../../types";
 import { SubscriptionActions } from "./subscription-actions";
+import { SubscriptionPaymentHistory } from "./subscription-payment-history";
+import { SubscriptionPriceHistory } from "./subscription-price-history";
+import { SubscriptionReminderSettings } from "./subscription-reminder-settings";
 
 /**
  * サブスクリプションカード一覧コンポーネント
@@ -11,6 +19,11 @@ import { SubscriptionActions } from "./subscription-actions";
  * - 月額/年額の表示切り替え機能
  * - アクティブ/非アクティブの状態管理
  * - 次回請求日の計算と表示
+ * - 年間の請求回数はgetAnnualPaymentCount（db/queries/recurrence.ts）で計算し、
+ *   月額合計（getMonthlySubscriptionTotal・useSubscriptionsTotalCost）と同じ換算にする
+ * - 無料トライアル期間と契約の終了（終了日・残りの支払回数）を表示
+ * - 詳細表示で価格の推移と支払い履歴（期間ごとの状態・スキップや支払額の記録）、
+ *   リマインダー（支払日・トライアル終了日・解約期限の通知）の設定を展開表示（1件ずつ）
  * - インライン編集・削除・状態切り替え機能
  * - 既存のTransactionCardsパターンを踏襲
  * - レスポンシブデザインとアクセシビリティ対応
@@ -42,46 +55,12 @@ export interface SubscriptionCardsProps {
 // 表示期間の型定義
 type DisplayPeriod = "monthly" | "yearly";
 
-// 請求頻度に応じた年間回数の計算
-const getAnnualMultiplier = (frequency: string): number => {
-	switch (frequency) {
-		case "daily":
-			return 365;
-		case "weekly":
-			return 52;
-		case "monthly":
-			return 12;
-		case "yearly":
-			return 1;
-		default:
-			return 12; // デフォルトは月次
-	}
-};
-
-// 次回請求日の計算（既存のnextPaymentDateを使用）
-const getNextBillingDate = (
-	nextPaymentDate: string,
-	frequency: string,
-): Date => {
-	// 既存のnextPaymentDateをそのまま使用
-	return new Date(nextPaymentDate);
-};
-
-// 請求頻度の日本語表示
-const getFrequencyLabel = (frequency: string): string => {
-	switch (frequency) {
-		case "daily":
-			return "日次";
-		case "weekly":
-			return "週次";
-		case "monthly":
-			return "月次";
-		case "yearly":
-			return "年次";
-		default:
-			return "月次";
-	}
-};
+// 次回請求日の表示（実行環境のタイムゾーンでずれないよう、文字列から年月日を取り出す）
+const formatBillingDate = (date: string): string =>
+	date
+		.split("-")
+		.map((part) => Number(part))
+		.join("/");
 
 export function SubscriptionCards({
 	filter = "all",
@@ -92,6 +71,8 @@ export function SubscriptionCards({
 }: SubscriptionCardsProps) {
 	// 表示期間の状態管理
 	const [displayPeriod, setDisplayPeriod] = useState<DisplayPeriod>("monthly");
+	// 詳細（価格の推移）を展開しているサブスクリプション
+	const [expandedId, setExpandedId] = useState<number | null>(null);
 
 	// サブスクリプションデータを取得
 	const {
@@ -118,10 +99,8 @@ export function SubscriptionCards({
 			if (a.isActive !== b.isActive) {
 				return a.isActive ? -1 : 1;
 			}
-			// 次回請求日が近いものを先に表示
-			const nextA = getNextBillingDate(a.nextPaymentDate, a.frequency);
-			const nextB = getNextBillingDate(b.nextPaymentDate, b.frequency);
-			return nextA.getTime() - nextB.getTime();
+			// 次回請求日が近いものを先に表示（YYYY-MM-DD形式のため文字列で比較できる）
+			return a.nextPaymentDate.localeCompare(b.nextPaymentDate);
 		});
 	}, [subscriptionsResponse?.data, filter]);
 
@@ -132,8 +111,11 @@ export function SubscriptionCards({
 		return subscriptions
 			.filter((sub) => sub.isActive)
 			.reduce((total, sub) => {
-				const annualMultiplier = getAnnualMultiplier(sub.frequency);
-				const annualCost = sub.amount * annualMultiplier;
+				const annualPaymentCount = getAnnualPaymentCount(
+					sub.frequency,
+					sub.intervalCount,
+				);
+				const annualCost = sub.amount * annualPaymentCount;
 
 				if (displayPeriod === "monthly") {
 					return total + annualCost / 12;
@@ -149,8 +131,11 @@ export function SubscriptionCards({
 
 	// 個別サブスクリプションの表示金額計算
 	const getDisplayAmount = (subscription: SelectSubscription): number => {
-		const annualMultiplier = getAnnualMultiplier(subscription.frequency);
-		const annualCost = subscription.amount * annualMultiplier;
+		const annualPaymentCount = getAnnualPaymentCount(
+			subscription.frequency,
+			subscription.intervalCount,
+		);
+		const annualCost = subscription.amount * annualPaymentCount;
 
 		if (displayPeriod === "monthly") {
 			return annualCost / 12;
@@ -158,17 +143,6 @@ export function SubscriptionCards({
 		return annualCost;
 	};
 
-	// 次回請求日までの日数計算
-	const getDaysUntilNext = (subscription: SelectSubscription): number => {
-		const nextDate = getNextBillingDate(
-			subscription.nextPaymentDate,
-			subscription.frequency,
-		);
-		const today = new Date();
-		const diffTime = nextDate.getTime() - today.getTime();
-		return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-	};
-
 	// ローディング表示
 	if (isLoading) {
 		return (
@@ -320,11 +294,12 @@ export function SubscriptionCards({
 			<div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
 				{subscriptions.map((subscription) => {
 					const displayAmount = getDisplayAmount(subscription);
-					const daysUntilNext = getDaysUntilNext(subscription);
-					const nextBillingDate = getNextBillingDate(
-						subscription.nextPaymentDate,
-						subscription.frequency,
-					);
+					// 次回請求日までの日数（日本時間の今日を基準に日付単位で計算）
+					const daysUntilNext = getDaysUntil(subscription.nextPaymentDate);
+					// 無料トライアル期間中かどうか（トライアル終了日より前の支払いは請求されない）
+					const isInTrial =
+						subscription.trialEndDate !== null &&
+						getDaysUntil(subscription.trialEndDate) > 0;
 
 					return (
 						<div
@@ -371,7 +346,10 @@ export function SubscriptionCards({
 								</div>
 								<div className="text-sm text-gray-600">
 									実際の請求: ¥{subscription.amount.toLocaleString()} /{" "}
-									{getFrequencyLabel(subscription.frequency)}
+									{getFrequencyLabel(
+										subscription.frequency,
+										subscription.intervalCount,
+									)}
 								</div>
 							</div>
 
@@ -387,13 +365,37 @@ export function SubscriptionCards({
 												: "text-gray-700"
 									}`}
 								>
-									{nextBillingDate.toLocaleDateString("ja-JP")}
+									{formatBillingDate(subscription.nextPaymentDate)}
 									<span className="ml-1">
 										({daysUntilNext > 0 ? `${daysUntilNext}日後` : "本日"})
 									</span>
 								</div>
 							</div>
 
+							{/* トライアル・契約の終了 */}
+							{(isInTrial ||
+								subscription.endDate ||
+								subscription.remainingPayments !== null) && (
+								<div className="mb-4 flex flex-wrap gap-2">
+									{isInTrial && subscription.trialEndDate && (
+										<span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+											トライアル中（
+											{formatBillingDate(subscription.trialEndDate)}まで）
+										</span>
+									)}
+									{subscription.remainingPayments !== null && (
+										<span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+											残り{subscription.remainingPayments}回
+										</span>
+									)}
+									{subscription.endDate && (
+										<span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+											{formatBillingDate(subscription.endDate)}で終了
+										</span>
+									)}
+								</div>
+							)}
+
 							{/* 説明 */}
 							{subscription.description && (
 								<div className="mb-4">
@@ -407,6 +409,41 @@ export function SubscriptionCards({
 								</div>
 							)}
 
+							{/* 詳細（価格の推移・支払い履歴） */}
+							<div className="mb-4">
+								<button
+									type="button"
+									onClick={() =>
+										setExpandedId(
+											expandedId === subscription.id ? null : subscription.id,
+										)
+									}
+									aria-expanded={expandedId === subscription.id}
+									className="text-sm text-gray-600 hover:text-gray-800 font-medium transition-colors"
+								>
+									{expandedId === subscription.id
+										? "詳細を閉じる"
+										: "価格履歴・支払い履歴・リマインダーを見る"}
+								</button>
+								{expandedId === subscription.id && (
+									<div className="mt-3 p-3 bg-gray-50 rounded-md space-y-4">
+										<SubscriptionPriceHistory
+											subscriptionId={subscription.id}
+										/>
+										<div className="pt-3 border-t border-gray-200">
+											<SubscriptionPaymentHistory
+												subscriptionId={subscription.id}
+											/>
+										</div>
+										<div className="pt-3 border-t border-gray-200">
+											<SubscriptionReminderSettings
+												subscriptionId={subscription.id}
+											/>
+										</div>
+									</div>
+								)}
+							</div>
+
 							{/* アクションボタン */}
 							<SubscriptionActions
 								subscription={subscription}
@@ -45,6 +45,7 @@ const mockCategories: SelectCategory[] = [
 		type: "expense",
 		color: "#FF6B6B",
 		icon: "entertainment",
+		parentId: null,
 		displayOrder: 1,
 		isActive: true,
 		createdAt: "2024-01-01T00:00:00.000Z",
@@ -56,6 +57,7 @@ const mockCategories: SelectCategory[] = [
 		type: "expense",
 		color: "#4ECDC4",
 		icon: "software",
+		parentId: null,
 		displayOrder: 2,
 		isActive: true,
 		createdAt: "2024-01-01T00:00:00.000Z",
@@ -70,6 +72,7 @@ const mockIncomeCategory: SelectCategory = {
 	type: "income",
 	color: "#96CEB4",
 	icon: "salary",
+	parentId: null,
 	displayOrder: 100,
 	isActive: true,
 	createdAt: "2024-01-01T00:00:00.000Z",
@@ -81,8 +84,15 @@ const mockSubscription: SelectSubscription = {
 	name: "Netflix",
 	amount: 1980,
 	categoryId: 1,
+	accountId: null,
 	frequency: "monthly",
 	nextPaymentDate: "2024-02-15",
+	intervalCount: 1,
+	billingDay: 15,
+	businessDayAdjustment: "none",
+	endDate: null,
+	remainingPayments: null,
+	trialEndDate: null,
 	description: "家族プラン",
 	isActive: true,
 	autoGenerate: true,
@@ -399,6 +409,13 @@ describe("SubscriptionFormModal", () => {
 						amount: 1980,
 						frequency: "monthly",
 						nextPaymentDate: "2024-03-15",
+						intervalCount: 1,
+						billingDay: 15,
+						businessDayAdjustment: "none",
+						endDate: null,
+						remainingPayments: null,
+						trialEndDate: null,
+						priceEffectiveDate: null,
 						description: "家族プラン",
 					});
 				},
@@ -414,6 +431,113 @@ describe("SubscriptionFormModal", () => {
 			);
 		});
 
+		it("支払い間隔と月末最終営業日の指定が支払日・土日祝日の扱いとして送信される", async () => {
+			const user = userEvent.setup();
+			mockOnSubmit.mockResolvedValue(undefined);
+
+			render(
+				<TestWrapper>
+					<SubscriptionFormModal
+						isOpen={true}
+						onClose={mockOnClose}
+						mode="edit"
+						initialData={mockSubscription}
+						onSubmit={mockOnSubmit}
+					/>
+				</TestWrapper>,
+			);
+
+			await user.selectOptions(screen.getByLabelText("支払い間隔"), "3");
+			await user.selectOptions(
+				screen.getByLabelText("支払日の指定"),
+				"last_business_day",
+			);
+
+			// 月末最終営業日は前営業日にずらす指定のため、土日祝日の扱いは選択しない
+			expect(screen.queryByLabelText("土日祝日の場合")).not.toBeInTheDocument();
+
+			await user.click(screen.getByRole("button", { name: "更新" }));
+
+			await waitFor(() => {
+				expect(mockOnSubmit).toHaveBeenCalledWith(
+					expect.objectContaining({
+						intervalCount: 3,
+						billingDay: 31,
+						businessDayAdjustment: "previous",
+					}),
+				);
+			});
+		});
+
+		it("編集時に金額を変更すると新しい金額の適用日が送信される", async () => {
+			const user = userEvent.setup();
+			mockOnSubmit.mockResolvedValue(undefined);
+
+			render(
+				<TestWrapper>
+					<SubscriptionFormModal
+						isOpen={true}
+						onClose={mockOnClose}
+						mode="edit"
+						initialData={mockSubscription}
+						onSubmit={mockOnSubmit}
+					/>
+				</TestWrapper>,
+			);
+
+			// 金額を変更するまで適用日は表示しない
+			expect(
+				screen.queryByLabelText("新しい金額の適用日"),
+			).not.toBeInTheDocument();
+
+			const amountInput = screen.getByLabelText(/金額/);
+			await user.clear(amountInput);
+			await user.type(amountInput, "2290");
+			await user.type(
+				screen.getByLabelText("新しい金額の適用日"),
+				"2024-04-01",
+			);
+			await user.click(screen.getByRole("button", { name: "更新" }));
+
+			await waitFor(() => {
+				expect(mockOnSubmit).toHaveBeenCalledWith(
+					expect.objectContaining({
+						amount: 2290,
+						priceEffectiveDate: "2024-04-01",
+					}),
+				);
+			});
+		});
+
+		it("終了日が次回支払日より前の場合はバリデーションエラーが表示される", async () => {
+			const user = userEvent.setup();
+
+			render(
+				<TestWrapper>
+					<SubscriptionFormModal
+						isOpen={true}
+						onClose={mockOnClose}
+						mode="edit"
+						initialData={mockSubscription}
+						onSubmit={mockOnSubmit}
+					/>
+				</TestWrapper>,
+			);
+
+			await user.type(
+				screen.getByLabelText("終了日（オプション）"),
+				"2020-01-01",
+			);
+			await user.click(screen.getByRole("button", { name: "更新" }));
+
+			await waitFor(() => {
+				expect(
+					screen.getByText("終了日は次回支払日以降の日付を指定してください"),
+				).toBeInTheDocument();
+			});
+			expect(mockOnSubmit).not.toHaveBeenCalled();
+		});
+
 		it("必須項目が未入力の場合はバリデーションエラーが表示される", async () => {
 			const user = userEvent.setup();
 
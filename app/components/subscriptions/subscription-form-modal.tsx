@@ -1,5 +1,19 @@
 import { useCallback, useMemo, useState } from "react";
 import { z } from "zod";
+import {
+	getAnnualPaymentCount,
+	getTodayInJst,
+	isMonthBasedFrequency,
+} from "../../../db/queries/recurrence";
+import {
+	BUSINESS_DAY_ADJUSTMENTS,
+	MAX_SUBSCRIPTION_INTERVAL,
+	SUBSCRIPTION_FREQUENCIES,
+} from "../../../db/schema";
+import {
+	SUBSCRIPTION_FREQUENCY_LABELS,
+	getFrequencyLabel,
+} from "../../constants/subscription-frequencies";
 import { useActiveCategories } from "../../lib/hooks/use-categories";
 import type { SelectCategory, SelectSubscription } from "../../types";
 
@@ -10,33 +24,66 @@ import type { SelectCategory, SelectSubscription } from "../../types";
  * - 新規作成と編集の両方に対応する統一インターフェース
  * - DBスキーマに合わせたフォームフィールドとZodバリデーション
  * - リアルタイム年間コスト計算でユーザビリティ向上
+ * - 月単位の周期（月次・四半期・半年・年次・2年）は支払日（次回支払日と同じ日・月末・月末最終営業日）と土日祝日の扱いを指定できる
+ *   （月末最終営業日は支払日31日を前営業日にずらす指定として送信する）
+ * - 契約の終了日・残りの支払回数・無料トライアルの終了日は任意入力（未入力はnullとして送信）
+ * - 編集時に金額を変更した場合は新しい金額の適用日を指定できる（未入力は今日から適用、
+ *   金額を変更していない場合はnullとして送信）
  * - カテゴリを支出用のみに制限（サブスクは支出のため）
  * - 適切なエラーハンドリングとユーザーフィードバック
  */
 
+const optionalDateSchema = z
+	.string()
+	.regex(/^\d{4}-\d{2}-\d{2}$/, "正しい日付形式で入力してください")
+	.nullable();
+
 // フォームデータのZodスキーマ
-const subscriptionFormSchema = z.object({
-	categoryId: z.number().min(1, "カテゴリを選択してください"),
-	name: z
-		.string()
-		.min(1, "サービス名を入力してください")
-		.max(100, "サービス名は100文字以内で入力してください"),
-	amount: z
-		.number()
-		.int()
-		.min(1, "金額は1円以上で入力してください")
-		.max(1000000, "金額は100万円以下で入力してください"),
-	frequency: z.enum(["daily", "weekly", "monthly", "yearly"], {
-		required_error: "請求頻度を選択してください",
-	}),
-	nextPaymentDate: z
-		.string()
-		.regex(/^\d{4}-\d{2}-\d{2}$/, "正しい日付形式で入力してください"),
-	description: z
-		.string()
-		.max(500, "説明は500文字以内で入力してください")
-		.optional(),
-});
+const subscriptionFormSchema = z
+	.object({
+		categoryId: z.number().min(1, "カテゴリを選択してください"),
+		name: z
+			.string()
+			.min(1, "サービス名を入力してください")
+			.max(100, "サービス名は100文字以内で入力してください"),
+		amount: z
+			.number()
+			.int()
+			.min(1, "金額は1円以上で入力してください")
+			.max(1000000, "金額は100万円以下で入力してください"),
+		frequency: z.enum(SUBSCRIPTION_FREQUENCIES, {
+			required_error: "請求頻度を選択してください",
+		}),
+		nextPaymentDate: z
+			.string()
+			.regex(/^\d{4}-\d{2}-\d{2}$/, "正しい日付形式で入力してください"),
+		intervalCount: z
+			.number()
+			.int()
+			.min(1)
+			.max(
+				MAX_SUBSCRIPTION_INTERVAL,
+				`支払い間隔は${MAX_SUBSCRIPTION_INTERVAL}以下で選択してください`,
+			),
+		billingDay: z.number().int().min(1).max(31).nullable(),
+		businessDayAdjustment: z.enum(BUSINESS_DAY_ADJUSTMENTS),
+		endDate: optionalDateSchema,
+		remainingPayments: z
+			.number()
+			.int()
+			.min(1, "残りの支払回数は1回以上で入力してください")
+			.nullable(),
+		trialEndDate: optionalDateSchema,
+		priceEffectiveDate: optionalDateSchema,
+		description: z
+			.string()
+			.max(500, "説明は500文字以内で入力してください")
+			.optional(),
+	})
+	.refine((data) => !data.endDate || data.endDate >= data.nextPaymentDate, {
+		message: "終了日は次回支払日以降の日付を指定してください",
+		path: ["endDate"],
+	});
 
 export type SubscriptionFormData = z.infer<typeof subscriptionFormSchema>;
 
@@ -64,13 +111,86 @@ export interface SubscriptionFormModalProps {
 }
 
 // 請求頻度のオプション
-const frequencyOptions = [
-	{ value: "daily", label: "日次" },
-	{ value: "weekly", label: "週次" },
-	{ value: "monthly", label: "月次" },
-	{ value: "yearly", label: "年次" },
+const frequencyOptions = SUBSCRIPTION_FREQUENCIES.map((value) => ({
+	value,
+	label: SUBSCRIPTION_FREQUENCY_LABELS[value],
+}));
+
+// 支払い間隔の表示（例: 毎月、3か月ごと）
+const everyPeriodLabels: Record<SubscriptionFormData["frequency"], string> = {
+	daily: "毎日",
+	weekly: "毎週",
+	monthly: "毎月",
+	quarterly: "3か月ごと",
+	semiannual: "6か月ごと",
+	yearly: "毎年",
+	biennial: "2年ごと",
+};
+
+const getIntervalLabel = (
+	frequency: SubscriptionFormData["frequency"],
+	count: number,
+): string =>
+	count === 1
+		? everyPeriodLabels[frequency]
+		: getFrequencyLabel(frequency, count);
+
+// 支払日の指定方法（月単位の周期のみ）
+type BillingDayType = "same_day" | "month_end" | "last_business_day";
+
+const billingDayTypeOptions = [
+	{ value: "same_day", label: "次回支払日と同じ日" },
+	{ value: "month_end", label: "月末" },
+	{ value: "last_business_day", label: "月末最終営業日" },
+] as const;
+
+// 支払日が土日祝日の場合の扱い
+const businessDayAdjustmentOptions = [
+	{ value: "none", label: "そのまま" },
+	{ value: "previous", label: "前営業日" },
+	{ value: "next", label: "翌営業日" },
 ] as const;
 
+// 日付（YYYY-MM-DD）の日を取得
+const getDayOfDate = (date: string): number => Number(date.split("-")[2]);
+
+// 保存済みの支払日・土日祝日の扱いから支払日の指定方法を判定
+const getBillingDayType = (
+	subscription?: SelectSubscription,
+): BillingDayType => {
+	if (subscription?.billingDay !== 31) return "same_day";
+	return subscription.businessDayAdjustment === "previous"
+		? "last_business_day"
+		: "month_end";
+};
+
+// フォームの初期値
+const getInitialFormData = (
+	initialData?: SelectSubscription,
+): SubscriptionFormData => {
+	const nextPaymentDate = initialData?.nextPaymentDate || getTodayInJst();
+
+	return {
+		categoryId: initialData?.categoryId || 0,
+		name: initialData?.name || "",
+		amount: initialData?.amount || 0,
+		frequency:
+			(initialData?.frequency as SubscriptionFormData["frequency"]) ||
+			"monthly",
+		nextPaymentDate,
+		intervalCount: initialData?.intervalCount ?? 1,
+		billingDay: initialData?.billingDay ?? getDayOfDate(nextPaymentDate),
+		businessDayAdjustment:
+			(initialData?.businessDayAdjustment as SubscriptionFormData["businessDayAdjustment"]) ??
+			"none",
+		endDate: initialData?.endDate ?? null,
+		remainingPayments: initialData?.remainingPayments ?? null,
+		trialEndDate: initialData?.trialEndDate ?? null,
+		priceEffectiveDate: null,
+		description: initialData?.description || "",
+	};
+};
+
 export function SubscriptionFormModal({
 	isOpen,
 	onClose,
@@ -104,17 +224,18 @@ export function SubscriptionFormModal({
 	}, [categories.data]);
 
 	// フォーム状態の管理
-	const [formData, setFormData] = useState<SubscriptionFormData>(() => ({
-		categoryId: initialData?.categoryId || 0,
-		name: initialData?.name || "",
-		amount: initialData?.amount || 0,
-		frequency:
-			(initialData?.frequency as SubscriptionFormData["frequency"]) ||
-			"monthly",
-		nextPaymentDate:
-			initialData?.nextPaymentDate || new Date().toISOString().split("T")[0],
-		description: initialData?.description || "",
-	}));
+	const [formData, setFormData] = useState<SubscriptionFormData>(() =>
+		getInitialFormData(initialData),
+	);
+	const [billingDayType, setBillingDayType] = useState<BillingDayType>(() =>
+		getBillingDayType(initialData),
+	);
+	const isMonthBased = isMonthBasedFrequency(formData.frequency);
+	// 編集時に金額を変更したかどうか（変更した場合のみ適用日を指定できる）
+	const isPriceChanged =
+		mode === "edit" &&
+		initialData !== undefined &&
+		formData.amount !== initialData.amount;
 
 	const [errors, setErrors] = useState<
 		Partial<Record<keyof SubscriptionFormData, string>>
@@ -126,15 +247,11 @@ export function SubscriptionFormModal({
 		if (!formData.amount || formData.amount <= 0 || !formData.frequency)
 			return 0;
 
-		const multipliers = {
-			daily: 365,
-			weekly: 52,
-			monthly: 12,
-			yearly: 1,
-		} as const;
-
-		return formData.amount * multipliers[formData.frequency];
-	}, [formData.amount, formData.frequency]);
+		return (
+			formData.amount *
+			getAnnualPaymentCount(formData.frequency, formData.intervalCount)
+		);
+	}, [formData.amount, formData.frequency, formData.intervalCount]);
 
 	// 月平均コストの計算
 	const monthlyAverage = useMemo(() => {
@@ -156,6 +273,36 @@ export function SubscriptionFormModal({
 		[errors],
 	);
 
+	// 次回支払日の変更（「次回支払日と同じ日」の支払日も合わせて変更する）
+	const handleNextPaymentDateChange = useCallback(
+		(value: string) => {
+			updateField("nextPaymentDate", value);
+			if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+				setFormData((prev) => ({ ...prev, billingDay: getDayOfDate(value) }));
+			}
+		},
+		[updateField],
+	);
+
+	// 送信するデータ（支払日の指定方法を支払日・土日祝日の扱いに変換）
+	const getSubmitData = useCallback((): SubscriptionFormData => {
+		const data = isPriceChanged
+			? formData
+			: { ...formData, priceEffectiveDate: null };
+		if (!isMonthBased) {
+			return { ...data, billingDay: null, businessDayAdjustment: "none" };
+		}
+		if (billingDayType === "same_day") return data;
+		return {
+			...data,
+			billingDay: 31,
+			businessDayAdjustment:
+				billingDayType === "last_business_day"
+					? "previous"
+					: data.businessDayAdjustment,
+		};
+	}, [formData, billingDayType, isMonthBased, isPriceChanged]);
+
 	// バリデーション関数
 	const validateForm = useCallback(() => {
 		try {
@@ -185,7 +332,7 @@ export function SubscriptionFormModal({
 
 			setIsSubmitting(true);
 			try {
-				await onSubmit(formData);
+				await onSubmit(getSubmitData());
 				onClose();
 			} catch (error) {
 				console.error("フォーム送信エラー:", error);
@@ -194,22 +341,13 @@ export function SubscriptionFormModal({
 				setIsSubmitting(false);
 			}
 		},
-		[formData, validateForm, onSubmit, onClose],
+		[getSubmitData, validateForm, onSubmit, onClose],
 	);
 
 	// フォームリセット
 	const resetForm = useCallback(() => {
-		setFormData({
-			categoryId: initialData?.categoryId || 0,
-			name: initialData?.name || "",
-			amount: initialData?.amount || 0,
-			frequency:
-				(initialData?.frequency as SubscriptionFormData["frequency"]) ||
-				"monthly",
-			nextPaymentDate:
-				initialData?.nextPaymentDate || new Date().toISOString().split("T")[0],
-			description: initialData?.description || "",
-		});
+		setFormData(getInitialFormData(initialData));
+		setBillingDayType(getBillingDayType(initialData));
 		setErrors({});
 		setIsSubmitting(false);
 	}, [initialData]);
@@ -395,6 +533,31 @@ export function SubscriptionFormModal({
 								{errors.amount && (
 									<p className="mt-1 text-sm text-red-600">{errors.amount}</p>
 								)}
+								{isPriceChanged && (
+									<div className="mt-2">
+										<label
+											htmlFor="priceEffectiveDate"
+											className="block text-xs font-medium text-gray-600 mb-1"
+										>
+											新しい金額の適用日
+										</label>
+										<input
+											type="date"
+											id="priceEffectiveDate"
+											value={formData.priceEffectiveDate ?? ""}
+											onChange={(e) =>
+												updateField(
+													"priceEffectiveDate",
+													e.target.value || null,
+												)
+											}
+											className="w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+										/>
+										<p className="mt-1 text-xs text-gray-500">
+											未入力の場合は今日から適用します。適用日以降の最初の支払いから新しい金額になり、変更前の金額は価格履歴に残ります
+										</p>
+									</div>
+								)}
 							</div>
 
 							{/* 請求頻度 */}
@@ -446,7 +609,7 @@ export function SubscriptionFormModal({
 								type="date"
 								id="nextPaymentDate"
 								value={formData.nextPaymentDate}
-								onChange={(e) => updateField("nextPaymentDate", e.target.value)}
+								onChange={(e) => handleNextPaymentDateChange(e.target.value)}
 								className={`w-full rounded-md border px-3 py-2 shadow-sm focus:outline-none focus:ring-1 sm:text-sm ${
 									errors.nextPaymentDate
 										? "border-red-300 focus:ring-red-500 focus:border-red-500"
@@ -460,6 +623,178 @@ export function SubscriptionFormModal({
 							)}
 						</div>
 
+						{/* 支払い間隔・支払日 */}
+						<div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+							<div>
+								<label
+									htmlFor="intervalCount"
+									className="block text-sm font-medium text-gray-700 mb-1"
+								>
+									支払い間隔
+								</label>
+								<select
+									id="intervalCount"
+									value={formData.intervalCount}
+									onChange={(e) =>
+										updateField("intervalCount", Number(e.target.value))
+									}
+									className="w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+								>
+									{Array.from(
+										{ length: MAX_SUBSCRIPTION_INTERVAL },
+										(_, index) => index + 1,
+									).map((count) => (
+										<option key={count} value={count}>
+											{getIntervalLabel(formData.frequency, count)}
+										</option>
+									))}
+								</select>
+								{errors.intervalCount && (
+									<p className="mt-1 text-sm text-red-600">
+										{errors.intervalCount}
+									</p>
+								)}
+							</div>
+
+							{isMonthBased && (
+								<div>
+									<label
+										htmlFor="billingDayType"
+										className="block text-sm font-medium text-gray-700 mb-1"
+									>
+										支払日の指定
+									</label>
+									<select
+										id="billingDayType"
+										value={billingDayType}
+										onChange={(e) =>
+											setBillingDayType(e.target.value as BillingDayType)
+										}
+										className="w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+									>
+										{billingDayTypeOptions.map((option) => (
+											<option key={option.value} value={option.value}>
+												{option.label}
+											</option>
+										))}
+									</select>
+								</div>
+							)}
+						</div>
+
+						{isMonthBased && billingDayType !== "last_business_day" && (
+							<div>
+								<label
+									htmlFor="businessDayAdjustment"
+									className="block text-sm font-medium text-gray-700 mb-1"
+								>
+									土日祝日の場合
+								</label>
+								<select
+									id="businessDayAdjustment"
+									value={formData.businessDayAdjustment}
+									onChange={(e) =>
+										updateField(
+											"businessDayAdjustment",
+											e.target
+												.value as SubscriptionFormData["businessDayAdjustment"],
+										)
+									}
+									className="w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+								>
+									{businessDayAdjustmentOptions.map((option) => (
+										<option key={option.value} value={option.value}>
+											{option.label}
+										</option>
+									))}
+								</select>
+								<p className="mt-1 text-xs text-gray-500">
+									支払日が土日祝日・年末年始の場合に、前後の営業日にずらします
+								</p>
+							</div>
+						)}
+
+						{/* 契約の終了・無料トライアル（オプション） */}
+						<div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+							<div>
+								<label
+									htmlFor="endDate"
+									className="block text-sm font-medium text-gray-700 mb-1"
+								>
+									終了日（オプション）
+								</label>
+								<input
+									type="date"
+									id="endDate"
+									value={formData.endDate ?? ""}
+									onChange={(e) =>
+										updateField("endDate", e.target.value || null)
+									}
+									className={`w-full rounded-md border px-3 py-2 shadow-sm focus:outline-none focus:ring-1 sm:text-sm ${
+										errors.endDate
+											? "border-red-300 focus:ring-red-500 focus:border-red-500"
+											: "border-gray-300 focus:ring-blue-500 focus:border-blue-500"
+									}`}
+								/>
+								{errors.endDate && (
+									<p className="mt-1 text-sm text-red-600">{errors.endDate}</p>
+								)}
+							</div>
+
+							<div>
+								<label
+									htmlFor="remainingPayments"
+									className="block text-sm font-medium text-gray-700 mb-1"
+								>
+									残りの支払回数（オプション）
+								</label>
+								<input
+									type="number"
+									id="remainingPayments"
+									value={formData.remainingPayments ?? ""}
+									onChange={(e) =>
+										updateField(
+											"remainingPayments",
+											e.target.value === "" ? null : Number(e.target.value),
+										)
+									}
+									min="1"
+									step="1"
+									className={`w-full rounded-md border px-3 py-2 shadow-sm focus:outline-none focus:ring-1 sm:text-sm ${
+										errors.remainingPayments
+											? "border-red-300 focus:ring-red-500 focus:border-red-500"
+											: "border-gray-300 focus:ring-blue-500 focus:border-blue-500"
+									}`}
+								/>
+								{errors.remainingPayments && (
+									<p className="mt-1 text-sm text-red-600">
+										{errors.remainingPayments}
+									</p>
+								)}
+							</div>
+
+							<div>
+								<label
+									htmlFor="trialEndDate"
+									className="block text-sm font-medium text-gray-700 mb-1"
+								>
+									無料トライアル終了日（オプション）
+								</label>
+								<input
+									type="date"
+									id="trialEndDate"
+									value={formData.trialEndDate ?? ""}
+									onChange={(e) =>
+										updateField("trialEndDate", e.target.value || null)
+									}
+									className="w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+								/>
+							</div>
+						</div>
+						<p className="-mt-2 text-xs text-gray-500">
+							終了日・残りの支払回数に達すると自動で停止します。無料トライアル終了日より前の支払いは記録しません
+						</p>
+
 						{/* 説明（オプション） */}
 						<div>
 							<label
@@ -1,5 +1,11 @@
 import { useCallback, useMemo, useState } from "react";
 import { Form, useActionData, useNavigation } from "react-router";
+import {
+	getAnnualPaymentCount,
+	getTodayInJst,
+} from "../../../db/queries/recurrence";
+import { SUBSCRIPTION_FREQUENCIES } from "../../../db/schema";
+import { SUBSCRIPTION_FREQUENCY_LABELS } from "../../constants/subscription-frequencies";
 import type { SelectSubscription } from "../../types";
 
 /**
@@ -34,12 +40,10 @@ export interface SubscriptionFormNativeProps {
 }
 
 // 請求頻度のオプション
-const frequencyOptions = [
-	{ value: "daily", label: "日次" },
-	{ value: "weekly", label: "週次" },
-	{ value: "monthly", label: "月次" },
-	{ value: "yearly", label: "年次" },
-] as const;
+const frequencyOptions = SUBSCRIPTION_FREQUENCIES.map((value) => ({
+	value,
+	label: SUBSCRIPTION_FREQUENCY_LABELS[value],
+}));
 
 export function SubscriptionFormNative({
 	subscription,
@@ -77,15 +81,11 @@ export function SubscriptionFormNative({
 		const numAmount = Number(amount);
 		if (!numAmount || numAmount <= 0 || !frequency) return 0;
 
-		const multipliers = {
-			daily: 365,
-			weekly: 52,
-			monthly: 12,
-			yearly: 1,
-		} as const;
-
-		return numAmount * multipliers[frequency as keyof typeof multipliers];
-	}, [amount, frequency]);
+		return (
+			numAmount *
+			getAnnualPaymentCount(frequency, subscription?.intervalCount ?? 1)
+		);
+	}, [amount, frequency, subscription?.intervalCount]);
 
 	// 月平均コストの計算
 	const monthlyAverage = useMemo(() => {
@@ -239,10 +239,7 @@ export function SubscriptionFormNative({
 					type="date"
 					name="nextPaymentDate"
 					id="nextPaymentDate"
-					defaultValue={
-						subscription?.nextPaymentDate ||
-						new Date().toISOString().split("T")[0]
-					}
+					defaultValue={subscription?.nextPaymentDate || getTodayInJst()}
 					required
 					className={`mt-1 block w-full rounded-md border px-3 py-2 shadow-sm focus:outline-none focus:ring-1 sm:text-sm ${
 						actionData?.errors?.nextPaymentDate
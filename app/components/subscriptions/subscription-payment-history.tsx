@@ -0,0 +1,228 @@
+import { useState } from "react";
+import {
+	useRecordSubscriptionPeriod,
+	useSubscriptionPayments,
+} from "../../lib/hooks/use-subscriptions";
+import type { SubscriptionPaymentPeriod } from "../../types";
+
+/**
+ * サブスクリプションの支払い履歴コンポーネント
+ *
+ * 設計方針:
+ * - 定期取引として記録された支払いから、累計・今年の支払額と未払い・スキップの件数を表示
+ * - 支払い期間を新しい順に並べ、期間ごとの状態（支払済み・スキップ・未払い・トライアル）を示す
+ * - 期間ごとに「スキップ」（請求がなかった）と「支払額を記録」（金額を指定して支払済み）を操作できる
+ * - サブスクリプションカードの詳細表示として、展開したときだけデータを取得する
+ */
+
+export interface SubscriptionPaymentHistoryProps {
+	/**
+	 * 対象のサブスクリプションID
+	 */
+	subscriptionId: number;
+}
+
+// 日付の表示（実行環境のタイムゾーンでずれないよう、文字列から年月日を取り出す）
+const formatDate = (date: string): string =>
+	date
+		.split("-")
+		.map((part) => Number(part))
+		.join("/");
+
+// 期間の状態の表示名と色
+const STATUS_LABELS: Record<
+	SubscriptionPaymentPeriod["status"],
+	{ label: string; className: string }
+> = {
+	paid: { label: "支払済み", className: "bg-green-100 text-green-800" },
+	skipped: { label: "スキップ", className: "bg-gray-100 text-gray-600" },
+	missed: { label: "未払い", className: "bg-red-100 text-red-800" },
+	trial: { label: "トライアル", className: "bg-blue-100 text-blue-800" },
+};
+
+export function SubscriptionPaymentHistory({
+	subscriptionId,
+}: SubscriptionPaymentHistoryProps) {
+	const { data, isLoading, error } = useSubscriptionPayments(subscriptionId);
+	const recordPeriod = useRecordSubscriptionPeriod();
+
+	// 支払額を入力中の期間と金額
+	const [editingPeriodDate, setEditingPeriodDate] = useState<string | null>(
+		null,
+	);
+	const [amountInput, setAmountInput] = useState("");
+
+	if (isLoading) {
+		return <div className="text-sm text-gray-500">読み込み中...</div>;
+	}
+
+	if (error || !data) {
+		return (
+			<div className="text-sm text-red-600">支払い履歴の取得に失敗しました</div>
+		);
+	}
+
+	const {
+		periods,
+		lifetimeTotal,
+		lifetimeCount,
+		yearToDateTotal,
+		yearToDateCount,
+		missedCount,
+		skippedCount,
+	} = data.data;
+
+	const handleSkip = (periodDate: string) => {
+		recordPeriod.mutate({
+			id: subscriptionId,
+			data: { periodDate, status: "skipped" },
+		});
+	};
+
+	const handleStartEditing = (period: SubscriptionPaymentPeriod) => {
+		setEditingPeriodDate(period.periodDate);
+		setAmountInput(
+			String(
+				period.status === "paid" ? period.paidAmount : period.expectedAmount,
+			),
+		);
+	};
+
+	const handleRecordPaid = (periodDate: string) => {
+		const amount = Number(amountInput);
+		if (!Number.isInteger(amount) || amount <= 0) return;
+
+		recordPeriod.mutate(
+			{
+				id: subscriptionId,
+				data: { periodDate, status: "paid", amount },
+			},
+			{ onSuccess: () => setEditingPeriodDate(null) },
+		);
+	};
+
+	return (
+		<div className="space-y-3">
+			{/* 支払額の合計 */}
+			<dl className="grid grid-cols-2 gap-2 text-sm">
+				<div>
+					<dt className="text-gray-600">累計の支払額</dt>
+					<dd className="font-semibold text-gray-900">
+						¥{lifetimeTotal.toLocaleString()}
+						<span className="ml-1 font-normal text-gray-500">
+							（{lifetimeCount}回）
+						</span>
+					</dd>
+				</div>
+				<div>
+					<dt className="text-gray-600">今年の支払額</dt>
+					<dd className="font-semibold text-gray-900">
+						¥{yearToDateTotal.toLocaleString()}
+						<span className="ml-1 font-normal text-gray-500">
+							（{yearToDateCount}回）
+						</span>
+					</dd>
+				</div>
+			</dl>
+			{(missedCount > 0 || skippedCount > 0) && (
+				<p className="text-xs text-gray-600">
+					{missedCount > 0 && (
+						<span className="text-red-600">未払い {missedCount}件</span>
+					)}
+					{missedCount > 0 && skippedCount > 0 && " ・ "}
+					{skippedCount > 0 && <span>スキップ {skippedCount}件</span>}
+				</p>
+			)}
+
+			{recordPeriod.error && (
+				<p className="text-xs text-red-600">{recordPeriod.error.message}</p>
+			)}
+
+			{/* 支払い期間（新しい順） */}
+			{periods.length === 0 ? (
+				<p className="text-sm text-gray-500">過去の支払い期間がありません</p>
+			) : (
+				<ul className="divide-y divide-gray-200">
+					{periods.map((period) => (
+						<li key={period.periodDate} className="py-2">
+							<div className="flex items-center justify-between">
+								<span className="text-sm text-gray-900">
+									{formatDate(period.periodDate)}
+									<span className="ml-2 text-gray-600">
+										¥
+										{(period.status === "paid"
+											? period.paidAmount
+											: period.expectedAmount
+										).toLocaleString()}
+									</span>
+								</span>
+								<span
+									className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+										STATUS_LABELS[period.status].className
+									}`}
+								>
+									{STATUS_LABELS[period.status].label}
+								</span>
+							</div>
+
+							{editingPeriodDate === period.periodDate ? (
+								<div className="mt-1 flex items-center gap-2">
+									<label
+										htmlFor={`payment-amount-${subscriptionId}-${period.periodDate}`}
+										className="sr-only"
+									>
+										支払額
+									</label>
+									<input
+										id={`payment-amount-${subscriptionId}-${period.periodDate}`}
+										type="number"
+										min="1"
+										value={amountInput}
+										onChange={(e) => setAmountInput(e.target.value)}
+										className="w-28 px-2 py-1 text-sm border border-gray-300 rounded-md"
+									/>
+									<button
+										type="button"
+										onClick={() => handleRecordPaid(period.periodDate)}
+										disabled={recordPeriod.isPending}
+										className="text-xs text-blue-600 hover:text-blue-800 font-medium disabled:opacity-50"
+									>
+										記録
+									</button>
+									<button
+										type="button"
+										onClick={() => setEditingPeriodDate(null)}
+										className="text-xs text-gray-600 hover:text-gray-800"
+									>
+										キャンセル
+									</button>
+								</div>
+							) : (
+								<div className="mt-1 flex gap-3">
+									{period.status !== "skipped" && (
+										<button
+											type="button"
+											onClick={() => handleSkip(period.periodDate)}
+											disabled={recordPeriod.isPending}
+											className="text-xs text-gray-600 hover:text-gray-800 disabled:opacity-50"
+										>
+											スキップ
+										</button>
+									)}
+									<button
+										type="button"
+										onClick={() => handleStartEditing(period)}
+										disabled={recordPeriod.isPending}
+										className="text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+									>
+										支払額を記録
+									</button>
+								</div>
+							)}
+						</li>
+					))}
+				</ul>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,112 @@
+import { useSubscriptionPriceHistory } from "../../lib/hooks/use-subscriptions";
+import type { SubscriptionPriceTimelineEntry } from "../../types";
+
+/**
+ * サブスクリプションの価格履歴コンポーネント
+ *
+ * 設計方針:
+ * - 価格の推移（適用日・金額・直前からの増減）を新しい順のタイムラインで表示
+ * - 適用予定の変更は「適用予定」として区別し、次の支払いから反映されることを示す
+ * - 支払済みの総額・回数は定期取引として記録された支払いから集計した値を表示
+ * - サブスクリプションカードの詳細表示として、展開したときだけデータを取得する
+ */
+
+export interface SubscriptionPriceHistoryProps {
+	/**
+	 * 対象のサブスクリプションID
+	 */
+	subscriptionId: number;
+}
+
+// 日付の表示（実行環境のタイムゾーンでずれないよう、文字列から年月日を取り出す）
+const formatDate = (date: string): string =>
+	date
+		.split("-")
+		.map((part) => Number(part))
+		.join("/");
+
+// 適用状態の表示名と色
+const STATUS_LABELS: Record<
+	SubscriptionPriceTimelineEntry["status"],
+	{ label: string; className: string }
+> = {
+	past: { label: "過去", className: "bg-gray-100 text-gray-600" },
+	current: { label: "現在", className: "bg-green-100 text-green-800" },
+	scheduled: { label: "適用予定", className: "bg-blue-100 text-blue-800" },
+};
+
+export function SubscriptionPriceHistory({
+	subscriptionId,
+}: SubscriptionPriceHistoryProps) {
+	const { data, isLoading, error } =
+		useSubscriptionPriceHistory(subscriptionId);
+
+	if (isLoading) {
+		return <div className="text-sm text-gray-500">読み込み中...</div>;
+	}
+
+	if (error || !data) {
+		return (
+			<div className="text-sm text-red-600">価格履歴の取得に失敗しました</div>
+		);
+	}
+
+	const { timeline, totalPaid, paidCount } = data.data;
+
+	return (
+		<div className="space-y-3">
+			{/* 支払済みの合計 */}
+			<div className="flex items-baseline justify-between">
+				<span className="text-sm text-gray-600">これまでの支払総額</span>
+				<span className="text-sm font-semibold text-gray-900">
+					¥{totalPaid.toLocaleString()}
+					<span className="ml-1 font-normal text-gray-500">
+						（{paidCount}回）
+					</span>
+				</span>
+			</div>
+
+			{/* 価格の推移（新しい順） */}
+			{timeline.length === 0 ? (
+				<p className="text-sm text-gray-500">価格の記録がありません</p>
+			) : (
+				<ol className="border-l border-gray-200 ml-1 space-y-3">
+					{[...timeline].reverse().map((entry) => (
+						<li key={entry.id} className="ml-3">
+							<div className="flex items-center justify-between">
+								<span className="text-sm font-medium text-gray-900">
+									¥{entry.amount.toLocaleString()}
+									{entry.changeAmount !== null && entry.changeAmount !== 0 && (
+										<span
+											className={`ml-1 text-xs ${
+												entry.changeAmount > 0
+													? "text-red-600"
+													: "text-green-600"
+											}`}
+										>
+											（{entry.changeAmount > 0 ? "+" : "-"}¥
+											{Math.abs(entry.changeAmount).toLocaleString()}）
+										</span>
+									)}
+								</span>
+								<span
+									className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+										STATUS_LABELS[entry.status].className
+									}`}
+								>
+									{STATUS_LABELS[entry.status].label}
+								</span>
+							</div>
+							<div className="text-xs text-gray-500">
+								{formatDate(entry.effectiveDate)}〜
+								{entry.endDate ? formatDate(entry.endDate) : ""}
+								{entry.status !== "scheduled" &&
+									` ・ ${entry.paidCount}回 ¥${entry.paidAmount.toLocaleString()}`}
+							</div>
+						</li>
+					))}
+				</ol>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,241 @@
+import { useState } from "react";
+import {
+	MAX_REMINDER_DAYS_BEFORE,
+	SUBSCRIPTION_REMINDER_TYPES,
+	type SubscriptionReminderType,
+} from "../../../db/schema";
+import {
+	useSubscriptionReminders,
+	useUpdateSubscriptionReminders,
+} from "../../lib/hooks/use-subscriptions";
+import type { SubscriptionReminder } from "../../types";
+
+/**
+ * サブスクリプションのリマインダー設定コンポーネント
+ *
+ * 設計方針:
+ * - 支払日・トライアル終了日・解約期限の種類ごとに、通知の有無と何日前から通知するかを設定
+ * - 解約期限は「次回の支払日の何日前までに解約の申し出が必要か」を合わせて設定する
+ * - 通知は定期実行で作成され、ヘッダーの通知ベルに表示される
+ * - サブスクリプションカードの詳細表示として、展開したときだけデータを取得する
+ */
+
+export interface SubscriptionReminderSettingsProps {
+	/**
+	 * 対象のサブスクリプションID
+	 */
+	subscriptionId: number;
+}
+
+// 種類ごとの表示名と説明
+const REMINDER_TYPE_LABELS: Record<
+	SubscriptionReminderType,
+	{ label: string; description: string }
+> = {
+	payment: { label: "支払日", description: "支払日の" },
+	trial_end: { label: "トライアル終了日", description: "トライアル終了日の" },
+	cancellation_deadline: { label: "解約期限", description: "解約期限の" },
+};
+
+// 新しく有効にした場合の既定値
+const DEFAULT_DAYS_BEFORE = 3;
+const DEFAULT_NOTICE_DAYS = 0;
+
+// 種類ごとの入力状態（数値は入力途中の値を保持するため文字列）
+interface ReminderDraft {
+	enabled: boolean;
+	daysBefore: string;
+	noticeDays: string;
+}
+
+const toDrafts = (
+	reminders: SubscriptionReminder[],
+): Record<SubscriptionReminderType, ReminderDraft> =>
+	Object.fromEntries(
+		SUBSCRIPTION_REMINDER_TYPES.map((type) => {
+			const reminder = reminders.find((candidate) => candidate.type === type);
+			return [
+				type,
+				{
+					enabled: reminder !== undefined,
+					daysBefore: String(reminder?.daysBefore ?? DEFAULT_DAYS_BEFORE),
+					noticeDays: String(reminder?.noticeDays ?? DEFAULT_NOTICE_DAYS),
+				},
+			];
+		}),
+	) as Record<SubscriptionReminderType, ReminderDraft>;
+
+// 0以上・上限以下の整数か
+const isValidDays = (value: string, max: number): boolean => {
+	const days = Number(value);
+	return value !== "" && Number.isInteger(days) && days >= 0 && days <= max;
+};
+
+export function SubscriptionReminderSettings({
+	subscriptionId,
+}: SubscriptionReminderSettingsProps) {
+	const { data, isLoading, error } = useSubscriptionReminders(subscriptionId);
+
+	if (isLoading) {
+		return <div className="text-sm text-gray-500">読み込み中...</div>;
+	}
+
+	if (error || !data) {
+		return (
+			<div className="text-sm text-red-600">
+				リマインダーの設定の取得に失敗しました
+			</div>
+		);
+	}
+
+	// 取得した設定を初期値にしてフォームを表示する
+	return (
+		<ReminderSettingsForm
+			subscriptionId={subscriptionId}
+			reminders={data.data}
+		/>
+	);
+}
+
+function ReminderSettingsForm({
+	subscriptionId,
+	reminders,
+}: {
+	subscriptionId: number;
+	reminders: SubscriptionReminder[];
+}) {
+	const updateReminders = useUpdateSubscriptionReminders();
+	const [drafts, setDrafts] = useState(() => toDrafts(reminders));
+	const [isSaved, setIsSaved] = useState(false);
+
+	const updateDraft = (
+		type: SubscriptionReminderType,
+		changes: Partial<ReminderDraft>,
+	) => {
+		setDrafts((current) => ({
+			...current,
+			[type]: { ...current[type], ...changes },
+		}));
+		setIsSaved(false);
+	};
+
+	const enabledTypes = SUBSCRIPTION_REMINDER_TYPES.filter(
+		(type) => drafts[type].enabled,
+	);
+	const isValid = enabledTypes.every(
+		(type) =>
+			isValidDays(drafts[type].daysBefore, MAX_REMINDER_DAYS_BEFORE) &&
+			(type !== "cancellation_deadline" ||
+				isValidDays(drafts[type].noticeDays, 365)),
+	);
+
+	const handleSave = () => {
+		if (!isValid) return;
+
+		updateReminders.mutate(
+			{
+				id: subscriptionId,
+				data: {
+					reminders: enabledTypes.map((type) => ({
+						type,
+						daysBefore: Number(drafts[type].daysBefore),
+						noticeDays:
+							type === "cancellation_deadline"
+								? Number(drafts[type].noticeDays)
+								: null,
+					})),
+				},
+			},
+			{ onSuccess: () => setIsSaved(true) },
+		);
+	};
+
+	return (
+		<div className="space-y-3">
+			<h4 className="text-sm font-medium text-gray-900">リマインダー</h4>
+
+			<ul className="space-y-2">
+				{SUBSCRIPTION_REMINDER_TYPES.map((type) => {
+					const draft = drafts[type];
+					const inputId = `reminder-${subscriptionId}-${type}`;
+					return (
+						<li key={type} className="text-sm">
+							<label className="inline-flex items-center gap-2 text-gray-700">
+								<input
+									type="checkbox"
+									checked={draft.enabled}
+									onChange={(e) =>
+										updateDraft(type, { enabled: e.target.checked })
+									}
+									className="h-4 w-4 rounded border-gray-300 text-blue-600"
+								/>
+								{REMINDER_TYPE_LABELS[type].label}
+							</label>
+
+							{draft.enabled && (
+								<div className="mt-1 ml-6 flex flex-wrap items-center gap-1 text-gray-600">
+									{type === "cancellation_deadline" && (
+										<>
+											<label htmlFor={`${inputId}-notice`}>支払日の</label>
+											<input
+												id={`${inputId}-notice`}
+												type="number"
+												min="0"
+												max="365"
+												value={draft.noticeDays}
+												onChange={(e) =>
+													updateDraft(type, { noticeDays: e.target.value })
+												}
+												className="w-16 px-2 py-1 text-sm border border-gray-300 rounded-md"
+											/>
+											<span>日前が期限、</span>
+										</>
+									)}
+									<label htmlFor={`${inputId}-days`}>
+										{REMINDER_TYPE_LABELS[type].description}
+									</label>
+									<input
+										id={`${inputId}-days`}
+										type="number"
+										min="0"
+										max={MAX_REMINDER_DAYS_BEFORE}
+										value={draft.daysBefore}
+										onChange={(e) =>
+											updateDraft(type, { daysBefore: e.target.value })
+										}
+										className="w-16 px-2 py-1 text-sm border border-gray-300 rounded-md"
+									/>
+									<span>日前から通知</span>
+								</div>
+							)}
+						</li>
+					);
+				})}
+			</ul>
+
+			{!isValid && (
+				<p className="text-xs text-red-600">
+					日数は0〜{MAX_REMINDER_DAYS_BEFORE}
+					日（解約期限の申し出は0〜365日）の整数で入力してください
+				</p>
+			)}
+			{updateReminders.error && (
+				<p className="text-xs text-red-600">{updateReminders.error.message}</p>
+			)}
+
+			<div className="flex items-center gap-3">
+				<button
+					type="button"
+					onClick={handleSave}
+					disabled={!isValid || updateReminders.isPending}
+					className="px-3 py-1 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+				>
+					{updateReminders.isPending ? "保存中..." : "リマインダーを保存"}
+				</button>
+				{isSaved && (
+					<span className="text-xs text-green-700">保存しました</span>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,10 @@
+/**
+ * タグコンポーネントの統合エクスポート
+ *
+ * 設計方針:
+ * - 取引フォームのタグ入力・タグ管理画面の一覧・タグ別レポート関連コンポーネントの単一エントリーポイント
+ */
+
+export { TagInput } from "./tag-input";
+export { TagList } from "./tag-list";
+export { TagReport } from "./tag-report";
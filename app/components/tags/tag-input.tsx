@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { useTags } from "../../lib/hooks/use-tags";
+
+/**
+ * タグ入力コンポーネント（取引フォーム用）
+ *
+ * 設計方針:
+ * - 付けたタグはチップで表示し、×ボタンで外す
+ * - 入力欄でEnterまたは読点・カンマを押すと入力中の文字列をタグとして追加する
+ * - 登録済みのタグを使用件数の多い順に候補として表示し、入力中の文字列を含むタグに絞り込む
+ *   （表記ゆれで似たタグが増えないよう、既存のタグを選びやすくする）
+ * - タグの色はタグ管理画面で設定した色をチップに反映する
+ */
+
+// 取引に付けられるタグの上限
+const MAX_TAGS = 10;
+// タグ名の最大文字数
+const MAX_TAG_LENGTH = 50;
+// 表示する候補の最大件数
+const MAX_SUGGESTIONS = 5;
+
+interface TagInputProps {
+	/** 入力欄のID（ラベルとの関連付け用） */
+	id?: string;
+	/** 付けたタグ */
+	value: string[];
+	/** タグの変更時のコールバック */
+	onChange: (tags: string[]) => void;
+	/** 無効化状態 */
+	disabled?: boolean;
+}
+
+export function TagInput({ id, value, onChange, disabled }: TagInputProps) {
+	const [input, setInput] = useState("");
+	const [isFocused, setIsFocused] = useState(false);
+
+	const { data: tagsData } = useTags({
+		// クライアント側でのみ実行されるようにする（SSR時の問題を回避）
+		enabled: typeof window !== "undefined",
+	});
+	const registeredTags = tagsData?.data ?? [];
+	const colorByName = new Map(
+		registeredTags.map((tag) => [tag.name, tag.color]),
+	);
+
+	const isFull = value.length >= MAX_TAGS;
+	const keyword = input.trim().toLowerCase();
+	const suggestions = isFull
+		? []
+		: registeredTags
+				.filter(
+					(tag) =>
+						!value.includes(tag.name) &&
+						tag.name.toLowerCase().includes(keyword),
+				)
+				.slice(0, MAX_SUGGESTIONS);
+
+	const addTag = (name: string) => {
+		const tag = name.trim().slice(0, MAX_TAG_LENGTH);
+		setInput("");
+		if (!tag || isFull || value.includes(tag)) return;
+		onChange([...value, tag]);
+	};
+
+	const removeTag = (name: string) => {
+		onChange(value.filter((tag) => tag !== name));
+	};
+
+	const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+		// 変換確定のEnterではタグを追加しない
+		if (event.nativeEvent.isComposing) return;
+
+		if (event.key === "Enter" || event.key === "," || event.key === "、") {
+			// フォームの送信を防ぎ、入力中の文字列をタグとして追加する
+			event.preventDefault();
+			addTag(input);
+		} else if (event.key === "Backspace" && input === "" && value.length > 0) {
+			removeTag(value[value.length - 1]);
+		}
+	};
+
+	return (
+		<div className="relative">
+			<div className="flex flex-wrap items-center gap-2 w-full px-2 py-1.5 border border-gray-300 rounded-md focus-within:ring-1 focus-within:ring-blue-500 focus-within:border-blue-500">
+				{value.map((tag) => {
+					const color = colorByName.get(tag);
+					return (
+						<span
+							key={tag}
+							className="inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-700"
+							data-testid="tag-chip"
+						>
+							{color && (
+								<span
+									className="w-2 h-2 rounded-full"
+									style={{ backgroundColor: color }}
+									aria-hidden="true"
+								/>
+							)}
+							#{tag}
+							<button
+								type="button"
+								onClick={() => removeTag(tag)}
+								disabled={disabled}
+								aria-label={`タグ「${tag}」を外す`}
+								className="text-gray-500 hover:text-gray-700"
+							>
+								×
+							</button>
+						</span>
+					);
+				})}
+				<input
+					type="text"
+					id={id}
+					value={input}
+					onChange={(event) => setInput(event.target.value)}
+					onKeyDown={handleKeyDown}
+					onFocus={() => setIsFocused(true)}
+					onBlur={() => {
+						setIsFocused(false);
+						// 入力途中の文字列もタグとして残す
+						addTag(input);
+					}}
+					disabled={disabled || isFull}
+					maxLength={MAX_TAG_LENGTH}
+					className="flex-1 min-w-[8rem] border-0 p-1 text-sm focus:ring-0"
+					placeholder={
+						isFull ? `タグは${MAX_TAGS}個までです` : "タグを入力してEnter"
+					}
+				/>
+			</div>
+
+			{isFocused && suggestions.length > 0 && (
+				<div
+					className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg py-1"
+					data-testid="tag-suggestions"
+				>
+					{suggestions.map((tag) => (
+						<button
+							key={tag.id}
+							type="button"
+							// 入力欄のフォーカスが外れて候補が閉じる前に選択する
+							onMouseDown={(event) => event.preventDefault()}
+							onClick={() => addTag(tag.name)}
+							className="flex w-full items-center justify-between px-3 py-1.5 text-sm text-left text-gray-700 hover:bg-gray-50"
+						>
+							<span className="inline-flex items-center gap-2">
+								<span
+									className="w-2 h-2 rounded-full bg-gray-300"
+									style={tag.color ? { backgroundColor: tag.color } : undefined}
+									aria-hidden="true"
+								/>
+								#{tag.name}
+							</span>
+							<span className="text-xs text-gray-500">
+								{tag.transactionCount}件
+							</span>
+						</button>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,136 @@
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	useDeleteTag,
+	useMergeTags,
+	useTags,
+	useUpdateTag,
+} from "../../lib/hooks/use-tags";
+import { TagList } from "./tag-list";
+
+/**
+ * TagList コンポーネントのテスト
+ *
+ * テスト方針:
+ * - タグが使用件数とともに表示されることを検証
+ * - 名前・色の変更、統合、削除の確認が各ミューテーションのリクエストに変換されることを検証
+ * - データ取得・更新はフックをモックする
+ */
+
+vi.mock("../../lib/hooks/use-tags", () => ({
+	useTags: vi.fn(),
+	useUpdateTag: vi.fn(),
+	useMergeTags: vi.fn(),
+	useDeleteTag: vi.fn(),
+}));
+
+const baseTag = {
+	createdAt: "2025-01-01T00:00:00Z",
+	updatedAt: "2025-01-01T00:00:00Z",
+};
+
+const diningTag = {
+	...baseTag,
+	id: 1,
+	name: "外食",
+	color: "#F59E0B",
+	transactionCount: 12,
+	lastUsedDate: "2025-06-30",
+};
+
+const lunchTag = {
+	...baseTag,
+	id: 2,
+	name: "ランチ",
+	color: null,
+	transactionCount: 3,
+	lastUsedDate: "2025-06-01",
+};
+
+describe("TagList", () => {
+	const updateTag = vi.fn();
+	const mergeTags = vi.fn();
+	const deleteTag = vi.fn();
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		cleanup();
+		vi.mocked(useTags).mockReturnValue({
+			data: { success: true, data: [diningTag, lunchTag] },
+			isLoading: false,
+			error: null,
+		} as any);
+		vi.mocked(useUpdateTag).mockReturnValue({
+			mutate: updateTag,
+			isPending: false,
+			error: null,
+		} as any);
+		vi.mocked(useMergeTags).mockReturnValue({
+			mutate: mergeTags,
+			isPending: false,
+			error: null,
+		} as any);
+		vi.mocked(useDeleteTag).mockReturnValue({
+			mutate: deleteTag,
+			isPending: false,
+			error: null,
+		} as any);
+	});
+
+	it("タグを使用件数とともに表示する", () => {
+		render(<TagList />);
+
+		const tags = screen.getAllByTestId("tag");
+		expect(tags).toHaveLength(2);
+		expect(tags[0]).toHaveTextContent("#外食");
+		expect(tags[0]).toHaveTextContent("12件・最終 2025-06-30");
+		expect(tags[1]).toHaveTextContent("#ランチ");
+	});
+
+	it("名前と色を変更して保存する", () => {
+		render(<TagList />);
+
+		fireEvent.click(screen.getAllByRole("button", { name: "編集" })[1]);
+		fireEvent.change(screen.getByLabelText("タグ名"), {
+			target: { value: "お昼" },
+		});
+		fireEvent.click(screen.getByLabelText("色を設定"));
+		fireEvent.change(screen.getByLabelText("タグの色"), {
+			target: { value: "#10b981" },
+		});
+		fireEvent.click(screen.getByRole("button", { name: "保存" }));
+
+		expect(updateTag).toHaveBeenCalledWith({
+			id: 2,
+			data: { name: "お昼", color: "#10B981" },
+		});
+	});
+
+	it("統合先を選んでタグを統合する", () => {
+		render(<TagList />);
+
+		fireEvent.click(screen.getAllByRole("button", { name: "統合" })[1]);
+		expect(screen.getByRole("button", { name: "統合する" })).toBeDisabled();
+		fireEvent.change(screen.getByLabelText("統合先"), {
+			target: { value: "1" },
+		});
+		fireEvent.click(screen.getByRole("button", { name: "統合する" }));
+
+		expect(mergeTags).toHaveBeenCalledWith({
+			sourceTagIds: [2],
+			targetTagId: 1,
+		});
+	});
+
+	it("削除は影響する取引の件数を確認してから実行する", () => {
+		render(<TagList />);
+
+		fireEvent.click(screen.getAllByRole("button", { name: "削除" })[0]);
+		expect(
+			screen.getByText(/12件の取引からタグが外れます/),
+		).toBeInTheDocument();
+		fireEvent.click(screen.getByRole("button", { name: "削除する" }));
+
+		expect(deleteTag).toHaveBeenCalledWith(1);
+	});
+});
@@ -0,0 +1,310 @@
+import { useState } from "react";
+import {
+	useDeleteTag,
+	useMergeTags,
+	useTags,
+	useUpdateTag,
+} from "../../lib/hooks/use-tags";
+import type { TagWithUsage } from "../../lib/schemas/api-responses";
+
+/**
+ * タグ一覧コンポーネント（タグ管理画面用）
+ *
+ * 設計方針:
+ * - タグを使用件数の多い順に表示し、名前の変更・色の設定・統合・削除を行う
+ * - 名前の変更・統合・削除は付いている取引と自動分類ルールもすべて書き換えるため、
+ *   統合・削除は影響する取引の件数を示して確認してから実行する
+ * - 同じ名前への変更はAPIが409を返すため、重複する場合は統合を使うよう案内する
+ * - 1行で同時に行う操作は1つだけとし、編集・統合・削除の確認を切り替えて表示する
+ */
+
+// タグの色を未設定から設定する際の初期値
+const DEFAULT_TAG_COLOR = "#3B82F6";
+
+type RowMode =
+	| { tagId: number; kind: "edit" }
+	| { tagId: number; kind: "merge" }
+	| { tagId: number; kind: "delete" };
+
+interface TagEditFormProps {
+	tag: TagWithUsage;
+	isSubmitting: boolean;
+	onSubmit: (data: { name: string; color: string | null }) => void;
+	onCancel: () => void;
+}
+
+function TagEditForm({
+	tag,
+	isSubmitting,
+	onSubmit,
+	onCancel,
+}: TagEditFormProps) {
+	const [name, setName] = useState(tag.name);
+	const [color, setColor] = useState(tag.color ?? DEFAULT_TAG_COLOR);
+	const [hasColor, setHasColor] = useState(tag.color !== null);
+
+	return (
+		<form
+			onSubmit={(event) => {
+				event.preventDefault();
+				onSubmit({ name: name.trim(), color: hasColor ? color : null });
+			}}
+			className="flex flex-wrap items-center gap-3"
+		>
+			<label htmlFor={`tag-name-${tag.id}`} className="sr-only">
+				タグ名
+			</label>
+			<input
+				type="text"
+				id={`tag-name-${tag.id}`}
+				value={name}
+				onChange={(event) => setName(event.target.value)}
+				maxLength={50}
+				required
+				className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+			/>
+			<label className="inline-flex items-center gap-2 text-sm text-gray-700">
+				<input
+					type="checkbox"
+					checked={hasColor}
+					onChange={(event) => setHasColor(event.target.checked)}
+				/>
+				色を設定
+			</label>
+			<input
+				type="color"
+				value={color}
+				onChange={(event) => setColor(event.target.value.toUpperCase())}
+				disabled={!hasColor}
+				aria-label="タグの色"
+				className="h-8 w-10 border border-gray-300 rounded disabled:opacity-40"
+			/>
+			<div className="flex gap-2 ml-auto">
+				<button
+					type="button"
+					onClick={onCancel}
+					className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+				>
+					キャンセル
+				</button>
+				<button
+					type="submit"
+					disabled={isSubmitting || !name.trim()}
+					className="px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+				>
+					保存
+				</button>
+			</div>
+		</form>
+	);
+}
+
+export function TagList() {
+	const [rowMode, setRowMode] = useState<RowMode | null>(null);
+	const [mergeTargetId, setMergeTargetId] = useState("");
+	const [message, setMessage] = useState<string | null>(null);
+
+	const tagsQuery = useTags({
+		// クライアント側でのみ実行されるようにする（SSR時の問題を回避）
+		enabled: typeof window !== "undefined",
+	});
+	const closeRow = (data: { message?: string }) => {
+		setRowMode(null);
+		setMergeTargetId("");
+		setMessage(data.message ?? null);
+	};
+	const updateMutation = useUpdateTag({ onSuccess: closeRow });
+	const mergeMutation = useMergeTags({ onSuccess: closeRow });
+	const deleteMutation = useDeleteTag({ onSuccess: closeRow });
+
+	const tags = tagsQuery.data?.data ?? [];
+
+	const openRow = (tagId: number, kind: RowMode["kind"]) => {
+		setRowMode({ tagId, kind });
+		setMergeTargetId("");
+		setMessage(null);
+	};
+
+	const mutationError =
+		updateMutation.error ?? mergeMutation.error ?? deleteMutation.error;
+
+	if (tagsQuery.error) {
+		return (
+			<div className="bg-white rounded-lg shadow-sm border p-6">
+				<p className="text-sm font-medium text-red-600" role="alert">
+					タグの取得に失敗しました
+				</p>
+			</div>
+		);
+	}
+
+	if (tagsQuery.isLoading) {
+		return (
+			<div className="bg-white rounded-lg shadow-sm border p-6 animate-pulse">
+				<div className="w-48 h-6 bg-gray-200 rounded" />
+			</div>
+		);
+	}
+
+	return (
+		<div className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+			<h2 className="text-lg font-semibold text-gray-900">タグ一覧</h2>
+
+			{mutationError && (
+				<p className="text-sm font-medium text-red-600" role="alert">
+					{mutationError.message || "タグの保存に失敗しました"}
+				</p>
+			)}
+			{message && (
+				<p className="text-sm font-medium text-green-700" role="status">
+					{message}
+				</p>
+			)}
+
+			{tags.length === 0 ? (
+				<p className="text-sm text-gray-500">
+					登録されているタグはありません。取引にタグを付けると追加されます
+				</p>
+			) : (
+				<ul className="divide-y divide-gray-200">
+					{tags.map((tag) => {
+						const mode = rowMode?.tagId === tag.id ? rowMode.kind : null;
+						return (
+							<li key={tag.id} className="py-3 space-y-2" data-testid="tag">
+								{mode === "edit" ? (
+									<TagEditForm
+										tag={tag}
+										isSubmitting={updateMutation.isPending}
+										onSubmit={(data) =>
+											updateMutation.mutate({ id: tag.id, data })
+										}
+										onCancel={() => setRowMode(null)}
+									/>
+								) : (
+									<div className="flex flex-wrap items-center justify-between gap-2">
+										<div className="flex items-center gap-2">
+											<span
+												className="w-3 h-3 rounded-full bg-gray-300"
+												style={
+													tag.color ? { backgroundColor: tag.color } : undefined
+												}
+												aria-hidden="true"
+											/>
+											<span className="text-sm font-medium text-gray-900">
+												#{tag.name}
+											</span>
+											<span className="text-xs text-gray-500">
+												{tag.transactionCount}件
+												{tag.lastUsedDate && `・最終 ${tag.lastUsedDate}`}
+											</span>
+										</div>
+										{mode === null && (
+											<div className="flex gap-2">
+												<button
+													type="button"
+													onClick={() => openRow(tag.id, "edit")}
+													className="px-3 py-1 text-sm text-blue-600 border border-blue-300 rounded-md hover:bg-blue-50"
+												>
+													編集
+												</button>
+												<button
+													type="button"
+													onClick={() => openRow(tag.id, "merge")}
+													disabled={tags.length < 2}
+													className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-40"
+												>
+													統合
+												</button>
+												<button
+													type="button"
+													onClick={() => openRow(tag.id, "delete")}
+													className="px-3 py-1 text-sm text-red-600 border border-red-300 rounded-md hover:bg-red-50"
+												>
+													削除
+												</button>
+											</div>
+										)}
+									</div>
+								)}
+
+								{mode === "merge" && (
+									<div className="flex flex-wrap items-center justify-end gap-2">
+										<label
+											htmlFor={`merge-target-${tag.id}`}
+											className="text-sm text-gray-700"
+										>
+											統合先
+										</label>
+										<select
+											id={`merge-target-${tag.id}`}
+											value={mergeTargetId}
+											onChange={(event) => setMergeTargetId(event.target.value)}
+											className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+										>
+											<option value="">選択してください</option>
+											{tags
+												.filter((target) => target.id !== tag.id)
+												.map((target) => (
+													<option key={target.id} value={target.id}>
+														#{target.name}
+													</option>
+												))}
+										</select>
+										<button
+											type="button"
+											onClick={() => setRowMode(null)}
+											className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+										>
+											キャンセル
+										</button>
+										<button
+											type="button"
+											onClick={() =>
+												mergeMutation.mutate({
+													sourceTagIds: [tag.id],
+													targetTagId: Number(mergeTargetId),
+												})
+											}
+											disabled={!mergeTargetId || mergeMutation.isPending}
+											className="px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+										>
+											統合する
+										</button>
+										<p className="w-full text-right text-xs text-gray-500">
+											{tag.transactionCount}
+											件の取引のタグを統合先に付け替え、このタグを削除します
+										</p>
+									</div>
+								)}
+
+								{mode === "delete" && (
+									<div className="flex flex-wrap items-center justify-end gap-2">
+										<p className="text-sm text-gray-700">
+											タグを削除しますか？{tag.transactionCount}
+											件の取引からタグが外れます
+										</p>
+										<button
+											type="button"
+											onClick={() => setRowMode(null)}
+											className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+										>
+											キャンセル
+										</button>
+										<button
+											type="button"
+											onClick={() => deleteMutation.mutate(tag.id)}
+											disabled={deleteMutation.isPending}
+											className="px-3 py-1 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50"
+										>
+											削除する
+										</button>
+									</div>
+								)}
+							</li>
+						);
+					})}
+				</ul>
+			)}
+		</div>
+	);
+}
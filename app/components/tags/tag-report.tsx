@@ -0,0 +1,199 @@
+import { useState } from "react";
+import { useTagStats } from "../../lib/hooks/use-tags";
+import {
+	type ReportPeriodMode,
+	type ReportPeriodSelection,
+	getReportRange,
+} from "../reports/report-period";
+
+/**
+ * タグ別レポートコンポーネント
+ *
+ * 設計方針:
+ * - 収支レポートと同じ期間セレクタ（月・年・直近12ヶ月）でタグ別の収入・支出を表示
+ * - 1つの取引に複数のタグがある場合はそれぞれのタグに金額全体を数えるため、
+ *   タグ別の合計は足し合わせても期間の支出合計と一致しないことを注記する
+ * - 支出の比率は期間内で最も支出の多いタグを基準にした棒で示す
+ */
+
+// 期間セレクタで選択できる過去の年数
+const SELECTABLE_YEARS = 5;
+
+const PERIOD_MODE_LABELS: Record<ReportPeriodMode, string> = {
+	month: "月",
+	year: "年",
+	last12months: "直近12ヶ月",
+};
+
+const formatYen = (value: number) => `¥${value.toLocaleString()}`;
+
+export function TagReport() {
+	const now = new Date();
+	const [selection, setSelection] = useState<ReportPeriodSelection>({
+		mode: "month",
+		year: now.getFullYear(),
+		month: now.getMonth() + 1,
+	});
+
+	const range = getReportRange(selection, now);
+	const { data, isLoading, error } = useTagStats(
+		{ startDate: range.startDate, endDate: range.endDate },
+		{
+			// クライアント側でのみ実行されるようにする（SSR時の問題を回避）
+			enabled: typeof window !== "undefined",
+		},
+	);
+
+	const stats = data?.data ?? [];
+	const maxExpense = Math.max(0, ...stats.map((tag) => tag.expense));
+	const years = Array.from(
+		{ length: SELECTABLE_YEARS },
+		(_, index) => now.getFullYear() - index,
+	);
+
+	const selectClassName =
+		"px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+	return (
+		<div className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+			<div className="flex flex-wrap items-center justify-between gap-3">
+				<h2 className="text-lg font-semibold text-gray-900">タグ別レポート</h2>
+				<div className="flex flex-wrap items-center gap-3">
+					<select
+						aria-label="集計期間"
+						value={selection.mode}
+						onChange={(e) =>
+							setSelection((prev) => ({
+								...prev,
+								mode: e.target.value as ReportPeriodMode,
+							}))
+						}
+						className={selectClassName}
+					>
+						{(Object.keys(PERIOD_MODE_LABELS) as ReportPeriodMode[]).map(
+							(mode) => (
+								<option key={mode} value={mode}>
+									{PERIOD_MODE_LABELS[mode]}
+								</option>
+							),
+						)}
+					</select>
+					{selection.mode !== "last12months" && (
+						<select
+							aria-label="年"
+							value={selection.year}
+							onChange={(e) =>
+								setSelection((prev) => ({
+									...prev,
+									year: Number(e.target.value),
+								}))
+							}
+							className={selectClassName}
+						>
+							{years.map((year) => (
+								<option key={year} value={year}>
+									{year}年
+								</option>
+							))}
+						</select>
+					)}
+					{selection.mode === "month" && (
+						<select
+							aria-label="月"
+							value={selection.month}
+							onChange={(e) =>
+								setSelection((prev) => ({
+									...prev,
+									month: Number(e.target.value),
+								}))
+							}
+							className={selectClassName}
+						>
+							{Array.from({ length: 12 }, (_, index) => index + 1).map(
+								(month) => (
+									<option key={month} value={month}>
+										{month}月
+									</option>
+								),
+							)}
+						</select>
+					)}
+				</div>
+			</div>
+			<p className="text-xs text-gray-500">
+				{range.startDate} 〜 {range.endDate}
+				・複数のタグが付いた取引はそれぞれのタグに金額全体を計上します
+			</p>
+
+			{error ? (
+				<p className="text-sm font-medium text-red-600" role="alert">
+					タグ別の集計の取得に失敗しました
+				</p>
+			) : isLoading ? (
+				<div className="animate-pulse">
+					<div className="w-48 h-6 bg-gray-200 rounded" />
+				</div>
+			) : stats.length === 0 ? (
+				<p className="text-sm text-gray-500">
+					この期間にタグの付いた取引はありません
+				</p>
+			) : (
+				<div className="overflow-x-auto">
+					<table className="min-w-full text-sm">
+						<thead>
+							<tr className="text-left text-gray-500 border-b">
+								<th className="py-2 pr-4 font-medium">タグ</th>
+								<th className="py-2 pr-4 font-medium text-right">支出</th>
+								<th className="py-2 pr-4 font-medium text-right">収入</th>
+								<th className="py-2 font-medium w-1/3">
+									<span className="sr-only">支出の比率</span>
+								</th>
+							</tr>
+						</thead>
+						<tbody className="divide-y divide-gray-100">
+							{stats.map((tag) => (
+								<tr key={tag.tagId} data-testid="tag-stats-row">
+									<td className="py-2 pr-4 whitespace-nowrap">
+										<span className="inline-flex items-center gap-2">
+											<span
+												className="w-2 h-2 rounded-full bg-gray-300"
+												style={
+													tag.color ? { backgroundColor: tag.color } : undefined
+												}
+												aria-hidden="true"
+											/>
+											#{tag.name}
+										</span>
+									</td>
+									<td className="py-2 pr-4 text-right text-red-600 whitespace-nowrap">
+										{formatYen(tag.expense)}
+										<span className="ml-1 text-xs text-gray-500">
+											({tag.expenseCount}件)
+										</span>
+									</td>
+									<td className="py-2 pr-4 text-right text-green-600 whitespace-nowrap">
+										{formatYen(tag.income)}
+										<span className="ml-1 text-xs text-gray-500">
+											({tag.incomeCount}件)
+										</span>
+									</td>
+									<td className="py-2">
+										<div className="h-2 bg-gray-100 rounded" aria-hidden="true">
+											<div
+												className="h-2 rounded bg-red-400"
+												style={{
+													width: `${maxExpense > 0 ? (tag.expense / maxExpense) * 100 : 0}%`,
+													...(tag.color && { backgroundColor: tag.color }),
+												}}
+											/>
+										</div>
+									</td>
+								</tr>
+							))}
+						</tbody>
+					</table>
+				</div>
+			)}
+		</div>
+	);
+}
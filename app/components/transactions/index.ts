@@ -9,3 +9,6 @@
 
 export { useTransactionModal } from "./use-transaction-modal";
 export { TransactionFormModal } from "./transaction-form-modal";
+export { TransactionList } from "./transaction-list";
+export { TransactionImport } from "./transaction-import";
+export type { TransactionFormData } from "./transaction-form-modal";
@@ -1,5 +1,13 @@
 import { render, screen, fireEvent, waitFor, cleanup } from "@testing-library/react";
 import { describe, expect, it, vi, beforeEach } from "vitest";
+import {
+	FIXED_EXPENSE_CATEGORIES,
+	FIXED_INCOME_CATEGORIES,
+} from "../../constants/fixed-categories";
+import { useAccounts } from "../../lib/hooks/use-accounts";
+import { useCategoryOptions } from "../../lib/hooks/use-categories";
+import { useTags } from "../../lib/hooks/use-tags";
+import { useCategorySuggestions } from "../../lib/hooks/use-transactions";
 import { TransactionFormModal } from "./transaction-form-modal";
 
 /**
@@ -9,15 +17,53 @@ import { TransactionFormModal } from "./transaction-form-modal";
  * - モーダルの表示・非表示が正常に動作することを検証
  * - フォーム入力が正常に動作することを検証
  * - キャンセルボタンでモーダルが閉じることを検証
- * - 収入・支出タイプに応じたUIの変化を検証
+ * - 収入・支出・振替タイプに応じたUIの変化を検証
+ * - 口座一覧はuseAccountsをモックし、口座の選択肢と送信値を検証
+ * - カテゴリ候補はuseCategorySuggestionsをモックし、候補の選択がカテゴリに反映されることを検証
+ * - タグの候補はuseTagsをモックし、入力・選択したタグが送信データに含まれることを検証
+ * - カテゴリの選択肢はuseCategoryOptionsをモックし、既定ではデフォルトカテゴリを返す
  */
 
+vi.mock("../../lib/hooks/use-accounts", () => ({
+	useAccounts: vi.fn(),
+}));
+
+vi.mock("../../lib/hooks/use-transactions", () => ({
+	useCategorySuggestions: vi.fn(),
+}));
+
+vi.mock("../../lib/hooks/use-tags", () => ({
+	useTags: vi.fn(),
+}));
+
+vi.mock("../../lib/hooks/use-categories", () => ({
+	useCategoryOptions: vi.fn(),
+}));
+
+const mockUseAccounts = vi.mocked(useAccounts);
+const mockUseCategoryOptions = vi.mocked(useCategoryOptions);
+const mockUseTags = vi.mocked(useTags);
+const mockUseCategorySuggestions = vi.mocked(useCategorySuggestions);
+
 describe("TransactionFormModal", () => {
 	const mockOnClose = vi.fn();
 
 	beforeEach(() => {
 		vi.clearAllMocks();
 		cleanup();
+		// 既定では口座未登録とする
+		mockUseAccounts.mockReturnValue({ data: undefined } as any);
+		// 既定ではカテゴリ候補なしとする
+		mockUseCategorySuggestions.mockReturnValue({ data: undefined } as any);
+		// 既定ではタグ未登録とする
+		mockUseTags.mockReturnValue({ data: undefined } as any);
+		// 既定ではAPIからデフォルトカテゴリを取得できたものとする
+		mockUseCategoryOptions.mockImplementation((type) => ({
+			categories:
+				type === "income" ? FIXED_INCOME_CATEGORIES : FIXED_EXPENSE_CATEGORIES,
+			isFallback: false,
+			isLoading: false,
+		}));
 	});
 
 	it("モーダルが閉じている場合、何も表示されない", () => {
@@ -32,6 +78,44 @@ describe("TransactionFormModal", () => {
 		expect(screen.queryByText("収入登録")).not.toBeInTheDocument();
 	});
 
+	it("APIから取得したカテゴリを選択肢に表示し、取得できない場合は代替であることを示す", () => {
+		mockUseCategoryOptions.mockReturnValue({
+			categories: [{ id: 21, name: "外食", type: "expense", isActive: true }],
+			isFallback: false,
+			isLoading: false,
+		});
+		const { rerender } = render(
+			<TransactionFormModal
+				isOpen={true}
+				transactionType="expense"
+				onClose={mockOnClose}
+			/>,
+		);
+
+		expect(screen.getByRole("option", { name: "外食" })).toHaveValue("21");
+		expect(
+			screen.queryByText("カテゴリを取得できないため、既定のカテゴリを表示しています"),
+		).not.toBeInTheDocument();
+
+		mockUseCategoryOptions.mockReturnValue({
+			categories: FIXED_EXPENSE_CATEGORIES,
+			isFallback: true,
+			isLoading: false,
+		});
+		rerender(
+			<TransactionFormModal
+				isOpen={true}
+				transactionType="expense"
+				onClose={mockOnClose}
+			/>,
+		);
+
+		expect(screen.getByRole("option", { name: "食費" })).toHaveValue("1");
+		expect(
+			screen.getByText("カテゴリを取得できないため、既定のカテゴリを表示しています"),
+		).toBeInTheDocument();
+	});
+
 	it("収入登録モーダルが正常に表示される", () => {
 		render(
 			<TransactionFormModal
@@ -117,15 +201,15 @@ describe("TransactionFormModal", () => {
 		expect(mockOnClose).toHaveBeenCalledOnce();
 	});
 
-	it("フォーム送信でモーダルが閉じる", () => {
-		// console.log をモック化
-		const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+	it("フォーム送信で入力データが渡されモーダルが閉じる", async () => {
+		const mockOnSubmit = vi.fn().mockResolvedValue(undefined);
 
 		render(
 			<TransactionFormModal
 				isOpen={true}
 				transactionType="income"
 				onClose={mockOnClose}
+				onSubmit={mockOnSubmit}
 			/>,
 		);
 
@@ -137,12 +221,435 @@ describe("TransactionFormModal", () => {
 		const submitButton = screen.getByRole("button", { name: "収入を登録" });
 		fireEvent.click(submitButton);
 
-		expect(mockOnClose).toHaveBeenCalledOnce();
-		
-		// コンソール出力も確認
-		expect(consoleSpy).toHaveBeenCalledWith("Transaction data:", expect.any(Object));
-		
-		consoleSpy.mockRestore();
+		await waitFor(() => {
+			expect(mockOnClose).toHaveBeenCalledOnce();
+		});
+
+		expect(mockOnSubmit).toHaveBeenCalledWith(
+			expect.objectContaining({
+				amount: 1000,
+				type: "income",
+				transactionDate: new Date().toISOString().split("T")[0],
+				categoryId: null,
+			}),
+		);
+	});
+
+	it("選択した口座のIDが送信データに含まれる", async () => {
+		mockUseAccounts.mockReturnValue({
+			data: {
+				success: true,
+				data: [
+					{ id: 3, name: "メイン口座" },
+					{ id: 5, name: "楽天カード" },
+				],
+				totalBalance: 0,
+			},
+		} as any);
+		const mockOnSubmit = vi.fn().mockResolvedValue(undefined);
+
+		render(
+			<TransactionFormModal
+				isOpen={true}
+				transactionType="expense"
+				onClose={mockOnClose}
+				onSubmit={mockOnSubmit}
+			/>,
+		);
+
+		// 実行
+		fireEvent.change(screen.getByRole("textbox", { name: /支出金額/ }), {
+			target: { value: "800" },
+		});
+		fireEvent.change(screen.getByLabelText("口座"), {
+			target: { value: "5" },
+		});
+		fireEvent.click(screen.getByRole("button", { name: "支出を登録" }));
+
+		// 検証
+		await waitFor(() => {
+			expect(mockOnSubmit).toHaveBeenCalledWith(
+				expect.objectContaining({ amount: 800, accountId: 5 }),
+			);
+		});
+	});
+
+	it("振替モードでは振替元・振替先の口座と手数料を送信する", async () => {
+		mockUseAccounts.mockReturnValue({
+			data: {
+				success: true,
+				data: [
+					{ id: 3, name: "メイン口座" },
+					{ id: 5, name: "楽天カード" },
+				],
+				totalBalance: 0,
+			},
+		} as any);
+		const mockOnSubmit = vi.fn().mockResolvedValue(undefined);
+
+		render(
+			<TransactionFormModal
+				isOpen={true}
+				transactionType="transfer"
+				onClose={mockOnClose}
+				onSubmit={mockOnSubmit}
+			/>,
+		);
+
+		// 振替ではカテゴリ・支払い方法は入力しない
+		expect(screen.queryByLabelText("カテゴリ")).not.toBeInTheDocument();
+		expect(screen.queryByLabelText("支払い方法")).not.toBeInTheDocument();
+
+		// 実行
+		fireEvent.change(screen.getByRole("textbox", { name: /振替金額/ }), {
+			target: { value: "32000" },
+		});
+		fireEvent.change(screen.getByLabelText(/振替元/), {
+			target: { value: "3" },
+		});
+		fireEvent.change(screen.getByLabelText(/振替先/), {
+			target: { value: "5" },
+		});
+		fireEvent.change(screen.getByLabelText("手数料"), {
+			target: { value: "110" },
+		});
+		fireEvent.click(screen.getByRole("button", { name: "振替を登録" }));
+
+		// 検証
+		await waitFor(() => {
+			expect(mockOnSubmit).toHaveBeenCalledWith(
+				expect.objectContaining({
+					type: "transfer",
+					amount: 32000,
+					accountId: 3,
+					transferAccountId: 5,
+					fee: 110,
+					categoryId: null,
+				}),
+			);
+		});
+	});
+
+	it("振替元と振替先が同じ口座の場合は送信せずエラーを表示する", async () => {
+		mockUseAccounts.mockReturnValue({
+			data: {
+				success: true,
+				data: [
+					{ id: 3, name: "メイン口座" },
+					{ id: 5, name: "楽天カード" },
+				],
+				totalBalance: 0,
+			},
+		} as any);
+		const mockOnSubmit = vi.fn().mockResolvedValue(undefined);
+
+		render(
+			<TransactionFormModal
+				isOpen={true}
+				transactionType="transfer"
+				onClose={mockOnClose}
+				onSubmit={mockOnSubmit}
+			/>,
+		);
+
+		// 実行
+		fireEvent.change(screen.getByRole("textbox", { name: /振替金額/ }), {
+			target: { value: "1000" },
+		});
+		fireEvent.change(screen.getByLabelText(/振替元/), {
+			target: { value: "3" },
+		});
+		fireEvent.change(screen.getByLabelText(/振替先/), {
+			target: { value: "3" },
+		});
+		fireEvent.click(screen.getByRole("button", { name: "振替を登録" }));
+
+		// 検証
+		expect(await screen.findByRole("alert")).toHaveTextContent(
+			"振替元と振替先に同じ口座は指定できません",
+		);
+		expect(mockOnSubmit).not.toHaveBeenCalled();
+	});
+
+	it("カテゴリを分割すると内訳の残額を表示し、内訳を送信データに含める", async () => {
+		const mockOnSubmit = vi.fn().mockResolvedValue(undefined);
+
+		render(
+			<TransactionFormModal
+				isOpen={true}
+				transactionType="expense"
+				onClose={mockOnClose}
+				onSubmit={mockOnSubmit}
+			/>,
+		);
+
+		// 実行
+		fireEvent.change(screen.getByRole("textbox", { name: /支出金額/ }), {
+			target: { value: "3000" },
+		});
+		fireEvent.click(screen.getByLabelText("カテゴリを分割"));
+		fireEvent.change(screen.getByLabelText("内訳1のカテゴリ"), {
+			target: { value: "1" },
+		});
+		fireEvent.change(screen.getByLabelText("内訳1の金額"), {
+			target: { value: "2200" },
+		});
+		fireEvent.change(screen.getByLabelText("内訳2のカテゴリ"), {
+			target: { value: "7" },
+		});
+
+		// 検証（残額の表示）
+		expect(screen.queryByLabelText(/^カテゴリ$/)).not.toBeInTheDocument();
+		expect(screen.getByTestId("split-remaining")).toHaveTextContent(
+			"残り 800円",
+		);
+
+		fireEvent.change(screen.getByLabelText("内訳2の金額"), {
+			target: { value: "800" },
+		});
+		fireEvent.change(screen.getByLabelText("内訳2のメモ"), {
+			target: { value: "洗剤" },
+		});
+		fireEvent.click(screen.getByRole("button", { name: "支出を登録" }));
+
+		// 検証（送信データ）
+		await waitFor(() => {
+			expect(mockOnSubmit).toHaveBeenCalledWith(
+				expect.objectContaining({
+					amount: 3000,
+					categoryId: null,
+					splits: [
+						{ categoryId: 1, amount: 2200, memo: null },
+						{ categoryId: 7, amount: 800, memo: "洗剤" },
+					],
+				}),
+			);
+		});
+	});
+
+	it("説明の入力後にカテゴリ候補を表示し、選んだ候補をカテゴリとして送信する", async () => {
+		const mockOnSubmit = vi.fn().mockResolvedValue(undefined);
+		mockUseCategorySuggestions.mockReturnValue({
+			data: {
+				success: true,
+				data: [
+					{ categoryId: 1, name: "食費", color: "#ef4444", confidence: 0.82 },
+					// フォームの選択肢にないカテゴリは表示しない
+					{ categoryId: 999, name: "削除済み", color: null, confidence: 0.1 },
+				],
+			},
+		} as any);
+
+		render(
+			<TransactionFormModal
+				isOpen={true}
+				transactionType="expense"
+				onClose={mockOnClose}
+				onSubmit={mockOnSubmit}
+			/>,
+		);
+
+		// 実行
+		fireEvent.change(screen.getByRole("textbox", { name: /支出金額/ }), {
+			target: { value: "600" },
+		});
+		fireEvent.change(screen.getByLabelText("説明・メモ"), {
+			target: { value: "ローソン" },
+		});
+
+		// 検証（入力が止まってから説明・金額で候補を取得する）
+		const suggestion = await screen.findByRole("button", { name: "食費 82%" });
+		expect(mockUseCategorySuggestions).toHaveBeenLastCalledWith(
+			expect.objectContaining({
+				type: "expense",
+				description: "ローソン",
+				amount: 600,
+			}),
+			{ enabled: true },
+		);
+		expect(screen.getByTestId("category-suggestions")).not.toHaveTextContent(
+			"削除済み",
+		);
+
+		fireEvent.click(suggestion);
+		expect(screen.getByLabelText(/^カテゴリ$/)).toHaveValue("1");
+		fireEvent.click(screen.getByRole("button", { name: "支出を登録" }));
+
+		// 検証（送信データ）
+		await waitFor(() => {
+			expect(mockOnSubmit).toHaveBeenCalledWith(
+				expect.objectContaining({
+					categoryId: 1,
+					description: "ローソン",
+				}),
+			);
+		});
+	});
+
+	it("説明が未入力の場合はカテゴリ候補を取得しない", () => {
+		render(
+			<TransactionFormModal
+				isOpen={true}
+				transactionType="expense"
+				onClose={mockOnClose}
+			/>,
+		);
+
+		expect(mockUseCategorySuggestions).toHaveBeenLastCalledWith(
+			expect.objectContaining({ description: "" }),
+			{ enabled: false },
+		);
+		expect(screen.queryByTestId("category-suggestions")).not.toBeInTheDocument();
+	});
+
+	it("入力したタグと候補から選んだタグを送信データに含める", async () => {
+		const mockOnSubmit = vi.fn().mockResolvedValue(undefined);
+		mockUseTags.mockReturnValue({
+			data: {
+				success: true,
+				data: [
+					{
+						id: 1,
+						name: "外食",
+						color: "#F59E0B",
+						transactionCount: 12,
+						lastUsedDate: "2025-06-30",
+						createdAt: "2025-01-01T00:00:00Z",
+						updatedAt: "2025-01-01T00:00:00Z",
+					},
+					{
+						id: 2,
+						name: "会社",
+						color: null,
+						transactionCount: 3,
+						lastUsedDate: "2025-06-01",
+						createdAt: "2025-01-01T00:00:00Z",
+						updatedAt: "2025-01-01T00:00:00Z",
+					},
+				],
+			},
+		} as any);
+
+		render(
+			<TransactionFormModal
+				isOpen={true}
+				transactionType="expense"
+				onClose={mockOnClose}
+				onSubmit={mockOnSubmit}
+			/>,
+		);
+
+		// 実行: 新しいタグを入力してEnter、入力中の文字列に一致する候補を選択
+		fireEvent.change(screen.getByRole("textbox", { name: /支出金額/ }), {
+			target: { value: "1200" },
+		});
+		const tagInput = screen.getByLabelText("タグ");
+		fireEvent.focus(tagInput);
+		fireEvent.change(tagInput, { target: { value: "出張" } });
+		fireEvent.keyDown(tagInput, { key: "Enter" });
+		fireEvent.change(tagInput, { target: { value: "外" } });
+		const suggestions = screen.getByTestId("tag-suggestions");
+		expect(suggestions).toHaveTextContent("#外食");
+		expect(suggestions).not.toHaveTextContent("#会社");
+		fireEvent.click(screen.getByRole("button", { name: /#外食/ }));
+		fireEvent.click(screen.getByRole("button", { name: "支出を登録" }));
+
+		// 検証
+		expect(screen.getAllByTestId("tag-chip").map((chip) => chip.textContent)).toEqual([
+			"#出張×",
+			"#外食×",
+		]);
+		await waitFor(() => {
+			expect(mockOnSubmit).toHaveBeenCalledWith(
+				expect.objectContaining({ tags: ["出張", "外食"] }),
+			);
+		});
+	});
+
+	it("内訳の合計が金額と一致しない場合は送信せずエラーを表示する", async () => {
+		const mockOnSubmit = vi.fn().mockResolvedValue(undefined);
+
+		render(
+			<TransactionFormModal
+				isOpen={true}
+				transactionType="expense"
+				onClose={mockOnClose}
+				onSubmit={mockOnSubmit}
+			/>,
+		);
+
+		// 実行
+		fireEvent.change(screen.getByRole("textbox", { name: /支出金額/ }), {
+			target: { value: "3000" },
+		});
+		fireEvent.click(screen.getByLabelText("カテゴリを分割"));
+		for (const [index, amount] of ["2000", "500"].entries()) {
+			fireEvent.change(screen.getByLabelText(`内訳${index + 1}のカテゴリ`), {
+				target: { value: "1" },
+			});
+			fireEvent.change(screen.getByLabelText(`内訳${index + 1}の金額`), {
+				target: { value: amount },
+			});
+		}
+		fireEvent.click(screen.getByRole("button", { name: "支出を登録" }));
+
+		// 検証
+		expect(await screen.findByRole("alert")).toHaveTextContent(
+			"内訳の合計（2,500円）が金額と一致しません",
+		);
+		expect(mockOnSubmit).not.toHaveBeenCalled();
+	});
+
+	it("口座が2つ未満の場合は振替を登録できない", () => {
+		render(
+			<TransactionFormModal
+				isOpen={true}
+				transactionType="transfer"
+				onClose={mockOnClose}
+			/>,
+		);
+
+		expect(
+			screen.getByText(/振替には2つ以上の口座が必要です/),
+		).toBeInTheDocument();
+		expect(screen.getByRole("button", { name: "振替を登録" })).toBeDisabled();
+	});
+
+	it("口座が未登録の場合は口座の選択欄を表示しない", () => {
+		render(
+			<TransactionFormModal
+				isOpen={true}
+				transactionType="expense"
+				onClose={mockOnClose}
+			/>,
+		);
+
+		expect(screen.queryByLabelText("口座")).not.toBeInTheDocument();
+	});
+
+	it("送信に失敗した場合はエラーを表示しモーダルを閉じない", async () => {
+		const mockOnSubmit = vi
+			.fn()
+			.mockRejectedValue(new Error("取引の作成中にエラーが発生しました"));
+		vi.spyOn(console, "error").mockImplementation(() => {});
+
+		render(
+			<TransactionFormModal
+				isOpen={true}
+				transactionType="expense"
+				onClose={mockOnClose}
+				onSubmit={mockOnSubmit}
+			/>,
+		);
+
+		const amountInput = screen.getByRole("textbox", { name: /支出金額/ });
+		fireEvent.change(amountInput, { target: { value: "500" } });
+		fireEvent.click(screen.getByRole("button", { name: "支出を登録" }));
+
+		expect(await screen.findByRole("alert")).toHaveTextContent(
+			"取引の作成中にエラーが発生しました",
+		);
+		expect(mockOnClose).not.toHaveBeenCalled();
 	});
 
 	it("必須項目が空の場合、HTML5バリデーションが動作する", () => {
@@ -1,5 +1,16 @@
-import { useCallback, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
+import { getTodayInJst } from "../../../db/queries/recurrence";
+import { useAccounts } from "../../lib/hooks/use-accounts";
+import { useCategoryOptions } from "../../lib/hooks/use-categories";
+import { useCategorySuggestions } from "../../lib/hooks/use-transactions";
+import { TagInput } from "../tags/tag-input";
 import { Modal } from "../ui/modal";
+import {
+	type SplitLineInput,
+	TransactionSplitEditor,
+	createEmptySplitLine,
+	getSplitLinesTotal,
+} from "./transaction-split-editor";
 import type { TransactionType } from "./use-transaction-modal";
 
 /**
@@ -7,44 +18,232 @@ import type { TransactionType } from "./use-transaction-modal";
  *
  * 設計方針:
  * - Modalコンポーネントを再利用した統一的なUI
- * - 収入・支出の両方に対応する汎用的なフォーム
+ * - 収入・支出・口座間の振替に対応する汎用的なフォーム
  * - 既存のサブスクリプションフォームのパターンを踏襲
  * - Progressive Enhancement対応（HTMLネイティブ機能を基本）
  * - モーダルクローズ時の状態リセット（要件を満たす）
+ * - 口座は登録済みの口座から任意で選択（未選択の場合は口座に紐付けない）
+ * - 振替モードではカテゴリ・支払い方法の代わりに振替元・振替先の口座と手数料を入力する
+ * - 収入・支出は「カテゴリを分割」で複数カテゴリの内訳を入力でき、内訳の合計が金額と一致しない場合は送信しない
+ * - 説明の入力に合わせて過去の取引履歴からカテゴリの候補を表示し、選ぶとカテゴリに反映する
+ *   （入力のたびにAPIを呼ばないよう、説明の入力が止まってから候補を取得する）
+ * - タグは登録済みのタグを候補にして入力する（TagInput）
+ * - カテゴリの選択肢はAPIから取得し、取得できない場合のみデフォルトカテゴリの固定リストで代替する
  */
 
+// 説明の入力が止まってから候補を取得するまでの待ち時間（ミリ秒）
+const SUGGESTION_DEBOUNCE_MS = 300;
+
+// 分割を始めた時点の内訳行（分割は2行以上が必要）
+const createInitialSplitLines = (): SplitLineInput[] => [
+	createEmptySplitLine(),
+	createEmptySplitLine(),
+];
+
+/**
+ * フォーム送信時に親コンポーネントへ渡す取引データ
+ * APIの取引作成リクエストと同じ形状
+ */
+export interface TransactionFormData {
+	amount: number;
+	type: TransactionType;
+	transactionDate: string;
+	categoryId: number | null;
+	description: string | null;
+	paymentMethod: string | null;
+	accountId: number | null;
+	transferAccountId: number | null;
+	fee: number;
+	/** タグ（付けていない場合は省略） */
+	tags?: string[];
+	/** 内訳（カテゴリを分割した場合のみ） */
+	splits?: { categoryId: number; amount: number; memo: string | null }[];
+}
+
 interface TransactionFormModalProps {
 	/** モーダルの表示状態 */
 	isOpen: boolean;
-	/** 取引タイプ（収入・支出） */
+	/** 取引タイプ（収入・支出・振替） */
 	transactionType: TransactionType | null;
 	/** モーダルを閉じる関数 */
 	onClose: () => void;
+	/** フォーム送信時のコールバック（保存処理は親コンポーネントが担う） */
+	onSubmit?: (data: TransactionFormData) => Promise<void>;
 }
 
 export function TransactionFormModal({
 	isOpen,
 	transactionType,
 	onClose,
+	onSubmit,
 }: TransactionFormModalProps) {
 	// 金額の表示用状態（入力値をリアルタイムで整形表示）
 	const [displayAmount, setDisplayAmount] = useState("");
+	// 送信状態とエラーメッセージ
+	const [isSubmitting, setIsSubmitting] = useState(false);
+	const [submitError, setSubmitError] = useState<string | null>(null);
+	// カテゴリの分割状態と入力中の内訳行
+	const [isSplit, setIsSplit] = useState(false);
+	const [splitLines, setSplitLines] = useState<SplitLineInput[]>(
+		createInitialSplitLines,
+	);
+	// カテゴリ候補の推定に使う入力値（候補の選択でカテゴリを変えるため制御コンポーネントにする）
+	const [categoryId, setCategoryId] = useState("");
+	const [description, setDescription] = useState("");
+	const [transactionDate, setTransactionDate] = useState(getTodayInJst);
+	const [suggestionQuery, setSuggestionQuery] = useState("");
+	const [tags, setTags] = useState<string[]>([]);
+
+	// 口座の選択肢（有効な口座のみ）
+	const { data: accountsData } = useAccounts({
+		// クライアント側でのみ実行されるようにする（SSR時の問題を回避）
+		enabled: isOpen && typeof window !== "undefined",
+	});
+	const accountOptions = accountsData?.data ?? [];
+	const isTransfer = transactionType === "transfer";
+	// 振替には振替元・振替先で異なる2つ以上の口座が必要
+	const canTransfer = accountOptions.length >= 2;
+	const isSplitMode = isSplit && !isTransfer;
+
+	// 取引タイプに応じたカテゴリ一覧
+	const { categories: categoryOptions, isFallback: isCategoryFallback } =
+		useCategoryOptions(transactionType === "income" ? "income" : "expense");
+
+	// 説明の入力が止まってから候補の取得条件に反映する
+	useEffect(() => {
+		const timer = setTimeout(
+			() => setSuggestionQuery(description.trim()),
+			SUGGESTION_DEBOUNCE_MS,
+		);
+		return () => clearTimeout(timer);
+	}, [description]);
+
+	const { data: suggestionsData } = useCategorySuggestions(
+		{
+			type: transactionType === "income" ? "income" : "expense",
+			description: suggestionQuery,
+			amount: displayAmount ? Number.parseInt(displayAmount, 10) : undefined,
+			transactionDate: transactionDate || undefined,
+		},
+		{
+			enabled:
+				isOpen &&
+				typeof window !== "undefined" &&
+				!isTransfer &&
+				!isSplitMode &&
+				suggestionQuery.length > 0,
+		},
+	);
+	// フォームの選択肢にあるカテゴリの候補のみ表示する
+	const categorySuggestions =
+		!isTransfer && !isSplitMode && suggestionQuery.length > 0
+			? (suggestionsData?.data ?? []).filter((suggestion) =>
+					categoryOptions.some(
+						(category) => category.id === suggestion.categoryId,
+					),
+				)
+			: [];
+
+	// 入力内容を初期状態に戻す
+	const resetForm = useCallback(() => {
+		setDisplayAmount("");
+		setIsSplit(false);
+		setSplitLines(createInitialSplitLines());
+		setCategoryId("");
+		setDescription("");
+		setTransactionDate(getTodayInJst());
+		setSuggestionQuery("");
+		setTags([]);
+	}, []);
 
 	// フォーム送信処理
 	const handleSubmit = useCallback(
-		(event: React.FormEvent<HTMLFormElement>) => {
+		async (event: React.FormEvent<HTMLFormElement>) => {
 			event.preventDefault();
 
-			// TODO: フォームデータの送信処理を実装
-			// 現在はコンソール出力のみ（後続で実装）
 			const formData = new FormData(event.currentTarget);
-			const data = Object.fromEntries(formData.entries());
-			console.log("Transaction data:", data);
+			const paymentMethod = formData.get("paymentMethod");
+			const accountId = formData.get("accountId");
+			const transferAccountId = formData.get("transferAccountId");
+			const fee = formData.get("fee");
+
+			if (isTransfer && accountId && accountId === transferAccountId) {
+				setSubmitError("振替元と振替先に同じ口座は指定できません");
+				return;
+			}
+
+			const amount = Number.parseInt(String(formData.get("amount") ?? ""), 10);
+			if (isSplitMode) {
+				if (
+					splitLines.some(
+						(line) => !line.categoryId || !Number.parseInt(line.amount, 10),
+					)
+				) {
+					setSubmitError("内訳のカテゴリと金額をすべて入力してください");
+					return;
+				}
+				const splitTotal = getSplitLinesTotal(splitLines);
+				if (splitTotal !== amount) {
+					setSubmitError(
+						`内訳の合計（${splitTotal.toLocaleString()}円）が金額と一致しません`,
+					);
+					return;
+				}
+			}
+
+			const data: TransactionFormData = {
+				amount,
+				type: transactionType ?? "expense",
+				transactionDate,
+				categoryId: !isSplitMode && categoryId ? Number(categoryId) : null,
+				description: description || null,
+				paymentMethod: paymentMethod ? String(paymentMethod) : null,
+				accountId: accountId ? Number(accountId) : null,
+				transferAccountId:
+					isTransfer && transferAccountId ? Number(transferAccountId) : null,
+				fee: isTransfer && fee ? Number.parseInt(String(fee), 10) || 0 : 0,
+				...(tags.length > 0 && { tags }),
+				...(isSplitMode && {
+					splits: splitLines.map((line) => ({
+						categoryId: Number(line.categoryId),
+						amount: Number.parseInt(line.amount, 10),
+						memo: line.memo.trim() || null,
+					})),
+				}),
+			};
 
-			// フォーム送信後にモーダルを閉じる
-			onClose();
+			setIsSubmitting(true);
+			setSubmitError(null);
+			try {
+				await onSubmit?.(data);
+
+				// 保存成功後に状態をリセットしてモーダルを閉じる
+				resetForm();
+				onClose();
+			} catch (error) {
+				console.error("Transaction form submit error:", error);
+				setSubmitError(
+					error instanceof Error
+						? error.message
+						: "取引の登録中にエラーが発生しました",
+				);
+			} finally {
+				setIsSubmitting(false);
+			}
 		},
-		[onClose],
+		[
+			categoryId,
+			description,
+			isTransfer,
+			isSplitMode,
+			onClose,
+			onSubmit,
+			resetForm,
+			splitLines,
+			tags,
+			transactionDate,
+			transactionType,
+		],
 	);
 
 	// 金額入力の処理（リアルタイム表示用）
@@ -58,12 +257,22 @@ export function TransactionFormModal({
 
 	// モーダルが閉じられる際の状態リセット
 	const handleClose = useCallback(() => {
-		setDisplayAmount("");
+		resetForm();
+		setSubmitError(null);
 		onClose();
-	}, [onClose]);
+	}, [onClose, resetForm]);
 
 	// 取引種別に応じたタイトルとスタイル
 	const getModalConfig = () => {
+		if (transactionType === "transfer") {
+			return {
+				title: "振替登録",
+				submitText: "振替を登録",
+				amountLabel: "振替金額",
+				buttonClass: "bg-blue-600 hover:bg-blue-700 focus:ring-blue-500",
+				iconColor: "text-blue-600",
+			};
+		}
 		if (transactionType === "income") {
 			return {
 				title: "収入登録",
@@ -143,12 +352,140 @@ export function TransactionFormModal({
 						type="date"
 						id="transactionDate"
 						name="transactionDate"
-						defaultValue={new Date().toISOString().split("T")[0]}
+						value={transactionDate}
+						onChange={(e) => setTransactionDate(e.target.value)}
 						className="block w-full border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
 						required
 					/>
 				</div>
 
+				{/* 振替の場合は振替元・振替先の口座と手数料、それ以外はカテゴリ */}
+				{isTransfer ? (
+					canTransfer ? (
+						<>
+							<div className="grid grid-cols-2 gap-4">
+								<div>
+									<label
+										htmlFor="accountId"
+										className="block text-sm font-medium text-gray-700 mb-2"
+									>
+										振替元 <span className="text-red-500">*</span>
+									</label>
+									<select
+										id="accountId"
+										name="accountId"
+										className="block w-full border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+										required
+									>
+										<option value="">選択してください</option>
+										{accountOptions.map((account) => (
+											<option key={account.id} value={account.id}>
+												{account.name}
+											</option>
+										))}
+									</select>
+								</div>
+								<div>
+									<label
+										htmlFor="transferAccountId"
+										className="block text-sm font-medium text-gray-700 mb-2"
+									>
+										振替先 <span className="text-red-500">*</span>
+									</label>
+									<select
+										id="transferAccountId"
+										name="transferAccountId"
+										className="block w-full border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+										required
+									>
+										<option value="">選択してください</option>
+										{accountOptions.map((account) => (
+											<option key={account.id} value={account.id}>
+												{account.name}
+											</option>
+										))}
+									</select>
+								</div>
+							</div>
+							<div>
+								<label
+									htmlFor="fee"
+									className="block text-sm font-medium text-gray-700 mb-2"
+								>
+									手数料
+								</label>
+								<input
+									type="number"
+									id="fee"
+									name="fee"
+									min={0}
+									step={1}
+									className="block w-full border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 text-right"
+									placeholder="0"
+									aria-describedby="fee-help"
+								/>
+								<p id="fee-help" className="mt-1 text-xs text-gray-500">
+									手数料は振替元の口座から差し引かれます
+								</p>
+							</div>
+						</>
+					) : (
+						<p className="p-3 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-md">
+							振替には2つ以上の口座が必要です。ダッシュボードから口座を追加してください
+						</p>
+					)
+				) : (
+					<div className="space-y-3">
+						{isSplitMode ? (
+							<TransactionSplitEditor
+								lines={splitLines}
+								onChange={setSplitLines}
+								totalAmount={
+									displayAmount ? Number.parseInt(displayAmount, 10) : null
+								}
+								categoryOptions={categoryOptions}
+							/>
+						) : (
+							<div>
+								<label
+									htmlFor="categoryId"
+									className="block text-sm font-medium text-gray-700 mb-2"
+								>
+									カテゴリ
+								</label>
+								<select
+									id="categoryId"
+									name="categoryId"
+									value={categoryId}
+									onChange={(e) => setCategoryId(e.target.value)}
+									className="block w-full border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+								>
+									<option value="">選択してください</option>
+									{categoryOptions.map((category) => (
+										<option key={category.id} value={category.id}>
+											{category.name}
+										</option>
+									))}
+								</select>
+								{isCategoryFallback && (
+									<p className="mt-1 text-xs text-gray-500">
+										カテゴリを取得できないため、既定のカテゴリを表示しています
+									</p>
+								)}
+							</div>
+						)}
+						<label className="inline-flex items-center gap-2 text-sm text-gray-700">
+							<input
+								type="checkbox"
+								checked={isSplit}
+								onChange={(e) => setIsSplit(e.target.checked)}
+								className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+							/>
+							カテゴリを分割
+						</label>
+					</div>
+				)}
+
 				{/* 説明 */}
 				<div>
 					<label
@@ -161,34 +498,106 @@ export function TransactionFormModal({
 						id="description"
 						name="description"
 						rows={3}
+						value={description}
+						onChange={(e) => setDescription(e.target.value)}
 						className="block w-full border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
-						placeholder={`${transactionType === "income" ? "給与、副業収入など" : "食費、交通費、光熱費など"}の詳細を記入してください`}
+						placeholder={`${transactionType === "income" ? "給与、副業収入など" : isTransfer ? "カードの引き落とし、チャージなど" : "食費、交通費、光熱費など"}の詳細を記入してください`}
 					/>
+					{categorySuggestions.length > 0 && (
+						<div
+							className="mt-2 flex flex-wrap items-center gap-2"
+							data-testid="category-suggestions"
+						>
+							<span className="text-xs text-gray-500">カテゴリの候補:</span>
+							{categorySuggestions.map((suggestion) => (
+								<button
+									key={suggestion.categoryId}
+									type="button"
+									onClick={() => setCategoryId(String(suggestion.categoryId))}
+									aria-pressed={categoryId === String(suggestion.categoryId)}
+									className={`px-2 py-1 text-xs rounded-full border transition-colors ${
+										categoryId === String(suggestion.categoryId)
+											? "bg-blue-600 text-white border-blue-600"
+											: "text-gray-700 border-gray-300 hover:bg-gray-50"
+									}`}
+								>
+									{`${suggestion.name} ${Math.round(suggestion.confidence * 100)}%`}
+								</button>
+							))}
+						</div>
+					)}
 				</div>
 
-				{/* 支払い方法 */}
+				{/* タグ */}
 				<div>
 					<label
-						htmlFor="paymentMethod"
+						htmlFor="transaction-tags"
 						className="block text-sm font-medium text-gray-700 mb-2"
 					>
-						支払い方法
+						タグ
 					</label>
-					<select
-						id="paymentMethod"
-						name="paymentMethod"
-						className="block w-full border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
-					>
-						<option value="">選択してください</option>
-						<option value="cash">現金</option>
-						<option value="credit">クレジットカード</option>
-						<option value="debit">デビットカード</option>
-						<option value="bank_transfer">銀行振込</option>
-						<option value="electronic_money">電子マネー</option>
-						<option value="other">その他</option>
-					</select>
+					<TagInput id="transaction-tags" value={tags} onChange={setTags} />
 				</div>
 
+				{/* 支払い方法（振替以外） */}
+				{!isTransfer && (
+					<div>
+						<label
+							htmlFor="paymentMethod"
+							className="block text-sm font-medium text-gray-700 mb-2"
+						>
+							支払い方法
+						</label>
+						<select
+							id="paymentMethod"
+							name="paymentMethod"
+							className="block w-full border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+						>
+							<option value="">選択してください</option>
+							<option value="cash">現金</option>
+							<option value="credit">クレジットカード</option>
+							<option value="debit">デビットカード</option>
+							<option value="bank_transfer">銀行振込</option>
+							<option value="electronic_money">電子マネー</option>
+							<option value="other">その他</option>
+						</select>
+					</div>
+				)}
+
+				{/* 口座（振替以外） */}
+				{!isTransfer && accountOptions.length > 0 && (
+					<div>
+						<label
+							htmlFor="accountId"
+							className="block text-sm font-medium text-gray-700 mb-2"
+						>
+							口座
+						</label>
+						<select
+							id="accountId"
+							name="accountId"
+							className="block w-full border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+						>
+							<option value="">選択しない</option>
+							{accountOptions.map((account) => (
+								<option key={account.id} value={account.id}>
+									{account.name}
+								</option>
+							))}
+						</select>
+					</div>
+				)}
+
+				{/* 送信エラー */}
+				{submitError && (
+					<div
+						className="p-3 bg-red-50 border border-red-200 rounded-md"
+						role="alert"
+					>
+						<p className="text-sm text-red-600">{submitError}</p>
+					</div>
+				)}
+
 				{/* ボタン */}
 				<div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
 					<button
@@ -200,7 +609,8 @@ export function TransactionFormModal({
 					</button>
 					<button
 						type="submit"
-						className={`px-4 py-2 text-sm font-medium text-white rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 transition-colors ${config.buttonClass}`}
+						disabled={isSubmitting || (isTransfer && !canTransfer)}
+						className={`px-4 py-2 text-sm font-medium text-white rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${config.buttonClass}`}
 					>
 						{config.submitText}
 					</button>
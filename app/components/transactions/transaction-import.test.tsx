@@ -0,0 +1,107 @@
+import {
+	cleanup,
+	fireEvent,
+	render,
+	screen,
+	waitFor,
+} from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { useImportTransactions } from "../../lib/hooks/use-transactions";
+import { TransactionImport } from "./transaction-import";
+
+/**
+ * TransactionImport コンポーネントのテスト
+ *
+ * テスト方針:
+ * - CSVファイルを選択するとプレビューにエラー行を含めて表示されることを検証
+ * - 重複チェック・取り込み時に有効な行のみが送信されることを検証
+ * - 取り込みAPIはuse-transactionsのフックをモックする
+ */
+
+vi.mock("../../lib/hooks/use-transactions", () => ({
+	useImportTransactions: vi.fn(),
+}));
+
+const mockUseImportTransactions = vi.mocked(useImportTransactions);
+
+const CSV_TEXT = [
+	"日付,金額,内容",
+	"2024/07/01,1200,コンビニ",
+	"不明,500,カフェ",
+	"2024/07/02,3000,書店",
+].join("\n");
+
+const selectCsvFile = () => {
+	const file = new File([CSV_TEXT], "statement.csv", { type: "text/csv" });
+	// jsdomのBlob#arrayBufferは別realmのArrayBufferを返すため差し替える
+	Object.defineProperty(file, "arrayBuffer", {
+		value: async () => new TextEncoder().encode(CSV_TEXT).buffer,
+	});
+	fireEvent.change(screen.getByTestId("import-file-input"), {
+		target: { files: [file] },
+	});
+};
+
+describe("TransactionImport", () => {
+	const mutateAsync = vi.fn();
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		cleanup();
+		mockUseImportTransactions.mockReturnValue({
+			mutateAsync,
+			isPending: false,
+		} as any);
+	});
+
+	it("CSVを選択するとプレビューにエラー行を含めて表示される", async () => {
+		// 実行
+		render(<TransactionImport />);
+		selectCsvFile();
+
+		// 検証
+		expect(
+			await screen.findByText("取り込み可能 2件 / エラー 1件"),
+		).toBeInTheDocument();
+		expect(screen.getAllByTestId("import-preview-row")).toHaveLength(3);
+		expect(screen.getByText("日付を解釈できません: 不明")).toBeInTheDocument();
+	});
+
+	it("重複チェックで有効な行のみを送信し、重複行に印を付ける", async () => {
+		mutateAsync.mockResolvedValue({
+			success: true,
+			data: { totalCount: 2, duplicateIndexes: [1], createdCount: 0 },
+		});
+
+		// 実行
+		render(<TransactionImport />);
+		selectCsvFile();
+		fireEvent.click(await screen.findByText("重複をチェック"));
+
+		// 検証
+		await waitFor(() => {
+			expect(screen.getByText("重複")).toBeInTheDocument();
+		});
+		expect(mutateAsync).toHaveBeenCalledWith({
+			transactions: [
+				{
+					transactionDate: "2024-07-01",
+					amount: 1200,
+					type: "expense",
+					description: "コンビニ",
+				},
+				{
+					transactionDate: "2024-07-02",
+					amount: 3000,
+					type: "expense",
+					description: "書店",
+				},
+			],
+			dryRun: true,
+			skipDuplicates: true,
+		});
+		expect(
+			screen.getByText("2件中1件が登録済みの取引と重複しています"),
+		).toBeInTheDocument();
+	});
+});
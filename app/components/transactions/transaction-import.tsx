@@ -0,0 +1,422 @@
+import { type ChangeEvent, useMemo, useState } from "react";
+import {
+	CSV_IMPORT_PRESETS,
+	type CsvImportPreset,
+} from "../../constants/csv-import-presets";
+import { useImportTransactions } from "../../lib/hooks/use-transactions";
+import { type CsvEncoding, decodeCsv, parseCsv } from "../../utils/csv";
+import {
+	type CsvColumnMapping,
+	type CsvImportOptions,
+	mapCsvRows,
+} from "../../utils/transaction-import";
+
+/**
+ * CSVインポートコンポーネント
+ *
+ * 設計方針:
+ * - ファイル選択 → プリセット・列マッピング → プレビュー → 取り込みの順に1画面で操作
+ * - CSVのデコード・パース・変換はすべてクライアント側で行い、即座にプレビューへ反映
+ * - 重複判定はサーバー側（dryRun）で既存の取引と突き合わせる
+ * - エラーのある行は取り込み対象から除外し、重複行は取り込み時にサーバー側でスキップ
+ */
+
+type EncodingSetting = "auto" | CsvEncoding;
+
+// 列マッピングの設定項目
+const MAPPING_FIELDS: { key: keyof CsvColumnMapping; label: string }[] = [
+	{ key: "date", label: "日付" },
+	{ key: "description", label: "説明" },
+	{ key: "amount", label: "金額" },
+	{ key: "withdrawal", label: "出金額" },
+	{ key: "deposit", label: "入金額" },
+	{ key: "type", label: "収支区分" },
+];
+
+// プレビューに表示する最大行数
+const PREVIEW_LIMIT = 100;
+
+const toOptions = (preset: CsvImportPreset): CsvImportOptions => ({
+	mapping: { ...preset.mapping },
+	hasHeader: preset.hasHeader,
+	skipRows: preset.skipRows,
+	defaultType: preset.defaultType,
+});
+
+export interface TransactionImportProps {
+	/**
+	 * 取り込み完了時のコールバック
+	 */
+	onImported?: (createdCount: number) => void;
+}
+
+export function TransactionImport({ onImported }: TransactionImportProps) {
+	const [fileName, setFileName] = useState<string | null>(null);
+	const [fileBytes, setFileBytes] = useState<Uint8Array | null>(null);
+	const [presetId, setPresetId] = useState(CSV_IMPORT_PRESETS[0].id);
+	const [encodingSetting, setEncodingSetting] =
+		useState<EncodingSetting>("auto");
+	const [options, setOptions] = useState<CsvImportOptions>(() =>
+		toOptions(CSV_IMPORT_PRESETS[0]),
+	);
+	// 重複と判定された行のCSV上の行番号（未チェックの場合はnull）
+	const [duplicateRowNumbers, setDuplicateRowNumbers] =
+		useState<Set<number> | null>(null);
+	const [resultMessage, setResultMessage] = useState<string | null>(null);
+	const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+	const importMutation = useImportTransactions();
+
+	// ファイルのデコード・パース
+	const decoded = useMemo(() => {
+		if (!fileBytes) return null;
+		const { text, encoding } = decodeCsv(
+			fileBytes,
+			encodingSetting === "auto" ? undefined : encodingSetting,
+		);
+		return { encoding, rows: parseCsv(text) };
+	}, [fileBytes, encodingSetting]);
+
+	// 列マッピングに従って取引データに変換
+	const preview = useMemo(
+		() => (decoded ? mapCsvRows(decoded.rows, options) : null),
+		[decoded, options],
+	);
+
+	const validRows =
+		preview?.rows.filter((row) => row.errors.length === 0) ?? [];
+	const errorCount = (preview?.rows.length ?? 0) - validRows.length;
+
+	// 列選択肢（ヘッダーがあれば列名を表示）
+	const columnCount = decoded
+		? Math.max(0, ...decoded.rows.map((row) => row.length))
+		: 0;
+	const columnLabels = Array.from(
+		{ length: columnCount },
+		(_, index) =>
+			`列${index + 1}${preview?.header?.[index] ? `: ${preview.header[index]}` : ""}`,
+	);
+
+	// 条件が変わったら重複判定・結果表示をリセット
+	const resetResult = () => {
+		setDuplicateRowNumbers(null);
+		setResultMessage(null);
+		setErrorMessage(null);
+	};
+
+	const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+		const file = event.target.files?.[0];
+		resetResult();
+		if (!file) {
+			setFileName(null);
+			setFileBytes(null);
+			return;
+		}
+		setFileName(file.name);
+		setFileBytes(new Uint8Array(await file.arrayBuffer()));
+	};
+
+	const handlePresetChange = (id: string) => {
+		const preset = CSV_IMPORT_PRESETS.find((item) => item.id === id);
+		if (!preset) return;
+		setPresetId(id);
+		setOptions(toOptions(preset));
+		setEncodingSetting(preset.encoding ?? "auto");
+		resetResult();
+	};
+
+	const updateOptions = (changes: Partial<CsvImportOptions>) => {
+		setOptions((prev) => ({ ...prev, ...changes }));
+		resetResult();
+	};
+
+	const updateMapping = (key: keyof CsvColumnMapping, value: string) => {
+		updateOptions({
+			mapping: {
+				...options.mapping,
+				[key]: value === "" ? null : Number(value),
+			},
+		});
+	};
+
+	const submit = async (dryRun: boolean) => {
+		setErrorMessage(null);
+		try {
+			const response = await importMutation.mutateAsync({
+				transactions: validRows.map((row) => row.input),
+				dryRun,
+				skipDuplicates: true,
+			});
+			const duplicates = new Set(
+				response.data.duplicateIndexes.map(
+					(index) => validRows[index].rowNumber,
+				),
+			);
+			setDuplicateRowNumbers(duplicates);
+
+			if (dryRun) {
+				setResultMessage(
+					`${validRows.length}件中${duplicates.size}件が登録済みの取引と重複しています`,
+				);
+			} else {
+				setResultMessage(
+					`${response.data.createdCount}件の取引を取り込みました（重複${duplicates.size}件をスキップ）`,
+				);
+				onImported?.(response.data.createdCount);
+			}
+		} catch (error) {
+			setErrorMessage(
+				error instanceof Error ? error.message : "取り込みに失敗しました",
+			);
+		}
+	};
+
+	return (
+		<div className="space-y-6">
+			{/* ファイル・読み込み設定 */}
+			<div className="bg-white rounded-lg shadow-sm border p-6">
+				<h3 className="text-lg font-semibold text-gray-900 mb-4">
+					CSVファイルの読み込み
+				</h3>
+				<div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+					<label className="block text-sm text-gray-700">
+						CSVファイル
+						<input
+							type="file"
+							accept=".csv,text/csv"
+							onChange={handleFileChange}
+							className="mt-1 block w-full text-sm"
+							data-testid="import-file-input"
+						/>
+					</label>
+					<label className="block text-sm text-gray-700">
+						明細の形式
+						<select
+							value={presetId}
+							onChange={(e) => handlePresetChange(e.target.value)}
+							className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+						>
+							{CSV_IMPORT_PRESETS.map((preset) => (
+								<option key={preset.id} value={preset.id}>
+									{preset.name}
+								</option>
+							))}
+						</select>
+					</label>
+					<label className="block text-sm text-gray-700">
+						文字コード
+						<select
+							value={encodingSetting}
+							onChange={(e) => {
+								setEncodingSetting(e.target.value as EncodingSetting);
+								resetResult();
+							}}
+							className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+						>
+							<option value="auto">
+								自動判定{decoded ? `（${decoded.encoding}）` : ""}
+							</option>
+							<option value="utf-8">UTF-8</option>
+							<option value="shift_jis">Shift_JIS</option>
+						</select>
+					</label>
+				</div>
+				{fileName && (
+					<p className="mt-2 text-xs text-gray-500">
+						{fileName}（{decoded?.rows.length ?? 0}行）
+					</p>
+				)}
+			</div>
+
+			{/* 列マッピング */}
+			{decoded && (
+				<div className="bg-white rounded-lg shadow-sm border p-6">
+					<h3 className="text-lg font-semibold text-gray-900 mb-4">
+						列の対応付け
+					</h3>
+					<div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+						{MAPPING_FIELDS.map((field) => (
+							<label key={field.key} className="block text-sm text-gray-700">
+								{field.label}
+								<select
+									value={options.mapping[field.key] ?? ""}
+									onChange={(e) => updateMapping(field.key, e.target.value)}
+									className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+								>
+									<option value="">（使用しない）</option>
+									{columnLabels.map((label, index) => (
+										<option key={label} value={index}>
+											{label}
+										</option>
+									))}
+								</select>
+							</label>
+						))}
+					</div>
+					<div className="mt-4 flex flex-wrap items-center gap-4 text-sm text-gray-700">
+						<label className="flex items-center gap-2">
+							<input
+								type="checkbox"
+								checked={options.hasHeader}
+								onChange={(e) => updateOptions({ hasHeader: e.target.checked })}
+							/>
+							1行目はヘッダー
+						</label>
+						<label className="flex items-center gap-2">
+							先頭の読み飛ばし行数
+							<input
+								type="number"
+								min={0}
+								value={options.skipRows}
+								onChange={(e) =>
+									updateOptions({
+										skipRows: Math.max(0, Number(e.target.value) || 0),
+									})
+								}
+								className="w-16 border border-gray-300 rounded-md px-2 py-1"
+							/>
+						</label>
+						<label className="flex items-center gap-2">
+							種別の既定値
+							<select
+								value={options.defaultType}
+								onChange={(e) =>
+									updateOptions({
+										defaultType: e.target
+											.value as CsvImportOptions["defaultType"],
+									})
+								}
+								className="border border-gray-300 rounded-md px-2 py-1"
+							>
+								<option value="expense">支出</option>
+								<option value="income">収入</option>
+							</select>
+						</label>
+					</div>
+				</div>
+			)}
+
+			{/* プレビュー */}
+			{preview && (
+				<div className="bg-white rounded-lg shadow-sm border">
+					<div className="px-6 py-4 border-b border-gray-200 flex flex-wrap items-center justify-between gap-3">
+						<div>
+							<h3 className="text-lg font-semibold text-gray-900">
+								プレビュー
+							</h3>
+							<p className="text-sm text-gray-600">
+								取り込み可能 {validRows.length}件 / エラー {errorCount}件
+							</p>
+						</div>
+						<div className="flex gap-3">
+							<button
+								type="button"
+								onClick={() => submit(true)}
+								disabled={validRows.length === 0 || importMutation.isPending}
+								className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+							>
+								重複をチェック
+							</button>
+							<button
+								type="button"
+								onClick={() => submit(false)}
+								disabled={validRows.length === 0 || importMutation.isPending}
+								className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+							>
+								{validRows.length}件を取り込む
+							</button>
+						</div>
+					</div>
+
+					{resultMessage && (
+						<p className="px-6 py-3 text-sm text-green-700 bg-green-50">
+							{resultMessage}
+						</p>
+					)}
+					{errorMessage && (
+						<p
+							className="px-6 py-3 text-sm text-red-700 bg-red-50"
+							role="alert"
+						>
+							{errorMessage}
+						</p>
+					)}
+
+					<div className="overflow-x-auto">
+						<table className="min-w-full divide-y divide-gray-200 text-sm">
+							<thead className="bg-gray-50">
+								<tr>
+									<th className="px-4 py-2 text-left font-medium text-gray-500">
+										行
+									</th>
+									<th className="px-4 py-2 text-left font-medium text-gray-500">
+										日付
+									</th>
+									<th className="px-4 py-2 text-left font-medium text-gray-500">
+										説明
+									</th>
+									<th className="px-4 py-2 text-right font-medium text-gray-500">
+										金額
+									</th>
+									<th className="px-4 py-2 text-left font-medium text-gray-500">
+										状態
+									</th>
+								</tr>
+							</thead>
+							<tbody className="divide-y divide-gray-200">
+								{preview.rows.slice(0, PREVIEW_LIMIT).map((row) => {
+									const isDuplicate =
+										duplicateRowNumbers?.has(row.rowNumber) ?? false;
+									return (
+										<tr
+											key={row.rowNumber}
+											data-testid="import-preview-row"
+											className={
+												row.errors.length > 0
+													? "bg-red-50"
+													: isDuplicate
+														? "bg-yellow-50"
+														: undefined
+											}
+										>
+											<td className="px-4 py-2 text-gray-500">
+												{row.rowNumber}
+											</td>
+											<td className="px-4 py-2">{row.input.transactionDate}</td>
+											<td className="px-4 py-2">
+												{row.input.description ?? "-"}
+											</td>
+											<td
+												className={`px-4 py-2 text-right ${row.input.type === "income" ? "text-green-600" : "text-red-600"}`}
+											>
+												{row.input.type === "income" ? "+" : "-"}¥
+												{row.input.amount.toLocaleString()}
+											</td>
+											<td className="px-4 py-2">
+												{row.errors.length > 0 ? (
+													<span className="text-red-600">
+														{row.errors.join(" / ")}
+													</span>
+												) : isDuplicate ? (
+													<span className="text-yellow-700">重複</span>
+												) : (
+													<span className="text-gray-500">OK</span>
+												)}
+											</td>
+										</tr>
+									);
+								})}
+							</tbody>
+						</table>
+					</div>
+					{preview.rows.length > PREVIEW_LIMIT && (
+						<p className="px-6 py-3 text-xs text-gray-500">
+							先頭{PREVIEW_LIMIT}行のみ表示しています（全{preview.rows.length}
+							行）
+						</p>
+					)}
+				</div>
+			)}
+		</div>
+	);
+}
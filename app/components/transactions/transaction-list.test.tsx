@@ -0,0 +1,238 @@
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { AppProvider } from "../../contexts/app-context";
+import { useCategoryOptions } from "../../lib/hooks/use-categories";
+import { useTransactions } from "../../lib/hooks/use-transactions";
+import { TransactionList } from "./transaction-list";
+
+/**
+ * TransactionList コンポーネントのテスト
+ *
+ * テスト方針:
+ * - 取得した取引とページ情報が表示されることを検証
+ * - ソート・ページ移動・絞り込み操作がAppContext経由で検索条件に反映されることを検証
+ * - データ取得はuseTransactionsをモックし、渡された検索条件を確認する
+ * - 絞り込みのカテゴリの選択肢はuseCategoryOptionsをモックする
+ */
+
+vi.mock("../../lib/hooks/use-transactions", () => ({
+	useTransactions: vi.fn(),
+}));
+
+vi.mock("../../lib/hooks/use-categories", () => ({
+	useCategoryOptions: vi.fn(),
+}));
+
+const mockUseTransactions = vi.mocked(useTransactions);
+const mockUseCategoryOptions = vi.mocked(useCategoryOptions);
+
+const mockResponse = {
+	success: true,
+	data: [
+		{
+			id: 1,
+			amount: 1500,
+			type: "expense",
+			categoryId: 1,
+			description: "ランチ",
+			transactionDate: "2025-07-01",
+			paymentMethod: null,
+			tags: ["外食"],
+			receiptUrl: null,
+			isRecurring: false,
+			recurringId: null,
+			createdAt: "2025-07-01T12:00:00Z",
+			updatedAt: "2025-07-01T12:00:00Z",
+			category: {
+				id: 1,
+				name: "食費",
+				type: "expense",
+				color: "#FF6B6B",
+				icon: "utensils",
+			},
+		},
+	],
+	pagination: {
+		currentPage: 1,
+		totalPages: 3,
+		totalCount: 41,
+		hasNextPage: true,
+		hasPrevPage: false,
+		limit: 20,
+	},
+};
+
+// 最後にuseTransactionsへ渡された検索条件を取得
+const lastParams = () => mockUseTransactions.mock.calls.at(-1)?.[0];
+
+const renderList = () =>
+	render(
+		<AppProvider>
+			<TransactionList />
+		</AppProvider>,
+	);
+
+describe("TransactionList", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		cleanup();
+		mockUseTransactions.mockReturnValue({
+			data: mockResponse,
+			isLoading: false,
+			isFetching: false,
+			error: null,
+		} as any);
+		mockUseCategoryOptions.mockReturnValue({
+			categories: [{ id: 1, name: "食費", type: "expense", isActive: true }],
+			isFallback: false,
+			isLoading: false,
+		});
+	});
+
+	it("取引とページ情報が表示される", () => {
+		// 実行
+		renderList();
+
+		// 検証
+		expect(screen.getByText("ランチ")).toBeInTheDocument();
+		expect(screen.getByText("外食")).toBeInTheDocument();
+		expect(screen.getByText("-¥1,500")).toBeInTheDocument();
+		expect(screen.getByText("1 / 3")).toBeInTheDocument();
+		expect(lastParams()).toMatchObject({
+			sortBy: "transactionDate",
+			sortOrder: "desc",
+			page: 1,
+			limit: 20,
+		});
+	});
+
+	it("分割した取引は内訳のカテゴリを並べて表示する", () => {
+		mockUseTransactions.mockReturnValue({
+			data: {
+				...mockResponse,
+				data: [
+					{
+						...mockResponse.data[0],
+						categoryId: null,
+						category: null,
+						splits: [
+							{
+								id: 1,
+								transactionId: 1,
+								categoryId: 1,
+								amount: 1000,
+								memo: null,
+								category: mockResponse.data[0].category,
+							},
+							{
+								id: 2,
+								transactionId: 1,
+								categoryId: 7,
+								amount: 500,
+								memo: "洗剤",
+								category: {
+									id: 7,
+									name: "日用品",
+									type: "expense",
+									color: null,
+									icon: null,
+								},
+							},
+						],
+					},
+				],
+			},
+			isLoading: false,
+			isFetching: false,
+			error: null,
+		} as any);
+
+		// 実行
+		renderList();
+
+		// 検証
+		const splits = screen.getByTestId("transaction-splits");
+		expect(splits).toHaveTextContent("食費");
+		expect(splits).toHaveTextContent("日用品");
+		expect(screen.getByTitle("¥500（洗剤）")).toBeInTheDocument();
+		expect(screen.queryByText("未分類")).not.toBeInTheDocument();
+	});
+
+	it("次へボタンで次のページを取得する", () => {
+		renderList();
+
+		// 実行
+		fireEvent.click(screen.getByRole("button", { name: "次へ" }));
+
+		// 検証
+		expect(lastParams()).toMatchObject({ page: 2 });
+	});
+
+	it("金額列のクリックでソート条件が切り替わる", () => {
+		renderList();
+
+		// 実行: 初回は降順、2回目で昇順
+		fireEvent.click(screen.getByRole("button", { name: "金額" }));
+		expect(lastParams()).toMatchObject({ sortBy: "amount", sortOrder: "desc" });
+
+		fireEvent.click(screen.getByRole("button", { name: /金額/ }));
+
+		// 検証
+		expect(lastParams()).toMatchObject({ sortBy: "amount", sortOrder: "asc" });
+	});
+
+	it("絞り込み条件を送信するとページが先頭に戻り条件が反映される", () => {
+		renderList();
+		fireEvent.click(screen.getByRole("button", { name: "次へ" }));
+
+		// 実行
+		fireEvent.change(screen.getByLabelText("キーワード"), {
+			target: { value: " ランチ " },
+		});
+		fireEvent.change(screen.getByLabelText("タグ"), {
+			target: { value: "外食, 平日" },
+		});
+		fireEvent.change(screen.getByLabelText("最小金額"), {
+			target: { value: "1000" },
+		});
+		fireEvent.click(screen.getByRole("button", { name: "絞り込む" }));
+
+		// 検証
+		expect(lastParams()).toMatchObject({
+			search: "ランチ",
+			tags: ["外食", "平日"],
+			minAmount: 1000,
+			page: 1,
+		});
+	});
+
+	it("CSVエクスポートのリンクに適用中の条件と文字コードが反映される", () => {
+		renderList();
+
+		// 実行
+		fireEvent.change(screen.getByLabelText("種別"), {
+			target: { value: "expense" },
+		});
+		fireEvent.change(screen.getByLabelText("タグ"), {
+			target: { value: "外食, 平日" },
+		});
+		fireEvent.click(screen.getByRole("button", { name: "絞り込む" }));
+		fireEvent.change(screen.getByLabelText("CSVの文字コード"), {
+			target: { value: "shift_jis" },
+		});
+
+		// 検証
+		const href = screen
+			.getByRole("link", { name: "CSVエクスポート" })
+			.getAttribute("href");
+		const url = new URL(href ?? "", "http://localhost");
+		expect(url.pathname).toBe("/api/transactions/export");
+		expect(Object.fromEntries(url.searchParams)).toEqual({
+			type: "expense",
+			tags: "外食,平日",
+			sortBy: "transactionDate",
+			sortOrder: "desc",
+			encoding: "shift_jis",
+		});
+	});
+});
@@ -0,0 +1,568 @@
+import { type FormEvent, useEffect, useState } from "react";
+import {
+	type AppState,
+	useTransactionFilterActions,
+	useTransactionFilterState,
+} from "../../contexts/app-context";
+import { apiServices } from "../../lib/api/services";
+import { useCategoryOptions } from "../../lib/hooks/use-categories";
+import { useTransactions } from "../../lib/hooks/use-transactions";
+import type { CsvEncoding } from "../../utils/csv";
+
+/**
+ * 取引一覧テーブルコンポーネント
+ *
+ * 設計方針:
+ * - フィルタ・ソート・ページ位置はAppContextで保持し、画面遷移後も条件を維持
+ * - 絞り込み・並び替え・ページングはすべてサーバー側（GET /api/transactions）で処理
+ * - テキスト入力系の条件はフォーム送信時にまとめて反映し、入力毎のリクエストを防ぐ
+ * - 選択系の条件（種別・カテゴリ）は変更時に即座に反映
+ * - CSVエクスポートは適用中のフィルタ・ソート条件で全件を出力（ページングは無視）
+ */
+
+type TransactionFilters = AppState["transactionFilters"];
+type SortKey = AppState["transactionSort"]["sortBy"];
+
+// テキスト入力で編集するフィルタ条件（送信時に反映）
+interface FilterDraft {
+	startDate: string;
+	endDate: string;
+	search: string;
+	tags: string;
+	minAmount: string;
+	maxAmount: string;
+}
+
+const toDraft = (filters: TransactionFilters): FilterDraft => ({
+	startDate: filters.startDate ?? "",
+	endDate: filters.endDate ?? "",
+	search: filters.search ?? "",
+	tags: filters.tags?.join(", ") ?? "",
+	minAmount: filters.minAmount?.toString() ?? "",
+	maxAmount: filters.maxAmount?.toString() ?? "",
+});
+
+// 空文字を未指定として扱いつつ数値に変換
+const toOptionalNumber = (value: string): number | undefined => {
+	if (value.trim() === "") return undefined;
+	const num = Number(value);
+	return Number.isFinite(num) ? num : undefined;
+};
+
+// 振替は収入・支出ではないため符号を付けない
+const formatAmount = (amount: number, type: string): string => {
+	if (type === "transfer") return `¥${amount.toLocaleString()}`;
+	return `${type === "income" ? "+" : "-"}¥${amount.toLocaleString()}`;
+};
+
+const AMOUNT_CLASS_NAMES: Record<string, string> = {
+	income: "text-green-600",
+	expense: "text-red-600",
+	transfer: "text-blue-600",
+};
+
+export function TransactionList() {
+	const { transactionFilters, transactionSort, pagination } =
+		useTransactionFilterState();
+	const {
+		updateTransactionFilters,
+		clearTransactionFilters,
+		updateTransactionSort,
+		updatePagination,
+	} = useTransactionFilterActions();
+
+	const [draft, setDraft] = useState<FilterDraft>(() =>
+		toDraft(transactionFilters),
+	);
+	const [exportEncoding, setExportEncoding] = useState<CsvEncoding>("utf-8");
+
+	// 外部（クリア操作など）でフィルタが変わった場合は入力欄を同期
+	useEffect(() => {
+		setDraft(toDraft(transactionFilters));
+	}, [transactionFilters]);
+
+	const { data, isLoading, isFetching, error } = useTransactions(
+		{
+			...transactionFilters,
+			...transactionSort,
+			page: pagination.page,
+			limit: pagination.limit,
+		},
+		{
+			// クライアント側でのみ実行されるようにする（SSR時の問題を回避）
+			enabled: typeof window !== "undefined",
+		},
+	);
+
+	const transactions = data?.data ?? [];
+	const pageInfo = data?.pagination;
+
+	// 種別に応じて選択可能なカテゴリを切り替え（振替はカテゴリなし）
+	const { categories } = useCategoryOptions(
+		transactionFilters.type === "income" ||
+			transactionFilters.type === "expense"
+			? transactionFilters.type
+			: undefined,
+	);
+	const categoryOptions =
+		transactionFilters.type === "transfer" ? [] : categories;
+
+	const handleDraftChange = (field: keyof FilterDraft, value: string) => {
+		setDraft((prev) => ({ ...prev, [field]: value }));
+	};
+
+	const handleFilterSubmit = (e: FormEvent<HTMLFormElement>) => {
+		e.preventDefault();
+		const tags = draft.tags
+			.split(",")
+			.map((tag) => tag.trim())
+			.filter((tag) => tag.length > 0);
+
+		updateTransactionFilters({
+			startDate: draft.startDate || undefined,
+			endDate: draft.endDate || undefined,
+			search: draft.search.trim() || undefined,
+			tags: tags.length > 0 ? tags : undefined,
+			minAmount: toOptionalNumber(draft.minAmount),
+			maxAmount: toOptionalNumber(draft.maxAmount),
+		});
+	};
+
+	const handleTypeChange = (value: string) => {
+		updateTransactionFilters({
+			type:
+				value === "income" || value === "expense" || value === "transfer"
+					? value
+					: undefined,
+			// 種別が変わるとカテゴリの選択肢も変わるため解除
+			categoryId: undefined,
+		});
+	};
+
+	const handleCategoryChange = (value: string) => {
+		updateTransactionFilters({
+			categoryId: value ? Number(value) : undefined,
+		});
+	};
+
+	// 同じ列をクリックした場合は昇順・降順を切り替え
+	const handleSort = (sortBy: SortKey) => {
+		if (transactionSort.sortBy === sortBy) {
+			updateTransactionSort({
+				sortOrder: transactionSort.sortOrder === "asc" ? "desc" : "asc",
+			});
+		} else {
+			updateTransactionSort({ sortBy, sortOrder: "desc" });
+		}
+	};
+
+	const sortIndicator = (sortBy: SortKey) => {
+		if (transactionSort.sortBy !== sortBy) return "";
+		return transactionSort.sortOrder === "asc" ? " ▲" : " ▼";
+	};
+
+	const ariaSort = (sortBy: SortKey) => {
+		if (transactionSort.sortBy !== sortBy) return "none" as const;
+		return transactionSort.sortOrder === "asc"
+			? ("ascending" as const)
+			: ("descending" as const);
+	};
+
+	const inputClassName =
+		"w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+	return (
+		<div className="bg-white rounded-lg shadow-sm border">
+			{/* フィルターバー */}
+			<form
+				onSubmit={handleFilterSubmit}
+				className="p-4 border-b border-gray-200 space-y-4"
+				aria-label="取引の絞り込み"
+			>
+				<div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+					<div>
+						<label
+							htmlFor="filter-type"
+							className="block text-xs font-medium text-gray-700 mb-1"
+						>
+							種別
+						</label>
+						<select
+							id="filter-type"
+							value={transactionFilters.type ?? ""}
+							onChange={(e) => handleTypeChange(e.target.value)}
+							className={inputClassName}
+						>
+							<option value="">すべて</option>
+							<option value="income">収入</option>
+							<option value="expense">支出</option>
+							<option value="transfer">振替</option>
+						</select>
+					</div>
+					<div>
+						<label
+							htmlFor="filter-category"
+							className="block text-xs font-medium text-gray-700 mb-1"
+						>
+							カテゴリ
+						</label>
+						<select
+							id="filter-category"
+							value={transactionFilters.categoryId?.toString() ?? ""}
+							onChange={(e) => handleCategoryChange(e.target.value)}
+							className={inputClassName}
+						>
+							<option value="">すべて</option>
+							{categoryOptions.map((category) => (
+								<option key={category.id} value={category.id}>
+									{category.name}
+								</option>
+							))}
+						</select>
+					</div>
+					<div>
+						<label
+							htmlFor="filter-start-date"
+							className="block text-xs font-medium text-gray-700 mb-1"
+						>
+							開始日
+						</label>
+						<input
+							id="filter-start-date"
+							type="date"
+							value={draft.startDate}
+							onChange={(e) => handleDraftChange("startDate", e.target.value)}
+							className={inputClassName}
+						/>
+					</div>
+					<div>
+						<label
+							htmlFor="filter-end-date"
+							className="block text-xs font-medium text-gray-700 mb-1"
+						>
+							終了日
+						</label>
+						<input
+							id="filter-end-date"
+							type="date"
+							value={draft.endDate}
+							onChange={(e) => handleDraftChange("endDate", e.target.value)}
+							className={inputClassName}
+						/>
+					</div>
+					<div>
+						<label
+							htmlFor="filter-search"
+							className="block text-xs font-medium text-gray-700 mb-1"
+						>
+							キーワード
+						</label>
+						<input
+							id="filter-search"
+							type="search"
+							value={draft.search}
+							onChange={(e) => handleDraftChange("search", e.target.value)}
+							placeholder="説明文で検索"
+							className={inputClassName}
+						/>
+					</div>
+					<div>
+						<label
+							htmlFor="filter-tags"
+							className="block text-xs font-medium text-gray-700 mb-1"
+						>
+							タグ
+						</label>
+						<input
+							id="filter-tags"
+							type="text"
+							value={draft.tags}
+							onChange={(e) => handleDraftChange("tags", e.target.value)}
+							placeholder="カンマ区切り"
+							className={inputClassName}
+						/>
+					</div>
+					<div>
+						<label
+							htmlFor="filter-min-amount"
+							className="block text-xs font-medium text-gray-700 mb-1"
+						>
+							最小金額
+						</label>
+						<input
+							id="filter-min-amount"
+							type="number"
+							min="0"
+							value={draft.minAmount}
+							onChange={(e) => handleDraftChange("minAmount", e.target.value)}
+							className={inputClassName}
+						/>
+					</div>
+					<div>
+						<label
+							htmlFor="filter-max-amount"
+							className="block text-xs font-medium text-gray-700 mb-1"
+						>
+							最大金額
+						</label>
+						<input
+							id="filter-max-amount"
+							type="number"
+							min="0"
+							value={draft.maxAmount}
+							onChange={(e) => handleDraftChange("maxAmount", e.target.value)}
+							className={inputClassName}
+						/>
+					</div>
+				</div>
+				<div className="flex flex-wrap items-center justify-between gap-3">
+					{/* CSVエクスポート（適用中の条件で出力） */}
+					<div className="flex items-center gap-2">
+						<label htmlFor="export-encoding" className="sr-only">
+							CSVの文字コード
+						</label>
+						<select
+							id="export-encoding"
+							value={exportEncoding}
+							onChange={(e) => setExportEncoding(e.target.value as CsvEncoding)}
+							className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+						>
+							<option value="utf-8">UTF-8（Excel用BOM付き）</option>
+							<option value="shift_jis">Shift_JIS</option>
+						</select>
+						<a
+							href={apiServices.transactions.getTransactionsExportUrl(
+								{ ...transactionFilters, ...transactionSort },
+								exportEncoding,
+							)}
+							download
+							className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+						>
+							CSVエクスポート
+						</a>
+					</div>
+					<div className="flex gap-3">
+						<button
+							type="button"
+							onClick={clearTransactionFilters}
+							className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+						>
+							クリア
+						</button>
+						<button
+							type="submit"
+							className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+						>
+							絞り込む
+						</button>
+					</div>
+				</div>
+			</form>
+
+			{/* エラー表示 */}
+			{error && (
+				<div
+					className="m-4 bg-red-50 border border-red-200 rounded-lg p-4"
+					role="alert"
+				>
+					<p className="text-sm font-medium text-red-800">
+						取引データの取得に失敗しました
+					</p>
+					<p className="text-sm text-red-700 mt-1">
+						{error.message || "不明なエラーが発生しました"}
+					</p>
+				</div>
+			)}
+
+			{/* 取引テーブル */}
+			<div className="overflow-x-auto">
+				<table className="min-w-full divide-y divide-gray-200">
+					<thead className="bg-gray-50">
+						<tr>
+							<th
+								scope="col"
+								aria-sort={ariaSort("transactionDate")}
+								className="px-4 py-3 text-left text-xs font-medium text-gray-500"
+							>
+								<button
+									type="button"
+									onClick={() => handleSort("transactionDate")}
+									className="hover:text-gray-900"
+								>
+									日付{sortIndicator("transactionDate")}
+								</button>
+							</th>
+							<th
+								scope="col"
+								className="px-4 py-3 text-left text-xs font-medium text-gray-500"
+							>
+								カテゴリ
+							</th>
+							<th
+								scope="col"
+								className="px-4 py-3 text-left text-xs font-medium text-gray-500"
+							>
+								説明
+							</th>
+							<th
+								scope="col"
+								className="px-4 py-3 text-left text-xs font-medium text-gray-500"
+							>
+								タグ
+							</th>
+							<th
+								scope="col"
+								aria-sort={ariaSort("amount")}
+								className="px-4 py-3 text-right text-xs font-medium text-gray-500"
+							>
+								<button
+									type="button"
+									onClick={() => handleSort("amount")}
+									className="hover:text-gray-900"
+								>
+									金額{sortIndicator("amount")}
+								</button>
+							</th>
+						</tr>
+					</thead>
+					<tbody
+						className={`bg-white divide-y divide-gray-200 ${isFetching && !isLoading ? "opacity-60" : ""}`}
+					>
+						{isLoading ? (
+							<tr>
+								<td
+									colSpan={5}
+									className="px-4 py-8 text-center text-sm text-gray-500"
+								>
+									読み込み中...
+								</td>
+							</tr>
+						) : transactions.length === 0 ? (
+							<tr>
+								<td
+									colSpan={5}
+									className="px-4 py-8 text-center text-sm text-gray-500"
+								>
+									条件に一致する取引がありません
+								</td>
+							</tr>
+						) : (
+							transactions.map((transaction) => (
+								<tr key={transaction.id} className="hover:bg-gray-50">
+									<td className="px-4 py-3 text-sm text-gray-900 whitespace-nowrap">
+										{transaction.transactionDate}
+									</td>
+									<td className="px-4 py-3 text-sm text-gray-700 whitespace-nowrap">
+										{transaction.type === "transfer" ? (
+											<span className="text-blue-700">
+												振替: {transaction.account?.name ?? "-"} →{" "}
+												{transaction.transferAccount?.name ?? "-"}
+											</span>
+										) : transaction.splits && transaction.splits.length > 0 ? (
+											<span
+												className="inline-flex flex-wrap items-center gap-x-3 gap-y-1"
+												data-testid="transaction-splits"
+											>
+												{transaction.splits.map((split) => (
+													<span
+														key={split.id}
+														className="inline-flex items-center gap-1"
+														title={`¥${split.amount.toLocaleString()}${split.memo ? `（${split.memo}）` : ""}`}
+													>
+														<span
+															className="w-2 h-2 rounded-full"
+															style={{
+																backgroundColor:
+																	split.category?.color ?? "#9CA3AF",
+															}}
+														/>
+														{split.category?.name ?? "未分類"}
+													</span>
+												))}
+											</span>
+										) : transaction.category ? (
+											<span className="inline-flex items-center gap-2">
+												<span
+													className="w-2 h-2 rounded-full"
+													style={{
+														backgroundColor:
+															transaction.category.color ?? "#9CA3AF",
+													}}
+												/>
+												{transaction.category.name}
+											</span>
+										) : (
+											<span className="text-gray-400">未分類</span>
+										)}
+									</td>
+									<td className="px-4 py-3 text-sm text-gray-700">
+										{transaction.description || "-"}
+									</td>
+									<td className="px-4 py-3 text-sm text-gray-700">
+										<div className="flex flex-wrap gap-1">
+											{(transaction.tags ?? []).map((tag) => (
+												<span
+													key={tag}
+													className="px-2 py-0.5 text-xs bg-gray-100 text-gray-700 rounded"
+												>
+													{tag}
+												</span>
+											))}
+										</div>
+									</td>
+									<td
+										className={`px-4 py-3 text-sm font-medium text-right whitespace-nowrap ${
+											AMOUNT_CLASS_NAMES[transaction.type] ?? "text-red-600"
+										}`}
+									>
+										{formatAmount(transaction.amount, transaction.type)}
+									</td>
+								</tr>
+							))
+						)}
+					</tbody>
+				</table>
+			</div>
+
+			{/* ページネーション */}
+			{pageInfo && pageInfo.totalCount > 0 && (
+				<nav
+					className="flex items-center justify-between px-4 py-3 border-t border-gray-200"
+					aria-label="ページネーション"
+				>
+					<p className="text-sm text-gray-600">
+						全{pageInfo.totalCount}件中{" "}
+						{(pageInfo.currentPage - 1) * pageInfo.limit + 1}〜
+						{(pageInfo.currentPage - 1) * pageInfo.limit + transactions.length}
+						件を表示
+					</p>
+					<div className="flex items-center gap-2">
+						<button
+							type="button"
+							onClick={() =>
+								updatePagination({ page: pageInfo.currentPage - 1 })
+							}
+							disabled={!pageInfo.hasPrevPage}
+							className="px-3 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+						>
+							前へ
+						</button>
+						<span className="text-sm text-gray-700">
+							{pageInfo.currentPage} / {pageInfo.totalPages}
+						</span>
+						<button
+							type="button"
+							onClick={() =>
+								updatePagination({ page: pageInfo.currentPage + 1 })
+							}
+							disabled={!pageInfo.hasNextPage}
+							className="px-3 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+						>
+							次へ
+						</button>
+					</div>
+				</nav>
+			)}
+		</div>
+	);
+}
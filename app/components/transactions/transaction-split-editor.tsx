@@ -0,0 +1,150 @@
+import { MAX_SPLIT_LINES, type SelectCategory } from "../../../db/schema";
+
+/**
+ * 取引の内訳（複数カテゴリへの分割）エディタ
+ *
+ * 設計方針:
+ * - 1枚のレシートを「食費」「日用品」のように複数のカテゴリへ振り分けるための入力欄
+ * - 入力中の値は文字列のまま親コンポーネント（TransactionFormModal）が保持し、送信時に数値へ変換する
+ * - 取引の金額に対する残り（未配分）の金額を常に表示し、合計の不一致に気付けるようにする
+ * - 分割は2行以上を前提とするため、2行未満になる削除はできないようにする
+ */
+
+/**
+ * 入力中の内訳行
+ */
+export interface SplitLineInput {
+	categoryId: string;
+	amount: string;
+	memo: string;
+}
+
+export const createEmptySplitLine = (): SplitLineInput => ({
+	categoryId: "",
+	amount: "",
+	memo: "",
+});
+
+/**
+ * 入力中の内訳行の金額の合計（未入力の行は0として数える）
+ */
+export function getSplitLinesTotal(lines: SplitLineInput[]): number {
+	return lines.reduce(
+		(sum, line) => sum + (Number.parseInt(line.amount, 10) || 0),
+		0,
+	);
+}
+
+interface TransactionSplitEditorProps {
+	/** 入力中の内訳行 */
+	lines: SplitLineInput[];
+	/** 内訳行の変更時のコールバック */
+	onChange: (lines: SplitLineInput[]) => void;
+	/** 取引の金額（未入力の場合はnull） */
+	totalAmount: number | null;
+	/** 取引タイプに応じたカテゴリの選択肢 */
+	categoryOptions: Partial<SelectCategory>[];
+}
+
+export function TransactionSplitEditor({
+	lines,
+	onChange,
+	totalAmount,
+	categoryOptions,
+}: TransactionSplitEditorProps) {
+	const remaining = (totalAmount ?? 0) - getSplitLinesTotal(lines);
+
+	const updateLine = (index: number, changes: Partial<SplitLineInput>) => {
+		onChange(
+			lines.map((line, i) => (i === index ? { ...line, ...changes } : line)),
+		);
+	};
+
+	return (
+		<fieldset className="space-y-3">
+			<legend className="block text-sm font-medium text-gray-700 mb-2">
+				内訳
+			</legend>
+
+			{lines.map((line, index) => {
+				const lineNumber = index + 1;
+				return (
+					<div
+						// biome-ignore lint/suspicious/noArrayIndexKey: 行は並び替えがなく、入力値は親が保持する
+						key={index}
+						className="grid grid-cols-12 gap-2 items-center"
+						data-testid="split-line"
+					>
+						<select
+							value={line.categoryId}
+							onChange={(e) =>
+								updateLine(index, { categoryId: e.target.value })
+							}
+							aria-label={`内訳${lineNumber}のカテゴリ`}
+							className="col-span-4 border-gray-300 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500"
+						>
+							<option value="">カテゴリ</option>
+							{categoryOptions.map((category) => (
+								<option key={category.id} value={category.id}>
+									{category.name}
+								</option>
+							))}
+						</select>
+						<input
+							type="text"
+							inputMode="numeric"
+							value={line.amount}
+							onChange={(e) =>
+								updateLine(index, {
+									amount: e.target.value.replace(/[^0-9]/g, ""),
+								})
+							}
+							aria-label={`内訳${lineNumber}の金額`}
+							placeholder="0"
+							className="col-span-3 border-gray-300 rounded-md text-sm text-right focus:ring-blue-500 focus:border-blue-500"
+						/>
+						<input
+							type="text"
+							value={line.memo}
+							onChange={(e) => updateLine(index, { memo: e.target.value })}
+							aria-label={`内訳${lineNumber}のメモ`}
+							placeholder="メモ"
+							maxLength={200}
+							className="col-span-4 border-gray-300 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500"
+						/>
+						<button
+							type="button"
+							onClick={() => onChange(lines.filter((_, i) => i !== index))}
+							disabled={lines.length <= 2}
+							aria-label={`内訳${lineNumber}を削除`}
+							className="col-span-1 text-gray-400 hover:text-red-600 disabled:opacity-30 disabled:cursor-not-allowed"
+						>
+							×
+						</button>
+					</div>
+				);
+			})}
+
+			<div className="flex items-center justify-between">
+				<button
+					type="button"
+					onClick={() => onChange([...lines, createEmptySplitLine()])}
+					disabled={lines.length >= MAX_SPLIT_LINES}
+					className="text-sm text-blue-600 hover:text-blue-800 font-medium disabled:opacity-50"
+				>
+					行を追加
+				</button>
+				<p
+					className={`text-sm ${remaining === 0 ? "text-green-600" : "text-red-600"}`}
+					data-testid="split-remaining"
+				>
+					{remaining === 0
+						? "合計が金額と一致しています"
+						: remaining > 0
+							? `残り ${remaining.toLocaleString()}円`
+							: `${Math.abs(remaining).toLocaleString()}円 超過しています`}
+				</p>
+			</div>
+		</fieldset>
+	);
+}
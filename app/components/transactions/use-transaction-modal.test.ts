@@ -7,7 +7,7 @@ import { useTransactionModal } from "./use-transaction-modal";
  *
  * テスト方針:
  * - モーダル開閉の状態管理が正常に動作することを検証
- * - 取引タイプ（収入・支出）の切り替えが正常に動作することを検証
+ * - 取引タイプ（収入・支出・振替）の切り替えが正常に動作することを検証
  * - モーダルクローズ時の状態リセットが正常に動作することを検証
  */
 
@@ -41,6 +41,17 @@ describe("useTransactionModal", () => {
 		expect(result.current.transactionType).toBe("expense");
 	});
 
+	it("振替モーダルが正常に開く", () => {
+		const { result } = renderHook(() => useTransactionModal());
+
+		act(() => {
+			result.current.openTransferModal();
+		});
+
+		expect(result.current.isOpen).toBe(true);
+		expect(result.current.transactionType).toBe("transfer");
+	});
+
 	it("モーダルが正常に閉じ、状態がリセットされる", () => {
 		const { result } = renderHook(() => useTransactionModal());
 
@@ -5,7 +5,7 @@ import { useState } from "react";
  *
  * 設計方針:
  * - モーダルの開閉状態を管理
- * - 取引タイプ（収入・支出）の状態を管理
+ * - 取引タイプ（収入・支出・振替）の状態を管理
  * - フォームリセット機能を提供
  * - シンプルで再利用可能なAPI設計
  *
@@ -15,17 +15,19 @@ import { useState } from "react";
  * ```
  */
 
-export type TransactionType = "income" | "expense";
+export type TransactionType = "income" | "expense" | "transfer";
 
 interface UseTransactionModalReturn {
 	/** モーダルの表示状態 */
 	isOpen: boolean;
-	/** 取引タイプ（収入・支出） */
+	/** 取引タイプ（収入・支出・振替） */
 	transactionType: TransactionType | null;
 	/** 収入登録モーダルを開く */
 	openIncomeModal: () => void;
 	/** 支出登録モーダルを開く */
 	openExpenseModal: () => void;
+	/** 口座間の振替モーダルを開く */
+	openTransferModal: () => void;
 	/** モーダルを閉じる */
 	closeModal: () => void;
 }
@@ -48,6 +50,11 @@ export function useTransactionModal(): UseTransactionModalReturn {
 		setIsOpen(true);
 	};
 
+	const openTransferModal = () => {
+		setTransactionType("transfer");
+		setIsOpen(true);
+	};
+
 	const closeModal = () => {
 		setIsOpen(false);
 		// モーダルを閉じる際に状態をリセット
@@ -60,6 +67,7 @@ export function useTransactionModal(): UseTransactionModalReturn {
 		transactionType,
 		openIncomeModal,
 		openExpenseModal,
+		openTransferModal,
 		closeModal,
 	};
 }
@@ -0,0 +1,16 @@
+import type { AccountType } from "../../db/schema";
+
+/**
+ * 口座種別の表示名
+ *
+ * 設計意図:
+ * - DBにはACCOUNT_TYPESの英字キーを保存し、画面では日本語の表示名に変換する
+ * - 口座の追加フォーム・ダッシュボードの残高一覧で表記を揃えるため定数として共有
+ */
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+	bank: "銀行",
+	cash: "現金",
+	credit_card: "クレジットカード",
+	e_money: "電子マネー",
+	securities: "証券",
+};
@@ -0,0 +1,85 @@
+import type { CsvEncoding } from "../utils/csv";
+import {
+	type CsvImportOptions,
+	EMPTY_COLUMN_MAPPING,
+} from "../utils/transaction-import";
+
+/**
+ * CSVインポートのプリセット（国内の銀行・カード明細のレイアウト）
+ *
+ * 設計意図:
+ * - 毎回の列マッピングの手間を省くため、よく使われる明細CSVの列配置を定義
+ * - 列番号は各社のWeb明細からダウンロードしたCSVの列順に準拠（0始まり）
+ * - レイアウト変更に備え、選択後も画面上でマッピングを修正できる前提とする
+ * - encodingは各社の既定値。未指定の場合は自動判定に任せる
+ */
+export interface CsvImportPreset extends CsvImportOptions {
+	id: string;
+	name: string;
+	encoding?: CsvEncoding;
+}
+
+export const CSV_IMPORT_PRESETS: CsvImportPreset[] = [
+	{
+		// 1行目をヘッダーとし、列は画面で指定する
+		id: "generic",
+		name: "汎用（列を手動で指定）",
+		hasHeader: true,
+		skipRows: 0,
+		defaultType: "expense",
+		mapping: { ...EMPTY_COLUMN_MAPPING, date: 0, amount: 1, description: 2 },
+	},
+	{
+		// 利用日,ご利用店名,ご利用金額,支払区分,今回回数,お支払い金額,備考
+		// 1行目は会員名・カード名の行でヘッダーはない
+		id: "smbc-card",
+		name: "三井住友カード（Vpass）",
+		encoding: "shift_jis",
+		hasHeader: false,
+		skipRows: 1,
+		defaultType: "expense",
+		mapping: { ...EMPTY_COLUMN_MAPPING, date: 0, description: 1, amount: 2 },
+	},
+	{
+		// 利用日,利用店名・商品名,利用者,支払方法,利用金額,支払手数料,支払総額,...
+		id: "rakuten-card",
+		name: "楽天カード（e-NAVI）",
+		encoding: "utf-8",
+		hasHeader: true,
+		skipRows: 0,
+		defaultType: "expense",
+		mapping: { ...EMPTY_COLUMN_MAPPING, date: 0, description: 1, amount: 4 },
+	},
+	{
+		// 日付,摘要,摘要内容,支払い金額,預かり金額,差引残高,メモ,未資金化区分,入払区分
+		id: "mufg-bank",
+		name: "三菱UFJ銀行",
+		encoding: "shift_jis",
+		hasHeader: true,
+		skipRows: 0,
+		defaultType: "expense",
+		mapping: {
+			...EMPTY_COLUMN_MAPPING,
+			date: 0,
+			description: 2,
+			withdrawal: 3,
+			deposit: 4,
+		},
+	},
+	{
+		// 日付,内容,出金金額(円),入金金額(円),残高(円),メモ
+		id: "sbi-net-bank",
+		name: "住信SBIネット銀行",
+		encoding: "shift_jis",
+		hasHeader: true,
+		skipRows: 0,
+		defaultType: "expense",
+		mapping: {
+			...EMPTY_COLUMN_MAPPING,
+			date: 0,
+			description: 1,
+			withdrawal: 2,
+			deposit: 3,
+		},
+	},
+];
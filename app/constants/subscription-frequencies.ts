@@ -0,0 +1,49 @@
+import type { SubscriptionFrequency } from "../../db/schema";
+
+/**
+ * サブスクリプションの請求頻度の表示名
+ *
+ * 設計意図:
+ * - DBにはSUBSCRIPTION_FREQUENCIESの英字キーを保存し、画面では日本語の表示名に変換する
+ * - 登録フォーム・カード一覧・ダッシュボードのウィジェットで表記を揃えるため定数として共有
+ */
+export const SUBSCRIPTION_FREQUENCY_LABELS: Record<
+	SubscriptionFrequency,
+	string
+> = {
+	daily: "日次",
+	weekly: "週次",
+	monthly: "月次",
+	quarterly: "四半期",
+	semiannual: "半年",
+	yearly: "年次",
+	biennial: "2年",
+};
+
+// 支払い間隔を含めた表示に使う、1周期の長さ
+const FREQUENCY_PERIODS: Record<SubscriptionFrequency, [number, string]> = {
+	daily: [1, "日"],
+	weekly: [1, "週"],
+	monthly: [1, "か月"],
+	quarterly: [3, "か月"],
+	semiannual: [6, "か月"],
+	yearly: [1, "年"],
+	biennial: [2, "年"],
+};
+
+/**
+ * 支払い間隔を含めた請求頻度の表示名を取得
+ * 支払い間隔が2以上の場合は「2週ごと」「6か月ごと」のように表示する
+ */
+export function getFrequencyLabel(
+	frequency: string,
+	intervalCount = 1,
+): string {
+	const label =
+		SUBSCRIPTION_FREQUENCY_LABELS[frequency as SubscriptionFrequency];
+	if (!label) return frequency;
+	if (intervalCount <= 1) return label;
+
+	const [length, unit] = FREQUENCY_PERIODS[frequency as SubscriptionFrequency];
+	return `${length * intervalCount}${unit}ごと`;
+}
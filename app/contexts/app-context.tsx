@@ -26,8 +26,11 @@ interface AppState {
 		startDate?: string;
 		endDate?: string;
 		categoryId?: number;
-		type?: "income" | "expense";
+		type?: "income" | "expense" | "transfer";
 		search?: string;
+		tags?: string[];
+		minAmount?: number;
+		maxAmount?: number;
 	};
 
 	// ソート状態
@@ -1,24 +1,153 @@
+import type { CsvEncoding } from "../../utils/csv";
 import {
+	type AccountDetailResponse,
+	type AccountLedgerParams,
+	type AccountLedgerResponse,
+	type AccountsListResponse,
+	type ApplyCategorizationRulesRequest,
+	type ApplyCategorizationRulesResponse,
 	type BaseApiResponse,
+	type BudgetDetailResponse,
+	type BudgetStatusParams,
+	type BudgetStatusResponse,
+	type BudgetsListResponse,
+	type CardStatementDetailResponse,
+	type CardStatementResponse,
 	type CategoriesListResponse,
+	type CategorizationRuleDetailResponse,
+	type CategorizationRulesListResponse,
 	type CategoryDetailResponse,
+	type CategoryMergeResponse,
+	type CategorySuggestionParams,
+	type CategorySuggestionsResponse,
+	type CategoryTreeResponse,
+	type CategoryUsageResponse,
+	type CreateAccountRequest,
+	type CreateBudgetRequest,
+	type CreateCategorizationRuleRequest,
 	type CreateCategoryRequest,
+	type CreateInstallmentPlanRequest,
 	type CreateSubscriptionRequest,
+	type CreateTransactionRequest,
+	type DashboardSummaryResponse,
+	type DeleteCategoryOptions,
+	type ImportTransactionsRequest,
+	type ImportTransactionsResponse,
+	type InstallmentPlanDetailResponse,
+	type InstallmentPlansListResponse,
+	type MergeCategoriesRequest,
+	type MergeTagsRequest,
+	type NotificationListParams,
+	type NotificationReadResponse,
+	type NotificationsListResponse,
+	type NotificationsReadAllResponse,
+	type PayOffInstallmentPlanRequest,
+	type PayOffInstallmentPlanResponse,
+	type PaymentMethodMigrationResponse,
+	type ReconcileCardTransactionsRequest,
+	type ReconcileCardTransactionsResponse,
+	type RecordSubscriptionPeriodRequest,
 	type ReorderCategoriesRequest,
+	type ReorderCategorizationRulesRequest,
 	type SubscriptionDetailResponse,
+	type SubscriptionPaymentsResponse,
+	type SubscriptionPriceHistoryResponse,
+	type SubscriptionRemindersResponse,
 	type SubscriptionsListResponse,
+	type TagMutationResponse,
+	type TagStatsParams,
+	type TagStatsResponse,
+	type TagsListResponse,
+	type TransactionDetailResponse,
+	type TransactionListParams,
+	type TransactionStatsParams,
+	type TransactionStatsResponse,
+	type TransactionsListResponse,
+	type UpcomingSubscriptionEventsParams,
+	type UpcomingSubscriptionEventsResponse,
+	type UpdateAccountRequest,
+	type UpdateBudgetRequest,
+	type UpdateCardStatementRequest,
+	type UpdateCategorizationRuleRequest,
 	type UpdateCategoryRequest,
+	type UpdateSubscriptionRemindersRequest,
 	type UpdateSubscriptionRequest,
+	type UpdateTagRequest,
+	type UpdateTransactionRequest,
+	accountDetailResponseSchema,
+	accountLedgerParamsSchema,
+	accountLedgerResponseSchema,
+	accountsListResponseSchema,
+	applyCategorizationRulesRequestSchema,
+	applyCategorizationRulesResponseSchema,
 	baseApiResponseSchema,
+	budgetDetailResponseSchema,
+	budgetStatusParamsSchema,
+	budgetStatusResponseSchema,
+	budgetsListResponseSchema,
+	cardStatementDetailResponseSchema,
+	cardStatementResponseSchema,
 	categoriesListResponseSchema,
+	categorizationRuleDetailResponseSchema,
+	categorizationRulesListResponseSchema,
 	categoryDetailResponseSchema,
+	categoryMergeResponseSchema,
+	categorySuggestionParamsSchema,
+	categorySuggestionsResponseSchema,
+	categoryTreeResponseSchema,
+	categoryUsageResponseSchema,
+	createAccountRequestSchema,
+	createBudgetRequestSchema,
+	createCategorizationRuleRequestSchema,
 	createCategoryRequestSchema,
+	createInstallmentPlanRequestSchema,
 	createSubscriptionRequestSchema,
+	createTransactionRequestSchema,
+	dashboardSummaryResponseSchema,
+	deleteCategoryOptionsSchema,
+	importTransactionsRequestSchema,
+	importTransactionsResponseSchema,
+	installmentPlanDetailResponseSchema,
+	installmentPlansListResponseSchema,
+	mergeCategoriesRequestSchema,
+	mergeTagsRequestSchema,
+	notificationListParamsSchema,
+	notificationReadResponseSchema,
+	notificationsListResponseSchema,
+	notificationsReadAllResponseSchema,
+	payOffInstallmentPlanRequestSchema,
+	payOffInstallmentPlanResponseSchema,
+	paymentMethodMigrationResponseSchema,
+	reconcileCardTransactionsRequestSchema,
+	reconcileCardTransactionsResponseSchema,
+	recordSubscriptionPeriodRequestSchema,
 	reorderCategoriesRequestSchema,
+	reorderCategorizationRulesRequestSchema,
 	subscriptionDetailResponseSchema,
+	subscriptionPaymentsResponseSchema,
+	subscriptionPriceHistoryResponseSchema,
+	subscriptionRemindersResponseSchema,
 	subscriptionsListResponseSchema,
+	tagMutationResponseSchema,
+	tagStatsParamsSchema,
+	tagStatsResponseSchema,
+	tagsListResponseSchema,
+	transactionDetailResponseSchema,
+	transactionListParamsSchema,
+	transactionStatsParamsSchema,
+	transactionStatsResponseSchema,
+	transactionsListResponseSchema,
+	upcomingSubscriptionEventsParamsSchema,
+	upcomingSubscriptionEventsResponseSchema,
+	updateAccountRequestSchema,
+	updateBudgetRequestSchema,
+	updateCardStatementRequestSchema,
+	updateCategorizationRuleRequestSchema,
 	updateCategoryRequestSchema,
+	updateSubscriptionRemindersRequestSchema,
 	updateSubscriptionRequestSchema,
+	updateTagRequestSchema,
+	updateTransactionRequestSchema,
 } from "../schemas/api-responses";
 import { apiClient, buildQueryParams } from "./client";
 
@@ -26,7 +155,7 @@ import { apiClient, buildQueryParams } from "./client";
  * APIサービス層の実装
  *
  * 設計方針:
- * - 各リソース（カテゴリ、サブスクリプション）に特化したサービス
+ * - 各リソース（カテゴリ、サブスクリプション、取引、予算）に特化したサービス
  * - APIクライアントをラップして型安全な操作を提供
  * - TanStack Queryとの連携を考慮したメソッド設計
  * - 一貫性のあるエラーハンドリング
@@ -44,6 +173,16 @@ export const categoryService = {
 		return apiClient.get("/categories", categoriesListResponseSchema);
 	},
 
+	/**
+	 * カテゴリを親子のツリーで取得（最上位のカテゴリの配列、子カテゴリはchildren）
+	 */
+	async getCategoryTree(
+		type?: "income" | "expense",
+	): Promise<CategoryTreeResponse> {
+		const query = buildQueryParams({ type, tree: true });
+		return apiClient.get(`/categories${query}`, categoryTreeResponseSchema);
+	},
+
 	/**
 	 * カテゴリ詳細を取得
 	 */
@@ -82,22 +221,57 @@ export const categoryService = {
 		);
 	},
 
+	/**
+	 * カテゴリを参照している取引・サブスクリプション・予算・自動分類ルールの件数を取得
+	 */
+	async getCategoryUsage(id: number): Promise<CategoryUsageResponse> {
+		return apiClient.get(
+			`/categories/${id}/usage`,
+			categoryUsageResponseSchema,
+		);
+	},
+
 	/**
 	 * カテゴリを削除
+	 * 使用中のカテゴリは付け替え先のカテゴリかアーカイブの指定が必須（未指定の場合は409）
 	 */
-	async deleteCategory(id: number): Promise<BaseApiResponse> {
-		return apiClient.delete(`/categories/${id}/delete`, baseApiResponseSchema);
+	async deleteCategory(
+		id: number,
+		options?: DeleteCategoryOptions,
+	): Promise<BaseApiResponse> {
+		const query = options
+			? buildQueryParams(deleteCategoryOptionsSchema.parse(options))
+			: "";
+		return apiClient.delete(
+			`/categories/${id}/delete${query}`,
+			baseApiResponseSchema,
+		);
+	},
+
+	/**
+	 * 複数のカテゴリを1つのカテゴリに統合
+	 */
+	async mergeCategories(
+		data: MergeCategoriesRequest,
+	): Promise<CategoryMergeResponse> {
+		// リクエストデータをバリデーション
+		const validatedData = mergeCategoriesRequestSchema.parse(data);
+		return apiClient.post(
+			"/categories/merge",
+			validatedData,
+			categoryMergeResponseSchema,
+		);
 	},
 
 	/**
-	 * カテゴリの並び順を変更
+	 * カテゴリの並び順を変更（同じ親カテゴリ内のカテゴリのみ）
 	 */
 	async reorderCategories(
 		data: ReorderCategoriesRequest,
 	): Promise<BaseApiResponse> {
 		// リクエストデータをバリデーション
 		const validatedData = reorderCategoriesRequestSchema.parse(data);
-		return apiClient.post(
+		return apiClient.put(
 			"/categories/reorder",
 			validatedData,
 			baseApiResponseSchema,
@@ -127,6 +301,89 @@ export const subscriptionService = {
 		);
 	},
 
+	/**
+	 * サブスクリプションの価格の推移と支払済みの合計を取得
+	 */
+	async getSubscriptionPriceHistory(
+		id: number,
+	): Promise<SubscriptionPriceHistoryResponse> {
+		return apiClient.get(
+			`/subscriptions/${id}/prices`,
+			subscriptionPriceHistoryResponseSchema,
+		);
+	},
+
+	/**
+	 * サブスクリプションの支払い履歴（支払い・期間ごとの状態・合計）を取得
+	 */
+	async getSubscriptionPayments(
+		id: number,
+	): Promise<SubscriptionPaymentsResponse> {
+		return apiClient.get(
+			`/subscriptions/${id}/payments`,
+			subscriptionPaymentsResponseSchema,
+		);
+	},
+
+	/**
+	 * 過去の支払い期間をスキップまたは支払済みとして記録
+	 */
+	async recordSubscriptionPeriod(
+		id: number,
+		data: RecordSubscriptionPeriodRequest,
+	): Promise<SubscriptionPaymentsResponse> {
+		// リクエストデータをバリデーション
+		const validatedData = recordSubscriptionPeriodRequestSchema.parse(data);
+		return apiClient.post(
+			`/subscriptions/${id}/payments/record`,
+			validatedData,
+			subscriptionPaymentsResponseSchema,
+		);
+	},
+
+	/**
+	 * サブスクリプションのリマインダーの設定を取得
+	 */
+	async getSubscriptionReminders(
+		id: number,
+	): Promise<SubscriptionRemindersResponse> {
+		return apiClient.get(
+			`/subscriptions/${id}/reminders`,
+			subscriptionRemindersResponseSchema,
+		);
+	},
+
+	/**
+	 * サブスクリプションのリマインダーの設定を置き換える
+	 */
+	async updateSubscriptionReminders(
+		id: number,
+		data: UpdateSubscriptionRemindersRequest,
+	): Promise<SubscriptionRemindersResponse> {
+		// リクエストデータをバリデーション
+		const validatedData = updateSubscriptionRemindersRequestSchema.parse(data);
+		return apiClient.put(
+			`/subscriptions/${id}/reminders/update`,
+			validatedData,
+			subscriptionRemindersResponseSchema,
+		);
+	},
+
+	/**
+	 * 今後の支払い・トライアル終了・解約期限を日付順に取得
+	 */
+	async getUpcomingSubscriptionEvents(
+		params: UpcomingSubscriptionEventsParams = {},
+	): Promise<UpcomingSubscriptionEventsResponse> {
+		const query = buildQueryParams(
+			upcomingSubscriptionEventsParamsSchema.parse(params),
+		);
+		return apiClient.get(
+			`/subscriptions/upcoming${query}`,
+			upcomingSubscriptionEventsResponseSchema,
+		);
+	},
+
 	/**
 	 * 新しいサブスクリプションを作成
 	 */
@@ -191,6 +448,599 @@ export const subscriptionService = {
 	},
 };
 
+// ========================================
+// 取引API サービス
+// ========================================
+
+export const transactionService = {
+	/**
+	 * 取引一覧を取得（フィルタ・ソート・ページネーション対応）
+	 */
+	async getTransactions(
+		params: TransactionListParams = {},
+	): Promise<TransactionsListResponse> {
+		const { tags, ...rest } = transactionListParamsSchema.parse(params);
+		const query = buildQueryParams({
+			...rest,
+			// タグはカンマ区切りで送信
+			tags: tags && tags.length > 0 ? tags.join(",") : undefined,
+		});
+		return apiClient.get(
+			`/transactions${query}`,
+			transactionsListResponseSchema,
+		);
+	},
+
+	/**
+	 * 期間内の収支統計を取得（レポート用）
+	 */
+	async getTransactionStats(
+		params: TransactionStatsParams = {},
+	): Promise<TransactionStatsResponse> {
+		const query = buildQueryParams(transactionStatsParamsSchema.parse(params));
+		return apiClient.get(
+			`/transactions/stats${query}`,
+			transactionStatsResponseSchema,
+		);
+	},
+
+	/**
+	 * 入力中の取引のカテゴリ候補を取得（確信度の高い順）
+	 */
+	async getCategorySuggestions(
+		params: CategorySuggestionParams,
+	): Promise<CategorySuggestionsResponse> {
+		const query = buildQueryParams(
+			categorySuggestionParamsSchema.parse(params),
+		);
+		return apiClient.get(
+			`/transactions/category-suggestions${query}`,
+			categorySuggestionsResponseSchema,
+		);
+	},
+
+	/**
+	 * 取引CSVエクスポートのダウンロードURLを生成
+	 * ファイルはブラウザのダウンロードとして取得するため、fetchではなくURLを返す
+	 */
+	getTransactionsExportUrl(
+		params: Omit<TransactionListParams, "page" | "limit"> = {},
+		encoding: CsvEncoding = "utf-8",
+	): string {
+		// ページングは出力対象外のため除外
+		const { tags, ...rest } = transactionListParamsSchema
+			.omit({ page: true, limit: true })
+			.parse(params);
+		const query = buildQueryParams({
+			...rest,
+			tags: tags && tags.length > 0 ? tags.join(",") : undefined,
+			encoding,
+		});
+		return `/api/transactions/export${query}`;
+	},
+
+	/**
+	 * 取引詳細を取得
+	 */
+	async getTransaction(id: number): Promise<TransactionDetailResponse> {
+		return apiClient.get(
+			`/transactions/${id}`,
+			transactionDetailResponseSchema,
+		);
+	},
+
+	/**
+	 * 新しい取引を作成
+	 */
+	async createTransaction(
+		data: CreateTransactionRequest,
+	): Promise<TransactionDetailResponse> {
+		// リクエストデータをバリデーション
+		const validatedData = createTransactionRequestSchema.parse(data);
+		return apiClient.post(
+			"/transactions/create",
+			validatedData,
+			transactionDetailResponseSchema,
+		);
+	},
+
+	/**
+	 * 取引を更新
+	 */
+	async updateTransaction(
+		id: number,
+		data: UpdateTransactionRequest,
+	): Promise<TransactionDetailResponse> {
+		// リクエストデータをバリデーション
+		const validatedData = updateTransactionRequestSchema.parse(data);
+		return apiClient.put(
+			`/transactions/${id}/update`,
+			validatedData,
+			transactionDetailResponseSchema,
+		);
+	},
+
+	/**
+	 * 取引を削除
+	 */
+	async deleteTransaction(id: number): Promise<BaseApiResponse> {
+		return apiClient.delete(
+			`/transactions/${id}/delete`,
+			baseApiResponseSchema,
+		);
+	},
+
+	/**
+	 * 取引を一括取り込み（CSVインポート）
+	 * dryRun指定時は登録せず既存の取引との重複判定のみ行う
+	 */
+	async importTransactions(
+		data: ImportTransactionsRequest,
+	): Promise<ImportTransactionsResponse> {
+		const validatedData = importTransactionsRequestSchema.parse(data);
+		return apiClient.post(
+			"/transactions/import",
+			validatedData,
+			importTransactionsResponseSchema,
+		);
+	},
+};
+
+// ========================================
+// 予算API サービス
+// ========================================
+
+export const budgetService = {
+	/**
+	 * 予算一覧を取得
+	 */
+	async getBudgets(
+		params: BudgetStatusParams = {},
+	): Promise<BudgetsListResponse> {
+		const query = buildQueryParams(budgetStatusParamsSchema.parse(params));
+		return apiClient.get(`/budgets${query}`, budgetsListResponseSchema);
+	},
+
+	/**
+	 * 予算詳細を取得
+	 */
+	async getBudget(id: number): Promise<BudgetDetailResponse> {
+		return apiClient.get(`/budgets/${id}`, budgetDetailResponseSchema);
+	},
+
+	/**
+	 * 期間ごとの予算消化状況を取得
+	 */
+	async getBudgetStatus(
+		params: BudgetStatusParams = {},
+	): Promise<BudgetStatusResponse> {
+		const query = buildQueryParams(budgetStatusParamsSchema.parse(params));
+		return apiClient.get(`/budgets/status${query}`, budgetStatusResponseSchema);
+	},
+
+	/**
+	 * 新しい予算を作成
+	 */
+	async createBudget(data: CreateBudgetRequest): Promise<BudgetDetailResponse> {
+		// リクエストデータをバリデーション
+		const validatedData = createBudgetRequestSchema.parse(data);
+		return apiClient.post(
+			"/budgets/create",
+			validatedData,
+			budgetDetailResponseSchema,
+		);
+	},
+
+	/**
+	 * 予算を更新
+	 */
+	async updateBudget(
+		id: number,
+		data: UpdateBudgetRequest,
+	): Promise<BudgetDetailResponse> {
+		// リクエストデータをバリデーション
+		const validatedData = updateBudgetRequestSchema.parse(data);
+		return apiClient.put(
+			`/budgets/${id}/update`,
+			validatedData,
+			budgetDetailResponseSchema,
+		);
+	},
+
+	/**
+	 * 予算を削除
+	 */
+	async deleteBudget(id: number): Promise<BaseApiResponse> {
+		return apiClient.delete(`/budgets/${id}/delete`, baseApiResponseSchema);
+	},
+};
+
+// ========================================
+// 口座API サービス
+// ========================================
+
+export const accountService = {
+	/**
+	 * 口座一覧を残高付きで取得
+	 */
+	async getAccounts(): Promise<AccountsListResponse> {
+		return apiClient.get("/accounts", accountsListResponseSchema);
+	},
+
+	/**
+	 * 口座の入出金明細を取得（取引ごとの残高付き）
+	 */
+	async getAccountLedger(
+		id: number,
+		params: AccountLedgerParams = {},
+	): Promise<AccountLedgerResponse> {
+		const query = buildQueryParams(accountLedgerParamsSchema.parse(params));
+		return apiClient.get(
+			`/accounts/${id}/ledger${query}`,
+			accountLedgerResponseSchema,
+		);
+	},
+
+	/**
+	 * 新しい口座を作成
+	 */
+	async createAccount(
+		data: CreateAccountRequest,
+	): Promise<AccountDetailResponse> {
+		// リクエストデータをバリデーション
+		const validatedData = createAccountRequestSchema.parse(data);
+		return apiClient.post(
+			"/accounts/create",
+			validatedData,
+			accountDetailResponseSchema,
+		);
+	},
+
+	/**
+	 * 口座を更新
+	 */
+	async updateAccount(
+		id: number,
+		data: UpdateAccountRequest,
+	): Promise<AccountDetailResponse> {
+		// リクエストデータをバリデーション
+		const validatedData = updateAccountRequestSchema.parse(data);
+		return apiClient.put(
+			`/accounts/${id}/update`,
+			validatedData,
+			accountDetailResponseSchema,
+		);
+	},
+
+	/**
+	 * 口座を削除（論理削除）
+	 */
+	async deleteAccount(id: number): Promise<BaseApiResponse> {
+		return apiClient.delete(`/accounts/${id}/delete`, baseApiResponseSchema);
+	},
+
+	/**
+	 * 取引の支払い方法を口座に移行（dryRunで移行計画のみ取得）
+	 */
+	async migratePaymentMethods(
+		dryRun = false,
+	): Promise<PaymentMethodMigrationResponse> {
+		return apiClient.post(
+			"/accounts/migrate-payment-methods",
+			{ dryRun },
+			paymentMethodMigrationResponseSchema,
+		);
+	},
+
+	/**
+	 * クレジットカードの締め月の請求を取得（締め月を省略した場合は今日が含まれる請求）
+	 */
+	async getCardStatement(
+		id: number,
+		month?: string,
+	): Promise<CardStatementResponse> {
+		const query = buildQueryParams({ month });
+		return apiClient.get(
+			`/accounts/${id}/statement${query}`,
+			cardStatementResponseSchema,
+		);
+	},
+
+	/**
+	 * 明細上の請求額を設定
+	 */
+	async updateCardStatement(
+		id: number,
+		data: UpdateCardStatementRequest,
+	): Promise<CardStatementDetailResponse> {
+		// リクエストデータのバリデーション
+		const validatedData = updateCardStatementRequestSchema.parse(data);
+		return apiClient.put(
+			`/accounts/${id}/statement/update`,
+			validatedData,
+			cardStatementDetailResponseSchema,
+		);
+	},
+
+	/**
+	 * 取引を請求と照合済みにする（reconciled=falseで照合を解除）
+	 */
+	async reconcileCardTransactions(
+		id: number,
+		data: ReconcileCardTransactionsRequest,
+	): Promise<ReconcileCardTransactionsResponse> {
+		// リクエストデータのバリデーション
+		const validatedData = reconcileCardTransactionsRequestSchema.parse(data);
+		return apiClient.post(
+			`/accounts/${id}/statement/reconcile`,
+			validatedData,
+			reconcileCardTransactionsResponseSchema,
+		);
+	},
+};
+
+// ========================================
+// 分割払いAPI サービス
+// ========================================
+
+export const installmentService = {
+	/**
+	 * 分割払い一覧を残高・残り回数付きで取得
+	 */
+	async getInstallmentPlans(): Promise<InstallmentPlansListResponse> {
+		return apiClient.get("/installments", installmentPlansListResponseSchema);
+	},
+
+	/**
+	 * 分割払いの詳細を全回の支払予定付きで取得
+	 */
+	async getInstallmentPlan(id: number): Promise<InstallmentPlanDetailResponse> {
+		return apiClient.get(
+			`/installments/${id}`,
+			installmentPlanDetailResponseSchema,
+		);
+	},
+
+	/**
+	 * 新しい分割払いを登録
+	 */
+	async createInstallmentPlan(
+		data: CreateInstallmentPlanRequest,
+	): Promise<InstallmentPlanDetailResponse> {
+		// リクエストデータをバリデーション
+		const validatedData = createInstallmentPlanRequestSchema.parse(data);
+		return apiClient.post(
+			"/installments/create",
+			validatedData,
+			installmentPlanDetailResponseSchema,
+		);
+	},
+
+	/**
+	 * 分割払いを繰上げ返済（金額を省略した場合は残高を一括返済）
+	 */
+	async payOffInstallmentPlan(
+		id: number,
+		data: PayOffInstallmentPlanRequest = {},
+	): Promise<PayOffInstallmentPlanResponse> {
+		// リクエストデータをバリデーション
+		const validatedData = payOffInstallmentPlanRequestSchema.parse(data);
+		return apiClient.post(
+			`/installments/${id}/payoff`,
+			validatedData,
+			payOffInstallmentPlanResponseSchema,
+		);
+	},
+
+	/**
+	 * 分割払いを削除（生成済みの取引は残す）
+	 */
+	async deleteInstallmentPlan(id: number): Promise<BaseApiResponse> {
+		return apiClient.delete(
+			`/installments/${id}/delete`,
+			baseApiResponseSchema,
+		);
+	},
+};
+
+// ========================================
+// 自動分類ルールAPI サービス
+// ========================================
+
+export const categorizationRuleService = {
+	/**
+	 * 自動分類ルール一覧を優先順位順に取得
+	 */
+	async getCategorizationRules(): Promise<CategorizationRulesListResponse> {
+		return apiClient.get(
+			"/categorization-rules",
+			categorizationRulesListResponseSchema,
+		);
+	},
+
+	/**
+	 * 新しい自動分類ルールを作成
+	 */
+	async createCategorizationRule(
+		data: CreateCategorizationRuleRequest,
+	): Promise<CategorizationRuleDetailResponse> {
+		// リクエストデータをバリデーション
+		const validatedData = createCategorizationRuleRequestSchema.parse(data);
+		return apiClient.post(
+			"/categorization-rules/create",
+			validatedData,
+			categorizationRuleDetailResponseSchema,
+		);
+	},
+
+	/**
+	 * 自動分類ルールを更新
+	 */
+	async updateCategorizationRule(
+		id: number,
+		data: UpdateCategorizationRuleRequest,
+	): Promise<CategorizationRuleDetailResponse> {
+		// リクエストデータをバリデーション
+		const validatedData = updateCategorizationRuleRequestSchema.parse(data);
+		return apiClient.put(
+			`/categorization-rules/${id}/update`,
+			validatedData,
+			categorizationRuleDetailResponseSchema,
+		);
+	},
+
+	/**
+	 * 自動分類ルールを削除
+	 */
+	async deleteCategorizationRule(id: number): Promise<BaseApiResponse> {
+		return apiClient.delete(
+			`/categorization-rules/${id}/delete`,
+			baseApiResponseSchema,
+		);
+	},
+
+	/**
+	 * 自動分類ルールの優先順位を一括更新
+	 */
+	async reorderCategorizationRules(
+		data: ReorderCategorizationRulesRequest,
+	): Promise<BaseApiResponse> {
+		// リクエストデータをバリデーション
+		const validatedData = reorderCategorizationRulesRequestSchema.parse(data);
+		return apiClient.put(
+			"/categorization-rules/reorder",
+			validatedData,
+			baseApiResponseSchema,
+		);
+	},
+
+	/**
+	 * 既存の取引にルールを再適用（dryRunで変更内容のプレビューのみ取得）
+	 */
+	async applyCategorizationRules(
+		data: ApplyCategorizationRulesRequest,
+	): Promise<ApplyCategorizationRulesResponse> {
+		// リクエストデータをバリデーション
+		const validatedData = applyCategorizationRulesRequestSchema.parse(data);
+		return apiClient.post(
+			"/categorization-rules/apply",
+			validatedData,
+			applyCategorizationRulesResponseSchema,
+		);
+	},
+};
+
+// ========================================
+// タグAPI サービス
+// ========================================
+
+export const tagService = {
+	/**
+	 * タグ一覧を使用件数の多い順に取得
+	 */
+	async getTags(): Promise<TagsListResponse> {
+		return apiClient.get("/tags", tagsListResponseSchema);
+	},
+
+	/**
+	 * タグの名前・色を更新（名前の変更は付いている取引にも反映）
+	 */
+	async updateTag(
+		id: number,
+		data: UpdateTagRequest,
+	): Promise<TagMutationResponse> {
+		// リクエストデータをバリデーション
+		const validatedData = updateTagRequestSchema.parse(data);
+		return apiClient.put(
+			`/tags/${id}/update`,
+			validatedData,
+			tagMutationResponseSchema,
+		);
+	},
+
+	/**
+	 * タグを削除（付いている取引からも外す）
+	 */
+	async deleteTag(id: number): Promise<TagMutationResponse> {
+		return apiClient.delete(`/tags/${id}/delete`, tagMutationResponseSchema);
+	},
+
+	/**
+	 * 複数のタグを1つのタグに統合
+	 */
+	async mergeTags(data: MergeTagsRequest): Promise<TagMutationResponse> {
+		// リクエストデータをバリデーション
+		const validatedData = mergeTagsRequestSchema.parse(data);
+		return apiClient.post(
+			"/tags/merge",
+			validatedData,
+			tagMutationResponseSchema,
+		);
+	},
+
+	/**
+	 * 期間内のタグ別の収入・支出を取得
+	 */
+	async getTagStats(params: TagStatsParams = {}): Promise<TagStatsResponse> {
+		const query = buildQueryParams(tagStatsParamsSchema.parse(params));
+		return apiClient.get(`/tags/stats${query}`, tagStatsResponseSchema);
+	},
+};
+
+// ========================================
+// ダッシュボードAPI サービス
+// ========================================
+
+export const dashboardService = {
+	/**
+	 * 今月の収支・サブスク負担額のサマリーを取得（前月比付き）
+	 */
+	async getSummary(): Promise<DashboardSummaryResponse> {
+		return apiClient.get("/dashboard/summary", dashboardSummaryResponseSchema);
+	},
+};
+
+// ========================================
+// 通知API サービス
+// ========================================
+
+export const notificationService = {
+	/**
+	 * 通知一覧を作成の新しい順に取得（未読の件数付き）
+	 */
+	async getNotifications(
+		params: NotificationListParams = {},
+	): Promise<NotificationsListResponse> {
+		const query = buildQueryParams(notificationListParamsSchema.parse(params));
+		return apiClient.get(
+			`/notifications${query}`,
+			notificationsListResponseSchema,
+		);
+	},
+
+	/**
+	 * 通知を既読にする
+	 */
+	async markNotificationRead(id: number): Promise<NotificationReadResponse> {
+		return apiClient.post(
+			`/notifications/${id}/read`,
+			{},
+			notificationReadResponseSchema,
+		);
+	},
+
+	/**
+	 * 未読の通知をすべて既読にする
+	 */
+	async markAllNotificationsRead(): Promise<NotificationsReadAllResponse> {
+		return apiClient.post(
+			"/notifications/read-all",
+			{},
+			notificationsReadAllResponseSchema,
+		);
+	},
+};
+
 // ========================================
 // 統合APIサービス
 // ========================================
@@ -202,6 +1052,14 @@ export const subscriptionService = {
 export const apiServices = {
 	categories: categoryService,
 	subscriptions: subscriptionService,
+	transactions: transactionService,
+	budgets: budgetService,
+	accounts: accountService,
+	installments: installmentService,
+	categorizationRules: categorizationRuleService,
+	tags: tagService,
+	dashboard: dashboardService,
+	notifications: notificationService,
 } as const;
 
 // ========================================
@@ -211,3 +1069,11 @@ export const apiServices = {
 export type ApiServices = typeof apiServices;
 export type CategoryService = typeof categoryService;
 export type SubscriptionService = typeof subscriptionService;
+export type TransactionService = typeof transactionService;
+export type BudgetService = typeof budgetService;
+export type AccountService = typeof accountService;
+export type InstallmentService = typeof installmentService;
+export type CategorizationRuleService = typeof categorizationRuleService;
+export type TagService = typeof tagService;
+export type DashboardService = typeof dashboardService;
+export type NotificationService = typeof notificationService;
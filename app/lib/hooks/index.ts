@@ -10,19 +10,29 @@
 // カテゴリ関連フック
 export {
 	useCategories,
+	useCategoryTree,
 	useCategory,
+	useCategoryUsage,
 	useCreateCategory,
 	useUpdateCategory,
 	useDeleteCategory,
+	useMergeCategories,
 	useReorderCategories,
 	useCategoriesByType,
 	useActiveCategories,
+	useCategoryOptions,
 } from "./use-categories";
 
 // サブスクリプション関連フック
 export {
 	useSubscriptions,
 	useSubscription,
+	useSubscriptionPriceHistory,
+	useSubscriptionPayments,
+	useRecordSubscriptionPeriod,
+	useSubscriptionReminders,
+	useUpdateSubscriptionReminders,
+	useUpcomingSubscriptionEvents,
 	useCreateSubscription,
 	useUpdateSubscription,
 	useDeleteSubscription,
@@ -33,3 +43,76 @@ export {
 	useCurrentMonthSubscriptions,
 	useSubscriptionsTotalCost,
 } from "./use-subscriptions";
+
+// 取引関連フック
+export {
+	useTransactions,
+	useTransaction,
+	useCreateTransaction,
+	useUpdateTransaction,
+	useDeleteTransaction,
+	useImportTransactions,
+	useTransactionStats,
+	useCategorySuggestions,
+} from "./use-transactions";
+
+// 予算関連フック
+export {
+	useBudgets,
+	useBudget,
+	useBudgetStatus,
+	useCreateBudget,
+	useUpdateBudget,
+	useDeleteBudget,
+} from "./use-budgets";
+
+// 口座関連フック
+export {
+	useAccounts,
+	useAccountLedger,
+	useCreateAccount,
+	useUpdateAccount,
+	useDeleteAccount,
+	useMigratePaymentMethods,
+	useCardStatement,
+	useUpdateCardStatement,
+	useReconcileCardTransactions,
+} from "./use-accounts";
+
+// 分割払い関連フック
+export {
+	useInstallmentPlans,
+	useInstallmentPlan,
+	useCreateInstallmentPlan,
+	usePayOffInstallmentPlan,
+	useDeleteInstallmentPlan,
+} from "./use-installments";
+
+// 自動分類ルール関連フック
+export {
+	useCategorizationRules,
+	useCreateCategorizationRule,
+	useUpdateCategorizationRule,
+	useDeleteCategorizationRule,
+	useReorderCategorizationRules,
+	useApplyCategorizationRules,
+} from "./use-categorization-rules";
+
+// タグ関連フック
+export {
+	useTags,
+	useTagStats,
+	useUpdateTag,
+	useMergeTags,
+	useDeleteTag,
+} from "./use-tags";
+
+// ダッシュボード関連フック
+export { useDashboardSummary } from "./use-dashboard";
+
+// 通知関連フック
+export {
+	useNotifications,
+	useMarkNotificationRead,
+	useMarkAllNotificationsRead,
+} from "./use-notifications";
@@ -0,0 +1,275 @@
+import {
+	type UseMutationOptions,
+	type UseQueryOptions,
+	useMutation,
+	useQuery,
+	useQueryClient,
+} from "@tanstack/react-query";
+import type { ApiError } from "../api/client";
+import { apiServices } from "../api/services";
+import { queryKeys } from "../query/provider";
+import type {
+	AccountDetailResponse,
+	AccountLedgerParams,
+	AccountLedgerResponse,
+	AccountsListResponse,
+	BaseApiResponse,
+	CardStatementDetailResponse,
+	CardStatementResponse,
+	CreateAccountRequest,
+	PaymentMethodMigrationResponse,
+	ReconcileCardTransactionsRequest,
+	ReconcileCardTransactionsResponse,
+	UpdateAccountRequest,
+	UpdateCardStatementRequest,
+} from "../schemas/api-responses";
+
+/**
+ * 口座関連のカスタムフック
+ *
+ * 設計方針:
+ * - queryKeys.accountsファクトリーによる一貫したキャッシュ管理
+ * - 残高は取引から計算されるため、取引の変更時も accounts.all を無効化する（use-transactions側）
+ * - 既存の予算フックと同じオプション受け渡しパターンを踏襲
+ */
+
+// ========================================
+// クエリフック（データ取得）
+// ========================================
+
+/**
+ * 口座一覧を残高付きで取得するフック
+ */
+export function useAccounts(
+	options?: Partial<UseQueryOptions<AccountsListResponse, ApiError>>,
+) {
+	return useQuery({
+		queryKey: queryKeys.accounts.lists(),
+		queryFn: () => apiServices.accounts.getAccounts(),
+		...options,
+	});
+}
+
+/**
+ * 口座の入出金明細を取得するフック
+ */
+export function useAccountLedger(
+	id: number,
+	params: AccountLedgerParams = {},
+	options?: Partial<UseQueryOptions<AccountLedgerResponse, ApiError>>,
+) {
+	return useQuery({
+		queryKey: queryKeys.accounts.ledger(id, params),
+		queryFn: () => apiServices.accounts.getAccountLedger(id, params),
+		enabled: !!id,
+		...options,
+	});
+}
+
+/**
+ * クレジットカードの締め月の請求を取得するフック
+ */
+export function useCardStatement(
+	id: number,
+	month?: string,
+	options?: Partial<UseQueryOptions<CardStatementResponse, ApiError>>,
+) {
+	return useQuery({
+		queryKey: queryKeys.accounts.statement(id, month),
+		queryFn: () => apiServices.accounts.getCardStatement(id, month),
+		enabled: !!id,
+		...options,
+	});
+}
+
+// ========================================
+// ミューテーションフック（データ更新）
+// ========================================
+
+/**
+ * 口座作成のフック
+ */
+export function useCreateAccount(
+	options?: UseMutationOptions<
+		AccountDetailResponse,
+		ApiError,
+		CreateAccountRequest
+	>,
+) {
+	const queryClient = useQueryClient();
+
+	const { onSuccess: userOnSuccess, ...restOptions } = options ?? {};
+
+	return useMutation({
+		mutationFn: (data: CreateAccountRequest) =>
+			apiServices.accounts.createAccount(data),
+		onSuccess: (data, variables, context) => {
+			// 一覧・明細を含む口座関連キャッシュを無効化
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.accounts.all,
+			});
+
+			// ユーザー提供のonSuccessも実行
+			userOnSuccess?.(data, variables, context);
+		},
+		...restOptions,
+	});
+}
+
+/**
+ * 口座更新のフック
+ */
+export function useUpdateAccount(
+	options?: UseMutationOptions<
+		AccountDetailResponse,
+		ApiError,
+		{ id: number; data: UpdateAccountRequest }
+	>,
+) {
+	const queryClient = useQueryClient();
+
+	const { onSuccess: userOnSuccess, ...restOptions } = options ?? {};
+
+	return useMutation({
+		mutationFn: ({ id, data }: { id: number; data: UpdateAccountRequest }) =>
+			apiServices.accounts.updateAccount(id, data),
+		onSuccess: (data, variables, context) => {
+			// 開始残高の変更で残高が変わるため口座関連キャッシュを無効化
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.accounts.all,
+			});
+
+			// ユーザー提供のonSuccessも実行
+			userOnSuccess?.(data, variables, context);
+		},
+		...restOptions,
+	});
+}
+
+/**
+ * 口座削除（論理削除）のフック
+ */
+export function useDeleteAccount(
+	options?: UseMutationOptions<BaseApiResponse, ApiError, number>,
+) {
+	const queryClient = useQueryClient();
+
+	const { onSuccess: userOnSuccess, ...restOptions } = options ?? {};
+
+	return useMutation({
+		mutationFn: (id: number) => apiServices.accounts.deleteAccount(id),
+		onSuccess: (data, id, context) => {
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.accounts.all,
+			});
+
+			// ユーザー提供のonSuccessも実行
+			userOnSuccess?.(data, id, context);
+		},
+		...restOptions,
+	});
+}
+
+/**
+ * 支払い方法の口座への移行のフック（引数のdryRunがtrueの場合は計画の取得のみ）
+ */
+export function useMigratePaymentMethods(
+	options?: UseMutationOptions<
+		PaymentMethodMigrationResponse,
+		ApiError,
+		boolean
+	>,
+) {
+	const queryClient = useQueryClient();
+
+	const { onSuccess: userOnSuccess, ...restOptions } = options ?? {};
+
+	return useMutation({
+		mutationFn: (dryRun: boolean) =>
+			apiServices.accounts.migratePaymentMethods(dryRun),
+		onSuccess: (data, dryRun, context) => {
+			if (!dryRun) {
+				// 口座の作成と取引の紐付けが行われるため両方を無効化
+				queryClient.invalidateQueries({
+					queryKey: queryKeys.accounts.all,
+				});
+				queryClient.invalidateQueries({
+					queryKey: queryKeys.transactions.all,
+				});
+			}
+
+			// ユーザー提供のonSuccessも実行
+			userOnSuccess?.(data, dryRun, context);
+		},
+		...restOptions,
+	});
+}
+
+/**
+ * 明細上の請求額を設定するフック
+ */
+export function useUpdateCardStatement(
+	options?: UseMutationOptions<
+		CardStatementDetailResponse,
+		ApiError,
+		{ id: number; data: UpdateCardStatementRequest }
+	>,
+) {
+	const queryClient = useQueryClient();
+
+	const { onSuccess: userOnSuccess, ...restOptions } = options ?? {};
+
+	return useMutation({
+		mutationFn: ({
+			id,
+			data,
+		}: { id: number; data: UpdateCardStatementRequest }) =>
+			apiServices.accounts.updateCardStatement(id, data),
+		onSuccess: (data, variables, context) => {
+			// 引き落としの振替の金額も変わり得るため口座・取引の両方を無効化
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.accounts.all,
+			});
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.transactions.all,
+			});
+
+			// ユーザー提供のonSuccessも実行
+			userOnSuccess?.(data, variables, context);
+		},
+		...restOptions,
+	});
+}
+
+/**
+ * 取引を請求と照合（または照合を解除）するフック
+ */
+export function useReconcileCardTransactions(
+	options?: UseMutationOptions<
+		ReconcileCardTransactionsResponse,
+		ApiError,
+		{ id: number; data: ReconcileCardTransactionsRequest }
+	>,
+) {
+	const queryClient = useQueryClient();
+
+	const { onSuccess: userOnSuccess, ...restOptions } = options ?? {};
+
+	return useMutation({
+		mutationFn: ({
+			id,
+			data,
+		}: { id: number; data: ReconcileCardTransactionsRequest }) =>
+			apiServices.accounts.reconcileCardTransactions(id, data),
+		onSuccess: (data, variables, context) => {
+			// 締め月を省略して取得した請求も更新されるよう口座関連キャッシュを無効化
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.accounts.all,
+			});
+
+			// ユーザー提供のonSuccessも実行
+			userOnSuccess?.(data, variables, context);
+		},
+		...restOptions,
+	});
+}
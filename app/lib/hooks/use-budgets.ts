@@ -0,0 +1,182 @@
+import {
+	type UseMutationOptions,
+	type UseQueryOptions,
+	useMutation,
+	useQuery,
+	useQueryClient,
+} from "@tanstack/react-query";
+import type { ApiError } from "../api/client";
+import { apiServices } from "../api/services";
+import { queryKeys } from "../query/provider";
+import type {
+	BaseApiResponse,
+	BudgetDetailResponse,
+	BudgetStatusParams,
+	BudgetStatusResponse,
+	BudgetsListResponse,
+	CreateBudgetRequest,
+	UpdateBudgetRequest,
+} from "../schemas/api-responses";
+
+/**
+ * 予算関連のカスタムフック
+ *
+ * 設計方針:
+ * - queryKeys.budgetsファクトリーによる一貫したキャッシュ管理
+ * - 予算の変更は一覧・予算状況の両方に影響するため budgets.all を無効化
+ * - 既存の取引フックと同じオプション受け渡しパターンを踏襲
+ */
+
+// ========================================
+// クエリフック（データ取得）
+// ========================================
+
+/**
+ * 予算一覧を取得するフック
+ */
+export function useBudgets(
+	params: BudgetStatusParams = {},
+	options?: Partial<UseQueryOptions<BudgetsListResponse, ApiError>>,
+) {
+	return useQuery({
+		queryKey: queryKeys.budgets.list(params),
+		queryFn: () => apiServices.budgets.getBudgets(params),
+		...options,
+	});
+}
+
+/**
+ * 予算詳細を取得するフック
+ */
+export function useBudget(
+	id: number,
+	options?: Partial<UseQueryOptions<BudgetDetailResponse, ApiError>>,
+) {
+	return useQuery({
+		queryKey: queryKeys.budgets.detail(id),
+		queryFn: () => apiServices.budgets.getBudget(id),
+		enabled: !!id,
+		...options,
+	});
+}
+
+/**
+ * 期間ごとの予算消化状況を取得するフック
+ * 期間未指定の場合は今月の月次予算が対象
+ */
+export function useBudgetStatus(
+	params: BudgetStatusParams = {},
+	options?: Partial<UseQueryOptions<BudgetStatusResponse, ApiError>>,
+) {
+	return useQuery({
+		queryKey: queryKeys.budgets.status(params),
+		queryFn: () => apiServices.budgets.getBudgetStatus(params),
+		...options,
+	});
+}
+
+// ========================================
+// ミューテーションフック（データ更新）
+// ========================================
+
+/**
+ * 予算作成のフック
+ */
+export function useCreateBudget(
+	options?: UseMutationOptions<
+		BudgetDetailResponse,
+		ApiError,
+		CreateBudgetRequest
+	>,
+) {
+	const queryClient = useQueryClient();
+
+	const { onSuccess: userOnSuccess, ...restOptions } = options ?? {};
+
+	return useMutation({
+		mutationFn: (data: CreateBudgetRequest) =>
+			apiServices.budgets.createBudget(data),
+		onSuccess: (data, variables, context) => {
+			// 一覧・予算状況を含む予算関連キャッシュを無効化
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.budgets.all,
+			});
+
+			// 新しい予算をキャッシュに追加
+			queryClient.setQueryData<BudgetDetailResponse>(
+				queryKeys.budgets.detail(data.data.id),
+				data,
+			);
+
+			// ユーザー提供のonSuccessも実行
+			userOnSuccess?.(data, variables, context);
+		},
+		...restOptions,
+	});
+}
+
+/**
+ * 予算更新のフック
+ */
+export function useUpdateBudget(
+	options?: UseMutationOptions<
+		BudgetDetailResponse,
+		ApiError,
+		{ id: number; data: UpdateBudgetRequest }
+	>,
+) {
+	const queryClient = useQueryClient();
+
+	const { onSuccess: userOnSuccess, ...restOptions } = options ?? {};
+
+	return useMutation({
+		mutationFn: ({ id, data }: { id: number; data: UpdateBudgetRequest }) =>
+			apiServices.budgets.updateBudget(id, data),
+		onSuccess: (data, variables, context) => {
+			// 更新後のデータで詳細キャッシュを置き換え
+			queryClient.setQueryData<BudgetDetailResponse>(
+				queryKeys.budgets.detail(variables.id),
+				data,
+			);
+
+			// 一覧・予算状況を含む予算関連キャッシュを無効化
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.budgets.all,
+			});
+
+			// ユーザー提供のonSuccessも実行
+			userOnSuccess?.(data, variables, context);
+		},
+		...restOptions,
+	});
+}
+
+/**
+ * 予算削除のフック
+ */
+export function useDeleteBudget(
+	options?: UseMutationOptions<BaseApiResponse, ApiError, number>,
+) {
+	const queryClient = useQueryClient();
+
+	const { onSuccess: userOnSuccess, ...restOptions } = options ?? {};
+
+	return useMutation({
+		mutationFn: (id: number) => apiServices.budgets.deleteBudget(id),
+		onSuccess: (data, id, context) => {
+			// 削除された予算の詳細キャッシュを削除
+			queryClient.removeQueries({
+				queryKey: queryKeys.budgets.detail(id),
+			});
+
+			// 一覧・予算状況を含む予算関連キャッシュを無効化
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.budgets.all,
+			});
+
+			// ユーザー提供のonSuccessも実行
+			userOnSuccess?.(data, id, context);
+		},
+		...restOptions,
+	});
+}
@@ -160,6 +160,7 @@ const mockCategoriesListResponse: CategoriesListResponse = {
 			color: "#FF6B6B",
 			icon: "🍽️",
 			isActive: true,
+			parentId: null,
 			displayOrder: 1,
 			createdAt: "2024-01-01T00:00:00.000Z",
 			updatedAt: "2024-01-01T00:00:00.000Z",
@@ -171,6 +172,7 @@ const mockCategoriesListResponse: CategoriesListResponse = {
 			color: "#4ECDC4",
 			icon: "💰",
 			isActive: true,
+			parentId: null,
 			displayOrder: 1,
 			createdAt: "2024-01-02T00:00:00.000Z",
 			updatedAt: "2024-01-02T00:00:00.000Z",
@@ -182,6 +184,7 @@ const mockCategoriesListResponse: CategoriesListResponse = {
 			color: "#45B7D1",
 			icon: "🚗",
 			isActive: false,
+			parentId: null,
 			displayOrder: 2,
 			createdAt: "2024-01-03T00:00:00.000Z",
 			updatedAt: "2024-01-03T00:00:00.000Z",
@@ -199,6 +202,7 @@ const mockCategoryDetailResponse: CategoryDetailResponse = {
 		color: "#FF6B6B",
 		icon: "🍽️",
 		isActive: true,
+		parentId: null,
 		displayOrder: 1,
 		createdAt: "2024-01-01T00:00:00.000Z",
 		updatedAt: "2024-01-01T00:00:00.000Z",
@@ -657,7 +661,11 @@ describe("use-categories hooks", () => {
 			});
 
 			const reorderData: ReorderCategoriesRequest = {
-				categoryIds: [2, 1, 3],
+				categories: [
+					{ id: 2, displayOrder: 1 },
+					{ id: 1, displayOrder: 2 },
+					{ id: 3, displayOrder: 3 },
+				],
 			};
 
 			await act(async () => {
@@ -5,6 +5,11 @@ import {
 	useQuery,
 	useQueryClient,
 } from "@tanstack/react-query";
+import type { SelectCategory } from "../../../db/schema";
+import {
+	FIXED_EXPENSE_CATEGORIES,
+	FIXED_INCOME_CATEGORIES,
+} from "../../constants/fixed-categories";
 import type { ApiError } from "../api/client";
 import { apiServices } from "../api/services";
 import { queryKeys } from "../query/provider";
@@ -12,7 +17,12 @@ import type {
 	BaseApiResponse,
 	CategoriesListResponse,
 	CategoryDetailResponse,
+	CategoryMergeResponse,
+	CategoryTreeResponse,
+	CategoryUsageResponse,
 	CreateCategoryRequest,
+	DeleteCategoryOptions,
+	MergeCategoriesRequest,
 	ReorderCategoriesRequest,
 	UpdateCategoryRequest,
 } from "../schemas/api-responses";
@@ -44,6 +54,21 @@ export function useCategories(
 	});
 }
 
+/**
+ * カテゴリを親子のツリーで取得するフック
+ * 並び替え・作成・削除で一覧と同時に無効化されるよう、一覧のキー配下に置く
+ */
+export function useCategoryTree(
+	type?: "income" | "expense",
+	options?: Partial<UseQueryOptions<CategoryTreeResponse, ApiError>>,
+) {
+	return useQuery({
+		queryKey: queryKeys.categories.tree(type),
+		queryFn: () => apiServices.categories.getCategoryTree(type),
+		...options,
+	});
+}
+
 /**
  * カテゴリ詳細を取得するフック
  */
@@ -59,10 +84,50 @@ export function useCategory(
 	});
 }
 
+/**
+ * カテゴリを参照している取引・サブスクリプション・予算・自動分類ルールの件数を取得するフック
+ * 削除時に付け替え先かアーカイブかを選ぶ前の確認に使用する
+ */
+export function useCategoryUsage(
+	id: number,
+	options?: Partial<UseQueryOptions<CategoryUsageResponse, ApiError>>,
+) {
+	return useQuery({
+		queryKey: queryKeys.categories.usage(id),
+		queryFn: () => apiServices.categories.getCategoryUsage(id),
+		enabled: !!id, // IDが有効な場合のみクエリを実行
+		...options,
+	});
+}
+
 // ========================================
 // ミューテーションフック（データ更新）
 // ========================================
 
+/**
+ * カテゴリ削除の対象（IDのみの場合は未使用のカテゴリの削除）
+ */
+export type DeleteCategoryVariables =
+	| number
+	| ({ id: number } & DeleteCategoryOptions);
+
+/**
+ * カテゴリの付け替えで書き換わる取引・サブスクリプション・予算・自動分類ルールのキャッシュを無効化する
+ */
+function invalidateCategoryReferenceQueries(
+	queryClient: ReturnType<typeof useQueryClient>,
+) {
+	for (const queryKey of [
+		queryKeys.transactions.all,
+		queryKeys.subscriptions.all,
+		queryKeys.budgets.all,
+		queryKeys.categorizationRules.all,
+		queryKeys.dashboard.all,
+	]) {
+		queryClient.invalidateQueries({ queryKey });
+	}
+}
+
 /**
  * カテゴリ作成のフック
  */
@@ -184,12 +249,13 @@ export function useUpdateCategory(
 
 /**
  * カテゴリ削除のフック
+ * 使用中のカテゴリは付け替え先のカテゴリかアーカイブを指定する（未指定の場合は409エラー）
  */
 export function useDeleteCategory(
 	options?: UseMutationOptions<
 		BaseApiResponse,
 		ApiError,
-		number,
+		DeleteCategoryVariables,
 		{ previousCategories: CategoriesListResponse | undefined }
 	>,
 ) {
@@ -205,11 +271,19 @@ export function useDeleteCategory(
 	return useMutation<
 		BaseApiResponse,
 		ApiError,
-		number,
+		DeleteCategoryVariables,
 		{ previousCategories: CategoriesListResponse | undefined }
 	>({
-		mutationFn: (id: number) => apiServices.categories.deleteCategory(id),
-		onMutate: async (id) => {
+		mutationFn: (variables) => {
+			if (typeof variables === "number") {
+				return apiServices.categories.deleteCategory(variables);
+			}
+			const { id, ...deleteOptions } = variables;
+			return apiServices.categories.deleteCategory(id, deleteOptions);
+		},
+		onMutate: async (variables) => {
+			const id = typeof variables === "number" ? variables : variables.id;
+
 			// オプティミスティックアップデート用のキャンセル
 			await queryClient.cancelQueries({
 				queryKey: queryKeys.categories.lists(),
@@ -241,7 +315,7 @@ export function useDeleteCategory(
 					| undefined,
 			};
 		},
-		onError: (err, id, context) => {
+		onError: (err, variables, context) => {
 			// エラー時にロールバック
 			if (context?.previousCategories) {
 				queryClient.setQueryData(
@@ -251,25 +325,63 @@ export function useDeleteCategory(
 			}
 
 			// ユーザー提供のonErrorも実行
-			userOnError?.(err, id, context);
+			userOnError?.(err, variables, context);
 		},
-		onSuccess: (data, id, context) => {
+		onSuccess: (data, variables, context) => {
 			// 削除されたカテゴリの詳細キャッシュを削除
 			queryClient.removeQueries({
-				queryKey: queryKeys.categories.detail(id),
+				queryKey: queryKeys.categories.detail(
+					typeof variables === "number" ? variables : variables.id,
+				),
 			});
 
+			// 参照を付け替えた場合は付け替え先のデータも再取得
+			if (typeof variables !== "number" && variables.replacementCategoryId) {
+				invalidateCategoryReferenceQueries(queryClient);
+			}
+
 			// ユーザー提供のonSuccessも実行
-			userOnSuccess?.(data, id, context);
+			userOnSuccess?.(data, variables, context);
 		},
-		onSettled: (data, error, id, context) => {
+		onSettled: (data, error, variables, context) => {
 			// 関連するクエリを無効化
 			queryClient.invalidateQueries({
 				queryKey: queryKeys.categories.lists(),
 			});
 
 			// ユーザー提供のonSettledも実行
-			userOnSettled?.(data, error, id, context);
+			userOnSettled?.(data, error, variables, context);
+		},
+		...restOptions,
+	});
+}
+
+/**
+ * カテゴリ統合のフック
+ * 統合元のカテゴリへの参照はすべて統合先に付け替わるため、参照元のキャッシュも無効化する
+ */
+export function useMergeCategories(
+	options?: UseMutationOptions<
+		CategoryMergeResponse,
+		ApiError,
+		MergeCategoriesRequest
+	>,
+) {
+	const queryClient = useQueryClient();
+
+	const { onSuccess: userOnSuccess, ...restOptions } = options ?? {};
+
+	return useMutation({
+		mutationFn: (data: MergeCategoriesRequest) =>
+			apiServices.categories.mergeCategories(data),
+		onSuccess: (data, variables, context) => {
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.categories.all,
+			});
+			invalidateCategoryReferenceQueries(queryClient);
+
+			// ユーザー提供のonSuccessも実行
+			userOnSuccess?.(data, variables, context);
 		},
 		...restOptions,
 	});
@@ -366,3 +478,29 @@ export function useActiveCategories(
 		...rest,
 	};
 }
+
+/**
+ * フォームの選択肢に使うカテゴリを取得するフック
+ * APIから取得した有効なカテゴリを使い、保存するcategoryIdが常にデータベースのカテゴリと一致するようにする
+ * 取得に失敗した場合（オフライン時など）のみ、デフォルトカテゴリの固定リストで代替する
+ */
+export function useCategoryOptions(
+	type?: "income" | "expense",
+	options?: UseQueryOptions<CategoriesListResponse, ApiError>,
+) {
+	const { data: categoriesResponse, isLoading, error } = useCategories(options);
+
+	const isFallback = !!error && !categoriesResponse;
+	const source: Partial<SelectCategory>[] = isFallback
+		? [...FIXED_EXPENSE_CATEGORIES, ...FIXED_INCOME_CATEGORIES]
+		: (categoriesResponse?.data ?? []);
+
+	return {
+		categories: source.filter(
+			(category) =>
+				category.isActive !== false && (!type || category.type === type),
+		),
+		isFallback,
+		isLoading,
+	};
+}
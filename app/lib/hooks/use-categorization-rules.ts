@@ -0,0 +1,207 @@
+import {
+	type UseMutationOptions,
+	type UseQueryOptions,
+	useMutation,
+	useQuery,
+	useQueryClient,
+} from "@tanstack/react-query";
+import type { ApiError } from "../api/client";
+import { apiServices } from "../api/services";
+import { queryKeys } from "../query/provider";
+import type {
+	ApplyCategorizationRulesRequest,
+	ApplyCategorizationRulesResponse,
+	BaseApiResponse,
+	CategorizationRuleDetailResponse,
+	CategorizationRulesListResponse,
+	CreateCategorizationRuleRequest,
+	ReorderCategorizationRulesRequest,
+	UpdateCategorizationRuleRequest,
+} from "../schemas/api-responses";
+
+/**
+ * 自動分類ルール関連のカスタムフック
+ *
+ * 設計方針:
+ * - queryKeys.categorizationRulesファクトリーによる一貫したキャッシュ管理
+ * - ルールの変更は既存の取引に影響しないため、ルールのキャッシュのみ無効化する
+ * - 既存の取引への再適用（dryRun以外）のみ取引関連のキャッシュを無効化する
+ * - 既存の口座フックと同じオプション受け渡しパターンを踏襲
+ */
+
+// ========================================
+// クエリフック（データ取得）
+// ========================================
+
+/**
+ * 自動分類ルール一覧を優先順位順に取得するフック
+ */
+export function useCategorizationRules(
+	options?: Partial<UseQueryOptions<CategorizationRulesListResponse, ApiError>>,
+) {
+	return useQuery({
+		queryKey: queryKeys.categorizationRules.lists(),
+		queryFn: () => apiServices.categorizationRules.getCategorizationRules(),
+		...options,
+	});
+}
+
+// ========================================
+// ミューテーションフック（データ更新）
+// ========================================
+
+/**
+ * 自動分類ルール作成のフック
+ */
+export function useCreateCategorizationRule(
+	options?: UseMutationOptions<
+		CategorizationRuleDetailResponse,
+		ApiError,
+		CreateCategorizationRuleRequest
+	>,
+) {
+	const queryClient = useQueryClient();
+
+	const { onSuccess: userOnSuccess, ...restOptions } = options ?? {};
+
+	return useMutation({
+		mutationFn: (data: CreateCategorizationRuleRequest) =>
+			apiServices.categorizationRules.createCategorizationRule(data),
+		onSuccess: (data, variables, context) => {
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.categorizationRules.all,
+			});
+
+			// ユーザー提供のonSuccessも実行
+			userOnSuccess?.(data, variables, context);
+		},
+		...restOptions,
+	});
+}
+
+/**
+ * 自動分類ルール更新のフック
+ */
+export function useUpdateCategorizationRule(
+	options?: UseMutationOptions<
+		CategorizationRuleDetailResponse,
+		ApiError,
+		{ id: number; data: UpdateCategorizationRuleRequest }
+	>,
+) {
+	const queryClient = useQueryClient();
+
+	const { onSuccess: userOnSuccess, ...restOptions } = options ?? {};
+
+	return useMutation({
+		mutationFn: ({
+			id,
+			data,
+		}: { id: number; data: UpdateCategorizationRuleRequest }) =>
+			apiServices.categorizationRules.updateCategorizationRule(id, data),
+		onSuccess: (data, variables, context) => {
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.categorizationRules.all,
+			});
+
+			// ユーザー提供のonSuccessも実行
+			userOnSuccess?.(data, variables, context);
+		},
+		...restOptions,
+	});
+}
+
+/**
+ * 自動分類ルール削除のフック
+ */
+export function useDeleteCategorizationRule(
+	options?: UseMutationOptions<BaseApiResponse, ApiError, number>,
+) {
+	const queryClient = useQueryClient();
+
+	const { onSuccess: userOnSuccess, ...restOptions } = options ?? {};
+
+	return useMutation({
+		mutationFn: (id: number) =>
+			apiServices.categorizationRules.deleteCategorizationRule(id),
+		onSuccess: (data, id, context) => {
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.categorizationRules.all,
+			});
+
+			// ユーザー提供のonSuccessも実行
+			userOnSuccess?.(data, id, context);
+		},
+		...restOptions,
+	});
+}
+
+/**
+ * 自動分類ルールの優先順位を一括更新するフック
+ */
+export function useReorderCategorizationRules(
+	options?: UseMutationOptions<
+		BaseApiResponse,
+		ApiError,
+		ReorderCategorizationRulesRequest
+	>,
+) {
+	const queryClient = useQueryClient();
+
+	const { onSuccess: userOnSuccess, ...restOptions } = options ?? {};
+
+	return useMutation({
+		mutationFn: (data: ReorderCategorizationRulesRequest) =>
+			apiServices.categorizationRules.reorderCategorizationRules(data),
+		onSuccess: (data, variables, context) => {
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.categorizationRules.all,
+			});
+
+			// ユーザー提供のonSuccessも実行
+			userOnSuccess?.(data, variables, context);
+		},
+		...restOptions,
+	});
+}
+
+/**
+ * 既存の取引へのルールの再適用のフック（dryRunの場合はプレビューの取得のみ）
+ */
+export function useApplyCategorizationRules(
+	options?: UseMutationOptions<
+		ApplyCategorizationRulesResponse,
+		ApiError,
+		ApplyCategorizationRulesRequest
+	>,
+) {
+	const queryClient = useQueryClient();
+
+	const { onSuccess: userOnSuccess, ...restOptions } = options ?? {};
+
+	return useMutation({
+		mutationFn: (data: ApplyCategorizationRulesRequest) =>
+			apiServices.categorizationRules.applyCategorizationRules(data),
+		onSuccess: (data, variables, context) => {
+			if (!data.data.dryRun) {
+				// 取引のカテゴリ・タグ・説明が変わるため、取引と集計のキャッシュを無効化
+				queryClient.invalidateQueries({
+					queryKey: queryKeys.transactions.all,
+				});
+				queryClient.invalidateQueries({
+					queryKey: queryKeys.budgets.all,
+				});
+				queryClient.invalidateQueries({
+					queryKey: queryKeys.dashboard.all,
+				});
+				queryClient.invalidateQueries({
+					queryKey: queryKeys.tags.all,
+				});
+			}
+
+			// ユーザー提供のonSuccessも実行
+			userOnSuccess?.(data, variables, context);
+		},
+		...restOptions,
+	});
+}
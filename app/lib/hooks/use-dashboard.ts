@@ -0,0 +1,26 @@
+import { type UseQueryOptions, useQuery } from "@tanstack/react-query";
+import type { ApiError } from "../api/client";
+import { apiServices } from "../api/services";
+import { queryKeys } from "../query/provider";
+import type { DashboardSummaryResponse } from "../schemas/api-responses";
+
+/**
+ * ダッシュボード関連のカスタムフック
+ *
+ * 設計方針:
+ * - サマリーカードの全データを1つのクエリで取得し、リクエストの分散を避ける
+ * - 取引・サブスクの変更時は各ミューテーションが dashboard.all を無効化する
+ */
+
+/**
+ * 今月の収支・サブスク負担額のサマリーを取得するフック
+ */
+export function useDashboardSummary(
+	options?: Partial<UseQueryOptions<DashboardSummaryResponse, ApiError>>,
+) {
+	return useQuery({
+		queryKey: queryKeys.dashboard.summary(),
+		queryFn: () => apiServices.dashboard.getSummary(),
+		...options,
+	});
+}
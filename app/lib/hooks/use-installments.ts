@@ -0,0 +1,160 @@
+import {
+	type QueryClient,
+	type UseMutationOptions,
+	type UseQueryOptions,
+	useMutation,
+	useQuery,
+	useQueryClient,
+} from "@tanstack/react-query";
+import type { ApiError } from "../api/client";
+import { apiServices } from "../api/services";
+import { queryKeys } from "../query/provider";
+import type {
+	BaseApiResponse,
+	CreateInstallmentPlanRequest,
+	InstallmentPlanDetailResponse,
+	InstallmentPlansListResponse,
+	PayOffInstallmentPlanRequest,
+	PayOffInstallmentPlanResponse,
+} from "../schemas/api-responses";
+
+/**
+ * 分割払い関連のカスタムフック
+ *
+ * 設計方針:
+ * - queryKeys.installmentsファクトリーによる一貫したキャッシュ管理
+ * - 分割払いは定期取引（サブスクリプション）と支出の取引を伴うため、変更時はそれらのキャッシュも無効化する
+ * - 既存の口座フックと同じオプション受け渡しパターンを踏襲
+ */
+
+/**
+ * 分割払いの変更で影響を受けるキャッシュを無効化
+ */
+function invalidateInstallmentRelatedQueries(queryClient: QueryClient) {
+	queryClient.invalidateQueries({
+		queryKey: queryKeys.installments.all,
+	});
+	queryClient.invalidateQueries({
+		queryKey: queryKeys.subscriptions.all,
+	});
+	queryClient.invalidateQueries({
+		queryKey: queryKeys.transactions.all,
+	});
+}
+
+// ========================================
+// クエリフック（データ取得）
+// ========================================
+
+/**
+ * 分割払い一覧を残高・残り回数付きで取得するフック
+ */
+export function useInstallmentPlans(
+	options?: Partial<UseQueryOptions<InstallmentPlansListResponse, ApiError>>,
+) {
+	return useQuery({
+		queryKey: queryKeys.installments.lists(),
+		queryFn: () => apiServices.installments.getInstallmentPlans(),
+		...options,
+	});
+}
+
+/**
+ * 分割払いの詳細を全回の支払予定付きで取得するフック
+ */
+export function useInstallmentPlan(
+	id: number,
+	options?: Partial<UseQueryOptions<InstallmentPlanDetailResponse, ApiError>>,
+) {
+	return useQuery({
+		queryKey: queryKeys.installments.detail(id),
+		queryFn: () => apiServices.installments.getInstallmentPlan(id),
+		enabled: !!id,
+		...options,
+	});
+}
+
+// ========================================
+// ミューテーションフック（データ更新）
+// ========================================
+
+/**
+ * 分割払い登録のフック
+ */
+export function useCreateInstallmentPlan(
+	options?: UseMutationOptions<
+		InstallmentPlanDetailResponse,
+		ApiError,
+		CreateInstallmentPlanRequest
+	>,
+) {
+	const queryClient = useQueryClient();
+
+	const { onSuccess: userOnSuccess, ...restOptions } = options ?? {};
+
+	return useMutation({
+		mutationFn: (data: CreateInstallmentPlanRequest) =>
+			apiServices.installments.createInstallmentPlan(data),
+		onSuccess: (data, variables, context) => {
+			invalidateInstallmentRelatedQueries(queryClient);
+
+			// ユーザー提供のonSuccessも実行
+			userOnSuccess?.(data, variables, context);
+		},
+		...restOptions,
+	});
+}
+
+/**
+ * 分割払いの繰上げ返済のフック
+ */
+export function usePayOffInstallmentPlan(
+	options?: UseMutationOptions<
+		PayOffInstallmentPlanResponse,
+		ApiError,
+		{ id: number; data?: PayOffInstallmentPlanRequest }
+	>,
+) {
+	const queryClient = useQueryClient();
+
+	const { onSuccess: userOnSuccess, ...restOptions } = options ?? {};
+
+	return useMutation({
+		mutationFn: ({
+			id,
+			data,
+		}: { id: number; data?: PayOffInstallmentPlanRequest }) =>
+			apiServices.installments.payOffInstallmentPlan(id, data),
+		onSuccess: (data, variables, context) => {
+			// 返済の取引が作成され定期取引も停止するため関連キャッシュを無効化
+			invalidateInstallmentRelatedQueries(queryClient);
+
+			// ユーザー提供のonSuccessも実行
+			userOnSuccess?.(data, variables, context);
+		},
+		...restOptions,
+	});
+}
+
+/**
+ * 分割払い削除のフック
+ */
+export function useDeleteInstallmentPlan(
+	options?: UseMutationOptions<BaseApiResponse, ApiError, number>,
+) {
+	const queryClient = useQueryClient();
+
+	const { onSuccess: userOnSuccess, ...restOptions } = options ?? {};
+
+	return useMutation({
+		mutationFn: (id: number) =>
+			apiServices.installments.deleteInstallmentPlan(id),
+		onSuccess: (data, id, context) => {
+			invalidateInstallmentRelatedQueries(queryClient);
+
+			// ユーザー提供のonSuccessも実行
+			userOnSuccess?.(data, id, context);
+		},
+		...restOptions,
+	});
+}
@@ -0,0 +1,100 @@
+import {
+	type UseMutationOptions,
+	type UseQueryOptions,
+	useMutation,
+	useQuery,
+	useQueryClient,
+} from "@tanstack/react-query";
+import type { ApiError } from "../api/client";
+import { apiServices } from "../api/services";
+import { queryKeys } from "../query/provider";
+import type {
+	NotificationListParams,
+	NotificationReadResponse,
+	NotificationsListResponse,
+	NotificationsReadAllResponse,
+} from "../schemas/api-responses";
+
+/**
+ * 通知関連のカスタムフック
+ *
+ * 設計方針:
+ * - 通知はサーバーの定期実行で作成されるため、一覧は一定間隔で再取得する
+ * - 既読にした場合は一覧（未読の件数を含む）をすべて無効化する
+ * - 既存のタグ・自動分類ルールフックと同じオプション受け渡しパターンを踏襲
+ */
+
+// 通知一覧の再取得間隔（5分）
+const NOTIFICATION_REFETCH_INTERVAL_MS = 5 * 60 * 1000;
+
+// ========================================
+// クエリフック（データ取得）
+// ========================================
+
+/**
+ * 通知一覧（未読の件数付き）を取得するフック
+ */
+export function useNotifications(
+	params: NotificationListParams = {},
+	options?: Partial<UseQueryOptions<NotificationsListResponse, ApiError>>,
+) {
+	return useQuery({
+		queryKey: queryKeys.notifications.list(params),
+		queryFn: () => apiServices.notifications.getNotifications(params),
+		refetchInterval: NOTIFICATION_REFETCH_INTERVAL_MS,
+		...options,
+	});
+}
+
+// ========================================
+// ミューテーションフック（データ更新）
+// ========================================
+
+/**
+ * 通知を既読にするフック
+ */
+export function useMarkNotificationRead(
+	options?: UseMutationOptions<NotificationReadResponse, ApiError, number>,
+) {
+	const queryClient = useQueryClient();
+
+	const { onSuccess: userOnSuccess, ...restOptions } = options ?? {};
+
+	return useMutation({
+		mutationFn: (id: number) =>
+			apiServices.notifications.markNotificationRead(id),
+		onSuccess: (data, id, context) => {
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.notifications.all,
+			});
+
+			// ユーザー提供のonSuccessも実行
+			userOnSuccess?.(data, id, context);
+		},
+		...restOptions,
+	});
+}
+
+/**
+ * 未読の通知をすべて既読にするフック
+ */
+export function useMarkAllNotificationsRead(
+	options?: UseMutationOptions<NotificationsReadAllResponse, ApiError, void>,
+) {
+	const queryClient = useQueryClient();
+
+	const { onSuccess: userOnSuccess, ...restOptions } = options ?? {};
+
+	return useMutation({
+		mutationFn: () => apiServices.notifications.markAllNotificationsRead(),
+		onSuccess: (data, variables, context) => {
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.notifications.all,
+			});
+
+			// ユーザー提供のonSuccessも実行
+			userOnSuccess?.(data, variables, context);
+		},
+		...restOptions,
+	});
+}
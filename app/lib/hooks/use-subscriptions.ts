@@ -5,14 +5,25 @@ import {
 	useQuery,
 	useQueryClient,
 } from "@tanstack/react-query";
+import {
+	getMonthlyEquivalentAmount,
+	getTodayInJst,
+} from "../../../db/queries/recurrence";
 import type { ApiError } from "../api/client";
 import { apiServices } from "../api/services";
 import { queryKeys } from "../query/provider";
 import type {
 	BaseApiResponse,
 	CreateSubscriptionRequest,
+	RecordSubscriptionPeriodRequest,
 	SubscriptionDetailResponse,
+	SubscriptionPaymentsResponse,
+	SubscriptionPriceHistoryResponse,
+	SubscriptionRemindersResponse,
 	SubscriptionsListResponse,
+	UpcomingSubscriptionEventsParams,
+	UpcomingSubscriptionEventsResponse,
+	UpdateSubscriptionRemindersRequest,
 	UpdateSubscriptionRequest,
 } from "../schemas/api-responses";
 
@@ -58,6 +69,72 @@ export function useSubscription(
 	});
 }
 
+/**
+ * サブスクリプションの価格の推移と支払済みの合計を取得するフック
+ * 更新時はサブスクリプション詳細と合わせて無効化される（キーが詳細のキーを含む）
+ */
+export function useSubscriptionPriceHistory(
+	id: number,
+	options?: Partial<
+		UseQueryOptions<SubscriptionPriceHistoryResponse, ApiError>
+	>,
+) {
+	return useQuery({
+		queryKey: queryKeys.subscriptions.prices(id),
+		queryFn: () => apiServices.subscriptions.getSubscriptionPriceHistory(id),
+		enabled: !!id,
+		...options,
+	});
+}
+
+/**
+ * サブスクリプションの支払い履歴（支払い・期間ごとの状態・合計）を取得するフック
+ */
+export function useSubscriptionPayments(
+	id: number,
+	options?: Partial<UseQueryOptions<SubscriptionPaymentsResponse, ApiError>>,
+) {
+	return useQuery({
+		queryKey: queryKeys.subscriptions.payments(id),
+		queryFn: () => apiServices.subscriptions.getSubscriptionPayments(id),
+		enabled: !!id,
+		...options,
+	});
+}
+
+/**
+ * サブスクリプションのリマインダーの設定を取得するフック
+ */
+export function useSubscriptionReminders(
+	id: number,
+	options?: Partial<UseQueryOptions<SubscriptionRemindersResponse, ApiError>>,
+) {
+	return useQuery({
+		queryKey: queryKeys.subscriptions.reminders(id),
+		queryFn: () => apiServices.subscriptions.getSubscriptionReminders(id),
+		enabled: !!id,
+		...options,
+	});
+}
+
+/**
+ * 今後の支払い・トライアル終了・解約期限を取得するフック
+ * サブスクリプションの変更時はダッシュボードのキャッシュと合わせて無効化される
+ */
+export function useUpcomingSubscriptionEvents(
+	params: UpcomingSubscriptionEventsParams = {},
+	options?: Partial<
+		UseQueryOptions<UpcomingSubscriptionEventsResponse, ApiError>
+	>,
+) {
+	return useQuery({
+		queryKey: queryKeys.dashboard.upcoming(params),
+		queryFn: () =>
+			apiServices.subscriptions.getUpcomingSubscriptionEvents(params),
+		...options,
+	});
+}
+
 // ========================================
 // ミューテーションフック（データ更新）
 // ========================================
@@ -84,6 +161,10 @@ export function useCreateSubscription(
 			queryClient.invalidateQueries({
 				queryKey: queryKeys.subscriptions.lists(),
 			});
+			// 月額換算の負担額が変わるためダッシュボードのサマリーも無効化
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.dashboard.all,
+			});
 
 			// 新しいサブスクリプションをキャッシュに追加
 			queryClient.setQueryData<SubscriptionDetailResponse>(
@@ -178,6 +259,10 @@ export function useUpdateSubscription(
 			queryClient.invalidateQueries({
 				queryKey: queryKeys.subscriptions.lists(),
 			});
+			// 月額換算の負担額が変わるためダッシュボードのサマリーも無効化
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.dashboard.all,
+			});
 			queryClient.invalidateQueries({
 				queryKey: queryKeys.transactions.all,
 			});
@@ -189,6 +274,89 @@ export function useUpdateSubscription(
 	});
 }
 
+/**
+ * 支払い期間の記録（スキップ・支払済み）のフック
+ * 取引の作成・修正・削除を伴うため、取引とダッシュボードのキャッシュも無効化する
+ */
+export function useRecordSubscriptionPeriod(
+	options?: UseMutationOptions<
+		SubscriptionPaymentsResponse,
+		ApiError,
+		{ id: number; data: RecordSubscriptionPeriodRequest }
+	>,
+) {
+	const queryClient = useQueryClient();
+
+	const { onSuccess: userOnSuccess, ...restOptions } = options ?? {};
+
+	return useMutation({
+		mutationFn: ({
+			id,
+			data,
+		}: { id: number; data: RecordSubscriptionPeriodRequest }) =>
+			apiServices.subscriptions.recordSubscriptionPeriod(id, data),
+		onSuccess: (data, variables, context) => {
+			// 記録後の支払い履歴をキャッシュに反映
+			queryClient.setQueryData<SubscriptionPaymentsResponse>(
+				queryKeys.subscriptions.payments(variables.id),
+				data,
+			);
+			// 価格履歴の支払総額も変わるため無効化
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.subscriptions.prices(variables.id),
+			});
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.transactions.all,
+			});
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.dashboard.all,
+			});
+
+			// ユーザー提供のonSuccessも実行
+			userOnSuccess?.(data, variables, context);
+		},
+		...restOptions,
+	});
+}
+
+/**
+ * リマインダーの設定の更新のフック
+ * 解約期限は「今後の支払い」にも表示するため、ダッシュボードのキャッシュも無効化する
+ */
+export function useUpdateSubscriptionReminders(
+	options?: UseMutationOptions<
+		SubscriptionRemindersResponse,
+		ApiError,
+		{ id: number; data: UpdateSubscriptionRemindersRequest }
+	>,
+) {
+	const queryClient = useQueryClient();
+
+	const { onSuccess: userOnSuccess, ...restOptions } = options ?? {};
+
+	return useMutation({
+		mutationFn: ({
+			id,
+			data,
+		}: { id: number; data: UpdateSubscriptionRemindersRequest }) =>
+			apiServices.subscriptions.updateSubscriptionReminders(id, data),
+		onSuccess: (data, variables, context) => {
+			// 更新後の設定をキャッシュに反映
+			queryClient.setQueryData<SubscriptionRemindersResponse>(
+				queryKeys.subscriptions.reminders(variables.id),
+				data,
+			);
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.dashboard.all,
+			});
+
+			// ユーザー提供のonSuccessも実行
+			userOnSuccess?.(data, variables, context);
+		},
+		...restOptions,
+	});
+}
+
 /**
  * サブスクリプション削除のフック
  */
@@ -272,6 +440,10 @@ export function useDeleteSubscription(
 			queryClient.invalidateQueries({
 				queryKey: queryKeys.subscriptions.lists(),
 			});
+			// 月額換算の負担額が変わるためダッシュボードのサマリーも無効化
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.dashboard.all,
+			});
 			queryClient.invalidateQueries({
 				queryKey: queryKeys.transactions.all,
 			});
@@ -354,6 +526,10 @@ export function useDeactivateSubscription(
 			queryClient.invalidateQueries({
 				queryKey: queryKeys.subscriptions.lists(),
 			});
+			// 月額換算の負担額が変わるためダッシュボードのサマリーも無効化
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.dashboard.all,
+			});
 
 			// ユーザー提供のonSettledも実行
 			userOnSettled?.(data, error, id, context);
@@ -433,6 +609,10 @@ export function useActivateSubscription(
 			queryClient.invalidateQueries({
 				queryKey: queryKeys.subscriptions.lists(),
 			});
+			// 月額換算の負担額が変わるためダッシュボードのサマリーも無効化
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.dashboard.all,
+			});
 
 			// ユーザー提供のonSettledも実行
 			userOnSettled?.(data, error, id, context);
@@ -520,18 +700,11 @@ export function useCurrentMonthSubscriptions(
 		...rest
 	} = useActiveSubscriptions(options);
 
-	const now = new Date();
-	const currentMonth = now.getMonth();
-	const currentYear = now.getFullYear();
+	// 日本時間の今月（YYYY-MM）と次回支払日の年月を比較
+	const currentMonth = getTodayInJst().slice(0, 7);
 
 	const thisMonthSubscriptions = subscriptionsResponse?.data.filter(
-		(subscription) => {
-			const nextPaymentDate = new Date(subscription.nextPaymentDate);
-			return (
-				nextPaymentDate.getMonth() === currentMonth &&
-				nextPaymentDate.getFullYear() === currentYear
-			);
-		},
+		(subscription) => subscription.nextPaymentDate.startsWith(currentMonth),
 	);
 
 	return {
@@ -550,6 +723,7 @@ export function useCurrentMonthSubscriptions(
 
 /**
  * 月間サブスクリプション総額を計算するフック
+ * 月額への換算はサーバー側のgetMonthlySubscriptionTotalと同じgetMonthlyEquivalentAmountを使う
  */
 export function useSubscriptionsTotalCost() {
 	const { data: subscriptionsResponse } = useActiveSubscriptions();
@@ -558,23 +732,11 @@ export function useSubscriptionsTotalCost() {
 
 	const totals = subscriptionsResponse.data.reduce(
 		(acc, subscription) => {
-			let monthlyAmount = 0;
-			const amount = Number(subscription.amount);
-
-			switch (subscription.frequency) {
-				case "monthly":
-					monthlyAmount = amount;
-					break;
-				case "yearly":
-					monthlyAmount = amount / 12;
-					break;
-				case "weekly":
-					monthlyAmount = (amount * 52) / 12;
-					break;
-				case "daily":
-					monthlyAmount = amount * 30; // 概算
-					break;
-			}
+			const monthlyAmount = getMonthlyEquivalentAmount(
+				Number(subscription.amount),
+				subscription.frequency,
+				subscription.intervalCount ?? 1,
+			);
 
 			acc.monthlyTotal += monthlyAmount;
 			acc.yearlyTotal += monthlyAmount * 12;
@@ -0,0 +1,155 @@
+import {
+	type UseMutationOptions,
+	type UseQueryOptions,
+	useMutation,
+	useQuery,
+	useQueryClient,
+} from "@tanstack/react-query";
+import type { ApiError } from "../api/client";
+import { apiServices } from "../api/services";
+import { queryKeys } from "../query/provider";
+import type {
+	MergeTagsRequest,
+	TagMutationResponse,
+	TagStatsParams,
+	TagStatsResponse,
+	TagsListResponse,
+	UpdateTagRequest,
+} from "../schemas/api-responses";
+
+/**
+ * タグ関連のカスタムフック
+ *
+ * 設計方針:
+ * - queryKeys.tagsファクトリーによる一貫したキャッシュ管理
+ * - タグの名前の変更・統合・削除は付いている取引と自動分類ルールも書き換えるため、
+ *   取引・自動分類ルールのキャッシュも無効化する
+ * - 既存の自動分類ルールフックと同じオプション受け渡しパターンを踏襲
+ */
+
+// ========================================
+// クエリフック（データ取得）
+// ========================================
+
+/**
+ * タグ一覧を使用件数の多い順に取得するフック
+ */
+export function useTags(
+	options?: Partial<UseQueryOptions<TagsListResponse, ApiError>>,
+) {
+	return useQuery({
+		queryKey: queryKeys.tags.lists(),
+		queryFn: () => apiServices.tags.getTags(),
+		...options,
+	});
+}
+
+/**
+ * 期間内のタグ別の収入・支出を取得するフック
+ */
+export function useTagStats(
+	params: TagStatsParams = {},
+	options?: Partial<UseQueryOptions<TagStatsResponse, ApiError>>,
+) {
+	return useQuery({
+		queryKey: queryKeys.tags.stats(params),
+		queryFn: () => apiServices.tags.getTagStats(params),
+		...options,
+	});
+}
+
+// ========================================
+// ミューテーションフック（データ更新）
+// ========================================
+
+/**
+ * タグの変更で書き換わるキャッシュを無効化する
+ */
+function useInvalidateTagRelatedQueries() {
+	const queryClient = useQueryClient();
+
+	return (updatedTransactions: number) => {
+		queryClient.invalidateQueries({
+			queryKey: queryKeys.tags.all,
+		});
+		queryClient.invalidateQueries({
+			queryKey: queryKeys.categorizationRules.all,
+		});
+		if (updatedTransactions > 0) {
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.transactions.all,
+			});
+		}
+	};
+}
+
+/**
+ * タグ更新（名前の変更・色の設定）のフック
+ */
+export function useUpdateTag(
+	options?: UseMutationOptions<
+		TagMutationResponse,
+		ApiError,
+		{ id: number; data: UpdateTagRequest }
+	>,
+) {
+	const invalidateTagRelatedQueries = useInvalidateTagRelatedQueries();
+
+	const { onSuccess: userOnSuccess, ...restOptions } = options ?? {};
+
+	return useMutation({
+		mutationFn: ({ id, data }: { id: number; data: UpdateTagRequest }) =>
+			apiServices.tags.updateTag(id, data),
+		onSuccess: (data, variables, context) => {
+			invalidateTagRelatedQueries(data.updatedTransactions);
+
+			// ユーザー提供のonSuccessも実行
+			userOnSuccess?.(data, variables, context);
+		},
+		...restOptions,
+	});
+}
+
+/**
+ * タグ統合のフック
+ */
+export function useMergeTags(
+	options?: UseMutationOptions<TagMutationResponse, ApiError, MergeTagsRequest>,
+) {
+	const invalidateTagRelatedQueries = useInvalidateTagRelatedQueries();
+
+	const { onSuccess: userOnSuccess, ...restOptions } = options ?? {};
+
+	return useMutation({
+		mutationFn: (data: MergeTagsRequest) => apiServices.tags.mergeTags(data),
+		onSuccess: (data, variables, context) => {
+			invalidateTagRelatedQueries(data.updatedTransactions);
+
+			// ユーザー提供のonSuccessも実行
+			userOnSuccess?.(data, variables, context);
+		},
+		...restOptions,
+	});
+}
+
+/**
+ * タグ削除のフック
+ */
+export function useDeleteTag(
+	options?: UseMutationOptions<TagMutationResponse, ApiError, number>,
+) {
+	const invalidateTagRelatedQueries = useInvalidateTagRelatedQueries();
+
+	const { onSuccess: userOnSuccess, ...restOptions } = options ?? {};
+
+	return useMutation({
+		mutationFn: (id: number) => apiServices.tags.deleteTag(id),
+		onSuccess: (data, id, context) => {
+			invalidateTagRelatedQueries(data.updatedTransactions);
+
+			// ユーザー提供のonSuccessも実行
+			userOnSuccess?.(data, id, context);
+		},
+		...restOptions,
+	});
+}
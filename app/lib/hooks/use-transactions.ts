@@ -0,0 +1,307 @@
+import {
+	type UseMutationOptions,
+	type UseQueryOptions,
+	useMutation,
+	useQuery,
+	useQueryClient,
+} from "@tanstack/react-query";
+import type { ApiError } from "../api/client";
+import { apiServices } from "../api/services";
+import { queryKeys } from "../query/provider";
+import type {
+	BaseApiResponse,
+	CategorySuggestionParams,
+	CategorySuggestionsResponse,
+	CreateTransactionRequest,
+	ImportTransactionsRequest,
+	ImportTransactionsResponse,
+	TransactionDetailResponse,
+	TransactionListParams,
+	TransactionStatsParams,
+	TransactionStatsResponse,
+	TransactionsListResponse,
+	UpdateTransactionRequest,
+} from "../schemas/api-responses";
+
+/**
+ * 取引（収入・支出）関連のカスタムフック
+ *
+ * 設計方針:
+ * - queryKeys.transactionsファクトリーによる一貫したキャッシュ管理
+ * - 取引の変更は統計・一覧の両方に影響するため transactions.all を無効化
+ * - 支出実績を集計する予算状況・ダッシュボードのサマリー・口座残高・タグの使用件数も取引の変更に追従させる
+ * - 既存のサブスクリプションフックと同じオプション受け渡しパターンを踏襲
+ */
+
+// ========================================
+// クエリフック（データ取得）
+// ========================================
+
+/**
+ * 取引一覧を取得するフック
+ * 検索条件ごとに別のキャッシュエントリとして管理する
+ */
+export function useTransactions(
+	params: TransactionListParams = {},
+	options?: Partial<UseQueryOptions<TransactionsListResponse, ApiError>>,
+) {
+	const { sortBy, sortOrder, page, limit, ...filters } = params;
+
+	return useQuery({
+		queryKey: queryKeys.transactions.list({
+			filters,
+			sort: { sortBy, sortOrder },
+			page,
+			limit,
+		}),
+		queryFn: () => apiServices.transactions.getTransactions(params),
+		// ページ切り替え時に前ページのデータを表示し続ける
+		placeholderData: (previousData) => previousData,
+		...options,
+	});
+}
+
+/**
+ * 取引詳細を取得するフック
+ */
+export function useTransaction(
+	id: number,
+	options?: UseQueryOptions<TransactionDetailResponse, ApiError>,
+) {
+	return useQuery({
+		queryKey: queryKeys.transactions.detail(id),
+		queryFn: () => apiServices.transactions.getTransaction(id),
+		enabled: !!id,
+		...options,
+	});
+}
+
+/**
+ * 期間内の収支統計を取得するフック（レポート画面用）
+ * 取引の変更時は transactions.all の無効化により再取得される
+ */
+export function useTransactionStats(
+	params: TransactionStatsParams = {},
+	options?: Partial<UseQueryOptions<TransactionStatsResponse, ApiError>>,
+) {
+	return useQuery({
+		queryKey: queryKeys.transactions.stats(params),
+		queryFn: () => apiServices.transactions.getTransactionStats(params),
+		...options,
+	});
+}
+
+/**
+ * 入力中の取引のカテゴリ候補を取得するフック
+ * 入力のたびに再取得するため、呼び出し側で説明の入力を間引いてから渡す
+ */
+export function useCategorySuggestions(
+	params: CategorySuggestionParams,
+	options?: Partial<UseQueryOptions<CategorySuggestionsResponse, ApiError>>,
+) {
+	return useQuery({
+		queryKey: queryKeys.transactions.categorySuggestions(params),
+		queryFn: () => apiServices.transactions.getCategorySuggestions(params),
+		// 入力中に候補が一瞬消えないよう、再取得中は前回の候補を表示する
+		placeholderData: (previousData) => previousData,
+		...options,
+	});
+}
+
+// ========================================
+// ミューテーションフック（データ更新）
+// ========================================
+
+/**
+ * 取引作成のフック
+ */
+export function useCreateTransaction(
+	options?: UseMutationOptions<
+		TransactionDetailResponse,
+		ApiError,
+		CreateTransactionRequest
+	>,
+) {
+	const queryClient = useQueryClient();
+
+	const { onSuccess: userOnSuccess, ...restOptions } = options ?? {};
+
+	return useMutation({
+		mutationFn: (data: CreateTransactionRequest) =>
+			apiServices.transactions.createTransaction(data),
+		onSuccess: (data, variables, context) => {
+			// 一覧・統計を含む取引関連キャッシュを無効化
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.transactions.all,
+			});
+			// 支出実績が変わるため予算状況・ダッシュボードのサマリー・口座残高も無効化
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.budgets.all,
+			});
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.dashboard.all,
+			});
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.accounts.all,
+			});
+			// タグの使用件数・新しいタグも取引の変更に追従させる
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.tags.all,
+			});
+
+			// 新しい取引をキャッシュに追加
+			queryClient.setQueryData<TransactionDetailResponse>(
+				queryKeys.transactions.detail(data.data.id),
+				data,
+			);
+
+			// ユーザー提供のonSuccessも実行
+			userOnSuccess?.(data, variables, context);
+		},
+		...restOptions,
+	});
+}
+
+/**
+ * 取引更新のフック
+ */
+export function useUpdateTransaction(
+	options?: UseMutationOptions<
+		TransactionDetailResponse,
+		ApiError,
+		{ id: number; data: UpdateTransactionRequest }
+	>,
+) {
+	const queryClient = useQueryClient();
+
+	const { onSuccess: userOnSuccess, ...restOptions } = options ?? {};
+
+	return useMutation({
+		mutationFn: ({
+			id,
+			data,
+		}: { id: number; data: UpdateTransactionRequest }) =>
+			apiServices.transactions.updateTransaction(id, data),
+		onSuccess: (data, variables, context) => {
+			// 更新後のデータで詳細キャッシュを置き換え
+			queryClient.setQueryData<TransactionDetailResponse>(
+				queryKeys.transactions.detail(variables.id),
+				data,
+			);
+
+			// 一覧・統計を含む取引関連キャッシュを無効化
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.transactions.all,
+			});
+			// 支出実績が変わるため予算状況・ダッシュボードのサマリー・口座残高も無効化
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.budgets.all,
+			});
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.dashboard.all,
+			});
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.accounts.all,
+			});
+			// タグの使用件数・新しいタグも取引の変更に追従させる
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.tags.all,
+			});
+
+			// ユーザー提供のonSuccessも実行
+			userOnSuccess?.(data, variables, context);
+		},
+		...restOptions,
+	});
+}
+
+/**
+ * 取引削除のフック
+ */
+export function useDeleteTransaction(
+	options?: UseMutationOptions<BaseApiResponse, ApiError, number>,
+) {
+	const queryClient = useQueryClient();
+
+	const { onSuccess: userOnSuccess, ...restOptions } = options ?? {};
+
+	return useMutation({
+		mutationFn: (id: number) => apiServices.transactions.deleteTransaction(id),
+		onSuccess: (data, id, context) => {
+			// 削除された取引の詳細キャッシュを削除
+			queryClient.removeQueries({
+				queryKey: queryKeys.transactions.detail(id),
+			});
+
+			// 一覧・統計を含む取引関連キャッシュを無効化
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.transactions.all,
+			});
+			// 支出実績が変わるため予算状況・ダッシュボードのサマリー・口座残高も無効化
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.budgets.all,
+			});
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.dashboard.all,
+			});
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.accounts.all,
+			});
+			// タグの使用件数・新しいタグも取引の変更に追従させる
+			queryClient.invalidateQueries({
+				queryKey: queryKeys.tags.all,
+			});
+
+			// ユーザー提供のonSuccessも実行
+			userOnSuccess?.(data, id, context);
+		},
+		...restOptions,
+	});
+}
+
+/**
+ * 取引一括取り込み（CSVインポート）のフック
+ * dryRunでの重複判定ではデータが変わらないため、キャッシュ無効化は登録時のみ行う
+ */
+export function useImportTransactions(
+	options?: UseMutationOptions<
+		ImportTransactionsResponse,
+		ApiError,
+		ImportTransactionsRequest
+	>,
+) {
+	const queryClient = useQueryClient();
+
+	const { onSuccess: userOnSuccess, ...restOptions } = options ?? {};
+
+	return useMutation({
+		mutationFn: (data: ImportTransactionsRequest) =>
+			apiServices.transactions.importTransactions(data),
+		onSuccess: (data, variables, context) => {
+			if (!variables.dryRun) {
+				// 一覧・統計を含む取引関連キャッシュを無効化
+				queryClient.invalidateQueries({
+					queryKey: queryKeys.transactions.all,
+				});
+				// 支出実績が変わるため予算状況・ダッシュボードのサマリー・口座残高も無効化
+				queryClient.invalidateQueries({
+					queryKey: queryKeys.budgets.all,
+				});
+				queryClient.invalidateQueries({
+					queryKey: queryKeys.dashboard.all,
+				});
+				queryClient.invalidateQueries({
+					queryKey: queryKeys.accounts.all,
+				});
+				// タグの使用件数・新しいタグも取引の変更に追従させる
+				queryClient.invalidateQueries({
+					queryKey: queryKeys.tags.all,
+				});
+			}
+
+			// ユーザー提供のonSuccessも実行
+			userOnSuccess?.(data, variables, context);
+		},
+		...restOptions,
+	});
+}
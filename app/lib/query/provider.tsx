@@ -111,8 +111,12 @@ export const queryKeys = {
 		lists: () => [...queryKeys.categories.all, "list"] as const,
 		list: (filters?: Record<string, unknown>) =>
 			[...queryKeys.categories.lists(), { filters }] as const,
+		tree: (type?: "income" | "expense") =>
+			[...queryKeys.categories.lists(), "tree", { type }] as const,
 		details: () => [...queryKeys.categories.all, "detail"] as const,
 		detail: (id: number) => [...queryKeys.categories.details(), id] as const,
+		usage: (id: number) =>
+			[...queryKeys.categories.detail(id), "usage"] as const,
 	},
 
 	// 取引関連のクエリキー
@@ -129,6 +133,12 @@ export const queryKeys = {
 		detail: (id: number) => [...queryKeys.transactions.details(), id] as const,
 		stats: (params?: Record<string, unknown>) =>
 			[...queryKeys.transactions.all, "stats", { params }] as const,
+		categorySuggestions: (params?: Record<string, unknown>) =>
+			[
+				...queryKeys.transactions.all,
+				"category-suggestions",
+				{ params },
+			] as const,
 	},
 
 	// サブスクリプション関連のクエリキー
@@ -139,6 +149,73 @@ export const queryKeys = {
 			[...queryKeys.subscriptions.lists(), { filters }] as const,
 		details: () => [...queryKeys.subscriptions.all, "detail"] as const,
 		detail: (id: number) => [...queryKeys.subscriptions.details(), id] as const,
+		prices: (id: number) =>
+			[...queryKeys.subscriptions.detail(id), "prices"] as const,
+		payments: (id: number) =>
+			[...queryKeys.subscriptions.detail(id), "payments"] as const,
+		reminders: (id: number) =>
+			[...queryKeys.subscriptions.detail(id), "reminders"] as const,
+	},
+
+	// 予算関連のクエリキー
+	budgets: {
+		all: ["budgets"] as const,
+		lists: () => [...queryKeys.budgets.all, "list"] as const,
+		list: (filters?: Record<string, unknown>) =>
+			[...queryKeys.budgets.lists(), { filters }] as const,
+		details: () => [...queryKeys.budgets.all, "detail"] as const,
+		detail: (id: number) => [...queryKeys.budgets.details(), id] as const,
+		status: (params?: Record<string, unknown>) =>
+			[...queryKeys.budgets.all, "status", { params }] as const,
+	},
+
+	// 口座関連のクエリキー
+	accounts: {
+		all: ["accounts"] as const,
+		lists: () => [...queryKeys.accounts.all, "list"] as const,
+		ledger: (id: number, params?: Record<string, unknown>) =>
+			[...queryKeys.accounts.all, "ledger", id, { params }] as const,
+		statement: (id: number, month?: string) =>
+			[...queryKeys.accounts.all, "statement", id, { month }] as const,
+	},
+
+	// 分割払い関連のクエリキー
+	installments: {
+		all: ["installments"] as const,
+		lists: () => [...queryKeys.installments.all, "list"] as const,
+		details: () => [...queryKeys.installments.all, "detail"] as const,
+		detail: (id: number) => [...queryKeys.installments.details(), id] as const,
+	},
+
+	// 自動分類ルール関連のクエリキー
+	categorizationRules: {
+		all: ["categorizationRules"] as const,
+		lists: () => [...queryKeys.categorizationRules.all, "list"] as const,
+	},
+
+	// タグ関連のクエリキー
+	tags: {
+		all: ["tags"] as const,
+		lists: () => [...queryKeys.tags.all, "list"] as const,
+		stats: (params?: Record<string, unknown>) =>
+			[...queryKeys.tags.all, "stats", { params }] as const,
+	},
+
+	// ダッシュボード関連のクエリキー
+	dashboard: {
+		all: ["dashboard"] as const,
+		summary: () => [...queryKeys.dashboard.all, "summary"] as const,
+		// サブスクリプションの変更時に dashboard.all と合わせて無効化される
+		upcoming: (params?: Record<string, unknown>) =>
+			[...queryKeys.dashboard.all, "upcoming", { params }] as const,
+	},
+
+	// 通知関連のクエリキー
+	notifications: {
+		all: ["notifications"] as const,
+		lists: () => [...queryKeys.notifications.all, "list"] as const,
+		list: (params?: Record<string, unknown>) =>
+			[...queryKeys.notifications.lists(), { params }] as const,
 	},
 } as const;
 
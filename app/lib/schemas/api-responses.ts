@@ -1,11 +1,29 @@
 import { z } from "zod";
 import {
+	ACCOUNT_TYPES,
+	TRANSACTION_TYPES,
+	createCategorizationRuleSchema,
+	createInstallmentPlanSchema,
+	createTransactionSchema,
+	insertAccountSchema,
 	insertBudgetSchema,
 	insertCategorySchema,
+	insertSubscriptionReminderSchema,
 	insertSubscriptionSchema,
+	insertTagSchema,
+	selectAccountSchema,
 	selectBudgetSchema,
+	selectCardStatementSchema,
+	selectCategorizationRuleSchema,
 	selectCategorySchema,
+	selectInstallmentPlanSchema,
+	selectNotificationSchema,
+	selectSubscriptionReminderSchema,
 	selectSubscriptionSchema,
+	selectTagSchema,
+	selectTransactionSchema,
+	selectTransactionSplitSchema,
+	selectTransactionWithParsedTagsSchema,
 } from "../../../db/schema";
 
 /**
@@ -63,6 +81,7 @@ export const createCategoryRequestSchema = insertCategorySchema.pick({
 	type: true,
 	color: true,
 	icon: true,
+	parentId: true,
 	displayOrder: true,
 });
 
@@ -72,13 +91,22 @@ export const updateCategoryRequestSchema = insertCategorySchema
 		name: true,
 		color: true,
 		icon: true,
+		parentId: true,
 		displayOrder: true,
 	})
 	.partial();
 
-// カテゴリ並び替えリクエスト
+// カテゴリ並び替えリクエスト（同じ親カテゴリ内のカテゴリのみ）
 export const reorderCategoriesRequestSchema = z.object({
-	categoryIds: z.array(z.number().int().positive()),
+	categories: z
+		.array(
+			z.object({
+				id: z.number().int().positive(),
+				displayOrder: z.number().int().min(0),
+			}),
+		)
+		.min(1),
+	parentId: z.number().int().positive().nullable().optional(),
 });
 
 // カテゴリ一覧レスポンス
@@ -86,11 +114,61 @@ export const categoriesListResponseSchema = baseApiResponseSchema.extend({
 	data: z.array(selectCategorySchema),
 });
 
+// 子カテゴリを含むカテゴリ（ツリーの節）
+export type CategoryTreeNode = z.infer<typeof selectCategorySchema> & {
+	children: CategoryTreeNode[];
+};
+export const categoryTreeNodeSchema: z.ZodType<CategoryTreeNode> =
+	selectCategorySchema.extend({
+		children: z.lazy(() => z.array(categoryTreeNodeSchema)),
+	});
+
+// カテゴリのツリーレスポンス（最上位のカテゴリの配列）
+export const categoryTreeResponseSchema = baseApiResponseSchema.extend({
+	data: z.array(categoryTreeNodeSchema),
+});
+
 // カテゴリ詳細レスポンス
 export const categoryDetailResponseSchema = baseApiResponseSchema.extend({
 	data: selectCategorySchema,
 });
 
+// カテゴリを参照している取引・サブスクリプション・予算・自動分類ルールの件数
+export const categoryUsageSchema = z.object({
+	transactions: z.number().int().min(0),
+	subscriptions: z.number().int().min(0),
+	budgets: z.number().int().min(0),
+	categorizationRules: z.number().int().min(0),
+});
+
+// カテゴリの使用状況レスポンス
+export const categoryUsageResponseSchema = baseApiResponseSchema.extend({
+	data: categoryUsageSchema,
+});
+
+// カテゴリ削除のオプション（使用中のカテゴリはどちらかの指定が必須）
+export const deleteCategoryOptionsSchema = z
+	.object({
+		replacementCategoryId: z.number().int().positive().optional(),
+		archive: z.boolean().optional(),
+	})
+	.refine((data) => !(data.replacementCategoryId && data.archive), {
+		message: "付け替え先のカテゴリとアーカイブは同時に指定できません",
+	});
+
+// カテゴリ統合リクエスト
+export const mergeCategoriesRequestSchema = z.object({
+	sourceCategoryIds: z.array(z.number().int().positive()).min(1).max(50),
+	targetCategoryId: z.number().int().positive(),
+});
+
+// カテゴリ統合レスポンス（統合先のカテゴリと付け替えた参照の件数）
+export const categoryMergeResponseSchema = baseApiResponseSchema.extend({
+	data: selectCategorySchema,
+	usage: categoryUsageSchema,
+	message: z.string().optional(),
+});
+
 // ========================================
 // サブスクリプションAPI用スキーマ
 // ========================================
@@ -100,8 +178,15 @@ export const createSubscriptionRequestSchema = insertSubscriptionSchema.pick({
 	name: true,
 	amount: true,
 	categoryId: true,
+	accountId: true,
 	frequency: true,
 	nextPaymentDate: true,
+	intervalCount: true,
+	billingDay: true,
+	businessDayAdjustment: true,
+	endDate: true,
+	remainingPayments: true,
+	trialEndDate: true,
 	description: true,
 	autoGenerate: true,
 });
@@ -112,12 +197,26 @@ export const updateSubscriptionRequestSchema = insertSubscriptionSchema
 		name: true,
 		amount: true,
 		categoryId: true,
+		accountId: true,
 		frequency: true,
 		nextPaymentDate: true,
+		intervalCount: true,
+		billingDay: true,
+		businessDayAdjustment: true,
+		endDate: true,
+		remainingPayments: true,
+		trialEndDate: true,
 		description: true,
 		autoGenerate: true,
 	})
-	.partial();
+	.partial()
+	.extend({
+		// 新しい金額の適用日（未指定の場合は今日から適用）
+		priceEffectiveDate: z
+			.string()
+			.regex(/^\d{4}-\d{2}-\d{2}$/)
+			.optional(),
+	});
 
 // サブスクリプション一覧レスポンス
 export const subscriptionsListResponseSchema = baseApiResponseSchema.extend({
@@ -129,6 +228,811 @@ export const subscriptionDetailResponseSchema = baseApiResponseSchema.extend({
 	data: selectSubscriptionSchema,
 });
 
+// サブスクリプションの価格の推移（1件の記録）
+export const subscriptionPriceTimelineEntrySchema = z.object({
+	id: z.number().int(),
+	amount: z.number(),
+	effectiveDate: z.string(),
+	endDate: z.string().nullable(),
+	changeAmount: z.number().nullable(),
+	status: z.enum(["past", "current", "scheduled"]),
+	paidCount: z.number().int(),
+	paidAmount: z.number(),
+});
+
+// サブスクリプションの価格履歴レスポンス
+export const subscriptionPriceHistoryResponseSchema =
+	baseApiResponseSchema.extend({
+		data: z.object({
+			subscriptionId: z.number().int(),
+			timeline: z.array(subscriptionPriceTimelineEntrySchema),
+			currentAmount: z.number().nullable(),
+			scheduledChange: subscriptionPriceTimelineEntrySchema.nullable(),
+			totalPaid: z.number(),
+			paidCount: z.number().int(),
+		}),
+	});
+
+// サブスクリプションの支払い（定期取引として記録された取引）
+export const subscriptionPaymentTransactionSchema = z.object({
+	id: z.number().int(),
+	amount: z.number(),
+	transactionDate: z.string(),
+	description: z.string().nullable(),
+	accountId: z.number().int().nullable(),
+	isSplit: z.boolean(),
+});
+
+// サブスクリプションの支払い期間（1回分の支払日と実績）
+export const subscriptionPaymentPeriodSchema = z.object({
+	periodDate: z.string(),
+	status: z.enum(["paid", "skipped", "missed", "trial"]),
+	expectedAmount: z.number(),
+	paidAmount: z.number(),
+	transactionIds: z.array(z.number().int()),
+});
+
+// サブスクリプションの支払い履歴レスポンス
+export const subscriptionPaymentsResponseSchema = baseApiResponseSchema.extend({
+	data: z.object({
+		subscriptionId: z.number().int(),
+		transactions: z.array(subscriptionPaymentTransactionSchema),
+		periods: z.array(subscriptionPaymentPeriodSchema),
+		lifetimeTotal: z.number(),
+		lifetimeCount: z.number().int(),
+		yearToDateTotal: z.number(),
+		yearToDateCount: z.number().int(),
+		missedCount: z.number().int(),
+		skippedCount: z.number().int(),
+	}),
+});
+
+// サブスクリプションの支払い期間の記録リクエスト
+export const recordSubscriptionPeriodRequestSchema = z.object({
+	periodDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+	status: z.enum(["skipped", "paid"]),
+	amount: z.number().int().positive().optional(),
+});
+
+// サブスクリプションのリマインダーの設定レスポンス
+export const subscriptionRemindersResponseSchema = baseApiResponseSchema.extend(
+	{
+		data: z.array(selectSubscriptionReminderSchema),
+	},
+);
+
+// サブスクリプションのリマインダーの設定の更新リクエスト（設定をまとめて置き換える）
+export const updateSubscriptionRemindersRequestSchema = z.object({
+	reminders: z.array(
+		insertSubscriptionReminderSchema
+			.pick({
+				type: true,
+				daysBefore: true,
+				noticeDays: true,
+			})
+			.required({ daysBefore: true }),
+	),
+});
+
+// 今後の支払いの予定（支払い・トライアル終了・解約期限）
+export const upcomingSubscriptionEventSchema = z.object({
+	subscriptionId: z.number().int(),
+	name: z.string(),
+	type: z.enum(["payment", "trial_end", "cancellation_deadline"]),
+	date: z.string(),
+	amount: z.number().nullable(),
+	daysUntil: z.number().int(),
+});
+
+// 今後の支払いレスポンス
+export const upcomingSubscriptionEventsResponseSchema =
+	baseApiResponseSchema.extend({
+		data: z.array(upcomingSubscriptionEventSchema),
+	});
+
+// 今後の支払いの取得パラメータ
+export const upcomingSubscriptionEventsParamsSchema = z.object({
+	days: z.number().int().min(1).max(365).optional(),
+});
+
+// ========================================
+// 取引API用スキーマ
+// ========================================
+
+// 取引作成リクエスト
+export const createTransactionRequestSchema = createTransactionSchema.pick({
+	amount: true,
+	type: true,
+	categoryId: true,
+	description: true,
+	transactionDate: true,
+	paymentMethod: true,
+	accountId: true,
+	transferAccountId: true,
+	fee: true,
+	tags: true,
+	splits: true,
+});
+
+// 取引更新リクエスト
+export const updateTransactionRequestSchema =
+	createTransactionRequestSchema.partial();
+
+// 取引に付随するカテゴリ情報（LEFT JOINのためnull許容）
+export const transactionCategorySchema = selectCategorySchema
+	.pick({
+		id: true,
+		name: true,
+		type: true,
+		color: true,
+		icon: true,
+	})
+	.nullable();
+
+// 取引に付随する口座情報（LEFT JOINのためnull許容）
+export const transactionAccountSchema = selectAccountSchema
+	.pick({
+		id: true,
+		name: true,
+		type: true,
+	})
+	.nullable();
+
+// 取引の内訳行（複数カテゴリへの分割、カテゴリ情報を含む）
+export const transactionSplitWithCategorySchema = selectTransactionSplitSchema
+	.pick({
+		id: true,
+		transactionId: true,
+		categoryId: true,
+		amount: true,
+		memo: true,
+	})
+	.extend({
+		category: transactionCategorySchema,
+	});
+
+// カテゴリ・口座（振替の場合は振替先も）・内訳の情報を含む取引
+export const transactionWithCategorySchema =
+	selectTransactionWithParsedTagsSchema.extend({
+		category: transactionCategorySchema,
+		account: transactionAccountSchema,
+		transferAccount: transactionAccountSchema,
+		splits: z.array(transactionSplitWithCategorySchema).optional(),
+	});
+
+// 取引一覧の検索条件（フィルタ・ソート・ページネーション）
+export const transactionListParamsSchema = z.object({
+	startDate: z.string().optional(),
+	endDate: z.string().optional(),
+	categoryId: z.number().int().positive().optional(),
+	accountId: z.number().int().positive().optional(),
+	type: z.enum(TRANSACTION_TYPES).optional(),
+	search: z.string().optional(),
+	tags: z.array(z.string()).optional(),
+	minAmount: z.number().int().min(0).optional(),
+	maxAmount: z.number().int().min(0).optional(),
+	sortBy: z.enum(["transactionDate", "amount", "createdAt"]).optional(),
+	sortOrder: z.enum(["asc", "desc"]).optional(),
+	page: z.number().int().min(1).optional(),
+	limit: z.number().int().min(1).max(100).optional(),
+});
+
+// 取引一覧レスポンス（ページネーション情報付き）
+export const transactionsListResponseSchema = baseApiResponseSchema.extend({
+	data: z.array(transactionWithCategorySchema),
+	pagination: paginationSchema,
+});
+
+// 取引詳細レスポンス
+export const transactionDetailResponseSchema = baseApiResponseSchema.extend({
+	data: transactionWithCategorySchema,
+});
+
+// 取引一括取り込みリクエスト（CSVインポート）
+export const importTransactionsRequestSchema = z.object({
+	transactions: z.array(createTransactionRequestSchema).min(1).max(1000),
+	dryRun: z.boolean().optional(),
+	skipDuplicates: z.boolean().optional(),
+});
+
+// 取引一括取り込みレスポンス
+export const importTransactionsResponseSchema = baseApiResponseSchema.extend({
+	data: z.object({
+		totalCount: z.number(),
+		duplicateIndexes: z.array(z.number()),
+		createdCount: z.number(),
+	}),
+});
+
+// ========================================
+// 予算API用スキーマ
+// ========================================
+
+// 予算作成リクエスト（categoryId未指定で全体予算）
+export const createBudgetRequestSchema = insertBudgetSchema.pick({
+	categoryId: true,
+	amount: true,
+	period: true,
+	year: true,
+	month: true,
+});
+
+// 予算更新リクエスト（年次予算へ変更する場合はmonthにnullを指定）
+export const updateBudgetRequestSchema = createBudgetRequestSchema
+	.extend({
+		month: z.number().int().min(1).max(12).nullable(),
+	})
+	.partial();
+
+// カテゴリ情報を含む予算（全体予算の場合categoryはnull）
+export const budgetWithCategorySchema = selectBudgetSchema.extend({
+	category: transactionCategorySchema,
+});
+
+// 予算一覧レスポンス
+export const budgetsListResponseSchema = baseApiResponseSchema.extend({
+	data: z.array(budgetWithCategorySchema),
+});
+
+// 予算詳細レスポンス
+export const budgetDetailResponseSchema = baseApiResponseSchema.extend({
+	data: budgetWithCategorySchema,
+});
+
+// 予算状況の取得条件
+export const budgetStatusParamsSchema = z.object({
+	period: z.enum(["monthly", "yearly"]).optional(),
+	year: z.number().int().optional(),
+	month: z.number().int().min(1).max(12).optional(),
+});
+
+// 予算ごとの進捗（予算額に対する実績）
+export const budgetProgressSchema = budgetWithCategorySchema.extend({
+	spent: z.number(),
+	remaining: z.number(),
+	percentage: z.number(),
+	isOverBudget: z.boolean(),
+	remainingDays: z.number(),
+	remainingPerDay: z.number().nullable(),
+});
+
+// 予算状況レスポンス
+export const budgetStatusResponseSchema = baseApiResponseSchema.extend({
+	data: z.object({
+		startDate: z.string(),
+		endDate: z.string(),
+		totalDays: z.number(),
+		totalSpent: z.number(),
+		budgets: z.array(budgetProgressSchema),
+	}),
+});
+
+// ========================================
+// 収支統計（レポート）API用スキーマ
+// ========================================
+
+// 収支統計の取得パラメータ
+export const transactionStatsParamsSchema = z.object({
+	startDate: z.string().optional(),
+	endDate: z.string().optional(),
+});
+
+// 月別の収支（前月比・累計付き）
+export const monthlyStatsSchema = z.object({
+	month: z.string(),
+	income: z.number(),
+	expense: z.number(),
+	balance: z.number(),
+	savingsRate: z.number().nullable(),
+	incomeChange: z.number().nullable(),
+	expenseChange: z.number().nullable(),
+	cumulativeBalance: z.number(),
+});
+
+// 日別の収支（累計付き）
+export const dailyStatsSchema = z.object({
+	date: z.string(),
+	income: z.number(),
+	expense: z.number(),
+	cumulativeBalance: z.number(),
+});
+
+// カテゴリ別の合計
+export const categoryStatsSchema = z.object({
+	categoryId: z.number().nullable(),
+	name: z.string().nullable(),
+	color: z.string().nullable(),
+	type: z.string(),
+	total: z.number(),
+	count: z.number(),
+	percentage: z.number(),
+});
+
+// 収支統計レスポンス
+export const transactionStatsResponseSchema = baseApiResponseSchema.extend({
+	data: z.object({
+		startDate: z.string(),
+		endDate: z.string(),
+		totals: z.object({
+			income: z.number(),
+			expense: z.number(),
+			balance: z.number(),
+			savingsRate: z.number().nullable(),
+			incomeCount: z.number(),
+			expenseCount: z.number(),
+		}),
+		monthly: z.array(monthlyStatsSchema),
+		daily: z.array(dailyStatsSchema),
+		byCategory: z.array(categoryStatsSchema),
+	}),
+});
+
+// ========================================
+// カテゴリ候補API用スキーマ
+// ========================================
+
+// カテゴリ候補の取得パラメータ（入力中の取引）
+export const categorySuggestionParamsSchema = z.object({
+	type: z.enum(["income", "expense"]),
+	description: z.string().optional(),
+	amount: z.number().int().min(0).optional(),
+	transactionDate: z.string().optional(),
+	limit: z.number().int().min(1).max(10).optional(),
+});
+
+// 確信度付きのカテゴリ候補
+export const categorySuggestionSchema = z.object({
+	categoryId: z.number(),
+	name: z.string(),
+	color: z.string().nullable(),
+	confidence: z.number(),
+});
+
+// カテゴリ候補レスポンス（確信度の高い順）
+export const categorySuggestionsResponseSchema = baseApiResponseSchema.extend({
+	data: z.array(categorySuggestionSchema),
+});
+
+// ========================================
+// 口座API用スキーマ
+// ========================================
+
+// 口座作成リクエスト
+export const createAccountRequestSchema = insertAccountSchema.pick({
+	name: true,
+	type: true,
+	openingBalance: true,
+	color: true,
+	displayOrder: true,
+	closingDay: true,
+	paymentDay: true,
+	paymentMonthOffset: true,
+	paymentAccountId: true,
+});
+
+// 口座更新リクエスト
+export const updateAccountRequestSchema = createAccountRequestSchema.partial();
+
+// 残高付きの口座
+export const accountWithBalanceSchema = selectAccountSchema.extend({
+	income: z.number(),
+	expense: z.number(),
+	transferIn: z.number(),
+	transferOut: z.number(),
+	balance: z.number(),
+	transactionCount: z.number(),
+});
+
+// 口座一覧レスポンス（全口座の残高合計付き）
+export const accountsListResponseSchema = baseApiResponseSchema.extend({
+	data: z.array(accountWithBalanceSchema),
+	totalBalance: z.number(),
+});
+
+// 口座詳細レスポンス
+export const accountDetailResponseSchema = baseApiResponseSchema.extend({
+	data: selectAccountSchema,
+});
+
+// 口座の入出金明細の取得パラメータ
+export const accountLedgerParamsSchema = z.object({
+	startDate: z.string().optional(),
+	endDate: z.string().optional(),
+});
+
+// 入出金明細の行（取引反映後の残高付き）
+export const accountLedgerEntrySchema = z.object({
+	id: z.number(),
+	transactionDate: z.string(),
+	type: z.string(),
+	amount: z.number(),
+	fee: z.number(),
+	accountId: z.number().nullable(),
+	transferAccountId: z.number().nullable(),
+	description: z.string().nullable(),
+	categoryName: z.string().nullable(),
+	change: z.number(),
+	balance: z.number(),
+});
+
+// 口座の入出金明細レスポンス
+export const accountLedgerResponseSchema = baseApiResponseSchema.extend({
+	data: z.object({
+		account: selectAccountSchema,
+		carriedBalance: z.number(),
+		entries: z.array(accountLedgerEntrySchema),
+	}),
+});
+
+// クレジットカードの請求（照合状態・引き落とし）
+export const cardStatementSchema = selectCardStatementSchema;
+
+// カードの請求期間・支払日
+export const billingCycleSchema = z.object({
+	closingMonth: z.string(),
+	periodStart: z.string(),
+	closingDate: z.string(),
+	paymentDate: z.string(),
+});
+
+// カードの請求の取引（照合状態・請求額への影響付き）
+export const cardStatementEntrySchema = z.object({
+	id: z.number(),
+	transactionDate: z.string(),
+	type: z.string(),
+	amount: z.number(),
+	fee: z.number(),
+	accountId: z.number().nullable(),
+	transferAccountId: z.number().nullable(),
+	description: z.string().nullable(),
+	categoryName: z.string().nullable(),
+	reconciledStatementId: z.number().nullable(),
+	charge: z.number(),
+	reconciled: z.boolean(),
+});
+
+// カードの請求の集計
+export const cardStatementSummarySchema = z.object({
+	calculatedAmount: z.number(),
+	reconciledAmount: z.number(),
+	unreconciledAmount: z.number(),
+	transactionCount: z.number(),
+	reconciledCount: z.number(),
+	statementAmount: z.number().nullable(),
+	difference: z.number().nullable(),
+});
+
+// カードの請求レスポンス
+export const cardStatementResponseSchema = baseApiResponseSchema.extend({
+	data: z.object({
+		account: selectAccountSchema,
+		cycle: billingCycleSchema,
+		statement: cardStatementSchema.nullable(),
+		entries: z.array(cardStatementEntrySchema),
+		summary: cardStatementSummarySchema,
+	}),
+});
+
+// 明細上の請求額の更新リクエスト
+export const updateCardStatementRequestSchema = z.object({
+	month: z.string().regex(/^\d{4}-\d{2}$/),
+	statementAmount: z.number().int().nullable(),
+});
+
+// 明細上の請求額の更新レスポンス
+export const cardStatementDetailResponseSchema = baseApiResponseSchema.extend({
+	data: cardStatementSchema,
+	message: z.string().optional(),
+});
+
+// 取引の照合リクエスト
+export const reconcileCardTransactionsRequestSchema = z.object({
+	month: z.string().regex(/^\d{4}-\d{2}$/),
+	transactionIds: z.array(z.number().int().positive()).min(1).max(90),
+	reconciled: z.boolean(),
+});
+
+// 取引の照合レスポンス
+export const reconcileCardTransactionsResponseSchema =
+	baseApiResponseSchema.extend({
+		data: z.object({ updatedCount: z.number() }),
+		message: z.string().optional(),
+	});
+
+// 支払い方法の口座への移行レスポンス
+export const paymentMethodMigrationResponseSchema =
+	baseApiResponseSchema.extend({
+		data: z.object({
+			dryRun: z.boolean(),
+			createdAccounts: z.number(),
+			linkedTransactions: z.number(),
+			plan: z.array(
+				z.object({
+					paymentMethod: z.string(),
+					transactionCount: z.number(),
+					accountName: z.string(),
+					accountType: z.enum(ACCOUNT_TYPES),
+					accountId: z.number().nullable(),
+				}),
+			),
+		}),
+		message: z.string().optional(),
+	});
+
+// ========================================
+// 分割払いAPI用スキーマ
+// ========================================
+
+// 分割払い作成リクエスト
+export const createInstallmentPlanRequestSchema = createInstallmentPlanSchema;
+
+// 分割払いの支払予定（1回分）
+export const installmentPaymentSchema = z.object({
+	paymentNumber: z.number().int(),
+	paymentDate: z.string(),
+	amount: z.number(),
+});
+
+// 分割払いの進捗
+export const installmentPlanSummarySchema = z.object({
+	totalAmount: z.number(),
+	monthlyAmount: z.number(),
+	paidAmount: z.number(),
+	paidCount: z.number().int(),
+	remainingAmount: z.number(),
+	remainingPayments: z.number().int(),
+	nextPayment: installmentPaymentSchema.nullable(),
+	status: z.enum(["active", "completed", "paid_off"]),
+});
+
+// 名前・カテゴリ・進捗を含む分割払い
+export const installmentPlanWithSummarySchema =
+	selectInstallmentPlanSchema.extend({
+		name: z.string(),
+		description: z.string().nullable(),
+		categoryId: z.number().nullable(),
+		accountId: z.number().nullable(),
+		category: transactionCategorySchema,
+		summary: installmentPlanSummarySchema,
+	});
+
+// 分割払い一覧レスポンス
+export const installmentPlansListResponseSchema = baseApiResponseSchema.extend({
+	data: z.array(installmentPlanWithSummarySchema),
+});
+
+// 分割払い詳細レスポンス（全回の支払予定付き）
+export const installmentPlanDetailResponseSchema = baseApiResponseSchema.extend(
+	{
+		data: installmentPlanWithSummarySchema.extend({
+			schedule: z.array(installmentPaymentSchema),
+		}),
+	},
+);
+
+// 繰上げ返済リクエスト
+export const payOffInstallmentPlanRequestSchema = z.object({
+	date: z.string().optional(),
+	amount: z.number().int().positive().optional(),
+});
+
+// 繰上げ返済レスポンス
+export const payOffInstallmentPlanResponseSchema = baseApiResponseSchema.extend(
+	{
+		data: z.object({
+			plan: installmentPlanWithSummarySchema,
+			transaction: selectTransactionSchema,
+		}),
+	},
+);
+
+// ========================================
+// 自動分類ルールAPI用スキーマ
+// ========================================
+
+// 自動分類ルール作成リクエスト
+export const createCategorizationRuleRequestSchema =
+	createCategorizationRuleSchema;
+
+// 自動分類ルール更新リクエスト
+export const updateCategorizationRuleRequestSchema =
+	createCategorizationRuleSchema.partial();
+
+// 自動分類ルールの優先順位の一括更新リクエスト
+export const reorderCategorizationRulesRequestSchema = z.object({
+	rules: z
+		.array(
+			z.object({
+				id: z.number().int().positive(),
+				priority: z.number().int().min(0),
+			}),
+		)
+		.min(1),
+});
+
+// 設定するカテゴリ情報を含む自動分類ルール（タグは配列として解析済み）
+export const categorizationRuleWithCategorySchema =
+	selectCategorizationRuleSchema.extend({
+		tags: z.array(z.string()).nullable(),
+		category: transactionCategorySchema
+			.unwrap()
+			.pick({ id: true, name: true, type: true, color: true })
+			.nullable(),
+	});
+
+// 自動分類ルール一覧レスポンス
+export const categorizationRulesListResponseSchema =
+	baseApiResponseSchema.extend({
+		data: z.array(categorizationRuleWithCategorySchema),
+	});
+
+// 自動分類ルール詳細レスポンス
+export const categorizationRuleDetailResponseSchema =
+	baseApiResponseSchema.extend({
+		data: categorizationRuleWithCategorySchema,
+	});
+
+// 既存の取引へのルールの再適用リクエスト
+export const applyCategorizationRulesRequestSchema = z.object({
+	dryRun: z.boolean().optional(),
+	overwriteCategory: z.boolean().optional(),
+	startDate: z
+		.string()
+		.regex(/^\d{4}-\d{2}-\d{2}$/)
+		.optional(),
+	endDate: z
+		.string()
+		.regex(/^\d{4}-\d{2}-\d{2}$/)
+		.optional(),
+});
+
+// ルールの再適用で変わる取引の値
+const categorizationValuesSchema = z.object({
+	categoryId: z.number().nullable(),
+	tags: z.array(z.string()).nullable(),
+	description: z.string().nullable(),
+});
+
+// 既存の取引へのルールの再適用レスポンス（dryRun時は変更内容のプレビュー）
+export const applyCategorizationRulesResponseSchema =
+	baseApiResponseSchema.extend({
+		data: z.object({
+			dryRun: z.boolean(),
+			checkedTransactions: z.number().int(),
+			changedTransactions: z.number().int(),
+			entries: z.array(
+				z.object({
+					transactionId: z.number(),
+					transactionDate: z.string(),
+					amount: z.number(),
+					ruleId: z.number(),
+					ruleName: z.string(),
+					before: categorizationValuesSchema,
+					after: categorizationValuesSchema,
+				}),
+			),
+		}),
+		message: z.string().optional(),
+	});
+
+// ========================================
+// タグAPI用スキーマ
+// ========================================
+
+// 使用件数を含むタグ
+export const tagWithUsageSchema = selectTagSchema.extend({
+	transactionCount: z.number().int(),
+	lastUsedDate: z.string().nullable(),
+});
+
+// タグ一覧レスポンス
+export const tagsListResponseSchema = baseApiResponseSchema.extend({
+	data: z.array(tagWithUsageSchema),
+	count: z.number().optional(),
+});
+
+// タグ更新（名前の変更・色の設定）リクエスト
+export const updateTagRequestSchema = insertTagSchema
+	.pick({ name: true, color: true })
+	.partial();
+
+// タグ統合リクエスト
+export const mergeTagsRequestSchema = z.object({
+	sourceTagIds: z.array(z.number().int().positive()).min(1).max(50),
+	targetTagId: z.number().int().positive(),
+});
+
+// タグの更新・統合・削除レスポンス（書き換えた取引の件数を含む）
+export const tagMutationResponseSchema = baseApiResponseSchema.extend({
+	data: selectTagSchema,
+	updatedTransactions: z.number().int(),
+	message: z.string().optional(),
+});
+
+// タグ別集計のクエリパラメータ
+export const tagStatsParamsSchema = z.object({
+	startDate: z
+		.string()
+		.regex(/^\d{4}-\d{2}-\d{2}$/)
+		.optional(),
+	endDate: z
+		.string()
+		.regex(/^\d{4}-\d{2}-\d{2}$/)
+		.optional(),
+});
+
+// タグ別の収入・支出の集計
+export const tagStatsSchema = z.object({
+	tagId: z.number(),
+	name: z.string(),
+	color: z.string().nullable(),
+	income: z.number(),
+	expense: z.number(),
+	incomeCount: z.number().int(),
+	expenseCount: z.number().int(),
+});
+
+// タグ別集計レスポンス
+export const tagStatsResponseSchema = baseApiResponseSchema.extend({
+	data: z.array(tagStatsSchema),
+	startDate: z.string(),
+	endDate: z.string(),
+});
+
+// ========================================
+// ダッシュボードAPI用スキーマ
+// ========================================
+
+// 今月と前月の比較
+export const summaryComparisonSchema = z.object({
+	current: z.number(),
+	previous: z.number(),
+	change: z.number(),
+	changeRate: z.number().nullable(),
+});
+
+// ダッシュボードのサマリーレスポンス
+export const dashboardSummaryResponseSchema = baseApiResponseSchema.extend({
+	data: z.object({
+		month: z.string(),
+		previousMonth: z.string(),
+		income: summaryComparisonSchema,
+		expense: summaryComparisonSchema,
+		balance: summaryComparisonSchema,
+		subscriptions: summaryComparisonSchema.extend({
+			monthlyTotal: z.number(),
+		}),
+	}),
+});
+
+// ========================================
+// 通知API用スキーマ
+// ========================================
+
+// 通知一覧の取得パラメータ
+export const notificationListParamsSchema = z.object({
+	unreadOnly: z.boolean().optional(),
+	limit: z.number().int().min(1).max(100).optional(),
+});
+
+// 通知一覧レスポンス（未読の件数を含む）
+export const notificationsListResponseSchema = baseApiResponseSchema.extend({
+	data: z.array(selectNotificationSchema),
+	unreadCount: z.number().int().min(0),
+});
+
+// 通知の既読レスポンス
+export const notificationReadResponseSchema = baseApiResponseSchema.extend({
+	data: selectNotificationSchema,
+});
+
+// 通知の一括既読レスポンス
+export const notificationsReadAllResponseSchema = baseApiResponseSchema.extend({
+	data: z.object({
+		updatedCount: z.number().int().min(0),
+	}),
+});
+
 // ========================================
 // 共通エラーハンドリング
 // ========================================
@@ -161,6 +1065,7 @@ export type Pagination = z.infer<typeof paginationSchema>;
 // カテゴリ関連型
 export type CreateCategoryRequest = z.infer<typeof createCategoryRequestSchema>;
 export type UpdateCategoryRequest = z.infer<typeof updateCategoryRequestSchema>;
+export type CategoryTreeResponse = z.infer<typeof categoryTreeResponseSchema>;
 export type ReorderCategoriesRequest = z.infer<
 	typeof reorderCategoriesRequestSchema
 >;
@@ -170,6 +1075,13 @@ export type CategoriesListResponse = z.infer<
 export type CategoryDetailResponse = z.infer<
 	typeof categoryDetailResponseSchema
 >;
+export type CategoryUsage = z.infer<typeof categoryUsageSchema>;
+export type CategoryUsageResponse = z.infer<typeof categoryUsageResponseSchema>;
+export type DeleteCategoryOptions = z.infer<typeof deleteCategoryOptionsSchema>;
+export type MergeCategoriesRequest = z.infer<
+	typeof mergeCategoriesRequestSchema
+>;
+export type CategoryMergeResponse = z.infer<typeof categoryMergeResponseSchema>;
 
 // サブスクリプション関連型
 export type CreateSubscriptionRequest = z.infer<
@@ -184,6 +1096,198 @@ export type SubscriptionsListResponse = z.infer<
 export type SubscriptionDetailResponse = z.infer<
 	typeof subscriptionDetailResponseSchema
 >;
+export type SubscriptionPriceTimelineEntry = z.infer<
+	typeof subscriptionPriceTimelineEntrySchema
+>;
+export type SubscriptionPriceHistoryResponse = z.infer<
+	typeof subscriptionPriceHistoryResponseSchema
+>;
+export type SubscriptionPaymentTransaction = z.infer<
+	typeof subscriptionPaymentTransactionSchema
+>;
+export type SubscriptionPaymentPeriod = z.infer<
+	typeof subscriptionPaymentPeriodSchema
+>;
+export type SubscriptionPaymentsResponse = z.infer<
+	typeof subscriptionPaymentsResponseSchema
+>;
+export type RecordSubscriptionPeriodRequest = z.infer<
+	typeof recordSubscriptionPeriodRequestSchema
+>;
+export type SubscriptionReminder = z.infer<
+	typeof selectSubscriptionReminderSchema
+>;
+export type SubscriptionRemindersResponse = z.infer<
+	typeof subscriptionRemindersResponseSchema
+>;
+export type UpdateSubscriptionRemindersRequest = z.infer<
+	typeof updateSubscriptionRemindersRequestSchema
+>;
+export type UpcomingSubscriptionEvent = z.infer<
+	typeof upcomingSubscriptionEventSchema
+>;
+export type UpcomingSubscriptionEventsResponse = z.infer<
+	typeof upcomingSubscriptionEventsResponseSchema
+>;
+export type UpcomingSubscriptionEventsParams = z.infer<
+	typeof upcomingSubscriptionEventsParamsSchema
+>;
+
+// 取引関連型
+export type CreateTransactionRequest = z.infer<
+	typeof createTransactionRequestSchema
+>;
+export type UpdateTransactionRequest = z.infer<
+	typeof updateTransactionRequestSchema
+>;
+export type TransactionListParams = z.infer<typeof transactionListParamsSchema>;
+export type TransactionSplitWithCategory = z.infer<
+	typeof transactionSplitWithCategorySchema
+>;
+export type TransactionWithCategory = z.infer<
+	typeof transactionWithCategorySchema
+>;
+export type TransactionsListResponse = z.infer<
+	typeof transactionsListResponseSchema
+>;
+export type TransactionDetailResponse = z.infer<
+	typeof transactionDetailResponseSchema
+>;
+export type ImportTransactionsRequest = z.infer<
+	typeof importTransactionsRequestSchema
+>;
+export type ImportTransactionsResponse = z.infer<
+	typeof importTransactionsResponseSchema
+>;
+
+// 予算関連型
+export type CreateBudgetRequest = z.infer<typeof createBudgetRequestSchema>;
+export type UpdateBudgetRequest = z.infer<typeof updateBudgetRequestSchema>;
+export type BudgetWithCategory = z.infer<typeof budgetWithCategorySchema>;
+export type BudgetsListResponse = z.infer<typeof budgetsListResponseSchema>;
+export type BudgetDetailResponse = z.infer<typeof budgetDetailResponseSchema>;
+export type BudgetStatusParams = z.infer<typeof budgetStatusParamsSchema>;
+export type BudgetProgress = z.infer<typeof budgetProgressSchema>;
+export type BudgetStatusResponse = z.infer<typeof budgetStatusResponseSchema>;
+
+// 収支統計関連型
+export type TransactionStatsParams = z.infer<
+	typeof transactionStatsParamsSchema
+>;
+export type CategorySuggestionParams = z.infer<
+	typeof categorySuggestionParamsSchema
+>;
+export type CategorySuggestion = z.infer<typeof categorySuggestionSchema>;
+export type CategorySuggestionsResponse = z.infer<
+	typeof categorySuggestionsResponseSchema
+>;
+export type MonthlyStats = z.infer<typeof monthlyStatsSchema>;
+export type DailyStats = z.infer<typeof dailyStatsSchema>;
+export type CategoryStats = z.infer<typeof categoryStatsSchema>;
+export type TransactionStatsResponse = z.infer<
+	typeof transactionStatsResponseSchema
+>;
+export type CreateAccountRequest = z.infer<typeof createAccountRequestSchema>;
+export type UpdateAccountRequest = z.infer<typeof updateAccountRequestSchema>;
+export type AccountWithBalance = z.infer<typeof accountWithBalanceSchema>;
+export type AccountsListResponse = z.infer<typeof accountsListResponseSchema>;
+export type AccountDetailResponse = z.infer<typeof accountDetailResponseSchema>;
+export type AccountLedgerParams = z.infer<typeof accountLedgerParamsSchema>;
+export type AccountLedgerEntry = z.infer<typeof accountLedgerEntrySchema>;
+export type AccountLedgerResponse = z.infer<typeof accountLedgerResponseSchema>;
+export type CardStatement = z.infer<typeof cardStatementSchema>;
+export type BillingCycle = z.infer<typeof billingCycleSchema>;
+export type CardStatementEntry = z.infer<typeof cardStatementEntrySchema>;
+export type CardStatementSummary = z.infer<typeof cardStatementSummarySchema>;
+export type CardStatementResponse = z.infer<typeof cardStatementResponseSchema>;
+export type UpdateCardStatementRequest = z.infer<
+	typeof updateCardStatementRequestSchema
+>;
+export type CardStatementDetailResponse = z.infer<
+	typeof cardStatementDetailResponseSchema
+>;
+export type ReconcileCardTransactionsRequest = z.infer<
+	typeof reconcileCardTransactionsRequestSchema
+>;
+export type ReconcileCardTransactionsResponse = z.infer<
+	typeof reconcileCardTransactionsResponseSchema
+>;
+export type PaymentMethodMigrationResponse = z.infer<
+	typeof paymentMethodMigrationResponseSchema
+>;
+export type CreateInstallmentPlanRequest = z.infer<
+	typeof createInstallmentPlanRequestSchema
+>;
+export type InstallmentPayment = z.infer<typeof installmentPaymentSchema>;
+export type InstallmentPlanSummary = z.infer<
+	typeof installmentPlanSummarySchema
+>;
+export type InstallmentPlanWithSummary = z.infer<
+	typeof installmentPlanWithSummarySchema
+>;
+export type InstallmentPlansListResponse = z.infer<
+	typeof installmentPlansListResponseSchema
+>;
+export type InstallmentPlanDetailResponse = z.infer<
+	typeof installmentPlanDetailResponseSchema
+>;
+export type PayOffInstallmentPlanRequest = z.infer<
+	typeof payOffInstallmentPlanRequestSchema
+>;
+export type PayOffInstallmentPlanResponse = z.infer<
+	typeof payOffInstallmentPlanResponseSchema
+>;
+export type CreateCategorizationRuleRequest = z.infer<
+	typeof createCategorizationRuleRequestSchema
+>;
+export type UpdateCategorizationRuleRequest = z.infer<
+	typeof updateCategorizationRuleRequestSchema
+>;
+export type ReorderCategorizationRulesRequest = z.infer<
+	typeof reorderCategorizationRulesRequestSchema
+>;
+export type CategorizationRuleWithCategory = z.infer<
+	typeof categorizationRuleWithCategorySchema
+>;
+export type CategorizationRulesListResponse = z.infer<
+	typeof categorizationRulesListResponseSchema
+>;
+export type CategorizationRuleDetailResponse = z.infer<
+	typeof categorizationRuleDetailResponseSchema
+>;
+export type ApplyCategorizationRulesRequest = z.infer<
+	typeof applyCategorizationRulesRequestSchema
+>;
+export type ApplyCategorizationRulesResponse = z.infer<
+	typeof applyCategorizationRulesResponseSchema
+>;
+export type TagWithUsage = z.infer<typeof tagWithUsageSchema>;
+export type TagsListResponse = z.infer<typeof tagsListResponseSchema>;
+export type UpdateTagRequest = z.infer<typeof updateTagRequestSchema>;
+export type MergeTagsRequest = z.infer<typeof mergeTagsRequestSchema>;
+export type TagMutationResponse = z.infer<typeof tagMutationResponseSchema>;
+export type TagStatsParams = z.infer<typeof tagStatsParamsSchema>;
+export type TagStats = z.infer<typeof tagStatsSchema>;
+export type TagStatsResponse = z.infer<typeof tagStatsResponseSchema>;
+export type SummaryComparison = z.infer<typeof summaryComparisonSchema>;
+export type DashboardSummaryResponse = z.infer<
+	typeof dashboardSummaryResponseSchema
+>;
+
+// 通知関連型
+export type AppNotification = z.infer<typeof selectNotificationSchema>;
+export type NotificationListParams = z.infer<
+	typeof notificationListParamsSchema
+>;
+export type NotificationsListResponse = z.infer<
+	typeof notificationsListResponseSchema
+>;
+export type NotificationReadResponse = z.infer<
+	typeof notificationReadResponseSchema
+>;
+export type NotificationsReadAllResponse = z.infer<
+	typeof notificationsReadAllResponseSchema
+>;
 
 // エラー関連型
 export type ValidationError = z.infer<typeof validationErrorSchema>;
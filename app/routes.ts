@@ -8,17 +8,30 @@ export default [
 
 	route("subscriptions", "routes/subscriptions.tsx"),
 	route("transactions", "routes/transactions.tsx"),
+	route("transactions/import", "routes/transactions.import.tsx"),
+	route("reports", "routes/reports.tsx"),
+	route("cards", "routes/cards.tsx"),
+	route("installments", "routes/installments.tsx"),
+	route("rules", "routes/rules.tsx"),
+	route("tags", "routes/tags.tsx"),
 
 	// カテゴリAPIエンドポイント
 	route("api/categories", "routes/api/categories/index.ts"),
 	route("api/categories/create", "routes/api/categories/create.ts"),
 	route("api/categories/reorder", "routes/api/categories/reorder.ts"),
+	route("api/categories/merge", "routes/api/categories/merge.ts"),
+	route(
+		"api/categories/seed-defaults",
+		"routes/api/categories/seed-defaults.ts",
+	),
+	route("api/categories/:id/usage", "routes/api/categories/$id.usage.ts"),
 	route("api/categories/:id/update", "routes/api/categories/$id.update.ts"),
 	route("api/categories/:id/delete", "routes/api/categories/$id.delete.ts"),
 
 	// サブスクリプションAPIエンドポイント
 	route("api/subscriptions", "routes/api/subscriptions/index.ts"),
 	route("api/subscriptions/create", "routes/api/subscriptions/create.ts"),
+	route("api/subscriptions/upcoming", "routes/api/subscriptions/upcoming.ts"),
 	route("api/subscriptions/:id", "routes/api/subscriptions/$id.ts"),
 	route(
 		"api/subscriptions/:id/update",
@@ -28,9 +41,136 @@ export default [
 		"api/subscriptions/:id/delete",
 		"routes/api/subscriptions/$id.delete.ts",
 	),
+	route(
+		"api/subscriptions/:id/prices",
+		"routes/api/subscriptions/$id.prices.ts",
+	),
+	route(
+		"api/subscriptions/:id/payments",
+		"routes/api/subscriptions/$id.payments.ts",
+	),
+	route(
+		"api/subscriptions/:id/payments/record",
+		"routes/api/subscriptions/$id.payments.record.ts",
+	),
+	route(
+		"api/subscriptions/:id/reminders",
+		"routes/api/subscriptions/$id.reminders.ts",
+	),
+	route(
+		"api/subscriptions/:id/reminders/update",
+		"routes/api/subscriptions/$id.reminders.update.ts",
+	),
 	route("api/subscriptions/activate", "routes/api/subscriptions/activate.ts"),
 	route(
 		"api/subscriptions/deactivate",
 		"routes/api/subscriptions/deactivate.ts",
 	),
+	route(
+		"api/subscriptions/generate-transactions",
+		"routes/api/subscriptions/generate-transactions.ts",
+	),
+	route(
+		"api/subscriptions/generate-reminders",
+		"routes/api/subscriptions/generate-reminders.ts",
+	),
+
+	// 通知APIエンドポイント
+	route("api/notifications", "routes/api/notifications/index.ts"),
+	route("api/notifications/read-all", "routes/api/notifications/read-all.ts"),
+	route("api/notifications/:id/read", "routes/api/notifications/$id.read.ts"),
+
+	// 分割払いAPIエンドポイント
+	route("api/installments", "routes/api/installments/index.ts"),
+	route("api/installments/create", "routes/api/installments/create.ts"),
+	route(
+		"api/installments/generate-transactions",
+		"routes/api/installments/generate-transactions.ts",
+	),
+	route("api/installments/:id", "routes/api/installments/$id.ts"),
+	route("api/installments/:id/payoff", "routes/api/installments/$id.payoff.ts"),
+	route("api/installments/:id/delete", "routes/api/installments/$id.delete.ts"),
+
+	// 自動分類ルールAPIエンドポイント
+	route("api/categorization-rules", "routes/api/categorization-rules/index.ts"),
+	route(
+		"api/categorization-rules/create",
+		"routes/api/categorization-rules/create.ts",
+	),
+	route(
+		"api/categorization-rules/reorder",
+		"routes/api/categorization-rules/reorder.ts",
+	),
+	route(
+		"api/categorization-rules/apply",
+		"routes/api/categorization-rules/apply.ts",
+	),
+	route(
+		"api/categorization-rules/:id/update",
+		"routes/api/categorization-rules/$id.update.ts",
+	),
+	route(
+		"api/categorization-rules/:id/delete",
+		"routes/api/categorization-rules/$id.delete.ts",
+	),
+
+	// タグAPIエンドポイント
+	route("api/tags", "routes/api/tags/index.ts"),
+	route("api/tags/merge", "routes/api/tags/merge.ts"),
+	route("api/tags/stats", "routes/api/tags/stats.ts"),
+	route("api/tags/:id/update", "routes/api/tags/$id.update.ts"),
+	route("api/tags/:id/delete", "routes/api/tags/$id.delete.ts"),
+
+	// 取引APIエンドポイント
+	route("api/transactions", "routes/api/transactions/index.ts"),
+	route("api/transactions/create", "routes/api/transactions/create.ts"),
+	route("api/transactions/import", "routes/api/transactions/import.ts"),
+	route("api/transactions/export", "routes/api/transactions/export.ts"),
+	route("api/transactions/stats", "routes/api/transactions/stats.ts"),
+	route(
+		"api/transactions/category-suggestions",
+		"routes/api/transactions/category-suggestions.ts",
+	),
+	route("api/transactions/:id", "routes/api/transactions/$id.ts"),
+	route("api/transactions/:id/update", "routes/api/transactions/$id.update.ts"),
+	route("api/transactions/:id/delete", "routes/api/transactions/$id.delete.ts"),
+
+	// 予算APIエンドポイント
+	route("api/budgets", "routes/api/budgets/index.ts"),
+	route("api/budgets/create", "routes/api/budgets/create.ts"),
+	route("api/budgets/status", "routes/api/budgets/status.ts"),
+	route("api/budgets/:id", "routes/api/budgets/$id.ts"),
+	route("api/budgets/:id/update", "routes/api/budgets/$id.update.ts"),
+	route("api/budgets/:id/delete", "routes/api/budgets/$id.delete.ts"),
+
+	// 口座APIエンドポイント
+	route("api/accounts", "routes/api/accounts/index.ts"),
+	route("api/accounts/create", "routes/api/accounts/create.ts"),
+	route(
+		"api/accounts/migrate-payment-methods",
+		"routes/api/accounts/migrate-payment-methods.ts",
+	),
+	route(
+		"api/accounts/generate-settlements",
+		"routes/api/accounts/generate-settlements.ts",
+	),
+	route("api/accounts/:id/ledger", "routes/api/accounts/$id.ledger.ts"),
+	route("api/accounts/:id/statement", "routes/api/accounts/$id.statement.ts"),
+	route(
+		"api/accounts/:id/statement/update",
+		"routes/api/accounts/$id.statement.update.ts",
+	),
+	route(
+		"api/accounts/:id/statement/reconcile",
+		"routes/api/accounts/$id.statement.reconcile.ts",
+	),
+	route("api/accounts/:id/update", "routes/api/accounts/$id.update.ts"),
+	route("api/accounts/:id/delete", "routes/api/accounts/$id.delete.ts"),
+
+	// ダッシュボードAPIエンドポイント
+	route("api/dashboard/summary", "routes/api/dashboard/summary.ts"),
+
+	// バックアップAPIエンドポイント
+	route("api/export", "routes/api/export/index.ts"),
+	route("api/import/backup", "routes/api/import/backup.ts"),
 ] satisfies RouteConfig;
@@ -1,9 +1,11 @@
 import type { MetaFunction } from "react-router";
 import { Link } from "react-router";
 import {
-	BudgetPlaceholder,
+	AccountWidget,
+	BudgetWidget,
 	SubscriptionWidget,
 	SummaryCards,
+	UpcomingPaymentsWidget,
 } from "../components/dashboard";
 import { PageHeader } from "../components/layout/page-header";
 
@@ -14,6 +16,7 @@ import { PageHeader } from "../components/layout/page-header";
  * - サブスクリプション管理に特化したダッシュボードページ
  * - レスポンシブデザインでモバイルファーストUI
  * - 既存のコンポーネントとパターンを再利用
+ * - 「今後の支払い」で30日以内の支払い・トライアル終了・解約期限を確認できる
  * - リダイレクトを使わず直接ダッシュボード機能を提供
  */
 
@@ -67,7 +70,10 @@ export default function Dashboard() {
 				{/* 2カラムレイアウト */}
 				<div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
 					{/* メインコンテンツ */}
-					<div className="lg:col-span-2">
+					<div className="lg:col-span-2 space-y-8">
+						{/* 今後の支払い */}
+						<UpcomingPaymentsWidget days={30} />
+
 						<div className="bg-white rounded-lg shadow-sm border">
 							<div className="px-6 py-4 border-b border-gray-200">
 								<div className="flex items-center justify-between">
@@ -129,12 +135,10 @@ export default function Dashboard() {
 						<SubscriptionWidget maxActiveItems={5} maxInactiveItems={3} />
 
 						{/* 今月の予算 */}
-						<BudgetPlaceholder
-							onSetBudgetClick={() => {
-								// TODO: 予算設定ページへのナビゲーション
-								console.log("Navigate to budget settings");
-							}}
-						/>
+						<BudgetWidget />
+
+						{/* 口座残高 */}
+						<AccountWidget />
 					</div>
 				</div>
 			</div>
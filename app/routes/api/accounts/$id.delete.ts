@@ -0,0 +1,104 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import { deleteAccount, getAccountById } from "../../../../db/queries/accounts";
+
+/**
+ * DELETE /api/accounts/:id/delete エンドポイント
+ *
+ * 機能:
+ * - 指定されたIDの口座を論理削除（isActiveをfalseに設定）
+ * - 紐付いている取引・サブスクリプションは削除せず、口座の参照も残す
+ *
+ * パラメータ:
+ * - id: number (必須) - 口座ID
+ */
+
+// パラメータのバリデーションスキーマ
+const paramsSchema = z.object({
+	id: z.string().transform((val) => {
+		const num = Number.parseInt(val, 10);
+		if (Number.isNaN(num) || num <= 0) {
+			throw new Error("有効なIDを指定してください");
+		}
+		return num;
+	}),
+});
+
+export async function action({ request, params, context }: any) {
+	try {
+		// HTTPメソッドのチェック
+		if (request.method !== "DELETE") {
+			return new Response(
+				JSON.stringify({
+					error: "DELETE メソッドのみサポートしています",
+				}),
+				{
+					status: 405,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// パラメータのバリデーション
+		const parsedParams = paramsSchema.safeParse(params);
+		if (!parsedParams.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なパラメータです",
+					details: parsedParams.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const accountId = parsedParams.data.id;
+
+		// 口座の存在チェック
+		const existingAccount = await getAccountById(db, accountId);
+		if (!existingAccount) {
+			return new Response(
+				JSON.stringify({
+					error: "指定された口座が見つかりません",
+				}),
+				{
+					status: 404,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 口座を論理削除
+		const deletedAccount = await deleteAccount(db, accountId);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: deletedAccount,
+				message: "口座が正常に削除されました",
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("口座削除エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "口座の削除中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
@@ -0,0 +1,119 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import {
+	getAccountById,
+	getAccountLedger,
+} from "../../../../db/queries/accounts";
+import {
+	createErrorResponse,
+	createSuccessResponse,
+} from "../../../utils/api-errors";
+
+/**
+ * GET /api/accounts/:id/ledger エンドポイント
+ *
+ * 機能:
+ * - 口座の入出金明細を取引日順に取得
+ * - 各取引の反映後の残高（ランニングバランス）を含む
+ * - 開始日を指定した場合は、それより前の取引を繰越残高として返す
+ *
+ * パラメータ:
+ * - id: number (必須) - 口座ID
+ *
+ * クエリパラメータ:
+ * - startDate / endDate: string (オプション) - 取引日の範囲（YYYY-MM-DD、両端を含む）
+ */
+
+const dateParamSchema = z
+	.string()
+	.regex(/^\d{4}-\d{2}-\d{2}$/, "日付はYYYY-MM-DD形式で指定してください");
+
+// パラメータのバリデーションスキーマ
+const paramsSchema = z.object({
+	id: z.string().transform((val) => {
+		const num = Number.parseInt(val, 10);
+		if (Number.isNaN(num) || num <= 0) {
+			throw new Error("有効なIDを指定してください");
+		}
+		return num;
+	}),
+});
+
+// クエリパラメータのバリデーションスキーマ
+const queryParamsSchema = z
+	.object({
+		startDate: dateParamSchema.optional(),
+		endDate: dateParamSchema.optional(),
+	})
+	.refine(
+		(data) =>
+			!data.startDate || !data.endDate || data.startDate <= data.endDate,
+		{ message: "開始日は終了日以前を指定してください", path: ["startDate"] },
+	);
+
+export async function loader({ request, params, context }: any) {
+	// D1バインディングを早期に取得してエラー診断に使用
+	const d1 = context?.cloudflare?.env?.DB;
+
+	try {
+		const db = createDb(d1);
+
+		const parsedParams = paramsSchema.safeParse(params);
+		const url = new URL(request.url);
+		const parsedQuery = queryParamsSchema.safeParse(
+			Object.fromEntries(url.searchParams.entries()),
+		);
+		if (!parsedParams.success || !parsedQuery.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なパラメータです",
+					details: [
+						...(parsedParams.error?.errors ?? []),
+						...(parsedQuery.error?.errors ?? []),
+					],
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const account = await getAccountById(db, parsedParams.data.id);
+		if (!account) {
+			return new Response(
+				JSON.stringify({
+					error: "指定された口座が見つかりません",
+				}),
+				{
+					status: 404,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const ledger = await getAccountLedger(db, account, parsedQuery.data);
+
+		// 成功レスポンスを統一フォーマットで返す
+		return createSuccessResponse(
+			{ account, ...ledger },
+			{
+				// デバッグ情報（開発環境のみ）
+				...(process.env.NODE_ENV !== "production" && {
+					debugInfo: {
+						requestUrl: request.url,
+						databaseConnection: d1 ? "D1" : "SQLite (fallback)",
+					},
+				}),
+			},
+		);
+	} catch (error) {
+		// 詳細なエラー診断と適切なレスポンス生成
+		return await createErrorResponse(
+			error,
+			"口座の入出金明細の取得中にエラーが発生しました",
+			d1,
+			true, // データベース健全性チェックを含める
+		);
+	}
+}
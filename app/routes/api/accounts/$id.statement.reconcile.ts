@@ -0,0 +1,154 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import { getAccountById } from "../../../../db/queries/accounts";
+import { reconcileCardTransactions } from "../../../../db/queries/card-statements";
+
+/**
+ * POST /api/accounts/:id/statement/reconcile エンドポイント
+ *
+ * 機能:
+ * - カードの取引を締め月の請求と照合済みにする（または照合を解除する）
+ * - 請求が未作成の場合は作成する
+ * - カードの口座の取引のみを対象とし、他の口座の取引IDは無視する
+ *
+ * パラメータ:
+ * - id: number (必須) - クレジットカードの口座ID
+ *
+ * リクエストボディ:
+ * - month: string (必須) - 締め月（YYYY-MM形式）
+ * - transactionIds: number[] (必須) - 取引IDの配列（1〜90件）
+ * - reconciled: boolean (必須) - trueで照合済み、falseで照合を解除
+ */
+
+// リクエストボディのバリデーションスキーマ
+// inArrayのバインドパラメータ数の上限（D1は1クエリ100件）を考慮し、件数を制限する
+const requestSchema = z.object({
+	month: z
+		.string()
+		.regex(/^\d{4}-(0[1-9]|1[0-2])$/, "締め月はYYYY-MM形式で指定してください"),
+	transactionIds: z.array(z.number().int().positive()).min(1).max(90),
+	reconciled: z.boolean(),
+});
+
+// パラメータのバリデーションスキーマ
+const paramsSchema = z.object({
+	id: z.string().transform((val) => {
+		const num = Number.parseInt(val, 10);
+		if (Number.isNaN(num) || num <= 0) {
+			throw new Error("有効なIDを指定してください");
+		}
+		return num;
+	}),
+});
+
+export async function action({ request, params, context }: any) {
+	try {
+		// HTTPメソッドのチェック
+		if (request.method !== "POST") {
+			return new Response(
+				JSON.stringify({
+					error: "POST メソッドのみサポートしています",
+				}),
+				{
+					status: 405,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// パラメータのバリデーション
+		const parsedParams = paramsSchema.safeParse(params);
+		if (!parsedParams.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なパラメータです",
+					details: parsedParams.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// カードの存在チェック
+		const account = await getAccountById(db, parsedParams.data.id);
+		if (!account) {
+			return new Response(
+				JSON.stringify({
+					error: "指定された口座が見つかりません",
+				}),
+				{
+					status: 404,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+		if (account.type !== "credit_card") {
+			return new Response(
+				JSON.stringify({
+					error: "指定された口座はクレジットカードではありません",
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// リクエストボディを解析・バリデーション
+		const body = await request.json();
+		const parsedData = requestSchema.safeParse(body);
+		if (!parsedData.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なリクエストボディです",
+					details: parsedData.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const { month, transactionIds, reconciled } = parsedData.data;
+		const updatedCount = await reconcileCardTransactions(
+			db,
+			account,
+			month,
+			transactionIds,
+			reconciled,
+		);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: { updatedCount },
+				message: reconciled
+					? `${updatedCount}件の取引を照合済みにしました`
+					: `${updatedCount}件の取引の照合を解除しました`,
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("カード明細照合エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "取引の照合中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
@@ -0,0 +1,128 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import { getAccountById } from "../../../../db/queries/accounts";
+import {
+	getCardStatement,
+	getClosingMonthForDate,
+} from "../../../../db/queries/card-statements";
+import { getTodayInJst } from "../../../../db/queries/recurrence";
+import {
+	createErrorResponse,
+	createSuccessResponse,
+} from "../../../utils/api-errors";
+
+/**
+ * GET /api/accounts/:id/statement エンドポイント
+ *
+ * 機能:
+ * - クレジットカードの締め月の請求（請求期間・支払日）を取得
+ * - 請求期間の取引を照合状態・請求額への影響付きで返す
+ * - 取引から計算した請求額・照合済みの合計・明細上の請求額との差額を集計する
+ * - 引き落としの振替を作成済みの場合は、請求にその取引IDを含む
+ *
+ * パラメータ:
+ * - id: number (必須) - クレジットカードの口座ID
+ *
+ * クエリパラメータ:
+ * - month: string (オプション) - 締め月（YYYY-MM、デフォルト: 今日が含まれる請求の締め月）
+ */
+
+// パラメータのバリデーションスキーマ
+const paramsSchema = z.object({
+	id: z.string().transform((val) => {
+		const num = Number.parseInt(val, 10);
+		if (Number.isNaN(num) || num <= 0) {
+			throw new Error("有効なIDを指定してください");
+		}
+		return num;
+	}),
+});
+
+// クエリパラメータのバリデーションスキーマ
+const queryParamsSchema = z.object({
+	month: z
+		.string()
+		.regex(/^\d{4}-(0[1-9]|1[0-2])$/, "締め月はYYYY-MM形式で指定してください")
+		.optional(),
+});
+
+export async function loader({ request, params, context }: any) {
+	// D1バインディングを早期に取得してエラー診断に使用
+	const d1 = context?.cloudflare?.env?.DB;
+
+	try {
+		const db = createDb(d1);
+
+		const parsedParams = paramsSchema.safeParse(params);
+		const url = new URL(request.url);
+		const parsedQuery = queryParamsSchema.safeParse(
+			Object.fromEntries(url.searchParams.entries()),
+		);
+		if (!parsedParams.success || !parsedQuery.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なパラメータです",
+					details: [
+						...(parsedParams.error?.errors ?? []),
+						...(parsedQuery.error?.errors ?? []),
+					],
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const account = await getAccountById(db, parsedParams.data.id);
+		if (!account) {
+			return new Response(
+				JSON.stringify({
+					error: "指定された口座が見つかりません",
+				}),
+				{
+					status: 404,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+		if (account.type !== "credit_card") {
+			return new Response(
+				JSON.stringify({
+					error: "指定された口座はクレジットカードではありません",
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const month =
+			parsedQuery.data.month ??
+			getClosingMonthForDate(getTodayInJst(), account.closingDay);
+		const statement = await getCardStatement(db, account, month);
+
+		// 成功レスポンスを統一フォーマットで返す
+		return createSuccessResponse(
+			{ account, ...statement },
+			{
+				// デバッグ情報（開発環境のみ）
+				...(process.env.NODE_ENV !== "production" && {
+					debugInfo: {
+						requestUrl: request.url,
+						databaseConnection: d1 ? "D1" : "SQLite (fallback)",
+					},
+				}),
+			},
+		);
+	} catch (error) {
+		// 詳細なエラー診断と適切なレスポンス生成
+		return await createErrorResponse(
+			error,
+			"カードの請求の取得中にエラーが発生しました",
+			d1,
+			true, // データベース健全性チェックを含める
+		);
+	}
+}
@@ -0,0 +1,147 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import { getAccountById } from "../../../../db/queries/accounts";
+import { updateCardStatementAmount } from "../../../../db/queries/card-statements";
+
+/**
+ * PUT /api/accounts/:id/statement/update エンドポイント
+ *
+ * 機能:
+ * - カード会社の明細上の請求額を締め月の請求に設定
+ * - 請求が未作成の場合は作成する
+ * - 引き落としの振替を作成済みの場合は、その金額も明細上の請求額に合わせる
+ *
+ * パラメータ:
+ * - id: number (必須) - クレジットカードの口座ID
+ *
+ * リクエストボディ:
+ * - month: string (必須) - 締め月（YYYY-MM形式）
+ * - statementAmount: number | null (必須) - 明細上の請求額（nullで未入力に戻す）
+ */
+
+// リクエストボディのバリデーションスキーマ
+const requestSchema = z.object({
+	month: z
+		.string()
+		.regex(/^\d{4}-(0[1-9]|1[0-2])$/, "締め月はYYYY-MM形式で指定してください"),
+	statementAmount: z.number().int().nullable(),
+});
+
+// パラメータのバリデーションスキーマ
+const paramsSchema = z.object({
+	id: z.string().transform((val) => {
+		const num = Number.parseInt(val, 10);
+		if (Number.isNaN(num) || num <= 0) {
+			throw new Error("有効なIDを指定してください");
+		}
+		return num;
+	}),
+});
+
+export async function action({ request, params, context }: any) {
+	try {
+		// HTTPメソッドのチェック
+		if (request.method !== "PUT") {
+			return new Response(
+				JSON.stringify({
+					error: "PUT メソッドのみサポートしています",
+				}),
+				{
+					status: 405,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// パラメータのバリデーション
+		const parsedParams = paramsSchema.safeParse(params);
+		if (!parsedParams.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なパラメータです",
+					details: parsedParams.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// カードの存在チェック
+		const account = await getAccountById(db, parsedParams.data.id);
+		if (!account) {
+			return new Response(
+				JSON.stringify({
+					error: "指定された口座が見つかりません",
+				}),
+				{
+					status: 404,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+		if (account.type !== "credit_card") {
+			return new Response(
+				JSON.stringify({
+					error: "指定された口座はクレジットカードではありません",
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// リクエストボディを解析・バリデーション
+		const body = await request.json();
+		const parsedData = requestSchema.safeParse(body);
+		if (!parsedData.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なリクエストボディです",
+					details: parsedData.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const statement = await updateCardStatementAmount(
+			db,
+			account,
+			parsedData.data.month,
+			parsedData.data.statementAmount,
+		);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: statement,
+				message: "明細の請求額を更新しました",
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("カード明細更新エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "明細の請求額の更新中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
@@ -0,0 +1,199 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import {
+	getAccountById,
+	getCardSettingsValidationError,
+	updateAccount,
+} from "../../../../db/queries/accounts";
+import { insertAccountSchema } from "../../../../db/schema";
+
+/**
+ * PUT /api/accounts/:id/update エンドポイント
+ *
+ * 機能:
+ * - 指定されたIDの口座を更新
+ * - 部分更新に対応（指定されたフィールドのみ更新）
+ * - 開始残高を変更すると、その口座の残高がすべて再計算される
+ * - クレジットカードの請求設定は更新後の値で整合性を検証する
+ *
+ * パラメータ:
+ * - id: number (必須) - 口座ID
+ *
+ * リクエストボディ:
+ * - name: string (オプション) - 口座名
+ * - type: 'bank' | 'cash' | 'credit_card' | 'e_money' | 'securities' (オプション) - 口座種別
+ * - openingBalance: number (オプション) - 開始残高
+ * - color: string (オプション) - 色コード (#RRGGBB形式)
+ * - displayOrder: number (オプション) - 表示順序
+ * - closingDay: number | null (オプション、クレジットカードのみ) - 締め日（1〜31、31は月末）
+ * - paymentDay: number | null (オプション、クレジットカードのみ) - 支払日（1〜31）
+ * - paymentMonthOffset: 1 | 2 (オプション) - 締め月から支払月までの月数
+ * - paymentAccountId: number | null (オプション、クレジットカードのみ) - 引き落とし口座ID
+ */
+
+// 更新可能なフィールドのスキーマ（ID・有効フラグ・作成・更新日時は除外）
+const updateAccountSchema = insertAccountSchema
+	.omit({
+		id: true,
+		isActive: true,
+		createdAt: true,
+		updatedAt: true,
+	})
+	.partial();
+
+// パラメータのバリデーションスキーマ
+const paramsSchema = z.object({
+	id: z.string().transform((val) => {
+		const num = Number.parseInt(val, 10);
+		if (Number.isNaN(num) || num <= 0) {
+			throw new Error("有効なIDを指定してください");
+		}
+		return num;
+	}),
+});
+
+export async function action({ request, params, context }: any) {
+	try {
+		// HTTPメソッドのチェック
+		if (request.method !== "PUT") {
+			return new Response(
+				JSON.stringify({
+					error: "PUT メソッドのみサポートしています",
+				}),
+				{
+					status: 405,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// パラメータのバリデーション
+		const parsedParams = paramsSchema.safeParse(params);
+		if (!parsedParams.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なパラメータです",
+					details: parsedParams.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const accountId = parsedParams.data.id;
+
+		// 口座の存在チェック
+		const existingAccount = await getAccountById(db, accountId);
+		if (!existingAccount) {
+			return new Response(
+				JSON.stringify({
+					error: "指定された口座が見つかりません",
+				}),
+				{
+					status: 404,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// リクエストボディを解析・バリデーション
+		const body = await request.json();
+		const parsedData = updateAccountSchema.safeParse(body);
+		if (!parsedData.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なリクエストボディです",
+					details: parsedData.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 更新するフィールドが存在するかチェック
+		if (Object.keys(parsedData.data).length === 0) {
+			return new Response(
+				JSON.stringify({
+					error: "更新するフィールドが指定されていません",
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 請求設定は既存の値に更新内容を重ねて検証する
+		const cardSettingsError = getCardSettingsValidationError({
+			...existingAccount,
+			...parsedData.data,
+		});
+		if (cardSettingsError) {
+			return new Response(
+				JSON.stringify({
+					error: "無効な請求設定です",
+					details: cardSettingsError,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 引き落とし口座の存在確認（無効化された口座は指定不可）
+		if (parsedData.data.paymentAccountId) {
+			const paymentAccount = await getAccountById(
+				db,
+				parsedData.data.paymentAccountId,
+			);
+			if (!paymentAccount) {
+				return new Response(
+					JSON.stringify({
+						error: "指定された引き落とし口座が見つかりません",
+						details: `口座ID ${parsedData.data.paymentAccountId} は存在しないか、無効です`,
+					}),
+					{
+						status: 400,
+						headers: { "Content-Type": "application/json" },
+					},
+				);
+			}
+		}
+
+		// 口座を更新
+		const updatedAccount = await updateAccount(db, accountId, parsedData.data);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: updatedAccount,
+				message: "口座が正常に更新されました",
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("口座更新エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "口座の更新中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
@@ -0,0 +1,137 @@
+import { createDb } from "../../../../db/connection";
+import {
+	createAccount,
+	getAccountById,
+	getCardSettingsValidationError,
+} from "../../../../db/queries/accounts";
+import { insertAccountSchema } from "../../../../db/schema";
+
+/**
+ * POST /api/accounts/create エンドポイント
+ *
+ * 機能:
+ * - 新しい口座を作成
+ * - リクエストボディのバリデーション
+ * - 表示順序の自動設定（未指定の場合は末尾に追加）
+ * - クレジットカードの請求設定の整合性と引き落とし口座の存在確認
+ *
+ * リクエストボディ:
+ * - name: string (必須) - 口座名
+ * - type: 'bank' | 'cash' | 'credit_card' | 'e_money' | 'securities' (必須) - 口座種別
+ * - openingBalance: number (オプション、デフォルト: 0) - 開始残高（円単位の整数）
+ * - color: string (オプション) - 色コード (#RRGGBB形式)
+ * - displayOrder: number (オプション) - 表示順序
+ * - closingDay: number | null (オプション、クレジットカードのみ) - 締め日（1〜31、31は月末）
+ * - paymentDay: number | null (オプション、クレジットカードのみ) - 支払日（1〜31）
+ * - paymentMonthOffset: 1 | 2 (オプション、デフォルト: 1) - 締め月から支払月までの月数
+ * - paymentAccountId: number | null (オプション、クレジットカードのみ) - 引き落とし口座ID
+ */
+
+// 作成用スキーマ（ID・有効フラグ・作成日時は指定不可）
+const createAccountSchema = insertAccountSchema.omit({
+	id: true,
+	isActive: true,
+	createdAt: true,
+	updatedAt: true,
+});
+
+export async function action({ request, context }: any) {
+	try {
+		// HTTPメソッドのチェック
+		if (request.method !== "POST") {
+			return new Response(
+				JSON.stringify({
+					error: "POST メソッドのみサポートしています",
+				}),
+				{
+					status: 405,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// リクエストボディを解析
+		const body = await request.json();
+
+		// バリデーション
+		const parsedData = createAccountSchema.safeParse(body);
+		if (!parsedData.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なリクエストボディです",
+					details: parsedData.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 請求設定はクレジットカードの場合のみ指定可能
+		const cardSettingsError = getCardSettingsValidationError(parsedData.data);
+		if (cardSettingsError) {
+			return new Response(
+				JSON.stringify({
+					error: "無効な請求設定です",
+					details: cardSettingsError,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 引き落とし口座の存在確認（無効化された口座は指定不可）
+		if (parsedData.data.paymentAccountId) {
+			const paymentAccount = await getAccountById(
+				db,
+				parsedData.data.paymentAccountId,
+			);
+			if (!paymentAccount) {
+				return new Response(
+					JSON.stringify({
+						error: "指定された引き落とし口座が見つかりません",
+						details: `口座ID ${parsedData.data.paymentAccountId} は存在しないか、無効です`,
+					}),
+					{
+						status: 400,
+						headers: { "Content-Type": "application/json" },
+					},
+				);
+			}
+		}
+
+		// 口座を作成
+		const newAccount = await createAccount(db, parsedData.data);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: newAccount,
+				message: "口座が正常に作成されました",
+			}),
+			{
+				status: 201,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("口座作成エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "口座の作成中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
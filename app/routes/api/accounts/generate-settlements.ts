@@ -0,0 +1,108 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import { generateCardSettlements } from "../../../../db/queries/card-statements";
+
+/**
+ * POST /api/accounts/generate-settlements エンドポイント
+ *
+ * 機能:
+ * - 支払日が到来したクレジットカードの請求について、引き落とし口座からカードへの振替を作成
+ * - Cron Trigger（workers/app.ts の scheduled）と同じ処理を手動で実行する
+ * - 金額は明細上の請求額を優先し、未入力の場合は取引から計算した請求額とする
+ * - 同日に複数回実行しても振替は重複作成されない
+ *
+ * リクエストボディ（オプション）:
+ * - date: string (オプション) - 基準日（YYYY-MM-DD形式、デフォルト: 今日）
+ *
+ * レスポンス:
+ * - 作成した引き落としの件数
+ * - 請求ごとのカード・締め月・支払日・金額・振替の取引ID
+ */
+
+// リクエストボディのバリデーションスキーマ
+const requestSchema = z.object({
+	date: z
+		.string()
+		.regex(/^\d{4}-\d{2}-\d{2}$/, "日付はYYYY-MM-DD形式で指定してください")
+		.optional(),
+});
+
+export async function action({ request, context }: any) {
+	try {
+		// HTTPメソッドのチェック
+		if (request.method !== "POST") {
+			return new Response(
+				JSON.stringify({
+					error: "POST メソッドのみサポートしています",
+				}),
+				{
+					status: 405,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// ボディは省略可能なため、空の場合は空オブジェクトとして扱う
+		const text = await request.text();
+		let body: unknown = {};
+		if (text) {
+			try {
+				body = JSON.parse(text);
+			} catch {
+				return new Response(
+					JSON.stringify({
+						error: "無効なリクエストボディです",
+						details: "JSONの形式が正しくありません",
+					}),
+					{
+						status: 400,
+						headers: { "Content-Type": "application/json" },
+					},
+				);
+			}
+		}
+		const parsedData = requestSchema.safeParse(body);
+		if (!parsedData.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なリクエストボディです",
+					details: parsedData.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const result = await generateCardSettlements(db, parsedData.data.date);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: result,
+				message: `${result.createdSettlements}件の引き落としを作成しました`,
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("カード引き落とし作成エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "カードの引き落としの作成中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
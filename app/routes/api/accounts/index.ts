@@ -0,0 +1,47 @@
+import { createDb } from "../../../../db/connection";
+import { getAccountBalances } from "../../../../db/queries/accounts";
+import {
+	createErrorResponse,
+	createSuccessResponse,
+} from "../../../utils/api-errors";
+
+/**
+ * GET /api/accounts エンドポイント
+ *
+ * 機能:
+ * - 有効な口座一覧を表示順で取得
+ * - 各口座の残高（開始残高 + 収入 - 支出）と入出金の合計を含む
+ * - 全口座の残高合計を返す（ダッシュボード表示用）
+ */
+
+export async function loader({ request, context }: any) {
+	// D1バインディングを早期に取得してエラー診断に使用
+	const d1 = context?.cloudflare?.env?.DB;
+
+	try {
+		const db = createDb(d1);
+
+		const accounts = await getAccountBalances(db);
+
+		// 成功レスポンスを統一フォーマットで返す
+		return createSuccessResponse(accounts, {
+			count: accounts.length,
+			totalBalance: accounts.reduce((sum, account) => sum + account.balance, 0),
+			// デバッグ情報（開発環境のみ）
+			...(process.env.NODE_ENV !== "production" && {
+				debugInfo: {
+					requestUrl: request.url,
+					databaseConnection: d1 ? "D1" : "SQLite (fallback)",
+				},
+			}),
+		});
+	} catch (error) {
+		// 詳細なエラー診断と適切なレスポンス生成
+		return await createErrorResponse(
+			error,
+			"口座一覧の取得中にエラーが発生しました",
+			d1,
+			true, // データベース健全性チェックを含める
+		);
+	}
+}
@@ -0,0 +1,89 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import { migratePaymentMethodsToAccounts } from "../../../../db/queries/accounts";
+
+/**
+ * POST /api/accounts/migrate-payment-methods エンドポイント
+ *
+ * 機能:
+ * - 口座が未設定の取引の支払い方法（paymentMethod）ごとに口座を作成し、取引を紐付ける
+ * - 同名の口座が既にある場合はその口座に紐付ける
+ * - 口座種別は支払い方法の文字列から推定する（作成後に変更可能）
+ * - dryRun指定時は書き込みを行わず移行計画のみを返す（確認画面用）
+ *
+ * リクエストボディ:
+ * - dryRun: boolean (オプション、デフォルト: false)
+ */
+
+// リクエストボディのバリデーションスキーマ
+const requestSchema = z.object({
+	dryRun: z.boolean().default(false),
+});
+
+export async function action({ request, context }: any) {
+	try {
+		// HTTPメソッドのチェック
+		if (request.method !== "POST") {
+			return new Response(
+				JSON.stringify({
+					error: "POST メソッドのみサポートしています",
+				}),
+				{
+					status: 405,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// リクエストボディを解析
+		const body = await request.json();
+		const parsedData = requestSchema.safeParse(body);
+		if (!parsedData.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なリクエストボディです",
+					details: parsedData.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const result = await migratePaymentMethodsToAccounts(
+			db,
+			parsedData.data.dryRun,
+		);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: result,
+				message: result.dryRun
+					? `${result.plan.length}件の支払い方法を移行できます`
+					: `${result.createdAccounts}件の口座を作成し、${result.linkedTransactions}件の取引を紐付けました`,
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("支払い方法の口座移行エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "支払い方法の口座への移行中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
@@ -0,0 +1,109 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import { deleteBudget, getBudgetById } from "../../../../db/queries/budgets";
+
+/**
+ * DELETE /api/budgets/:id/delete エンドポイント
+ *
+ * 機能:
+ * - 指定されたIDの予算を削除
+ * - 予算は論理削除フラグを持たないため物理削除を行う
+ * - 存在チェックとバリデーション
+ *
+ * パラメータ:
+ * - id: number (必須) - 予算ID
+ *
+ * レスポンス:
+ * - 削除された予算の情報
+ * - 成功メッセージ
+ */
+
+// パラメータのバリデーションスキーマ
+const paramsSchema = z.object({
+	id: z.string().transform((val) => {
+		const num = Number.parseInt(val, 10);
+		if (Number.isNaN(num) || num <= 0) {
+			throw new Error("有効なIDを指定してください");
+		}
+		return num;
+	}),
+});
+
+export async function action({ request, params, context }: any) {
+	try {
+		// HTTPメソッドのチェック
+		if (request.method !== "DELETE") {
+			return new Response(
+				JSON.stringify({
+					error: "DELETE メソッドのみサポートしています",
+				}),
+				{
+					status: 405,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// パラメータのバリデーション
+		const parsedParams = paramsSchema.safeParse(params);
+		if (!parsedParams.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なパラメータです",
+					details: parsedParams.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const budgetId = parsedParams.data.id;
+
+		// 予算の存在チェック（削除前の詳細情報をレスポンスに含める）
+		const existingBudget = await getBudgetById(db, budgetId);
+		if (!existingBudget) {
+			return new Response(
+				JSON.stringify({
+					error: "指定された予算が見つかりません",
+				}),
+				{
+					status: 404,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 予算を削除
+		await deleteBudget(db, budgetId);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: existingBudget,
+				message: "予算が正常に削除されました",
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("予算削除エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "予算の削除中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
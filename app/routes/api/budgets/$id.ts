@@ -0,0 +1,90 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import { getBudgetById } from "../../../../db/queries/budgets";
+
+/**
+ * GET /api/budgets/:id エンドポイント
+ *
+ * 機能:
+ * - 指定されたIDの予算を取得
+ * - カテゴリ情報を含む詳細データを返す（全体予算の場合categoryはnull）
+ *
+ * パラメータ:
+ * - id: number (必須) - 予算ID
+ */
+
+// パラメータのバリデーションスキーマ
+const paramsSchema = z.object({
+	id: z.string().transform((val) => {
+		const num = Number.parseInt(val, 10);
+		if (Number.isNaN(num) || num <= 0) {
+			throw new Error("有効なIDを指定してください");
+		}
+		return num;
+	}),
+});
+
+export async function loader({ params, context }: any) {
+	try {
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// パラメータのバリデーション
+		const parsedParams = paramsSchema.safeParse(params);
+		if (!parsedParams.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なパラメータです",
+					details: parsedParams.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const budgetId = parsedParams.data.id;
+
+		// データベースから予算データを取得（カテゴリ情報含む）
+		const budget = await getBudgetById(db, budgetId);
+
+		// 予算が存在しない場合は404を返す
+		if (!budget) {
+			return new Response(
+				JSON.stringify({
+					error: "指定された予算が見つかりません",
+					budgetId,
+				}),
+				{
+					status: 404,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: budget,
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("予算詳細取得エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "予算詳細の取得中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
@@ -0,0 +1,234 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import {
+	findBudgetForPeriod,
+	getBudgetById,
+	updateBudget,
+} from "../../../../db/queries/budgets";
+import { getCategoryById } from "../../../../db/queries/categories";
+import { insertBudgetSchema } from "../../../../db/schema";
+
+/**
+ * PUT /api/budgets/:id/update エンドポイント
+ *
+ * 機能:
+ * - 指定されたIDの予算を更新
+ * - 部分更新に対応（指定されたフィールドのみ更新）
+ * - 更新後の期間と月の組み合わせ、カテゴリの整合性をチェック
+ * - 同じカテゴリ・期間の別予算との重複を防止
+ *
+ * パラメータ:
+ * - id: number (必須) - 予算ID
+ *
+ * リクエストボディ:
+ * - amount: number (オプション) - 予算金額（正の整数）
+ * - period: 'monthly' | 'yearly' (オプション) - 予算期間
+ * - year: number (オプション) - 年
+ * - month: number | null (オプション) - 月（年次予算へ変更する場合はnull）
+ * - categoryId: number | null (オプション) - 支出カテゴリID（nullで全体予算）
+ */
+
+// 更新可能なフィールドのスキーマ（作成・更新日時、IDは除外）
+const updateBudgetSchema = insertBudgetSchema
+	.omit({
+		id: true,
+		createdAt: true,
+		updatedAt: true,
+	})
+	.extend({
+		// 年次予算への変更時に月を解除できるようnullを許可
+		month: z.number().int().min(1).max(12).nullable(),
+	})
+	.partial();
+
+// パラメータのバリデーションスキーマ
+const paramsSchema = z.object({
+	id: z.string().transform((val) => {
+		const num = Number.parseInt(val, 10);
+		if (Number.isNaN(num) || num <= 0) {
+			throw new Error("有効なIDを指定してください");
+		}
+		return num;
+	}),
+});
+
+export async function action({ request, params, context }: any) {
+	try {
+		// HTTPメソッドのチェック
+		if (request.method !== "PUT") {
+			return new Response(
+				JSON.stringify({
+					error: "PUT メソッドのみサポートしています",
+				}),
+				{
+					status: 405,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// パラメータのバリデーション
+		const parsedParams = paramsSchema.safeParse(params);
+		if (!parsedParams.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なパラメータです",
+					details: parsedParams.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const budgetId = parsedParams.data.id;
+
+		// 予算の存在チェック
+		const existingBudget = await getBudgetById(db, budgetId);
+		if (!existingBudget) {
+			return new Response(
+				JSON.stringify({
+					error: "指定された予算が見つかりません",
+				}),
+				{
+					status: 404,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// リクエストボディを解析・バリデーション
+		const body = await request.json();
+		const parsedData = updateBudgetSchema.safeParse(body);
+		if (!parsedData.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なリクエストボディです",
+					details: parsedData.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 更新するフィールドが存在するかチェック
+		if (Object.keys(parsedData.data).length === 0) {
+			return new Response(
+				JSON.stringify({
+					error: "更新するフィールドが指定されていません",
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 既存値とマージした更新後の状態で整合性をチェック
+		const next = {
+			categoryId:
+				parsedData.data.categoryId !== undefined
+					? parsedData.data.categoryId
+					: existingBudget.categoryId,
+			period: parsedData.data.period ?? existingBudget.period,
+			year: parsedData.data.year ?? existingBudget.year,
+			month:
+				parsedData.data.month !== undefined
+					? parsedData.data.month
+					: existingBudget.month,
+		};
+
+		if ((next.period === "monthly") !== (next.month !== null)) {
+			return new Response(
+				JSON.stringify({
+					error: "無効な予算期間です",
+					details: "月次予算は月の指定が必須で、年次予算には月を指定できません",
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		if (next.categoryId !== null) {
+			const category = await getCategoryById(db, next.categoryId);
+			if (!category) {
+				return new Response(
+					JSON.stringify({
+						error: "指定されたカテゴリが見つかりません",
+					}),
+					{
+						status: 400,
+						headers: { "Content-Type": "application/json" },
+					},
+				);
+			}
+
+			if (category.type !== "expense") {
+				return new Response(
+					JSON.stringify({
+						error: "予算には支出カテゴリのみ指定できます",
+						details: `カテゴリ「${category.name}」は収入カテゴリです`,
+					}),
+					{
+						status: 400,
+						headers: { "Content-Type": "application/json" },
+					},
+				);
+			}
+		}
+
+		// 自分以外に同じカテゴリ・期間の予算があれば重複として扱う
+		const duplicateBudget = await findBudgetForPeriod(db, next);
+		if (duplicateBudget && duplicateBudget.id !== budgetId) {
+			return new Response(
+				JSON.stringify({
+					error: "同じカテゴリ・期間の予算が既に登録されています",
+					details: `予算ID ${duplicateBudget.id} と重複しています`,
+				}),
+				{
+					status: 409, // Conflict
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 予算を更新
+		await updateBudget(db, budgetId, parsedData.data);
+
+		// 更新後の予算を詳細情報付きで取得
+		const fullUpdatedBudget = await getBudgetById(db, budgetId);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: fullUpdatedBudget,
+				message: "予算が正常に更新されました",
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("予算更新エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "予算の更新中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
@@ -0,0 +1,175 @@
+import { createDb } from "../../../../db/connection";
+import {
+	createBudget,
+	findBudgetForPeriod,
+	getBudgetById,
+} from "../../../../db/queries/budgets";
+import { getCategoryById } from "../../../../db/queries/categories";
+import { insertBudgetSchema } from "../../../../db/schema";
+
+/**
+ * POST /api/budgets/create エンドポイント
+ *
+ * 機能:
+ * - 新しい予算を作成
+ * - 月次予算は月の指定を必須、年次予算は月の指定を不可とする
+ * - カテゴリを指定しない場合は全支出を対象とする全体予算になる
+ * - 同じカテゴリ・期間の予算の重複登録を防止
+ *
+ * リクエストボディ:
+ * - amount: number (必須) - 予算金額（正の整数）
+ * - period: 'monthly' | 'yearly' (必須) - 予算期間
+ * - year: number (必須) - 年
+ * - month: number (月次の場合必須) - 月（1〜12）
+ * - categoryId: number | null (オプション) - 支出カテゴリID（未指定で全体予算）
+ */
+
+// 期間と月の組み合わせをチェックする作成用スキーマ
+const createBudgetSchema = insertBudgetSchema
+	.omit({ id: true, createdAt: true, updatedAt: true })
+	.refine((data) => (data.period === "monthly") === (data.month != null), {
+		message: "月次予算は月の指定が必須で、年次予算には月を指定できません",
+		path: ["month"],
+	});
+
+export async function action({ request, context }: any) {
+	try {
+		// HTTPメソッドのチェック
+		if (request.method !== "POST") {
+			return new Response(
+				JSON.stringify({
+					error: "POST メソッドのみサポートしています",
+				}),
+				{
+					status: 405,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// リクエストボディを解析
+		const body = await request.json();
+
+		// バリデーション
+		const parsedData = createBudgetSchema.safeParse(body);
+		if (!parsedData.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なリクエストボディです",
+					details: parsedData.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const budgetData = parsedData.data;
+		const categoryId = budgetData.categoryId ?? null;
+
+		// カテゴリ指定時は存在確認と支出カテゴリであることをチェック
+		if (categoryId !== null) {
+			const category = await getCategoryById(db, categoryId);
+			if (!category) {
+				return new Response(
+					JSON.stringify({
+						error: "指定されたカテゴリが見つかりません",
+						details: `カテゴリID ${categoryId} は存在しないか、無効です`,
+					}),
+					{
+						status: 400,
+						headers: { "Content-Type": "application/json" },
+					},
+				);
+			}
+
+			if (category.type !== "expense") {
+				return new Response(
+					JSON.stringify({
+						error: "予算には支出カテゴリのみ指定できます",
+						details: `カテゴリ「${category.name}」は収入カテゴリです`,
+					}),
+					{
+						status: 400,
+						headers: { "Content-Type": "application/json" },
+					},
+				);
+			}
+		}
+
+		// 同じカテゴリ・期間の予算が既に存在する場合は重複として扱う
+		const existingBudget = await findBudgetForPeriod(db, {
+			categoryId,
+			period: budgetData.period,
+			year: budgetData.year,
+			month: budgetData.month ?? null,
+		});
+		if (existingBudget) {
+			return new Response(
+				JSON.stringify({
+					error: "同じカテゴリ・期間の予算が既に登録されています",
+					details: `予算ID ${existingBudget.id} を更新してください`,
+				}),
+				{
+					status: 409, // Conflict
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 予算を作成
+		const newBudget = await createBudget(db, {
+			...budgetData,
+			categoryId,
+		});
+
+		// 作成された予算の詳細情報を取得（カテゴリ情報を含む）
+		const budgetWithDetails = await getBudgetById(db, newBudget.id);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: budgetWithDetails,
+				message: "予算が正常に作成されました",
+			}),
+			{
+				status: 201,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("予算作成エラー:", error);
+
+		// 外部キー制約エラー（カテゴリIDが無効）
+		if (
+			error instanceof Error &&
+			error.message.includes("FOREIGN KEY constraint failed")
+		) {
+			return new Response(
+				JSON.stringify({
+					error: "データベース制約エラー",
+					details: "指定されたカテゴリIDが無効です",
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		return new Response(
+			JSON.stringify({
+				error: "予算の作成中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
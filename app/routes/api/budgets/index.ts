@@ -0,0 +1,80 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import { getBudgetsList } from "../../../../db/queries/budgets";
+import {
+	createErrorResponse,
+	createSuccessResponse,
+} from "../../../utils/api-errors";
+
+/**
+ * GET /api/budgets エンドポイント
+ *
+ * 機能:
+ * - 予算一覧を取得（カテゴリ情報含む）
+ * - 期間・年・月でのフィルタリング機能
+ * - 全体予算を先頭に、カテゴリの表示順でソート
+ *
+ * クエリパラメータ:
+ * - period: 'monthly' | 'yearly' (オプション) - 予算期間
+ * - year: number (オプション) - 年
+ * - month: number (オプション) - 月（1〜12）
+ */
+
+// クエリパラメータのバリデーションスキーマ
+const queryParamsSchema = z.object({
+	period: z.enum(["monthly", "yearly"]).optional(),
+	year: z.coerce.number().int().min(2020).max(2100).optional(),
+	month: z.coerce.number().int().min(1).max(12).optional(),
+});
+
+export async function loader({ request, context }: any) {
+	// D1バインディングを早期に取得してエラー診断に使用
+	const d1 = context?.cloudflare?.env?.DB;
+
+	try {
+		// データベース接続の作成（ここでD1バインディングのエラーが発生する可能性）
+		const db = createDb(d1);
+
+		// クエリパラメータを解析・バリデーション
+		const url = new URL(request.url);
+		const queryParams = Object.fromEntries(url.searchParams.entries());
+
+		const parsedParams = queryParamsSchema.safeParse(queryParams);
+		if (!parsedParams.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なクエリパラメータです",
+					details: parsedParams.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 予算一覧を取得（フィルタリング対応）
+		const budgets = await getBudgetsList(db, parsedParams.data);
+
+		// 成功レスポンスを統一フォーマットで返す
+		return createSuccessResponse(budgets, {
+			count: budgets.length,
+			filters: parsedParams.data,
+			// デバッグ情報（開発環境のみ）
+			...(process.env.NODE_ENV !== "production" && {
+				debugInfo: {
+					requestUrl: request.url,
+					databaseConnection: d1 ? "D1" : "SQLite (fallback)",
+				},
+			}),
+		});
+	} catch (error) {
+		// 詳細なエラー診断と適切なレスポンス生成
+		return await createErrorResponse(
+			error,
+			"予算一覧の取得中にエラーが発生しました",
+			d1,
+			true, // データベース健全性チェックを含める
+		);
+	}
+}
@@ -0,0 +1,88 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import { getBudgetStatus } from "../../../../db/queries/budgets";
+import { getTodayInJst } from "../../../../db/queries/recurrence";
+import {
+	createErrorResponse,
+	createSuccessResponse,
+} from "../../../utils/api-errors";
+
+/**
+ * GET /api/budgets/status エンドポイント
+ *
+ * 機能:
+ * - 指定期間の予算ごとに支出実績・残額・消化率を集計
+ * - 予算超過フラグと、残り日数で割った1日あたりの使用可能額を返す
+ * - 全体予算（カテゴリ未指定）は期間内の全支出を実績とする
+ *
+ * クエリパラメータ:
+ * - period: 'monthly' | 'yearly' (デフォルト: monthly)
+ * - year: number (デフォルト: 今年)
+ * - month: number (月次の場合、デフォルト: 今月)
+ */
+
+// クエリパラメータのバリデーションスキーマ
+const queryParamsSchema = z.object({
+	period: z.enum(["monthly", "yearly"]).default("monthly"),
+	year: z.coerce.number().int().min(2020).max(2100).optional(),
+	month: z.coerce.number().int().min(1).max(12).optional(),
+});
+
+export async function loader({ request, context }: any) {
+	// D1バインディングを早期に取得してエラー診断に使用
+	const d1 = context?.cloudflare?.env?.DB;
+
+	try {
+		// データベース接続の作成（ここでD1バインディングのエラーが発生する可能性）
+		const db = createDb(d1);
+
+		// クエリパラメータを解析・バリデーション
+		const url = new URL(request.url);
+		const queryParams = Object.fromEntries(url.searchParams.entries());
+
+		const parsedParams = queryParamsSchema.safeParse(queryParams);
+		if (!parsedParams.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なクエリパラメータです",
+					details: parsedParams.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 年・月の指定がない場合は今日（日本時間）を基準にする
+		const [todayYear, todayMonth] = getTodayInJst().split("-").map(Number);
+		const { period } = parsedParams.data;
+		const year = parsedParams.data.year ?? todayYear;
+		const month =
+			period === "monthly"
+				? (parsedParams.data.month ?? todayMonth)
+				: undefined;
+
+		const status = await getBudgetStatus(db, { period, year, month });
+
+		// 成功レスポンスを統一フォーマットで返す
+		return createSuccessResponse(status, {
+			period: { period, year, month: month ?? null },
+			// デバッグ情報（開発環境のみ）
+			...(process.env.NODE_ENV !== "production" && {
+				debugInfo: {
+					requestUrl: request.url,
+					databaseConnection: d1 ? "D1" : "SQLite (fallback)",
+				},
+			}),
+		});
+	} catch (error) {
+		// 詳細なエラー診断と適切なレスポンス生成
+		return await createErrorResponse(
+			error,
+			"予算状況の取得中にエラーが発生しました",
+			d1,
+			true, // データベース健全性チェックを含める
+		);
+	}
+}
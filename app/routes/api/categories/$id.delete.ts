@@ -3,7 +3,11 @@ import { createDb } from "../../../../db/connection";
 import {
 	deleteCategory,
 	getCategoryById,
-	isCategoryInUse,
+	getCategoryReplacementValidationError,
+	getCategoryUsage,
+	hasActiveChildCategories,
+	hasCategoryUsage,
+	mergeCategories,
 } from "../../../../db/queries/categories";
 // // import type { Route } from "./+types/$id.delete";
 
@@ -12,15 +16,21 @@ import {
  *
  * 機能:
  * - 指定されたIDのカテゴリを論理削除
- * - 使用中チェック（将来的にトランザクションやサブスクリプションで参照されている場合の警告）
  * - 存在チェック
+ * - 有効な子カテゴリを持つカテゴリは削除不可（子カテゴリを先に削除または移動する）
+ * - 取引・サブスクリプション・予算・自動分類ルールから参照されている場合は、
+ *   付け替え先のカテゴリかアーカイブのどちらかの指定を必須とし、未指定の場合は参照の件数を409で返す
  *
  * パラメータ:
  * - id: number (必須) - カテゴリID
  *
+ * クエリパラメータ:
+ * - replacementCategoryId: number (オプション) - 参照を付け替える先のカテゴリID（同じ種別の有効なカテゴリ）
+ * - archive: boolean (オプション) - trueの場合は参照を残したままアーカイブする
+ *
  * 注意:
  * - 物理削除ではなく論理削除（isActive = false）を実行
- * - 将来的にトランザクションで使用されているカテゴリは削除不可にする予定
+ * - アーカイブしたカテゴリは一覧・選択肢には表示されないが、過去の取引からは引き続き参照される
  */
 
 // パラメータのバリデーションスキーマ
@@ -34,6 +44,19 @@ const paramsSchema = z.object({
 	}),
 });
 
+// クエリパラメータのバリデーションスキーマ
+const queryParamsSchema = z
+	.object({
+		replacementCategoryId: z.coerce.number().int().positive().optional(),
+		archive: z
+			.string()
+			.transform((val) => val === "true")
+			.optional(),
+	})
+	.refine((data) => !(data.replacementCategoryId && data.archive), {
+		message: "付け替え先のカテゴリとアーカイブは同時に指定できません",
+	});
+
 export async function action({ request, params, context }: any) {
 	try {
 		// HTTPメソッドのチェック
@@ -69,6 +92,25 @@ export async function action({ request, params, context }: any) {
 
 		const categoryId = parsedParams.data.id;
 
+		// クエリパラメータのバリデーション
+		const url = new URL(request.url);
+		const parsedQuery = queryParamsSchema.safeParse(
+			Object.fromEntries(url.searchParams.entries()),
+		);
+		if (!parsedQuery.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なクエリパラメータです",
+					details: parsedQuery.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+		const { replacementCategoryId, archive } = parsedQuery.data;
+
 		// カテゴリの存在チェック
 		const existingCategory = await getCategoryById(db, categoryId);
 		if (!existingCategory) {
@@ -83,14 +125,74 @@ export async function action({ request, params, context }: any) {
 			);
 		}
 
-		// 使用中チェック（将来的な機能拡張用）
-		const isInUse = await isCategoryInUse(db, categoryId);
-		if (isInUse) {
+		// 子カテゴリを持つ親カテゴリは削除不可
+		if (await hasActiveChildCategories(db, categoryId)) {
+			return new Response(
+				JSON.stringify({
+					error: "子カテゴリがあるため削除できません",
+					message:
+						"カテゴリを削除するには、子カテゴリを先に削除するか別の親カテゴリへ移動してください",
+				}),
+				{
+					status: 409, // Conflict
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 付け替え先のカテゴリのバリデーション
+		if (replacementCategoryId) {
+			const replacementCategory = await getCategoryById(
+				db,
+				replacementCategoryId,
+			);
+			const validationError = getCategoryReplacementValidationError(
+				[existingCategory],
+				replacementCategory,
+			);
+			if (validationError) {
+				return new Response(
+					JSON.stringify({
+						error: "無効な付け替え先のカテゴリです",
+						details: validationError,
+					}),
+					{
+						status: 400,
+						headers: { "Content-Type": "application/json" },
+					},
+				);
+			}
+
+			// 参照を付け替えてからカテゴリを論理削除
+			const usage = await mergeCategories(
+				db,
+				[categoryId],
+				replacementCategoryId,
+			);
+
+			return new Response(
+				JSON.stringify({
+					success: true,
+					data: { ...existingCategory, isActive: false },
+					usage,
+					message: `カテゴリを削除し、参照を「${replacementCategory?.name}」に付け替えました`,
+				}),
+				{
+					status: 200,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 使用中のカテゴリは付け替え先かアーカイブの指定を必須とする
+		const usage = await getCategoryUsage(db, [categoryId]);
+		if (hasCategoryUsage(usage) && !archive) {
 			return new Response(
 				JSON.stringify({
 					error: "このカテゴリは使用中のため削除できません",
 					message:
-						"カテゴリを削除するには、関連する取引やサブスクリプションを先に削除してください",
+						"参照している取引などを付け替える先のカテゴリを指定するか、アーカイブを指定してください",
+					usage,
 				}),
 				{
 					status: 409, // Conflict
@@ -99,14 +201,17 @@ export async function action({ request, params, context }: any) {
 			);
 		}
 
-		// カテゴリを論理削除
+		// カテゴリを論理削除（参照は残す）
 		const deletedCategory = await deleteCategory(db, categoryId);
 
 		return new Response(
 			JSON.stringify({
 				success: true,
 				data: deletedCategory,
-				message: "カテゴリが正常に削除されました",
+				usage,
+				message: hasCategoryUsage(usage)
+					? "カテゴリをアーカイブしました"
+					: "カテゴリが正常に削除されました",
 			}),
 			{
 				status: 200,
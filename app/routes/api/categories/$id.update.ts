@@ -2,6 +2,7 @@ import { z } from "zod";
 import { createDb } from "../../../../db/connection";
 import {
 	getCategoryById,
+	getCategoryParentValidationError,
 	updateCategory,
 } from "../../../../db/queries/categories";
 import { insertCategorySchema } from "../../../../db/schema";
@@ -22,8 +23,10 @@ import { insertCategorySchema } from "../../../../db/schema";
  * - name: string (オプション) - カテゴリ名
  * - color: string (オプション) - 色コード (#RRGGBB形式)
  * - icon: string (オプション) - アイコン名
- * - displayOrder: number (オプション) - 表示順序
+ * - parentId: number | null (オプション) - 親カテゴリID（nullで最上位に移動）
+ * - displayOrder: number (オプション) - 表示順序（親カテゴリを変更して未指定の場合は移動先の末尾）
  * 注意: type と isActive は更新不可（セキュリティとデータ整合性のため）
+ * 注意: 自分自身や子孫のカテゴリを親にする変更（循環）は不可
  */
 
 // 更新可能なフィールドのスキーマ（typeとisActiveは除外）
@@ -120,11 +123,34 @@ export async function action({ request, params, context }: any) {
 			);
 		}
 
+		// 親カテゴリを変更する場合、存在・種別の一致と循環をチェック
+		const { parentId } = parsedData.data;
+		if (parentId != null) {
+			const parentError = await getCategoryParentValidationError(db, {
+				id: categoryId,
+				type: existingCategory.type,
+				parentId,
+			});
+			if (parentError) {
+				return new Response(
+					JSON.stringify({
+						error: "無効な親カテゴリの指定です",
+						details: parentError,
+					}),
+					{
+						status: 400,
+						headers: { "Content-Type": "application/json" },
+					},
+				);
+			}
+		}
+
 		// カテゴリを更新
 		const updatedCategory = await updateCategory(
 			db,
 			categoryId,
 			parsedData.data,
+			existingCategory,
 		);
 
 		return new Response(
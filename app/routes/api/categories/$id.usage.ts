@@ -0,0 +1,92 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import {
+	getCategoryById,
+	getCategoryUsage,
+} from "../../../../db/queries/categories";
+
+/**
+ * GET /api/categories/:id/usage エンドポイント
+ *
+ * 機能:
+ * - 指定されたカテゴリを参照している取引・サブスクリプション・予算・自動分類ルールの件数を取得
+ * - 削除時に付け替え先かアーカイブかを選ぶ前の確認に使用する
+ *
+ * パラメータ:
+ * - id: number (必須) - カテゴリID
+ */
+
+// パラメータのバリデーションスキーマ
+const paramsSchema = z.object({
+	id: z.string().transform((val) => {
+		const num = Number.parseInt(val, 10);
+		if (Number.isNaN(num) || num <= 0) {
+			throw new Error("有効なIDを指定してください");
+		}
+		return num;
+	}),
+});
+
+export async function loader({ params, context }: any) {
+	try {
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// パラメータのバリデーション
+		const parsedParams = paramsSchema.safeParse(params);
+		if (!parsedParams.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なパラメータです",
+					details: parsedParams.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const categoryId = parsedParams.data.id;
+
+		// カテゴリの存在チェック
+		const category = await getCategoryById(db, categoryId);
+		if (!category) {
+			return new Response(
+				JSON.stringify({
+					error: "指定されたカテゴリが見つかりません",
+				}),
+				{
+					status: 404,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const usage = await getCategoryUsage(db, [categoryId]);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: usage,
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("カテゴリ使用状況取得エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "カテゴリの使用状況の取得中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
@@ -1,5 +1,8 @@
 import { createDb } from "../../../../db/connection";
-import { createCategory } from "../../../../db/queries/categories";
+import {
+	createCategory,
+	getCategoryParentValidationError,
+} from "../../../../db/queries/categories";
 import { insertCategorySchema } from "../../../../db/schema";
 // import type { Route } from "./+types/create";
 
@@ -16,7 +19,8 @@ import { insertCategorySchema } from "../../../../db/schema";
  * - type: 'income' | 'expense' (必須) - カテゴリタイプ
  * - color: string (オプション) - 色コード (#RRGGBB形式)
  * - icon: string (オプション) - アイコン名
- * - displayOrder: number (オプション) - 表示順序
+ * - parentId: number | null (オプション) - 親カテゴリID（同じtypeの有効なカテゴリ）
+ * - displayOrder: number (オプション) - 表示順序（未指定の場合は同じ親カテゴリ内の末尾）
  */
 
 export async function action({ request, context }: any) {
@@ -55,6 +59,27 @@ export async function action({ request, context }: any) {
 			);
 		}
 
+		// 親カテゴリが指定されている場合、存在と種別の一致をチェック
+		const { parentId } = parsedData.data;
+		if (parentId != null) {
+			const parentError = await getCategoryParentValidationError(db, {
+				type: parsedData.data.type,
+				parentId,
+			});
+			if (parentError) {
+				return new Response(
+					JSON.stringify({
+						error: "無効な親カテゴリの指定です",
+						details: parentError,
+					}),
+					{
+						status: 400,
+						headers: { "Content-Type": "application/json" },
+					},
+				);
+			}
+		}
+
 		// カテゴリを作成
 		const newCategory = await createCategory(db, parsedData.data);
 
@@ -14,14 +14,20 @@ import {
  * - アクティブなカテゴリ一覧を取得
  * - クエリパラメータで type による絞り込みに対応
  * - 表示順序でソート済みの結果を返す
+ * - tree=true の場合は親子のツリー（最上位のカテゴリの配列、子カテゴリはchildren）で返す
  *
  * クエリパラメータ:
  * - type: 'income' | 'expense' (オプション)
+ * - tree: boolean (オプション、デフォルト: false) - ツリー形式で取得
  */
 
 // クエリパラメータのバリデーションスキーマ
 const queryParamsSchema = z.object({
 	type: z.enum(["income", "expense"]).optional(),
+	tree: z
+		.string()
+		.transform((val) => val === "true")
+		.optional(),
 });
 
 export async function loader({ request, context }: any) {
@@ -51,7 +57,8 @@ export async function loader({ request, context }: any) {
 		}
 
 		// カテゴリ一覧を取得（データベースクエリエラーが発生する可能性）
-		const categories = await getActiveCategories(db, parsedParams.data.type);
+		const { type, tree } = parsedParams.data;
+		const categories = await getActiveCategories(db, type, { tree });
 
 		// 成功レスポンスを統一フォーマットで返す
 		return createSuccessResponse(categories, {
@@ -0,0 +1,162 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import {
+	getCategoriesByIds,
+	getCategoryReplacementValidationError,
+	hasActiveChildCategories,
+	mergeCategories,
+} from "../../../../db/queries/categories";
+
+/**
+ * POST /api/categories/merge エンドポイント
+ *
+ * 機能:
+ * - 複数のカテゴリを1つのカテゴリに統合
+ * - 統合元のカテゴリを参照している取引・内訳行・サブスクリプション・予算・自動分類ルールを統合先に付け替え、
+ *   統合元のカテゴリを論理削除する
+ * - 統合先に同じ期間の予算がある場合は予算額を合算する
+ * - 統合先は統合元と同じ種別の有効なカテゴリに限る
+ * - 有効な子カテゴリを持つカテゴリは統合元にできない（子カテゴリを先に統合または移動する）
+ *
+ * リクエストボディ:
+ * - sourceCategoryIds: number[] (必須) - 統合元のカテゴリID
+ * - targetCategoryId: number (必須) - 統合先のカテゴリID
+ */
+
+// リクエストボディのバリデーションスキーマ
+const mergeCategoriesSchema = z.object({
+	sourceCategoryIds: z.array(z.number().int().positive()).min(1).max(50),
+	targetCategoryId: z.number().int().positive(),
+});
+
+export async function action({ request, context }: any) {
+	try {
+		// HTTPメソッドのチェック
+		if (request.method !== "POST") {
+			return new Response(
+				JSON.stringify({
+					error: "POST メソッドのみサポートしています",
+				}),
+				{
+					status: 405,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// リクエストボディを解析・バリデーション
+		const body = await request.json();
+		const parsedData = mergeCategoriesSchema.safeParse(body);
+		if (!parsedData.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なリクエストボディです",
+					details: parsedData.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const sourceCategoryIds = Array.from(
+			new Set(parsedData.data.sourceCategoryIds),
+		);
+		const { targetCategoryId } = parsedData.data;
+
+		// 統合元のカテゴリの存在チェック
+		const foundCategories = await getCategoriesByIds(db, [
+			...sourceCategoryIds,
+			targetCategoryId,
+		]);
+		const sourceCategories = foundCategories.filter((category) =>
+			sourceCategoryIds.includes(category.id),
+		);
+		if (sourceCategories.length !== sourceCategoryIds.length) {
+			return new Response(
+				JSON.stringify({
+					error: "指定されたカテゴリが見つかりません",
+				}),
+				{
+					status: 404,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 統合先のカテゴリのバリデーション
+		const targetCategory = foundCategories.find(
+			(category) => category.id === targetCategoryId,
+		);
+		const validationError = getCategoryReplacementValidationError(
+			sourceCategories,
+			targetCategory,
+		);
+		if (validationError || !targetCategory) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なカテゴリの統合です",
+					details: validationError,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 子カテゴリを持つカテゴリは統合元にできない
+		const hasChildren = await Promise.all(
+			sourceCategoryIds.map((id) => hasActiveChildCategories(db, id)),
+		);
+		if (hasChildren.some(Boolean)) {
+			return new Response(
+				JSON.stringify({
+					error: "子カテゴリがあるため統合できません",
+					message:
+						"カテゴリを統合するには、子カテゴリを先に統合するか別の親カテゴリへ移動してください",
+				}),
+				{
+					status: 409, // Conflict
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const usage = await mergeCategories(
+			db,
+			sourceCategoryIds,
+			targetCategoryId,
+		);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: targetCategory,
+				usage,
+				message: `${sourceCategories.length}件のカテゴリを「${targetCategory.name}」に統合しました`,
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("カテゴリ統合エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "カテゴリの統合中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
@@ -1,6 +1,10 @@
 import { z } from "zod";
 import { createDb } from "../../../../db/connection";
-import { reorderCategories } from "../../../../db/queries/categories";
+import {
+	getCategoriesByIds,
+	getCategoryReorderValidationError,
+	reorderCategories,
+} from "../../../../db/queries/categories";
 // import type { Route } from "./+types/reorder";
 
 /**
@@ -10,13 +14,16 @@ import { reorderCategories } from "../../../../db/queries/categories";
  * - カテゴリの表示順序を一括更新
  * - ドラッグ&ドロップによる並び順変更に対応
  * - バリデーションによる整合性チェック
+ * - 表示順序は同じ親カテゴリ内での並び順のため、同じ親カテゴリ・種別のカテゴリのみ一度に並び替えられる
  *
  * リクエストボディ:
  * - categories: Array<{id: number, displayOrder: number}> (必須)
  *   - 更新対象のカテゴリIDと新しい表示順序の配列
+ * - parentId: number | null (オプション) - 並び替える親カテゴリ（nullは最上位のカテゴリ）
+ *   - 指定した場合、すべてのカテゴリがその親カテゴリの子であることをチェック
  *
  * 注意:
- * - 全てのカテゴリを一度に更新することを推奨
+ * - 同じ親カテゴリ内の全てのカテゴリを一度に更新することを推奨
  * - displayOrderの重複は許可（同一順序の場合はIDでソート）
  */
 
@@ -30,6 +37,7 @@ const reorderRequestSchema = z.object({
 			}),
 		)
 		.min(1, "最低1つのカテゴリを指定してください"),
+	parentId: z.number().int().positive().nullable().optional(),
 });
 
 export async function action({ request, context }: any) {
@@ -83,6 +91,26 @@ export async function action({ request, context }: any) {
 			);
 		}
 
+		// 全てのカテゴリが存在し、同じ親カテゴリ内にあるかチェック
+		const targets = await getCategoriesByIds(db, categoryIds);
+		const reorderError = getCategoryReorderValidationError(
+			targets,
+			categoryIds,
+			parsedData.data.parentId,
+		);
+		if (reorderError) {
+			return new Response(
+				JSON.stringify({
+					error: "無効な並び替えの指定です",
+					details: reorderError,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
 		// 表示順序を更新
 		const updatedCategories = await reorderCategories(
 			db,
@@ -0,0 +1,68 @@
+import { createDb } from "../../../../db/connection";
+import {
+	getAllDefaultCategories,
+	seedDefaultCategories,
+} from "../../../../db/seeds/defaultCategories";
+
+/**
+ * POST /api/categories/seed-defaults エンドポイント
+ *
+ * 機能:
+ * - デフォルトカテゴリ（db/seeds/defaultCategories.ts）を投入
+ * - 同じ名前・種別のカテゴリが登録済みの場合は挿入しないため、何度実行しても安全
+ * - 開発・テスト環境ではデータベースの初期化時に同じ処理が自動で実行される。
+ *   本番のD1ではマイグレーション適用後にこのエンドポイントで投入する
+ */
+
+export async function action({ request, context }: any) {
+	try {
+		// HTTPメソッドのチェック
+		if (request.method !== "POST") {
+			return new Response(
+				JSON.stringify({
+					error: "POST メソッドのみサポートしています",
+				}),
+				{
+					status: 405,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		const insertedCount = await seedDefaultCategories(db);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: {
+					insertedCount,
+					totalCount: getAllDefaultCategories().length,
+				},
+				message:
+					insertedCount > 0
+						? `デフォルトカテゴリを${insertedCount}件追加しました`
+						: "デフォルトカテゴリは登録済みです",
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("デフォルトカテゴリ投入エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "デフォルトカテゴリの投入中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
@@ -0,0 +1,107 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import {
+	deleteCategorizationRule,
+	getCategorizationRuleById,
+} from "../../../../db/queries/categorization-rules";
+
+/**
+ * DELETE /api/categorization-rules/:id/delete エンドポイント
+ *
+ * 機能:
+ * - 指定されたIDの自動分類ルールを削除（物理削除）
+ * - ルールを適用済みの取引のカテゴリ・タグ・メモはそのまま残す
+ *
+ * パラメータ:
+ * - id: number (必須) - ルールID
+ */
+
+// パラメータのバリデーションスキーマ
+const paramsSchema = z.object({
+	id: z.string().transform((val) => {
+		const num = Number.parseInt(val, 10);
+		if (Number.isNaN(num) || num <= 0) {
+			throw new Error("有効なIDを指定してください");
+		}
+		return num;
+	}),
+});
+
+export async function action({ request, params, context }: any) {
+	try {
+		// HTTPメソッドのチェック
+		if (request.method !== "DELETE") {
+			return new Response(
+				JSON.stringify({
+					error: "DELETE メソッドのみサポートしています",
+				}),
+				{
+					status: 405,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// パラメータのバリデーション
+		const parsedParams = paramsSchema.safeParse(params);
+		if (!parsedParams.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なパラメータです",
+					details: parsedParams.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const ruleId = parsedParams.data.id;
+
+		// ルールの存在チェック
+		const existingRule = await getCategorizationRuleById(db, ruleId);
+		if (!existingRule) {
+			return new Response(
+				JSON.stringify({
+					error: "指定された自動分類ルールが見つかりません",
+				}),
+				{
+					status: 404,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// ルールを削除
+		const deletedRule = await deleteCategorizationRule(db, ruleId);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: deletedRule,
+				message: "自動分類ルールが正常に削除されました",
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("自動分類ルール削除エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "自動分類ルールの削除中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
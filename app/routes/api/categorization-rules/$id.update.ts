@@ -0,0 +1,172 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import {
+	getCategorizationRuleById,
+	getCategorizationRuleReferencesError,
+	getCategorizationRuleValidationError,
+	updateCategorizationRule,
+} from "../../../../db/queries/categorization-rules";
+import { createCategorizationRuleSchema } from "../../../../db/schema";
+import { parseTransactionWithTags } from "../../../utils/tags";
+
+/**
+ * PUT /api/categorization-rules/:id/update エンドポイント
+ *
+ * 機能:
+ * - 指定されたIDの自動分類ルールを更新
+ * - 部分更新に対応（指定されたフィールドのみ更新）
+ * - 条件・設定する値・参照するカテゴリと口座は、既存の値に更新内容を重ねて検証する
+ * - 更新後の内容は以降に作成される取引から適用される（既存の取引への適用は再適用APIで行う）
+ *
+ * パラメータ:
+ * - id: number (必須) - ルールID
+ *
+ * リクエストボディ:
+ * - POST /api/categorization-rules/create と同じフィールド（すべてオプション）
+ */
+
+// 更新可能なフィールドのスキーマ
+const updateCategorizationRuleSchema = createCategorizationRuleSchema.partial();
+
+// パラメータのバリデーションスキーマ
+const paramsSchema = z.object({
+	id: z.string().transform((val) => {
+		const num = Number.parseInt(val, 10);
+		if (Number.isNaN(num) || num <= 0) {
+			throw new Error("有効なIDを指定してください");
+		}
+		return num;
+	}),
+});
+
+export async function action({ request, params, context }: any) {
+	try {
+		// HTTPメソッドのチェック
+		if (request.method !== "PUT") {
+			return new Response(
+				JSON.stringify({
+					error: "PUT メソッドのみサポートしています",
+				}),
+				{
+					status: 405,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// パラメータのバリデーション
+		const parsedParams = paramsSchema.safeParse(params);
+		if (!parsedParams.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なパラメータです",
+					details: parsedParams.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const ruleId = parsedParams.data.id;
+
+		// ルールの存在チェック
+		const existingRule = await getCategorizationRuleById(db, ruleId);
+		if (!existingRule) {
+			return new Response(
+				JSON.stringify({
+					error: "指定された自動分類ルールが見つかりません",
+				}),
+				{
+					status: 404,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// リクエストボディを解析・バリデーション
+		const body = await request.json();
+		const parsedData = updateCategorizationRuleSchema.safeParse(body);
+		if (!parsedData.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なリクエストボディです",
+					details: parsedData.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 更新するフィールドが存在するかチェック
+		if (Object.keys(parsedData.data).length === 0) {
+			return new Response(
+				JSON.stringify({
+					error: "更新するフィールドが指定されていません",
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 既存の値に更新内容を重ねて検証する
+		const mergedRule = {
+			...parseTransactionWithTags(existingRule),
+			...parsedData.data,
+			type: parsedData.data.type ?? existingRule.type,
+		};
+		const ruleError =
+			getCategorizationRuleValidationError(mergedRule) ??
+			(await getCategorizationRuleReferencesError(db, mergedRule));
+		if (ruleError) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なルールの指定です",
+					details: ruleError,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		await updateCategorizationRule(db, ruleId, parsedData.data);
+
+		// 更新されたルールをカテゴリ情報付きで取得
+		const updatedRule = await getCategorizationRuleById(db, ruleId);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: parseTransactionWithTags(updatedRule),
+				message: "自動分類ルールが正常に更新されました",
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("自動分類ルール更新エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "自動分類ルールの更新中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
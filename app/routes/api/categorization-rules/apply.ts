@@ -0,0 +1,129 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import { reapplyCategorizationRules } from "../../../../db/queries/categorization-rules";
+import { parseTransactionTags } from "../../../utils/tags";
+
+/**
+ * POST /api/categorization-rules/apply エンドポイント
+ *
+ * 機能:
+ * - 有効な自動分類ルールを既存の取引に再適用
+ * - dryRun指定時は取引を更新せず、変更される取引と変更前後の値のみを返す（プレビュー用）
+ * - 振替と分割した取引は対象外
+ *
+ * リクエストボディ:
+ * - dryRun: boolean (オプション、デフォルト: true) - 変更内容の確認のみ行う
+ * - overwriteCategory: boolean (オプション、デフォルト: false) - 設定済みのカテゴリも置き換える
+ * - startDate / endDate: string (オプション) - 対象とする取引日の範囲（YYYY-MM-DD形式）
+ *
+ * レスポンス:
+ * - checkedTransactions: 判定した取引の件数
+ * - changedTransactions: 変更される（dryRun時）・変更した取引の件数
+ * - entries: 取引ごとの一致したルールと変更前後のカテゴリ・タグ・説明
+ */
+
+// 日付形式（YYYY-MM-DD）
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+// リクエストボディのバリデーションスキーマ
+const requestSchema = z.object({
+	dryRun: z.boolean().optional().default(true),
+	overwriteCategory: z.boolean().optional().default(false),
+	startDate: dateSchema.optional(),
+	endDate: dateSchema.optional(),
+});
+
+export async function action({ request, context }: any) {
+	try {
+		// HTTPメソッドのチェック
+		if (request.method !== "POST") {
+			return new Response(
+				JSON.stringify({
+					error: "POST メソッドのみサポートしています",
+				}),
+				{
+					status: 405,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// リクエストボディを解析・バリデーション（ボディなしの場合はプレビュー）
+		const text = await request.text();
+		let body: unknown = {};
+		if (text) {
+			try {
+				body = JSON.parse(text);
+			} catch {
+				return new Response(
+					JSON.stringify({
+						error: "無効なリクエストボディです",
+						details: "JSONの形式が正しくありません",
+					}),
+					{
+						status: 400,
+						headers: { "Content-Type": "application/json" },
+					},
+				);
+			}
+		}
+		const parsedData = requestSchema.safeParse(body);
+		if (!parsedData.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なリクエストボディです",
+					details: parsedData.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const result = await reapplyCategorizationRules(db, parsedData.data);
+
+		// タグはJSON文字列から配列に変換して返す
+		const entries = result.entries.map((entry) => ({
+			...entry,
+			before: {
+				...entry.before,
+				tags: parseTransactionTags(entry.before.tags, entry.transactionId),
+			},
+			after: {
+				...entry.after,
+				tags: parseTransactionTags(entry.after.tags, entry.transactionId),
+			},
+		}));
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: { ...result, entries },
+				message: result.dryRun
+					? `${result.changedTransactions}件の取引がルールに一致しました`
+					: `${result.changedTransactions}件の取引にルールを適用しました`,
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("自動分類ルール再適用エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "自動分類ルールの再適用中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
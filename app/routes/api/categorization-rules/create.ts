@@ -0,0 +1,116 @@
+import { createDb } from "../../../../db/connection";
+import {
+	createCategorizationRule,
+	getCategorizationRuleById,
+	getCategorizationRuleReferencesError,
+	getCategorizationRuleValidationError,
+} from "../../../../db/queries/categorization-rules";
+import { createCategorizationRuleSchema } from "../../../../db/schema";
+import { parseTransactionWithTags } from "../../../utils/tags";
+
+/**
+ * POST /api/categorization-rules/create エンドポイント
+ *
+ * 機能:
+ * - 新しい自動分類ルールを作成
+ * - 条件・設定する値がそれぞれ1つ以上あること、金額の範囲と正規表現の妥当性を検証
+ * - カテゴリ・口座の存在確認と、カテゴリとルールの取引タイプの整合性を検証
+ * - 優先順位の自動設定（未指定の場合は末尾に追加）
+ *
+ * リクエストボディ:
+ * - name: string (必須) - ルール名
+ * - type: 'income' | 'expense' (必須) - 適用対象の取引タイプ
+ * - descriptionPattern: string | null (オプション) - 取引の説明に対するパターン
+ * - matchType: 'contains' | 'regex' (オプション、デフォルト: contains) - パターンの判定方法
+ * - minAmount / maxAmount: number | null (オプション) - 金額の範囲（両端を含む）
+ * - accountId: number | null (オプション) - 口座ID
+ * - paymentMethod: string | null (オプション) - 支払い方法
+ * - categoryId: number | null (オプション) - 設定するカテゴリID
+ * - tags: string[] | null (オプション) - 追加するタグ
+ * - memo: string | null (オプション) - 説明に追記するメモ
+ * - priority: number (オプション) - 優先順位（小さいほど先に判定）
+ * - isActive: boolean (オプション、デフォルト: true) - 有効フラグ
+ */
+
+export async function action({ request, context }: any) {
+	try {
+		// HTTPメソッドのチェック
+		if (request.method !== "POST") {
+			return new Response(
+				JSON.stringify({
+					error: "POST メソッドのみサポートしています",
+				}),
+				{
+					status: 405,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// リクエストボディを解析・バリデーション
+		const body = await request.json();
+		const parsedData = createCategorizationRuleSchema.safeParse(body);
+		if (!parsedData.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なリクエストボディです",
+					details: parsedData.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 条件・設定する値の整合性と、参照するカテゴリ・口座を検証
+		const ruleError =
+			getCategorizationRuleValidationError(parsedData.data) ??
+			(await getCategorizationRuleReferencesError(db, parsedData.data));
+		if (ruleError) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なルールの指定です",
+					details: ruleError,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const created = await createCategorizationRule(db, parsedData.data);
+
+		// 作成されたルールをカテゴリ情報付きで取得
+		const rule = await getCategorizationRuleById(db, created.id);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: parseTransactionWithTags(rule),
+				message: "自動分類ルールが正常に作成されました",
+			}),
+			{
+				status: 201,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("自動分類ルール作成エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "自動分類ルールの作成中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
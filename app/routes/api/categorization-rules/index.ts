@@ -0,0 +1,49 @@
+import { createDb } from "../../../../db/connection";
+import { getCategorizationRulesList } from "../../../../db/queries/categorization-rules";
+import {
+	createErrorResponse,
+	createSuccessResponse,
+} from "../../../utils/api-errors";
+import { parseTransactionsWithTags } from "../../../utils/tags";
+
+/**
+ * GET /api/categorization-rules エンドポイント
+ *
+ * 機能:
+ * - 自動分類ルールの一覧を優先順位順に取得（無効なルールも含む）
+ * - 設定するカテゴリの情報を含む
+ * - タグはJSON文字列から配列に変換して返す
+ */
+
+export async function loader({ request, context }: any) {
+	// D1バインディングを早期に取得してエラー診断に使用
+	const d1 = context?.cloudflare?.env?.DB;
+
+	try {
+		const db = createDb(d1);
+
+		const rules = parseTransactionsWithTags(
+			await getCategorizationRulesList(db),
+		);
+
+		// 成功レスポンスを統一フォーマットで返す
+		return createSuccessResponse(rules, {
+			count: rules.length,
+			// デバッグ情報（開発環境のみ）
+			...(process.env.NODE_ENV !== "production" && {
+				debugInfo: {
+					requestUrl: request.url,
+					databaseConnection: d1 ? "D1" : "SQLite (fallback)",
+				},
+			}),
+		});
+	} catch (error) {
+		// 詳細なエラー診断と適切なレスポンス生成
+		return await createErrorResponse(
+			error,
+			"自動分類ルール一覧の取得中にエラーが発生しました",
+			d1,
+			true, // データベース健全性チェックを含める
+		);
+	}
+}
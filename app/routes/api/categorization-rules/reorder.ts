@@ -0,0 +1,123 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import { reorderCategorizationRules } from "../../../../db/queries/categorization-rules";
+
+/**
+ * PUT /api/categorization-rules/reorder エンドポイント
+ *
+ * 機能:
+ * - 自動分類ルールの優先順位を一括更新
+ * - ルール管理画面での並び替えに対応
+ * - バリデーションによる整合性チェック
+ *
+ * リクエストボディ:
+ * - rules: Array<{id: number, priority: number}> (必須)
+ *   - 更新対象のルールIDと新しい優先順位（小さいほど先に判定）の配列
+ *
+ * 注意:
+ * - 全てのルールを一度に更新することを推奨
+ * - priorityの重複は許可（同一順位の場合はIDの小さいルールを先に判定）
+ */
+
+// リクエストボディのバリデーションスキーマ
+const reorderRequestSchema = z.object({
+	rules: z
+		.array(
+			z.object({
+				id: z.number().int().positive(),
+				priority: z.number().int().min(0),
+			}),
+		)
+		.min(1, "最低1つのルールを指定してください"),
+});
+
+export async function action({ request, context }: any) {
+	try {
+		// HTTPメソッドのチェック
+		if (request.method !== "PUT") {
+			return new Response(
+				JSON.stringify({
+					error: "PUT メソッドのみサポートしています",
+				}),
+				{
+					status: 405,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// リクエストボディを解析・バリデーション
+		const body = await request.json();
+		const parsedData = reorderRequestSchema.safeParse(body);
+		if (!parsedData.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なリクエストボディです",
+					details: parsedData.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const { rules } = parsedData.data;
+
+		// IDの重複チェック
+		const ruleIds = rules.map((rule) => rule.id);
+		if (ruleIds.length !== new Set(ruleIds).size) {
+			return new Response(
+				JSON.stringify({
+					error: "ルールIDに重複があります",
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 優先順位を更新
+		const updatedRules = await reorderCategorizationRules(
+			db,
+			rules.map(({ id, priority }) => ({ id, priority })),
+		);
+
+		// 更新されたルール数が期待値と一致するかチェック
+		if (updatedRules.length !== rules.length) {
+			console.warn(
+				`期待された更新数: ${rules.length}, 実際の更新数: ${updatedRules.length}`,
+			);
+		}
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: updatedRules,
+				message: `${updatedRules.length}件のルールの優先順位が更新されました`,
+				updatedCount: updatedRules.length,
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("自動分類ルール並び順更新エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "自動分類ルールの並び順更新中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
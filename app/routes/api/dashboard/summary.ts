@@ -0,0 +1,47 @@
+import { createDb } from "../../../../db/connection";
+import { getDashboardSummary } from "../../../../db/queries/dashboard";
+import { getTodayInJst } from "../../../../db/queries/recurrence";
+import {
+	createErrorResponse,
+	createSuccessResponse,
+} from "../../../utils/api-errors";
+
+/**
+ * GET /api/dashboard/summary エンドポイント
+ *
+ * 機能:
+ * - 今月の収入・支出・収支と前月比を返す
+ * - 有効なサブスクの月額換算の合計と、今月・前月に記録されたサブスクの支払額の比較を返す
+ * - ダッシュボードのサマリーカードが1回のリクエストで描画できるよう集約して返す
+ */
+
+export async function loader({ request, context }: any) {
+	// D1バインディングを早期に取得してエラー診断に使用
+	const d1 = context?.cloudflare?.env?.DB;
+
+	try {
+		const db = createDb(d1);
+
+		const today = getTodayInJst(); // YYYY-MM-DD形式（日本時間）
+		const summary = await getDashboardSummary(db, today);
+
+		// 成功レスポンスを統一フォーマットで返す
+		return createSuccessResponse(summary, {
+			// デバッグ情報（開発環境のみ）
+			...(process.env.NODE_ENV !== "production" && {
+				debugInfo: {
+					requestUrl: request.url,
+					databaseConnection: d1 ? "D1" : "SQLite (fallback)",
+				},
+			}),
+		});
+	} catch (error) {
+		// 詳細なエラー診断と適切なレスポンス生成
+		return await createErrorResponse(
+			error,
+			"ダッシュボードのサマリー取得中にエラーが発生しました",
+			d1,
+			true, // データベース健全性チェックを含める
+		);
+	}
+}
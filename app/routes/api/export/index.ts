@@ -0,0 +1,46 @@
+import { createDb } from "../../../../db/connection";
+import { exportBackup } from "../../../../db/queries/backup";
+import { createErrorResponse } from "../../../utils/api-errors";
+
+/**
+ * GET /api/export エンドポイント
+ *
+ * 機能:
+ * - カテゴリ・取引・サブスクリプション・予算を1つのJSONドキュメントとして出力
+ * - 出力したドキュメントはそのまま POST /api/import/backup でリストアできる
+ * - ブラウザからはファイルとしてダウンロードされる（Content-Disposition付き）
+ *
+ * レスポンス:
+ * - version: バックアップ形式のバージョン
+ * - exportedAt: 出力日時（ISO 8601）
+ * - data: テーブルごとの全行（タグはDBと同じJSON文字列のまま）
+ */
+
+export async function loader({ context }: any) {
+	// D1バインディングを早期に取得してエラー診断に使用
+	const d1 = context?.cloudflare?.env?.DB;
+
+	try {
+		const db = createDb(d1);
+
+		const backup = await exportBackup(db);
+		const fileName = `saifuu-backup-${backup.exportedAt.slice(0, 10)}.json`;
+
+		// リストア時にそのまま使えるよう、統一レスポンス形式で包まずに返す
+		return new Response(JSON.stringify(backup), {
+			status: 200,
+			headers: {
+				"Content-Type": "application/json",
+				"Content-Disposition": `attachment; filename="${fileName}"`,
+			},
+		});
+	} catch (error) {
+		// 詳細なエラー診断と適切なレスポンス生成
+		return await createErrorResponse(
+			error,
+			"データのエクスポート中にエラーが発生しました",
+			d1,
+			true, // データベース健全性チェックを含める
+		);
+	}
+}
@@ -0,0 +1,129 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import {
+	backupDocumentSchema,
+	restoreBackup,
+	validateBackupReferences,
+} from "../../../../db/queries/backup";
+
+/**
+ * POST /api/import/backup エンドポイント
+ *
+ * 機能:
+ * - GET /api/export で出力したJSONバックアップからデータを復元
+ * - 各行を db/schema のZodスキーマで検証し、参照整合性も確認してから書き込む
+ * - IDは新規採番し、categoryId・recurringIdは復元後のIDに付け替える
+ *
+ * クエリパラメータ:
+ * - mode: 'replace' | 'merge' (デフォルト: merge)
+ *   - replace: 既存データを全削除してから復元
+ *   - merge: 既存データを残して追記（同名カテゴリ・同期間の予算は既存を優先）
+ *
+ * リクエストボディ:
+ * - バックアップドキュメント（version, exportedAt, data）
+ */
+
+// クエリパラメータのバリデーションスキーマ
+const queryParamsSchema = z.object({
+	mode: z.enum(["replace", "merge"]).default("merge"),
+});
+
+export async function action({ request, context }: any) {
+	try {
+		// HTTPメソッドのチェック
+		if (request.method !== "POST") {
+			return new Response(
+				JSON.stringify({
+					error: "POST メソッドのみサポートしています",
+				}),
+				{
+					status: 405,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// クエリパラメータを解析・バリデーション
+		const url = new URL(request.url);
+		const parsedParams = queryParamsSchema.safeParse(
+			Object.fromEntries(url.searchParams.entries()),
+		);
+		if (!parsedParams.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なクエリパラメータです",
+					details: parsedParams.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// バックアップドキュメントを解析・バリデーション
+		const body = await request.json();
+		const parsedData = backupDocumentSchema.safeParse(body);
+		if (!parsedData.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なバックアップデータです",
+					details: parsedData.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 書き込み前に参照整合性を検証
+		const referenceErrors = validateBackupReferences(parsedData.data.data);
+		if (referenceErrors.length > 0) {
+			return new Response(
+				JSON.stringify({
+					error: "バックアップデータの参照整合性エラー",
+					details: referenceErrors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const result = await restoreBackup(
+			db,
+			parsedData.data.data,
+			parsedParams.data.mode,
+		);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: result,
+				message: "バックアップからデータを復元しました",
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("バックアップ復元エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "バックアップの復元中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
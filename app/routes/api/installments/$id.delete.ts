@@ -0,0 +1,108 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import {
+	deleteInstallmentPlan,
+	getInstallmentPlanById,
+} from "../../../../db/queries/installments";
+
+/**
+ * DELETE /api/installments/:id/delete エンドポイント
+ *
+ * 機能:
+ * - 指定されたIDの分割払いを削除（支払いを生成するサブスクリプションも合わせて削除）
+ * - 生成済みの支出取引は削除せず、定期取引の参照のみ外す
+ * - 存在チェックとバリデーション
+ *
+ * パラメータ:
+ * - id: number (必須) - 分割払いID
+ *
+ * レスポンス:
+ * - 削除された分割払いの情報
+ * - 成功メッセージ
+ */
+
+// パラメータのバリデーションスキーマ
+const paramsSchema = z.object({
+	id: z.string().transform((val) => {
+		const num = Number.parseInt(val, 10);
+		if (Number.isNaN(num) || num <= 0) {
+			throw new Error("有効なIDを指定してください");
+		}
+		return num;
+	}),
+});
+
+export async function action({ request, params, context }: any) {
+	try {
+		// HTTPメソッドのチェック
+		if (request.method !== "DELETE") {
+			return new Response(
+				JSON.stringify({
+					error: "DELETE メソッドのみサポートしています",
+				}),
+				{
+					status: 405,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// パラメータのバリデーション
+		const parsedParams = paramsSchema.safeParse(params);
+		if (!parsedParams.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なパラメータです",
+					details: parsedParams.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const plan = await getInstallmentPlanById(db, parsedParams.data.id);
+		if (!plan) {
+			return new Response(
+				JSON.stringify({
+					error: "指定された分割払いが見つかりません",
+				}),
+				{
+					status: 404,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		await deleteInstallmentPlan(db, plan);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: plan,
+				message: "分割払いが正常に削除されました",
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("分割払い削除エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "分割払いの削除中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
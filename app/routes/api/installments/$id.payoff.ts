@@ -0,0 +1,176 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import {
+	getInstallmentPlanById,
+	payOffInstallmentPlan,
+} from "../../../../db/queries/installments";
+import { getTodayInJst } from "../../../../db/queries/recurrence";
+
+/**
+ * POST /api/installments/:id/payoff エンドポイント
+ *
+ * 機能:
+ * - 分割払いを繰上げ返済（一括返済）する
+ * - 返済額の支出取引を作成し、以降の支払いを生成しないようにする
+ * - 完済済み・支払いが完了した計画は返済できない
+ *
+ * パラメータ:
+ * - id: number (必須) - 分割払いID
+ *
+ * リクエストボディ（オプション）:
+ * - date: string (オプション) - 返済日（YYYY-MM-DD形式、デフォルト: 今日）
+ * - amount: number (オプション) - 返済額（正の整数、デフォルト: 残高）
+ *   手数料の減額などでカード会社の返済額が残高と異なる場合に指定する
+ */
+
+// パラメータのバリデーションスキーマ
+const paramsSchema = z.object({
+	id: z.string().transform((val) => {
+		const num = Number.parseInt(val, 10);
+		if (Number.isNaN(num) || num <= 0) {
+			throw new Error("有効なIDを指定してください");
+		}
+		return num;
+	}),
+});
+
+// リクエストボディのバリデーションスキーマ
+const requestSchema = z.object({
+	date: z
+		.string()
+		.regex(/^\d{4}-\d{2}-\d{2}$/, "日付はYYYY-MM-DD形式で指定してください")
+		.optional(),
+	amount: z.number().int().positive().optional(),
+});
+
+export async function action({ request, params, context }: any) {
+	try {
+		// HTTPメソッドのチェック
+		if (request.method !== "POST") {
+			return new Response(
+				JSON.stringify({
+					error: "POST メソッドのみサポートしています",
+				}),
+				{
+					status: 405,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// パラメータのバリデーション
+		const parsedParams = paramsSchema.safeParse(params);
+		if (!parsedParams.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なパラメータです",
+					details: parsedParams.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// ボディは省略可能なため、空の場合は空オブジェクトとして扱う
+		const text = await request.text();
+		let body: unknown = {};
+		if (text) {
+			try {
+				body = JSON.parse(text);
+			} catch {
+				return new Response(
+					JSON.stringify({
+						error: "無効なリクエストボディです",
+						details: "JSONの形式が正しくありません",
+					}),
+					{
+						status: 400,
+						headers: { "Content-Type": "application/json" },
+					},
+				);
+			}
+		}
+		const parsedData = requestSchema.safeParse(body);
+		if (!parsedData.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なリクエストボディです",
+					details: parsedData.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const planId = parsedParams.data.id;
+		const plan = await getInstallmentPlanById(db, planId);
+		if (!plan) {
+			return new Response(
+				JSON.stringify({
+					error: "指定された分割払いが見つかりません",
+				}),
+				{
+					status: 404,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 支払いが残っていない計画は返済できない
+		if (plan.summary.status !== "active" || plan.summary.remainingAmount <= 0) {
+			return new Response(
+				JSON.stringify({
+					error: "無効な繰上げ返済の指定です",
+					details:
+						plan.summary.status === "paid_off"
+							? "この分割払いは既に繰上げ返済済みです"
+							: "この分割払いに残高はありません",
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const transaction = await payOffInstallmentPlan(db, plan, {
+			date: parsedData.data.date ?? getTodayInJst(),
+			amount: parsedData.data.amount,
+		});
+
+		// 返済後の分割払いを進捗付きで取得
+		const updatedPlan = await getInstallmentPlanById(db, planId);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: { plan: updatedPlan, transaction },
+				message: `${transaction.amount.toLocaleString()}円を繰上げ返済しました`,
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("分割払い繰上げ返済エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "分割払いの繰上げ返済中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
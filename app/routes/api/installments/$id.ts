@@ -0,0 +1,86 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import { getInstallmentPlanById } from "../../../../db/queries/installments";
+
+/**
+ * GET /api/installments/:id エンドポイント
+ *
+ * 機能:
+ * - 指定されたIDの分割払いを取得
+ * - 進捗（残高・残り回数・次回の支払い）と全回の支払予定を含む
+ *
+ * パラメータ:
+ * - id: number (必須) - 分割払いID
+ */
+
+// パラメータのバリデーションスキーマ
+const paramsSchema = z.object({
+	id: z.string().transform((val) => {
+		const num = Number.parseInt(val, 10);
+		if (Number.isNaN(num) || num <= 0) {
+			throw new Error("有効なIDを指定してください");
+		}
+		return num;
+	}),
+});
+
+export async function loader({ params, context }: any) {
+	try {
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// パラメータのバリデーション
+		const parsedParams = paramsSchema.safeParse(params);
+		if (!parsedParams.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なパラメータです",
+					details: parsedParams.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const planId = parsedParams.data.id;
+		const plan = await getInstallmentPlanById(db, planId);
+		if (!plan) {
+			return new Response(
+				JSON.stringify({
+					error: "指定された分割払いが見つかりません",
+					planId,
+				}),
+				{
+					status: 404,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: plan,
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("分割払い詳細取得エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "分割払いの取得中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
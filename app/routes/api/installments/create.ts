@@ -0,0 +1,170 @@
+import { createDb } from "../../../../db/connection";
+import { getAccountById } from "../../../../db/queries/accounts";
+import { getCategoryById } from "../../../../db/queries/categories";
+import {
+	createInstallmentPlan,
+	getInstallmentPlanById,
+	getRevolvingTermsError,
+} from "../../../../db/queries/installments";
+import { createInstallmentPlanSchema } from "../../../../db/schema";
+
+/**
+ * POST /api/installments/create エンドポイント
+ *
+ * 機能:
+ * - 新しい分割払い・リボ払いを作成
+ * - 毎月の支払いを生成するサブスクリプション（月次）を合わせて作成する
+ * - リボ払いは毎月の支払額と実質年率から支払回数・利息の合計を計算する
+ * - カテゴリIDの存在確認（支出カテゴリのみ指定可）
+ * - 口座IDの存在確認
+ *
+ * リクエストボディ:
+ * - name: string (必須) - 名前（例: ノートPC）
+ * - paymentType: 'installment' | 'revolving' (オプション) - 分割払い・リボ払い（デフォルト: 分割払い）
+ * - principalAmount: number (必須) - 購入金額（正の整数）
+ * - fee: number (オプション) - 分割手数料・利息の合計（分割払いのみ、デフォルト: 0）
+ * - paymentCount: number (分割払いは必須) - 支払回数（2〜120）
+ * - monthlyPayment: number (リボ払いは必須) - 毎月の支払額（利息を含む）
+ * - interestRate: number (リボ払いは必須) - 実質年率（%、0〜20）
+ * - firstPaymentDate: string (必須) - 初回の支払日（YYYY-MM-DD形式、以降は毎月同じ日）
+ * - categoryId: number (オプション) - 支出カテゴリID
+ * - accountId: number (オプション) - 支払いに使う口座ID
+ * - description: string (オプション) - 説明・メモ
+ */
+
+export async function action({ request, context }: any) {
+	try {
+		// HTTPメソッドのチェック
+		if (request.method !== "POST") {
+			return new Response(
+				JSON.stringify({
+					error: "POST メソッドのみサポートしています",
+				}),
+				{
+					status: 405,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// リクエストボディを解析・バリデーション
+		const body = await request.json();
+		const parsedData = createInstallmentPlanSchema.safeParse(body);
+		if (!parsedData.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なリクエストボディです",
+					details: parsedData.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// リボ払いの場合、毎月の支払額で支払い終わることのチェック
+		if (parsedData.data.paymentType === "revolving") {
+			const termsError = getRevolvingTermsError({
+				principalAmount: parsedData.data.principalAmount,
+				firstPaymentDate: parsedData.data.firstPaymentDate,
+				monthlyPayment: parsedData.data.monthlyPayment ?? 0,
+				interestRate: parsedData.data.interestRate ?? 0,
+			});
+			if (termsError) {
+				return new Response(
+					JSON.stringify({
+						error: termsError,
+						details: `毎月の支払額 ${parsedData.data.monthlyPayment}円・実質年率 ${parsedData.data.interestRate}%`,
+					}),
+					{
+						status: 400,
+						headers: { "Content-Type": "application/json" },
+					},
+				);
+			}
+		}
+
+		// カテゴリIDが指定されている場合、存在確認と支出カテゴリであることのチェック
+		if (parsedData.data.categoryId) {
+			const category = await getCategoryById(db, parsedData.data.categoryId);
+			if (!category) {
+				return new Response(
+					JSON.stringify({
+						error: "指定されたカテゴリが見つかりません",
+						details: `カテゴリID ${parsedData.data.categoryId} は存在しないか、無効です`,
+					}),
+					{
+						status: 400,
+						headers: { "Content-Type": "application/json" },
+					},
+				);
+			}
+			if (category.type !== "expense") {
+				return new Response(
+					JSON.stringify({
+						error: "取引タイプとカテゴリタイプが一致しません",
+						details: `カテゴリ「${category.name}」は収入カテゴリです`,
+					}),
+					{
+						status: 400,
+						headers: { "Content-Type": "application/json" },
+					},
+				);
+			}
+		}
+
+		// 口座IDが指定されている場合、存在確認（無効化された口座は指定不可）
+		if (parsedData.data.accountId) {
+			const account = await getAccountById(db, parsedData.data.accountId);
+			if (!account) {
+				return new Response(
+					JSON.stringify({
+						error: "指定された口座が見つかりません",
+						details: `口座ID ${parsedData.data.accountId} は存在しないか、無効です`,
+					}),
+					{
+						status: 400,
+						headers: { "Content-Type": "application/json" },
+					},
+				);
+			}
+		}
+
+		const created = await createInstallmentPlan(db, parsedData.data);
+
+		// 作成された分割払いを進捗・支払予定付きで取得
+		const plan = await getInstallmentPlanById(db, created.id);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: plan,
+				message:
+					plan.paymentType === "revolving"
+						? "リボ払いが正常に作成されました"
+						: "分割払いが正常に作成されました",
+			}),
+			{
+				status: 201,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("分割払い作成エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "分割払いの作成中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
@@ -0,0 +1,111 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import { generateInstallmentTransactions } from "../../../../db/queries/installments";
+
+/**
+ * POST /api/installments/generate-transactions エンドポイント
+ *
+ * 機能:
+ * - 支払日が到来した分割払いの支出取引を生成
+ * - Cron Trigger（workers/app.ts の scheduled）と同じ処理を手動で実行する
+ * - 取りこぼした複数回分の支払いもまとめて生成し、最終回まで生成した計画は終了する
+ * - 同日に複数回実行しても取引は重複生成されない
+ *
+ * リクエストボディ（オプション）:
+ * - date: string (オプション) - 基準日（YYYY-MM-DD形式、デフォルト: 今日）
+ *
+ * レスポンス:
+ * - 処理した分割払いの数と生成した取引数
+ * - 分割払いごとの生成日・スキップ日・次回の支払日（終了した場合はnull）
+ */
+
+// リクエストボディのバリデーションスキーマ
+const requestSchema = z.object({
+	date: z
+		.string()
+		.regex(/^\d{4}-\d{2}-\d{2}$/, "日付はYYYY-MM-DD形式で指定してください")
+		.optional(),
+});
+
+export async function action({ request, context }: any) {
+	try {
+		// HTTPメソッドのチェック
+		if (request.method !== "POST") {
+			return new Response(
+				JSON.stringify({
+					error: "POST メソッドのみサポートしています",
+				}),
+				{
+					status: 405,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// ボディは省略可能なため、空の場合は空オブジェクトとして扱う
+		const text = await request.text();
+		let body: unknown = {};
+		if (text) {
+			try {
+				body = JSON.parse(text);
+			} catch {
+				return new Response(
+					JSON.stringify({
+						error: "無効なリクエストボディです",
+						details: "JSONの形式が正しくありません",
+					}),
+					{
+						status: 400,
+						headers: { "Content-Type": "application/json" },
+					},
+				);
+			}
+		}
+		const parsedData = requestSchema.safeParse(body);
+		if (!parsedData.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なリクエストボディです",
+					details: parsedData.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const result = await generateInstallmentTransactions(
+			db,
+			parsedData.data.date,
+		);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: result,
+				message: `${result.createdTransactions}件の取引を生成しました`,
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("分割払い取引生成エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "分割払いの取引生成中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
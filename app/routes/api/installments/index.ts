@@ -0,0 +1,46 @@
+import { createDb } from "../../../../db/connection";
+import { getInstallmentPlansList } from "../../../../db/queries/installments";
+import {
+	createErrorResponse,
+	createSuccessResponse,
+} from "../../../utils/api-errors";
+
+/**
+ * GET /api/installments エンドポイント
+ *
+ * 機能:
+ * - 分割払いの一覧を取得（カテゴリ情報含む、新しい順）
+ * - 計画ごとに支払済みの金額・回数、残高・残り回数、次回の支払いを付与
+ */
+
+export async function loader({ request, context }: any) {
+	// D1バインディングを早期に取得してエラー診断に使用
+	const d1 = context?.cloudflare?.env?.DB;
+
+	try {
+		// データベース接続の作成（ここでD1バインディングのエラーが発生する可能性）
+		const db = createDb(d1);
+
+		const plans = await getInstallmentPlansList(db);
+
+		// 成功レスポンスを統一フォーマットで返す
+		return createSuccessResponse(plans, {
+			count: plans.length,
+			// デバッグ情報（開発環境のみ）
+			...(process.env.NODE_ENV !== "production" && {
+				debugInfo: {
+					requestUrl: request.url,
+					databaseConnection: d1 ? "D1" : "SQLite (fallback)",
+				},
+			}),
+		});
+	} catch (error) {
+		// 詳細なエラー診断と適切なレスポンス生成
+		return await createErrorResponse(
+			error,
+			"分割払いの一覧の取得中にエラーが発生しました",
+			d1,
+			true, // データベース健全性チェックを含める
+		);
+	}
+}
@@ -0,0 +1,97 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import { markNotificationRead } from "../../../../db/queries/notifications";
+
+/**
+ * POST /api/notifications/:id/read エンドポイント
+ *
+ * 機能:
+ * - 指定されたIDの通知を既読にする（既読の通知に対しても成功を返す）
+ *
+ * パラメータ:
+ * - id: number (必須) - 通知ID
+ */
+
+// パラメータのバリデーションスキーマ
+const paramsSchema = z.object({
+	id: z.string().transform((val) => {
+		const num = Number.parseInt(val, 10);
+		if (Number.isNaN(num) || num <= 0) {
+			throw new Error("有効なIDを指定してください");
+		}
+		return num;
+	}),
+});
+
+export async function action({ request, params, context }: any) {
+	try {
+		// HTTPメソッドのチェック
+		if (request.method !== "POST") {
+			return new Response(
+				JSON.stringify({
+					error: "POST メソッドのみサポートしています",
+				}),
+				{
+					status: 405,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// パラメータのバリデーション
+		const parsedParams = paramsSchema.safeParse(params);
+		if (!parsedParams.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なパラメータです",
+					details: parsedParams.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const notification = await markNotificationRead(db, parsedParams.data.id);
+		if (!notification) {
+			return new Response(
+				JSON.stringify({
+					error: "指定された通知が見つかりません",
+				}),
+				{
+					status: 404,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: notification,
+				message: "通知を既読にしました",
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("通知既読エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "通知を既読にする処理中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
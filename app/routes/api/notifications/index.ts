@@ -0,0 +1,89 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import {
+	DEFAULT_NOTIFICATION_LIMIT,
+	getNotifications,
+	getUnreadNotificationCount,
+} from "../../../../db/queries/notifications";
+
+/**
+ * GET /api/notifications エンドポイント
+ *
+ * 機能:
+ * - アプリ内通知（サブスクリプションのリマインダー）を作成の新しい順で取得
+ * - 未読の件数を合わせて返す（ヘッダーのベルの表示用）
+ *
+ * クエリパラメータ:
+ * - unreadOnly: 'true' | 'false' (オプション) - 未読の通知のみ取得するか（デフォルト: false）
+ * - limit: number (オプション) - 取得件数（1〜100、デフォルト: 20）
+ */
+
+// クエリパラメータのバリデーションスキーマ
+const queryParamsSchema = z.object({
+	unreadOnly: z
+		.enum(["true", "false"])
+		.default("false")
+		.transform((value) => value === "true"),
+	limit: z.coerce
+		.number()
+		.int()
+		.min(1)
+		.max(100)
+		.default(DEFAULT_NOTIFICATION_LIMIT),
+});
+
+export async function loader({ request, context }: any) {
+	try {
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// クエリパラメータを解析・バリデーション
+		const url = new URL(request.url);
+		const parsedParams = queryParamsSchema.safeParse(
+			Object.fromEntries(url.searchParams.entries()),
+		);
+		if (!parsedParams.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なクエリパラメータです",
+					details: parsedParams.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const [notifications, unreadCount] = await Promise.all([
+			getNotifications(db, parsedParams.data),
+			getUnreadNotificationCount(db),
+		]);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: notifications,
+				count: notifications.length,
+				unreadCount,
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("通知一覧取得エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "通知の取得中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
@@ -0,0 +1,59 @@
+import { createDb } from "../../../../db/connection";
+import { markAllNotificationsRead } from "../../../../db/queries/notifications";
+
+/**
+ * POST /api/notifications/read-all エンドポイント
+ *
+ * 機能:
+ * - 未読の通知をすべて既読にする
+ *
+ * レスポンス:
+ * - 既読にした件数
+ */
+
+export async function action({ request, context }: any) {
+	try {
+		// HTTPメソッドのチェック
+		if (request.method !== "POST") {
+			return new Response(
+				JSON.stringify({
+					error: "POST メソッドのみサポートしています",
+				}),
+				{
+					status: 405,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		const updatedCount = await markAllNotificationsRead(db);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: { updatedCount },
+				message: `${updatedCount}件の通知を既読にしました`,
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("通知一括既読エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "通知を既読にする処理中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
@@ -0,0 +1,191 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import { getTodayInJst } from "../../../../db/queries/recurrence";
+import {
+	getPeriodRecordValidationError,
+	getSubscriptionPayments,
+	recordSubscriptionPeriodPaid,
+	recordSubscriptionPeriodSkipped,
+} from "../../../../db/queries/subscription-payments";
+import { getSubscriptionById } from "../../../../db/queries/subscriptions";
+
+/**
+ * POST /api/subscriptions/:id/payments/record エンドポイント
+ *
+ * 機能:
+ * - 過去の支払い期間をスキップ（請求がなかった）または支払済みとして記録する
+ * - スキップ: 期間に記録されていた支払いの取引を削除し、未払いとして数えないようにする
+ * - 支払済み: 期間の支払いがあれば金額を修正し、なければ定期取引として支払いを作成する
+ *   （スキップの記録は取り消す）
+ *
+ * パラメータ:
+ * - id: number (必須) - サブスクリプションID
+ *
+ * リクエストボディ:
+ * - periodDate: string (必須) - 期間の支払日（YYYY-MM-DD形式、支払い履歴の期間のいずれか）
+ * - status: 'skipped' | 'paid' (必須) - 記録する状態
+ * - amount: number (オプション) - 支払済みにする場合の金額（正の整数、デフォルト: その日の価格）
+ */
+
+// パラメータのバリデーションスキーマ
+const paramsSchema = z.object({
+	id: z.string().transform((val) => {
+		const num = Number.parseInt(val, 10);
+		if (Number.isNaN(num) || num <= 0) {
+			throw new Error("有効なIDを指定してください");
+		}
+		return num;
+	}),
+});
+
+// リクエストボディのバリデーションスキーマ
+const requestSchema = z.object({
+	periodDate: z
+		.string()
+		.regex(/^\d{4}-\d{2}-\d{2}$/, "日付はYYYY-MM-DD形式で指定してください"),
+	status: z.enum(["skipped", "paid"]),
+	amount: z.number().int().positive().optional(),
+});
+
+export async function action({ request, params, context }: any) {
+	try {
+		// HTTPメソッドのチェック
+		if (request.method !== "POST") {
+			return new Response(
+				JSON.stringify({
+					error: "POST メソッドのみサポートしています",
+				}),
+				{
+					status: 405,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// パラメータのバリデーション
+		const parsedParams = paramsSchema.safeParse(params);
+		if (!parsedParams.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なパラメータです",
+					details: parsedParams.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const body = await request.json();
+		const parsedData = requestSchema.safeParse(body);
+		if (!parsedData.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なリクエストボディです",
+					details: parsedData.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const subscriptionId = parsedParams.data.id;
+		const subscription = await getSubscriptionById(db, subscriptionId);
+		if (!subscription) {
+			return new Response(
+				JSON.stringify({
+					error: "指定されたサブスクリプションが見つかりません",
+				}),
+				{
+					status: 404,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 指定された期間が支払い履歴に含まれ、記録できる状態かを検証
+		const today = getTodayInJst();
+		const { periodDate, status, amount } = parsedData.data;
+		const payments = await getSubscriptionPayments(db, subscription, today);
+		const period = payments.periods.find(
+			(candidate) => candidate.periodDate === periodDate,
+		);
+		const validationError = getPeriodRecordValidationError(
+			payments,
+			periodDate,
+			status,
+		);
+		if (!period || validationError) {
+			return new Response(
+				JSON.stringify({
+					error: "無効な支払いの記録です",
+					details: validationError,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		if (status === "skipped") {
+			await recordSubscriptionPeriodSkipped(db, subscriptionId, period);
+		} else {
+			await recordSubscriptionPeriodPaid(
+				db,
+				{
+					id: subscriptionId,
+					name: subscription.name,
+					categoryId: subscription.category?.id ?? null,
+					accountId: subscription.accountId,
+				},
+				period,
+				amount ?? period.expectedAmount,
+			);
+		}
+
+		// 記録後の支払い履歴を返す
+		const updatedPayments = await getSubscriptionPayments(
+			db,
+			subscription,
+			today,
+		);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: {
+					subscriptionId,
+					...updatedPayments,
+				},
+				message:
+					status === "skipped"
+						? "支払いをスキップとして記録しました"
+						: "支払いを記録しました",
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("サブスクリプション支払い記録エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "サブスクリプションの支払いの記録中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
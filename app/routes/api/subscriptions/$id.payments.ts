@@ -0,0 +1,99 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import { getTodayInJst } from "../../../../db/queries/recurrence";
+import { getSubscriptionPayments } from "../../../../db/queries/subscription-payments";
+import { getSubscriptionById } from "../../../../db/queries/subscriptions";
+
+/**
+ * GET /api/subscriptions/:id/payments エンドポイント
+ *
+ * 機能:
+ * - 指定されたIDのサブスクリプションの支払い履歴を取得
+ * - 定期取引（recurringId）として記録されたすべての支払い（新しい順）
+ * - 累計・今年（1月1日以降）の支払総額と回数
+ * - 過去の支払い期間ごとの状態（支払済み・スキップ・未払い・無料トライアル）と未払い・スキップの件数
+ *
+ * パラメータ:
+ * - id: number (必須) - サブスクリプションID
+ */
+
+// パラメータのバリデーションスキーマ
+const paramsSchema = z.object({
+	id: z.string().transform((val) => {
+		const num = Number.parseInt(val, 10);
+		if (Number.isNaN(num) || num <= 0) {
+			throw new Error("有効なIDを指定してください");
+		}
+		return num;
+	}),
+});
+
+export async function loader({ params, context }: any) {
+	try {
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// パラメータのバリデーション
+		const parsedParams = paramsSchema.safeParse(params);
+		if (!parsedParams.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なパラメータです",
+					details: parsedParams.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const subscriptionId = parsedParams.data.id;
+		const subscription = await getSubscriptionById(db, subscriptionId);
+		if (!subscription) {
+			return new Response(
+				JSON.stringify({
+					error: "指定されたサブスクリプションが見つかりません",
+					subscriptionId,
+				}),
+				{
+					status: 404,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const payments = await getSubscriptionPayments(
+			db,
+			subscription,
+			getTodayInJst(),
+		);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: {
+					subscriptionId,
+					...payments,
+				},
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("サブスクリプション支払い履歴取得エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "サブスクリプションの支払い履歴の取得中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
@@ -0,0 +1,98 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import { getTodayInJst } from "../../../../db/queries/recurrence";
+import { getSubscriptionPriceHistory } from "../../../../db/queries/subscription-prices";
+import { getSubscriptionById } from "../../../../db/queries/subscriptions";
+
+/**
+ * GET /api/subscriptions/:id/prices エンドポイント
+ *
+ * 機能:
+ * - 指定されたIDのサブスクリプションの価格の推移を取得
+ * - 記録ごとの適用期間・直前からの増減・適用状態（過去・現在・適用予定）と支払実績を含む
+ * - 定期取引として記録された支払いの合計（支払済みの総額・回数）を含む
+ *
+ * パラメータ:
+ * - id: number (必須) - サブスクリプションID
+ */
+
+// パラメータのバリデーションスキーマ
+const paramsSchema = z.object({
+	id: z.string().transform((val) => {
+		const num = Number.parseInt(val, 10);
+		if (Number.isNaN(num) || num <= 0) {
+			throw new Error("有効なIDを指定してください");
+		}
+		return num;
+	}),
+});
+
+export async function loader({ params, context }: any) {
+	try {
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// パラメータのバリデーション
+		const parsedParams = paramsSchema.safeParse(params);
+		if (!parsedParams.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なパラメータです",
+					details: parsedParams.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const subscriptionId = parsedParams.data.id;
+		const subscription = await getSubscriptionById(db, subscriptionId);
+		if (!subscription) {
+			return new Response(
+				JSON.stringify({
+					error: "指定されたサブスクリプションが見つかりません",
+					subscriptionId,
+				}),
+				{
+					status: 404,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const history = await getSubscriptionPriceHistory(
+			db,
+			subscriptionId,
+			getTodayInJst(),
+		);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: {
+					subscriptionId,
+					...history,
+				},
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("サブスクリプション価格履歴取得エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "サブスクリプションの価格履歴の取得中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
@@ -0,0 +1,90 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import { getSubscriptionReminders } from "../../../../db/queries/subscription-reminders";
+import { getSubscriptionById } from "../../../../db/queries/subscriptions";
+
+/**
+ * GET /api/subscriptions/:id/reminders エンドポイント
+ *
+ * 機能:
+ * - 指定されたIDのサブスクリプションのリマインダーの設定を取得
+ * - 種類（支払日・トライアル終了日・解約期限）ごとに、何日前から通知するかと解約の申し出が必要な日数を含む
+ *
+ * パラメータ:
+ * - id: number (必須) - サブスクリプションID
+ */
+
+// パラメータのバリデーションスキーマ
+const paramsSchema = z.object({
+	id: z.string().transform((val) => {
+		const num = Number.parseInt(val, 10);
+		if (Number.isNaN(num) || num <= 0) {
+			throw new Error("有効なIDを指定してください");
+		}
+		return num;
+	}),
+});
+
+export async function loader({ params, context }: any) {
+	try {
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// パラメータのバリデーション
+		const parsedParams = paramsSchema.safeParse(params);
+		if (!parsedParams.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なパラメータです",
+					details: parsedParams.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const subscriptionId = parsedParams.data.id;
+		const subscription = await getSubscriptionById(db, subscriptionId);
+		if (!subscription) {
+			return new Response(
+				JSON.stringify({
+					error: "指定されたサブスクリプションが見つかりません",
+					subscriptionId,
+				}),
+				{
+					status: 404,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const reminders = await getSubscriptionReminders(db, subscriptionId);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: reminders,
+				count: reminders.length,
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("サブスクリプションのリマインダー取得エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "サブスクリプションのリマインダーの取得中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
@@ -0,0 +1,158 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import { replaceSubscriptionReminders } from "../../../../db/queries/subscription-reminders";
+import { getSubscriptionById } from "../../../../db/queries/subscriptions";
+import { insertSubscriptionReminderSchema } from "../../../../db/schema";
+
+/**
+ * PUT /api/subscriptions/:id/reminders/update エンドポイント
+ *
+ * 機能:
+ * - 指定されたIDのサブスクリプションのリマインダーの設定を置き換える
+ * - 指定されなかった種類のリマインダーは削除する（空の配列ですべて解除）
+ * - 変更した設定は次の定期実行（または POST /api/subscriptions/generate-reminders）から評価される
+ *
+ * パラメータ:
+ * - id: number (必須) - サブスクリプションID
+ *
+ * リクエストボディ:
+ * - reminders: array (必須) - リマインダーの設定（種類ごと1件まで）
+ *   - type: 'payment' | 'trial_end' | 'cancellation_deadline' (必須)
+ *   - daysBefore: number (必須) - 対象日の何日前から通知するか（0〜60、0は当日のみ）
+ *   - noticeDays: number (オプション) - 解約の申し出が必要な日数（次回支払日の何日前が解約期限か、
+ *     'cancellation_deadline'のみ、デフォルト: 0）
+ */
+
+// パラメータのバリデーションスキーマ
+const paramsSchema = z.object({
+	id: z.string().transform((val) => {
+		const num = Number.parseInt(val, 10);
+		if (Number.isNaN(num) || num <= 0) {
+			throw new Error("有効なIDを指定してください");
+		}
+		return num;
+	}),
+});
+
+// リクエストボディのバリデーションスキーマ
+const requestSchema = z.object({
+	reminders: z
+		.array(
+			insertSubscriptionReminderSchema
+				.pick({
+					type: true,
+					daysBefore: true,
+					noticeDays: true,
+				})
+				.required({ daysBefore: true }),
+		)
+		.refine(
+			(reminders) =>
+				new Set(reminders.map((reminder) => reminder.type)).size ===
+				reminders.length,
+			"同じ種類のリマインダーは1件のみ指定してください",
+		),
+});
+
+export async function action({ request, params, context }: any) {
+	try {
+		// HTTPメソッドのチェック
+		if (request.method !== "PUT") {
+			return new Response(
+				JSON.stringify({
+					error: "PUT メソッドのみサポートしています",
+				}),
+				{
+					status: 405,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// パラメータのバリデーション
+		const parsedParams = paramsSchema.safeParse(params);
+		if (!parsedParams.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なパラメータです",
+					details: parsedParams.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const subscriptionId = parsedParams.data.id;
+
+		// サブスクリプションの存在チェック
+		const subscription = await getSubscriptionById(db, subscriptionId);
+		if (!subscription) {
+			return new Response(
+				JSON.stringify({
+					error: "指定されたサブスクリプションが見つかりません",
+				}),
+				{
+					status: 404,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// リクエストボディを解析・バリデーション
+		const body = await request.json();
+		const parsedData = requestSchema.safeParse(body);
+		if (!parsedData.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なリクエストボディです",
+					details: parsedData.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const reminders = await replaceSubscriptionReminders(
+			db,
+			subscriptionId,
+			parsedData.data.reminders.map((reminder) => ({
+				type: reminder.type,
+				daysBefore: reminder.daysBefore,
+				noticeDays: reminder.noticeDays ?? null,
+			})),
+		);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: reminders,
+				count: reminders.length,
+				message: "リマインダーの設定を更新しました",
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("サブスクリプションのリマインダー更新エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "サブスクリプションのリマインダーの更新中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
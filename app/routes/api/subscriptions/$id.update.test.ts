@@ -0,0 +1,143 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	getSubscriptionPrices,
+	hasSubscriptionPayments,
+	recordSubscriptionPrice,
+} from "../../../../db/queries/subscription-prices";
+import {
+	getSubscriptionById,
+	updateSubscription,
+} from "../../../../db/queries/subscriptions";
+import { action } from "./$id.update";
+
+/**
+ * PUT /api/subscriptions/:id の金額の変更のテスト
+ *
+ * 価格履歴はメモリ上の記録で置き換え、記録の置き換え範囲と保存される金額を検証する
+ */
+
+vi.mock("../../../../db/connection", () => ({
+	createDb: vi.fn(() => ({})),
+}));
+
+vi.mock("../../../../db/queries/recurrence", async (importOriginal) => ({
+	...(await importOriginal<
+		typeof import("../../../../db/queries/recurrence")
+	>()),
+	getTodayInJst: vi.fn(() => "2025-06-10"),
+}));
+
+vi.mock(
+	"../../../../db/queries/subscription-prices",
+	async (importOriginal) => ({
+		...(await importOriginal<
+			typeof import("../../../../db/queries/subscription-prices")
+		>()),
+		getSubscriptionPrices: vi.fn(),
+		hasSubscriptionPayments: vi.fn(),
+		recordSubscriptionPrice: vi.fn(),
+	}),
+);
+
+vi.mock("../../../../db/queries/subscriptions", async (importOriginal) => ({
+	...(await importOriginal<
+		typeof import("../../../../db/queries/subscriptions")
+	>()),
+	getSubscriptionById: vi.fn(),
+	updateSubscription: vi.fn(),
+}));
+
+// 価格履歴の記録（適用日の昇順）
+let prices: { amount: number; effectiveDate: string }[] = [];
+
+const requestUpdate = (body: Record<string, unknown>) =>
+	action({
+		request: new Request("http://localhost/api/subscriptions/1", {
+			method: "PUT",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify(body),
+		}),
+		params: { id: "1" },
+		context: { cloudflare: { env: { DB: {} } } },
+	});
+
+describe("PUT /api/subscriptions/:id", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		// 作成時の記録は初回の支払日（2025-07-01）を適用日とする
+		prices = [{ amount: 1490, effectiveDate: "2025-07-01" }];
+
+		vi.mocked(getSubscriptionById).mockResolvedValue({
+			id: 1,
+			name: "動画配信",
+			amount: 1490,
+			frequency: "monthly",
+			nextPaymentDate: "2025-07-01",
+		} as any);
+		vi.mocked(updateSubscription).mockResolvedValue({} as any);
+		vi.mocked(getSubscriptionPrices).mockImplementation(
+			async () => prices as any,
+		);
+		vi.mocked(recordSubscriptionPrice).mockImplementation(
+			async (_db, _id, price, replaceUntil = price.effectiveDate) => {
+				prices = [
+					...prices.filter(
+						(record) =>
+							record.effectiveDate < price.effectiveDate ||
+							record.effectiveDate > replaceUntil,
+					),
+					price,
+				].sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+				return prices as any;
+			},
+		);
+	});
+
+	it("正常ケース: 初回の支払い前に金額を変更すると、作成時の記録を置き換えて新しい金額を保存する", async () => {
+		vi.mocked(hasSubscriptionPayments).mockResolvedValue(false);
+
+		// 実行
+		const response = await requestUpdate({ amount: 1980 });
+
+		// 検証
+		expect(response.status).toBe(200);
+		expect(recordSubscriptionPrice).toHaveBeenCalledWith(
+			expect.anything(),
+			1,
+			{ amount: 1980, effectiveDate: "2025-06-10" },
+			"2025-07-01",
+		);
+		expect(prices).toEqual([{ amount: 1980, effectiveDate: "2025-06-10" }]);
+		expect(updateSubscription).toHaveBeenCalledWith(
+			expect.anything(),
+			1,
+			expect.objectContaining({ amount: 1980 }),
+		);
+	});
+
+	it("正常ケース: 支払済みの場合は以前の記録を残し、適用日の記録を追加する", async () => {
+		vi.mocked(hasSubscriptionPayments).mockResolvedValue(true);
+		prices = [{ amount: 1490, effectiveDate: "2025-05-01" }];
+
+		// 実行
+		const response = await requestUpdate({ amount: 1980 });
+
+		// 検証
+		expect(response.status).toBe(200);
+		expect(recordSubscriptionPrice).toHaveBeenCalledWith(
+			expect.anything(),
+			1,
+			{ amount: 1980, effectiveDate: "2025-06-10" },
+			"2025-06-10",
+		);
+		expect(prices).toEqual([
+			{ amount: 1490, effectiveDate: "2025-05-01" },
+			{ amount: 1980, effectiveDate: "2025-06-10" },
+		]);
+		expect(updateSubscription).toHaveBeenCalledWith(
+			expect.anything(),
+			1,
+			expect.objectContaining({ amount: 1980 }),
+		);
+	});
+});
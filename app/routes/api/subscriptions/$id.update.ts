@@ -1,8 +1,18 @@
 import { z } from "zod";
 import { createDb } from "../../../../db/connection";
+import { getAccountById } from "../../../../db/queries/accounts";
 import { getCategoryById } from "../../../../db/queries/categories";
+import { getTodayInJst } from "../../../../db/queries/recurrence";
+import {
+	getPriceOnDate,
+	getSubscriptionPrices,
+	hasSubscriptionPayments,
+	recordSubscriptionPrice,
+} from "../../../../db/queries/subscription-prices";
 import {
 	getSubscriptionById,
+	getSubscriptionTermValidationError,
+	resolveSubscriptionSchedule,
 	updateSubscription,
 } from "../../../../db/queries/subscriptions";
 import { insertSubscriptionSchema } from "../../../../db/schema";
@@ -15,6 +25,9 @@ import type { Route } from "./+types/$id.update";
  * - 指定されたIDのサブスクリプションを更新
  * - 部分更新に対応（指定されたフィールドのみ更新）
  * - 存在チェックとバリデーション
+ * - 金額の変更は適用日付きで価格履歴に記録する（上書きで履歴を失わない）
+ *   適用日が次回支払日より後の場合は、その日以降の最初の支払いから新しい金額を請求する
+ *   初回の支払い前に次回支払日以前の適用日で変更した場合は、作成時の金額の記録を置き換える
  *
  * パラメータ:
  * - id: number (必須) - サブスクリプションID
@@ -22,9 +35,17 @@ import type { Route } from "./+types/$id.update";
  * リクエストボディ:
  * - name: string (オプション) - サービス名
  * - amount: number (オプション) - 金額（正の整数）
+ * - priceEffectiveDate: string (オプション) - 新しい金額の適用日（YYYY-MM-DD形式、デフォルト: 今日）
  * - categoryId: number (オプション) - カテゴリID
- * - frequency: 'daily' | 'weekly' | 'monthly' | 'yearly' (オプション) - 支払い頻度
+ * - accountId: number | null (オプション) - 引き落とし口座ID
+ * - frequency: 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'semiannual' | 'yearly' | 'biennial' (オプション) - 支払い頻度
  * - nextPaymentDate: string (オプション) - 次回支払日（YYYY-MM-DD形式）
+ * - intervalCount: number (オプション) - 支払い間隔（frequencyの単位の倍数、1〜12）
+ * - billingDay: number | null (オプション) - 支払日（1〜31、月単位の周期のみ）
+ * - businessDayAdjustment: 'none' | 'previous' | 'next' (オプション) - 支払日が土日祝日の場合の扱い
+ * - endDate: string | null (オプション) - 契約の終了日（YYYY-MM-DD形式、次回支払日以降）
+ * - remainingPayments: number | null (オプション) - 残りの支払回数
+ * - trialEndDate: string | null (オプション) - 無料トライアルの終了日（YYYY-MM-DD形式）
  * - description: string (オプション) - 説明・メモ
  * - isActive: boolean (オプション) - アクティブフラグ
  * - autoGenerate: boolean (オプション) - 自動取引生成フラグ
@@ -36,7 +57,13 @@ const updateSubscriptionSchema = insertSubscriptionSchema
 		createdAt: true,
 		updatedAt: true,
 	})
-	.partial();
+	.partial()
+	.extend({
+		priceEffectiveDate: z
+			.string()
+			.regex(/^\d{4}-\d{2}-\d{2}$/)
+			.optional(),
+	});
 
 // パラメータのバリデーションスキーマ
 const paramsSchema = z.object({
@@ -161,11 +188,125 @@ export async function action({ request, params, context }: any) {
 			}
 		}
 
+		// 口座IDが指定されている場合、存在チェック（nullは紐付けの解除）
+		if (parsedData.data.accountId) {
+			const account = await getAccountById(db, parsedData.data.accountId);
+			if (!account) {
+				return new Response(
+					JSON.stringify({
+						error: "指定された口座が見つかりません",
+					}),
+					{
+						status: 400,
+						headers: { "Content-Type": "application/json" },
+					},
+				);
+			}
+		}
+
+		// 金額の適用日は金額と合わせて指定する
+		const { priceEffectiveDate, ...updates } = parsedData.data;
+		if (priceEffectiveDate !== undefined && updates.amount === undefined) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なリクエストボディです",
+					details: "金額の適用日を指定する場合は金額も指定してください",
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 支払いスケジュールに関わる項目が変わる場合は、既存の設定と合わせて支払日を決め直す
+		// （次回支払日だけを変更した場合は、その日を新しい支払日とする）
+		if (
+			updates.frequency !== undefined ||
+			updates.nextPaymentDate !== undefined ||
+			updates.billingDay !== undefined ||
+			updates.businessDayAdjustment !== undefined
+		) {
+			Object.assign(
+				updates,
+				resolveSubscriptionSchedule({
+					frequency: updates.frequency ?? existingSubscription.frequency,
+					nextPaymentDate:
+						updates.nextPaymentDate ?? existingSubscription.nextPaymentDate,
+					billingDay:
+						updates.billingDay !== undefined
+							? updates.billingDay
+							: updates.nextPaymentDate !== undefined
+								? null
+								: existingSubscription.billingDay,
+					businessDayAdjustment:
+						updates.businessDayAdjustment ??
+						existingSubscription.businessDayAdjustment,
+				}),
+			);
+		}
+
+		// 契約の終了日の検証（変更しない項目は既存の値を使う）
+		const termError = getSubscriptionTermValidationError({
+			nextPaymentDate:
+				updates.nextPaymentDate ?? existingSubscription.nextPaymentDate,
+			endDate:
+				updates.endDate !== undefined
+					? updates.endDate
+					: existingSubscription.endDate,
+		});
+		if (termError) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なリクエストボディです",
+					details: termError,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 金額の変更を価格履歴に記録し、次回支払日に適用される金額を保存する
+		// （次回支払日だけを変更した場合も、その日に適用される金額に合わせる）
+		const isPriceChanged =
+			updates.amount !== undefined &&
+			(updates.amount !== existingSubscription.amount ||
+				priceEffectiveDate !== undefined);
+		if (isPriceChanged || updates.nextPaymentDate !== undefined) {
+			const amount = updates.amount ?? existingSubscription.amount;
+			const nextPaymentDate =
+				updates.nextPaymentDate ?? existingSubscription.nextPaymentDate;
+			let prices: Awaited<ReturnType<typeof getSubscriptionPrices>>;
+			if (isPriceChanged) {
+				const effectiveDate = priceEffectiveDate ?? getTodayInJst();
+				// 初回の支払い前は、作成時の記録（適用日は変更前の次回支払日）までを新しい金額で置き換える
+				// （次回支払日も変更する場合は、変更前後の遅い方の日まで）
+				const isBeforeFirstPayment =
+					effectiveDate <= nextPaymentDate &&
+					!(await hasSubscriptionPayments(db, subscriptionId));
+				const replaceUntil =
+					nextPaymentDate > existingSubscription.nextPaymentDate
+						? nextPaymentDate
+						: existingSubscription.nextPaymentDate;
+				prices = await recordSubscriptionPrice(
+					db,
+					subscriptionId,
+					{ amount, effectiveDate },
+					isBeforeFirstPayment ? replaceUntil : effectiveDate,
+				);
+			} else {
+				prices = await getSubscriptionPrices(db, subscriptionId);
+			}
+			updates.amount = getPriceOnDate(prices, nextPaymentDate, amount);
+		}
+
 		// サブスクリプションを更新
 		const updatedSubscription = await updateSubscription(
 			db,
 			subscriptionId,
-			parsedData.data,
+			updates,
 		);
 
 		// 更新後のサブスクリプションを詳細情報付きで取得
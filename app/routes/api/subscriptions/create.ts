@@ -1,5 +1,9 @@
 import { createDb } from "../../../../db/connection";
-import { createSubscription } from "../../../../db/queries/subscriptions";
+import { getAccountById } from "../../../../db/queries/accounts";
+import {
+	createSubscription,
+	getSubscriptionTermValidationError,
+} from "../../../../db/queries/subscriptions";
 import { insertSubscriptionSchema } from "../../../../db/schema";
 import type { Route } from "./+types/create";
 
@@ -10,13 +14,21 @@ import type { Route } from "./+types/create";
  * - 新しいサブスクリプションを作成
  * - リクエストボディのバリデーション
  * - カテゴリIDの存在確認とタイプ検証
+ * - 引き落とし口座IDの存在確認
  *
  * リクエストボディ:
  * - name: string (必須) - サブスクリプション名
  * - amount: number (必須) - 金額（正の整数）
- * - frequency: 'daily' | 'weekly' | 'monthly' | 'yearly' (必須) - 支払い頻度
+ * - frequency: 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'semiannual' | 'yearly' | 'biennial' (必須) - 支払い頻度
  * - categoryId: number (オプション) - カテゴリID
+ * - accountId: number (オプション) - 引き落とし口座ID
  * - nextPaymentDate: string (必須) - 次回支払日（YYYY-MM-DD形式）
+ * - intervalCount: number (オプション) - 支払い間隔（frequencyの単位の倍数、1〜12、デフォルト: 1）
+ * - billingDay: number (オプション) - 支払日（1〜31、月単位の周期のみ、デフォルト: 次回支払日の日）
+ * - businessDayAdjustment: 'none' | 'previous' | 'next' (オプション) - 支払日が土日祝日の場合の扱い（デフォルト: 'none'）
+ * - endDate: string | null (オプション) - 契約の終了日（YYYY-MM-DD形式、次回支払日以降）
+ * - remainingPayments: number | null (オプション) - 残りの支払回数
+ * - trialEndDate: string | null (オプション) - 無料トライアルの終了日（YYYY-MM-DD形式）
  * - description: string (オプション) - 説明・メモ
  * - isActive: boolean (オプション) - アクティブフラグ（デフォルト: true）
  * - autoGenerate: boolean (オプション) - 自動取引生成フラグ（デフォルト: true）
@@ -58,6 +70,21 @@ export async function action({ request, context }: any) {
 			);
 		}
 
+		// 契約の終了日の検証
+		const termError = getSubscriptionTermValidationError(parsedData.data);
+		if (termError) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なリクエストボディです",
+					details: termError,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
 		// カテゴリIDが指定されている場合、存在確認を行う
 		if (parsedData.data.categoryId) {
 			const { getCategoryById } = await import(
@@ -87,6 +114,23 @@ export async function action({ request, context }: any) {
 			}
 		}
 
+		// 口座IDが指定されている場合、存在確認を行う
+		if (parsedData.data.accountId) {
+			const account = await getAccountById(db, parsedData.data.accountId);
+			if (!account) {
+				return new Response(
+					JSON.stringify({
+						error: "指定された口座が見つかりません",
+						details: `口座ID ${parsedData.data.accountId} は存在しないか、無効です`,
+					}),
+					{
+						status: 400,
+						headers: { "Content-Type": "application/json" },
+					},
+				);
+			}
+		}
+
 		// サブスクリプションを作成
 		const newSubscription = await createSubscription(db, parsedData.data);
 
@@ -0,0 +1,109 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import { generateSubscriptionReminders } from "../../../../db/queries/subscription-reminders";
+
+/**
+ * POST /api/subscriptions/generate-reminders エンドポイント
+ *
+ * 機能:
+ * - 今日が通知期間に入ったサブスクリプションのリマインダーから通知を作成
+ * - Cron Trigger（workers/app.ts の scheduled）と同じ処理を手動で実行する
+ * - 同じサブスクリプション・種類・対象日の通知は重複して作成されない
+ *
+ * リクエストボディ（オプション）:
+ * - date: string (オプション) - 基準日（YYYY-MM-DD形式、デフォルト: 今日）
+ *
+ * レスポンス:
+ * - 作成した通知の件数と内容
+ */
+
+// リクエストボディのバリデーションスキーマ
+const requestSchema = z.object({
+	date: z
+		.string()
+		.regex(/^\d{4}-\d{2}-\d{2}$/, "日付はYYYY-MM-DD形式で指定してください")
+		.optional(),
+});
+
+export async function action({ request, context }: any) {
+	try {
+		// HTTPメソッドのチェック
+		if (request.method !== "POST") {
+			return new Response(
+				JSON.stringify({
+					error: "POST メソッドのみサポートしています",
+				}),
+				{
+					status: 405,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// ボディは省略可能なため、空の場合は空オブジェクトとして扱う
+		const text = await request.text();
+		let body: unknown = {};
+		if (text) {
+			try {
+				body = JSON.parse(text);
+			} catch {
+				return new Response(
+					JSON.stringify({
+						error: "無効なリクエストボディです",
+						details: "JSONの形式が正しくありません",
+					}),
+					{
+						status: 400,
+						headers: { "Content-Type": "application/json" },
+					},
+				);
+			}
+		}
+		const parsedData = requestSchema.safeParse(body);
+		if (!parsedData.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なリクエストボディです",
+					details: parsedData.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const result = await generateSubscriptionReminders(
+			db,
+			parsedData.data.date,
+		);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: result,
+				message: `${result.createdNotifications}件の通知を作成しました`,
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("サブスクリプションのリマインダー評価エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "サブスクリプションのリマインダーの評価中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
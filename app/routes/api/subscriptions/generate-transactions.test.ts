@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { generateSubscriptionTransactions } from "../../../../db/queries/subscriptions";
+import { action } from "./generate-transactions";
+
+/**
+ * POST /api/subscriptions/generate-transactions のリクエストの検証のテスト
+ *
+ * 取引の生成はモックに置き換え、基準日の検証と生成処理の呼び出しを検証する
+ */
+
+vi.mock("../../../../db/connection", () => ({
+	createDb: vi.fn(() => ({})),
+}));
+
+vi.mock("../../../../db/queries/recurrence", async (importOriginal) => ({
+	...(await importOriginal<
+		typeof import("../../../../db/queries/recurrence")
+	>()),
+	getTodayInJst: vi.fn(() => "2025-06-10"),
+}));
+
+vi.mock("../../../../db/queries/subscriptions", () => ({
+	generateSubscriptionTransactions: vi.fn(),
+}));
+
+const requestGenerate = (body: string) =>
+	action({
+		request: new Request(
+			"http://localhost/api/subscriptions/generate-transactions",
+			{ method: "POST", body },
+		),
+		context: { cloudflare: { env: { DB: {} } } },
+	});
+
+describe("POST /api/subscriptions/generate-transactions", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.mocked(generateSubscriptionTransactions).mockResolvedValue({
+			createdTransactions: 0,
+		} as any);
+	});
+
+	it("正常ケース: 今日以前の基準日で取引を生成する", async () => {
+		// 実行
+		const response = await requestGenerate(
+			JSON.stringify({ date: "2025-06-10" }),
+		);
+
+		// 検証
+		expect(response.status).toBe(200);
+		expect(generateSubscriptionTransactions).toHaveBeenCalledWith(
+			expect.anything(),
+			"2025-06-10",
+		);
+	});
+
+	it("異常ケース: 存在しない日付は400を返し、取引を生成しない", async () => {
+		// 実行
+		const response = await requestGenerate(
+			JSON.stringify({ date: "2025-02-31" }),
+		);
+
+		// 検証
+		expect(response.status).toBe(400);
+		const body: any = await response.json();
+		expect(body.details.map((issue: any) => issue.message)).toEqual([
+			"存在しない日付です",
+		]);
+		expect(generateSubscriptionTransactions).not.toHaveBeenCalled();
+	});
+
+	it("異常ケース: 未来の日付は400を返し、取引を生成しない", async () => {
+		// 実行
+		const response = await requestGenerate(
+			JSON.stringify({ date: "2025-06-11" }),
+		);
+
+		// 検証
+		expect(response.status).toBe(400);
+		const body: any = await response.json();
+		expect(body.details.map((issue: any) => issue.message)).toEqual([
+			"未来の日付は指定できません",
+		]);
+		expect(generateSubscriptionTransactions).not.toHaveBeenCalled();
+	});
+
+	it("異常ケース: JSONの形式が正しくない場合は400を返す", async () => {
+		// 実行
+		const response = await requestGenerate("{");
+
+		// 検証
+		expect(response.status).toBe(400);
+		expect(generateSubscriptionTransactions).not.toHaveBeenCalled();
+	});
+});
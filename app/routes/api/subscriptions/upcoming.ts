@@ -0,0 +1,75 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import { getUpcomingSubscriptionEvents } from "../../../../db/queries/subscription-reminders";
+
+/**
+ * GET /api/subscriptions/upcoming エンドポイント
+ *
+ * 機能:
+ * - 今日から指定日数後までのサブスクリプションの支払い・トライアル終了・解約期限を日付順に取得
+ * - 支払いはトライアル中・終了日より後・残りの支払回数を超える支払日を除き、支払日時点の金額を含む
+ * - 解約期限は解約期限のリマインダーを設定したサブスクリプションのみ
+ *
+ * クエリパラメータ:
+ * - days: number (オプション) - 今日から何日後までを対象にするか（1〜365、デフォルト: 30）
+ */
+
+// クエリパラメータのバリデーションスキーマ
+const queryParamsSchema = z.object({
+	days: z.coerce.number().int().min(1).max(365).default(30),
+});
+
+export async function loader({ request, context }: any) {
+	try {
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// クエリパラメータを解析・バリデーション
+		const url = new URL(request.url);
+		const parsedParams = queryParamsSchema.safeParse(
+			Object.fromEntries(url.searchParams.entries()),
+		);
+		if (!parsedParams.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なクエリパラメータです",
+					details: parsedParams.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const events = await getUpcomingSubscriptionEvents(
+			db,
+			parsedParams.data.days,
+		);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: events,
+				count: events.length,
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("今後の支払い取得エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "今後の支払いの取得中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
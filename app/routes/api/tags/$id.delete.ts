@@ -0,0 +1,102 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import { deleteTag, getTagById } from "../../../../db/queries/tags";
+
+/**
+ * DELETE /api/tags/:id/delete エンドポイント
+ *
+ * 機能:
+ * - 指定されたIDのタグを削除（物理削除）
+ * - タグが付いたすべての取引と自動分類ルールからタグを取り除く（取引自体は削除しない）
+ *
+ * パラメータ:
+ * - id: number (必須) - タグID
+ */
+
+// パラメータのバリデーションスキーマ
+const paramsSchema = z.object({
+	id: z.string().transform((val) => {
+		const num = Number.parseInt(val, 10);
+		if (Number.isNaN(num) || num <= 0) {
+			throw new Error("有効なIDを指定してください");
+		}
+		return num;
+	}),
+});
+
+export async function action({ request, params, context }: any) {
+	try {
+		// HTTPメソッドのチェック
+		if (request.method !== "DELETE") {
+			return new Response(
+				JSON.stringify({
+					error: "DELETE メソッドのみサポートしています",
+				}),
+				{
+					status: 405,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// パラメータのバリデーション
+		const parsedParams = paramsSchema.safeParse(params);
+		if (!parsedParams.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なパラメータです",
+					details: parsedParams.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// タグの存在チェック
+		const existingTag = await getTagById(db, parsedParams.data.id);
+		if (!existingTag) {
+			return new Response(
+				JSON.stringify({
+					error: "指定されたタグが見つかりません",
+				}),
+				{
+					status: 404,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const updatedTransactions = await deleteTag(db, existingTag);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: existingTag,
+				updatedTransactions,
+				message: "タグが正常に削除されました",
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("タグ削除エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "タグの削除中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
@@ -0,0 +1,168 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import {
+	getTagById,
+	getTagByName,
+	updateTag,
+} from "../../../../db/queries/tags";
+import { insertTagSchema } from "../../../../db/schema";
+
+/**
+ * PUT /api/tags/:id/update エンドポイント
+ *
+ * 機能:
+ * - 指定されたIDのタグの名前・色を更新
+ * - 名前を変更した場合は、タグが付いたすべての取引と自動分類ルールのタグも書き換える
+ * - 他のタグと同じ名前への変更は重複としてエラーにする（1つにまとめる場合は統合APIを使う）
+ *
+ * パラメータ:
+ * - id: number (必須) - タグID
+ *
+ * リクエストボディ:
+ * - name: string (オプション) - タグ名
+ * - color: string | null (オプション) - 色コード (#RRGGBB形式、nullで既定の色に戻す)
+ */
+
+// 更新可能なフィールドのスキーマ
+const updateTagSchema = insertTagSchema
+	.pick({ name: true, color: true })
+	.partial();
+
+// パラメータのバリデーションスキーマ
+const paramsSchema = z.object({
+	id: z.string().transform((val) => {
+		const num = Number.parseInt(val, 10);
+		if (Number.isNaN(num) || num <= 0) {
+			throw new Error("有効なIDを指定してください");
+		}
+		return num;
+	}),
+});
+
+export async function action({ request, params, context }: any) {
+	try {
+		// HTTPメソッドのチェック
+		if (request.method !== "PUT") {
+			return new Response(
+				JSON.stringify({
+					error: "PUT メソッドのみサポートしています",
+				}),
+				{
+					status: 405,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// パラメータのバリデーション
+		const parsedParams = paramsSchema.safeParse(params);
+		if (!parsedParams.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なパラメータです",
+					details: parsedParams.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// タグの存在チェック
+		const existingTag = await getTagById(db, parsedParams.data.id);
+		if (!existingTag) {
+			return new Response(
+				JSON.stringify({
+					error: "指定されたタグが見つかりません",
+				}),
+				{
+					status: 404,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// リクエストボディを解析・バリデーション
+		const body = await request.json();
+		const parsedData = updateTagSchema.safeParse(body);
+		if (!parsedData.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なリクエストボディです",
+					details: parsedData.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 更新するフィールドが存在するかチェック
+		if (Object.keys(parsedData.data).length === 0) {
+			return new Response(
+				JSON.stringify({
+					error: "更新するフィールドが指定されていません",
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 他のタグとの名前の重複チェック
+		const { name } = parsedData.data;
+		if (name !== undefined && name !== existingTag.name) {
+			const duplicateTag = await getTagByName(db, name);
+			if (duplicateTag) {
+				return new Response(
+					JSON.stringify({
+						error: "同じ名前のタグが既に登録されています",
+						details: "1つのタグにまとめる場合はタグの統合を使用してください",
+					}),
+					{
+						status: 409, // Conflict
+						headers: { "Content-Type": "application/json" },
+					},
+				);
+			}
+		}
+
+		const { tag, updatedTransactions } = await updateTag(
+			db,
+			existingTag,
+			parsedData.data,
+		);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: tag,
+				updatedTransactions,
+				message: "タグが正常に更新されました",
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("タグ更新エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "タグの更新中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
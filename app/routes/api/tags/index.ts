@@ -0,0 +1,46 @@
+import { createDb } from "../../../../db/connection";
+import { getTagsWithUsage } from "../../../../db/queries/tags";
+import {
+	createErrorResponse,
+	createSuccessResponse,
+} from "../../../utils/api-errors";
+
+/**
+ * GET /api/tags エンドポイント
+ *
+ * 機能:
+ * - タグの一覧を使用件数の多い順に取得（取引の入力時の候補にも使用）
+ * - 各タグに付いている取引の件数と最後に使った取引日を含む
+ * - どの取引にも付いていないタグも件数0として含む
+ */
+
+export async function loader({ request, context }: any) {
+	// D1バインディングを早期に取得してエラー診断に使用
+	const d1 = context?.cloudflare?.env?.DB;
+
+	try {
+		const db = createDb(d1);
+
+		const tags = await getTagsWithUsage(db);
+
+		// 成功レスポンスを統一フォーマットで返す
+		return createSuccessResponse(tags, {
+			count: tags.length,
+			// デバッグ情報（開発環境のみ）
+			...(process.env.NODE_ENV !== "production" && {
+				debugInfo: {
+					requestUrl: request.url,
+					databaseConnection: d1 ? "D1" : "SQLite (fallback)",
+				},
+			}),
+		});
+	} catch (error) {
+		// 詳細なエラー診断と適切なレスポンス生成
+		return await createErrorResponse(
+			error,
+			"タグ一覧の取得中にエラーが発生しました",
+			d1,
+			true, // データベース健全性チェックを含める
+		);
+	}
+}
@@ -0,0 +1,117 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import { getTagsByIds, mergeTags } from "../../../../db/queries/tags";
+
+/**
+ * POST /api/tags/merge エンドポイント
+ *
+ * 機能:
+ * - 複数のタグを1つのタグに統合
+ * - 統合元のタグが付いたすべての取引と自動分類ルールのタグを統合先のタグに置き換え、統合元のタグを削除する
+ * - 同じ取引に統合元と統合先の両方が付いている場合は1つにまとめる
+ *
+ * リクエストボディ:
+ * - sourceTagIds: number[] (必須) - 統合元のタグID
+ * - targetTagId: number (必須) - 統合先のタグID
+ */
+
+// リクエストボディのバリデーションスキーマ
+const mergeTagsSchema = z.object({
+	sourceTagIds: z.array(z.number().int().positive()).min(1).max(50),
+	targetTagId: z.number().int().positive(),
+});
+
+export async function action({ request, context }: any) {
+	try {
+		// HTTPメソッドのチェック
+		if (request.method !== "POST") {
+			return new Response(
+				JSON.stringify({
+					error: "POST メソッドのみサポートしています",
+				}),
+				{
+					status: 405,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// リクエストボディを解析・バリデーション
+		const body = await request.json();
+		const parsedData = mergeTagsSchema.safeParse(body);
+		if (!parsedData.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なリクエストボディです",
+					details: parsedData.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const sourceTagIds = Array.from(new Set(parsedData.data.sourceTagIds));
+		const { targetTagId } = parsedData.data;
+		if (sourceTagIds.includes(targetTagId)) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なタグの統合です",
+					details: "統合先のタグを統合元に含めることはできません",
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 統合元・統合先のタグの存在チェック
+		const foundTags = await getTagsByIds(db, [...sourceTagIds, targetTagId]);
+		const targetTag = foundTags.find((tag) => tag.id === targetTagId);
+		const sourceTags = foundTags.filter((tag) => tag.id !== targetTagId);
+		if (!targetTag || sourceTags.length !== sourceTagIds.length) {
+			return new Response(
+				JSON.stringify({
+					error: "指定されたタグが見つかりません",
+				}),
+				{
+					status: 404,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const updatedTransactions = await mergeTags(db, sourceTags, targetTag);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: targetTag,
+				updatedTransactions,
+				message: `${sourceTags.length}件のタグを「${targetTag.name}」に統合しました`,
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("タグ統合エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "タグの統合中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
@@ -0,0 +1,87 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import { getTodayInJst } from "../../../../db/queries/recurrence";
+import { getTagStats } from "../../../../db/queries/tags";
+import {
+	createErrorResponse,
+	createSuccessResponse,
+} from "../../../utils/api-errors";
+
+/**
+ * GET /api/tags/stats エンドポイント
+ *
+ * 機能:
+ * - 期間内のタグ別の収入・支出の合計と件数を集計（支出の多い順）
+ * - 1つの取引に複数のタグがある場合は、それぞれのタグに取引の金額全体を数える
+ * - 口座間の振替は集計に含めない
+ *
+ * クエリパラメータ:
+ * - startDate: string (デフォルト: 今年の1月1日) - YYYY-MM-DD
+ * - endDate: string (デフォルト: 今年の12月31日) - YYYY-MM-DD
+ */
+
+const dateParamSchema = z
+	.string()
+	.regex(/^\d{4}-\d{2}-\d{2}$/, "日付はYYYY-MM-DD形式で指定してください");
+
+// クエリパラメータのバリデーションスキーマ
+const queryParamsSchema = z.object({
+	startDate: dateParamSchema.optional(),
+	endDate: dateParamSchema.optional(),
+});
+
+export async function loader({ request, context }: any) {
+	// D1バインディングを早期に取得してエラー診断に使用
+	const d1 = context?.cloudflare?.env?.DB;
+
+	try {
+		const db = createDb(d1);
+
+		// クエリパラメータを解析・バリデーション
+		const url = new URL(request.url);
+		const queryParams = Object.fromEntries(url.searchParams.entries());
+
+		const parsedParams = queryParamsSchema.safeParse(queryParams);
+		if (!parsedParams.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なクエリパラメータです",
+					details: parsedParams.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 期間の指定がない場合は今年（日本時間）を対象にする
+		const year = getTodayInJst().slice(0, 4);
+		const startDate = parsedParams.data.startDate ?? `${year}-01-01`;
+		const endDate = parsedParams.data.endDate ?? `${year}-12-31`;
+		if (startDate > endDate) {
+			return new Response(
+				JSON.stringify({
+					error: "無効な集計期間です",
+					details: "開始日は終了日以前で指定してください",
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const stats = await getTagStats(db, startDate, endDate);
+
+		// 成功レスポンスを統一フォーマットで返す
+		return createSuccessResponse(stats, { startDate, endDate });
+	} catch (error) {
+		// 詳細なエラー診断と適切なレスポンス生成
+		return await createErrorResponse(
+			error,
+			"タグ別の集計中にエラーが発生しました",
+			d1,
+		);
+	}
+}
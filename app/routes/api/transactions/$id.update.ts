@@ -0,0 +1,301 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import { getAccountById } from "../../../../db/queries/accounts";
+import { getCategoryById } from "../../../../db/queries/categories";
+import {
+	type TransactionSplitWithCategory,
+	getSplitCategoriesValidationError,
+	getSplitValidationError,
+	replaceTransactionSplits,
+} from "../../../../db/queries/transaction-splits";
+import {
+	getTransactionById,
+	getTransferValidationError,
+	updateTransaction,
+} from "../../../../db/queries/transactions";
+import { createTransactionSchema } from "../../../../db/schema";
+import {
+	parseTransactionWithTags,
+	stringifyTransactionTags,
+} from "../../../utils/tags";
+
+/**
+ * PUT /api/transactions/:id/update エンドポイント
+ *
+ * 機能:
+ * - 指定されたIDの取引を更新
+ * - 部分更新に対応（指定されたフィールドのみ更新）
+ * - 存在チェックとバリデーション
+ * - カテゴリと取引タイプの整合性チェック
+ * - 口座IDの存在確認（nullで口座の紐付けを解除）
+ * - 振替の整合性チェック（更新後の値で振替元・振替先の口座を検証）
+ * - 内訳の整合性チェック（内訳を省略した場合は既存の内訳と更新後の金額で検証）
+ *
+ * パラメータ:
+ * - id: number (必須) - 取引ID
+ *
+ * リクエストボディ:
+ * - amount: number (オプション) - 金額（正の整数）
+ * - type: 'income' | 'expense' | 'transfer' (オプション) - 取引タイプ
+ * - transactionDate: string (オプション) - 取引日（YYYY-MM-DD形式）
+ * - categoryId: number | null (オプション) - カテゴリID
+ * - description: string (オプション) - 説明・メモ
+ * - paymentMethod: string (オプション) - 支払い方法
+ * - accountId: number | null (オプション) - 口座ID（振替の場合は振替元）
+ * - transferAccountId: number | null (オプション) - 振替先の口座ID
+ * - fee: number (オプション) - 振替手数料
+ * - tags: string[] (オプション) - タグ
+ * - splits: { categoryId, amount, memo? }[] (オプション) - 内訳（全行を置き換え、空の配列で分割を解除）
+ */
+
+// 更新可能なフィールドのスキーマ（作成・更新日時、ID、カード明細の照合状態は除外）
+const updateTransactionSchema = createTransactionSchema
+	.omit({
+		id: true,
+		reconciledStatementId: true,
+		createdAt: true,
+		updatedAt: true,
+	})
+	.partial();
+
+// パラメータのバリデーションスキーマ
+const paramsSchema = z.object({
+	id: z.string().transform((val) => {
+		const num = Number.parseInt(val, 10);
+		if (Number.isNaN(num) || num <= 0) {
+			throw new Error("有効なIDを指定してください");
+		}
+		return num;
+	}),
+});
+
+export async function action({ request, params, context }: any) {
+	try {
+		// HTTPメソッドのチェック
+		if (request.method !== "PUT") {
+			return new Response(
+				JSON.stringify({
+					error: "PUT メソッドのみサポートしています",
+				}),
+				{
+					status: 405,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// パラメータのバリデーション
+		const parsedParams = paramsSchema.safeParse(params);
+		if (!parsedParams.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なパラメータです",
+					details: parsedParams.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const transactionId = parsedParams.data.id;
+
+		// 取引の存在チェック
+		const existingTransaction = await getTransactionById(db, transactionId);
+		if (!existingTransaction) {
+			return new Response(
+				JSON.stringify({
+					error: "指定された取引が見つかりません",
+				}),
+				{
+					status: 404,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// リクエストボディを解析・バリデーション
+		const body = await request.json();
+		const parsedData = updateTransactionSchema.safeParse(body);
+		if (!parsedData.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なリクエストボディです",
+					details: parsedData.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 更新するフィールドが存在するかチェック
+		if (Object.keys(parsedData.data).length === 0) {
+			return new Response(
+				JSON.stringify({
+					error: "更新するフィールドが指定されていません",
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 更新後の内訳（省略時は既存の内訳を引き継ぐ）
+		const nextSplits =
+			parsedData.data.splits ??
+			existingTransaction.splits.map((split: TransactionSplitWithCategory) => ({
+				categoryId: split.categoryId as number,
+				amount: split.amount,
+				memo: split.memo,
+			}));
+		const isSplit = nextSplits.length > 0;
+
+		// 更新後のカテゴリと取引タイプの組み合わせで整合性をチェック（分割時のカテゴリはnull）
+		const nextCategoryId = isSplit
+			? null
+			: parsedData.data.categoryId !== undefined
+				? parsedData.data.categoryId
+				: existingTransaction.categoryId;
+		const nextType = parsedData.data.type ?? existingTransaction.type;
+
+		// 更新後の値で振替の整合性をチェック
+		const transferError = getTransferValidationError({
+			type: nextType,
+			categoryId: nextCategoryId,
+			accountId:
+				parsedData.data.accountId !== undefined
+					? parsedData.data.accountId
+					: existingTransaction.accountId,
+			transferAccountId:
+				parsedData.data.transferAccountId !== undefined
+					? parsedData.data.transferAccountId
+					: existingTransaction.transferAccountId,
+			fee: parsedData.data.fee ?? existingTransaction.fee,
+		});
+		if (transferError) {
+			return new Response(
+				JSON.stringify({
+					error: "無効な振替の指定です",
+					details: transferError,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 更新後の金額・タイプで内訳の合計と各カテゴリを検証
+		const splitError =
+			getSplitValidationError({
+				type: nextType,
+				amount: parsedData.data.amount ?? existingTransaction.amount,
+				splits: nextSplits,
+			}) ?? (await getSplitCategoriesValidationError(db, nextType, nextSplits));
+		if (splitError) {
+			return new Response(
+				JSON.stringify({
+					error: "無効な内訳の指定です",
+					details: splitError,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		if (nextCategoryId !== null && nextCategoryId !== undefined) {
+			const category = await getCategoryById(db, nextCategoryId);
+			if (!category) {
+				return new Response(
+					JSON.stringify({
+						error: "指定されたカテゴリが見つかりません",
+					}),
+					{
+						status: 400,
+						headers: { "Content-Type": "application/json" },
+					},
+				);
+			}
+
+			if (category.type !== nextType) {
+				return new Response(
+					JSON.stringify({
+						error: "取引タイプとカテゴリタイプが一致しません",
+						details: `カテゴリ「${category.name}」は${category.type === "income" ? "収入" : "支出"}カテゴリです`,
+					}),
+					{
+						status: 400,
+						headers: { "Content-Type": "application/json" },
+					},
+				);
+			}
+		}
+
+		for (const accountId of [
+			parsedData.data.accountId,
+			parsedData.data.transferAccountId,
+		]) {
+			if (!accountId) continue;
+			const account = await getAccountById(db, accountId);
+			if (!account) {
+				return new Response(
+					JSON.stringify({
+						error: "指定された口座が見つかりません",
+					}),
+					{
+						status: 400,
+						headers: { "Content-Type": "application/json" },
+					},
+				);
+			}
+		}
+
+		// 取引を更新（タグが指定された場合のみJSON文字列に変換）
+		const { tags, splits, ...updates } = parsedData.data;
+		await updateTransaction(db, transactionId, {
+			...updates,
+			...(isSplit && { categoryId: null }),
+			...(tags !== undefined && { tags: stringifyTransactionTags(tags) }),
+		});
+		if (splits !== undefined) {
+			await replaceTransactionSplits(db, transactionId, splits);
+		}
+
+		// 更新後の取引を詳細情報付きで取得
+		const fullUpdatedTransaction = await getTransactionById(db, transactionId);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: parseTransactionWithTags(fullUpdatedTransaction),
+				message: "取引が正常に更新されました",
+			}),
+			{
+				status: 200,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("取引更新エラー:", error);
+
+		return new Response(
+			JSON.stringify({
+				error: "取引の更新中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
@@ -0,0 +1,78 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import { getCategorySuggestions } from "../../../../db/queries/category-suggestions";
+import { getTodayInJst } from "../../../../db/queries/recurrence";
+import {
+	createErrorResponse,
+	createSuccessResponse,
+} from "../../../utils/api-errors";
+
+/**
+ * GET /api/transactions/category-suggestions エンドポイント
+ *
+ * 機能:
+ * - 入力中の取引の説明・金額・取引日から、過去の取引履歴をもとにカテゴリの候補を推定
+ * - 候補は確信度（0〜1）の高い順に返す（確信度が低すぎる候補は返さない）
+ *
+ * クエリパラメータ:
+ * - type: 'income' | 'expense' (必須)
+ * - description: string - 入力中の説明
+ * - amount: number - 入力中の金額
+ * - transactionDate: string - YYYY-MM-DD
+ * - limit: number (デフォルト: 3, 最大: 10)
+ */
+
+// クエリパラメータのバリデーションスキーマ
+const queryParamsSchema = z.object({
+	type: z.enum(["income", "expense"]),
+	description: z.string().max(500).optional(),
+	amount: z.coerce.number().int().min(0).optional(),
+	transactionDate: z
+		.string()
+		.regex(/^\d{4}-\d{2}-\d{2}$/, "日付はYYYY-MM-DD形式で指定してください")
+		.optional(),
+	limit: z.coerce.number().int().min(1).max(10).default(3),
+});
+
+export async function loader({ request, context }: any) {
+	// D1バインディングを早期に取得してエラー診断に使用
+	const d1 = context?.cloudflare?.env?.DB;
+
+	try {
+		const db = createDb(d1);
+
+		// クエリパラメータを解析・バリデーション
+		const url = new URL(request.url);
+		const queryParams = Object.fromEntries(url.searchParams.entries());
+
+		const parsedParams = queryParamsSchema.safeParse(queryParams);
+		if (!parsedParams.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なクエリパラメータです",
+					details: parsedParams.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const { type, limit, ...input } = parsedParams.data;
+		const suggestions = await getCategorySuggestions(db, type, input, {
+			limit,
+			today: getTodayInJst(),
+		});
+
+		// 成功レスポンスを統一フォーマットで返す
+		return createSuccessResponse(suggestions);
+	} catch (error) {
+		// 詳細なエラー診断と適切なレスポンス生成
+		return await createErrorResponse(
+			error,
+			"カテゴリ候補の取得中にエラーが発生しました",
+			d1,
+		);
+	}
+}
@@ -0,0 +1,242 @@
+import { createDb } from "../../../../db/connection";
+import { getAccountById } from "../../../../db/queries/accounts";
+import { getCategoryById } from "../../../../db/queries/categories";
+import { categorizeNewTransactions } from "../../../../db/queries/categorization-rules";
+import {
+	getSplitCategoriesValidationError,
+	getSplitValidationError,
+	replaceTransactionSplits,
+} from "../../../../db/queries/transaction-splits";
+import {
+	createTransaction,
+	getTransactionById,
+	getTransferValidationError,
+} from "../../../../db/queries/transactions";
+import { createTransactionSchema } from "../../../../db/schema";
+import {
+	parseTransactionWithTags,
+	stringifyTransactionTags,
+} from "../../../utils/tags";
+
+/**
+ * POST /api/transactions/create エンドポイント
+ *
+ * 機能:
+ * - 新しい取引（収入・支出・口座間の振替）を作成
+ * - リクエストボディのバリデーション
+ * - カテゴリIDの存在確認とタイプ整合性の検証
+ * - 口座IDの存在確認（振替の場合は振替元・振替先の両方）
+ * - 内訳（複数カテゴリへの分割）の合計と各カテゴリの検証
+ * - 分割しない収入・支出には自動分類ルールを適用する（カテゴリ未指定の場合のカテゴリ設定・タグ・メモ）
+ *
+ * リクエストボディ:
+ * - amount: number (必須) - 金額（正の整数）
+ * - type: 'income' | 'expense' | 'transfer' (必須) - 取引タイプ
+ * - transactionDate: string (必須) - 取引日（YYYY-MM-DD形式）
+ * - categoryId: number (オプション) - カテゴリID
+ * - description: string (オプション) - 説明・メモ
+ * - paymentMethod: string (オプション) - 支払い方法
+ * - accountId: number (オプション、振替の場合は必須) - 口座ID（振替の場合は振替元）
+ * - transferAccountId: number (振替の場合のみ必須) - 振替先の口座ID
+ * - fee: number (オプション、振替の場合のみ) - 振替手数料
+ * - tags: string[] (オプション) - タグ
+ * - splits: { categoryId, amount, memo? }[] (オプション) - 内訳（2行以上、合計はamountと一致）
+ *   指定した場合、取引のcategoryIdはnullとなり内訳行がカテゴリを持つ
+ */
+
+// 作成用スキーマ（カード明細の照合状態は照合APIでのみ変更する）
+const createTransactionRequestSchema = createTransactionSchema.omit({
+	reconciledStatementId: true,
+});
+
+export async function action({ request, context }: any) {
+	try {
+		// HTTPメソッドのチェック
+		if (request.method !== "POST") {
+			return new Response(
+				JSON.stringify({
+					error: "POST メソッドのみサポートしています",
+				}),
+				{
+					status: 405,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// リクエストボディを解析
+		const body = await request.json();
+
+		// バリデーション
+		const parsedData = createTransactionRequestSchema.safeParse(body);
+		if (!parsedData.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なリクエストボディです",
+					details: parsedData.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 振替の場合は振替元・振替先の口座が必要（カテゴリ・手数料の指定可否も検証）
+		const transferError = getTransferValidationError(parsedData.data);
+		if (transferError) {
+			return new Response(
+				JSON.stringify({
+					error: "無効な振替の指定です",
+					details: transferError,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 内訳が指定されている場合、合計の一致と各カテゴリの存在・タイプ整合性をチェック
+		const splits = parsedData.data.splits ?? [];
+		const splitError =
+			getSplitValidationError(parsedData.data) ??
+			(await getSplitCategoriesValidationError(
+				db,
+				parsedData.data.type,
+				splits,
+			));
+		if (splitError) {
+			return new Response(
+				JSON.stringify({
+					error: "無効な内訳の指定です",
+					details: splitError,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// カテゴリIDが指定されている場合、存在確認とタイプ整合性チェック（分割時は内訳側で検証済み）
+		if (parsedData.data.categoryId && splits.length === 0) {
+			const category = await getCategoryById(db, parsedData.data.categoryId);
+
+			if (!category) {
+				return new Response(
+					JSON.stringify({
+						error: "指定されたカテゴリが見つかりません",
+						details: `カテゴリID ${parsedData.data.categoryId} は存在しないか、無効です`,
+					}),
+					{
+						status: 400,
+						headers: { "Content-Type": "application/json" },
+					},
+				);
+			}
+
+			// 収入取引に支出カテゴリ（またはその逆）を指定することは許可しない
+			if (category.type !== parsedData.data.type) {
+				return new Response(
+					JSON.stringify({
+						error: "取引タイプとカテゴリタイプが一致しません",
+						details: `カテゴリ「${category.name}」は${category.type === "income" ? "収入" : "支出"}カテゴリです`,
+					}),
+					{
+						status: 400,
+						headers: { "Content-Type": "application/json" },
+					},
+				);
+			}
+		}
+
+		// 口座IDが指定されている場合、存在確認（無効化された口座は指定不可）
+		for (const accountId of [
+			parsedData.data.accountId,
+			parsedData.data.transferAccountId,
+		]) {
+			if (!accountId) continue;
+			const account = await getAccountById(db, accountId);
+			if (!account) {
+				return new Response(
+					JSON.stringify({
+						error: "指定された口座が見つかりません",
+						details: `口座ID ${accountId} は存在しないか、無効です`,
+					}),
+					{
+						status: 400,
+						headers: { "Content-Type": "application/json" },
+					},
+				);
+			}
+		}
+
+		// 取引を作成（タグはJSON文字列に変換して保存、分割時のカテゴリは内訳行のみが持つ）
+		const { tags, splits: _splits, ...transactionData } = parsedData.data;
+		const row = {
+			...transactionData,
+			tags: stringifyTransactionTags(tags),
+		};
+		const newTransaction = await createTransaction(
+			db,
+			splits.length > 0
+				? { ...row, categoryId: null }
+				: (await categorizeNewTransactions(db, [row]))[0],
+		);
+		if (splits.length > 0) {
+			await replaceTransactionSplits(db, newTransaction.id, splits);
+		}
+
+		// 作成された取引の詳細情報を取得（カテゴリ情報を含む）
+		const transactionWithDetails = await getTransactionById(
+			db,
+			newTransaction.id,
+		);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: parseTransactionWithTags(transactionWithDetails),
+				message: "取引が正常に作成されました",
+			}),
+			{
+				status: 201,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("取引作成エラー:", error);
+
+		// 外部キー制約エラー（カテゴリIDやサブスクリプションIDが無効）
+		if (
+			error instanceof Error &&
+			error.message.includes("FOREIGN KEY constraint failed")
+		) {
+			return new Response(
+				JSON.stringify({
+					error: "データベース制約エラー",
+					details: "指定されたカテゴリIDまたは定期取引IDが無効です",
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		return new Response(
+			JSON.stringify({
+				error: "取引の作成中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
@@ -0,0 +1,119 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import { getTodayInJst } from "../../../../db/queries/recurrence";
+import {
+	countTransactions,
+	getTransactionsList,
+} from "../../../../db/queries/transactions";
+import { createErrorResponse } from "../../../utils/api-errors";
+import { encodeCsv, stringifyCsv } from "../../../utils/csv";
+import { parseTransactionsWithTags } from "../../../utils/tags";
+import {
+	type ExportTransaction,
+	buildTransactionCsvRows,
+} from "../../../utils/transaction-export";
+import {
+	refineTransactionFilterRanges,
+	transactionFilterParamsSchema,
+} from "../../../utils/transaction-filter-params";
+
+/**
+ * GET /api/transactions/export エンドポイント
+ *
+ * 機能:
+ * - 絞り込み条件に一致する取引をCSVファイルとして出力
+ * - ヘッダーは日本語、カテゴリは名前に変換して出力
+ * - 文字コードはExcel向けのBOM付きUTF-8とShift_JISから選択
+ *
+ * クエリパラメータ:
+ * - GET /api/transactions と同じ絞り込み・並び替え条件（ページングなし）
+ * - encoding: 'utf-8' | 'shift_jis' (デフォルト: utf-8)
+ */
+
+// 一度に出力できる最大件数（Workersのメモリ・CPU時間の制限を考慮）
+const MAX_EXPORT_ROWS = 10000;
+
+const CONTENT_TYPE_CHARSETS = {
+	"utf-8": "utf-8",
+	shift_jis: "Shift_JIS",
+} as const;
+
+// クエリパラメータのバリデーションスキーマ
+const queryParamsSchema = transactionFilterParamsSchema
+	.extend({
+		encoding: z.enum(["utf-8", "shift_jis"]).default("utf-8"),
+	})
+	.superRefine(refineTransactionFilterRanges);
+
+export async function loader({ request, context }: any) {
+	// D1バインディングを早期に取得してエラー診断に使用
+	const d1 = context?.cloudflare?.env?.DB;
+
+	try {
+		const db = createDb(d1);
+
+		// クエリパラメータを解析・バリデーション
+		const url = new URL(request.url);
+		const queryParams = Object.fromEntries(url.searchParams.entries());
+
+		const parsedParams = queryParamsSchema.safeParse(queryParams);
+		if (!parsedParams.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なクエリパラメータです",
+					details: parsedParams.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const { sortBy, sortOrder, encoding, ...filters } = parsedParams.data;
+
+		// 件数が多すぎる場合は絞り込みを促す
+		const totalCount = await countTransactions(db, filters);
+		if (totalCount > MAX_EXPORT_ROWS) {
+			return new Response(
+				JSON.stringify({
+					error: "エクスポート対象が多すぎます",
+					details: `${MAX_EXPORT_ROWS}件以下になるよう期間などで絞り込んでください（該当: ${totalCount}件）`,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 絞り込み条件に一致する全件を取得し、タグを配列に変換
+		const rows: Array<
+			Omit<ExportTransaction, "tags"> & { id: number; tags: string | null }
+		> = await getTransactionsList(db, {
+			filters,
+			sort: { sortBy, sortOrder },
+		});
+
+		const csv = stringifyCsv(
+			buildTransactionCsvRows(parseTransactionsWithTags(rows)),
+		);
+		const fileName = `transactions-${getTodayInJst()}.csv`;
+
+		return new Response(encodeCsv(csv, encoding), {
+			status: 200,
+			headers: {
+				"Content-Type": `text/csv; charset=${CONTENT_TYPE_CHARSETS[encoding]}`,
+				"Content-Disposition": `attachment; filename="${fileName}"`,
+			},
+		});
+	} catch (error) {
+		// 詳細なエラー診断と適切なレスポンス生成
+		return await createErrorResponse(
+			error,
+			"取引のエクスポート中にエラーが発生しました",
+			d1,
+			true, // データベース健全性チェックを含める
+		);
+	}
+}
@@ -0,0 +1,182 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import { categorizeNewTransactions } from "../../../../db/queries/categorization-rules";
+import {
+	createTransactionsBatch,
+	getTransactionsForDuplicateCheck,
+} from "../../../../db/queries/transactions";
+import { createTransactionSchema } from "../../../../db/schema";
+import { stringifyTransactionTags } from "../../../utils/tags";
+import { findDuplicateIndexes } from "../../../utils/transaction-import";
+
+/**
+ * POST /api/transactions/import エンドポイント
+ *
+ * 機能:
+ * - CSVなどから変換した取引を一括登録
+ * - 既存の取引（取引日・金額・種別・説明が一致）との重複を検出
+ * - dryRun指定時は登録せず重複判定の結果のみを返す（プレビュー用）
+ * - 登録する取引には自動分類ルールを適用する（未分類の取引へのカテゴリ設定・タグ・メモ）
+ *
+ * リクエストボディ:
+ * - transactions: 取引作成リクエストの配列（必須、1〜1000件）
+ * - dryRun: boolean (オプション、デフォルト: false) - 重複判定のみ行う
+ * - skipDuplicates: boolean (オプション、デフォルト: true) - 重複する取引を登録しない
+ *
+ * レスポンス:
+ * - duplicateIndexes: 既存の取引と重複する取引のインデックス
+ * - createdCount: 登録した件数（dryRun時は0）
+ */
+
+// 一括登録で受け付ける最大件数
+const MAX_IMPORT_ROWS = 1000;
+
+// リクエストボディのバリデーションスキーマ
+const requestSchema = z.object({
+	transactions: z
+		.array(
+			createTransactionSchema.omit({
+				id: true,
+				splits: true,
+				createdAt: true,
+				updatedAt: true,
+			}),
+		)
+		.min(1, "取り込む取引を1件以上指定してください")
+		.max(MAX_IMPORT_ROWS, `一度に取り込めるのは${MAX_IMPORT_ROWS}件までです`),
+	dryRun: z.boolean().default(false),
+	skipDuplicates: z.boolean().default(true),
+});
+
+export async function action({ request, context }: any) {
+	try {
+		// HTTPメソッドのチェック
+		if (request.method !== "POST") {
+			return new Response(
+				JSON.stringify({
+					error: "POST メソッドのみサポートしています",
+				}),
+				{
+					status: 405,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// Cloudflare Workersの環境からDBバインディングを取得
+		const db = createDb(context.cloudflare.env.DB);
+
+		// リクエストボディを解析・バリデーション
+		const body = await request.json();
+		const parsedData = requestSchema.safeParse(body);
+		if (!parsedData.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なリクエストボディです",
+					details: parsedData.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const { transactions, dryRun, skipDuplicates } = parsedData.data;
+
+		// 取り込み対象の期間内にある既存の取引と突き合わせて重複を検出
+		const dates = transactions.map(
+			(transaction) => transaction.transactionDate,
+		);
+		const existing = await getTransactionsForDuplicateCheck(
+			db,
+			dates.reduce((min, date) => (date < min ? date : min)),
+			dates.reduce((max, date) => (date > max ? date : max)),
+		);
+		const duplicateIndexes = findDuplicateIndexes(
+			transactions.map((transaction) => ({
+				...transaction,
+				description: transaction.description ?? null,
+			})),
+			existing,
+		);
+
+		if (dryRun) {
+			return new Response(
+				JSON.stringify({
+					success: true,
+					data: {
+						totalCount: transactions.length,
+						duplicateIndexes,
+						createdCount: 0,
+					},
+					message: `${duplicateIndexes.length}件の重複が見つかりました`,
+				}),
+				{
+					status: 200,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 重複を除いた取引を自動分類ルールを適用して一括登録（タグはJSON文字列に変換して保存）
+		const duplicateSet = new Set(duplicateIndexes);
+		const rowsToCreate = await categorizeNewTransactions(
+			db,
+			transactions
+				.filter((_, index) => !skipDuplicates || !duplicateSet.has(index))
+				.map(({ tags, ...transaction }) => ({
+					...transaction,
+					tags: stringifyTransactionTags(tags),
+				})),
+		);
+
+		const created = await createTransactionsBatch(db, rowsToCreate);
+
+		return new Response(
+			JSON.stringify({
+				success: true,
+				data: {
+					totalCount: transactions.length,
+					duplicateIndexes,
+					createdCount: created.length,
+				},
+				message: `${created.length}件の取引を取り込みました`,
+			}),
+			{
+				status: 201,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	} catch (error) {
+		console.error("取引インポートエラー:", error);
+
+		// 外部キー制約エラー（カテゴリIDが無効）
+		if (
+			error instanceof Error &&
+			error.message.includes("FOREIGN KEY constraint failed")
+		) {
+			return new Response(
+				JSON.stringify({
+					error: "データベース制約エラー",
+					details: "指定されたカテゴリIDが無効です",
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		return new Response(
+			JSON.stringify({
+				error: "取引の取り込み中にエラーが発生しました",
+				details: error instanceof Error ? error.message : "不明なエラー",
+			}),
+			{
+				status: 500,
+				headers: { "Content-Type": "application/json" },
+			},
+		);
+	}
+}
@@ -0,0 +1,119 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import {
+	countTransactions,
+	getTransactionsList,
+} from "../../../../db/queries/transactions";
+import {
+	createErrorResponse,
+	createSuccessResponse,
+} from "../../../utils/api-errors";
+import { parseTransactionsWithTags } from "../../../utils/tags";
+import {
+	refineTransactionFilterRanges,
+	transactionFilterParamsSchema,
+} from "../../../utils/transaction-filter-params";
+
+/**
+ * GET /api/transactions エンドポイント
+ *
+ * 機能:
+ * - 取引（収入・支出）一覧を取得
+ * - フィルタ・ソート・ページネーションをサーバー側で処理
+ * - カテゴリ・口座の情報を含む
+ * - タグはJSON文字列から配列に変換して返す
+ *
+ * クエリパラメータ:
+ * - startDate / endDate: string (オプション) - 取引日の範囲（YYYY-MM-DD、両端を含む）
+ * - categoryId: number (オプション) - カテゴリID
+ * - accountId: number (オプション) - 口座ID
+ * - type: 'income' | 'expense' | 'transfer' (オプション) - 取引タイプ
+ * - search: string (オプション) - 説明文の部分一致検索
+ * - tags: string (オプション) - カンマ区切りのタグ（全てを含む取引に絞り込み）
+ * - minAmount / maxAmount: number (オプション) - 金額の範囲
+ * - sortBy: 'transactionDate' | 'amount' | 'createdAt' (デフォルト: transactionDate)
+ * - sortOrder: 'asc' | 'desc' (デフォルト: desc)
+ * - page: number (デフォルト: 1)
+ * - limit: number (デフォルト: 20, 最大: 100)
+ */
+
+// クエリパラメータのバリデーションスキーマ
+const queryParamsSchema = transactionFilterParamsSchema
+	.extend({
+		page: z.coerce.number().int().min(1).default(1),
+		limit: z.coerce.number().int().min(1).max(100).default(20),
+	})
+	.superRefine(refineTransactionFilterRanges);
+
+export async function loader({ request, context }: any) {
+	// D1バインディングを早期に取得してエラー診断に使用
+	const d1 = context?.cloudflare?.env?.DB;
+
+	try {
+		// データベース接続の作成（ここでD1バインディングのエラーが発生する可能性）
+		const db = createDb(d1);
+
+		// クエリパラメータを解析・バリデーション
+		const url = new URL(request.url);
+		const queryParams = Object.fromEntries(url.searchParams.entries());
+
+		const parsedParams = queryParamsSchema.safeParse(queryParams);
+		if (!parsedParams.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なクエリパラメータです",
+					details: parsedParams.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const { sortBy, sortOrder, page, limit, ...filters } = parsedParams.data;
+
+		// 件数と該当ページの取引を取得し、タグを配列に変換
+		const totalCount = await countTransactions(db, filters);
+		const transactions = parseTransactionsWithTags(
+			await getTransactionsList(db, {
+				filters,
+				sort: { sortBy, sortOrder },
+				limit,
+				offset: (page - 1) * limit,
+			}),
+		);
+
+		const totalPages = Math.ceil(totalCount / limit);
+
+		// 成功レスポンスを統一フォーマットで返す
+		return createSuccessResponse(transactions, {
+			count: transactions.length,
+			pagination: {
+				currentPage: page,
+				totalPages,
+				totalCount,
+				hasNextPage: page < totalPages,
+				hasPrevPage: page > 1,
+				limit,
+			},
+			filters,
+			sort: { sortBy, sortOrder },
+			// デバッグ情報（開発環境のみ）
+			...(process.env.NODE_ENV !== "production" && {
+				debugInfo: {
+					requestUrl: request.url,
+					databaseConnection: d1 ? "D1" : "SQLite (fallback)",
+				},
+			}),
+		});
+	} catch (error) {
+		// 詳細なエラー診断と適切なレスポンス生成
+		return await createErrorResponse(
+			error,
+			"取引一覧の取得中にエラーが発生しました",
+			d1,
+			true, // データベース健全性チェックを含める
+		);
+	}
+}
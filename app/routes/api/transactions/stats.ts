@@ -0,0 +1,102 @@
+import { z } from "zod";
+import { createDb } from "../../../../db/connection";
+import { getTodayInJst } from "../../../../db/queries/recurrence";
+import { getTransactionStats } from "../../../../db/queries/reports";
+import {
+	createErrorResponse,
+	createSuccessResponse,
+} from "../../../utils/api-errors";
+
+/**
+ * GET /api/transactions/stats エンドポイント
+ *
+ * 機能:
+ * - 期間内の収入・支出の合計と貯蓄率を集計
+ * - 月別の収支・前月比・累計、日別の累計を返す（グラフ表示用）
+ * - カテゴリ別の合計と構成比をカテゴリの色とあわせて返す
+ *
+ * クエリパラメータ:
+ * - startDate: string (デフォルト: 今年の1月1日) - YYYY-MM-DD
+ * - endDate: string (デフォルト: 今年の12月31日) - YYYY-MM-DD
+ */
+
+// 集計できる最大期間（日別データの件数を抑えるため）
+const MAX_RANGE_DAYS = 366 * 5;
+
+const dateParamSchema = z
+	.string()
+	.regex(/^\d{4}-\d{2}-\d{2}$/, "日付はYYYY-MM-DD形式で指定してください");
+
+// クエリパラメータのバリデーションスキーマ
+const queryParamsSchema = z.object({
+	startDate: dateParamSchema.optional(),
+	endDate: dateParamSchema.optional(),
+});
+
+export async function loader({ request, context }: any) {
+	// D1バインディングを早期に取得してエラー診断に使用
+	const d1 = context?.cloudflare?.env?.DB;
+
+	try {
+		const db = createDb(d1);
+
+		// クエリパラメータを解析・バリデーション
+		const url = new URL(request.url);
+		const queryParams = Object.fromEntries(url.searchParams.entries());
+
+		const parsedParams = queryParamsSchema.safeParse(queryParams);
+		if (!parsedParams.success) {
+			return new Response(
+				JSON.stringify({
+					error: "無効なクエリパラメータです",
+					details: parsedParams.error.errors,
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		// 期間の指定がない場合は今年（日本時間）を対象にする
+		const year = getTodayInJst().slice(0, 4);
+		const startDate = parsedParams.data.startDate ?? `${year}-01-01`;
+		const endDate = parsedParams.data.endDate ?? `${year}-12-31`;
+
+		const rangeDays =
+			(Date.parse(endDate) - Date.parse(startDate)) / (24 * 60 * 60 * 1000) + 1;
+		if (!(rangeDays >= 1 && rangeDays <= MAX_RANGE_DAYS)) {
+			return new Response(
+				JSON.stringify({
+					error: "無効な集計期間です",
+					details: "開始日は終了日以前、期間は5年以内で指定してください",
+				}),
+				{
+					status: 400,
+					headers: { "Content-Type": "application/json" },
+				},
+			);
+		}
+
+		const stats = await getTransactionStats(db, startDate, endDate);
+
+		// 成功レスポンスを統一フォーマットで返す
+		return createSuccessResponse(stats, {
+			// デバッグ情報（開発環境のみ）
+			...(process.env.NODE_ENV !== "production" && {
+				debugInfo: {
+					requestUrl: request.url,
+					databaseConnection: d1 ? "D1" : "SQLite (fallback)",
+				},
+			}),
+		});
+	} catch (error) {
+		// 詳細なエラー診断と適切なレスポンス生成
+		return await createErrorResponse(
+			error,
+			"収支統計の取得中にエラーが発生しました",
+			d1,
+			true, // データベース健全性チェックを含める
+		);
+	}
+}
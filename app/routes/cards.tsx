@@ -0,0 +1,38 @@
+import type { MetaFunction } from "react-router";
+import { CardStatementReconciliation } from "../components/cards";
+import { PageHeader } from "../components/layout/page-header";
+
+/**
+ * クレジットカード明細画面
+ *
+ * 設計方針:
+ * - カードごとの締め日・支払日の設定と、請求ごとの明細照合を行うページ
+ * - 請求期間・請求額の計算はサーバー側（GET /api/accounts/:id/statement）で行う
+ * - 支払日の引き落とし（振替）はCron Triggerで自動作成されるため、画面では状態のみ表示する
+ */
+
+export const meta: MetaFunction = () => {
+	return [
+		{ title: "カード明細 | Saifuu - 家計管理アプリ" },
+		{
+			name: "description",
+			content:
+				"クレジットカードの締め日・支払日を設定し、請求ごとに取引とカード会社の明細を照合できる画面。",
+		},
+	];
+};
+
+export default function CardsPage() {
+	return (
+		<>
+			<PageHeader
+				title="カード明細"
+				description="請求ごとに取引とカード会社の明細を照合しましょう"
+			/>
+
+			<div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+				<CardStatementReconciliation />
+			</div>
+		</>
+	);
+}
@@ -0,0 +1,41 @@
+import type { MetaFunction } from "react-router";
+import {
+	InstallmentPlanForm,
+	InstallmentPlanList,
+} from "../components/installments";
+import { PageHeader } from "../components/layout/page-header";
+
+/**
+ * 分割払い管理画面
+ *
+ * 設計方針:
+ * - 分割払い・リボ払いの登録と、残高・残り回数の確認、繰上げ返済を行うページ
+ * - 毎月の支払いの取引はCron Triggerで自動作成されるため、画面では進捗のみ表示する
+ */
+
+export const meta: MetaFunction = () => {
+	return [
+		{ title: "分割払い | Saifuu - 家計管理アプリ" },
+		{
+			name: "description",
+			content:
+				"分割払い・リボ払いの購入を登録し、毎月の支払い・残高・残り回数を確認できる画面。",
+		},
+	];
+};
+
+export default function InstallmentsPage() {
+	return (
+		<>
+			<PageHeader
+				title="分割払い"
+				description="分割払い・リボ払いの残高と残り回数を確認しましょう"
+			/>
+
+			<div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+				<InstallmentPlanForm />
+				<InstallmentPlanList />
+			</div>
+		</>
+	);
+}
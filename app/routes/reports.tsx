@@ -0,0 +1,38 @@
+import type { MetaFunction } from "react-router";
+import { PageHeader } from "../components/layout/page-header";
+import { ReportsDashboard } from "../components/reports";
+
+/**
+ * 収支レポート画面
+ *
+ * 設計方針:
+ * - 月次・年次の収入・支出をグラフで振り返るためのページ
+ * - 集計はサーバー側（GET /api/transactions/stats）で行い、画面は表示に専念
+ * - 期間の切り替えなどの状態はReportsDashboardコンポーネントに集約
+ */
+
+export const meta: MetaFunction = () => {
+	return [
+		{ title: "レポート | Saifuu - 家計管理アプリ" },
+		{
+			name: "description",
+			content:
+				"月別・年別の収入と支出、カテゴリ別の内訳、貯蓄率をグラフで確認できるレポート画面。",
+		},
+	];
+};
+
+export default function ReportsPage() {
+	return (
+		<>
+			<PageHeader
+				title="レポート"
+				description="収入・支出の推移とカテゴリ別の内訳を確認しましょう"
+			/>
+
+			<div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+				<ReportsDashboard />
+			</div>
+		</>
+	);
+}
@@ -0,0 +1,41 @@
+import type { MetaFunction } from "react-router";
+import { PageHeader } from "../components/layout/page-header";
+import {
+	CategorizationRuleApplyPanel,
+	CategorizationRuleList,
+} from "../components/rules";
+
+/**
+ * 自動分類ルール管理画面
+ *
+ * 設計方針:
+ * - 取引の作成時に適用する自動分類ルールの登録・並び替えと、既存の取引への再適用を行うページ
+ * - ルールは上から順に評価されるため、一覧の並びがそのまま優先順位になる
+ */
+
+export const meta: MetaFunction = () => {
+	return [
+		{ title: "自動分類ルール | Saifuu - 家計管理アプリ" },
+		{
+			name: "description",
+			content:
+				"取引の説明・金額・口座・支払い方法からカテゴリ・タグ・メモを自動で設定するルールを管理する画面。",
+		},
+	];
+};
+
+export default function RulesPage() {
+	return (
+		<>
+			<PageHeader
+				title="自動分類ルール"
+				description="取引の作成時にカテゴリ・タグ・メモを自動で設定しましょう"
+			/>
+
+			<div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+				<CategorizationRuleList />
+				<CategorizationRuleApplyPanel />
+			</div>
+		</>
+	);
+}
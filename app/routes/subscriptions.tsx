@@ -115,6 +115,12 @@ export default function SubscriptionsPage() {
 						amount: data.amount,
 						frequency: data.frequency,
 						nextPaymentDate: data.nextPaymentDate,
+						intervalCount: data.intervalCount,
+						billingDay: data.billingDay,
+						businessDayAdjustment: data.businessDayAdjustment,
+						endDate: data.endDate,
+						remainingPayments: data.remainingPayments,
+						trialEndDate: data.trialEndDate,
 						description: data.description || null,
 					});
 				} else if (modalState.mode === "edit" && modalState.initialData) {
@@ -127,6 +133,13 @@ export default function SubscriptionsPage() {
 							amount: data.amount,
 							frequency: data.frequency,
 							nextPaymentDate: data.nextPaymentDate,
+							intervalCount: data.intervalCount,
+							billingDay: data.billingDay,
+							businessDayAdjustment: data.businessDayAdjustment,
+							endDate: data.endDate,
+							remainingPayments: data.remainingPayments,
+							trialEndDate: data.trialEndDate,
+							priceEffectiveDate: data.priceEffectiveDate ?? undefined,
 							description: data.description || null,
 						},
 					});
@@ -207,9 +220,15 @@ export default function SubscriptionsPage() {
 		<>
 			{/* 🔧 DEBUG: ClientOnlyパターンでJavaScriptテスト */}
 			<div className="bg-red-100 p-4 text-center border-4 border-red-500">
-				<h2 className="text-lg font-bold mb-4">🔧 JavaScript実行テスト (ClientOnlyパターン)</h2>
+				<h2 className="text-lg font-bold mb-4">
+					🔧 JavaScript実行テスト (ClientOnlyパターン)
+				</h2>
 
-				<ClientOnly fallback={<p className="text-gray-600">クライアント側読み込み中...</p>}>
+				<ClientOnly
+					fallback={
+						<p className="text-gray-600">クライアント側読み込み中...</p>
+					}
+				>
 					<JavaScriptTestButtons onOpenModal={handleOpenCreateModal} />
 				</ClientOnly>
 			</div>
@@ -249,7 +268,9 @@ export default function SubscriptionsPage() {
  * ClientOnlyパターンで安全にブラウザAPIを使用
  */
 function JavaScriptTestButtons({ onOpenModal }: { onOpenModal: () => void }) {
-	const [currentTime, setCurrentTime] = useState(new Date().toLocaleTimeString());
+	const [currentTime, setCurrentTime] = useState(
+		new Date().toLocaleTimeString(),
+	);
 	const [randomNumber] = useState(Math.random().toFixed(3));
 
 	// クライアントサイドでのみ時刻更新
@@ -258,7 +279,7 @@ function JavaScriptTestButtons({ onOpenModal }: { onOpenModal: () => void }) {
 		const interval = setInterval(() => {
 			setCurrentTime(new Date().toLocaleTimeString());
 		}, 1000);
-		
+
 		return () => clearInterval(interval);
 	}, []);
 
@@ -297,7 +318,9 @@ function JavaScriptTestButtons({ onOpenModal }: { onOpenModal: () => void }) {
 
 			{/* JavaScript実行確認 */}
 			<div className="mt-4 p-2 bg-yellow-100 rounded">
-				<p>現在時刻: <span id="current-time">{currentTime}</span></p>
+				<p>
+					現在時刻: <span id="current-time">{currentTime}</span>
+				</p>
 				<p>React動作中: {randomNumber}</p>
 			</div>
 		</>
@@ -0,0 +1,38 @@
+import type { MetaFunction } from "react-router";
+import { PageHeader } from "../components/layout/page-header";
+import { TagList, TagReport } from "../components/tags";
+
+/**
+ * タグ管理画面
+ *
+ * 設計方針:
+ * - 取引に付けたタグの一覧（使用件数）・名前の変更・色の設定・統合・削除と、タグ別の集計を行うページ
+ * - タグは取引の入力時に追加されるため、この画面では新規作成を行わない
+ */
+
+export const meta: MetaFunction = () => {
+	return [
+		{ title: "タグ | Saifuu - 家計管理アプリ" },
+		{
+			name: "description",
+			content:
+				"取引に付けたタグの使用件数・色・名前を管理し、タグ別の収入・支出を確認する画面。",
+		},
+	];
+};
+
+export default function TagsPage() {
+	return (
+		<>
+			<PageHeader
+				title="タグ"
+				description="タグを整理して、目的別の収支を確認しましょう"
+			/>
+
+			<div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+				<TagReport />
+				<TagList />
+			</div>
+		</>
+	);
+}
@@ -0,0 +1,49 @@
+import type { MetaFunction } from "react-router";
+import { Link } from "react-router";
+import { PageHeader } from "../components/layout/page-header";
+import { TransactionImport } from "../components/transactions";
+
+/**
+ * 取引CSVインポート画面
+ *
+ * 設計方針:
+ * - 銀行・カード明細のCSVから取引をまとめて登録する専用ページ
+ * - 取り込み処理自体はTransactionImportコンポーネントに集約
+ * - 取り込み後は収支管理画面へ戻って結果を確認できるようにする
+ */
+
+export const meta: MetaFunction = () => {
+	return [
+		{ title: "CSVインポート | Saifuu - 家計管理アプリ" },
+		{
+			name: "description",
+			content:
+				"銀行・クレジットカードの明細CSVを読み込み、取引をまとめて登録できる画面。",
+		},
+	];
+};
+
+export default function TransactionsImportPage() {
+	const headerActions = (
+		<Link
+			to="/transactions"
+			className="bg-white text-gray-700 border border-gray-300 px-4 py-2 rounded-md hover:bg-gray-50 transition-colors text-sm font-medium"
+		>
+			収支管理に戻る
+		</Link>
+	);
+
+	return (
+		<>
+			<PageHeader
+				title="CSVインポート"
+				description="銀行・カードの明細CSVから取引をまとめて登録します"
+				actions={headerActions}
+			/>
+
+			<div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+				<TransactionImport />
+			</div>
+		</>
+	);
+}
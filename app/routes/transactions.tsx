@@ -1,9 +1,14 @@
+import { useCallback } from "react";
 import type { MetaFunction } from "react-router";
+import { Link } from "react-router";
 import { PageHeader } from "../components/layout/page-header";
 import {
+	type TransactionFormData,
 	TransactionFormModal,
+	TransactionList,
 	useTransactionModal,
 } from "../components/transactions";
+import { useCreateTransaction } from "../lib/hooks/use-transactions";
 
 /**
  * 収支管理画面（メインページ）
@@ -33,12 +38,30 @@ export default function TransactionsPage() {
 		transactionType,
 		openIncomeModal,
 		openExpenseModal,
+		openTransferModal,
 		closeModal,
 	} = useTransactionModal();
 
-	// ヘッダーアクション - 収入・支出登録ボタン
+	// 取引作成ミューテーション
+	const createMutation = useCreateTransaction();
+
+	// フォーム送信処理（エラーはモーダル側で表示するため再throw）
+	const handleSubmit = useCallback(
+		async (data: TransactionFormData) => {
+			await createMutation.mutateAsync(data);
+		},
+		[createMutation],
+	);
+
+	// ヘッダーアクション - CSVインポート・収入・支出・振替登録ボタン
 	const headerActions = (
 		<div className="flex flex-wrap gap-3">
+			<Link
+				to="/transactions/import"
+				className="bg-white text-gray-700 border border-gray-300 px-4 py-2 rounded-md hover:bg-gray-50 transition-colors text-sm font-medium"
+			>
+				CSVインポート
+			</Link>
 			<button
 				type="button"
 				onClick={openIncomeModal}
@@ -53,6 +76,13 @@ export default function TransactionsPage() {
 			>
 				支出登録
 			</button>
+			<button
+				type="button"
+				onClick={openTransferModal}
+				className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors text-sm font-medium"
+			>
+				振替
+			</button>
 		</div>
 	);
 
@@ -67,22 +97,8 @@ export default function TransactionsPage() {
 
 			{/* メインコンテンツ */}
 			<div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-				{/* TODO: 収支サマリーカード */}
-				<div className="mb-8">
-					<div className="bg-white rounded-lg shadow-sm border p-6">
-						<div className="text-center">
-							<h3 className="text-lg font-semibold text-gray-900 mb-2">
-								収支管理機能
-							</h3>
-							<p className="text-gray-600">
-								収入・支出の登録機能を準備中です。
-								上部のボタンから登録を開始できるようになります。
-							</p>
-						</div>
-					</div>
-				</div>
-
-				{/* TODO: 収支一覧・検索・フィルター機能 */}
+				{/* 収支一覧・検索・フィルター */}
+				<TransactionList />
 			</div>
 
 			{/* 取引登録モーダル */}
@@ -90,6 +106,7 @@ export default function TransactionsPage() {
 				isOpen={isOpen}
 				transactionType={transactionType}
 				onClose={closeModal}
+				onSubmit={handleSubmit}
 			/>
 		</>
 	);
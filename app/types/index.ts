@@ -18,6 +18,12 @@ export type {
 	InsertSubscription,
 	SelectBudget,
 	InsertBudget,
+	SelectAccount,
+	InsertAccount,
+	AccountType,
+	SelectTransaction,
+	CreateTransaction,
+	SelectTransactionWithParsedTags,
 } from "../../db/schema";
 
 // ========================================
@@ -38,11 +44,112 @@ export type {
 	ReorderCategoriesRequest,
 	CategoriesListResponse,
 	CategoryDetailResponse,
+	CategoryTreeNode,
+	CategoryTreeResponse,
+	CategoryUsage,
+	CategoryUsageResponse,
+	DeleteCategoryOptions,
+	MergeCategoriesRequest,
+	CategoryMergeResponse,
 	// サブスクリプション関連型
 	CreateSubscriptionRequest,
 	UpdateSubscriptionRequest,
 	SubscriptionsListResponse,
 	SubscriptionDetailResponse,
+	SubscriptionPriceHistoryResponse,
+	SubscriptionPriceTimelineEntry,
+	SubscriptionPaymentTransaction,
+	SubscriptionPaymentPeriod,
+	SubscriptionPaymentsResponse,
+	RecordSubscriptionPeriodRequest,
+	SubscriptionReminder,
+	SubscriptionRemindersResponse,
+	UpdateSubscriptionRemindersRequest,
+	UpcomingSubscriptionEvent,
+	UpcomingSubscriptionEventsParams,
+	UpcomingSubscriptionEventsResponse,
+	// 取引関連型
+	CreateTransactionRequest,
+	UpdateTransactionRequest,
+	TransactionSplitWithCategory,
+	TransactionWithCategory,
+	TransactionsListResponse,
+	TransactionDetailResponse,
+	ImportTransactionsRequest,
+	ImportTransactionsResponse,
+	// 収支統計関連型
+	TransactionStatsParams,
+	CategorySuggestion,
+	CategorySuggestionParams,
+	CategorySuggestionsResponse,
+	MonthlyStats,
+	DailyStats,
+	CategoryStats,
+	TransactionStatsResponse,
+	// 予算関連型
+	CreateBudgetRequest,
+	UpdateBudgetRequest,
+	BudgetWithCategory,
+	BudgetsListResponse,
+	BudgetDetailResponse,
+	BudgetStatusParams,
+	BudgetProgress,
+	BudgetStatusResponse,
+	// 口座関連型
+	CreateAccountRequest,
+	UpdateAccountRequest,
+	AccountWithBalance,
+	AccountsListResponse,
+	AccountDetailResponse,
+	AccountLedgerParams,
+	AccountLedgerEntry,
+	AccountLedgerResponse,
+	CardStatement,
+	BillingCycle,
+	CardStatementEntry,
+	CardStatementSummary,
+	CardStatementResponse,
+	UpdateCardStatementRequest,
+	CardStatementDetailResponse,
+	ReconcileCardTransactionsRequest,
+	ReconcileCardTransactionsResponse,
+	PaymentMethodMigrationResponse,
+	// 分割払い関連型
+	CreateInstallmentPlanRequest,
+	InstallmentPayment,
+	InstallmentPlanSummary,
+	InstallmentPlanWithSummary,
+	InstallmentPlansListResponse,
+	InstallmentPlanDetailResponse,
+	PayOffInstallmentPlanRequest,
+	PayOffInstallmentPlanResponse,
+	// 自動分類ルール関連型
+	CreateCategorizationRuleRequest,
+	UpdateCategorizationRuleRequest,
+	ReorderCategorizationRulesRequest,
+	CategorizationRuleWithCategory,
+	CategorizationRulesListResponse,
+	CategorizationRuleDetailResponse,
+	ApplyCategorizationRulesRequest,
+	ApplyCategorizationRulesResponse,
+	// タグ関連型
+	TagWithUsage,
+	TagsListResponse,
+	UpdateTagRequest,
+	MergeTagsRequest,
+	TagMutationResponse,
+	TagStatsParams,
+	TagStats,
+	TagStatsResponse,
+	// ダッシュボード関連型
+	SummaryComparison,
+	DashboardSummaryResponse,
+	// 通知関連型
+	AppNotification,
+	NotificationListParams,
+	NotificationsListResponse,
+	NotificationReadResponse,
+	NotificationsReadAllResponse,
 } from "../lib/schemas/api-responses";
 
 // ========================================
@@ -64,6 +171,8 @@ export type {
 	ApiServices,
 	CategoryService,
 	SubscriptionService,
+	TransactionService,
+	BudgetService,
 } from "../lib/api/services";
 
 // ========================================
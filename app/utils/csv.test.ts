@@ -0,0 +1,113 @@
+/**
+ * CSVユーティリティのテスト
+ *
+ * 設計方針:
+ * - Shift_JIS・UTF-8（BOM有無）の自動判定と明示指定を検証
+ * - RFC 4180のクォート・エスケープ・改行の扱いを検証
+ * - 出力時のBOM付与・Shift_JISへの変換を検証
+ */
+
+import { describe, expect, it } from "vitest";
+import { decodeCsv, encodeCsv, parseCsv, stringifyCsv } from "./csv";
+
+// 「日付,金額\r\n」をShift_JISでエンコードしたバイト列
+const SHIFT_JIS_HEADER = [
+	0x93, 0xfa, 0x95, 0x74, 0x2c, 0x8b, 0xe0, 0x8a, 0x7a, 0x0d, 0x0a,
+];
+
+describe("decodeCsv", () => {
+	it("BOM付きUTF-8はBOMを除去してデコードする", () => {
+		const bytes = new Uint8Array([
+			0xef,
+			0xbb,
+			0xbf,
+			...new TextEncoder().encode("日付,金額"),
+		]);
+
+		// 実行
+		const result = decodeCsv(bytes);
+
+		// 検証
+		expect(result).toEqual({ text: "日付,金額", encoding: "utf-8" });
+	});
+
+	it("BOMなしUTF-8はUTF-8として判定する", () => {
+		// 実行
+		const result = decodeCsv(new TextEncoder().encode("日付,金額"));
+
+		// 検証
+		expect(result.encoding).toBe("utf-8");
+		expect(result.text).toBe("日付,金額");
+	});
+
+	it("UTF-8として不正なバイト列はShift_JISとして判定する", () => {
+		// 実行
+		const result = decodeCsv(new Uint8Array(SHIFT_JIS_HEADER));
+
+		// 検証
+		expect(result).toEqual({ text: "日付,金額\r\n", encoding: "shift_jis" });
+	});
+});
+
+describe("parseCsv", () => {
+	it("クォート内のカンマ・改行・エスケープされたダブルクォートを扱える", () => {
+		const text = 'a,"b,c","d\n""e"""\r\n1,2,3\n';
+
+		// 実行
+		const rows = parseCsv(text);
+
+		// 検証
+		expect(rows).toEqual([
+			["a", "b,c", 'd\n"e"'],
+			["1", "2", "3"],
+		]);
+	});
+
+	it("空行を除外し、末尾に改行がない最終行も取得する", () => {
+		// 実行
+		const rows = parseCsv("a,b\n\n,\nc,d");
+
+		// 検証
+		expect(rows).toEqual([
+			["a", "b"],
+			["c", "d"],
+		]);
+	});
+});
+
+describe("stringifyCsv", () => {
+	it("特殊文字を含む値のみクォートし、CRLFで区切る", () => {
+		// 実行
+		const text = stringifyCsv([
+			["日付", "説明", "金額"],
+			["2025-07-01", 'カフェ "A", 駅前', 500],
+			["2025-07-02", null, 1200],
+		]);
+
+		// 検証
+		expect(text).toBe(
+			'日付,説明,金額\r\n2025-07-01,"カフェ ""A"", 駅前",500\r\n2025-07-02,,1200\r\n',
+		);
+	});
+});
+
+describe("encodeCsv", () => {
+	it("UTF-8の場合はBOMを付与する", () => {
+		// 実行
+		const bytes = encodeCsv("日付", "utf-8");
+
+		// 検証
+		expect(Array.from(bytes.slice(0, 3))).toEqual([0xef, 0xbb, 0xbf]);
+		expect(decodeCsv(bytes)).toEqual({ text: "日付", encoding: "utf-8" });
+	});
+
+	it("Shift_JISに変換し、表現できない文字は?に置換する", () => {
+		// 実行
+		const bytes = encodeCsv("日付,金額\r\n", "shift_jis");
+		const halfWidth = encodeCsv("ｶﾌｪ①¥😀", "shift_jis");
+
+		// 検証
+		expect(Array.from(bytes)).toEqual(SHIFT_JIS_HEADER);
+		expect(decodeCsv(halfWidth, "shift_jis").text).toBe("ｶﾌｪ①\\?");
+	});
+});
@@ -0,0 +1,240 @@
+/**
+ * CSVの文字コード判定・パース処理ユーティリティ
+ *
+ * 設計方針:
+ * - 国内の銀行・カード会社のCSVで使われるShift_JISとUTF-8（BOM有無）に対応
+ * - 文字コードはBOM → UTF-8として妥当か → Shift_JIS の順で判定
+ * - パースはRFC 4180準拠（ダブルクォート内のカンマ・改行・"" エスケープに対応）
+ * - 出力はExcelでの文字化けを防ぐため、UTF-8はBOM付き・改行はCRLFとする
+ * - ブラウザ・Workersの両方で動作するよう標準APIのみを使用
+ *   （Shift_JISのエンコーダーは標準APIにないため、TextDecoderから変換表を生成する）
+ */
+
+export type CsvEncoding = "utf-8" | "shift_jis";
+
+const UTF8_BOM = [0xef, 0xbb, 0xbf];
+
+// Shift_JISで表現できない文字の置き換え先（"?"）
+const SHIFT_JIS_REPLACEMENT = 0x3f;
+
+/**
+ * バイト列の先頭にUTF-8のBOMがあるか判定
+ */
+function hasUtf8Bom(bytes: Uint8Array): boolean {
+	return UTF8_BOM.every((byte, index) => bytes[index] === byte);
+}
+
+/**
+ * CSVファイルのバイト列を文字列にデコード
+ *
+ * @param buffer - ファイルの内容
+ * @param encoding - 文字コード（未指定の場合は自動判定）
+ * @returns デコード後の文字列（BOMは除去済み）と判定した文字コード
+ */
+export function decodeCsv(
+	buffer: ArrayBuffer | Uint8Array,
+	encoding?: CsvEncoding,
+): { text: string; encoding: CsvEncoding } {
+	const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+
+	if (encoding === "shift_jis") {
+		return { text: new TextDecoder("shift_jis").decode(bytes), encoding };
+	}
+
+	if (encoding === "utf-8" || hasUtf8Bom(bytes)) {
+		// TextDecoderはデフォルトでBOMを除去する
+		return { text: new TextDecoder("utf-8").decode(bytes), encoding: "utf-8" };
+	}
+
+	// BOMなしの場合はUTF-8として不正なバイト列があればShift_JISとみなす
+	try {
+		return {
+			text: new TextDecoder("utf-8", { fatal: true }).decode(bytes),
+			encoding: "utf-8",
+		};
+	} catch {
+		return {
+			text: new TextDecoder("shift_jis").decode(bytes),
+			encoding: "shift_jis",
+		};
+	}
+}
+
+/**
+ * CSV文字列を行・列の2次元配列にパース
+ * 空行は除外する
+ */
+export function parseCsv(text: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = "";
+	let inQuotes = false;
+
+	const pushRow = () => {
+		row.push(field);
+		// 全列が空の行（空行）は除外
+		if (row.some((value) => value.trim() !== "")) {
+			rows.push(row);
+		}
+		row = [];
+		field = "";
+	};
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+
+		if (inQuotes) {
+			if (char === '"') {
+				if (text[i + 1] === '"') {
+					// "" はダブルクォート1文字としてエスケープ
+					field += '"';
+					i++;
+				} else {
+					inQuotes = false;
+				}
+			} else {
+				field += char;
+			}
+			continue;
+		}
+
+		if (char === '"') {
+			inQuotes = true;
+		} else if (char === ",") {
+			row.push(field);
+			field = "";
+		} else if (char === "\r" || char === "\n") {
+			// CRLFは1つの改行として扱う
+			if (char === "\r" && text[i + 1] === "\n") {
+				i++;
+			}
+			pushRow();
+		} else {
+			field += char;
+		}
+	}
+
+	// 末尾に改行がない場合の最終行
+	if (field !== "" || row.length > 0) {
+		pushRow();
+	}
+
+	return rows;
+}
+
+export type CsvValue = string | number | null | undefined;
+
+/**
+ * 行・列の2次元配列をCSV文字列に変換
+ * カンマ・ダブルクォート・改行を含む値のみダブルクォートで囲む
+ */
+export function stringifyCsv(rows: CsvValue[][]): string {
+	return rows
+		.map((row) =>
+			row
+				.map((value) => {
+					const field = value == null ? "" : String(value);
+					return /[",\r\n]/.test(field)
+						? `"${field.replace(/"/g, '""')}"`
+						: field;
+				})
+				.join(","),
+		)
+		.map((line) => `${line}\r\n`)
+		.join("");
+}
+
+// Shift_JISの2バイト文字の変換表（初回のエンコード時に生成）
+let shiftJisTable: Map<string, number> | null = null;
+
+/**
+ * 文字からShift_JISの2バイトコードへの変換表を生成
+ *
+ * - 第1バイト 0xED・0xEE（NEC選定IBM拡張文字）は0xFA〜0xFCと重複するため除外
+ * - 第1バイト 0xF0〜0xF9（ユーザー定義領域）は使用しないため除外
+ * - 同じ文字に複数のコードがある場合は小さいコードを優先（NEC特殊文字を優先）
+ */
+function getShiftJisTable(): Map<string, number> {
+	if (shiftJisTable) return shiftJisTable;
+
+	const decoder = new TextDecoder("shift_jis");
+	const table = new Map<string, number>();
+	for (let lead = 0x81; lead <= 0xfc; lead++) {
+		if (
+			(lead >= 0xa0 && lead <= 0xdf) ||
+			lead === 0xed ||
+			lead === 0xee ||
+			(lead >= 0xf0 && lead <= 0xf9)
+		) {
+			continue;
+		}
+		for (let trail = 0x40; trail <= 0xfc; trail++) {
+			if (trail === 0x7f) continue;
+			const char = decoder.decode(new Uint8Array([lead, trail]));
+			if (char.length === 1 && char !== "\ufffd" && !table.has(char)) {
+				table.set(char, (lead << 8) | trail);
+			}
+		}
+	}
+
+	shiftJisTable = table;
+	return table;
+}
+
+/**
+ * 1文字をShift_JISのバイト列に変換して追加
+ */
+function pushShiftJisChar(bytes: number[], char: string) {
+	const code = char.codePointAt(0) ?? 0;
+
+	// ASCII（0x5C・0x7Eを含む）
+	if (code < 0x80) {
+		bytes.push(code);
+		return;
+	}
+	// 円記号・オーバーラインは0x5C・0x7Eに対応付ける
+	if (code === 0xa5) {
+		bytes.push(0x5c);
+		return;
+	}
+	if (code === 0x203e) {
+		bytes.push(0x7e);
+		return;
+	}
+	// 半角カナ
+	if (code >= 0xff61 && code <= 0xff9f) {
+		bytes.push(code - 0xff61 + 0xa1);
+		return;
+	}
+
+	// マイナス記号は全角ハイフンマイナスとして扱う
+	const mapped = getShiftJisTable().get(code === 0x2212 ? "\uff0d" : char);
+	if (mapped === undefined) {
+		bytes.push(SHIFT_JIS_REPLACEMENT);
+		return;
+	}
+	bytes.push(mapped >> 8, mapped & 0xff);
+}
+
+/**
+ * CSV文字列を指定の文字コードのバイト列に変換
+ *
+ * @param text - CSV文字列
+ * @param encoding - 文字コード（UTF-8はExcel向けにBOMを付与）
+ * @returns エンコード後のバイト列（Shift_JISで表現できない文字は "?" に置換）
+ */
+export function encodeCsv(text: string, encoding: CsvEncoding): Uint8Array {
+	if (encoding === "utf-8") {
+		const body = new TextEncoder().encode(text);
+		const bytes = new Uint8Array(UTF8_BOM.length + body.length);
+		bytes.set(UTF8_BOM);
+		bytes.set(body, UTF8_BOM.length);
+		return bytes;
+	}
+
+	const bytes: number[] = [];
+	for (const char of text) {
+		pushShiftJisChar(bytes, char);
+	}
+	return new Uint8Array(bytes);
+}
@@ -0,0 +1,80 @@
+/**
+ * 取引のCSVエクスポート用ユーティリティのテスト
+ *
+ * 設計方針:
+ * - 日本語ヘッダー・種別ラベル・カテゴリ名の解決を検証
+ * - 数式として解釈される値の無害化を検証
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+	TRANSACTION_EXPORT_HEADERS,
+	buildTransactionCsvRows,
+	escapeCsvFormula,
+} from "./transaction-export";
+
+describe("buildTransactionCsvRows", () => {
+	it("ヘッダー行に続けて、種別ラベル・カテゴリ名・タグを変換した行を返す", () => {
+		// 実行
+		const rows = buildTransactionCsvRows([
+			{
+				transactionDate: "2025-07-01",
+				type: "expense",
+				amount: 1500,
+				description: "ランチ",
+				paymentMethod: "現金",
+				tags: ["外食", "平日"],
+				category: { name: "食費" },
+			},
+			{
+				transactionDate: "2025-07-25",
+				type: "income",
+				amount: 250000,
+				description: null,
+				paymentMethod: null,
+				tags: null,
+				category: null,
+			},
+		]);
+
+		// 検証
+		expect(rows).toEqual([
+			TRANSACTION_EXPORT_HEADERS,
+			["2025-07-01", "支出", "食費", 1500, "ランチ", "現金", "外食、平日"],
+			["2025-07-25", "収入", null, 250000, null, null, null],
+		]);
+	});
+
+	it("分割した取引のカテゴリは内訳ごとの名前と金額を並べる", () => {
+		// 実行
+		const rows = buildTransactionCsvRows([
+			{
+				transactionDate: "2025-07-05",
+				type: "expense",
+				amount: 3000,
+				description: "スーパー",
+				paymentMethod: null,
+				tags: null,
+				category: null,
+				splits: [
+					{ amount: 2200, category: { name: "食費" } },
+					{ amount: 800, category: { name: "日用品" } },
+				],
+			},
+		]);
+
+		// 検証
+		expect(rows[1][2]).toBe("食費(2200) / 日用品(800)");
+	});
+});
+
+describe("escapeCsvFormula", () => {
+	it("数式として解釈される先頭文字を持つ値に ' を前置する", () => {
+		// 検証
+		expect(escapeCsvFormula("=SUM(A1)")).toBe("'=SUM(A1)");
+		expect(escapeCsvFormula("-100")).toBe("'-100");
+		expect(escapeCsvFormula("@home")).toBe("'@home");
+		expect(escapeCsvFormula("ランチ")).toBe("ランチ");
+		expect(escapeCsvFormula(null)).toBeNull();
+	});
+});
@@ -0,0 +1,83 @@
+import type { CsvValue } from "./csv";
+
+/**
+ * 取引のCSVエクスポート用ユーティリティ
+ *
+ * 設計方針:
+ * - 税理士・会計ソフトへの受け渡しを想定し、ヘッダーは日本語・種別は「収入/支出」で出力
+ * - カテゴリはIDではなく名前で出力し、未分類は空欄とする
+ * - 分割した取引のカテゴリは「食費(2200) / 日用品(800)」のように内訳ごとの名前と金額を並べる
+ * - Excelで開いた際に数式として解釈されないよう、=・+・-・@ で始まる文字列は ' を前置する
+ */
+
+export const TRANSACTION_EXPORT_HEADERS = [
+	"日付",
+	"種別",
+	"カテゴリ",
+	"金額",
+	"説明",
+	"支払方法",
+	"タグ",
+];
+
+const TYPE_LABELS: Record<string, string> = {
+	income: "収入",
+	expense: "支出",
+	transfer: "振替",
+};
+
+/**
+ * エクスポート対象の取引（タグは配列に変換済み、カテゴリはJOIN済み）
+ */
+export interface ExportTransaction {
+	transactionDate: string;
+	type: string;
+	amount: number;
+	description: string | null;
+	paymentMethod: string | null;
+	tags: string[] | null;
+	category: { name: string } | null;
+	splits?: { amount: number; category: { name: string } | null }[];
+}
+
+/**
+ * 数式として解釈される文字列を無害化（CSVインジェクション対策）
+ */
+export function escapeCsvFormula(value: string | null): string | null {
+	if (value && /^[=+\-@\t\r]/.test(value)) {
+		return `'${value}`;
+	}
+	return value;
+}
+
+/**
+ * カテゴリ列の値（分割した取引は内訳ごとのカテゴリ名と金額）
+ */
+function getCategoryLabel(transaction: ExportTransaction): string | null {
+	if (transaction.splits && transaction.splits.length > 0) {
+		return transaction.splits
+			.map((split) => `${split.category?.name ?? "未分類"}(${split.amount})`)
+			.join(" / ");
+	}
+	return transaction.category?.name ?? null;
+}
+
+/**
+ * 取引一覧をヘッダー付きのCSV行データに変換
+ */
+export function buildTransactionCsvRows(
+	transactions: ExportTransaction[],
+): CsvValue[][] {
+	return [
+		TRANSACTION_EXPORT_HEADERS,
+		...transactions.map((transaction) => [
+			transaction.transactionDate,
+			TYPE_LABELS[transaction.type] ?? transaction.type,
+			escapeCsvFormula(getCategoryLabel(transaction)),
+			transaction.amount,
+			escapeCsvFormula(transaction.description),
+			escapeCsvFormula(transaction.paymentMethod),
+			escapeCsvFormula(transaction.tags?.join("、") || null),
+		]),
+	];
+}
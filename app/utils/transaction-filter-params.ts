@@ -0,0 +1,72 @@
+import { z } from "zod";
+import { TRANSACTION_TYPES } from "../../db/schema";
+
+/**
+ * 取引一覧系APIで共通のクエリパラメータ定義
+ *
+ * 設計方針:
+ * - 一覧取得（GET /api/transactions）とCSVエクスポートで同じ絞り込み条件を受け付ける
+ * - クエリ文字列からの変換（数値化・タグの分割）はスキーマ側で行う
+ * - 範囲指定の前後関係チェックはsuperRefineで共有し、ページング等の追加項目と組み合わせる
+ */
+
+const dateParamSchema = z
+	.string()
+	.regex(/^\d{4}-\d{2}-\d{2}$/, "日付はYYYY-MM-DD形式で指定してください");
+
+// 絞り込み・並び替えのクエリパラメータ
+export const transactionFilterParamsSchema = z.object({
+	startDate: dateParamSchema.optional(),
+	endDate: dateParamSchema.optional(),
+	categoryId: z.coerce.number().int().positive().optional(),
+	accountId: z.coerce.number().int().positive().optional(),
+	type: z.enum(TRANSACTION_TYPES).optional(),
+	search: z.string().trim().min(1).optional(),
+	tags: z
+		.string()
+		.transform((val) =>
+			val
+				.split(",")
+				.map((tag) => tag.trim())
+				.filter((tag) => tag.length > 0),
+		)
+		.optional(),
+	minAmount: z.coerce.number().int().min(0).optional(),
+	maxAmount: z.coerce.number().int().min(0).optional(),
+	sortBy: z
+		.enum(["transactionDate", "amount", "createdAt"])
+		.default("transactionDate"),
+	sortOrder: z.enum(["asc", "desc"]).default("desc"),
+});
+
+/**
+ * 日付・金額の範囲指定の前後関係を検証
+ */
+export function refineTransactionFilterRanges(
+	params: {
+		startDate?: string;
+		endDate?: string;
+		minAmount?: number;
+		maxAmount?: number;
+	},
+	ctx: z.RefinementCtx,
+) {
+	if (params.startDate && params.endDate && params.startDate > params.endDate) {
+		ctx.addIssue({
+			code: z.ZodIssueCode.custom,
+			message: "開始日は終了日以前を指定してください",
+			path: ["startDate"],
+		});
+	}
+	if (
+		params.minAmount !== undefined &&
+		params.maxAmount !== undefined &&
+		params.minAmount > params.maxAmount
+	) {
+		ctx.addIssue({
+			code: z.ZodIssueCode.custom,
+			message: "最小金額は最大金額以下を指定してください",
+			path: ["minAmount"],
+		});
+	}
+}
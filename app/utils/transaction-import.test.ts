@@ -0,0 +1,152 @@
+/**
+ * CSVインポート用の取引変換ユーティリティのテスト
+ *
+ * 設計方針:
+ * - 国内の明細でよく使われる日付・金額表記の変換を検証
+ * - 列マッピング（単一金額列・出金/入金の別列）ごとの種別判定を検証
+ * - 件数ベースの重複判定を検証
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+	EMPTY_COLUMN_MAPPING,
+	findDuplicateIndexes,
+	mapCsvRows,
+	parseImportAmount,
+	parseImportDate,
+} from "./transaction-import";
+
+describe("parseImportDate", () => {
+	it("スラッシュ区切り・年月日・8桁の日付をYYYY-MM-DDに変換する", () => {
+		// 検証
+		expect(parseImportDate("2024/1/5")).toBe("2024-01-05");
+		expect(parseImportDate("２０２４年１２月３１日")).toBe("2024-12-31");
+		expect(parseImportDate("20240229")).toBe("2024-02-29");
+	});
+
+	it("存在しない日付や解釈できない文字列はnullを返す", () => {
+		// 検証
+		expect(parseImportDate("2023/2/29")).toBeNull();
+		expect(parseImportDate("ご利用日")).toBeNull();
+	});
+});
+
+describe("parseImportAmount", () => {
+	it("通貨記号・桁区切り・円・▲表記を数値に変換する", () => {
+		// 検証
+		expect(parseImportAmount("¥1,234")).toBe(1234);
+		expect(parseImportAmount("１，０００円")).toBe(1000);
+		expect(parseImportAmount("▲500")).toBe(-500);
+		expect(parseImportAmount("")).toBeNull();
+		expect(parseImportAmount("abc")).toBeNull();
+	});
+});
+
+describe("mapCsvRows", () => {
+	it("出金・入金の別列から種別を判定し、ヘッダー行を除外する", () => {
+		const rows = [
+			["日付", "内容", "出金金額(円)", "入金金額(円)"],
+			["2024/07/01", "コンビニ", "1,200", ""],
+			["2024/07/25", "給与", "", "250,000"],
+		];
+
+		// 実行
+		const result = mapCsvRows(rows, {
+			mapping: {
+				...EMPTY_COLUMN_MAPPING,
+				date: 0,
+				description: 1,
+				withdrawal: 2,
+				deposit: 3,
+			},
+			hasHeader: true,
+			skipRows: 0,
+			defaultType: "expense",
+		});
+
+		// 検証
+		expect(result.header).toEqual(rows[0]);
+		expect(result.rows).toEqual([
+			{
+				rowNumber: 2,
+				input: {
+					transactionDate: "2024-07-01",
+					amount: 1200,
+					type: "expense",
+					description: "コンビニ",
+				},
+				errors: [],
+			},
+			{
+				rowNumber: 3,
+				input: {
+					transactionDate: "2024-07-25",
+					amount: 250000,
+					type: "income",
+					description: "給与",
+				},
+				errors: [],
+			},
+		]);
+	});
+
+	it("単一の金額列では負の値を既定と逆の種別として扱い、不正な行はエラーにする", () => {
+		const rows = [
+			["2024/07/01", "返金", "-3000"],
+			["不明", "コンビニ", "abc"],
+		];
+
+		// 実行
+		const result = mapCsvRows(rows, {
+			mapping: { ...EMPTY_COLUMN_MAPPING, date: 0, description: 1, amount: 2 },
+			hasHeader: false,
+			skipRows: 0,
+			defaultType: "expense",
+		});
+
+		// 検証
+		expect(result.rows[0].input).toMatchObject({
+			amount: 3000,
+			type: "income",
+		});
+		expect(result.rows[0].errors).toEqual([]);
+		expect(result.rows[1].errors).toEqual([
+			"日付を解釈できません: 不明",
+			"金額を解釈できません",
+		]);
+	});
+
+	it("金額が0の行はスキーマのバリデーションエラーになる", () => {
+		// 実行
+		const result = mapCsvRows([["2024/07/01", "0"]], {
+			mapping: { ...EMPTY_COLUMN_MAPPING, date: 0, amount: 1 },
+			hasHeader: false,
+			skipRows: 0,
+			defaultType: "expense",
+		});
+
+		// 検証
+		expect(result.rows[0].errors).toHaveLength(1);
+		expect(result.rows[0].errors[0]).toMatch(/^金額が不正です/);
+	});
+});
+
+describe("findDuplicateIndexes", () => {
+	it("既存の件数分だけ重複として判定する", () => {
+		const transaction = {
+			transactionDate: "2024-07-01",
+			amount: 500,
+			type: "expense",
+			description: "コーヒー",
+		};
+
+		// 実行
+		const result = findDuplicateIndexes(
+			[transaction, { ...transaction, amount: 600 }, transaction],
+			[{ ...transaction, description: " コーヒー " }],
+		);
+
+		// 検証
+		expect(result).toEqual([0]);
+	});
+});
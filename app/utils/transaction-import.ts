@@ -0,0 +1,323 @@
+import { createTransactionSchema } from "../../db/schema";
+
+/**
+ * CSVインポート用の取引変換ユーティリティ
+ *
+ * 設計方針:
+ * - CSVの各行を列マッピングに従って取引作成リクエストの形に変換
+ * - 日付・金額は国内の銀行・カード明細でよく使われる表記揺れを吸収
+ * - バリデーションはcreateTransactionSchemaで行い、APIと同じ基準で検証
+ * - 重複判定は「取引日・金額・種別・説明」が一致する取引を重複とみなす
+ * - 画面（プレビュー）とAPI（取り込み時の重複チェック）の双方で共有する
+ */
+
+export type ImportTransactionType = "income" | "expense";
+
+/**
+ * CSVの列と取引フィールドの対応（列番号は0始まり、未使用はnull）
+ *
+ * 金額は次のいずれかで指定する:
+ * - amount: 単一の金額列（負の値はdefaultTypeと逆の種別として扱う）
+ * - withdrawal / deposit: 銀行明細のような出金・入金の別列
+ */
+export interface CsvColumnMapping {
+	date: number | null;
+	description: number | null;
+	amount: number | null;
+	withdrawal: number | null;
+	deposit: number | null;
+	type: number | null; // 「入金」「出金」などの収支区分が入った列
+}
+
+export interface CsvImportOptions {
+	mapping: CsvColumnMapping;
+	hasHeader: boolean; // 先頭行（skipRows適用後）をヘッダーとして扱うか
+	skipRows: number; // ヘッダーより前に読み飛ばす行数（カード番号などの前置き行）
+	defaultType: ImportTransactionType; // 種別を判定できない場合の種別
+}
+
+/**
+ * 取り込み対象の取引データ（取引作成リクエストのサブセット）
+ */
+export interface ImportTransactionInput {
+	transactionDate: string;
+	amount: number;
+	type: ImportTransactionType;
+	description: string | null;
+	categoryId?: number | null;
+}
+
+/**
+ * CSV1行分の変換結果
+ */
+export interface ImportPreviewRow {
+	rowNumber: number; // CSVファイル上の行番号（1始まり、プレビュー表示用）
+	input: ImportTransactionInput;
+	errors: string[];
+}
+
+export const EMPTY_COLUMN_MAPPING: CsvColumnMapping = {
+	date: null,
+	description: null,
+	amount: null,
+	withdrawal: null,
+	deposit: null,
+	type: null,
+};
+
+const FIELD_LABELS: Record<string, string> = {
+	transactionDate: "日付",
+	amount: "金額",
+	type: "種別",
+	description: "説明",
+	categoryId: "カテゴリ",
+};
+
+const INCOME_KEYWORDS = ["入金", "収入", "預入", "預かり", "income"];
+const EXPENSE_KEYWORDS = ["出金", "支出", "支払", "引落", "expense"];
+
+// 全角英数字・記号を半角に変換
+const toHalfWidth = (value: string): string =>
+	value.replace(/[！-～]/g, (char) =>
+		String.fromCharCode(char.charCodeAt(0) - 0xfee0),
+	);
+
+const pad2 = (value: string): string => value.padStart(2, "0");
+
+/**
+ * 日付文字列をYYYY-MM-DD形式に変換
+ * 対応形式: 2024/1/5, 2024-01-05, 2024.1.5, 20240105, 2024年1月5日
+ *
+ * @returns 変換後の日付、解釈できない・存在しない日付の場合はnull
+ */
+export function parseImportDate(value: string): string | null {
+	const normalized = toHalfWidth(value).trim();
+
+	const match =
+		normalized.match(/^(\d{4})[/\-.年](\d{1,2})[/\-.月](\d{1,2})日?/) ??
+		normalized.match(/^(\d{4})(\d{2})(\d{2})$/);
+	if (!match) return null;
+
+	const [, year, month, day] = match;
+	const date = `${year}-${pad2(month)}-${pad2(day)}`;
+
+	// 2月30日のような存在しない日付を除外
+	const parsed = new Date(`${date}T00:00:00Z`);
+	if (
+		Number.isNaN(parsed.getTime()) ||
+		parsed.toISOString().slice(0, 10) !== date
+	) {
+		return null;
+	}
+
+	return date;
+}
+
+/**
+ * 金額文字列を数値に変換（符号付き）
+ * 通貨記号・桁区切り・「円」・全角数字に対応し、▲や△は負の値として扱う
+ *
+ * @returns 変換後の金額、空欄や数値として解釈できない場合はnull
+ */
+export function parseImportAmount(value: string): number | null {
+	let normalized = toHalfWidth(value)
+		.trim()
+		.replace(/[¥￥,円\s]/g, "");
+	if (normalized === "") return null;
+
+	let sign = 1;
+	if (/^[▲△]/.test(normalized)) {
+		sign = -1;
+		normalized = normalized.slice(1);
+	}
+
+	if (!/^[+-]?\d+(\.\d+)?$/.test(normalized)) return null;
+
+	return sign * Number(normalized);
+}
+
+/**
+ * 収支区分の文字列から取引種別を判定
+ */
+export function parseImportType(value: string): ImportTransactionType | null {
+	const normalized = value.trim().toLowerCase();
+	if (normalized === "") return null;
+	if (INCOME_KEYWORDS.some((keyword) => normalized.includes(keyword))) {
+		return "income";
+	}
+	if (EXPENSE_KEYWORDS.some((keyword) => normalized.includes(keyword))) {
+		return "expense";
+	}
+	return null;
+}
+
+/**
+ * 先頭の読み飛ばし行・ヘッダー行を除いたデータ行を取得
+ */
+export function splitCsvHeader(
+	rows: string[][],
+	options: Pick<CsvImportOptions, "hasHeader" | "skipRows">,
+): {
+	header: string[] | null;
+	dataRows: string[][];
+	firstDataRowNumber: number;
+} {
+	const afterSkip = rows.slice(options.skipRows);
+	const header = options.hasHeader ? (afterSkip[0] ?? null) : null;
+	const headerRows = options.hasHeader ? 1 : 0;
+
+	return {
+		header,
+		dataRows: afterSkip.slice(headerRows),
+		firstDataRowNumber: options.skipRows + headerRows + 1,
+	};
+}
+
+/**
+ * CSV1行を取引データに変換し、バリデーションエラーを収集
+ */
+export function mapCsvRow(
+	row: string[],
+	rowNumber: number,
+	options: Pick<CsvImportOptions, "mapping" | "defaultType">,
+): ImportPreviewRow {
+	const { mapping, defaultType } = options;
+	const errors: string[] = [];
+	const cell = (index: number | null): string =>
+		index === null ? "" : (row[index] ?? "");
+
+	// 日付
+	const rawDate = cell(mapping.date);
+	const transactionDate = parseImportDate(rawDate);
+	if (mapping.date === null) {
+		errors.push("日付の列が指定されていません");
+	} else if (!transactionDate) {
+		errors.push(`日付を解釈できません: ${rawDate || "(空欄)"}`);
+	}
+
+	// 金額と種別（出金・入金の別列 → 単一の金額列の順に判定）
+	let amount: number | null = null;
+	let type: ImportTransactionType = defaultType;
+
+	const withdrawal = parseImportAmount(cell(mapping.withdrawal));
+	const deposit = parseImportAmount(cell(mapping.deposit));
+	const signedAmount = parseImportAmount(cell(mapping.amount));
+
+	if (withdrawal !== null && withdrawal !== 0) {
+		amount = withdrawal;
+		type = "expense";
+	} else if (deposit !== null && deposit !== 0) {
+		amount = deposit;
+		type = "income";
+	} else if (signedAmount !== null) {
+		amount = signedAmount;
+		if (signedAmount < 0) {
+			type = defaultType === "expense" ? "income" : "expense";
+		}
+	}
+
+	if (
+		mapping.amount === null &&
+		mapping.withdrawal === null &&
+		mapping.deposit === null
+	) {
+		errors.push("金額の列が指定されていません");
+	} else if (amount === null) {
+		errors.push("金額を解釈できません");
+	}
+
+	// 収支区分の列がある場合はその値を優先
+	const explicitType = parseImportType(cell(mapping.type));
+	if (explicitType) {
+		type = explicitType;
+	}
+
+	const description = cell(mapping.description).trim() || null;
+
+	const input: ImportTransactionInput = {
+		transactionDate: transactionDate ?? rawDate,
+		amount: amount === null ? 0 : Math.abs(amount),
+		type,
+		description,
+	};
+
+	// 変換で検出できなかった項目はAPIと同じスキーマで検証
+	if (errors.length === 0) {
+		const parsed = createTransactionSchema.safeParse(input);
+		if (!parsed.success) {
+			for (const issue of parsed.error.errors) {
+				const label =
+					FIELD_LABELS[String(issue.path[0])] ?? issue.path.join(".");
+				errors.push(`${label}が不正です（${issue.message}）`);
+			}
+		}
+	}
+
+	return { rowNumber, input, errors };
+}
+
+/**
+ * パース済みCSV全体を取引データに変換
+ */
+export function mapCsvRows(
+	rows: string[][],
+	options: CsvImportOptions,
+): { header: string[] | null; rows: ImportPreviewRow[] } {
+	const { header, dataRows, firstDataRowNumber } = splitCsvHeader(
+		rows,
+		options,
+	);
+
+	return {
+		header,
+		rows: dataRows.map((row, index) =>
+			mapCsvRow(row, firstDataRowNumber + index, options),
+		),
+	};
+}
+
+/**
+ * 重複判定用のキーを生成
+ */
+export function buildDuplicateKey(transaction: {
+	transactionDate: string;
+	amount: number;
+	type: string;
+	description: string | null;
+}): string {
+	return [
+		transaction.transactionDate,
+		transaction.amount,
+		transaction.type,
+		transaction.description?.trim() ?? "",
+	].join("\u0000");
+}
+
+/**
+ * 既存の取引と重複する取り込み対象のインデックスを取得
+ *
+ * 同日・同額の取引が複数あることは珍しくないため、件数ベースで判定する
+ * （既存に1件、取り込み対象に2件ある場合は1件目のみを重複とする）
+ */
+export function findDuplicateIndexes(
+	candidates: Parameters<typeof buildDuplicateKey>[0][],
+	existing: Parameters<typeof buildDuplicateKey>[0][],
+): number[] {
+	const remaining = new Map<string, number>();
+	for (const transaction of existing) {
+		const key = buildDuplicateKey(transaction);
+		remaining.set(key, (remaining.get(key) ?? 0) + 1);
+	}
+
+	const duplicates: number[] = [];
+	candidates.forEach((candidate, index) => {
+		const key = buildDuplicateKey(candidate);
+		const count = remaining.get(key) ?? 0;
+		if (count > 0) {
+			duplicates.push(index);
+			remaining.set(key, count - 1);
+		}
+	});
+
+	return duplicates;
+}
@@ -3,6 +3,7 @@ import { drizzle as drizzleSqlite } from "drizzle-orm/better-sqlite3";
 import { migrate } from "drizzle-orm/better-sqlite3/migrator";
 import { drizzle } from "drizzle-orm/d1";
 import * as schema from "./schema";
+import { planDefaultCategorySeed } from "./seeds/defaultCategories";
 
 /**
  * Drizzle ORM データベース接続設定
@@ -87,7 +88,9 @@ export function resetDevDbSingleton(): void {
 
 /**
  * 開発環境用データベースの初期化
- * Drizzleマイグレーションとサンプルデータの適用
+ * Drizzleマイグレーション・デフォルトカテゴリ・サンプルデータの適用
+ * デフォルトカテゴリは本番と同じ定義（db/seeds/defaultCategories.ts）から投入し、
+ * 最初のリクエストより先に完了するよう同期APIで実行する
  */
 async function initializeDevDatabase(
 	db: ReturnType<typeof drizzleSqlite>,
@@ -100,43 +103,38 @@ async function initializeDevDatabase(
 		migrate(db, { migrationsFolder: "./db/migrations" });
 		console.log("📋 データベース: マイグレーション適用完了");
 
-		// サンプルデータが既に存在するかチェック
-		const existingCategories = sqlite
-			.prepare("SELECT COUNT(*) as count FROM categories")
-			.get() as { count: number };
+		// 登録済みのカテゴリを取得（空のデータベースの場合のみサンプルデータを挿入する）
+		const existingCategories = db
+			.select({
+				id: schema.categories.id,
+				name: schema.categories.name,
+				type: schema.categories.type,
+			})
+			.from(schema.categories)
+			.all();
+
+		// デフォルトカテゴリの投入（登録済みのカテゴリはスキップ）
+		const newCategories = planDefaultCategorySeed(existingCategories);
+		if (newCategories.length > 0) {
+			db.insert(schema.categories).values(newCategories).run();
+		}
 
-		if (existingCategories.count === 0) {
-			// サンプルデータの挿入
+		if (existingCategories.length === 0) {
+			// サンプルデータの挿入（カテゴリIDはデフォルトカテゴリの固定ID）
 			sqlite.exec(`
-				INSERT INTO categories (id, name, type, icon, color) VALUES 
-				(1, '食費', 'expense', '🍽️', '#FF6B6B'),
-				(2, '交通費', 'expense', '🚗', '#4ECDC4'),
-				(3, '日用品', 'expense', '🧴', '#FFA726'),
-				(4, '娯楽費', 'expense', '🎮', '#AB47BC'),
-				(5, '通信費', 'expense', '📱', '#26A69A'),
-				(6, '光熱費', 'expense', '💡', '#FFCA28'),
-				(7, '住居費', 'expense', '🏠', '#8D6E63'),
-				(8, 'エンタメ', 'expense', '🎬', '#EC407A'),
-				(9, '被服費', 'expense', '👕', '#5C6BC0'),
-				(10, '教育費', 'expense', '📚', '#66BB6A'),
-				(11, '医療費', 'expense', '🏥', '#EF5350'),
-				(12, '給与', 'income', '💰', '#45B7D1'),
-				(13, '副業', 'income', '💼', '#96CEB4'),
-				(14, 'その他収入', 'income', '📈', '#4CAF50');
-				
 				INSERT INTO transactions (amount, type, category_id, description, transaction_date) VALUES 
-				(50000, 'income', 12, '給与', '2025-06-01'),
+				(50000, 'income', 9, '給与', '2025-06-01'),
 				(1200, 'expense', 1, 'ランチ', '2025-06-01'),
 				(800, 'expense', 2, '電車代', '2025-06-02'),
-				(15000, 'income', 13, 'フリーランス収入', '2025-06-02'),
+				(15000, 'income', 10, 'フリーランス収入', '2025-06-02'),
 				(2500, 'expense', 1, '夕食', '2025-06-10'),
 				(350, 'expense', 2, 'バス代', '2025-06-15'),
-				(8000, 'income', 14, 'ボーナス', '2025-06-20'),
+				(8000, 'income', 12, 'ボーナス', '2025-06-20'),
 				(1800, 'expense', 1, '朝食', '2025-06-22');
 				
 				INSERT INTO subscriptions (name, amount, category_id, frequency, next_payment_date) VALUES 
-				('Netflix', 1980, 8, 'monthly', '2025-07-01'),
-				('Spotify', 980, 8, 'monthly', '2025-07-05');
+				('Netflix', 1980, 5, 'monthly', '2025-07-01'),
+				('Spotify', 980, 5, 'monthly', '2025-07-05');
 			`);
 		}
 		console.log("✅ データベース: サンプルデータ挿入完了");
@@ -0,0 +1,14 @@
+CREATE TABLE `accounts` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`type` text NOT NULL,
+	`opening_balance` integer DEFAULT 0 NOT NULL,
+	`color` text,
+	`display_order` integer DEFAULT 0 NOT NULL,
+	`is_active` integer DEFAULT true NOT NULL,
+	`created_at` text DEFAULT 'CURRENT_TIMESTAMP' NOT NULL,
+	`updated_at` text DEFAULT 'CURRENT_TIMESTAMP' NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE `subscriptions` ADD `account_id` integer REFERENCES accounts(id);--> statement-breakpoint
+ALTER TABLE `transactions` ADD `account_id` integer REFERENCES accounts(id);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `transactions` ADD `transfer_account_id` integer REFERENCES accounts(id);--> statement-breakpoint
+ALTER TABLE `transactions` ADD `fee` integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE `card_statements` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`account_id` integer NOT NULL,
+	`closing_date` text NOT NULL,
+	`payment_date` text NOT NULL,
+	`statement_amount` integer,
+	`settlement_transaction_id` integer,
+	`created_at` text DEFAULT 'CURRENT_TIMESTAMP' NOT NULL,
+	`updated_at` text DEFAULT 'CURRENT_TIMESTAMP' NOT NULL,
+	FOREIGN KEY (`account_id`) REFERENCES `accounts`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`settlement_transaction_id`) REFERENCES `transactions`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+ALTER TABLE `accounts` ADD `closing_day` integer;--> statement-breakpoint
+ALTER TABLE `accounts` ADD `payment_day` integer;--> statement-breakpoint
+ALTER TABLE `accounts` ADD `payment_month_offset` integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE `accounts` ADD `payment_account_id` integer REFERENCES accounts(id);--> statement-breakpoint
+ALTER TABLE `transactions` ADD `reconciled_statement_id` integer REFERENCES card_statements(id);
\ No newline at end of file
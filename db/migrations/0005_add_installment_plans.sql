@@ -0,0 +1,14 @@
+CREATE TABLE `installment_plans` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`subscription_id` integer NOT NULL,
+	`principal_amount` integer NOT NULL,
+	`fee` integer DEFAULT 0 NOT NULL,
+	`payment_count` integer NOT NULL,
+	`first_payment_date` text NOT NULL,
+	`paid_off_date` text,
+	`created_at` text DEFAULT 'CURRENT_TIMESTAMP' NOT NULL,
+	`updated_at` text DEFAULT 'CURRENT_TIMESTAMP' NOT NULL,
+	FOREIGN KEY (`subscription_id`) REFERENCES `subscriptions`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `installment_plans_subscription_id_unique` ON `installment_plans` (`subscription_id`);
\ No newline at end of file
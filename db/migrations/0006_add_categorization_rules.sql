@@ -0,0 +1,20 @@
+CREATE TABLE `categorization_rules` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`type` text NOT NULL,
+	`description_pattern` text,
+	`match_type` text DEFAULT 'contains' NOT NULL,
+	`min_amount` integer,
+	`max_amount` integer,
+	`account_id` integer,
+	`payment_method` text,
+	`category_id` integer,
+	`tags` text,
+	`memo` text,
+	`priority` integer DEFAULT 0 NOT NULL,
+	`is_active` integer DEFAULT true NOT NULL,
+	`created_at` text DEFAULT 'CURRENT_TIMESTAMP' NOT NULL,
+	`updated_at` text DEFAULT 'CURRENT_TIMESTAMP' NOT NULL,
+	FOREIGN KEY (`account_id`) REFERENCES `accounts`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`category_id`) REFERENCES `categories`(`id`) ON UPDATE no action ON DELETE no action
+);
@@ -0,0 +1,33 @@
+CREATE TABLE `tags` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`color` text,
+	`created_at` text DEFAULT 'CURRENT_TIMESTAMP' NOT NULL,
+	`updated_at` text DEFAULT 'CURRENT_TIMESTAMP' NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `tags_name_unique` ON `tags` (`name`);--> statement-breakpoint
+CREATE TABLE `transaction_tags` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`transaction_id` integer NOT NULL,
+	`tag_id` integer NOT NULL,
+	FOREIGN KEY (`transaction_id`) REFERENCES `transactions`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`tag_id`) REFERENCES `tags`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+INSERT OR IGNORE INTO `tags` (`name`)
+SELECT DISTINCT `tag`.`value`
+FROM (
+	SELECT `tags` FROM `transactions`
+	WHERE json_valid(`tags`) AND json_type(`tags`) = 'array'
+) AS `t`, json_each(`t`.`tags`) AS `tag`
+WHERE `tag`.`type` = 'text' AND trim(`tag`.`value`) <> '';
+--> statement-breakpoint
+INSERT INTO `transaction_tags` (`transaction_id`, `tag_id`)
+SELECT DISTINCT `t`.`id`, `tags`.`id`
+FROM (
+	SELECT `id`, `tags` FROM `transactions`
+	WHERE json_valid(`tags`) AND json_type(`tags`) = 'array'
+) AS `t`, json_each(`t`.`tags`) AS `tag`
+INNER JOIN `tags` ON `tags`.`name` = `tag`.`value`
+WHERE `tag`.`type` = 'text';
@@ -0,0 +1 @@
+ALTER TABLE `categories` ADD `parent_id` integer REFERENCES categories(id);
\ No newline at end of file
@@ -0,0 +1,7 @@
+ALTER TABLE `subscriptions` ADD `interval_count` integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE `subscriptions` ADD `billing_day` integer;--> statement-breakpoint
+ALTER TABLE `subscriptions` ADD `business_day_adjustment` text DEFAULT 'none' NOT NULL;
+--> statement-breakpoint
+UPDATE `subscriptions`
+SET `billing_day` = CAST(substr(`next_payment_date`, 9, 2) AS integer)
+WHERE `frequency` IN ('monthly', 'yearly');
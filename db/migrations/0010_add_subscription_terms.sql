@@ -0,0 +1,3 @@
+ALTER TABLE `subscriptions` ADD `end_date` text;--> statement-breakpoint
+ALTER TABLE `subscriptions` ADD `remaining_payments` integer;--> statement-breakpoint
+ALTER TABLE `subscriptions` ADD `trial_end_date` text;
\ No newline at end of file
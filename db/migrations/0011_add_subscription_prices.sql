@@ -0,0 +1,15 @@
+CREATE TABLE `subscription_prices` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`subscription_id` integer NOT NULL,
+	`amount` integer NOT NULL,
+	`effective_date` text NOT NULL,
+	`created_at` text DEFAULT 'CURRENT_TIMESTAMP' NOT NULL,
+	FOREIGN KEY (`subscription_id`) REFERENCES `subscriptions`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+INSERT INTO `subscription_prices` (`subscription_id`, `amount`, `effective_date`)
+SELECT `s`.`id`, `s`.`amount`, COALESCE(
+	(SELECT MIN(`t`.`transaction_date`) FROM `transactions` AS `t` WHERE `t`.`recurring_id` = `s`.`id`),
+	`s`.`next_payment_date`
+)
+FROM `subscriptions` AS `s`;
@@ -0,0 +1,3 @@
+ALTER TABLE `installment_plans` ADD `payment_type` text DEFAULT 'installment' NOT NULL;--> statement-breakpoint
+ALTER TABLE `installment_plans` ADD `monthly_payment` integer;--> statement-breakpoint
+ALTER TABLE `installment_plans` ADD `interest_rate` real;
\ No newline at end of file
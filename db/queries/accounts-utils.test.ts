@@ -0,0 +1,216 @@
+import { describe, expect, it } from "vitest";
+import {
+	buildRunningBalances,
+	calculateAccountBalance,
+	getAccountBalanceChange,
+	getCardSettingsValidationError,
+	inferAccountType,
+	planPaymentMethodMigration,
+} from "./accounts";
+
+/**
+ * 口座関連関数のユニットテスト
+ *
+ * データベースに依存しない残高計算（振替を含む）・請求設定の検証・口座種別の推定・移行計画の作成のテスト
+ */
+
+describe("accounts utils", () => {
+	describe("calculateAccountBalance", () => {
+		it("正常ケース: 開始残高に収入を加え支出を差し引く", () => {
+			// 検証
+			expect(calculateAccountBalance(100000, 250000, 180000)).toBe(170000);
+		});
+
+		it("境界値ケース: クレジットカードは支出のみで負の残高になる", () => {
+			// 検証
+			expect(calculateAccountBalance(0, 0, 32000)).toBe(-32000);
+		});
+
+		it("正常ケース: 振替の入金を加え、出金（手数料込み）を差し引く", () => {
+			// 検証
+			expect(calculateAccountBalance(-32000, 0, 0, 32000, 0)).toBe(0);
+			expect(calculateAccountBalance(100000, 0, 0, 0, 32110)).toBe(67890);
+		});
+	});
+
+	describe("getAccountBalanceChange", () => {
+		const transfer = {
+			type: "transfer",
+			amount: 32000,
+			fee: 110,
+			accountId: 1,
+			transferAccountId: 2,
+		};
+
+		it("正常ケース: 振替元の口座は金額と手数料の分だけ減る", () => {
+			// 検証
+			expect(getAccountBalanceChange(1, transfer)).toBe(-32110);
+		});
+
+		it("正常ケース: 振替先の口座は金額の分だけ増える", () => {
+			// 検証
+			expect(getAccountBalanceChange(2, transfer)).toBe(32000);
+		});
+
+		it("正常ケース: 収入は増え、支出は減る", () => {
+			// 検証
+			expect(
+				getAccountBalanceChange(1, { ...transfer, type: "income", fee: 0 }),
+			).toBe(32000);
+			expect(
+				getAccountBalanceChange(1, { ...transfer, type: "expense", fee: 0 }),
+			).toBe(-32000);
+		});
+	});
+
+	describe("buildRunningBalances", () => {
+		it("正常ケース: 繰越残高から取引ごとの残高を累積する", () => {
+			// 実行
+			const entries = buildRunningBalances(1, 10000, [
+				{
+					id: 1,
+					transactionDate: "2025-01-05",
+					type: "expense",
+					amount: 3000,
+					fee: 0,
+					accountId: 1,
+					transferAccountId: null,
+					description: null,
+					categoryName: "食費",
+				},
+				{
+					id: 2,
+					transactionDate: "2025-01-25",
+					type: "income",
+					amount: 200000,
+					fee: 0,
+					accountId: 1,
+					transferAccountId: null,
+					description: "給与",
+					categoryName: "給与",
+				},
+				{
+					id: 3,
+					transactionDate: "2025-01-27",
+					type: "transfer",
+					amount: 50000,
+					fee: 110,
+					accountId: 1,
+					transferAccountId: 2,
+					description: "カード引き落とし",
+					categoryName: null,
+				},
+			]);
+
+			// 検証
+			expect(entries.map((entry) => entry.change)).toEqual([
+				-3000, 200000, -50110,
+			]);
+			expect(entries.map((entry) => entry.balance)).toEqual([
+				7000, 207000, 156890,
+			]);
+		});
+
+		it("境界値ケース: 取引がない場合は空の明細を返す", () => {
+			// 検証
+			expect(buildRunningBalances(1, 5000, [])).toEqual([]);
+		});
+	});
+
+	describe("getCardSettingsValidationError", () => {
+		it("正常ケース: クレジットカードは締め日・支払日・引き落とし口座を指定できる", () => {
+			// 検証
+			expect(
+				getCardSettingsValidationError({
+					id: 2,
+					type: "credit_card",
+					closingDay: 15,
+					paymentDay: 10,
+					paymentAccountId: 1,
+				}),
+			).toBeNull();
+		});
+
+		it("異常ケース: カード以外の口座には請求設定を指定できない", () => {
+			// 検証
+			expect(
+				getCardSettingsValidationError({ type: "bank", closingDay: 15 }),
+			).toBe(
+				"締め日・支払日・引き落とし口座はクレジットカードの場合のみ指定できます",
+			);
+		});
+
+		it("異常ケース: 引き落とし口座にカード自身は指定できない", () => {
+			// 検証
+			expect(
+				getCardSettingsValidationError({
+					id: 2,
+					type: "credit_card",
+					paymentAccountId: 2,
+				}),
+			).toBe("引き落とし口座にカード自身は指定できません");
+		});
+	});
+
+	describe("inferAccountType", () => {
+		it("正常ケース: 支払い方法の文字列から口座種別を推定", () => {
+			// 検証
+			expect(inferAccountType("cash")).toBe("cash");
+			expect(inferAccountType("楽天カード")).toBe("credit_card");
+			expect(inferAccountType("Suica")).toBe("e_money");
+			expect(inferAccountType("SBI証券")).toBe("securities");
+			expect(inferAccountType("bank_transfer")).toBe("bank");
+		});
+
+		it("正常ケース: デビットカードはカードではなく銀行口座とする", () => {
+			// 検証
+			expect(inferAccountType("デビットカード")).toBe("bank");
+			expect(inferAccountType("debit")).toBe("bank");
+		});
+
+		it("境界値ケース: 判定できない場合は銀行口座とする", () => {
+			// 検証
+			expect(inferAccountType("other")).toBe("bank");
+		});
+	});
+
+	describe("planPaymentMethodMigration", () => {
+		it("正常ケース: 既定の支払い方法は日本語の口座名に変換して新規作成する", () => {
+			// 実行
+			const plan = planPaymentMethodMigration(
+				[{ paymentMethod: "credit", transactionCount: 12 }],
+				[],
+			);
+
+			// 検証
+			expect(plan).toEqual([
+				{
+					paymentMethod: "credit",
+					transactionCount: 12,
+					accountName: "クレジットカード",
+					accountType: "credit_card",
+					accountId: null,
+				},
+			]);
+		});
+
+		it("正常ケース: 同名の既存口座があれば再利用する", () => {
+			// 実行
+			const plan = planPaymentMethodMigration(
+				[
+					{ paymentMethod: "cash", transactionCount: 4 },
+					{ paymentMethod: "楽天カード", transactionCount: 2 },
+				],
+				[{ id: 7, name: "現金", type: "cash" }],
+			);
+
+			// 検証
+			expect(plan[0]).toMatchObject({ accountName: "現金", accountId: 7 });
+			expect(plan[1]).toMatchObject({
+				accountName: "楽天カード",
+				accountType: "credit_card",
+				accountId: null,
+			});
+		});
+	});
+});
@@ -0,0 +1,514 @@
+import { and, asc, eq, gte, isNull, lt, lte, or, sql } from "drizzle-orm";
+import type { Database } from "../connection";
+import {
+	type AccountType,
+	type InsertAccount,
+	type SelectAccount,
+	accounts,
+	categories,
+	transactions,
+} from "../schema";
+
+/**
+ * 口座（銀行・現金・クレジットカード・電子マネー・証券）関連のデータベースクエリ関数
+ *
+ * 設計方針:
+ * - 残高はテーブルに保持せず、開始残高 + 収入 - 支出 + 振替入金 - 振替出金を取引から都度集計する
+ *   （取引の編集・削除で残高がずれないようにするため）
+ * - 振替の手数料は振替元の口座から差し引く（振替出金に含める）
+ * - クレジットカードも同じ計算式とし、負の残高を未払い額として扱う
+ *   締め日・支払日・引き落とし口座はクレジットカードの場合のみ設定できる（請求の処理は card-statements.ts）
+ * - 取引から参照されるため、削除は論理削除（isActive）とする
+ * - 自由入力の支払い方法（paymentMethod）は、同名の口座へ紐付け直す移行処理を用意する
+ *   口座種別の推定・移行計画の作成は純粋関数で行う（テスト容易性のため）
+ */
+
+export interface AccountWithBalance extends SelectAccount {
+	income: number;
+	expense: number;
+	transferIn: number; // 他の口座からの振替の合計
+	transferOut: number; // 他の口座への振替の合計（手数料を含む）
+	balance: number;
+	transactionCount: number;
+}
+
+export interface AccountLedgerRow {
+	id: number;
+	transactionDate: string;
+	type: string;
+	amount: number;
+	fee: number;
+	accountId: number | null;
+	transferAccountId: number | null;
+	description: string | null;
+	categoryName: string | null;
+}
+
+export interface AccountLedgerEntry extends AccountLedgerRow {
+	change: number; // この口座の残高の増減
+	balance: number; // この取引を反映した後の残高
+}
+
+export interface PaymentMethodUsage {
+	paymentMethod: string;
+	transactionCount: number;
+}
+
+export interface PaymentMethodMigrationPlanItem extends PaymentMethodUsage {
+	accountName: string;
+	accountType: AccountType;
+	accountId: number | null; // 既存の口座に紐付ける場合のID（新規作成する場合はnull）
+}
+
+// 支払い方法の文字列から口座種別を推定するためのキーワード（上から順に判定）
+const ACCOUNT_TYPE_KEYWORDS: { type: AccountType; pattern: RegExp }[] = [
+	{ type: "securities", pattern: /証券|securities/i },
+	{
+		type: "e_money",
+		pattern:
+			/電子マネー|electronic_money|e_money|suica|pasmo|icoca|nanaco|waon|edy|quicpay|paypay|ペイペイ|楽天ペイ|line ?pay|au ?pay|merpay|メルペイ|d払い/i,
+	},
+	{
+		type: "credit_card",
+		pattern: /クレジット|カード|credit|card|visa|jcb|master|amex/i,
+	},
+	{ type: "cash", pattern: /現金|cash/i },
+	{ type: "bank", pattern: /銀行|振込|振替|引落|口座|bank|debit|デビット/i },
+];
+
+// 既定の支払い方法の選択肢（取引フォームの値）に対応する口座名
+const PAYMENT_METHOD_ACCOUNT_NAMES: Record<string, string> = {
+	cash: "現金",
+	credit: "クレジットカード",
+	debit: "デビットカード",
+	bank_transfer: "銀行口座",
+	electronic_money: "電子マネー",
+	other: "その他",
+};
+
+/**
+ * 開始残高と収入・支出・振替の合計から残高を計算
+ */
+export function calculateAccountBalance(
+	openingBalance: number,
+	income: number,
+	expense: number,
+	transferIn = 0,
+	transferOut = 0,
+): number {
+	return openingBalance + income - expense + transferIn - transferOut;
+}
+
+/**
+ * 取引による口座残高の増減を計算
+ * 振替は振替元なら金額と手数料の分だけ減り、振替先なら金額の分だけ増える
+ */
+export function getAccountBalanceChange(
+	accountId: number,
+	row: Pick<
+		AccountLedgerRow,
+		"type" | "amount" | "fee" | "accountId" | "transferAccountId"
+	>,
+): number {
+	if (row.type === "income") return row.amount;
+	if (row.type === "transfer") {
+		return row.accountId === accountId ? -(row.amount + row.fee) : row.amount;
+	}
+	return -row.amount;
+}
+
+/**
+ * 取引を日付順に並べた明細に、取引ごとの残高を付与
+ *
+ * @param accountId - 明細の対象口座（振替の向きの判定に使用）
+ * @param carriedBalance - 明細の先頭の取引より前の残高
+ * @param rows - 取引日・ID順に並んだ取引
+ */
+export function buildRunningBalances(
+	accountId: number,
+	carriedBalance: number,
+	rows: AccountLedgerRow[],
+): AccountLedgerEntry[] {
+	let balance = carriedBalance;
+	return rows.map((row) => {
+		const change = getAccountBalanceChange(accountId, row);
+		balance += change;
+		return { ...row, change, balance };
+	});
+}
+
+/**
+ * クレジットカードの請求設定の整合性を検証し、不正な場合はエラーメッセージを返す
+ * 作成時は入力値、更新時は既存の値に更新内容を重ねた値を渡す
+ */
+export function getCardSettingsValidationError(account: {
+	id?: number;
+	type: string;
+	closingDay?: number | null;
+	paymentDay?: number | null;
+	paymentAccountId?: number | null;
+}): string | null {
+	if (account.type !== "credit_card") {
+		if (account.closingDay || account.paymentDay || account.paymentAccountId) {
+			return "締め日・支払日・引き落とし口座はクレジットカードの場合のみ指定できます";
+		}
+		return null;
+	}
+
+	if (account.id !== undefined && account.paymentAccountId === account.id) {
+		return "引き落とし口座にカード自身は指定できません";
+	}
+	return null;
+}
+
+/**
+ * 支払い方法の文字列から口座種別を推定（判定できない場合は銀行口座とする）
+ */
+export function inferAccountType(paymentMethod: string): AccountType {
+	// デビットカードは銀行口座から即時に引き落とされるためカードより先に判定
+	if (/debit|デビット/i.test(paymentMethod)) return "bank";
+
+	const matched = ACCOUNT_TYPE_KEYWORDS.find(({ pattern }) =>
+		pattern.test(paymentMethod),
+	);
+	return matched?.type ?? "bank";
+}
+
+/**
+ * 支払い方法ごとの移行計画を作成
+ * 口座名が一致する既存口座（同名の口座）があれば再利用し、なければ新規作成する
+ *
+ * @param usages - 口座未設定の取引で使われている支払い方法と件数
+ * @param existingAccounts - 既存の有効な口座
+ */
+export function planPaymentMethodMigration(
+	usages: PaymentMethodUsage[],
+	existingAccounts: Pick<SelectAccount, "id" | "name" | "type">[],
+): PaymentMethodMigrationPlanItem[] {
+	const accountsByName = new Map(
+		existingAccounts.map((account) => [account.name, account]),
+	);
+
+	return usages.map((usage) => {
+		const accountName =
+			PAYMENT_METHOD_ACCOUNT_NAMES[usage.paymentMethod] ?? usage.paymentMethod;
+		const existing = accountsByName.get(accountName);
+
+		return {
+			...usage,
+			accountName,
+			accountType: existing
+				? (existing.type as AccountType)
+				: inferAccountType(usage.paymentMethod),
+			accountId: existing?.id ?? null,
+		};
+	});
+}
+
+/**
+ * 有効な口座一覧を取得（displayOrder順）
+ */
+export async function getAccounts(db: Database) {
+	return await db
+		.select()
+		.from(accounts)
+		.where(eq(accounts.isActive, true))
+		.orderBy(asc(accounts.displayOrder), asc(accounts.id));
+}
+
+/**
+ * IDで口座を取得（有効なもののみ）
+ */
+export async function getAccountById(db: Database, id: number) {
+	const [account] = await db
+		.select()
+		.from(accounts)
+		.where(and(eq(accounts.id, id), eq(accounts.isActive, true)))
+		.limit(1);
+
+	return account;
+}
+
+/**
+ * 新しい口座を作成
+ * displayOrderが指定されていない場合、既存の最大値+1を設定
+ */
+export async function createAccount(db: Database, data: InsertAccount) {
+	let displayOrder = data.displayOrder;
+	if (displayOrder === undefined) {
+		const [maxOrder] = (await (db as any)
+			.select({
+				maxOrder: sql<number>`COALESCE(MAX(${accounts.displayOrder}), 0)`,
+			})
+			.from(accounts)
+			.where(eq(accounts.isActive, true))) as any;
+
+		displayOrder = ((maxOrder as any).maxOrder || 0) + 1;
+	}
+
+	const [created] = await db
+		.insert(accounts)
+		.values({ ...data, displayOrder })
+		.returning();
+
+	return created;
+}
+
+/**
+ * 口座を更新
+ */
+export async function updateAccount(
+	db: Database,
+	id: number,
+	data: Partial<InsertAccount>,
+) {
+	const [updated] = await db
+		.update(accounts)
+		.set({
+			...data,
+			updatedAt: new Date().toISOString(),
+		})
+		.where(eq(accounts.id, id))
+		.returning();
+
+	return updated;
+}
+
+/**
+ * 口座を論理削除（isActiveをfalseに設定）
+ * 紐付いている取引の口座は変更しない
+ */
+export async function deleteAccount(db: Database, id: number) {
+	const [deleted] = await db
+		.update(accounts)
+		.set({
+			isActive: false,
+			updatedAt: new Date().toISOString(),
+		})
+		.where(eq(accounts.id, id))
+		.returning();
+
+	return deleted;
+}
+
+/**
+ * 有効な口座一覧を残高付きで取得
+ */
+export async function getAccountBalances(
+	db: Database,
+): Promise<AccountWithBalance[]> {
+	const [accountRows, totals, transferInTotals] = await Promise.all([
+		getAccounts(db),
+		(db as any)
+			.select({
+				accountId: transactions.accountId,
+				income: sql<number>`COALESCE(SUM(CASE WHEN ${transactions.type} = 'income' THEN ${transactions.amount} ELSE 0 END), 0)`,
+				expense: sql<number>`COALESCE(SUM(CASE WHEN ${transactions.type} = 'expense' THEN ${transactions.amount} ELSE 0 END), 0)`,
+				transferOut: sql<number>`COALESCE(SUM(CASE WHEN ${transactions.type} = 'transfer' THEN ${transactions.amount} + ${transactions.fee} ELSE 0 END), 0)`,
+				transactionCount: sql<number>`COUNT(*)`,
+			})
+			.from(transactions)
+			.groupBy(transactions.accountId) as Promise<
+			{
+				accountId: number | null;
+				income: number;
+				expense: number;
+				transferOut: number;
+				transactionCount: number;
+			}[]
+		>,
+		// 振替先として受け取った金額は振替先の口座ごとに集計
+		(db as any)
+			.select({
+				accountId: transactions.transferAccountId,
+				transferIn: sql<number>`COALESCE(SUM(${transactions.amount}), 0)`,
+				transactionCount: sql<number>`COUNT(*)`,
+			})
+			.from(transactions)
+			.where(eq(transactions.type, "transfer"))
+			.groupBy(transactions.transferAccountId) as Promise<
+			{
+				accountId: number | null;
+				transferIn: number;
+				transactionCount: number;
+			}[]
+		>,
+	]);
+
+	const totalsByAccount = new Map(totals.map((row) => [row.accountId, row]));
+	const transferInByAccount = new Map(
+		transferInTotals.map((row) => [row.accountId, row]),
+	);
+
+	return accountRows.map((account) => {
+		const total = totalsByAccount.get(account.id);
+		const received = transferInByAccount.get(account.id);
+		const income = Number(total?.income ?? 0);
+		const expense = Number(total?.expense ?? 0);
+		const transferIn = Number(received?.transferIn ?? 0);
+		const transferOut = Number(total?.transferOut ?? 0);
+		return {
+			...account,
+			income,
+			expense,
+			transferIn,
+			transferOut,
+			balance: calculateAccountBalance(
+				account.openingBalance,
+				income,
+				expense,
+				transferIn,
+				transferOut,
+			),
+			transactionCount:
+				Number(total?.transactionCount ?? 0) +
+				Number(received?.transactionCount ?? 0),
+		};
+	});
+}
+
+/**
+ * 口座の入出金明細を取引ごとの残高付きで取得
+ * startDateを指定した場合は、それより前の取引を繰越残高として集計する
+ */
+export async function getAccountLedger(
+	db: Database,
+	account: Pick<SelectAccount, "id" | "openingBalance">,
+	options: { startDate?: string; endDate?: string } = {},
+): Promise<{ carriedBalance: number; entries: AccountLedgerEntry[] }> {
+	const { startDate, endDate } = options;
+
+	// 振替先として受け取った振替も明細に含める
+	const isAccountTransaction = or(
+		eq(transactions.accountId, account.id),
+		eq(transactions.transferAccountId, account.id),
+	);
+
+	let carriedBalance = account.openingBalance;
+	if (startDate) {
+		const [carried] = (await (db as any)
+			.select({
+				total: sql<number>`COALESCE(SUM(CASE
+					WHEN ${transactions.type} = 'income' THEN ${transactions.amount}
+					WHEN ${transactions.type} = 'transfer' AND ${transactions.accountId} = ${account.id} THEN -(${transactions.amount} + ${transactions.fee})
+					WHEN ${transactions.type} = 'transfer' THEN ${transactions.amount}
+					ELSE -${transactions.amount} END), 0)`,
+			})
+			.from(transactions)
+			.where(
+				and(isAccountTransaction, lt(transactions.transactionDate, startDate)),
+			)) as any;
+		carriedBalance += Number(carried?.total ?? 0);
+	}
+
+	const rows = await (db as any)
+		.select({
+			id: transactions.id,
+			transactionDate: transactions.transactionDate,
+			type: transactions.type,
+			amount: transactions.amount,
+			fee: transactions.fee,
+			accountId: transactions.accountId,
+			transferAccountId: transactions.transferAccountId,
+			description: transactions.description,
+			categoryName: categories.name,
+		})
+		.from(transactions)
+		.leftJoin(categories, eq(transactions.categoryId, categories.id))
+		.where(
+			and(
+				isAccountTransaction,
+				startDate ? gte(transactions.transactionDate, startDate) : undefined,
+				endDate ? lte(transactions.transactionDate, endDate) : undefined,
+			),
+		)
+		.orderBy(asc(transactions.transactionDate), asc(transactions.id));
+
+	return {
+		carriedBalance,
+		entries: buildRunningBalances(account.id, carriedBalance, rows),
+	};
+}
+
+/**
+ * 口座が未設定の取引で使われている支払い方法と件数を取得
+ */
+export async function getUnlinkedPaymentMethods(
+	db: Database,
+): Promise<PaymentMethodUsage[]> {
+	const paymentMethod = sql<string>`TRIM(${transactions.paymentMethod})`;
+	const rows = await (db as any)
+		.select({
+			paymentMethod,
+			transactionCount: sql<number>`COUNT(*)`,
+		})
+		.from(transactions)
+		.where(
+			and(
+				isNull(transactions.accountId),
+				sql`TRIM(COALESCE(${transactions.paymentMethod}, '')) <> ''`,
+			),
+		)
+		.groupBy(paymentMethod)
+		.orderBy(sql`COUNT(*) DESC`);
+
+	return rows.map((row: PaymentMethodUsage) => ({
+		...row,
+		transactionCount: Number(row.transactionCount),
+	}));
+}
+
+/**
+ * 支払い方法（paymentMethod）を口座に移行
+ * 計画に従って口座を作成し、口座未設定の取引を支払い方法ごとに紐付ける
+ * paymentMethodの値は残すため、移行後もCSVエクスポート等の表示は変わらない
+ *
+ * @param dryRun - trueの場合は計画のみ返し、書き込みは行わない
+ */
+export async function migratePaymentMethodsToAccounts(
+	db: Database,
+	dryRun = false,
+) {
+	const [usages, existingAccounts] = await Promise.all([
+		getUnlinkedPaymentMethods(db),
+		getAccounts(db),
+	]);
+	const plan = planPaymentMethodMigration(usages, existingAccounts);
+
+	if (dryRun) {
+		return { dryRun, createdAccounts: 0, linkedTransactions: 0, plan };
+	}
+
+	let createdAccounts = 0;
+	let linkedTransactions = 0;
+	// 同じ口座名に複数の支払い方法が対応する場合は最初に作成した口座を共有する
+	const createdIds = new Map<string, number>();
+
+	for (const item of plan) {
+		let accountId = item.accountId ?? createdIds.get(item.accountName);
+		if (accountId === undefined) {
+			const created = await createAccount(db, {
+				name: item.accountName,
+				type: item.accountType,
+			});
+			accountId = created.id;
+			createdIds.set(item.accountName, accountId);
+			createdAccounts++;
+		}
+		item.accountId = accountId;
+
+		const updated = await db
+			.update(transactions)
+			.set({ accountId })
+			.where(
+				and(
+					isNull(transactions.accountId),
+					sql`TRIM(${transactions.paymentMethod}) = ${item.paymentMethod}`,
+				),
+			)
+			.returning();
+		linkedTransactions += updated.length;
+	}
+
+	return { dryRun, createdAccounts, linkedTransactions, plan };
+}
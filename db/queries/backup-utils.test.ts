@@ -0,0 +1,407 @@
+import { describe, expect, it } from "vitest";
+import {
+	BACKUP_FORMAT_VERSION,
+	type BackupData,
+	backupDocumentSchema,
+	remapId,
+	validateBackupReferences,
+} from "./backup";
+
+/**
+ * バックアップ関数のユニットテスト
+ *
+ * データベースに依存しない検証・ID付け替え処理のテスト
+ */
+
+const createBackupData = (overrides: Partial<BackupData> = {}): BackupData => ({
+	categories: [{ id: 1, name: "娯楽費", type: "expense" }],
+	accounts: [{ id: 2, name: "楽天カード", type: "credit_card" }],
+	subscriptions: [
+		{
+			id: 5,
+			name: "Netflix",
+			amount: 1980,
+			categoryId: 1,
+			accountId: 2,
+			frequency: "monthly",
+			nextPaymentDate: "2025-07-01",
+		},
+	],
+	transactions: [
+		{
+			id: 10,
+			amount: 1980,
+			type: "expense",
+			categoryId: 1,
+			transactionDate: "2025-06-01",
+			isRecurring: true,
+			recurringId: 5,
+		},
+	],
+	budgets: [
+		{
+			id: 3,
+			categoryId: 1,
+			amount: 10000,
+			period: "monthly",
+			year: 2025,
+			month: 6,
+		},
+	],
+	cardStatements: [],
+	transactionSplits: [],
+	installmentPlans: [],
+	categorizationRules: [],
+	tags: [],
+	subscriptionPrices: [],
+	subscriptionSkippedPeriods: [],
+	subscriptionReminders: [],
+	notifications: [],
+	...overrides,
+});
+
+describe("backup utils", () => {
+	describe("backupDocumentSchema", () => {
+		it("正常ケース: エクスポート形式のドキュメントを受け付ける", () => {
+			// 実行
+			const result = backupDocumentSchema.safeParse({
+				version: BACKUP_FORMAT_VERSION,
+				exportedAt: "2025-06-30T00:00:00.000Z",
+				data: createBackupData(),
+			});
+
+			// 検証
+			expect(result.success).toBe(true);
+		});
+
+		it("異常ケース: 未対応のバージョンや制約違反の行はエラー", () => {
+			// 実行
+			const result = backupDocumentSchema.safeParse({
+				version: 99,
+				exportedAt: "2025-06-30T00:00:00.000Z",
+				data: createBackupData({
+					transactions: [
+						{
+							id: 10,
+							amount: -1,
+							type: "expense",
+							transactionDate: "2025-06-01",
+						},
+					],
+				}),
+			});
+
+			// 検証
+			expect(result.success).toBe(false);
+			const paths = result.error?.errors.map((issue) => issue.path.join("."));
+			expect(paths).toEqual(["version", "data.transactions.0.amount"]);
+		});
+
+		it("正常ケース: 口座を含まない以前のバックアップは口座なしとして受け付ける", () => {
+			const { accounts, ...data } = createBackupData();
+
+			// 実行
+			const result = backupDocumentSchema.safeParse({
+				version: BACKUP_FORMAT_VERSION,
+				exportedAt: "2025-06-30T00:00:00.000Z",
+				data: {
+					...data,
+					subscriptions: [{ ...data.subscriptions[0], accountId: null }],
+				},
+			});
+
+			// 検証
+			expect(result.success).toBe(true);
+			expect(result.data?.data.accounts).toEqual([]);
+		});
+
+		it("正常ケース: サブスクリプションの履歴・リマインダー・通知を含まない以前のバックアップも受け付ける", () => {
+			const {
+				subscriptionPrices,
+				subscriptionSkippedPeriods,
+				subscriptionReminders,
+				notifications,
+				...data
+			} = createBackupData();
+
+			// 実行
+			const result = backupDocumentSchema.safeParse({
+				version: BACKUP_FORMAT_VERSION,
+				exportedAt: "2025-06-30T00:00:00.000Z",
+				data,
+			});
+
+			// 検証
+			expect(result.success).toBe(true);
+			expect(result.data?.data).toMatchObject({
+				subscriptionPrices: [],
+				subscriptionSkippedPeriods: [],
+				subscriptionReminders: [],
+				notifications: [],
+			});
+		});
+	});
+
+	describe("validateBackupReferences", () => {
+		it("正常ケース: 参照先がすべてバックアップ内に存在する", () => {
+			// 実行
+			const errors = validateBackupReferences(createBackupData());
+
+			// 検証
+			expect(errors).toEqual([]);
+		});
+
+		it("異常ケース: 存在しないカテゴリ・サブスクリプションへの参照とIDの重複を検出", () => {
+			const data = createBackupData();
+
+			// 実行
+			const errors = validateBackupReferences({
+				...data,
+				categories: [...data.categories, { ...data.categories[0] }],
+				transactions: [
+					{ ...data.transactions[0], categoryId: 2, recurringId: 6 },
+				],
+			});
+
+			// 検証
+			expect(errors).toEqual([
+				"categoriesのIDが重複しています",
+				"transactions(id: 10)のcategoryId 2 に対応するカテゴリがありません",
+				"transactions(id: 10)のrecurringId 6 に対応するサブスクリプションがありません",
+			]);
+		});
+
+		it("異常ケース: 存在しない口座への参照を検出", () => {
+			// 実行
+			const errors = validateBackupReferences(
+				createBackupData({ accounts: [] }),
+			);
+
+			// 検証
+			expect(errors).toEqual([
+				"subscriptions(id: 5)のaccountId 2 に対応する口座がありません",
+			]);
+		});
+
+		it("異常ケース: 存在しない親カテゴリへの参照を検出", () => {
+			const data = createBackupData();
+
+			// 実行
+			const errors = validateBackupReferences({
+				...data,
+				categories: [
+					...data.categories,
+					{ id: 3, name: "映画", type: "expense", parentId: 1 },
+					{ id: 4, name: "ライブ", type: "expense", parentId: 8 },
+				],
+			});
+
+			// 検証
+			expect(errors).toEqual([
+				"categories(id: 4)のparentId 8 に対応するカテゴリがありません",
+			]);
+		});
+
+		it("異常ケース: 振替先の口座への参照も検出", () => {
+			const data = createBackupData();
+
+			// 実行
+			const errors = validateBackupReferences({
+				...data,
+				transactions: [
+					{
+						...data.transactions[0],
+						type: "transfer",
+						categoryId: null,
+						accountId: 2,
+						transferAccountId: 9,
+					},
+				],
+			});
+
+			// 検証
+			expect(errors).toEqual([
+				"transactions(id: 10)のtransferAccountId 9 に対応する口座がありません",
+			]);
+		});
+
+		it("異常ケース: カードの請求と取引の相互参照・引き落とし口座の参照を検出", () => {
+			const data = createBackupData();
+
+			// 実行
+			const errors = validateBackupReferences({
+				...data,
+				accounts: [{ ...data.accounts[0], paymentAccountId: 4 }],
+				transactions: [{ ...data.transactions[0], reconciledStatementId: 8 }],
+				cardStatements: [
+					{
+						id: 7,
+						accountId: 2,
+						closingDate: "2025-06-15",
+						paymentDate: "2025-07-10",
+						settlementTransactionId: 11,
+					},
+				],
+			});
+
+			// 検証
+			expect(errors).toEqual([
+				"accounts(id: 2)のpaymentAccountId 4 に対応する口座がありません",
+				"transactions(id: 10)のreconciledStatementId 8 に対応するカードの請求がありません",
+				"cardStatements(id: 7)のsettlementTransactionId 11 に対応する取引がありません",
+			]);
+		});
+
+		it("異常ケース: 取引の内訳が存在しない取引・カテゴリを参照している", () => {
+			// 実行
+			const errors = validateBackupReferences(
+				createBackupData({
+					transactionSplits: [
+						{ id: 20, transactionId: 10, categoryId: 1, amount: 500 },
+						{ id: 21, transactionId: 11, categoryId: 5, amount: 500 },
+					],
+				}),
+			);
+
+			// 検証
+			expect(errors).toEqual([
+				"transactionSplits(id: 21)のcategoryId 5 に対応するカテゴリがありません",
+				"transactionSplits(id: 21)のtransactionId 11 に対応する取引がありません",
+			]);
+		});
+
+		it("異常ケース: 分割払いが存在しないサブスクリプションを参照している", () => {
+			// 実行
+			const errors = validateBackupReferences(
+				createBackupData({
+					installmentPlans: [
+						{
+							id: 30,
+							subscriptionId: 9,
+							principalAmount: 120000,
+							paymentCount: 12,
+							firstPaymentDate: "2025-07-27",
+						},
+					],
+				}),
+			);
+
+			// 検証
+			expect(errors).toEqual([
+				"installmentPlans(id: 30)のsubscriptionId 9 に対応するサブスクリプションがありません",
+			]);
+		});
+
+		it("異常ケース: 価格履歴が存在しないサブスクリプションを参照している", () => {
+			// 実行
+			const errors = validateBackupReferences(
+				createBackupData({
+					subscriptionPrices: [
+						{
+							id: 40,
+							subscriptionId: 5,
+							amount: 1490,
+							effectiveDate: "2025-01-01",
+						},
+						{
+							id: 41,
+							subscriptionId: 9,
+							amount: 1980,
+							effectiveDate: "2025-06-01",
+						},
+					],
+				}),
+			);
+
+			// 検証
+			expect(errors).toEqual([
+				"subscriptionPrices(id: 41)のsubscriptionId 9 に対応するサブスクリプションがありません",
+			]);
+		});
+
+		it("異常ケース: スキップした期間が存在しないサブスクリプションを参照している", () => {
+			// 実行
+			const errors = validateBackupReferences(
+				createBackupData({
+					subscriptionSkippedPeriods: [
+						{ id: 50, subscriptionId: 9, periodDate: "2025-05-01" },
+					],
+				}),
+			);
+
+			// 検証
+			expect(errors).toEqual([
+				"subscriptionSkippedPeriods(id: 50)のsubscriptionId 9 に対応するサブスクリプションがありません",
+			]);
+		});
+
+		it("異常ケース: リマインダー・通知が存在しないサブスクリプションを参照している", () => {
+			// 実行
+			const errors = validateBackupReferences(
+				createBackupData({
+					subscriptionReminders: [
+						{ id: 60, subscriptionId: 9, type: "payment", daysBefore: 3 },
+					],
+					notifications: [
+						{
+							id: 70,
+							subscriptionId: 9,
+							type: "payment",
+							title: "Netflixの支払いが近づいています",
+							message: "2025/07/01（あと3日）に¥1,980の支払いがあります",
+							targetDate: "2025-07-01",
+						},
+					],
+				}),
+			);
+
+			// 検証
+			expect(errors).toEqual([
+				"subscriptionReminders(id: 60)のsubscriptionId 9 に対応するサブスクリプションがありません",
+				"notifications(id: 70)のsubscriptionId 9 に対応するサブスクリプションがありません",
+			]);
+		});
+
+		it("異常ケース: 自動分類ルールが存在しないカテゴリ・口座を参照している", () => {
+			// 実行
+			const errors = validateBackupReferences(
+				createBackupData({
+					categorizationRules: [
+						{
+							id: 40,
+							name: "コンビニ",
+							type: "expense",
+							descriptionPattern: "ローソン",
+							categoryId: 8,
+							accountId: 9,
+						},
+					],
+				}),
+			);
+
+			// 検証
+			expect(errors).toEqual([
+				"categorizationRules(id: 40)のcategoryId 8 に対応するカテゴリがありません",
+				"categorizationRules(id: 40)のaccountId 9 に対応する口座がありません",
+			]);
+		});
+	});
+
+	describe("remapId", () => {
+		it("旧IDを新IDに付け替え、nullはそのまま返す", () => {
+			const idMap = new Map([[1, 101]]);
+
+			// 検証
+			expect(remapId(idMap, 1)).toBe(101);
+			expect(remapId(idMap, null)).toBeNull();
+			expect(remapId(idMap, undefined)).toBeNull();
+		});
+
+		it("異常ケース: 対応表にないIDはエラー", () => {
+			// 検証
+			expect(() => remapId(new Map(), 1)).toThrow(
+				"ID 1 の付け替え先が見つかりません",
+			);
+		});
+	});
+});
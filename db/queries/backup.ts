@@ -0,0 +1,813 @@
+import { asc, eq } from "drizzle-orm";
+import { z } from "zod";
+import type { Database } from "../connection";
+import {
+	accounts,
+	budgets,
+	cardStatements,
+	categories,
+	categorizationRules,
+	insertAccountSchema,
+	insertBudgetSchema,
+	insertCardStatementSchema,
+	insertCategorizationRuleSchema,
+	insertCategorySchema,
+	insertInstallmentPlanSchema,
+	insertNotificationSchema,
+	insertSubscriptionPriceSchema,
+	insertSubscriptionReminderSchema,
+	insertSubscriptionSchema,
+	insertSubscriptionSkippedPeriodSchema,
+	insertTagSchema,
+	insertTransactionSchema,
+	insertTransactionSplitSchema,
+	installmentPlans,
+	notifications,
+	subscriptionPrices,
+	subscriptionReminders,
+	subscriptionSkippedPeriods,
+	subscriptions,
+	tags,
+	transactionSplits,
+	transactionTags,
+	transactions,
+} from "../schema";
+import { createTransactionSplitsBatch } from "./transaction-splits";
+import { createTransaction, createTransactionsBatch } from "./transactions";
+
+/**
+ * データのバックアップ（エクスポート・リストア）関連のクエリ関数
+ *
+ * 設計方針:
+ * - 全テーブルを1つのJSONドキュメントにまとめ、形式のバージョンを付与する
+ * - 各行は db/schema のinsertスキーマ + idで検証し、API経由の登録と同じ制約を課す
+ * - リストア時のIDは常に新規採番し、categoryId・accountId・transferAccountId・recurringIdは対応表で付け替える
+ *   親カテゴリ・口座の引き落とし口座・カードの請求と取引の相互参照は、全行の作成後に付け替える
+ * - 口座・カードの請求・取引の内訳・分割払い・自動分類ルール・タグ・サブスクリプションの価格履歴・スキップした期間・
+ *   リマインダー・通知は後から追加したテーブルのため、含まない以前のバックアップも受け付ける
+ * - 取引とタグの対応表（transaction_tags）は取引のtagsから復元できるため含めず、取引の作成時に作り直す
+ * - 書き込み前にドキュメント内の参照整合性を検証し、途中で失敗する可能性を減らす
+ *   （D1は対話的トランザクションを持たないため、リストア全体は原子的ではない）
+ * - replaceは既存データを全削除してから復元、mergeは既存データを残して追記する
+ */
+
+// バックアップ形式のバージョン（互換性のない変更を行った場合に更新する）
+export const BACKUP_FORMAT_VERSION = 1;
+
+export type BackupRestoreMode = "replace" | "merge";
+
+// 予算の一括作成時の1クエリあたりの行数（全8カラム × 12行 = 96 < 100）
+const BUDGET_BATCH_INSERT_SIZE = 12;
+
+// バックアップ内の各行はエクスポート元のIDを必須とする
+const backupIdSchema = z.number().int().positive();
+
+export const backupDocumentSchema = z.object({
+	version: z.literal(BACKUP_FORMAT_VERSION, {
+		errorMap: () => ({
+			message: `サポートしているバックアップ形式のバージョンは${BACKUP_FORMAT_VERSION}のみです`,
+		}),
+	}),
+	exportedAt: z.string(),
+	data: z.object({
+		categories: z.array(insertCategorySchema.extend({ id: backupIdSchema })),
+		accounts: z
+			.array(insertAccountSchema.extend({ id: backupIdSchema }))
+			.default([]),
+		transactions: z.array(
+			insertTransactionSchema.extend({ id: backupIdSchema }),
+		),
+		subscriptions: z.array(
+			insertSubscriptionSchema.extend({ id: backupIdSchema }),
+		),
+		budgets: z.array(insertBudgetSchema.extend({ id: backupIdSchema })),
+		cardStatements: z
+			.array(insertCardStatementSchema.extend({ id: backupIdSchema }))
+			.default([]),
+		transactionSplits: z
+			.array(insertTransactionSplitSchema.extend({ id: backupIdSchema }))
+			.default([]),
+		installmentPlans: z
+			.array(insertInstallmentPlanSchema.extend({ id: backupIdSchema }))
+			.default([]),
+		categorizationRules: z
+			.array(insertCategorizationRuleSchema.extend({ id: backupIdSchema }))
+			.default([]),
+		tags: z.array(insertTagSchema.extend({ id: backupIdSchema })).default([]),
+		subscriptionPrices: z
+			.array(insertSubscriptionPriceSchema.extend({ id: backupIdSchema }))
+			.default([]),
+		subscriptionSkippedPeriods: z
+			.array(
+				insertSubscriptionSkippedPeriodSchema.extend({ id: backupIdSchema }),
+			)
+			.default([]),
+		subscriptionReminders: z
+			.array(insertSubscriptionReminderSchema.extend({ id: backupIdSchema }))
+			.default([]),
+		notifications: z
+			.array(insertNotificationSchema.extend({ id: backupIdSchema }))
+			.default([]),
+	}),
+});
+
+export type BackupDocument = z.infer<typeof backupDocumentSchema>;
+export type BackupData = BackupDocument["data"];
+
+export interface BackupRestoreResult {
+	mode: BackupRestoreMode;
+	categories: number;
+	accounts: number;
+	transactions: number;
+	subscriptions: number;
+	budgets: number;
+	cardStatements: number;
+	transactionSplits: number;
+	installmentPlans: number;
+	categorizationRules: number;
+	tags: number;
+	subscriptionPrices: number;
+	subscriptionSkippedPeriods: number;
+	subscriptionReminders: number;
+	notifications: number;
+	// mergeモードで既存データと一致したため新規作成しなかった件数
+	reusedCategories: number;
+	reusedAccounts: number;
+	skippedBudgets: number;
+}
+
+/**
+ * 全データをバックアップ用のドキュメントとして取得
+ */
+export async function exportBackup(
+	db: Database,
+	exportedAt: Date = new Date(),
+): Promise<BackupDocument> {
+	const [
+		categoryRows,
+		accountRows,
+		transactionRows,
+		subscriptionRows,
+		budgetRows,
+		cardStatementRows,
+		transactionSplitRows,
+		installmentPlanRows,
+		categorizationRuleRows,
+		tagRows,
+		subscriptionPriceRows,
+		subscriptionSkippedPeriodRows,
+		subscriptionReminderRows,
+		notificationRows,
+	] = await Promise.all([
+		(db as any).select().from(categories).orderBy(asc(categories.id)),
+		(db as any).select().from(accounts).orderBy(asc(accounts.id)),
+		(db as any).select().from(transactions).orderBy(asc(transactions.id)),
+		(db as any).select().from(subscriptions).orderBy(asc(subscriptions.id)),
+		(db as any).select().from(budgets).orderBy(asc(budgets.id)),
+		(db as any).select().from(cardStatements).orderBy(asc(cardStatements.id)),
+		(db as any)
+			.select()
+			.from(transactionSplits)
+			.orderBy(asc(transactionSplits.id)),
+		(db as any)
+			.select()
+			.from(installmentPlans)
+			.orderBy(asc(installmentPlans.id)),
+		(db as any)
+			.select()
+			.from(categorizationRules)
+			.orderBy(asc(categorizationRules.id)),
+		(db as any).select().from(tags).orderBy(asc(tags.id)),
+		(db as any)
+			.select()
+			.from(subscriptionPrices)
+			.orderBy(asc(subscriptionPrices.id)),
+		(db as any)
+			.select()
+			.from(subscriptionSkippedPeriods)
+			.orderBy(asc(subscriptionSkippedPeriods.id)),
+		(db as any)
+			.select()
+			.from(subscriptionReminders)
+			.orderBy(asc(subscriptionReminders.id)),
+		(db as any).select().from(notifications).orderBy(asc(notifications.id)),
+	]);
+
+	return {
+		version: BACKUP_FORMAT_VERSION,
+		exportedAt: exportedAt.toISOString(),
+		data: {
+			categories: categoryRows,
+			accounts: accountRows,
+			transactions: transactionRows,
+			subscriptions: subscriptionRows,
+			budgets: budgetRows,
+			cardStatements: cardStatementRows,
+			transactionSplits: transactionSplitRows,
+			installmentPlans: installmentPlanRows,
+			categorizationRules: categorizationRuleRows,
+			tags: tagRows,
+			subscriptionPrices: subscriptionPriceRows,
+			subscriptionSkippedPeriods: subscriptionSkippedPeriodRows,
+			subscriptionReminders: subscriptionReminderRows,
+			notifications: notificationRows,
+		},
+	};
+}
+
+/**
+ * バックアップ内の参照整合性を検証
+ * categoryId・accountId・transferAccountId・recurringIdなどがバックアップ内に存在しないIDを指している場合にエラーとする
+ *
+ * @returns エラーメッセージの配列（問題がなければ空配列）
+ */
+export function validateBackupReferences(data: BackupData): string[] {
+	const errors: string[] = [];
+	const categoryIds = new Set(data.categories.map((category) => category.id));
+	const accountIds = new Set(data.accounts.map((account) => account.id));
+	const subscriptionIds = new Set(
+		data.subscriptions.map((subscription) => subscription.id),
+	);
+	const transactionIds = new Set(
+		data.transactions.map((transaction) => transaction.id),
+	);
+	const cardStatementIds = new Set(
+		data.cardStatements.map((statement) => statement.id),
+	);
+
+	const checkUnique = (table: string, ids: number[]) => {
+		if (new Set(ids).size !== ids.length) {
+			errors.push(`${table}のIDが重複しています`);
+		}
+	};
+	checkUnique(
+		"categories",
+		data.categories.map((category) => category.id),
+	);
+	checkUnique(
+		"accounts",
+		data.accounts.map((account) => account.id),
+	);
+	checkUnique(
+		"transactions",
+		data.transactions.map((transaction) => transaction.id),
+	);
+	checkUnique(
+		"subscriptions",
+		data.subscriptions.map((subscription) => subscription.id),
+	);
+	checkUnique(
+		"budgets",
+		data.budgets.map((budget) => budget.id),
+	);
+	checkUnique(
+		"cardStatements",
+		data.cardStatements.map((statement) => statement.id),
+	);
+	checkUnique(
+		"transactionSplits",
+		data.transactionSplits.map((split) => split.id),
+	);
+	checkUnique(
+		"installmentPlans",
+		data.installmentPlans.map((plan) => plan.id),
+	);
+	checkUnique(
+		"categorizationRules",
+		data.categorizationRules.map((rule) => rule.id),
+	);
+	checkUnique(
+		"tags",
+		data.tags.map((tag) => tag.id),
+	);
+	checkUnique(
+		"subscriptionPrices",
+		data.subscriptionPrices.map((price) => price.id),
+	);
+	checkUnique(
+		"subscriptionSkippedPeriods",
+		data.subscriptionSkippedPeriods.map((period) => period.id),
+	);
+	checkUnique(
+		"subscriptionReminders",
+		data.subscriptionReminders.map((reminder) => reminder.id),
+	);
+	checkUnique(
+		"notifications",
+		data.notifications.map((notification) => notification.id),
+	);
+
+	const checkCategory = (
+		table: string,
+		id: number,
+		categoryId: number | null | undefined,
+	) => {
+		if (categoryId != null && !categoryIds.has(categoryId)) {
+			errors.push(
+				`${table}(id: ${id})のcategoryId ${categoryId} に対応するカテゴリがありません`,
+			);
+		}
+	};
+
+	const checkAccount = (
+		table: string,
+		id: number,
+		accountId: number | null | undefined,
+		field = "accountId",
+	) => {
+		if (accountId != null && !accountIds.has(accountId)) {
+			errors.push(
+				`${table}(id: ${id})の${field} ${accountId} に対応する口座がありません`,
+			);
+		}
+	};
+
+	for (const category of data.categories) {
+		if (category.parentId != null && !categoryIds.has(category.parentId)) {
+			errors.push(
+				`categories(id: ${category.id})のparentId ${category.parentId} に対応するカテゴリがありません`,
+			);
+		}
+	}
+
+	for (const account of data.accounts) {
+		checkAccount(
+			"accounts",
+			account.id,
+			account.paymentAccountId,
+			"paymentAccountId",
+		);
+	}
+	for (const transaction of data.transactions) {
+		checkCategory("transactions", transaction.id, transaction.categoryId);
+		checkAccount("transactions", transaction.id, transaction.accountId);
+		checkAccount(
+			"transactions",
+			transaction.id,
+			transaction.transferAccountId,
+			"transferAccountId",
+		);
+		if (
+			transaction.recurringId != null &&
+			!subscriptionIds.has(transaction.recurringId)
+		) {
+			errors.push(
+				`transactions(id: ${transaction.id})のrecurringId ${transaction.recurringId} に対応するサブスクリプションがありません`,
+			);
+		}
+		if (
+			transaction.reconciledStatementId != null &&
+			!cardStatementIds.has(transaction.reconciledStatementId)
+		) {
+			errors.push(
+				`transactions(id: ${transaction.id})のreconciledStatementId ${transaction.reconciledStatementId} に対応するカードの請求がありません`,
+			);
+		}
+	}
+	for (const subscription of data.subscriptions) {
+		checkCategory("subscriptions", subscription.id, subscription.categoryId);
+		checkAccount("subscriptions", subscription.id, subscription.accountId);
+	}
+	for (const budget of data.budgets) {
+		checkCategory("budgets", budget.id, budget.categoryId);
+	}
+	for (const statement of data.cardStatements) {
+		checkAccount("cardStatements", statement.id, statement.accountId);
+		if (
+			statement.settlementTransactionId != null &&
+			!transactionIds.has(statement.settlementTransactionId)
+		) {
+			errors.push(
+				`cardStatements(id: ${statement.id})のsettlementTransactionId ${statement.settlementTransactionId} に対応する取引がありません`,
+			);
+		}
+	}
+	for (const split of data.transactionSplits) {
+		checkCategory("transactionSplits", split.id, split.categoryId);
+		if (!transactionIds.has(split.transactionId)) {
+			errors.push(
+				`transactionSplits(id: ${split.id})のtransactionId ${split.transactionId} に対応する取引がありません`,
+			);
+		}
+	}
+	for (const plan of data.installmentPlans) {
+		if (!subscriptionIds.has(plan.subscriptionId)) {
+			errors.push(
+				`installmentPlans(id: ${plan.id})のsubscriptionId ${plan.subscriptionId} に対応するサブスクリプションがありません`,
+			);
+		}
+	}
+	for (const rule of data.categorizationRules) {
+		checkCategory("categorizationRules", rule.id, rule.categoryId);
+		checkAccount("categorizationRules", rule.id, rule.accountId);
+	}
+	for (const price of data.subscriptionPrices) {
+		if (!subscriptionIds.has(price.subscriptionId)) {
+			errors.push(
+				`subscriptionPrices(id: ${price.id})のsubscriptionId ${price.subscriptionId} に対応するサブスクリプションがありません`,
+			);
+		}
+	}
+	for (const period of data.subscriptionSkippedPeriods) {
+		if (!subscriptionIds.has(period.subscriptionId)) {
+			errors.push(
+				`subscriptionSkippedPeriods(id: ${period.id})のsubscriptionId ${period.subscriptionId} に対応するサブスクリプションがありません`,
+			);
+		}
+	}
+	for (const reminder of data.subscriptionReminders) {
+		if (!subscriptionIds.has(reminder.subscriptionId)) {
+			errors.push(
+				`subscriptionReminders(id: ${reminder.id})のsubscriptionId ${reminder.subscriptionId} に対応するサブスクリプションがありません`,
+			);
+		}
+	}
+	for (const notification of data.notifications) {
+		if (!subscriptionIds.has(notification.subscriptionId)) {
+			errors.push(
+				`notifications(id: ${notification.id})のsubscriptionId ${notification.subscriptionId} に対応するサブスクリプションがありません`,
+			);
+		}
+	}
+
+	return errors;
+}
+
+/**
+ * 旧IDを対応表で新IDに付け替える（null・未指定はnullのまま）
+ */
+export function remapId(
+	idMap: Map<number, number>,
+	id: number | null | undefined,
+): number | null {
+	if (id == null) return null;
+	const mapped = idMap.get(id);
+	if (mapped === undefined) {
+		throw new Error(`ID ${id} の付け替え先が見つかりません`);
+	}
+	return mapped;
+}
+
+// mergeモードで同一とみなすキー
+const categoryKey = (category: { name: string; type: string }) =>
+	`${category.type}\u0000${category.name}`;
+const accountKey = categoryKey;
+const cardStatementKey = (statement: {
+	accountId: number;
+	closingDate: string;
+}) => `${statement.accountId}\u0000${statement.closingDate}`;
+const budgetKey = (budget: {
+	categoryId?: number | null;
+	period: string;
+	year: number;
+	month?: number | null;
+}) =>
+	[
+		budget.categoryId ?? "",
+		budget.period,
+		budget.year,
+		budget.month ?? "",
+	].join("\u0000");
+
+/**
+ * 全データを削除（外部キーの参照元から順に削除）
+ */
+async function deleteAllData(db: Database) {
+	await (db as any).delete(categorizationRules);
+	await (db as any).delete(budgets);
+	// カードの請求と取引は相互に参照するため、参照を外してから削除する
+	await (db as any).update(transactions).set({ reconciledStatementId: null });
+	await (db as any).delete(cardStatements);
+	await (db as any).delete(transactionSplits);
+	await (db as any).delete(transactionTags);
+	await (db as any).delete(transactions);
+	await (db as any).delete(installmentPlans);
+	await (db as any).delete(subscriptionPrices);
+	await (db as any).delete(subscriptionSkippedPeriods);
+	await (db as any).delete(subscriptionReminders);
+	await (db as any).delete(notifications);
+	await (db as any).delete(subscriptions);
+	await (db as any).delete(accounts);
+	await (db as any).delete(categories);
+	await (db as any).delete(tags);
+}
+
+/**
+ * バックアップからデータを復元
+ * 呼び出し前に backupDocumentSchema と validateBackupReferences で検証しておくこと
+ *
+ * - replace: 既存データを全削除してから全件を復元
+ * - merge: 既存データを残して追記する。同名・同種別のカテゴリ・口座は既存を再利用し、
+ *          同じ対象・期間の予算、同じカード・締め日の請求が既にある場合は作成しない
+ */
+export async function restoreBackup(
+	db: Database,
+	data: BackupData,
+	mode: BackupRestoreMode,
+): Promise<BackupRestoreResult> {
+	const result: BackupRestoreResult = {
+		mode,
+		categories: 0,
+		accounts: 0,
+		transactions: 0,
+		subscriptions: 0,
+		budgets: 0,
+		cardStatements: 0,
+		transactionSplits: 0,
+		installmentPlans: 0,
+		categorizationRules: 0,
+		tags: 0,
+		subscriptionPrices: 0,
+		subscriptionSkippedPeriods: 0,
+		subscriptionReminders: 0,
+		notifications: 0,
+		reusedCategories: 0,
+		reusedAccounts: 0,
+		skippedBudgets: 0,
+	};
+
+	const existingCategoryIds = new Map<string, number>();
+	const existingAccountIds = new Map<string, number>();
+	const existingBudgetKeys = new Set<string>();
+	const existingCardStatementIds = new Map<string, number>();
+
+	if (mode === "replace") {
+		await deleteAllData(db);
+	} else {
+		const [categoryRows, accountRows, budgetRows, cardStatementRows] =
+			await Promise.all([
+				(db as any).select().from(categories),
+				(db as any).select().from(accounts),
+				(db as any).select().from(budgets),
+				(db as any).select().from(cardStatements),
+			]);
+		for (const category of categoryRows) {
+			existingCategoryIds.set(categoryKey(category), category.id);
+		}
+		for (const account of accountRows) {
+			existingAccountIds.set(accountKey(account), account.id);
+		}
+		for (const budget of budgetRows) {
+			existingBudgetKeys.add(budgetKey(budget));
+		}
+		for (const statement of cardStatementRows) {
+			existingCardStatementIds.set(cardStatementKey(statement), statement.id);
+		}
+	}
+
+	// カテゴリ（RETURNINGの順序は保証されないため1件ずつ作成して対応表を作る）
+	// 親カテゴリはカテゴリ同士の参照のため、全カテゴリの作成後に設定する
+	const categoryIdMap = new Map<number, number>();
+	const parentCategoryLinks: { id: number; parentId: number }[] = [];
+	for (const { id, parentId, ...category } of data.categories) {
+		const existingId = existingCategoryIds.get(categoryKey(category));
+		if (existingId !== undefined) {
+			categoryIdMap.set(id, existingId);
+			result.reusedCategories++;
+			continue;
+		}
+
+		const [created] = await db.insert(categories).values(category).returning();
+		categoryIdMap.set(id, created.id);
+		if (parentId != null) {
+			parentCategoryLinks.push({ id: created.id, parentId });
+		}
+		result.categories++;
+	}
+	for (const { id, parentId } of parentCategoryLinks) {
+		await db
+			.update(categories)
+			.set({ parentId: remapId(categoryIdMap, parentId) })
+			.where(eq(categories.id, id));
+	}
+
+	// 口座（カテゴリと同様に1件ずつ作成して対応表を作る）
+	// 引き落とし口座は口座同士の参照のため、全口座の作成後に設定する
+	const accountIdMap = new Map<number, number>();
+	const paymentAccountLinks: { id: number; paymentAccountId: number }[] = [];
+	for (const { id, paymentAccountId, ...account } of data.accounts) {
+		const existingId = existingAccountIds.get(accountKey(account));
+		if (existingId !== undefined) {
+			accountIdMap.set(id, existingId);
+			result.reusedAccounts++;
+			continue;
+		}
+
+		const [created] = await db.insert(accounts).values(account).returning();
+		accountIdMap.set(id, created.id);
+		if (paymentAccountId != null) {
+			paymentAccountLinks.push({ id: created.id, paymentAccountId });
+		}
+		result.accounts++;
+	}
+	for (const { id, paymentAccountId } of paymentAccountLinks) {
+		await db
+			.update(accounts)
+			.set({ paymentAccountId: remapId(accountIdMap, paymentAccountId) })
+			.where(eq(accounts.id, id));
+	}
+
+	// カードの請求（取引から照合状態として参照されるため取引より先に作成し、
+	// 引き落としの取引は取引の作成後に設定する）
+	const cardStatementIdMap = new Map<number, number>();
+	const createdCardStatements: {
+		id: number;
+		settlementTransactionId: number;
+	}[] = [];
+	for (const {
+		id,
+		settlementTransactionId,
+		...statement
+	} of data.cardStatements) {
+		const row = {
+			...statement,
+			accountId: remapId(accountIdMap, statement.accountId) as number,
+		};
+		const existingId = existingCardStatementIds.get(cardStatementKey(row));
+		if (existingId !== undefined) {
+			cardStatementIdMap.set(id, existingId);
+			continue;
+		}
+
+		const [created] = await db.insert(cardStatements).values(row).returning();
+		cardStatementIdMap.set(id, created.id);
+		if (settlementTransactionId != null) {
+			createdCardStatements.push({ id: created.id, settlementTransactionId });
+		}
+		result.cardStatements++;
+	}
+
+	// サブスクリプション（取引のrecurringIdから参照されるため1件ずつ作成）
+	const subscriptionIdMap = new Map<number, number>();
+	for (const { id, ...subscription } of data.subscriptions) {
+		const [created] = await db
+			.insert(subscriptions)
+			.values({
+				...subscription,
+				categoryId: remapId(categoryIdMap, subscription.categoryId),
+				accountId: remapId(accountIdMap, subscription.accountId),
+			})
+			.returning();
+		subscriptionIdMap.set(id, created.id);
+		result.subscriptions++;
+	}
+
+	// 分割払い（支払いを生成するサブスクリプションと1対1で対応する）
+	for (const { id, ...plan } of data.installmentPlans) {
+		await db.insert(installmentPlans).values({
+			...plan,
+			subscriptionId: remapId(subscriptionIdMap, plan.subscriptionId) as number,
+		});
+		result.installmentPlans++;
+	}
+
+	// サブスクリプションの価格履歴
+	for (const { id, ...price } of data.subscriptionPrices) {
+		await db.insert(subscriptionPrices).values({
+			...price,
+			subscriptionId: remapId(
+				subscriptionIdMap,
+				price.subscriptionId,
+			) as number,
+		});
+		result.subscriptionPrices++;
+	}
+
+	// サブスクリプションのスキップした支払い期間
+	for (const { id, ...period } of data.subscriptionSkippedPeriods) {
+		await db.insert(subscriptionSkippedPeriods).values({
+			...period,
+			subscriptionId: remapId(
+				subscriptionIdMap,
+				period.subscriptionId,
+			) as number,
+		});
+		result.subscriptionSkippedPeriods++;
+	}
+
+	// サブスクリプションのリマインダー
+	for (const { id, ...reminder } of data.subscriptionReminders) {
+		await db.insert(subscriptionReminders).values({
+			...reminder,
+			subscriptionId: remapId(
+				subscriptionIdMap,
+				reminder.subscriptionId,
+			) as number,
+		});
+		result.subscriptionReminders++;
+	}
+
+	// 通知（既読の状態も復元し、同じ対象日の通知を再作成しないようにする）
+	for (const { id, ...notification } of data.notifications) {
+		await db.insert(notifications).values({
+			...notification,
+			subscriptionId: remapId(
+				subscriptionIdMap,
+				notification.subscriptionId,
+			) as number,
+		});
+		result.notifications++;
+	}
+
+	// タグ（色の設定を復元する。同名のタグが既にある場合は既存の設定を残す）
+	for (const { id, ...tag } of data.tags) {
+		const created = await db
+			.insert(tags)
+			.values(tag)
+			.onConflictDoNothing()
+			.returning();
+		result.tags += created.length;
+	}
+
+	// 取引（カードの請求から引き落としとして参照される取引・内訳を持つ取引のみ1件ずつ作成し、残りは一括作成）
+	const referencedTransactionIds = new Set([
+		...createdCardStatements.map(
+			(statement) => statement.settlementTransactionId,
+		),
+		...data.transactionSplits.map((split) => split.transactionId),
+	]);
+	const transactionIdMap = new Map<number, number>();
+	const batchTransactions = [];
+	for (const { id, ...transaction } of data.transactions) {
+		const row = {
+			...transaction,
+			categoryId: remapId(categoryIdMap, transaction.categoryId),
+			accountId: remapId(accountIdMap, transaction.accountId),
+			transferAccountId: remapId(accountIdMap, transaction.transferAccountId),
+			recurringId: remapId(subscriptionIdMap, transaction.recurringId),
+			reconciledStatementId: remapId(
+				cardStatementIdMap,
+				transaction.reconciledStatementId,
+			),
+		};
+		if (!referencedTransactionIds.has(id)) {
+			batchTransactions.push(row);
+			continue;
+		}
+
+		const created = await createTransaction(db, row);
+		transactionIdMap.set(id, created.id);
+	}
+	const createdTransactions = await createTransactionsBatch(
+		db,
+		batchTransactions,
+	);
+	result.transactions = transactionIdMap.size + createdTransactions.length;
+
+	for (const { id, settlementTransactionId } of createdCardStatements) {
+		await db
+			.update(cardStatements)
+			.set({
+				settlementTransactionId: remapId(
+					transactionIdMap,
+					settlementTransactionId,
+				),
+			})
+			.where(eq(cardStatements.id, id));
+	}
+
+	// 取引の内訳
+	await createTransactionSplitsBatch(
+		db,
+		data.transactionSplits.map(({ id, ...split }) => ({
+			...split,
+			transactionId: remapId(transactionIdMap, split.transactionId) as number,
+			categoryId: remapId(categoryIdMap, split.categoryId),
+		})),
+	);
+	result.transactionSplits = data.transactionSplits.length;
+
+	// 予算（同じ対象・期間の予算は1件のみとする）
+	const budgetRows = [];
+	for (const { id, ...budget } of data.budgets) {
+		const row = {
+			...budget,
+			categoryId: remapId(categoryIdMap, budget.categoryId),
+		};
+		const key = budgetKey(row);
+		if (existingBudgetKeys.has(key)) {
+			result.skippedBudgets++;
+			continue;
+		}
+		existingBudgetKeys.add(key);
+		budgetRows.push(row);
+	}
+	for (let i = 0; i < budgetRows.length; i += BUDGET_BATCH_INSERT_SIZE) {
+		await db
+			.insert(budgets)
+			.values(budgetRows.slice(i, i + BUDGET_BATCH_INSERT_SIZE));
+	}
+	result.budgets = budgetRows.length;
+
+	// 自動分類ルール（優先順位はバックアップの値をそのまま使う）
+	for (const { id, ...rule } of data.categorizationRules) {
+		await db.insert(categorizationRules).values({
+			...rule,
+			categoryId: remapId(categoryIdMap, rule.categoryId),
+			accountId: remapId(accountIdMap, rule.accountId),
+		});
+		result.categorizationRules++;
+	}
+
+	return result;
+}
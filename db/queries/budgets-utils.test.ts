@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import {
+	calculateBudgetProgress,
+	getBudgetPeriodRange,
+	sumCategorySpending,
+} from "./budgets";
+
+/**
+ * 予算関数のユニットテスト
+ *
+ * データベースに依存しない純粋関数のテスト
+ */
+
+describe("budgets utils", () => {
+	describe("getBudgetPeriodRange", () => {
+		it("正常ケース: 月次予算の期間を計算", () => {
+			// 実行
+			const result = getBudgetPeriodRange("monthly", 2024, 4);
+
+			// 検証
+			expect(result).toEqual({
+				startDate: "2024-04-01",
+				endDate: "2024-04-30",
+				totalDays: 30,
+			});
+		});
+
+		it("正常ケース: うるう年の2月", () => {
+			// 実行
+			const result = getBudgetPeriodRange("monthly", 2024, 2);
+
+			// 検証
+			expect(result.endDate).toBe("2024-02-29");
+			expect(result.totalDays).toBe(29);
+		});
+
+		it("正常ケース: 年次予算の期間を計算", () => {
+			// 実行
+			const result = getBudgetPeriodRange("yearly", 2024);
+
+			// 検証
+			expect(result).toEqual({
+				startDate: "2024-01-01",
+				endDate: "2024-12-31",
+				totalDays: 366,
+			});
+		});
+
+		it("異常ケース: 月次予算で月が未指定", () => {
+			// 実行・検証
+			expect(() => getBudgetPeriodRange("monthly", 2024)).toThrow(
+				"月次予算には月の指定が必要です",
+			);
+		});
+	});
+
+	describe("calculateBudgetProgress", () => {
+		const range = getBudgetPeriodRange("monthly", 2024, 4);
+
+		it("正常ケース: 期間中の進捗と1日あたりの残額を計算", () => {
+			// 実行（4/21〜4/30の10日間が残り）
+			const result = calculateBudgetProgress(50000, 30000, range, "2024-04-21");
+
+			// 検証
+			expect(result).toEqual({
+				spent: 30000,
+				remaining: 20000,
+				percentage: 60,
+				isOverBudget: false,
+				remainingDays: 10,
+				remainingPerDay: 2000,
+			});
+		});
+
+		it("正常ケース: 予算超過時は残額が負になり1日あたりの残額はnull", () => {
+			// 実行
+			const result = calculateBudgetProgress(10000, 12500, range, "2024-04-15");
+
+			// 検証
+			expect(result.remaining).toBe(-2500);
+			expect(result.percentage).toBe(125);
+			expect(result.isOverBudget).toBe(true);
+			expect(result.remainingPerDay).toBeNull();
+		});
+
+		it("境界値: 期間開始前は期間全体を残り日数とする", () => {
+			// 実行
+			const result = calculateBudgetProgress(30000, 0, range, "2024-03-31");
+
+			// 検証
+			expect(result.remainingDays).toBe(30);
+			expect(result.remainingPerDay).toBe(1000);
+		});
+
+		it("境界値: 期間終了後は残り日数0で1日あたりの残額はnull", () => {
+			// 実行
+			const result = calculateBudgetProgress(30000, 1000, range, "2024-05-01");
+
+			// 検証
+			expect(result.remainingDays).toBe(0);
+			expect(result.remainingPerDay).toBeNull();
+		});
+
+		it("境界値: 予算額ちょうどの支出は超過扱いにしない", () => {
+			// 実行
+			const result = calculateBudgetProgress(10000, 10000, range, "2024-04-30");
+
+			// 検証
+			expect(result.isOverBudget).toBe(false);
+			expect(result.percentage).toBe(100);
+			expect(result.remainingDays).toBe(1);
+			expect(result.remainingPerDay).toBeNull();
+		});
+	});
+
+	describe("sumCategorySpending", () => {
+		it("正常ケース: 指定したカテゴリ（子カテゴリを含む）の支出を合計する", () => {
+			const spentByCategory = new Map<number | null, number>([
+				[1, 1000],
+				[2, 3000],
+				[3, 500],
+				[null, 200],
+			]);
+
+			// 実行・検証
+			expect(sumCategorySpending(spentByCategory, [1, 2])).toBe(4000);
+			expect(sumCategorySpending(spentByCategory, [4])).toBe(0);
+		});
+	});
+});
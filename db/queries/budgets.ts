@@ -0,0 +1,360 @@
+import { and, asc, eq, gte, isNull, lte, not, sql } from "drizzle-orm";
+import type { Database } from "../connection";
+import {
+	type InsertBudget,
+	budgets,
+	categories,
+	transactionSplits,
+	transactions,
+} from "../schema";
+import { getCategoryHierarchy, getCategorySubtreeIds } from "./categories";
+import { getTodayInJst } from "./recurrence";
+import { isSplitTransaction } from "./transaction-splits";
+
+/**
+ * 予算関連のデータベースクエリ関数
+ *
+ * 設計方針:
+ * - 予算は月次（year + month）と年次（yearのみ）の2種類
+ * - categoryIdがnullの予算は全支出を対象とする「全体予算」として扱う
+ * - 実績は支出取引をSQLで集計し、進捗の計算は純粋関数で行う（テスト容易性のため）
+ * - 分割した取引は内訳行ごとにそれぞれのカテゴリの実績として数える
+ * - カテゴリ別予算の実績には子孫のカテゴリの支出も含める（親カテゴリの予算で子カテゴリをまとめて管理できる）
+ * - 予算は論理削除フラグを持たないため削除は物理削除とする
+ */
+
+export type BudgetPeriod = "monthly" | "yearly";
+
+/**
+ * 予算の対象期間（両端を含むYYYY-MM-DD）
+ */
+export interface BudgetPeriodRange {
+	startDate: string;
+	endDate: string;
+	totalDays: number;
+}
+
+/**
+ * 予算の進捗（予算額に対する実績）
+ */
+export interface BudgetProgress {
+	spent: number;
+	remaining: number; // 予算超過時は負の値
+	percentage: number; // 予算に対する消化率（%、小数点以下切り捨て）
+	isOverBudget: boolean;
+	remainingDays: number; // 今日を含む期間内の残り日数
+	remainingPerDay: number | null; // 1日あたり使える金額（期間外・超過時はnull）
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// YYYY-MM-DD文字列をUTC基準の日付として扱い、タイムゾーンの影響を避ける
+const toUtcTime = (date: string): number => Date.parse(`${date}T00:00:00Z`);
+
+const pad2 = (value: number): string => value.toString().padStart(2, "0");
+
+/**
+ * カテゴリ情報を含む予算取得時の選択フィールド
+ */
+const budgetWithCategoryFields = {
+	id: budgets.id,
+	categoryId: budgets.categoryId,
+	amount: budgets.amount,
+	period: budgets.period,
+	year: budgets.year,
+	month: budgets.month,
+	createdAt: budgets.createdAt,
+	updatedAt: budgets.updatedAt,
+	category: {
+		id: categories.id,
+		name: categories.name,
+		type: categories.type,
+		color: categories.color,
+		icon: categories.icon,
+	},
+};
+
+/**
+ * 新しい予算を作成
+ */
+export async function createBudget(db: Database, budget: InsertBudget) {
+	// createdAt/updatedAtはデータベースのCURRENT_TIMESTAMPデフォルト値を使用
+	const [created] = await db.insert(budgets).values(budget).returning();
+
+	return created;
+}
+
+/**
+ * IDで予算を取得（カテゴリ情報含む）
+ */
+export async function getBudgetById(db: Database, id: number) {
+	const [budget] = (await (db as any)
+		.select(budgetWithCategoryFields)
+		.from(budgets)
+		.leftJoin(categories, eq(budgets.categoryId, categories.id))
+		.where(eq(budgets.id, id))
+		.limit(1)) as any;
+
+	return budget;
+}
+
+/**
+ * 予算一覧を取得（期間でのフィルタリング対応、カテゴリ情報含む）
+ * 全体予算を先頭に、以降はカテゴリの表示順で並べる
+ */
+export async function getBudgetsList(
+	db: Database,
+	options: {
+		period?: BudgetPeriod;
+		year?: number;
+		month?: number;
+	} = {},
+) {
+	const { period, year, month } = options;
+
+	const conditions = [
+		period ? eq(budgets.period, period) : undefined,
+		year !== undefined ? eq(budgets.year, year) : undefined,
+		month !== undefined ? eq(budgets.month, month) : undefined,
+	].filter((condition) => condition !== undefined);
+
+	return (await (db as any)
+		.select(budgetWithCategoryFields)
+		.from(budgets)
+		.leftJoin(categories, eq(budgets.categoryId, categories.id))
+		.where(conditions.length > 0 ? and(...conditions) : undefined)
+		.orderBy(
+			sql`${budgets.categoryId} IS NOT NULL`,
+			asc(categories.displayOrder),
+			asc(budgets.id),
+		)) as any;
+}
+
+/**
+ * 同じカテゴリ・期間の予算を検索（重複登録の防止用）
+ */
+export async function findBudgetForPeriod(
+	db: Database,
+	target: {
+		categoryId: number | null;
+		period: BudgetPeriod;
+		year: number;
+		month: number | null;
+	},
+) {
+	const [budget] = await db
+		.select()
+		.from(budgets)
+		.where(
+			and(
+				target.categoryId === null
+					? isNull(budgets.categoryId)
+					: eq(budgets.categoryId, target.categoryId),
+				eq(budgets.period, target.period),
+				eq(budgets.year, target.year),
+				target.month === null
+					? isNull(budgets.month)
+					: eq(budgets.month, target.month),
+			),
+		)
+		.limit(1);
+
+	return budget;
+}
+
+/**
+ * 予算を更新
+ */
+export async function updateBudget(
+	db: Database,
+	id: number,
+	updates: Partial<InsertBudget>,
+) {
+	const [updated] = await db
+		.update(budgets)
+		.set({
+			...updates,
+			updatedAt: new Date().toISOString(),
+		})
+		.where(eq(budgets.id, id))
+		.returning();
+
+	return updated;
+}
+
+/**
+ * 予算を削除（物理削除）
+ */
+export async function deleteBudget(db: Database, id: number) {
+	const [deleted] = await db
+		.delete(budgets)
+		.where(eq(budgets.id, id))
+		.returning();
+
+	return deleted;
+}
+
+/**
+ * 指定期間の予算と実績（支出合計）を集計
+ * 全体予算（categoryIdがnull）は期間内の全支出を実績とする
+ * カテゴリ別予算は子孫のカテゴリの支出も実績に含める
+ */
+export async function getBudgetStatus(
+	db: Database,
+	target: { period: BudgetPeriod; year: number; month?: number },
+	today: string = getTodayInJst(),
+) {
+	const range = getBudgetPeriodRange(target.period, target.year, target.month);
+
+	const budgetList = await getBudgetsList(db, {
+		period: target.period,
+		year: target.year,
+		month: target.period === "monthly" ? target.month : undefined,
+	});
+
+	const isExpenseInRange = and(
+		eq(transactions.type, "expense"),
+		gte(transactions.transactionDate, range.startDate),
+		lte(transactions.transactionDate, range.endDate),
+	);
+
+	// カテゴリ別の支出合計を取得（分割した取引は除き、内訳行の側で数える）
+	const spentRows = (await (db as any)
+		.select({
+			categoryId: transactions.categoryId,
+			total: sql<number>`COALESCE(SUM(${transactions.amount}), 0)`,
+		})
+		.from(transactions)
+		.where(and(isExpenseInRange, not(isSplitTransaction)))
+		.groupBy(transactions.categoryId)) as {
+		categoryId: number | null;
+		total: number;
+	}[];
+
+	// 分割した取引の内訳行をカテゴリ別に合計
+	const splitSpentRows = (await (db as any)
+		.select({
+			categoryId: transactionSplits.categoryId,
+			total: sql<number>`COALESCE(SUM(${transactionSplits.amount}), 0)`,
+		})
+		.from(transactionSplits)
+		.innerJoin(
+			transactions,
+			eq(transactionSplits.transactionId, transactions.id),
+		)
+		.where(isExpenseInRange)
+		.groupBy(transactionSplits.categoryId)) as {
+		categoryId: number | null;
+		total: number;
+	}[];
+
+	const spentByCategory = new Map<number | null, number>();
+	for (const row of [...spentRows, ...splitSpentRows]) {
+		spentByCategory.set(
+			row.categoryId,
+			(spentByCategory.get(row.categoryId) ?? 0) + Number(row.total),
+		);
+	}
+	const totalSpent = [...spentByCategory.values()].reduce(
+		(sum, total) => sum + total,
+		0,
+	);
+	const hierarchy = budgetList.some((budget: any) => budget.categoryId !== null)
+		? await getCategoryHierarchy(db)
+		: [];
+
+	const items = budgetList.map((budget: any) => {
+		const spent =
+			budget.categoryId === null
+				? totalSpent
+				: sumCategorySpending(
+						spentByCategory,
+						getCategorySubtreeIds(hierarchy, budget.categoryId),
+					);
+
+		return {
+			...budget,
+			...calculateBudgetProgress(budget.amount, spent, range, today),
+		};
+	});
+
+	return { ...range, totalSpent, budgets: items };
+}
+
+/**
+ * カテゴリ別の支出合計から、指定したカテゴリの支出を合計する
+ */
+export function sumCategorySpending(
+	spentByCategory: Map<number | null, number>,
+	categoryIds: number[],
+): number {
+	return categoryIds.reduce(
+		(sum, categoryId) => sum + (spentByCategory.get(categoryId) ?? 0),
+		0,
+	);
+}
+
+/**
+ * 予算期間の開始日・終了日・日数を計算
+ */
+export function getBudgetPeriodRange(
+	period: BudgetPeriod,
+	year: number,
+	month?: number,
+): BudgetPeriodRange {
+	if (period === "monthly") {
+		if (month === undefined) {
+			throw new Error("月次予算には月の指定が必要です");
+		}
+		// 翌月0日 = 当月末日
+		const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+		return {
+			startDate: `${year}-${pad2(month)}-01`,
+			endDate: `${year}-${pad2(month)}-${pad2(lastDay)}`,
+			totalDays: lastDay,
+		};
+	}
+
+	const startDate = `${year}-01-01`;
+	const endDate = `${year}-12-31`;
+	return {
+		startDate,
+		endDate,
+		totalDays: (toUtcTime(endDate) - toUtcTime(startDate)) / DAY_MS + 1,
+	};
+}
+
+/**
+ * 予算額と実績から進捗を計算
+ * 残り日数は今日を含めて数え、期間開始前は期間全体、終了後は0日とする
+ */
+export function calculateBudgetProgress(
+	amount: number,
+	spent: number,
+	range: BudgetPeriodRange,
+	today: string,
+): BudgetProgress {
+	const remaining = amount - spent;
+	const percentage = amount > 0 ? Math.floor((spent / amount) * 100) : 0;
+
+	let remainingDays: number;
+	if (today < range.startDate) {
+		remainingDays = range.totalDays;
+	} else if (today > range.endDate) {
+		remainingDays = 0;
+	} else {
+		remainingDays = (toUtcTime(range.endDate) - toUtcTime(today)) / DAY_MS + 1;
+	}
+
+	return {
+		spent,
+		remaining,
+		percentage,
+		isOverBudget: spent > amount,
+		remainingDays,
+		remainingPerDay:
+			remainingDays > 0 && remaining > 0
+				? Math.floor(remaining / remainingDays)
+				: null,
+	};
+}
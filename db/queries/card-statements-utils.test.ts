@@ -0,0 +1,196 @@
+import { describe, expect, it } from "vitest";
+import {
+	type CardStatementTransaction,
+	addMonths,
+	getBillingCycle,
+	getCardCharge,
+	getClampedDate,
+	getClosingMonthForDate,
+	getDueClosingMonths,
+	summarizeCardStatement,
+} from "./card-statements";
+
+/**
+ * クレジットカードの請求関連関数のユニットテスト
+ *
+ * データベースに依存しない請求期間・支払日の計算と請求額の集計のテスト
+ */
+
+// 15日締め・翌月10日払いのカード
+const card = { closingDay: 15, paymentDay: 10, paymentMonthOffset: 1 };
+
+const createRow = (
+	overrides: Partial<CardStatementTransaction> = {},
+): CardStatementTransaction => ({
+	id: 1,
+	transactionDate: "2025-06-01",
+	type: "expense",
+	amount: 1000,
+	fee: 0,
+	accountId: 2,
+	transferAccountId: null,
+	description: null,
+	categoryName: "食費",
+	reconciledStatementId: null,
+	...overrides,
+});
+
+describe("card statements utils", () => {
+	describe("getClampedDate / addMonths", () => {
+		it("境界値ケース: 月の日数を超える日は月末に丸める", () => {
+			// 検証
+			expect(getClampedDate("2025-02", 31)).toBe("2025-02-28");
+			expect(getClampedDate("2024-02", 30)).toBe("2024-02-29");
+			expect(getClampedDate("2025-04", 31)).toBe("2025-04-30");
+			expect(getClampedDate("2025-06", 5)).toBe("2025-06-05");
+		});
+
+		it("境界値ケース: 年をまたいで月を加算・減算する", () => {
+			// 検証
+			expect(addMonths("2025-12", 1)).toBe("2026-01");
+			expect(addMonths("2025-01", -1)).toBe("2024-12");
+			expect(addMonths("2025-11", 2)).toBe("2026-01");
+		});
+	});
+
+	describe("getBillingCycle", () => {
+		it("正常ケース: 前回の締め日の翌日から締め日までを請求期間とし、翌月の支払日を計算", () => {
+			// 実行
+			const cycle = getBillingCycle(card, "2025-06");
+
+			// 検証
+			expect(cycle).toEqual({
+				closingMonth: "2025-06",
+				periodStart: "2025-05-16",
+				closingDate: "2025-06-15",
+				paymentDate: "2025-07-10",
+			});
+		});
+
+		it("境界値ケース: 月末締め・翌々月27日払いは月末と年越しを考慮する", () => {
+			// 実行
+			const cycle = getBillingCycle(
+				{ closingDay: 31, paymentDay: 27, paymentMonthOffset: 2 },
+				"2025-11",
+			);
+
+			// 検証
+			expect(cycle).toEqual({
+				closingMonth: "2025-11",
+				periodStart: "2025-11-01",
+				closingDate: "2025-11-30",
+				paymentDate: "2026-01-27",
+			});
+		});
+
+		it("境界値ケース: 30日締めの3月の請求期間は2月末の翌日から始まる", () => {
+			// 実行
+			const cycle = getBillingCycle(
+				{ closingDay: 30, paymentDay: 31, paymentMonthOffset: 1 },
+				"2025-03",
+			);
+
+			// 検証
+			expect(cycle.periodStart).toBe("2025-03-01");
+			expect(cycle.closingDate).toBe("2025-03-30");
+			expect(cycle.paymentDate).toBe("2025-04-30");
+		});
+	});
+
+	describe("getClosingMonthForDate", () => {
+		it("正常ケース: 締め日以前は当月締め、締め日より後は翌月締め", () => {
+			// 検証
+			expect(getClosingMonthForDate("2025-06-15", 15)).toBe("2025-06");
+			expect(getClosingMonthForDate("2025-06-16", 15)).toBe("2025-07");
+			expect(getClosingMonthForDate("2025-12-20", 15)).toBe("2026-01");
+		});
+
+		it("境界値ケース: 締め日が未設定の場合は月末締めとする", () => {
+			// 検証
+			expect(getClosingMonthForDate("2025-06-30", null)).toBe("2025-06");
+		});
+	});
+
+	describe("getDueClosingMonths", () => {
+		it("正常ケース: 支払日が到来した請求を古い順に上限件数まで列挙", () => {
+			// 実行
+			const closingMonths = getDueClosingMonths(card, "2025-07-10");
+
+			// 検証
+			expect(closingMonths).toEqual(["2025-04", "2025-05", "2025-06"]);
+		});
+
+		it("境界値ケース: 支払日の前日は前回の請求までを対象とする", () => {
+			// 実行
+			const closingMonths = getDueClosingMonths(card, "2025-07-09", 1);
+
+			// 検証
+			expect(closingMonths).toEqual(["2025-05"]);
+		});
+	});
+
+	describe("getCardCharge", () => {
+		it("正常ケース: 支出・振替出金は請求額を増やし、返金は減らす", () => {
+			// 検証
+			expect(getCardCharge(2, createRow())).toBe(1000);
+			expect(getCardCharge(2, createRow({ type: "income" }))).toBe(-1000);
+			expect(
+				getCardCharge(
+					2,
+					createRow({ type: "transfer", transferAccountId: 5, fee: 100 }),
+				),
+			).toBe(1100);
+		});
+
+		it("正常ケース: カードへの振替入金（引き落とし）は請求額に含めない", () => {
+			// 検証
+			expect(
+				getCardCharge(
+					2,
+					createRow({ type: "transfer", accountId: 1, transferAccountId: 2 }),
+				),
+			).toBe(0);
+		});
+	});
+
+	describe("summarizeCardStatement", () => {
+		const rows = [
+			createRow({ id: 1, amount: 3000, reconciledStatementId: 7 }),
+			createRow({ id: 2, amount: 5000, reconciledStatementId: 7 }),
+			createRow({ id: 3, amount: 1200 }),
+			createRow({ id: 4, type: "income", amount: 500 }),
+		];
+
+		it("正常ケース: 照合済みの合計と明細上の請求額との差額を集計", () => {
+			// 実行
+			const { entries, summary } = summarizeCardStatement(2, 7, rows, 9000);
+
+			// 検証
+			expect(entries.map((entry) => entry.reconciled)).toEqual([
+				true,
+				true,
+				false,
+				false,
+			]);
+			expect(summary).toEqual({
+				calculatedAmount: 8700,
+				reconciledAmount: 8000,
+				unreconciledAmount: 700,
+				transactionCount: 4,
+				reconciledCount: 2,
+				statementAmount: 9000,
+				difference: 1000,
+			});
+		});
+
+		it("境界値ケース: 請求が未作成・明細未入力の場合は照合済みなし・差額なし", () => {
+			// 実行
+			const { summary } = summarizeCardStatement(2, null, rows, null);
+
+			// 検証
+			expect(summary.reconciledAmount).toBe(0);
+			expect(summary.unreconciledAmount).toBe(8700);
+			expect(summary.difference).toBeNull();
+		});
+	});
+});
@@ -0,0 +1,548 @@
+import { and, asc, eq, gte, inArray, isNull, lte, or } from "drizzle-orm";
+import type { Database } from "../connection";
+import {
+	type SelectAccount,
+	type SelectCardStatement,
+	accounts,
+	cardStatements,
+	categories,
+	transactions,
+} from "../schema";
+import { getAccountBalanceChange } from "./accounts";
+import { getTodayInJst } from "./recurrence";
+
+/**
+ * クレジットカードの請求（締め日・支払日・明細照合）関連のデータベースクエリ関数
+ *
+ * 設計方針:
+ * - 締め日・支払日はカードの口座に持ち、請求期間・支払日は締め月（YYYY-MM）から都度計算する
+ *   （締め日31は月末締めとし、月の日数を超える日付は月末に丸める）
+ * - 請求額はカードの口座から出ていく取引（支出・振替出金）から返金（収入）を差し引いて計算する
+ *   カードへの振替入金は引き落とし（支払い）のため請求額に含めない
+ * - card_statementsの行は照合・明細金額の入力・引き落としの作成時に初めて作成する
+ * - 引き落としは支払日に引き落とし口座からカードへの振替として作成し、
+ *   作成した取引のIDを請求に記録して冪等に実行できるようにする
+ * - 期間の計算・集計は純粋関数で行う（テスト容易性のため）
+ */
+
+/**
+ * 1回の実行で1枚のカードについて引き落としを作成する請求の上限
+ * 請求設定を後から登録した場合などに、過去の請求をさかのぼって大量に作成しないための安全装置
+ */
+export const MAX_CATCH_UP_STATEMENTS = 3;
+
+// 請求期間・支払日の計算に必要なカードの設定
+export type CardBillingSettings = Pick<
+	SelectAccount,
+	"closingDay" | "paymentDay" | "paymentMonthOffset"
+>;
+
+export interface BillingCycle {
+	closingMonth: string; // 締め月（YYYY-MM）
+	periodStart: string; // 請求期間の開始日（前回の締め日の翌日）
+	closingDate: string; // 締め日（請求期間の終了日）
+	paymentDate: string; // 支払日（引き落とし日）
+}
+
+export interface CardStatementTransaction {
+	id: number;
+	transactionDate: string;
+	type: string;
+	amount: number;
+	fee: number;
+	accountId: number | null;
+	transferAccountId: number | null;
+	description: string | null;
+	categoryName: string | null;
+	reconciledStatementId: number | null;
+}
+
+export interface CardStatementEntry extends CardStatementTransaction {
+	charge: number; // 請求額への影響（返金はマイナス）
+	reconciled: boolean; // この請求と照合済みか
+}
+
+export interface CardStatementSummary {
+	calculatedAmount: number; // 取引から計算した請求額
+	reconciledAmount: number; // 照合済みの取引の合計
+	unreconciledAmount: number; // 未照合の取引の合計
+	transactionCount: number;
+	reconciledCount: number;
+	statementAmount: number | null; // 明細上の請求額
+	difference: number | null; // 明細上の請求額 - 照合済みの合計（明細未入力の場合はnull）
+}
+
+const padNumber = (value: number, length = 2) =>
+	String(value).padStart(length, "0");
+
+/**
+ * 年月と日からYYYY-MM-DD形式の日付を作成（月の日数を超える日は月末に丸める）
+ *
+ * @param month - 年月（YYYY-MM）
+ * @param day - 日（1〜31）
+ */
+export function getClampedDate(month: string, day: number): string {
+	const [year, monthNumber] = month.split("-").map(Number);
+	// 翌月の0日 = 当月の末日
+	const lastDay = new Date(Date.UTC(year, monthNumber, 0)).getUTCDate();
+	return `${month}-${padNumber(Math.min(day, lastDay))}`;
+}
+
+/**
+ * 年月（YYYY-MM）に月数を加算
+ */
+export function addMonths(month: string, months: number): string {
+	const [year, monthNumber] = month.split("-").map(Number);
+	const date = new Date(Date.UTC(year, monthNumber - 1 + months, 1));
+	return `${date.getUTCFullYear()}-${padNumber(date.getUTCMonth() + 1)}`;
+}
+
+/**
+ * 日付の翌日を計算
+ */
+function getNextDate(date: string): string {
+	const next = new Date(`${date}T00:00:00Z`);
+	next.setUTCDate(next.getUTCDate() + 1);
+	return next.toISOString().split("T")[0];
+}
+
+/**
+ * 締め月の請求期間と支払日を計算
+ * 締め日・支払日が未設定の場合は月末締め・締め日当日払いとみなす
+ *
+ * @param card - カードの請求設定
+ * @param closingMonth - 締め月（YYYY-MM）
+ */
+export function getBillingCycle(
+	card: CardBillingSettings,
+	closingMonth: string,
+): BillingCycle {
+	const closingDay = card.closingDay ?? 31;
+	const previousClosingDate = getClampedDate(
+		addMonths(closingMonth, -1),
+		closingDay,
+	);
+	const closingDate = getClampedDate(closingMonth, closingDay);
+	const paymentDate = card.paymentDay
+		? getClampedDate(
+				addMonths(closingMonth, card.paymentMonthOffset),
+				card.paymentDay,
+			)
+		: closingDate;
+
+	return {
+		closingMonth,
+		periodStart: getNextDate(previousClosingDate),
+		closingDate,
+		paymentDate,
+	};
+}
+
+/**
+ * 取引日が含まれる請求の締め月を計算
+ * 締め日より後の取引は翌月締めの請求に含まれる
+ */
+export function getClosingMonthForDate(
+	date: string,
+	closingDay: number | null,
+): string {
+	const month = date.slice(0, 7);
+	return date <= getClampedDate(month, closingDay ?? 31)
+		? month
+		: addMonths(month, 1);
+}
+
+/**
+ * 基準日までに支払日が到来した請求の締め月を、古い順に列挙（上限あり）
+ */
+export function getDueClosingMonths(
+	card: CardBillingSettings,
+	today: string,
+	maxStatements: number = MAX_CATCH_UP_STATEMENTS,
+): string[] {
+	// 基準日を含む請求から、支払日が基準日以前になるまでさかのぼる
+	let closingMonth = getClosingMonthForDate(today, card.closingDay);
+	while (getBillingCycle(card, closingMonth).paymentDate > today) {
+		closingMonth = addMonths(closingMonth, -1);
+	}
+
+	const closingMonths: string[] = [];
+	for (let i = maxStatements - 1; i >= 0; i--) {
+		closingMonths.push(addMonths(closingMonth, -i));
+	}
+	return closingMonths;
+}
+
+/**
+ * 取引がカードの請求額に与える影響を計算
+ * 支出・振替出金（手数料込み）は請求額を増やし、返金（収入）は減らす
+ * カードへの振替入金（引き落とし）は請求額に含めないため0とする
+ */
+export function getCardCharge(
+	cardId: number,
+	row: Pick<
+		CardStatementTransaction,
+		"type" | "amount" | "fee" | "accountId" | "transferAccountId"
+	>,
+): number {
+	if (row.accountId !== cardId) return 0;
+	return -getAccountBalanceChange(cardId, row);
+}
+
+/**
+ * 請求の取引に照合状態と請求額への影響を付与し、合計を集計
+ *
+ * @param cardId - カードの口座ID
+ * @param statementId - 請求のID（未作成の場合はnull）
+ * @param rows - 請求期間の取引
+ * @param statementAmount - 明細上の請求額（未入力の場合はnull）
+ */
+export function summarizeCardStatement(
+	cardId: number,
+	statementId: number | null,
+	rows: CardStatementTransaction[],
+	statementAmount: number | null,
+): { entries: CardStatementEntry[]; summary: CardStatementSummary } {
+	const entries = rows.map((row) => ({
+		...row,
+		charge: getCardCharge(cardId, row),
+		reconciled:
+			statementId !== null && row.reconciledStatementId === statementId,
+	}));
+
+	const sumCharges = (items: CardStatementEntry[]) =>
+		items.reduce((sum, entry) => sum + entry.charge, 0);
+	const reconciledEntries = entries.filter((entry) => entry.reconciled);
+	const reconciledAmount = sumCharges(reconciledEntries);
+	const calculatedAmount = sumCharges(entries);
+
+	return {
+		entries,
+		summary: {
+			calculatedAmount,
+			reconciledAmount,
+			unreconciledAmount: calculatedAmount - reconciledAmount,
+			transactionCount: entries.length,
+			reconciledCount: reconciledEntries.length,
+			statementAmount,
+			difference:
+				statementAmount === null ? null : statementAmount - reconciledAmount,
+		},
+	};
+}
+
+/**
+ * カードの締め月の請求を取得（未作成の場合はundefined）
+ */
+export async function getCardStatementRow(
+	db: Database,
+	accountId: number,
+	closingDate: string,
+): Promise<SelectCardStatement | undefined> {
+	const [statement] = await db
+		.select()
+		.from(cardStatements)
+		.where(
+			and(
+				eq(cardStatements.accountId, accountId),
+				eq(cardStatements.closingDate, closingDate),
+			),
+		)
+		.limit(1);
+
+	return statement;
+}
+
+/**
+ * カードの締め月の請求を取得し、なければ作成
+ */
+export async function getOrCreateCardStatementRow(
+	db: Database,
+	accountId: number,
+	cycle: BillingCycle,
+): Promise<SelectCardStatement> {
+	const existing = await getCardStatementRow(db, accountId, cycle.closingDate);
+	if (existing) return existing;
+
+	const [created] = await db
+		.insert(cardStatements)
+		.values({
+			accountId,
+			closingDate: cycle.closingDate,
+			paymentDate: cycle.paymentDate,
+		})
+		.returning();
+
+	return created;
+}
+
+/**
+ * 請求期間の取引を取得
+ * 期間内でカードから出ていく取引のうち、他の請求と照合済みのものを除き、
+ * 期間外でもこの請求と照合済みの取引（締め後に計上された取引など）は含める
+ */
+async function getCardStatementTransactions(
+	db: Database,
+	accountId: number,
+	cycle: BillingCycle,
+	statementId: number | null,
+): Promise<CardStatementTransaction[]> {
+	const inPeriod = and(
+		gte(transactions.transactionDate, cycle.periodStart),
+		lte(transactions.transactionDate, cycle.closingDate),
+		statementId === null
+			? isNull(transactions.reconciledStatementId)
+			: or(
+					isNull(transactions.reconciledStatementId),
+					eq(transactions.reconciledStatementId, statementId),
+				),
+	);
+
+	return await (db as any)
+		.select({
+			id: transactions.id,
+			transactionDate: transactions.transactionDate,
+			type: transactions.type,
+			amount: transactions.amount,
+			fee: transactions.fee,
+			accountId: transactions.accountId,
+			transferAccountId: transactions.transferAccountId,
+			description: transactions.description,
+			categoryName: categories.name,
+			reconciledStatementId: transactions.reconciledStatementId,
+		})
+		.from(transactions)
+		.leftJoin(categories, eq(transactions.categoryId, categories.id))
+		.where(
+			and(
+				eq(transactions.accountId, accountId),
+				statementId === null
+					? inPeriod
+					: or(inPeriod, eq(transactions.reconciledStatementId, statementId)),
+			),
+		)
+		.orderBy(asc(transactions.transactionDate), asc(transactions.id));
+}
+
+/**
+ * カードの締め月の請求を、請求期間の取引・照合状態・集計付きで取得
+ */
+export async function getCardStatement(
+	db: Database,
+	card: Pick<
+		SelectAccount,
+		"id" | "closingDay" | "paymentDay" | "paymentMonthOffset"
+	>,
+	closingMonth: string,
+) {
+	const cycle = getBillingCycle(card, closingMonth);
+	const statement =
+		(await getCardStatementRow(db, card.id, cycle.closingDate)) ?? null;
+	const rows = await getCardStatementTransactions(
+		db,
+		card.id,
+		cycle,
+		statement?.id ?? null,
+	);
+
+	return {
+		cycle,
+		statement,
+		...summarizeCardStatement(
+			card.id,
+			statement?.id ?? null,
+			rows,
+			statement?.statementAmount ?? null,
+		),
+	};
+}
+
+/**
+ * 明細上の請求額を設定（nullで未入力に戻す）
+ * 引き落としを作成済みの場合は、その振替の金額も明細上の請求額に合わせる
+ */
+export async function updateCardStatementAmount(
+	db: Database,
+	card: Pick<
+		SelectAccount,
+		"id" | "closingDay" | "paymentDay" | "paymentMonthOffset"
+	>,
+	closingMonth: string,
+	statementAmount: number | null,
+) {
+	const statement = await getOrCreateCardStatementRow(
+		db,
+		card.id,
+		getBillingCycle(card, closingMonth),
+	);
+
+	const [updated] = await db
+		.update(cardStatements)
+		.set({ statementAmount, updatedAt: new Date().toISOString() })
+		.where(eq(cardStatements.id, statement.id))
+		.returning();
+
+	if (
+		updated.settlementTransactionId !== null &&
+		statementAmount !== null &&
+		statementAmount > 0
+	) {
+		await db
+			.update(transactions)
+			.set({ amount: statementAmount, updatedAt: new Date().toISOString() })
+			.where(eq(transactions.id, updated.settlementTransactionId));
+	}
+
+	return updated;
+}
+
+/**
+ * 取引を請求と照合済みにする（reconciled=falseで照合を解除）
+ * 照合はカードの口座の取引のみを対象とし、対象外のIDは無視する
+ *
+ * @returns 照合状態を変更した取引の件数
+ */
+export async function reconcileCardTransactions(
+	db: Database,
+	card: Pick<
+		SelectAccount,
+		"id" | "closingDay" | "paymentDay" | "paymentMonthOffset"
+	>,
+	closingMonth: string,
+	transactionIds: number[],
+	reconciled: boolean,
+): Promise<number> {
+	const cycle = getBillingCycle(card, closingMonth);
+
+	if (!reconciled) {
+		const statement = await getCardStatementRow(db, card.id, cycle.closingDate);
+		if (!statement) return 0;
+
+		const updated = await db
+			.update(transactions)
+			.set({ reconciledStatementId: null })
+			.where(
+				and(
+					inArray(transactions.id, transactionIds),
+					eq(transactions.reconciledStatementId, statement.id),
+				),
+			)
+			.returning();
+		return updated.length;
+	}
+
+	const statement = await getOrCreateCardStatementRow(db, card.id, cycle);
+	const updated = await db
+		.update(transactions)
+		.set({ reconciledStatementId: statement.id })
+		.where(
+			and(
+				inArray(transactions.id, transactionIds),
+				eq(transactions.accountId, card.id),
+			),
+		)
+		.returning();
+	return updated.length;
+}
+
+/**
+ * 支払日が到来したカードの請求について、引き落とし口座からカードへの振替を作成
+ *
+ * - 対象: 締め日・支払日・引き落とし口座が設定された有効なクレジットカード
+ * - 金額は明細上の請求額を優先し、未入力の場合は取引から計算した請求額とする（0円以下は作成しない）
+ * - 作成済みの請求、または支払日に同じ口座間の振替が登録済みの請求には作成しない（冪等性の担保）
+ */
+export async function generateCardSettlements(
+	db: Database,
+	today: string = getTodayInJst(),
+) {
+	const cards = await db
+		.select()
+		.from(accounts)
+		.where(and(eq(accounts.isActive, true), eq(accounts.type, "credit_card")));
+
+	const results: {
+		accountId: number;
+		name: string;
+		closingMonth: string;
+		paymentDate: string;
+		amount: number;
+		transactionId: number;
+		linkedExisting: boolean;
+	}[] = [];
+
+	for (const card of cards) {
+		if (!card.closingDay || !card.paymentDay || !card.paymentAccountId) {
+			continue;
+		}
+
+		for (const closingMonth of getDueClosingMonths(card, today)) {
+			const { cycle, statement, summary } = await getCardStatement(
+				db,
+				card,
+				closingMonth,
+			);
+			if (statement?.settlementTransactionId) continue;
+
+			const amount = summary.statementAmount ?? summary.calculatedAmount;
+			if (amount <= 0) continue;
+
+			// 手動で登録済みの引き落としがあれば、新規作成せずに請求へ紐付ける
+			const [existing] = (await (db as any)
+				.select({ id: transactions.id })
+				.from(transactions)
+				.where(
+					and(
+						eq(transactions.type, "transfer"),
+						eq(transactions.accountId, card.paymentAccountId),
+						eq(transactions.transferAccountId, card.id),
+						eq(transactions.transactionDate, cycle.paymentDate),
+					),
+				)
+				.limit(1)) as any;
+
+			let transactionId: number = existing?.id;
+			if (!existing) {
+				const [created] = await db
+					.insert(transactions)
+					.values({
+						amount,
+						type: "transfer",
+						accountId: card.paymentAccountId,
+						transferAccountId: card.id,
+						description: `${card.name}の引き落とし（${closingMonth}締め）`,
+						transactionDate: cycle.paymentDate,
+					})
+					.returning();
+				transactionId = created.id;
+			}
+
+			const statementRow =
+				statement ?? (await getOrCreateCardStatementRow(db, card.id, cycle));
+			await db
+				.update(cardStatements)
+				.set({
+					settlementTransactionId: transactionId,
+					updatedAt: new Date().toISOString(),
+				})
+				.where(eq(cardStatements.id, statementRow.id));
+
+			results.push({
+				accountId: card.id,
+				name: card.name,
+				closingMonth,
+				paymentDate: cycle.paymentDate,
+				amount,
+				transactionId,
+				linkedExisting: Boolean(existing),
+			});
+		}
+	}
+
+	return {
+		processedDate: today,
+		createdSettlements: results.filter((result) => !result.linkedExisting)
+			.length,
+		settlements: results,
+	};
+}
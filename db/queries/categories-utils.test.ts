@@ -0,0 +1,263 @@
+import { describe, expect, it } from "vitest";
+import type { SelectCategory } from "../schema";
+import {
+	buildCategoryTree,
+	getCategoryReorderValidationError,
+	getCategoryReplacementValidationError,
+	getCategorySubtreeIds,
+	getRootCategoryIds,
+	hasCategoryUsage,
+	planCategoryBudgetReassignment,
+	wouldCreateCategoryCycle,
+} from "./categories";
+
+/**
+ * カテゴリの階層関連関数のユニットテスト
+ *
+ * データベースに依存しないツリーの構築・最上位の親・子孫・循環の判定と、
+ * 削除・統合時の付け替え先の検証・予算の付け替え方法の決定のテスト
+ */
+
+const createCategory = (
+	id: number,
+	name: string,
+	parentId: number | null = null,
+	type = "expense",
+): SelectCategory => ({
+	id,
+	name,
+	type,
+	color: null,
+	icon: null,
+	parentId,
+	displayOrder: 0,
+	isActive: true,
+	createdAt: "2025-01-01T00:00:00Z",
+	updatedAt: "2025-01-01T00:00:00Z",
+});
+
+// 食費（1）> 外食（2）> カフェ（4）、食費 > 自炊（3）、交通費（5）
+const hierarchy = [
+	createCategory(1, "食費"),
+	createCategory(2, "外食", 1),
+	createCategory(3, "自炊", 1),
+	createCategory(4, "カフェ", 2),
+	createCategory(5, "交通費"),
+];
+
+describe("categories utils", () => {
+	describe("buildCategoryTree", () => {
+		it("正常ケース: 表示順を保ったまま子カテゴリを親カテゴリのchildrenにまとめる", () => {
+			// 実行
+			const tree = buildCategoryTree(hierarchy);
+
+			// 検証
+			expect(tree.map((node) => node.name)).toEqual(["食費", "交通費"]);
+			expect(tree[0].children.map((node) => node.name)).toEqual([
+				"外食",
+				"自炊",
+			]);
+			expect(tree[0].children[0].children.map((node) => node.name)).toEqual([
+				"カフェ",
+			]);
+			expect(tree[1].children).toEqual([]);
+		});
+
+		it("境界値ケース: 親カテゴリが一覧にない場合は最上位として扱う", () => {
+			// 実行
+			const tree = buildCategoryTree([createCategory(2, "外食", 1)]);
+
+			// 検証
+			expect(tree.map((node) => node.id)).toEqual([2]);
+		});
+	});
+
+	describe("getRootCategoryIds", () => {
+		it("正常ケース: 孫カテゴリを含め、最上位の親カテゴリのIDを返す", () => {
+			// 実行
+			const rootIds = getRootCategoryIds(hierarchy);
+
+			// 検証
+			expect([...rootIds]).toEqual([
+				[1, 1],
+				[2, 1],
+				[3, 1],
+				[4, 1],
+				[5, 5],
+			]);
+		});
+
+		it("異常ケース: 不正なデータで循環していても停止する", () => {
+			// 実行
+			const rootIds = getRootCategoryIds([
+				{ id: 1, parentId: 2 },
+				{ id: 2, parentId: 1 },
+			]);
+
+			// 検証
+			expect(rootIds.size).toBe(2);
+		});
+	});
+
+	describe("getCategorySubtreeIds / wouldCreateCategoryCycle", () => {
+		it("正常ケース: 指定したカテゴリと子孫のカテゴリのIDを返す", () => {
+			// 検証
+			expect(getCategorySubtreeIds(hierarchy, 1).sort()).toEqual([1, 2, 3, 4]);
+			expect(getCategorySubtreeIds(hierarchy, 5)).toEqual([5]);
+		});
+
+		it("異常ケース: 自分自身・子孫を親にする変更は循環と判定する", () => {
+			// 検証
+			expect(wouldCreateCategoryCycle(hierarchy, 1, 1)).toBe(true);
+			expect(wouldCreateCategoryCycle(hierarchy, 1, 4)).toBe(true);
+			expect(wouldCreateCategoryCycle(hierarchy, 4, 3)).toBe(false);
+			expect(wouldCreateCategoryCycle(hierarchy, 2, 5)).toBe(false);
+		});
+	});
+
+	describe("getCategoryReorderValidationError", () => {
+		it("正常ケース: 同じ親カテゴリの子カテゴリは並び替えられる", () => {
+			// 検証
+			expect(
+				getCategoryReorderValidationError(
+					[hierarchy[1], hierarchy[2]],
+					[2, 3],
+					1,
+				),
+			).toBeNull();
+			expect(
+				getCategoryReorderValidationError(
+					[hierarchy[0], hierarchy[4]],
+					[1, 5],
+					null,
+				),
+			).toBeNull();
+		});
+
+		it("異常ケース: 親カテゴリ・種別の異なるカテゴリや存在しないカテゴリは並び替えられない", () => {
+			// 検証
+			expect(
+				getCategoryReorderValidationError([hierarchy[0], hierarchy[1]], [1, 2]),
+			).toBe("並び替えるカテゴリは同じ親カテゴリ内で指定してください");
+			expect(
+				getCategoryReorderValidationError(
+					[hierarchy[0], createCategory(6, "給与", null, "income")],
+					[1, 6],
+				),
+			).toBe("並び替えるカテゴリは同じ親カテゴリ内で指定してください");
+			expect(getCategoryReorderValidationError([hierarchy[1]], [2, 99])).toBe(
+				"カテゴリID 99 は存在しないか、無効です",
+			);
+			expect(getCategoryReorderValidationError([hierarchy[3]], [4], 1)).toBe(
+				"指定した親カテゴリの子ではないカテゴリが含まれています",
+			);
+		});
+	});
+
+	describe("hasCategoryUsage / getCategoryReplacementValidationError", () => {
+		it("正常ケース: いずれかの参照があれば使用中と判定する", () => {
+			// 検証
+			expect(
+				hasCategoryUsage({
+					transactions: 0,
+					subscriptions: 0,
+					budgets: 1,
+					categorizationRules: 0,
+				}),
+			).toBe(true);
+			expect(
+				hasCategoryUsage({
+					transactions: 0,
+					subscriptions: 0,
+					budgets: 0,
+					categorizationRules: 0,
+				}),
+			).toBe(false);
+		});
+
+		it("正常ケース: 同じ種別の有効なカテゴリは付け替え先にできる", () => {
+			// 検証
+			expect(
+				getCategoryReplacementValidationError([hierarchy[1]], hierarchy[0]),
+			).toBeNull();
+		});
+
+		it("異常ケース: 無効・統合元自身・種別の異なるカテゴリは付け替え先にできない", () => {
+			// 検証
+			expect(
+				getCategoryReplacementValidationError([hierarchy[1]], undefined),
+			).toBe("付け替え先のカテゴリが存在しないか、無効です");
+			expect(
+				getCategoryReplacementValidationError([hierarchy[1]], {
+					...hierarchy[0],
+					isActive: false,
+				}),
+			).toBe("付け替え先のカテゴリが存在しないか、無効です");
+			expect(
+				getCategoryReplacementValidationError(
+					[hierarchy[1], hierarchy[2]],
+					hierarchy[2],
+				),
+			).toBe("付け替え先のカテゴリを付け替え元に含めることはできません");
+			expect(
+				getCategoryReplacementValidationError(
+					[hierarchy[1]],
+					createCategory(6, "給与", null, "income"),
+				),
+			).toBe("付け替え先は同じ種別（収入・支出）のカテゴリを指定してください");
+		});
+	});
+
+	describe("planCategoryBudgetReassignment", () => {
+		it("正常ケース: 付け替え先に同じ期間の予算がない予算はカテゴリだけを付け替える", () => {
+			// 実行
+			const plan = planCategoryBudgetReassignment(
+				[{ id: 1, amount: 10000, period: "monthly", year: 2025, month: 6 }],
+				[{ id: 2, amount: 30000, period: "monthly", year: 2025, month: 7 }],
+			);
+
+			// 検証
+			expect(plan).toEqual({
+				movedBudgetIds: [1],
+				combinedBudgets: [],
+				removedBudgetIds: [],
+			});
+		});
+
+		it("正常ケース: 同じ期間の予算は付け替え先の予算に合算し、付け替え元の予算は削除する", () => {
+			// 実行
+			const plan = planCategoryBudgetReassignment(
+				[
+					{ id: 1, amount: 10000, period: "monthly", year: 2025, month: 6 },
+					{ id: 3, amount: 50000, period: "yearly", year: 2025, month: null },
+				],
+				[{ id: 2, amount: 30000, period: "monthly", year: 2025, month: 6 }],
+			);
+
+			// 検証
+			expect(plan).toEqual({
+				movedBudgetIds: [3],
+				combinedBudgets: [{ id: 2, amount: 40000 }],
+				removedBudgetIds: [1],
+			});
+		});
+
+		it("境界値ケース: 複数の統合元に同じ期間の予算がある場合は最初の予算に合算する", () => {
+			// 実行
+			const plan = planCategoryBudgetReassignment(
+				[
+					{ id: 1, amount: 10000, period: "yearly", year: 2025, month: null },
+					{ id: 3, amount: 5000, period: "yearly", year: 2025, month: null },
+				],
+				[],
+			);
+
+			// 検証
+			expect(plan).toEqual({
+				movedBudgetIds: [1],
+				combinedBudgets: [{ id: 1, amount: 15000 }],
+				removedBudgetIds: [3],
+			});
+		});
+	});
+});
@@ -1,9 +1,15 @@
-import { and, asc, eq, sql } from "drizzle-orm";
+import { and, asc, eq, inArray, isNull, or, sql } from "drizzle-orm";
 import type { Database } from "../connection";
 import {
 	type InsertCategory,
+	type SelectBudget,
 	type SelectCategory,
+	budgets,
 	categories,
+	categorizationRules,
+	subscriptions,
+	transactionSplits,
+	transactions,
 } from "../schema";
 
 /**
@@ -14,52 +20,286 @@ import {
  * - 論理削除（isActive）による削除管理
  * - 収入・支出タイプ別の効率的な取得
  * - 一括更新機能による表示順序管理の最適化
+ * - parentIdによる親子の階層を持ち、表示順序は同じ親カテゴリ内での並び順とする
+ * - 階層の計算（ツリーの構築・最上位の親・子孫・循環の判定）は純粋関数で行う（テスト容易性のため）
+ * - 親カテゴリは同じtypeの有効なカテゴリに限り、自分自身や子孫を親にする循環は作らせない
+ * - 取引・サブスクリプション・予算・自動分類ルールから参照されているカテゴリは、
+ *   参照を別のカテゴリへ付け替えるか、参照を残したままアーカイブ（論理削除）するかを選んで削除する
+ * - 付け替え先に同じ期間の予算がある場合は予算額を合算して1件にまとめる（同じカテゴリ・期間の予算は1件のため）
  */
 
+type CategoryHierarchyRow = Pick<SelectCategory, "id" | "parentId">;
+
+export interface CategoryTreeNode extends SelectCategory {
+	children: CategoryTreeNode[];
+}
+
+/**
+ * 表示順に並んだカテゴリの一覧から親子のツリーを構築する
+ * 親カテゴリが一覧にない（無効化されたなど）カテゴリは最上位として扱う
+ */
+export function buildCategoryTree(rows: SelectCategory[]): CategoryTreeNode[] {
+	const nodes = new Map<number, CategoryTreeNode>(
+		rows.map((row) => [row.id, { ...row, children: [] }]),
+	);
+	const roots: CategoryTreeNode[] = [];
+
+	for (const row of rows) {
+		const node = nodes.get(row.id) as CategoryTreeNode;
+		const parent = row.parentId != null ? nodes.get(row.parentId) : undefined;
+		if (parent) {
+			parent.children.push(node);
+		} else {
+			roots.push(node);
+		}
+	}
+
+	return roots;
+}
+
+/**
+ * 各カテゴリの最上位の親カテゴリのIDを返す（最上位のカテゴリは自身のID）
+ * レポートで子カテゴリの集計を親カテゴリにまとめる際に使用する
+ */
+export function getRootCategoryIds(
+	rows: CategoryHierarchyRow[],
+): Map<number, number> {
+	const parentById = new Map(rows.map((row) => [row.id, row.parentId]));
+	const rootIds = new Map<number, number>();
+
+	for (const row of rows) {
+		let rootId = row.id;
+		// 不正なデータで循環していても停止するよう、たどったカテゴリを記録する
+		const visited = new Set<number>([rootId]);
+		let parentId = parentById.get(rootId);
+		while (
+			parentId != null &&
+			parentById.has(parentId) &&
+			!visited.has(parentId)
+		) {
+			rootId = parentId;
+			visited.add(rootId);
+			parentId = parentById.get(rootId);
+		}
+		rootIds.set(row.id, rootId);
+	}
+
+	return rootIds;
+}
+
+/**
+ * 指定したカテゴリとその子孫のカテゴリのIDを返す
+ * 予算で親カテゴリの実績に子カテゴリの支出を含める際に使用する
+ */
+export function getCategorySubtreeIds(
+	rows: CategoryHierarchyRow[],
+	categoryId: number,
+): number[] {
+	const childrenByParent = new Map<number, number[]>();
+	for (const row of rows) {
+		if (row.parentId == null) continue;
+		const children = childrenByParent.get(row.parentId) ?? [];
+		children.push(row.id);
+		childrenByParent.set(row.parentId, children);
+	}
+
+	const ids: number[] = [];
+	const visited = new Set<number>();
+	const stack = [categoryId];
+	while (stack.length > 0) {
+		const id = stack.pop() as number;
+		if (visited.has(id)) continue;
+		visited.add(id);
+		ids.push(id);
+		stack.push(...(childrenByParent.get(id) ?? []));
+	}
+
+	return ids;
+}
+
+/**
+ * カテゴリの親を変更すると循環（自分自身または子孫が親になる）するかを判定する
+ */
+export function wouldCreateCategoryCycle(
+	rows: CategoryHierarchyRow[],
+	categoryId: number,
+	parentId: number,
+): boolean {
+	return getCategorySubtreeIds(rows, categoryId).includes(parentId);
+}
+
+/**
+ * 並び替えの対象のカテゴリが同じ親カテゴリ内にあるかを検証し、不正な場合はエラーメッセージを返す
+ * parentIdを指定した場合は、すべてのカテゴリがその親カテゴリの子であることも検証する
+ */
+export function getCategoryReorderValidationError(
+	targets: Pick<SelectCategory, "id" | "type" | "parentId">[],
+	ids: number[],
+	parentId?: number | null,
+): string | null {
+	const found = new Set(targets.map((category) => category.id));
+	const missingIds = ids.filter((id) => !found.has(id));
+	if (missingIds.length > 0) {
+		return `カテゴリID ${missingIds.join(", ")} は存在しないか、無効です`;
+	}
+
+	const parentIds = new Set(
+		targets.map((category) => category.parentId ?? null),
+	);
+	const types = new Set(targets.map((category) => category.type));
+	if (parentIds.size > 1 || types.size > 1) {
+		return "並び替えるカテゴリは同じ親カテゴリ内で指定してください";
+	}
+	if (parentId !== undefined && !parentIds.has(parentId)) {
+		return "指定した親カテゴリの子ではないカテゴリが含まれています";
+	}
+	return null;
+}
+
+interface CategoryListOptions {
+	/** trueの場合は親子のツリー（最上位のカテゴリの配列、子はchildren）で返す */
+	tree?: boolean;
+}
+
 /**
  * 全カテゴリを取得（displayOrder順、アクティブのみ）
+ * tree: trueの場合は親子のツリーで返す
  */
-export async function getAllCategories(db: Database) {
-	return await db
+export async function getAllCategories(db: Database): Promise<SelectCategory[]>;
+export async function getAllCategories(
+	db: Database,
+	options: CategoryListOptions & { tree: true },
+): Promise<CategoryTreeNode[]>;
+export async function getAllCategories(
+	db: Database,
+	options?: CategoryListOptions,
+): Promise<SelectCategory[] | CategoryTreeNode[]>;
+export async function getAllCategories(
+	db: Database,
+	options: CategoryListOptions = {},
+) {
+	const rows = await db
 		.select()
 		.from(categories)
 		.where(eq(categories.isActive, true))
 		.orderBy(asc(categories.displayOrder), asc(categories.id));
+
+	return options.tree ? buildCategoryTree(rows) : rows;
 }
 
 /**
  * タイプ別にカテゴリを取得（displayOrder順、アクティブのみ）
+ * tree: trueの場合は親子のツリーで返す
  */
 export async function getCategoriesByType(
 	db: Database,
 	type: "income" | "expense",
+): Promise<SelectCategory[]>;
+export async function getCategoriesByType(
+	db: Database,
+	type: "income" | "expense",
+	options: CategoryListOptions & { tree: true },
+): Promise<CategoryTreeNode[]>;
+export async function getCategoriesByType(
+	db: Database,
+	type: "income" | "expense",
+	options?: CategoryListOptions,
+): Promise<SelectCategory[] | CategoryTreeNode[]>;
+export async function getCategoriesByType(
+	db: Database,
+	type: "income" | "expense",
+	options: CategoryListOptions = {},
 ) {
-	return await db
+	const rows = await db
 		.select()
 		.from(categories)
 		.where(and(eq(categories.type, type), eq(categories.isActive, true)))
 		.orderBy(asc(categories.displayOrder), asc(categories.id));
+
+	return options.tree ? buildCategoryTree(rows) : rows;
 }
 
 /**
- * 新しいカテゴリを作成
- * displayOrderが指定されていない場合、同タイプ内での最大値+1を設定
+ * 階層の計算に使う全カテゴリの親子関係を取得（無効なカテゴリを含む）
+ * 無効化した親カテゴリの子も、集計では元の親カテゴリにまとめるため
  */
-export async function createCategory(db: Database, data: InsertCategory) {
-	// displayOrderが指定されていない場合、同タイプ内での最大値+1を設定
-	let displayOrder = data.displayOrder;
-	if (displayOrder === undefined) {
-		const [maxOrder] = (await (db as any)
-			.select({
-				maxOrder: sql<number>`COALESCE(MAX(${categories.displayOrder}), 0)`,
-			})
-			.from(categories)
-			.where(
-				and(eq(categories.type, data.type), eq(categories.isActive, true)),
-			)) as any;
+export async function getCategoryHierarchy(
+	db: Database,
+): Promise<(CategoryHierarchyRow & Pick<SelectCategory, "name" | "color">)[]> {
+	return await (db as any)
+		.select({
+			id: categories.id,
+			parentId: categories.parentId,
+			name: categories.name,
+			color: categories.color,
+		})
+		.from(categories);
+}
+
+/**
+ * 親カテゴリの指定を検証し、不正な場合はエラーメッセージを返す
+ * 作成時はcategoryIdを省略し、更新時は更新するカテゴリのIDを渡す
+ */
+export async function getCategoryParentValidationError(
+	db: Database,
+	category: { id?: number; type: string; parentId: number },
+): Promise<string | null> {
+	if (category.id === category.parentId) {
+		return "自分自身を親カテゴリにすることはできません";
+	}
 
-		displayOrder = ((maxOrder as any).maxOrder || 0) + 1;
+	const parent = await getCategoryById(db, category.parentId);
+	if (!parent) {
+		return `親カテゴリID ${category.parentId} は存在しないか、無効です`;
 	}
+	if (parent.type !== category.type) {
+		return "親カテゴリには同じ種別（収入・支出）のカテゴリを指定してください";
+	}
+
+	if (category.id !== undefined) {
+		const hierarchy = await getCategoryHierarchy(db);
+		if (wouldCreateCategoryCycle(hierarchy, category.id, category.parentId)) {
+			return "子孫のカテゴリを親カテゴリにすることはできません";
+		}
+	}
+	return null;
+}
+
+/**
+ * 同じ親カテゴリ内での表示順序の最大値+1を返す
+ */
+async function getNextDisplayOrder(
+	db: Database,
+	type: string,
+	parentId: number | null | undefined,
+) {
+	const [maxOrder] = (await (db as any)
+		.select({
+			maxOrder: sql<number>`COALESCE(MAX(${categories.displayOrder}), 0)`,
+		})
+		.from(categories)
+		.where(
+			and(
+				eq(categories.type, type),
+				eq(categories.isActive, true),
+				parentId == null
+					? isNull(categories.parentId)
+					: eq(categories.parentId, parentId),
+			),
+		)) as any;
+
+	return ((maxOrder as any).maxOrder || 0) + 1;
+}
+
+/**
+ * 新しいカテゴリを作成
+ * displayOrderが指定されていない場合、同タイプ・同じ親カテゴリ内での最大値+1を設定
+ */
+export async function createCategory(db: Database, data: InsertCategory) {
+	// displayOrderが指定されていない場合、同タイプ・同じ親カテゴリ内での最大値+1を設定
+	const displayOrder =
+		data.displayOrder ??
+		(await getNextDisplayOrder(db, data.type, data.parentId));
 
 	const [created] = await db
 		.insert(categories)
@@ -74,16 +314,28 @@ export async function createCategory(db: Database, data: InsertCategory) {
 
 /**
  * カテゴリを更新
+ * 親カテゴリを変更し、displayOrderが指定されていない場合は移動先の末尾に並べる
  */
 export async function updateCategory(
 	db: Database,
 	id: number,
 	data: Partial<InsertCategory>,
+	current?: Pick<SelectCategory, "type" | "parentId">,
 ) {
+	const isMoved =
+		current !== undefined &&
+		data.parentId !== undefined &&
+		(data.parentId ?? null) !== (current.parentId ?? null);
+	const displayOrder =
+		isMoved && data.displayOrder === undefined
+			? await getNextDisplayOrder(db, current.type, data.parentId)
+			: data.displayOrder;
+
 	const [updated] = await db
 		.update(categories)
 		.set({
 			...data,
+			...(displayOrder !== undefined && { displayOrder }),
 			updatedAt: new Date().toISOString(),
 		})
 		.where(eq(categories.id, id))
@@ -111,6 +363,7 @@ export async function deleteCategory(db: Database, id: number) {
 /**
  * 表示順序を一括更新
  * ドラッグ&ドロップによる並び替え機能で使用
+ * 表示順序は同じ親カテゴリ内での並び順のため、呼び出し側で同じ親カテゴリのカテゴリのみを渡す
  */
 export async function updateDisplayOrder(
 	db: Database,
@@ -163,16 +416,50 @@ export async function getCategoryById(db: Database, id: number) {
 }
 
 /**
- * アクティブなカテゴリ一覧を取得（type別フィルタ対応）
+ * IDの一覧でカテゴリを取得（アクティブのみ）
+ */
+export async function getCategoriesByIds(
+	db: Database,
+	ids: number[],
+): Promise<SelectCategory[]> {
+	if (ids.length === 0) return [];
+
+	return await db
+		.select()
+		.from(categories)
+		.where(and(inArray(categories.id, ids), eq(categories.isActive, true)));
+}
+
+/**
+ * 有効な子カテゴリを持つかどうかを確認（削除前のチェック用）
+ */
+export async function hasActiveChildCategories(
+	db: Database,
+	categoryId: number,
+): Promise<boolean> {
+	const [child] = await (db as any)
+		.select({ id: categories.id })
+		.from(categories)
+		.where(
+			and(eq(categories.parentId, categoryId), eq(categories.isActive, true)),
+		)
+		.limit(1);
+
+	return child !== undefined;
+}
+
+/**
+ * アクティブなカテゴリ一覧を取得（type別フィルタ・ツリー形式に対応）
  */
 export async function getActiveCategories(
 	db: Database,
 	type?: "income" | "expense",
-) {
+	options: CategoryListOptions = {},
+): Promise<SelectCategory[] | CategoryTreeNode[]> {
 	if (type) {
-		return getCategoriesByType(db, type);
+		return getCategoriesByType(db, type, options);
 	}
-	return getAllCategories(db);
+	return getAllCategories(db, options);
 }
 
 /**
@@ -180,15 +467,216 @@ export async function getActiveCategories(
  */
 export const reorderCategories = updateDisplayOrder;
 
+export interface CategoryUsage {
+	transactions: number; // 取引（内訳行で参照している取引を含む）
+	subscriptions: number;
+	budgets: number;
+	categorizationRules: number;
+}
+
+export interface CategoryBudgetReassignment {
+	movedBudgetIds: number[]; // カテゴリを付け替える予算
+	combinedBudgets: { id: number; amount: number }[]; // 予算額を合算する付け替え先の予算
+	removedBudgetIds: number[]; // 合算したため削除する予算
+}
+
+/**
+ * カテゴリが取引・サブスクリプション・予算・自動分類ルールのいずれかから参照されているか
+ */
+export function hasCategoryUsage(usage: CategoryUsage): boolean {
+	return Object.values(usage).some((count) => count > 0);
+}
+
 /**
- * カテゴリが使用中かどうかを確認（削除前のチェック用）
+ * 付け替え先のカテゴリのバリデーション
+ * 統合元と同じ種別の有効なカテゴリで、統合元に含まれていないことを確認する
+ *
+ * @returns エラーメッセージ（問題がなければnull）
  */
-export async function isCategoryInUse(
+export function getCategoryReplacementValidationError(
+	sources: Pick<SelectCategory, "id" | "type">[],
+	target: Pick<SelectCategory, "id" | "type" | "isActive"> | undefined,
+): string | null {
+	if (!target || !target.isActive) {
+		return "付け替え先のカテゴリが存在しないか、無効です";
+	}
+	if (sources.some((source) => source.id === target.id)) {
+		return "付け替え先のカテゴリを付け替え元に含めることはできません";
+	}
+	if (sources.some((source) => source.type !== target.type)) {
+		return "付け替え先は同じ種別（収入・支出）のカテゴリを指定してください";
+	}
+	return null;
+}
+
+/**
+ * 付け替え元のカテゴリの予算を付け替え先のカテゴリへ移す方法を決める
+ * 同じ期間（period・year・month）の予算が既にある場合は予算額を合算し、付け替え元の予算は削除する
+ */
+export function planCategoryBudgetReassignment(
+	sourceBudgets: Pick<
+		SelectBudget,
+		"id" | "amount" | "period" | "year" | "month"
+	>[],
+	targetBudgets: Pick<
+		SelectBudget,
+		"id" | "amount" | "period" | "year" | "month"
+	>[],
+): CategoryBudgetReassignment {
+	const budgetByPeriod = new Map<string, { id: number; amount: number }>();
+	const combinedIds = new Set<number>();
+	const movedBudgetIds: number[] = [];
+	const removedBudgetIds: number[] = [];
+	const toKey = (budget: {
+		period: string;
+		year: number;
+		month: number | null;
+	}) => `${budget.period}:${budget.year}:${budget.month ?? ""}`;
+
+	for (const budget of targetBudgets) {
+		budgetByPeriod.set(toKey(budget), { id: budget.id, amount: budget.amount });
+	}
+
+	for (const budget of sourceBudgets) {
+		const key = toKey(budget);
+		const existing = budgetByPeriod.get(key);
+		if (existing) {
+			existing.amount += budget.amount;
+			combinedIds.add(existing.id);
+			removedBudgetIds.push(budget.id);
+		} else {
+			budgetByPeriod.set(key, { id: budget.id, amount: budget.amount });
+			movedBudgetIds.push(budget.id);
+		}
+	}
+
+	return {
+		movedBudgetIds,
+		combinedBudgets: [...budgetByPeriod.values()].filter((budget) =>
+			combinedIds.has(budget.id),
+		),
+		removedBudgetIds,
+	};
+}
+
+/**
+ * カテゴリを参照している取引・サブスクリプション・予算・自動分類ルールの件数を取得
+ * 複数のカテゴリを指定した場合は合計の件数を返す（取引は重複して数えない）
+ */
+export async function getCategoryUsage(
 	db: Database,
-	categoryId: number,
-): Promise<boolean> {
-	// この関数は将来的にtransactionsテーブルとsubscriptionsテーブルをチェックする
-	// 現時点では論理削除のみなので、常にfalseを返す
-	// TODO: transactions、subscriptionsテーブルでの参照をチェック
-	return false;
+	categoryIds: number[],
+): Promise<CategoryUsage> {
+	const [transactionRows, subscriptionRows, budgetRows, ruleRows] =
+		await Promise.all([
+			(db as any)
+				.select({ count: sql<number>`COUNT(DISTINCT ${transactions.id})` })
+				.from(transactions)
+				.leftJoin(
+					transactionSplits,
+					eq(transactionSplits.transactionId, transactions.id),
+				)
+				.where(
+					or(
+						inArray(transactions.categoryId, categoryIds),
+						inArray(transactionSplits.categoryId, categoryIds),
+					),
+				),
+			(db as any)
+				.select({ count: sql<number>`COUNT(*)` })
+				.from(subscriptions)
+				.where(inArray(subscriptions.categoryId, categoryIds)),
+			(db as any)
+				.select({ count: sql<number>`COUNT(*)` })
+				.from(budgets)
+				.where(inArray(budgets.categoryId, categoryIds)),
+			(db as any)
+				.select({ count: sql<number>`COUNT(*)` })
+				.from(categorizationRules)
+				.where(inArray(categorizationRules.categoryId, categoryIds)),
+		]);
+
+	return {
+		transactions: Number(transactionRows[0]?.count ?? 0),
+		subscriptions: Number(subscriptionRows[0]?.count ?? 0),
+		budgets: Number(budgetRows[0]?.count ?? 0),
+		categorizationRules: Number(ruleRows[0]?.count ?? 0),
+	};
+}
+
+/**
+ * カテゴリへの参照（取引・内訳行・サブスクリプション・予算・自動分類ルール）を別のカテゴリへ付け替える
+ */
+export async function reassignCategoryReferences(
+	db: Database,
+	sourceCategoryIds: number[],
+	targetCategoryId: number,
+) {
+	const now = new Date().toISOString();
+
+	await db
+		.update(transactions)
+		.set({ categoryId: targetCategoryId, updatedAt: now })
+		.where(inArray(transactions.categoryId, sourceCategoryIds));
+	await db
+		.update(transactionSplits)
+		.set({ categoryId: targetCategoryId })
+		.where(inArray(transactionSplits.categoryId, sourceCategoryIds));
+	await db
+		.update(subscriptions)
+		.set({ categoryId: targetCategoryId, updatedAt: now })
+		.where(inArray(subscriptions.categoryId, sourceCategoryIds));
+	await db
+		.update(categorizationRules)
+		.set({ categoryId: targetCategoryId, updatedAt: now })
+		.where(inArray(categorizationRules.categoryId, sourceCategoryIds));
+
+	// 予算は同じ期間の予算が重複しないよう、合算してから付け替える
+	const relatedBudgets = await db
+		.select()
+		.from(budgets)
+		.where(
+			inArray(budgets.categoryId, [...sourceCategoryIds, targetCategoryId]),
+		);
+	const plan = planCategoryBudgetReassignment(
+		relatedBudgets.filter((budget) => budget.categoryId !== targetCategoryId),
+		relatedBudgets.filter((budget) => budget.categoryId === targetCategoryId),
+	);
+
+	for (const budget of plan.combinedBudgets) {
+		await db
+			.update(budgets)
+			.set({ amount: budget.amount, updatedAt: now })
+			.where(eq(budgets.id, budget.id));
+	}
+	if (plan.removedBudgetIds.length > 0) {
+		await db.delete(budgets).where(inArray(budgets.id, plan.removedBudgetIds));
+	}
+	if (plan.movedBudgetIds.length > 0) {
+		await db
+			.update(budgets)
+			.set({ categoryId: targetCategoryId, updatedAt: now })
+			.where(inArray(budgets.id, plan.movedBudgetIds));
+	}
+}
+
+/**
+ * 複数のカテゴリを1つのカテゴリに統合する
+ * 統合元のカテゴリへの参照をすべて統合先に付け替え、統合元のカテゴリを論理削除する
+ *
+ * @returns 付け替えた参照の件数
+ */
+export async function mergeCategories(
+	db: Database,
+	sourceCategoryIds: number[],
+	targetCategoryId: number,
+): Promise<CategoryUsage> {
+	const usage = await getCategoryUsage(db, sourceCategoryIds);
+	await reassignCategoryReferences(db, sourceCategoryIds, targetCategoryId);
+	await db
+		.update(categories)
+		.set({ isActive: false, updatedAt: new Date().toISOString() })
+		.where(inArray(categories.id, sourceCategoryIds));
+
+	return usage;
 }
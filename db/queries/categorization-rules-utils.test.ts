@@ -0,0 +1,285 @@
+import { describe, expect, it } from "vitest";
+import {
+	categorizeTransaction,
+	findMatchingCategorizationRule,
+	getCategorizationChanges,
+	getCategorizationRuleValidationError,
+	matchesCategorizationRule,
+} from "./categorization-rules";
+
+/**
+ * 自動分類ルール関連関数のユニットテスト
+ *
+ * データベースに依存しない一致判定・適用内容の計算・ルールの検証のテスト
+ */
+
+const baseRule = {
+	type: "expense",
+	descriptionPattern: null,
+	matchType: "contains",
+	minAmount: null,
+	maxAmount: null,
+	accountId: null,
+	paymentMethod: null,
+	categoryId: null,
+	tags: null,
+	memo: null,
+};
+
+// 「ローソン」「セブン」を食費（ID: 1）に分類し、コンビニのタグを付けるルール
+const convenienceRule = {
+	...baseRule,
+	id: 1,
+	name: "コンビニ",
+	descriptionPattern: "ローソン|セブン",
+	matchType: "regex",
+	categoryId: 1,
+	tags: JSON.stringify(["コンビニ"]),
+};
+
+// 楽天カード（口座ID: 5）で1万円以上の支出に「要確認」のメモを付けるルール
+const largeCardRule = {
+	...baseRule,
+	id: 2,
+	name: "高額なカード払い",
+	minAmount: 10000,
+	accountId: 5,
+	memo: "要確認",
+};
+
+describe("categorization rules utils", () => {
+	describe("matchesCategorizationRule", () => {
+		it("正常ケース: 部分一致は大文字小文字を区別しない", () => {
+			const rule = { ...baseRule, descriptionPattern: "amazon" };
+
+			// 検証
+			expect(
+				matchesCategorizationRule(rule, {
+					type: "expense",
+					amount: 1500,
+					description: "AMAZON.CO.JP 書籍",
+				}),
+			).toBe(true);
+			expect(
+				matchesCategorizationRule(rule, {
+					type: "expense",
+					amount: 1500,
+					description: "楽天ブックス",
+				}),
+			).toBe(false);
+		});
+
+		it("正常ケース: 指定した条件をすべて満たす場合のみ一致する", () => {
+			// 検証
+			expect(
+				matchesCategorizationRule(largeCardRule, {
+					type: "expense",
+					amount: 12000,
+					accountId: 5,
+				}),
+			).toBe(true);
+			expect(
+				matchesCategorizationRule(largeCardRule, {
+					type: "expense",
+					amount: 12000,
+					accountId: 6,
+				}),
+			).toBe(false);
+			expect(
+				matchesCategorizationRule(largeCardRule, {
+					type: "income",
+					amount: 12000,
+					accountId: 5,
+				}),
+			).toBe(false);
+		});
+
+		it("境界値ケース: 金額の範囲は下限・上限を含む", () => {
+			const rule = { ...baseRule, minAmount: 1000, maxAmount: 2000 };
+
+			// 検証
+			expect(
+				[999, 1000, 2000, 2001].map((amount) =>
+					matchesCategorizationRule(rule, { type: "expense", amount }),
+				),
+			).toEqual([false, true, true, false]);
+		});
+
+		it("異常ケース: 不正な正規表現のルールは一致しない", () => {
+			const rule = { ...baseRule, descriptionPattern: "(", matchType: "regex" };
+
+			// 検証
+			expect(
+				matchesCategorizationRule(rule, {
+					type: "expense",
+					amount: 100,
+					description: "(",
+				}),
+			).toBe(false);
+		});
+	});
+
+	describe("findMatchingCategorizationRule", () => {
+		it("正常ケース: 優先順位順で最初に一致したルールを返す", () => {
+			const transaction = {
+				type: "expense",
+				amount: 15000,
+				description: "セブンイレブン",
+				accountId: 5,
+			};
+
+			// 検証
+			expect(
+				findMatchingCategorizationRule(
+					[convenienceRule, largeCardRule],
+					transaction,
+				)?.id,
+			).toBe(1);
+			expect(
+				findMatchingCategorizationRule(
+					[largeCardRule, convenienceRule],
+					transaction,
+				)?.id,
+			).toBe(2);
+		});
+
+		it("境界値ケース: 振替はルールの対象外", () => {
+			// 検証
+			expect(
+				findMatchingCategorizationRule([{ ...baseRule, type: "transfer" }], {
+					type: "transfer",
+					amount: 50000,
+				}),
+			).toBeNull();
+		});
+	});
+
+	describe("getCategorizationChanges", () => {
+		it("正常ケース: 未分類の取引にカテゴリを設定し、タグを追加する", () => {
+			// 実行
+			const changes = getCategorizationChanges(convenienceRule, {
+				type: "expense",
+				amount: 600,
+				description: "ローソン",
+				categoryId: null,
+				tags: JSON.stringify(["現金"]),
+			});
+
+			// 検証
+			expect(changes).toEqual({
+				categoryId: 1,
+				tags: JSON.stringify(["現金", "コンビニ"]),
+			});
+		});
+
+		it("正常ケース: 設定済みのカテゴリは上書き指定時のみ置き換える", () => {
+			const transaction = {
+				type: "expense",
+				amount: 600,
+				description: "ローソン",
+				categoryId: 3,
+				tags: JSON.stringify(["コンビニ"]),
+			};
+
+			// 検証
+			expect(getCategorizationChanges(convenienceRule, transaction)).toEqual(
+				{},
+			);
+			expect(
+				getCategorizationChanges(convenienceRule, transaction, true),
+			).toEqual({ categoryId: 1 });
+		});
+
+		it("境界値ケース: メモは説明に追記し、既に含まれる場合は追記しない", () => {
+			// 検証
+			expect(
+				getCategorizationChanges(largeCardRule, {
+					type: "expense",
+					amount: 12000,
+					description: "家電量販店",
+				}),
+			).toEqual({ description: "家電量販店（要確認）" });
+			expect(
+				getCategorizationChanges(largeCardRule, {
+					type: "expense",
+					amount: 12000,
+					description: null,
+				}),
+			).toEqual({ description: "要確認" });
+			expect(
+				getCategorizationChanges(largeCardRule, {
+					type: "expense",
+					amount: 12000,
+					description: "家電量販店（要確認）",
+				}),
+			).toEqual({});
+		});
+	});
+
+	describe("categorizeTransaction", () => {
+		it("正常ケース: 作成する取引にルールを適用し、一致しない場合はそのまま返す", () => {
+			const matched = {
+				type: "expense",
+				amount: 480,
+				description: "ローソン 渋谷店",
+				transactionDate: "2025-07-01",
+				categoryId: null,
+				tags: null,
+			};
+			const unmatched = { ...matched, description: "スーパー" };
+
+			// 検証
+			expect(categorizeTransaction([convenienceRule], matched)).toEqual({
+				...matched,
+				categoryId: 1,
+				tags: JSON.stringify(["コンビニ"]),
+			});
+			expect(categorizeTransaction([convenienceRule], unmatched)).toBe(
+				unmatched,
+			);
+		});
+	});
+
+	describe("getCategorizationRuleValidationError", () => {
+		it("正常ケース: 条件と設定する値がある場合はnull", () => {
+			// 検証
+			expect(
+				getCategorizationRuleValidationError({
+					descriptionPattern: "ローソン",
+					categoryId: 1,
+				}),
+			).toBeNull();
+		});
+
+		it("異常ケース: 条件・設定する値がない", () => {
+			// 検証
+			expect(getCategorizationRuleValidationError({ categoryId: 1 })).toBe(
+				"条件（説明・金額・口座・支払い方法）を1つ以上指定してください",
+			);
+			expect(
+				getCategorizationRuleValidationError({
+					descriptionPattern: "ローソン",
+					tags: [],
+				}),
+			).toBe("設定する値（カテゴリ・タグ・メモ）を1つ以上指定してください");
+		});
+
+		it("異常ケース: 金額の範囲・正規表現が正しくない", () => {
+			// 検証
+			expect(
+				getCategorizationRuleValidationError({
+					minAmount: 2000,
+					maxAmount: 1000,
+					memo: "要確認",
+				}),
+			).toBe("金額の下限が上限を超えています");
+			expect(
+				getCategorizationRuleValidationError({
+					descriptionPattern: "[",
+					matchType: "regex",
+					categoryId: 1,
+				}),
+			).toBe("正規表現「[」が正しくありません");
+		});
+	});
+});
@@ -0,0 +1,560 @@
+import { and, asc, eq, gte, inArray, lte, not, sql } from "drizzle-orm";
+import type { Database } from "../connection";
+import {
+	type CreateCategorizationRule,
+	type InsertTransaction,
+	type SelectCategorizationRule,
+	categories,
+	categorizationRules,
+	transactions,
+} from "../schema";
+import { getAccountById } from "./accounts";
+import { getCategoryById } from "./categories";
+import { parseTagNames, syncTransactionTags } from "./tags";
+import { isSplitTransaction } from "./transaction-splits";
+
+/**
+ * 取引の自動分類ルール関連のデータベースクエリ関数
+ *
+ * 設計方針:
+ * - ルールは優先順位（priority）の昇順に判定し、条件に一致した最初のルールのみを適用する
+ * - 条件（説明のパターン・金額の範囲・口座・支払い方法）はすべて満たす必要があり、未指定の条件は判定しない
+ * - カテゴリは未分類の取引にのみ設定し、利用者が選んだカテゴリは上書きしない（既存取引への再適用で明示した場合を除く）
+ * - タグは取引の既存のタグに追加し、メモは取引の説明に追記する（同じメモが既にあれば追記しない）
+ * - 振替と分割した取引は分類の対象外とする
+ * - 一致判定・適用内容の計算は純粋関数とし、取引の作成・インポート・定期取引の生成・再適用で共有する
+ * - タグはJSON文字列のまま扱い、配列への変換はAPI層（app/utils/tags）で行う
+ */
+
+/**
+ * ルールの判定に使う取引の項目
+ */
+export interface CategorizableTransaction {
+	type: string;
+	amount: number;
+	description?: string | null;
+	accountId?: number | null;
+	paymentMethod?: string | null;
+	categoryId?: number | null;
+	tags?: string | null;
+}
+
+/**
+ * ルールの適用で変わる取引の項目
+ */
+export interface CategorizationChanges {
+	categoryId?: number;
+	tags?: string;
+	description?: string;
+}
+
+type CategorizationRuleCondition = Pick<
+	SelectCategorizationRule,
+	| "type"
+	| "descriptionPattern"
+	| "matchType"
+	| "minAmount"
+	| "maxAmount"
+	| "accountId"
+	| "paymentMethod"
+>;
+
+type CategorizationRuleAction = Pick<
+	SelectCategorizationRule,
+	"categoryId" | "tags" | "memo"
+>;
+
+type CategorizationRule = Pick<SelectCategorizationRule, "id" | "name"> &
+	CategorizationRuleCondition &
+	CategorizationRuleAction;
+
+/**
+ * ルールのカテゴリ情報を含む取得時の選択フィールド
+ */
+const ruleWithCategoryFields = {
+	id: categorizationRules.id,
+	name: categorizationRules.name,
+	type: categorizationRules.type,
+	descriptionPattern: categorizationRules.descriptionPattern,
+	matchType: categorizationRules.matchType,
+	minAmount: categorizationRules.minAmount,
+	maxAmount: categorizationRules.maxAmount,
+	accountId: categorizationRules.accountId,
+	paymentMethod: categorizationRules.paymentMethod,
+	categoryId: categorizationRules.categoryId,
+	tags: categorizationRules.tags,
+	memo: categorizationRules.memo,
+	priority: categorizationRules.priority,
+	isActive: categorizationRules.isActive,
+	createdAt: categorizationRules.createdAt,
+	updatedAt: categorizationRules.updatedAt,
+	category: {
+		id: categories.id,
+		name: categories.name,
+		type: categories.type,
+		color: categories.color,
+		isActive: categories.isActive,
+	},
+};
+
+// ========================================
+// 純粋関数（一致判定・適用内容の計算）
+// ========================================
+
+/**
+ * ルールの条件・設定する値の整合性を検証
+ * @returns エラーメッセージ（問題がない場合はnull）
+ */
+export function getCategorizationRuleValidationError(
+	rule: Partial<CategorizationRuleCondition> & {
+		categoryId?: number | null;
+		tags?: string[] | null;
+		memo?: string | null;
+	},
+): string | null {
+	const hasCondition =
+		!!rule.descriptionPattern ||
+		rule.minAmount != null ||
+		rule.maxAmount != null ||
+		!!rule.accountId ||
+		!!rule.paymentMethod;
+	if (!hasCondition) {
+		return "条件（説明・金額・口座・支払い方法）を1つ以上指定してください";
+	}
+
+	const hasAction =
+		!!rule.categoryId || (rule.tags?.length ?? 0) > 0 || !!rule.memo;
+	if (!hasAction) {
+		return "設定する値（カテゴリ・タグ・メモ）を1つ以上指定してください";
+	}
+
+	if (
+		rule.minAmount != null &&
+		rule.maxAmount != null &&
+		rule.minAmount > rule.maxAmount
+	) {
+		return "金額の下限が上限を超えています";
+	}
+
+	if (rule.matchType === "regex" && rule.descriptionPattern) {
+		try {
+			new RegExp(rule.descriptionPattern, "i");
+		} catch {
+			return `正規表現「${rule.descriptionPattern}」が正しくありません`;
+		}
+	}
+
+	return null;
+}
+
+/**
+ * 取引がルールの条件をすべて満たすかどうか
+ * 説明のパターンは大文字小文字を区別せず、正規表現が不正な場合は一致しないものとする
+ */
+export function matchesCategorizationRule(
+	rule: CategorizationRuleCondition,
+	transaction: CategorizableTransaction,
+): boolean {
+	if (rule.type !== transaction.type) return false;
+	if (rule.minAmount != null && transaction.amount < rule.minAmount) {
+		return false;
+	}
+	if (rule.maxAmount != null && transaction.amount > rule.maxAmount) {
+		return false;
+	}
+	if (rule.accountId && rule.accountId !== transaction.accountId) {
+		return false;
+	}
+	if (rule.paymentMethod && rule.paymentMethod !== transaction.paymentMethod) {
+		return false;
+	}
+
+	if (rule.descriptionPattern) {
+		const description = transaction.description ?? "";
+		if (rule.matchType === "regex") {
+			try {
+				return new RegExp(rule.descriptionPattern, "i").test(description);
+			} catch {
+				return false;
+			}
+		}
+		return description
+			.toLowerCase()
+			.includes(rule.descriptionPattern.toLowerCase());
+	}
+
+	return true;
+}
+
+/**
+ * 優先順位順に並んだルールから、取引に一致する最初のルールを探す
+ */
+export function findMatchingCategorizationRule<
+	T extends CategorizationRuleCondition,
+>(rules: T[], transaction: CategorizableTransaction): T | null {
+	if (transaction.type !== "income" && transaction.type !== "expense") {
+		return null;
+	}
+	return (
+		rules.find((rule) => matchesCategorizationRule(rule, transaction)) ?? null
+	);
+}
+
+/**
+ * ルールを適用した場合に変わる項目を計算（変わらない項目は含めない）
+ * @param overwriteCategory - trueの場合は設定済みのカテゴリもルールのカテゴリで置き換える
+ */
+export function getCategorizationChanges(
+	rule: CategorizationRuleAction,
+	transaction: CategorizableTransaction,
+	overwriteCategory = false,
+): CategorizationChanges {
+	const changes: CategorizationChanges = {};
+
+	if (
+		rule.categoryId &&
+		rule.categoryId !== transaction.categoryId &&
+		(overwriteCategory || !transaction.categoryId)
+	) {
+		changes.categoryId = rule.categoryId;
+	}
+
+	const currentTags = parseTagNames(transaction.tags);
+	const addedTags = parseTagNames(rule.tags).filter(
+		(tag) => !currentTags.includes(tag),
+	);
+	if (addedTags.length > 0) {
+		changes.tags = JSON.stringify([...currentTags, ...addedTags]);
+	}
+
+	const description = transaction.description ?? "";
+	if (rule.memo && !description.includes(rule.memo)) {
+		changes.description = description
+			? `${description}（${rule.memo}）`
+			: rule.memo;
+	}
+
+	return changes;
+}
+
+/**
+ * 作成する取引にルールを適用した値を返す（一致するルールがない場合はそのまま）
+ */
+export function categorizeTransaction<T extends CategorizableTransaction>(
+	rules: (CategorizationRuleCondition & CategorizationRuleAction)[],
+	transaction: T,
+): T {
+	const rule = findMatchingCategorizationRule(rules, transaction);
+	if (!rule) return transaction;
+	return { ...transaction, ...getCategorizationChanges(rule, transaction) };
+}
+
+// ========================================
+// データベース操作
+// ========================================
+
+/**
+ * ルールが設定するカテゴリ・条件の口座の存在と、カテゴリとルールの取引タイプの整合性を検証
+ * @returns エラーメッセージ（問題がない場合はnull）
+ */
+export async function getCategorizationRuleReferencesError(
+	db: Database,
+	rule: { type: string; categoryId?: number | null; accountId?: number | null },
+): Promise<string | null> {
+	if (rule.categoryId) {
+		const category = await getCategoryById(db, rule.categoryId);
+		if (!category) {
+			return `カテゴリID ${rule.categoryId} は存在しないか、無効です`;
+		}
+		if (category.type !== rule.type) {
+			return `カテゴリ「${category.name}」は${category.type === "income" ? "収入" : "支出"}カテゴリです`;
+		}
+	}
+
+	if (rule.accountId) {
+		const account = await getAccountById(db, rule.accountId);
+		if (!account) {
+			return `口座ID ${rule.accountId} は存在しないか、無効です`;
+		}
+	}
+
+	return null;
+}
+
+/**
+ * ルール一覧を優先順位順に取得（カテゴリ情報含む、無効なルールも含む）
+ */
+export async function getCategorizationRulesList(db: Database) {
+	return (await (db as any)
+		.select(ruleWithCategoryFields)
+		.from(categorizationRules)
+		.leftJoin(categories, eq(categorizationRules.categoryId, categories.id))
+		.orderBy(
+			asc(categorizationRules.priority),
+			asc(categorizationRules.id),
+		)) as any[];
+}
+
+/**
+ * IDでルールを取得（カテゴリ情報含む）
+ */
+export async function getCategorizationRuleById(db: Database, id: number) {
+	const [rule] = (await (db as any)
+		.select(ruleWithCategoryFields)
+		.from(categorizationRules)
+		.leftJoin(categories, eq(categorizationRules.categoryId, categories.id))
+		.where(eq(categorizationRules.id, id))
+		.limit(1)) as any[];
+
+	return rule;
+}
+
+/**
+ * 判定に使う有効なルールを優先順位順に取得
+ * 削除（論理削除）されたカテゴリは設定しない
+ */
+export async function getActiveCategorizationRules(
+	db: Database,
+): Promise<CategorizationRule[]> {
+	const rules = await getCategorizationRulesList(db);
+	return rules
+		.filter((rule) => rule.isActive)
+		.map(({ category, ...rule }) => ({
+			...rule,
+			categoryId: category?.isActive ? rule.categoryId : null,
+		}));
+}
+
+/**
+ * 作成する取引に有効なルールを適用した値を返す
+ * 取引の作成・インポート・定期取引の生成から呼び出す（分割した取引には使わない）
+ */
+export async function categorizeNewTransactions<
+	T extends CategorizableTransaction,
+>(db: Database, rows: T[]): Promise<T[]> {
+	if (rows.length === 0) return rows;
+	const rules = await getActiveCategorizationRules(db);
+	if (rules.length === 0) return rows;
+	return rows.map((row) => categorizeTransaction(rules, row));
+}
+
+/**
+ * 新しいルールを作成
+ * 優先順位が指定されていない場合、最後（最大値+1）に追加する
+ */
+export async function createCategorizationRule(
+	db: Database,
+	data: CreateCategorizationRule,
+) {
+	let priority = data.priority;
+	if (priority === undefined) {
+		const [maxPriority] = (await (db as any)
+			.select({
+				maxPriority: sql<number>`COALESCE(MAX(${categorizationRules.priority}), 0)`,
+			})
+			.from(categorizationRules)) as any;
+
+		priority = ((maxPriority as any).maxPriority || 0) + 1;
+	}
+
+	const { tags, ...ruleData } = data;
+	const [created] = await db
+		.insert(categorizationRules)
+		.values({
+			...ruleData,
+			tags: tags && tags.length > 0 ? JSON.stringify(tags) : null,
+			priority,
+		})
+		.returning();
+
+	return created;
+}
+
+/**
+ * ルールを更新
+ */
+export async function updateCategorizationRule(
+	db: Database,
+	id: number,
+	data: Partial<CreateCategorizationRule>,
+) {
+	const { tags, ...ruleData } = data;
+	const [updated] = await db
+		.update(categorizationRules)
+		.set({
+			...ruleData,
+			...(tags !== undefined && {
+				tags: tags && tags.length > 0 ? JSON.stringify(tags) : null,
+			}),
+			updatedAt: new Date().toISOString(),
+		})
+		.where(eq(categorizationRules.id, id))
+		.returning();
+
+	return updated;
+}
+
+/**
+ * ルールを削除（物理削除、適用済みの取引はそのまま）
+ */
+export async function deleteCategorizationRule(db: Database, id: number) {
+	const [deleted] = await db
+		.delete(categorizationRules)
+		.where(eq(categorizationRules.id, id))
+		.returning();
+
+	return deleted;
+}
+
+/**
+ * 優先順位を一括更新
+ * ルール管理画面の並び替えで使用
+ */
+export async function reorderCategorizationRules(
+	db: Database,
+	updates: { id: number; priority: number }[],
+) {
+	if (updates.length === 0) {
+		return [];
+	}
+
+	const now = new Date().toISOString();
+	const updatedResults = await Promise.all(
+		updates.map(async (update) => {
+			const [updated] = await db
+				.update(categorizationRules)
+				.set({ priority: update.priority, updatedAt: now })
+				.where(eq(categorizationRules.id, update.id))
+				.returning();
+
+			return updated;
+		}),
+	);
+
+	return updatedResults.filter(
+		(result): result is SelectCategorizationRule => !!result,
+	);
+}
+
+/**
+ * 既存の取引へのルールの再適用の結果（1取引分）
+ */
+export interface CategorizationPreviewEntry {
+	transactionId: number;
+	transactionDate: string;
+	amount: number;
+	ruleId: number;
+	ruleName: string;
+	before: {
+		categoryId: number | null;
+		tags: string | null;
+		description: string | null;
+	};
+	after: {
+		categoryId: number | null;
+		tags: string | null;
+		description: string | null;
+	};
+}
+
+/**
+ * 既存の取引に有効なルールを再適用
+ *
+ * - dryRunの場合は変更内容のみを返し、取引を更新しない
+ * - 振替と分割した取引は対象外
+ * - overwriteCategoryがfalseの場合、カテゴリは未分類の取引にのみ設定する
+ */
+export async function reapplyCategorizationRules(
+	db: Database,
+	options: {
+		dryRun: boolean;
+		overwriteCategory?: boolean;
+		startDate?: string;
+		endDate?: string;
+	},
+) {
+	const rules = await getActiveCategorizationRules(db);
+
+	const conditions = [
+		inArray(transactions.type, ["income", "expense"]),
+		not(isSplitTransaction),
+	];
+	if (options.startDate) {
+		conditions.push(gte(transactions.transactionDate, options.startDate));
+	}
+	if (options.endDate) {
+		conditions.push(lte(transactions.transactionDate, options.endDate));
+	}
+
+	const targets =
+		rules.length === 0
+			? []
+			: ((await (db as any)
+					.select({
+						id: transactions.id,
+						type: transactions.type,
+						amount: transactions.amount,
+						description: transactions.description,
+						transactionDate: transactions.transactionDate,
+						accountId: transactions.accountId,
+						paymentMethod: transactions.paymentMethod,
+						categoryId: transactions.categoryId,
+						tags: transactions.tags,
+					})
+					.from(transactions)
+					.where(and(...conditions))
+					.orderBy(
+						asc(transactions.transactionDate),
+						asc(transactions.id),
+					)) as any[]);
+
+	const entries: CategorizationPreviewEntry[] = [];
+	const retaggedTransactions: { id: number; tags: string | null }[] = [];
+	for (const transaction of targets) {
+		const rule = findMatchingCategorizationRule(rules, transaction);
+		if (!rule) continue;
+
+		const changes = getCategorizationChanges(
+			rule,
+			transaction,
+			options.overwriteCategory,
+		);
+		if (Object.keys(changes).length === 0) continue;
+
+		const before = {
+			categoryId: transaction.categoryId,
+			tags: transaction.tags,
+			description: transaction.description,
+		};
+		entries.push({
+			transactionId: transaction.id,
+			transactionDate: transaction.transactionDate,
+			amount: transaction.amount,
+			ruleId: rule.id,
+			ruleName: rule.name,
+			before,
+			after: { ...before, ...changes },
+		});
+
+		if (!options.dryRun) {
+			await db
+				.update(transactions)
+				.set({
+					...(changes as Partial<InsertTransaction>),
+					updatedAt: new Date().toISOString(),
+				})
+				.where(eq(transactions.id, transaction.id));
+			if (changes.tags !== undefined) {
+				retaggedTransactions.push({ id: transaction.id, tags: changes.tags });
+			}
+		}
+	}
+	await syncTransactionTags(db, retaggedTransactions);
+
+	return {
+		dryRun: options.dryRun,
+		checkedTransactions: targets.length,
+		changedTransactions: entries.length,
+		entries,
+	};
+}
@@ -0,0 +1,179 @@
+import { describe, expect, it } from "vitest";
+import {
+	buildCategorySuggestionModel,
+	getAmountBucket,
+	getRecencyWeight,
+	scoreCategorySuggestions,
+	tokenizeDescription,
+} from "./category-suggestions";
+
+/**
+ * カテゴリ推定関連関数のユニットテスト
+ *
+ * データベースに依存しないトークン分割・モデルの構築・採点のテスト
+ */
+
+const TODAY = "2025-07-01";
+
+// 食費（ID: 1）はコンビニ、交通費（ID: 2）は電車、日用品（ID: 3）はドラッグストアの取引
+const history = [
+	{
+		categoryId: 1,
+		description: "ローソン 渋谷店",
+		amount: 580,
+		transactionDate: "2025-06-28",
+	},
+	{
+		categoryId: 1,
+		description: "セブンイレブン",
+		amount: 430,
+		transactionDate: "2025-06-25",
+	},
+	{
+		categoryId: 1,
+		description: "ローソン 新宿店",
+		amount: 720,
+		transactionDate: "2025-06-20",
+	},
+	{
+		categoryId: 2,
+		description: "JR 定期券",
+		amount: 12000,
+		transactionDate: "2025-06-01",
+	},
+	{
+		categoryId: 2,
+		description: "Suica チャージ",
+		amount: 3000,
+		transactionDate: "2025-06-15",
+	},
+	{
+		categoryId: 3,
+		description: "マツモトキヨシ",
+		amount: 1800,
+		transactionDate: "2025-06-22",
+	},
+];
+
+describe("category suggestions utils", () => {
+	describe("tokenizeDescription", () => {
+		it("正常ケース: 日本語は文字bigram、英字は語全体に分割する", () => {
+			// 検証
+			expect(tokenizeDescription("ローソン SUICA")).toEqual([
+				"ロー",
+				"ーソ",
+				"ソン",
+				"suica",
+			]);
+		});
+
+		it("正常ケース: 全角英数字は半角に正規化し、数字のみの語は除外する", () => {
+			// 検証
+			expect(tokenizeDescription("ＡＭＡＺＯＮ 2025 店")).toEqual([
+				"amazon",
+				"店",
+			]);
+		});
+
+		it("境界値ケース: 空・nullの説明はトークンなし", () => {
+			// 検証
+			expect(tokenizeDescription("")).toEqual([]);
+			expect(tokenizeDescription(null)).toEqual([]);
+		});
+	});
+
+	describe("getAmountBucket / getRecencyWeight", () => {
+		it("正常ケース: 金額は対数スケールの金額帯に分ける", () => {
+			// 検証
+			expect([0, 300, 500, 1000, 5000].map(getAmountBucket)).toEqual([
+				0, 4, 5, 6, 7,
+			]);
+		});
+
+		it("境界値ケース: 半減期で重みが半分になり、未来の日付は1", () => {
+			// 検証
+			expect(getRecencyWeight(TODAY, TODAY)).toBe(1);
+			expect(getRecencyWeight("2025-01-02", TODAY)).toBeCloseTo(0.5, 5);
+			expect(getRecencyWeight("2025-07-10", TODAY)).toBe(1);
+		});
+	});
+
+	describe("scoreCategorySuggestions", () => {
+		const model = buildCategorySuggestionModel(history, TODAY);
+
+		it("正常ケース: 説明の部分一致から最も可能性の高いカテゴリを返す", () => {
+			// 実行
+			const scores = scoreCategorySuggestions(model, {
+				description: "ローソン池袋",
+				amount: 650,
+				transactionDate: TODAY,
+			});
+
+			// 検証
+			expect(scores[0].categoryId).toBe(1);
+			expect(scores[0].confidence).toBeGreaterThan(0.9);
+			expect(
+				scores.reduce((total, score) => total + score.confidence, 0),
+			).toBeCloseTo(1, 2);
+		});
+
+		it("正常ケース: 大文字小文字を区別せず英字の語で推定する", () => {
+			// 実行
+			const scores = scoreCategorySuggestions(model, {
+				description: "suica",
+			});
+
+			// 検証
+			expect(scores[0].categoryId).toBe(2);
+		});
+
+		it("境界値ケース: 説明が空の場合は金額帯と取引件数で推定する", () => {
+			// 実行
+			const scores = scoreCategorySuggestions(model, { amount: 12000 });
+
+			// 検証
+			expect(scores[0].categoryId).toBe(2);
+		});
+
+		it("境界値ケース: 新しい取引の多いカテゴリを優先する", () => {
+			const recencyModel = buildCategorySuggestionModel(
+				[
+					{
+						categoryId: 4,
+						description: "書籍",
+						amount: 1500,
+						transactionDate: "2023-01-01",
+					},
+					{
+						categoryId: 4,
+						description: "書籍",
+						amount: 1500,
+						transactionDate: "2023-02-01",
+					},
+					{
+						categoryId: 5,
+						description: "書籍",
+						amount: 1500,
+						transactionDate: "2025-06-30",
+					},
+				],
+				TODAY,
+			);
+
+			// 検証
+			expect(
+				scoreCategorySuggestions(recencyModel, { description: "書籍" })[0]
+					.categoryId,
+			).toBe(5);
+		});
+
+		it("異常ケース: 履歴がない場合は候補なし", () => {
+			// 検証
+			expect(
+				scoreCategorySuggestions(buildCategorySuggestionModel([], TODAY), {
+					description: "ローソン",
+				}),
+			).toEqual([]);
+		});
+	});
+});
@@ -0,0 +1,284 @@
+import { and, desc, eq, isNotNull, not } from "drizzle-orm";
+import type { Database } from "../connection";
+import { categories, transactions } from "../schema";
+import { isSplitTransaction } from "./transaction-splits";
+
+/**
+ * 取引履歴からのカテゴリ推定関連の関数
+ *
+ * 設計方針:
+ * - 過去の取引から説明のトークン・金額帯・曜日ごとのカテゴリの出現頻度を数え、
+ *   ナイーブベイズで入力中の取引のカテゴリを推定する（外部サービスを使わずに端末側のデータのみで完結）
+ * - 説明は日本語の単語境界が分からないため、かな・漢字を含む語は文字bigramに分割して部分一致を拾う
+ * - 新しい取引ほど重みを大きくし（半減期180日）、使われなくなったカテゴリの推定を弱める
+ * - モデルの構築・採点は純粋関数とし、データベースなしでテストできるようにする
+ * - 分割した取引は親にカテゴリがないため学習の対象外とする
+ */
+
+export interface CategorySuggestionHistoryEntry {
+	categoryId: number;
+	description: string | null;
+	amount: number;
+	transactionDate: string; // YYYY-MM-DD
+}
+
+export interface CategorySuggestionInput {
+	description?: string | null;
+	amount?: number | null;
+	transactionDate?: string | null; // YYYY-MM-DD
+}
+
+export interface CategoryScore {
+	categoryId: number;
+	confidence: number; // 0〜1（候補全体の合計が1、小数第3位まで）
+}
+
+interface CategoryFeatureWeights {
+	total: number;
+	tokens: Map<string, number>;
+	amountBuckets: Map<number, number>;
+	weekdays: Map<number, number>;
+}
+
+export interface CategorySuggestionModel {
+	categories: Map<number, CategoryFeatureWeights>;
+	totalWeight: number;
+	vocabulary: Set<string>;
+	amountBucketCount: number;
+}
+
+// 新しい取引ほど重くする際の半減期（日）
+const RECENCY_HALF_LIFE_DAYS = 180;
+// 出現しなかった特徴量に与える平滑化の重み
+const SMOOTHING = 0.5;
+// 学習に使う取引の最大件数（新しい順）
+const MAX_HISTORY_ENTRIES = 2000;
+// 候補として返す最低の確信度
+const MIN_CONFIDENCE = 0.05;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const JAPANESE_CHARACTER_PATTERN =
+	/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー]/u;
+
+/**
+ * 説明をトークンに分割する
+ * かな・漢字を含む語は文字bigram、英字を含む語は語全体をトークンとし、数字のみの語は除外する
+ */
+export function tokenizeDescription(description: string | null | undefined) {
+	if (!description) return [];
+
+	const tokens = new Set<string>();
+	const words = description
+		.normalize("NFKC")
+		.toLowerCase()
+		.split(/[^\p{L}\p{N}ー]+/u)
+		.filter((word) => word.length > 0);
+
+	for (const word of words) {
+		if (JAPANESE_CHARACTER_PATTERN.test(word)) {
+			const characters = Array.from(word);
+			if (characters.length === 1) {
+				tokens.add(word);
+				continue;
+			}
+			for (let i = 0; i < characters.length - 1; i++) {
+				tokens.add(characters[i] + characters[i + 1]);
+			}
+		} else if (!/^\p{N}+$/u.test(word) && word.length >= 2) {
+			tokens.add(word);
+		}
+	}
+
+	return Array.from(tokens);
+}
+
+/**
+ * 金額を対数スケールの金額帯に変換する（約3.16倍ごとに1段階）
+ */
+export function getAmountBucket(amount: number) {
+	return amount >= 1 ? Math.floor(Math.log10(amount) * 2) : 0;
+}
+
+/**
+ * 日付（YYYY-MM-DD）の曜日を返す（0が日曜日）
+ */
+export function getWeekday(date: string) {
+	return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * 基準日からの経過日数に応じた取引の重みを返す（基準日以降の取引は1）
+ */
+export function getRecencyWeight(transactionDate: string, today: string) {
+	const ageDays = Math.max(
+		0,
+		(Date.parse(today) - Date.parse(transactionDate)) / MS_PER_DAY,
+	);
+	return 0.5 ** (ageDays / RECENCY_HALF_LIFE_DAYS);
+}
+
+const addWeight = <K>(map: Map<K, number>, key: K, weight: number) =>
+	map.set(key, (map.get(key) ?? 0) + weight);
+
+/**
+ * 過去の取引からカテゴリ推定のモデルを構築する
+ */
+export function buildCategorySuggestionModel(
+	history: CategorySuggestionHistoryEntry[],
+	today: string,
+): CategorySuggestionModel {
+	const model: CategorySuggestionModel = {
+		categories: new Map(),
+		totalWeight: 0,
+		vocabulary: new Set(),
+		amountBucketCount: 0,
+	};
+	const amountBuckets = new Set<number>();
+
+	for (const entry of history) {
+		const weight = getRecencyWeight(entry.transactionDate, today);
+		let weights = model.categories.get(entry.categoryId);
+		if (!weights) {
+			weights = {
+				total: 0,
+				tokens: new Map(),
+				amountBuckets: new Map(),
+				weekdays: new Map(),
+			};
+			model.categories.set(entry.categoryId, weights);
+		}
+
+		weights.total += weight;
+		model.totalWeight += weight;
+		for (const token of tokenizeDescription(entry.description)) {
+			addWeight(weights.tokens, token, weight);
+			model.vocabulary.add(token);
+		}
+		const bucket = getAmountBucket(entry.amount);
+		addWeight(weights.amountBuckets, bucket, weight);
+		amountBuckets.add(bucket);
+		addWeight(weights.weekdays, getWeekday(entry.transactionDate), weight);
+	}
+
+	model.amountBucketCount = amountBuckets.size;
+	return model;
+}
+
+/**
+ * 入力中の取引に対するカテゴリごとの確信度を高い順に返す
+ * 過去に出現しなかったトークンはどのカテゴリの根拠にもならないため採点に使わない
+ */
+export function scoreCategorySuggestions(
+	model: CategorySuggestionModel,
+	input: CategorySuggestionInput,
+): CategoryScore[] {
+	if (model.totalWeight === 0) return [];
+
+	const tokens = tokenizeDescription(input.description).filter((token) =>
+		model.vocabulary.has(token),
+	);
+	const bucket = input.amount ? getAmountBucket(input.amount) : null;
+	const weekday = input.transactionDate
+		? getWeekday(input.transactionDate)
+		: null;
+
+	const logScores = Array.from(model.categories, ([categoryId, weights]) => {
+		let logScore = Math.log(weights.total / model.totalWeight);
+		for (const token of tokens) {
+			// トークンが説明に含まれる確率（含む・含まないの2通りで平滑化）
+			logScore += Math.log(
+				((weights.tokens.get(token) ?? 0) + SMOOTHING) /
+					(weights.total + SMOOTHING * 2),
+			);
+		}
+		if (bucket !== null) {
+			logScore += Math.log(
+				((weights.amountBuckets.get(bucket) ?? 0) + SMOOTHING) /
+					(weights.total + SMOOTHING * (model.amountBucketCount + 1)),
+			);
+		}
+		if (weekday !== null) {
+			logScore += Math.log(
+				((weights.weekdays.get(weekday) ?? 0) + SMOOTHING) /
+					(weights.total + SMOOTHING * 7),
+			);
+		}
+		return { categoryId, logScore };
+	});
+
+	// softmaxで合計1の確信度に変換する（桁あふれを防ぐため最大値を引く）
+	const maxLogScore = Math.max(...logScores.map((score) => score.logScore));
+	const exponents = logScores.map((score) => ({
+		categoryId: score.categoryId,
+		value: Math.exp(score.logScore - maxLogScore),
+	}));
+	const sum = exponents.reduce((total, score) => total + score.value, 0);
+
+	return exponents
+		.map((score) => ({
+			categoryId: score.categoryId,
+			confidence: Math.round((score.value / sum) * 1000) / 1000,
+		}))
+		.sort((a, b) => b.confidence - a.confidence || a.categoryId - b.categoryId);
+}
+
+export interface CategorySuggestion extends CategoryScore {
+	name: string;
+	color: string | null;
+}
+
+/**
+ * 取引履歴から入力中の取引のカテゴリ候補を取得する
+ * 同じ種別（収入・支出）の有効なカテゴリの取引のみを学習に使う
+ */
+export async function getCategorySuggestions(
+	db: Database,
+	type: "income" | "expense",
+	input: CategorySuggestionInput,
+	options: { limit: number; today: string },
+): Promise<CategorySuggestion[]> {
+	const rows = await (db as any)
+		.select({
+			categoryId: transactions.categoryId,
+			description: transactions.description,
+			amount: transactions.amount,
+			transactionDate: transactions.transactionDate,
+			name: categories.name,
+			color: categories.color,
+		})
+		.from(transactions)
+		.innerJoin(categories, eq(transactions.categoryId, categories.id))
+		.where(
+			and(
+				eq(transactions.type, type),
+				isNotNull(transactions.categoryId),
+				eq(categories.isActive, true),
+				not(isSplitTransaction),
+			),
+		)
+		.orderBy(desc(transactions.transactionDate), desc(transactions.id))
+		.limit(MAX_HISTORY_ENTRIES);
+
+	const categoryDetails = new Map<
+		number,
+		Pick<CategorySuggestion, "name" | "color">
+	>(
+		rows.map((row: CategorySuggestionHistoryEntry & CategorySuggestion) => [
+			row.categoryId,
+			{ name: row.name, color: row.color },
+		]),
+	);
+	const model = buildCategorySuggestionModel(rows, options.today);
+
+	return scoreCategorySuggestions(model, input)
+		.filter((score) => score.confidence >= MIN_CONFIDENCE)
+		.slice(0, options.limit)
+		.map((score) => ({
+			...score,
+			// 採点の対象は履歴に出現したカテゴリのみのため必ず存在する
+			...(categoryDetails.get(score.categoryId) as Pick<
+				CategorySuggestion,
+				"name" | "color"
+			>),
+		}));
+}
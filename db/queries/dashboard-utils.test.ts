@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { buildDashboardSummary, compareWithPreviousMonth } from "./dashboard";
+
+/**
+ * ダッシュボードのサマリー関数のユニットテスト
+ *
+ * データベースに依存しない前月比・サブスク負担額の計算のテスト
+ */
+
+describe("dashboard utils", () => {
+	describe("compareWithPreviousMonth", () => {
+		it("正常ケース: 差額と前月比（%）を計算", () => {
+			// 検証
+			expect(compareWithPreviousMonth(120000, 100000)).toEqual({
+				current: 120000,
+				previous: 100000,
+				change: 20000,
+				changeRate: 20,
+			});
+		});
+
+		it("境界値ケース: 前月が0の場合は前月比をnullにする", () => {
+			// 検証
+			expect(compareWithPreviousMonth(5000, 0).changeRate).toBeNull();
+		});
+
+		it("正常ケース: 前月がマイナスでも増加を正の割合で表す", () => {
+			// 検証
+			expect(compareWithPreviousMonth(-5000, -10000).changeRate).toBe(50);
+		});
+	});
+
+	describe("buildDashboardSummary", () => {
+		const monthlyTotals = [
+			{ month: "2024-12", type: "income", total: 250000, subscriptionTotal: 0 },
+			{
+				month: "2024-12",
+				type: "expense",
+				total: 180000,
+				subscriptionTotal: 3000,
+			},
+			{ month: "2025-01", type: "income", total: 300000, subscriptionTotal: 0 },
+			{
+				month: "2025-01",
+				type: "expense",
+				total: 150000,
+				subscriptionTotal: 1500,
+			},
+		];
+
+		it("正常ケース: 今月と前月（年をまたぐ）の収支を比較", () => {
+			// 実行
+			const result = buildDashboardSummary("2025-01-15", monthlyTotals, 0);
+
+			// 検証
+			expect(result.month).toBe("2025-01");
+			expect(result.previousMonth).toBe("2024-12");
+			expect(result.income).toMatchObject({
+				current: 300000,
+				previous: 250000,
+				change: 50000,
+			});
+			expect(result.expense).toMatchObject({
+				current: 150000,
+				previous: 180000,
+				change: -30000,
+			});
+			expect(result.balance).toMatchObject({
+				current: 150000,
+				previous: 70000,
+				change: 80000,
+			});
+		});
+
+		it("正常ケース: サブスクは今月と前月の支払額を比較し、月額換算は丸めて返す", () => {
+			// 実行
+			const result = buildDashboardSummary("2025-01-15", monthlyTotals, 3249.6);
+
+			// 検証
+			expect(result.subscriptions).toEqual({
+				current: 1500,
+				previous: 3000,
+				change: -1500,
+				changeRate: -50,
+				monthlyTotal: 3250,
+			});
+		});
+
+		it("境界値ケース: 取引がない場合は全て0", () => {
+			// 実行
+			const result = buildDashboardSummary("2025-03-01", [], 0);
+
+			// 検証
+			expect(result.income.current).toBe(0);
+			expect(result.balance).toEqual({
+				current: 0,
+				previous: 0,
+				change: 0,
+				changeRate: null,
+			});
+		});
+	});
+});
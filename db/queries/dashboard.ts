@@ -0,0 +1,175 @@
+import { and, gte, lte, sql } from "drizzle-orm";
+import type { Database } from "../connection";
+import { installmentPlans, transactions } from "../schema";
+import { getPreviousMonthStart, isIncomeOrExpense } from "./reports";
+import { getMonthlySubscriptionTotal } from "./subscriptions";
+
+/**
+ * ダッシュボードのサマリー関連のデータベースクエリ関数
+ *
+ * 設計方針:
+ * - 今月・前月の収入・支出とサブスクの負担額を1回のAPI呼び出しで返す
+ *   （サマリーカードごとにリクエストが分散しないようにする）
+ * - SQLでは月別・種別の合計のみを集計し、前月比は純粋関数で計算する
+ * - サブスクの負担額は有効なサブスクの月額換算（getMonthlySubscriptionTotal）とし、
+ *   月額換算の履歴は持たないため、前月比は今月と前月に記録されたサブスクの支払額どうしで比較する
+ *   （月額換算と同じく、分割払いの支払いはどちらの月の支払額にも含めない）
+ * - 口座間の振替はレポートと同じく収入・支出に含めない
+ */
+
+export interface MonthlyTypeTotal {
+	month: string; // YYYY-MM
+	type: string; // 'income' | 'expense'
+	total: number;
+	subscriptionTotal: number; // サブスクから生成された取引（recurringIdあり、分割払いを除く）の合計
+}
+
+export interface SummaryComparison {
+	current: number;
+	previous: number;
+	change: number; // 前月との差額
+	changeRate: number | null; // 前月比（%、小数第1位まで。前月が0の場合はnull）
+}
+
+export interface DashboardSummary {
+	month: string; // YYYY-MM
+	previousMonth: string; // YYYY-MM
+	income: SummaryComparison;
+	expense: SummaryComparison;
+	balance: SummaryComparison;
+	// 今月・前月に記録されたサブスクの支払額の比較
+	subscriptions: SummaryComparison & {
+		monthlyTotal: number; // 有効なサブスクの月額換算の合計
+	};
+}
+
+/**
+ * 今月・前月の値から前月比を計算
+ */
+export function compareWithPreviousMonth(
+	current: number,
+	previous: number,
+): SummaryComparison {
+	return {
+		current,
+		previous,
+		change: current - previous,
+		changeRate:
+			previous === 0
+				? null
+				: Math.round(((current - previous) / Math.abs(previous)) * 1000) / 10,
+	};
+}
+
+/**
+ * 月別・種別の合計とサブスクの月額換算からダッシュボードのサマリーを組み立てる
+ *
+ * @param today - 基準日（YYYY-MM-DD）。この日を含む月を「今月」とする
+ * @param monthlyTotals - 今月・前月の月別・種別の合計
+ * @param subscriptionMonthlyTotal - 有効なサブスクの月額換算の合計
+ */
+export function buildDashboardSummary(
+	today: string,
+	monthlyTotals: MonthlyTypeTotal[],
+	subscriptionMonthlyTotal: number,
+): DashboardSummary {
+	const month = today.slice(0, 7);
+	const previousMonth = getPreviousMonthStart(today).slice(0, 7);
+
+	const sumOf = (
+		targetMonth: string,
+		type: string,
+		key: "total" | "subscriptionTotal",
+	) =>
+		monthlyTotals
+			.filter((row) => row.month === targetMonth && row.type === type)
+			.reduce((sum, row) => sum + row[key], 0);
+
+	const income = compareWithPreviousMonth(
+		sumOf(month, "income", "total"),
+		sumOf(previousMonth, "income", "total"),
+	);
+	const expense = compareWithPreviousMonth(
+		sumOf(month, "expense", "total"),
+		sumOf(previousMonth, "expense", "total"),
+	);
+	const balance = compareWithPreviousMonth(
+		income.current - expense.current,
+		income.previous - expense.previous,
+	);
+
+	return {
+		month,
+		previousMonth,
+		income,
+		expense,
+		balance,
+		subscriptions: {
+			...compareWithPreviousMonth(
+				sumOf(month, "expense", "subscriptionTotal"),
+				sumOf(previousMonth, "expense", "subscriptionTotal"),
+			),
+			monthlyTotal: Math.round(subscriptionMonthlyTotal),
+		},
+	};
+}
+
+/**
+ * 月別・種別の取引合計を取得（サブスクから生成された取引の合計を含む）
+ * 分割払いもサブスクリプションとして取引を生成するが、サブスクの支払額には含めない
+ */
+export async function getMonthlyTypeTotals(
+	db: Database,
+	startDate: string,
+	endDate: string,
+): Promise<MonthlyTypeTotal[]> {
+	const month = sql<string>`substr(${transactions.transactionDate}, 1, 7)`;
+	const rows = await (db as any)
+		.select({
+			month,
+			type: transactions.type,
+			total: sql<number>`COALESCE(SUM(${transactions.amount}), 0)`,
+			subscriptionTotal: sql<number>`COALESCE(SUM(CASE WHEN ${transactions.recurringId} IS NOT NULL AND NOT EXISTS (SELECT 1 FROM ${installmentPlans} WHERE ${installmentPlans.subscriptionId} = ${transactions.recurringId}) THEN ${transactions.amount} ELSE 0 END), 0)`,
+		})
+		.from(transactions)
+		.where(
+			and(
+				gte(transactions.transactionDate, startDate),
+				lte(transactions.transactionDate, endDate),
+				isIncomeOrExpense,
+			),
+		)
+		.groupBy(month, transactions.type);
+
+	return rows.map((row: MonthlyTypeTotal) => ({
+		...row,
+		total: Number(row.total),
+		subscriptionTotal: Number(row.subscriptionTotal),
+	}));
+}
+
+/**
+ * ダッシュボードのサマリーを取得
+ *
+ * @param today - 基準日（YYYY-MM-DD）
+ */
+export async function getDashboardSummary(
+	db: Database,
+	today: string,
+): Promise<DashboardSummary> {
+	const [monthlyTotals, subscriptionMonthlyTotal] = await Promise.all([
+		// 日付は文字列で比較するため、月の日数によらず「-31」で今月末までを含める
+		getMonthlyTypeTotals(
+			db,
+			getPreviousMonthStart(today),
+			`${today.slice(0, 7)}-31`,
+		),
+		getMonthlySubscriptionTotal(db),
+	]);
+
+	return buildDashboardSummary(
+		today,
+		monthlyTotals,
+		Number(subscriptionMonthlyTotal),
+	);
+}
@@ -0,0 +1,220 @@
+import { describe, expect, it } from "vitest";
+import {
+	calculateInstallmentSchedule,
+	calculateRevolvingSchedule,
+	getRevolvingTermsError,
+	resolveInstallmentTerms,
+	summarizeInstallmentPlan,
+} from "./installments";
+
+/**
+ * 分割払い・リボ払い関連関数のユニットテスト
+ *
+ * データベースに依存しない支払予定の計算と進捗の集計のテスト
+ */
+
+// 100,000円の買い物を手数料3,000円・12回払いで、初回1月27日から支払う計画
+const plan = {
+	principalAmount: 100000,
+	fee: 3000,
+	paymentCount: 12,
+	firstPaymentDate: "2025-01-27",
+	paidOffDate: null,
+};
+
+describe("installments utils", () => {
+	describe("calculateInstallmentSchedule", () => {
+		it("正常ケース: 支払総額を回数で割り、端数は初回に上乗せする", () => {
+			// 実行
+			const schedule = calculateInstallmentSchedule(plan);
+
+			// 検証
+			expect(schedule).toHaveLength(12);
+			expect(schedule[0]).toEqual({
+				paymentNumber: 1,
+				paymentDate: "2025-01-27",
+				amount: 8587,
+			});
+			expect(schedule[1].amount).toBe(8583);
+			expect(schedule.reduce((sum, payment) => sum + payment.amount, 0)).toBe(
+				103000,
+			);
+			expect(schedule[11].paymentDate).toBe("2025-12-27");
+		});
+
+		it("境界値ケース: 月末の支払日は月の日数に合わせて丸め、年をまたぐ", () => {
+			// 実行
+			const schedule = calculateInstallmentSchedule({
+				principalAmount: 30000,
+				fee: 0,
+				paymentCount: 3,
+				firstPaymentDate: "2024-12-31",
+			});
+
+			// 検証
+			expect(schedule.map((payment) => payment.paymentDate)).toEqual([
+				"2024-12-31",
+				"2025-01-31",
+				"2025-02-28",
+			]);
+			expect(schedule.map((payment) => payment.amount)).toEqual([
+				10000, 10000, 10000,
+			]);
+		});
+	});
+
+	describe("summarizeInstallmentPlan", () => {
+		it("正常ケース: 支払済みの取引から残高・残り回数・次回の支払いを集計", () => {
+			// 実行
+			const summary = summarizeInstallmentPlan(plan, [
+				{ amount: 8587, transactionDate: "2025-01-27" },
+				{ amount: 8583, transactionDate: "2025-02-27" },
+			]);
+
+			// 検証
+			expect(summary).toEqual({
+				totalAmount: 103000,
+				monthlyAmount: 8583,
+				paidAmount: 17170,
+				paidCount: 2,
+				remainingAmount: 85830,
+				remainingPayments: 10,
+				nextPayment: {
+					paymentNumber: 3,
+					paymentDate: "2025-03-27",
+					amount: 8583,
+				},
+				status: "active",
+			});
+		});
+
+		it("正常ケース: 繰上げ返済した計画は残高・残り回数を0とする", () => {
+			// 実行
+			const summary = summarizeInstallmentPlan(
+				{ ...plan, paidOffDate: "2025-03-10" },
+				[
+					{ amount: 8587, transactionDate: "2025-01-27" },
+					{ amount: 94413, transactionDate: "2025-03-10" },
+				],
+			);
+
+			// 検証
+			expect(summary.status).toBe("paid_off");
+			expect(summary.remainingAmount).toBe(0);
+			expect(summary.remainingPayments).toBe(0);
+			expect(summary.nextPayment).toBeNull();
+		});
+
+		it("境界値ケース: 全回の支払いが済んだ計画は完了とする", () => {
+			// 実行
+			const summary = summarizeInstallmentPlan(
+				plan,
+				calculateInstallmentSchedule(plan).map((payment) => ({
+					amount: payment.amount,
+					transactionDate: payment.paymentDate,
+				})),
+			);
+
+			// 検証
+			expect(summary.status).toBe("completed");
+			expect(summary.remainingAmount).toBe(0);
+			expect(summary.nextPayment).toBeNull();
+		});
+	});
+
+	describe("calculateRevolvingSchedule", () => {
+		// 100,000円を毎月10,000円（利息込み）・実質年率15%のリボ払いで、初回1月27日から支払う
+		const revolving = {
+			principalAmount: 100000,
+			firstPaymentDate: "2025-01-27",
+			monthlyPayment: 10000,
+			interestRate: 15,
+		};
+
+		it("正常ケース: 元金残高に月利をかけた利息を含めて毎月の支払額を支払う", () => {
+			// 実行
+			const schedule = calculateRevolvingSchedule(revolving);
+
+			// 検証
+			expect(schedule[0]).toEqual({
+				paymentNumber: 1,
+				paymentDate: "2025-01-27",
+				amount: 10000,
+				interest: 1250,
+				balance: 91250,
+			});
+			expect(schedule[1]).toMatchObject({ interest: 1140, balance: 82390 });
+			expect(schedule).toHaveLength(11);
+			expect(schedule[10]).toMatchObject({
+				paymentDate: "2025-11-27",
+				amount: 7497,
+				interest: 92,
+				balance: 0,
+			});
+		});
+
+		it("正常ケース: 作成時は支払回数と利息の合計を支払予定から確定する", () => {
+			// 実行
+			const terms = resolveInstallmentTerms({
+				...revolving,
+				paymentType: "revolving",
+				name: "家電",
+			});
+
+			// 検証
+			expect(terms).toMatchObject({
+				paymentType: "revolving",
+				fee: 7497,
+				paymentCount: 11,
+				monthlyPayment: 10000,
+				interestRate: 15,
+			});
+		});
+
+		it("異常ケース: 残高が減らない・1回で支払い終わる支払額はエラー", () => {
+			// 検証
+			expect(getRevolvingTermsError(revolving)).toBeNull();
+			expect(
+				getRevolvingTermsError({ ...revolving, monthlyPayment: 1250 }),
+			).toBe("毎月の支払額が利息以下のため、残高が減りません");
+			expect(
+				getRevolvingTermsError({ ...revolving, monthlyPayment: 101250 }),
+			).toBe(
+				"毎月の支払額で1回で支払い終わるため、リボ払いとして登録できません",
+			);
+			expect(
+				getRevolvingTermsError({ ...revolving, monthlyPayment: 1300 }),
+			).toBe(
+				"支払回数が上限（120回）を超えます。毎月の支払額を増やしてください",
+			);
+		});
+
+		it("正常ケース: リボ払いの残高は利息を含まない元金残高とする", () => {
+			// 実行
+			const summary = summarizeInstallmentPlan(
+				{
+					...resolveInstallmentTerms({
+						...revolving,
+						paymentType: "revolving",
+						name: "家電",
+					}),
+					paidOffDate: null,
+				},
+				[
+					{ amount: 10000, transactionDate: "2025-01-27" },
+					{ amount: 10000, transactionDate: "2025-02-27" },
+				],
+			);
+
+			// 検証
+			expect(summary).toMatchObject({
+				totalAmount: 107497,
+				monthlyAmount: 10000,
+				paidAmount: 20000,
+				remainingAmount: 82390,
+				remainingPayments: 9,
+				status: "active",
+			});
+		});
+	});
+});
@@ -0,0 +1,633 @@
+import { and, asc, desc, eq, inArray, isNull, sql } from "drizzle-orm";
+import type { Database } from "../connection";
+import {
+	type CreateInstallmentPlan,
+	MAX_INSTALLMENT_PAYMENTS,
+	type SelectInstallmentPlan,
+	categories,
+	installmentPlans,
+	subscriptions,
+	transactions,
+} from "../schema";
+import { addMonths, getClampedDate } from "./card-statements";
+import {
+	categorizeTransaction,
+	getActiveCategorizationRules,
+} from "./categorization-rules";
+import { getTodayInJst } from "./recurrence";
+import { createTransaction } from "./transactions";
+
+/**
+ * 分割払い（購入金額を複数回に分けて支払う計画）・リボ払い関連のデータベースクエリ関数
+ *
+ * 設計方針:
+ * - 名前・カテゴリ・口座・次回支払日は計画ごとに作成するサブスクリプション（月次）に持たせ、
+ *   毎月の支出取引はサブスクリプションと同じくrecurringIdで紐付けて生成する
+ *   （分割払いのサブスクリプションはサブスクリプション一覧・自動生成の対象から除く）
+ * - 支払額は「購入金額 + 手数料」を支払回数で割り、割り切れない端数は初回に上乗せする
+ * - リボ払いは毎月の支払額（利息を含む元利定額）を固定し、毎月の利息は元金残高 × 実質年率 ÷ 12（円未満切り捨て）とする
+ *   元金残高が0になるまでの支払予定から支払回数・利息の合計を作成時に確定し、以降は分割払いと同じく取引を生成する
+ *   （リボ払いの残高は利息を含まない元金残高とし、繰上げ返済では残りの利息を支払わない）
+ * - 支払日は初回の支払日と同じ日を毎月とし、月の日数を超える場合は月末に丸める
+ * - 支払済みの金額・回数は生成済みの取引から集計し、残高・残り回数は純粋関数で計算する
+ * - 繰上げ返済は残高を1件の取引として計上し、以降の支払いを生成しない
+ */
+
+/**
+ * 分割払いの支払予定（1回分）
+ */
+export interface InstallmentPayment {
+	paymentNumber: number; // 何回目の支払いか（1始まり）
+	paymentDate: string; // YYYY-MM-DD
+	amount: number;
+}
+
+/**
+ * リボ払いの支払予定（1回分）の内訳
+ */
+export interface RevolvingPayment extends InstallmentPayment {
+	interest: number; // 支払額のうち利息
+	balance: number; // 支払後の元金残高
+}
+
+/**
+ * 支払済みの取引（recurringIdで紐付いた支出）
+ */
+export interface InstallmentPaidTransaction {
+	amount: number;
+	transactionDate: string;
+}
+
+export type InstallmentPlanStatus = "active" | "completed" | "paid_off";
+
+/**
+ * 分割払いの進捗
+ */
+export interface InstallmentPlanSummary {
+	totalAmount: number; // 支払総額（購入金額 + 手数料）
+	monthlyAmount: number; // 2回目以降の毎月の支払額
+	paidAmount: number;
+	paidCount: number;
+	remainingAmount: number; // 残高（完済済みの場合は0）
+	remainingPayments: number; // 残り回数（完済済みの場合は0）
+	nextPayment: InstallmentPayment | null;
+	status: InstallmentPlanStatus;
+}
+
+type InstallmentTerms = Pick<
+	SelectInstallmentPlan,
+	"principalAmount" | "fee" | "paymentCount" | "firstPaymentDate"
+> &
+	Partial<
+		Pick<
+			SelectInstallmentPlan,
+			"paymentType" | "monthlyPayment" | "interestRate"
+		>
+	>;
+
+/**
+ * リボ払いの支払条件
+ */
+export type RevolvingTerms = Pick<
+	SelectInstallmentPlan,
+	"principalAmount" | "firstPaymentDate"
+> & { monthlyPayment: number; interestRate: number };
+
+/**
+ * 分割払いのサブスクリプションかどうかのSQL条件
+ * サブスクリプション一覧・自動生成から分割払いを除くために使う
+ */
+export const isInstallmentSubscription = sql`EXISTS (SELECT 1 FROM ${installmentPlans} WHERE ${installmentPlans.subscriptionId} = ${subscriptions.id})`;
+
+/**
+ * リボ払いの支払予定を計算
+ * 元金残高が0になるまで毎月の支払額を支払い、最終回は残高と利息のみを支払う
+ * 利息が毎月の支払額以上で残高が減らない場合や、支払回数が上限を超える場合は上限の回数で打ち切る
+ * （作成時は getRevolvingTermsError で検証する）
+ */
+export function calculateRevolvingSchedule(
+	terms: RevolvingTerms,
+): RevolvingPayment[] {
+	const firstMonth = terms.firstPaymentDate.slice(0, 7);
+	const paymentDay = Number(terms.firstPaymentDate.slice(8, 10));
+
+	const payments: RevolvingPayment[] = [];
+	let balance = terms.principalAmount;
+	while (balance > 0 && payments.length < MAX_INSTALLMENT_PAYMENTS) {
+		const interest = Math.floor((balance * terms.interestRate) / 100 / 12);
+		const amount = Math.min(terms.monthlyPayment, balance + interest);
+		if (amount <= interest) break;
+
+		balance -= amount - interest;
+		payments.push({
+			paymentNumber: payments.length + 1,
+			paymentDate: getClampedDate(
+				addMonths(firstMonth, payments.length),
+				paymentDay,
+			),
+			amount,
+			interest,
+			balance,
+		});
+	}
+	return payments;
+}
+
+/**
+ * リボ払いの支払条件の検証
+ *
+ * @returns エラーメッセージ（問題がなければnull）
+ */
+export function getRevolvingTermsError(terms: RevolvingTerms): string | null {
+	const firstInterest = Math.floor(
+		(terms.principalAmount * terms.interestRate) / 100 / 12,
+	);
+	if (terms.monthlyPayment <= firstInterest) {
+		return "毎月の支払額が利息以下のため、残高が減りません";
+	}
+	if (terms.monthlyPayment >= terms.principalAmount + firstInterest) {
+		return "毎月の支払額で1回で支払い終わるため、リボ払いとして登録できません";
+	}
+	const schedule = calculateRevolvingSchedule(terms);
+	if (schedule.at(-1)?.balance !== 0) {
+		return `支払回数が上限（${MAX_INSTALLMENT_PAYMENTS}回）を超えます。毎月の支払額を増やしてください`;
+	}
+	return null;
+}
+
+/**
+ * リボ払いの支払条件を取り出す（分割払いの場合はnull）
+ */
+function getRevolvingTerms(terms: InstallmentTerms): RevolvingTerms | null {
+	if (
+		terms.paymentType !== "revolving" ||
+		terms.monthlyPayment == null ||
+		terms.interestRate == null
+	) {
+		return null;
+	}
+	return {
+		principalAmount: terms.principalAmount,
+		firstPaymentDate: terms.firstPaymentDate,
+		monthlyPayment: terms.monthlyPayment,
+		interestRate: terms.interestRate,
+	};
+}
+
+/**
+ * 分割払いの支払予定を計算
+ * 端数は初回の支払額に上乗せする（リボ払いの場合はcalculateRevolvingScheduleの支払予定）
+ */
+export function calculateInstallmentSchedule(
+	terms: InstallmentTerms,
+): InstallmentPayment[] {
+	const revolvingTerms = getRevolvingTerms(terms);
+	if (revolvingTerms) {
+		return calculateRevolvingSchedule(revolvingTerms).map(
+			({ paymentNumber, paymentDate, amount }) => ({
+				paymentNumber,
+				paymentDate,
+				amount,
+			}),
+		);
+	}
+
+	const totalAmount = terms.principalAmount + terms.fee;
+	const monthlyAmount = Math.floor(totalAmount / terms.paymentCount);
+	const remainder = totalAmount - monthlyAmount * terms.paymentCount;
+
+	const firstMonth = terms.firstPaymentDate.slice(0, 7);
+	const paymentDay = Number(terms.firstPaymentDate.slice(8, 10));
+
+	return Array.from({ length: terms.paymentCount }, (_, index) => ({
+		paymentNumber: index + 1,
+		paymentDate: getClampedDate(addMonths(firstMonth, index), paymentDay),
+		amount: index === 0 ? monthlyAmount + remainder : monthlyAmount,
+	}));
+}
+
+/**
+ * 支払予定と支払済みの取引から分割払いの進捗を集計
+ * 支払済みの判定は取引日で行う（生成済みの取引を削除した場合は未払いに戻る）
+ */
+export function summarizeInstallmentPlan(
+	plan: InstallmentTerms & Pick<SelectInstallmentPlan, "paidOffDate">,
+	paidTransactions: InstallmentPaidTransaction[],
+): InstallmentPlanSummary {
+	const schedule = calculateInstallmentSchedule(plan);
+	const totalAmount = plan.principalAmount + plan.fee;
+	const paidAmount = paidTransactions.reduce(
+		(sum, transaction) => sum + transaction.amount,
+		0,
+	);
+	const paidDates = new Set(
+		paidTransactions.map((transaction) => transaction.transactionDate),
+	);
+	const unpaid = schedule.filter(
+		(payment) => !paidDates.has(payment.paymentDate),
+	);
+
+	const isPaidOff = plan.paidOffDate != null;
+	const remainingPayments = isPaidOff ? 0 : unpaid.length;
+
+	// リボ払いの残高は、最初の未払いの回の前の元金残高（以降の利息は含めない）
+	const revolvingTerms = getRevolvingTerms(plan);
+	let remainingAmount = Math.max(totalAmount - paidAmount, 0);
+	if (revolvingTerms) {
+		const revolvingSchedule = calculateRevolvingSchedule(revolvingTerms);
+		const nextIndex = unpaid[0] ? unpaid[0].paymentNumber - 1 : null;
+		remainingAmount =
+			nextIndex === null
+				? 0
+				: (revolvingSchedule[nextIndex - 1]?.balance ?? plan.principalAmount);
+	}
+
+	return {
+		totalAmount,
+		// 毎月の支払額（分割払いは端数を含まない2回目以降、リボ払いは最終回を除く毎月の支払額）
+		monthlyAmount: revolvingTerms
+			? revolvingTerms.monthlyPayment
+			: (schedule.at(-1)?.amount ?? 0),
+		paidAmount,
+		paidCount: paidTransactions.length,
+		remainingAmount: isPaidOff ? 0 : remainingAmount,
+		remainingPayments,
+		nextPayment: isPaidOff ? null : (unpaid[0] ?? null),
+		status: isPaidOff
+			? "paid_off"
+			: remainingPayments === 0
+				? "completed"
+				: "active",
+	};
+}
+
+/**
+ * 分割払いの一覧・詳細で返すフィールド（サブスクリプションの名前・カテゴリを含む）
+ */
+const installmentPlanFields = {
+	id: installmentPlans.id,
+	subscriptionId: installmentPlans.subscriptionId,
+	paymentType: installmentPlans.paymentType,
+	principalAmount: installmentPlans.principalAmount,
+	fee: installmentPlans.fee,
+	paymentCount: installmentPlans.paymentCount,
+	firstPaymentDate: installmentPlans.firstPaymentDate,
+	monthlyPayment: installmentPlans.monthlyPayment,
+	interestRate: installmentPlans.interestRate,
+	paidOffDate: installmentPlans.paidOffDate,
+	name: subscriptions.name,
+	description: subscriptions.description,
+	categoryId: subscriptions.categoryId,
+	accountId: subscriptions.accountId,
+	createdAt: installmentPlans.createdAt,
+	updatedAt: installmentPlans.updatedAt,
+	category: {
+		id: categories.id,
+		name: categories.name,
+		type: categories.type,
+		color: categories.color,
+		icon: categories.icon,
+	},
+};
+
+/**
+ * サブスクリプションIDごとの支払済みの取引を取得
+ */
+async function getPaidTransactionsBySubscription(
+	db: Database,
+	subscriptionIds: number[],
+): Promise<Map<number, InstallmentPaidTransaction[]>> {
+	const paidBySubscription = new Map<number, InstallmentPaidTransaction[]>();
+	if (subscriptionIds.length === 0) return paidBySubscription;
+
+	const rows: (InstallmentPaidTransaction & { recurringId: number })[] = await (
+		db as any
+	)
+		.select({
+			recurringId: transactions.recurringId,
+			amount: transactions.amount,
+			transactionDate: transactions.transactionDate,
+		})
+		.from(transactions)
+		.where(inArray(transactions.recurringId, subscriptionIds))
+		.orderBy(asc(transactions.transactionDate));
+
+	for (const { recurringId, ...transaction } of rows) {
+		const paid = paidBySubscription.get(recurringId) ?? [];
+		paid.push(transaction);
+		paidBySubscription.set(recurringId, paid);
+	}
+	return paidBySubscription;
+}
+
+/**
+ * 分割払いの一覧を進捗付きで取得（新しい順）
+ */
+export async function getInstallmentPlansList(db: Database) {
+	const plans = await (db as any)
+		.select(installmentPlanFields)
+		.from(installmentPlans)
+		.innerJoin(
+			subscriptions,
+			eq(installmentPlans.subscriptionId, subscriptions.id),
+		)
+		.leftJoin(categories, eq(subscriptions.categoryId, categories.id))
+		.orderBy(desc(installmentPlans.createdAt), desc(installmentPlans.id));
+
+	const paidBySubscription = await getPaidTransactionsBySubscription(
+		db,
+		plans.map((plan: SelectInstallmentPlan) => plan.subscriptionId),
+	);
+
+	return plans.map((plan: SelectInstallmentPlan) => ({
+		...plan,
+		summary: summarizeInstallmentPlan(
+			plan,
+			paidBySubscription.get(plan.subscriptionId) ?? [],
+		),
+	}));
+}
+
+/**
+ * IDで分割払いを取得（進捗・支払予定を含む）
+ */
+export async function getInstallmentPlanById(db: Database, id: number) {
+	const [plan] = await (db as any)
+		.select(installmentPlanFields)
+		.from(installmentPlans)
+		.innerJoin(
+			subscriptions,
+			eq(installmentPlans.subscriptionId, subscriptions.id),
+		)
+		.leftJoin(categories, eq(subscriptions.categoryId, categories.id))
+		.where(eq(installmentPlans.id, id))
+		.limit(1);
+	if (!plan) return plan;
+
+	const paidTransactions =
+		(await getPaidTransactionsBySubscription(db, [plan.subscriptionId])).get(
+			plan.subscriptionId,
+		) ?? [];
+
+	return {
+		...plan,
+		summary: summarizeInstallmentPlan(plan, paidTransactions),
+		schedule: calculateInstallmentSchedule(plan),
+	};
+}
+
+/**
+ * 作成時に保存する支払条件を決定
+ * リボ払いは支払予定から支払回数・利息の合計を計算する（支払条件は getRevolvingTermsError で検証済みとする）
+ */
+export function resolveInstallmentTerms(input: CreateInstallmentPlan) {
+	if (input.paymentType === "revolving") {
+		const schedule = calculateRevolvingSchedule({
+			principalAmount: input.principalAmount,
+			firstPaymentDate: input.firstPaymentDate,
+			monthlyPayment: input.monthlyPayment ?? 0,
+			interestRate: input.interestRate ?? 0,
+		});
+		return {
+			paymentType: "revolving" as const,
+			principalAmount: input.principalAmount,
+			fee: schedule.reduce((sum, payment) => sum + payment.interest, 0),
+			paymentCount: schedule.length,
+			firstPaymentDate: input.firstPaymentDate,
+			monthlyPayment: input.monthlyPayment ?? null,
+			interestRate: input.interestRate ?? null,
+		};
+	}
+
+	return {
+		paymentType: "installment" as const,
+		principalAmount: input.principalAmount,
+		fee: input.fee ?? 0,
+		paymentCount: input.paymentCount ?? 0,
+		firstPaymentDate: input.firstPaymentDate,
+		monthlyPayment: null,
+		interestRate: null,
+	};
+}
+
+/**
+ * 分割払い・リボ払いを作成
+ * 毎月の支払いを生成するサブスクリプション（月次）を合わせて作成する
+ */
+export async function createInstallmentPlan(
+	db: Database,
+	input: CreateInstallmentPlan,
+) {
+	const terms = resolveInstallmentTerms(input);
+	const summary = summarizeInstallmentPlan({ ...terms, paidOffDate: null }, []);
+
+	const [subscription] = await db
+		.insert(subscriptions)
+		.values({
+			name: input.name,
+			amount: summary.monthlyAmount,
+			categoryId: input.categoryId,
+			accountId: input.accountId,
+			description: input.description,
+			frequency: "monthly",
+			nextPaymentDate: input.firstPaymentDate,
+		})
+		.returning();
+
+	const [created] = await db
+		.insert(installmentPlans)
+		.values({ subscriptionId: subscription.id, ...terms })
+		.returning();
+
+	return created;
+}
+
+/**
+ * 分割払いを削除
+ * 生成済みの取引は支出の記録として残し、定期取引の参照のみ外す
+ */
+export async function deleteInstallmentPlan(
+	db: Database,
+	plan: Pick<SelectInstallmentPlan, "id" | "subscriptionId">,
+) {
+	await db
+		.update(transactions)
+		.set({ recurringId: null, isRecurring: false })
+		.where(eq(transactions.recurringId, plan.subscriptionId));
+	await db.delete(installmentPlans).where(eq(installmentPlans.id, plan.id));
+	await db
+		.delete(subscriptions)
+		.where(eq(subscriptions.id, plan.subscriptionId));
+}
+
+/**
+ * 分割払いを繰上げ返済（一括返済）する
+ * 返済額の取引を自動分類ルールを適用して作成し、完済日を記録して以降の支払いを止める
+ *
+ * @param amount 返済額（未指定の場合は残高）
+ */
+export async function payOffInstallmentPlan(
+	db: Database,
+	plan: {
+		id: number;
+		subscriptionId: number;
+		name: string;
+		categoryId: number | null;
+		accountId: number | null;
+		summary: InstallmentPlanSummary;
+	},
+	payoff: { date: string; amount?: number },
+) {
+	// 毎月の支払いと同じく、自動分類ルールを適用して作成する
+	const transaction = await createTransaction(
+		db,
+		categorizeTransaction(await getActiveCategorizationRules(db), {
+			amount: payoff.amount ?? plan.summary.remainingAmount,
+			type: "expense",
+			categoryId: plan.categoryId,
+			accountId: plan.accountId,
+			description: `${plan.name}（繰上げ返済）`,
+			transactionDate: payoff.date,
+			isRecurring: true,
+			recurringId: plan.subscriptionId,
+		}),
+	);
+
+	const now = new Date().toISOString();
+	await db
+		.update(installmentPlans)
+		.set({ paidOffDate: payoff.date, updatedAt: now })
+		.where(eq(installmentPlans.id, plan.id));
+	await db
+		.update(subscriptions)
+		.set({ isActive: false, updatedAt: now })
+		.where(eq(subscriptions.id, plan.subscriptionId));
+
+	return transaction;
+}
+
+/**
+ * 支払日が到来した分割払いの支出取引を生成
+ *
+ * - 対象: 繰上げ返済しておらず、サブスクリプションがアクティブな分割払い
+ * - 基準日以前の未生成の支払いをまとめて生成し、次回支払日を次の支払予定に進める
+ * - 最終回まで生成した場合はサブスクリプションを非アクティブにする
+ * - 同じ取引日の取引が既にあれば生成しない（サブスクリプションと同じ冪等性の担保）
+ */
+export async function generateInstallmentTransactions(
+	db: Database,
+	today: string = getTodayInJst(),
+) {
+	const plans = await (db as any)
+		.select({
+			id: installmentPlans.id,
+			subscriptionId: installmentPlans.subscriptionId,
+			paymentType: installmentPlans.paymentType,
+			principalAmount: installmentPlans.principalAmount,
+			fee: installmentPlans.fee,
+			paymentCount: installmentPlans.paymentCount,
+			firstPaymentDate: installmentPlans.firstPaymentDate,
+			monthlyPayment: installmentPlans.monthlyPayment,
+			interestRate: installmentPlans.interestRate,
+			name: subscriptions.name,
+			categoryId: subscriptions.categoryId,
+			accountId: subscriptions.accountId,
+		})
+		.from(installmentPlans)
+		.innerJoin(
+			subscriptions,
+			eq(installmentPlans.subscriptionId, subscriptions.id),
+		)
+		.where(
+			and(
+				isNull(installmentPlans.paidOffDate),
+				eq(subscriptions.isActive, true),
+			),
+		)
+		.orderBy(asc(installmentPlans.id));
+
+	// 生成する取引に適用する自動分類ルール
+	const rules = plans.length > 0 ? await getActiveCategorizationRules(db) : [];
+
+	const results: {
+		installmentPlanId: number;
+		name: string;
+		createdDates: string[];
+		skippedDates: string[];
+		nextPaymentDate: string | null;
+	}[] = [];
+
+	for (const plan of plans) {
+		const schedule = calculateInstallmentSchedule(plan);
+		const duePayments = schedule.filter(
+			(payment) => payment.paymentDate <= today,
+		);
+		if (duePayments.length === 0) continue;
+
+		const paidDates = new Set(
+			(
+				(
+					await getPaidTransactionsBySubscription(db, [plan.subscriptionId])
+				).get(plan.subscriptionId) ?? []
+			).map((transaction) => transaction.transactionDate),
+		);
+
+		const createdDates: string[] = [];
+		const skippedDates: string[] = [];
+		for (const payment of duePayments) {
+			// 前回の実行が途中で失敗した場合に備え、生成済みの取引は再作成しない
+			if (paidDates.has(payment.paymentDate)) {
+				skippedDates.push(payment.paymentDate);
+				continue;
+			}
+
+			await createTransaction(
+				db,
+				categorizeTransaction(rules, {
+					amount: payment.amount,
+					type: "expense",
+					categoryId: plan.categoryId,
+					accountId: plan.accountId,
+					description:
+						plan.paymentType === "revolving"
+							? `${plan.name}（リボ払い ${payment.paymentNumber}/${plan.paymentCount}回）`
+							: `${plan.name}（${payment.paymentNumber}/${plan.paymentCount}回）`,
+					transactionDate: payment.paymentDate,
+					isRecurring: true,
+					recurringId: plan.subscriptionId,
+				}),
+			);
+			createdDates.push(payment.paymentDate);
+		}
+
+		// 次の支払予定に進め、最終回まで生成した場合は非アクティブにする
+		const nextPayment = schedule[duePayments.length];
+		await db
+			.update(subscriptions)
+			.set({
+				...(nextPayment
+					? { nextPaymentDate: nextPayment.paymentDate }
+					: { isActive: false }),
+				updatedAt: new Date().toISOString(),
+			})
+			.where(eq(subscriptions.id, plan.subscriptionId));
+
+		results.push({
+			installmentPlanId: plan.id,
+			name: plan.name,
+			createdDates,
+			skippedDates,
+			nextPaymentDate: nextPayment?.paymentDate ?? null,
+		});
+	}
+
+	return {
+		processedDate: today,
+		processedPlans: results.length,
+		createdTransactions: results.reduce(
+			(sum, result) => sum + result.createdDates.length,
+			0,
+		),
+		plans: results,
+	};
+}
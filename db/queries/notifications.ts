@@ -0,0 +1,78 @@
+import { desc, eq, sql } from "drizzle-orm";
+import type { Database } from "../connection";
+import { type SelectNotification, notifications } from "../schema";
+
+/**
+ * アプリ内通知関連のデータベースクエリ関数
+ *
+ * 設計方針:
+ * - 通知はサブスクリプションのリマインダーの定期実行（subscription-reminders.ts）で作成する
+ * - 既読・未読はnotifications.isReadで管理し、通知そのものは既読にしても残す
+ * - 一覧は作成の新しい順とし、ヘッダーのベルには未読件数を表示する
+ */
+
+/**
+ * 一覧で取得する通知の件数のデフォルト
+ */
+export const DEFAULT_NOTIFICATION_LIMIT = 20;
+
+/**
+ * 通知の一覧を作成の新しい順で取得
+ */
+export async function getNotifications(
+	db: Database,
+	options: { unreadOnly?: boolean; limit?: number } = {},
+): Promise<SelectNotification[]> {
+	const { unreadOnly = false, limit = DEFAULT_NOTIFICATION_LIMIT } = options;
+
+	return db
+		.select()
+		.from(notifications)
+		.where(unreadOnly ? eq(notifications.isRead, false) : undefined)
+		.orderBy(desc(notifications.createdAt), desc(notifications.id))
+		.limit(limit);
+}
+
+/**
+ * 未読の通知の件数を取得
+ */
+export async function getUnreadNotificationCount(
+	db: Database,
+): Promise<number> {
+	const [result] = (await (db as any)
+		.select({ count: sql<number>`COUNT(*)` })
+		.from(notifications)
+		.where(eq(notifications.isRead, false))) as { count: number }[];
+
+	return Number(result?.count ?? 0);
+}
+
+/**
+ * 通知を既読にする
+ *
+ * @returns 更新後の通知（存在しない場合はundefined）
+ */
+export async function markNotificationRead(db: Database, id: number) {
+	const [updated] = await db
+		.update(notifications)
+		.set({ isRead: true })
+		.where(eq(notifications.id, id))
+		.returning();
+
+	return updated;
+}
+
+/**
+ * 未読の通知をすべて既読にする
+ *
+ * @returns 既読にした件数
+ */
+export async function markAllNotificationsRead(db: Database): Promise<number> {
+	const updated = await db
+		.update(notifications)
+		.set({ isRead: true })
+		.where(eq(notifications.isRead, false))
+		.returning();
+
+	return updated.length;
+}
@@ -0,0 +1,262 @@
+import { describe, expect, it } from "vitest";
+import {
+	adjustToBusinessDay,
+	alignToRecurrence,
+	calculateNextOccurrence,
+	getAnnualPaymentCount,
+	getDaysUntil,
+	getJapaneseHolidays,
+	getLastBusinessDayOfMonth,
+	getMonthlyEquivalentAmount,
+	getTodayInJst,
+	isBusinessDay,
+	isValidDate,
+} from "./recurrence";
+
+/**
+ * 支払日計算（繰り返しルール）のユニットテスト
+ *
+ * 日本時間の今日・祝日・営業日の判定と、月末の丸め・支払い間隔・
+ * 前営業日/翌営業日へのずらしを含む次の支払日の計算のテスト
+ */
+
+describe("recurrence utils", () => {
+	describe("getTodayInJst / getDaysUntil", () => {
+		it("正常ケース: UTCの前日15時以降は日本時間の翌日になる", () => {
+			// 検証
+			expect(getTodayInJst(new Date("2026-10-18T15:00:00Z"))).toBe(
+				"2026-10-19",
+			);
+			expect(getTodayInJst(new Date("2026-10-18T14:59:59Z"))).toBe(
+				"2026-10-18",
+			);
+		});
+
+		it("正常ケース: 支払日までの日数を日付単位で計算する", () => {
+			// 検証
+			expect(getDaysUntil("2026-10-19", "2026-10-19")).toBe(0);
+			expect(getDaysUntil("2026-11-01", "2026-10-19")).toBe(13);
+			expect(getDaysUntil("2026-10-18", "2026-10-19")).toBe(-1);
+		});
+	});
+
+	describe("isValidDate", () => {
+		it("境界値ケース: 存在しない日付・形式の異なる日付はfalse", () => {
+			// 検証
+			expect(isValidDate("2024-02-29")).toBe(true);
+			expect(isValidDate("2025-02-29")).toBe(false);
+			expect(isValidDate("2025-02-31")).toBe(false);
+			expect(isValidDate("2025-13-01")).toBe(false);
+			expect(isValidDate("2025-1-01")).toBe(false);
+		});
+	});
+
+	describe("getJapaneseHolidays / isBusinessDay", () => {
+		it("正常ケース: ハッピーマンデー・春分の日・秋分の日を計算する", () => {
+			// 実行
+			const holidays = getJapaneseHolidays(2026);
+
+			// 検証
+			expect(holidays.get("2026-01-12")).toBe("成人の日");
+			expect(holidays.get("2026-03-20")).toBe("春分の日");
+			expect(holidays.get("2026-09-21")).toBe("敬老の日");
+			expect(holidays.get("2026-09-23")).toBe("秋分の日");
+			expect(holidays.get("2026-10-12")).toBe("スポーツの日");
+		});
+
+		it("正常ケース: 振替休日・国民の休日を含める", () => {
+			// 検証
+			// 5月3日（日）の振替休日は祝日が続くため5月6日
+			expect(getJapaneseHolidays(2026).get("2026-05-06")).toBe("振替休日");
+			// 敬老の日と秋分の日に挟まれた日
+			expect(getJapaneseHolidays(2026).get("2026-09-22")).toBe("国民の休日");
+			expect(getJapaneseHolidays(2027).get("2027-03-22")).toBe("振替休日");
+		});
+
+		it("境界値ケース: 土日祝日と年末年始は営業日ではない", () => {
+			// 検証
+			expect(isBusinessDay("2026-10-19")).toBe(true);
+			expect(isBusinessDay("2026-10-31")).toBe(false);
+			expect(isBusinessDay("2026-11-03")).toBe(false);
+			expect(isBusinessDay("2026-12-31")).toBe(false);
+			expect(isBusinessDay("2027-01-04")).toBe(true);
+		});
+	});
+
+	describe("adjustToBusinessDay / getLastBusinessDayOfMonth", () => {
+		it("正常ケース: 連休中の日付を前営業日・翌営業日にずらす", () => {
+			// 検証
+			expect(adjustToBusinessDay("2026-05-03", "previous")).toBe("2026-05-01");
+			expect(adjustToBusinessDay("2026-05-03", "next")).toBe("2026-05-07");
+			expect(adjustToBusinessDay("2026-05-03", "none")).toBe("2026-05-03");
+			expect(adjustToBusinessDay("2026-10-19", "next")).toBe("2026-10-19");
+		});
+
+		it("正常ケース: 月の最終営業日を計算する", () => {
+			// 検証
+			expect(getLastBusinessDayOfMonth(2026, 10)).toBe("2026-10-30");
+			expect(getLastBusinessDayOfMonth(2026, 5)).toBe("2026-05-29");
+			expect(getLastBusinessDayOfMonth(2026, 12)).toBe("2026-12-30");
+		});
+	});
+
+	describe("calculateNextOccurrence", () => {
+		it("正常ケース: 日次・週次は間隔分の日数を加算する", () => {
+			// 検証
+			expect(
+				calculateNextOccurrence("2026-10-19", {
+					frequency: "weekly",
+					intervalCount: 2,
+				}),
+			).toBe("2026-11-02");
+			expect(
+				calculateNextOccurrence("2026-12-31", { frequency: "daily" }),
+			).toBe("2027-01-01");
+		});
+
+		it("正常ケース: 支払日は月末に丸め、丸めた翌月以降は元の日に戻る", () => {
+			// 実行
+			const rule = { frequency: "monthly", billingDay: 31 };
+
+			// 検証
+			expect(calculateNextOccurrence("2026-01-31", rule)).toBe("2026-02-28");
+			expect(calculateNextOccurrence("2026-02-28", rule)).toBe("2026-03-31");
+			expect(
+				calculateNextOccurrence("2026-08-31", { ...rule, intervalCount: 6 }),
+			).toBe("2027-02-28");
+		});
+
+		it("正常ケース: 年次の2月29日はうるう年以外は2月28日になる", () => {
+			// 実行
+			const rule = { frequency: "yearly", billingDay: 29 };
+
+			// 検証
+			expect(calculateNextOccurrence("2024-02-29", rule)).toBe("2025-02-28");
+			expect(
+				calculateNextOccurrence("2026-02-28", { ...rule, intervalCount: 2 }),
+			).toBe("2028-02-29");
+		});
+
+		it("正常ケース: 月末最終営業日（支払日31日・前営業日）", () => {
+			// 実行
+			const rule = {
+				frequency: "monthly",
+				billingDay: 31,
+				businessDayAdjustment: "previous",
+			};
+
+			// 検証
+			expect(calculateNextOccurrence("2026-09-30", rule)).toBe("2026-10-30");
+			expect(calculateNextOccurrence("2026-10-30", rule)).toBe("2026-11-30");
+		});
+
+		it("境界値ケース: 前月・翌月にずれた支払日からも正しい月の次の支払日を計算する", () => {
+			// 検証
+			// 11月1日（日）の前営業日は10月30日（金）、その次は12月1日
+			expect(
+				calculateNextOccurrence("2026-10-30", {
+					frequency: "monthly",
+					billingDay: 1,
+					businessDayAdjustment: "previous",
+				}),
+			).toBe("2026-12-01");
+			// 2月28日（土）の翌営業日は3月2日（月）、その次は3月31日
+			expect(
+				calculateNextOccurrence("2026-03-02", {
+					frequency: "monthly",
+					billingDay: 31,
+					businessDayAdjustment: "next",
+				}),
+			).toBe("2026-03-31");
+		});
+
+		it("正常ケース: 四半期・半年・2年ごとは対応する月数を加算する", () => {
+			// 検証
+			expect(
+				calculateNextOccurrence("2026-11-30", {
+					frequency: "quarterly",
+					billingDay: 31,
+				}),
+			).toBe("2027-02-28");
+			expect(
+				calculateNextOccurrence("2026-08-31", {
+					frequency: "semiannual",
+					billingDay: 31,
+				}),
+			).toBe("2027-02-28");
+			expect(
+				calculateNextOccurrence("2024-02-29", {
+					frequency: "biennial",
+					billingDay: 29,
+				}),
+			).toBe("2026-02-28");
+		});
+
+		it("異常ケース: サポートされていない頻度はエラー", () => {
+			// 検証
+			expect(() =>
+				calculateNextOccurrence("2026-10-19", { frequency: "hourly" }),
+			).toThrow("Unsupported frequency: hourly");
+		});
+	});
+
+	describe("alignToRecurrence", () => {
+		it("正常ケース: 支払日と異なる日付はその日以降の最初の支払日にする", () => {
+			// 検証
+			expect(
+				alignToRecurrence("2026-10-15", {
+					frequency: "monthly",
+					billingDay: 31,
+				}),
+			).toBe("2026-10-31");
+			expect(
+				alignToRecurrence("2026-10-15", {
+					frequency: "monthly",
+					billingDay: 10,
+				}),
+			).toBe("2026-11-10");
+		});
+
+		it("境界値ケース: 支払日と一致する日付は休業日に応じてずらす", () => {
+			// 検証
+			expect(
+				alignToRecurrence("2026-11-01", {
+					frequency: "monthly",
+					billingDay: 1,
+					businessDayAdjustment: "previous",
+				}),
+			).toBe("2026-10-30");
+			expect(
+				alignToRecurrence("2026-11-01", {
+					frequency: "weekly",
+					businessDayAdjustment: "previous",
+				}),
+			).toBe("2026-11-01");
+		});
+	});
+
+	describe("getAnnualPaymentCount / getMonthlyEquivalentAmount", () => {
+		it("正常ケース: 請求頻度と支払い間隔から年間の請求回数を計算する", () => {
+			// 検証
+			expect(getAnnualPaymentCount("monthly")).toBe(12);
+			expect(getAnnualPaymentCount("quarterly")).toBe(4);
+			expect(getAnnualPaymentCount("semiannual")).toBe(2);
+			expect(getAnnualPaymentCount("biennial")).toBe(0.5);
+			expect(getAnnualPaymentCount("weekly", 2)).toBe(26);
+			expect(getAnnualPaymentCount("monthly", 3)).toBe(4);
+		});
+
+		it("正常ケース: 月額に換算する", () => {
+			// 検証
+			expect(getMonthlyEquivalentAmount(12000, "yearly")).toBe(1000);
+			expect(getMonthlyEquivalentAmount(3000, "quarterly")).toBe(1000);
+			expect(getMonthlyEquivalentAmount(1200, "weekly", 2)).toBe(2600);
+		});
+
+		it("異常ケース: サポートされていない頻度は0回", () => {
+			// 検証
+			expect(getAnnualPaymentCount("hourly")).toBe(0);
+			expect(getMonthlyEquivalentAmount(1000, "hourly")).toBe(0);
+		});
+	});
+});
@@ -0,0 +1,431 @@
+/**
+ * 定期支払いの支払日計算（繰り返しルール）
+ *
+ * 設計方針:
+ * - 日付はYYYY-MM-DD形式の文字列のまま扱い、年月日の計算はUTCの日付として行う
+ *   （Date#setMonthや実行環境のタイムゾーンに依存した計算による日付のずれを防ぐ）
+ * - 「今日」は日本時間（JST）で判定する（Workersはタイムゾーンが UTC のため）
+ * - 月単位の周期（月次・四半期・半年・年次・2年）は支払日（1〜31日）を基準に計算し、月の日数を超える日は月末に丸める
+ *   （1月31日 → 2月29日 → 3月31日のように、丸めた日付から次の支払日がずれていかない）
+ * - 支払日が土日祝日・年末年始（12月31日〜1月3日）の場合は、前営業日・翌営業日にずらせる
+ *   「月末最終営業日」は支払日31日（月末）を前営業日にずらす指定として表す
+ * - 祝日は祝日法の規定（固定日・ハッピーマンデー・春分/秋分の日・振替休日・国民の休日）から計算する
+ *   （春分・秋分の日の計算式は2099年まで有効）
+ * - APIの自動生成とUIのカウントダウン表示の両方で使用するため、データベースに依存しない純粋関数のみを置く
+ */
+
+export interface RecurrenceRule {
+	frequency: string; // SubscriptionFrequency
+	intervalCount?: number | null; // 周期の倍数（例: monthly × 3 = 3か月ごと）
+	billingDay?: number | null; // 支払日（1〜31、月単位の周期のみ。未指定の場合は基準日の日）
+	businessDayAdjustment?: string | null; // 土日祝日の場合の扱い（BusinessDayAdjustment）
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+const padNumber = (value: number) => String(value).padStart(2, "0");
+
+const parseDate = (date: string): [number, number, number] => {
+	const [year, month, day] = date.split("-").map(Number);
+	return [year, month, day];
+};
+
+const toUtcDate = (date: string): Date => {
+	const [year, month, day] = parseDate(date);
+	return new Date(Date.UTC(year, month - 1, day));
+};
+
+const formatUtcDate = (date: Date): string =>
+	`${date.getUTCFullYear()}-${padNumber(date.getUTCMonth() + 1)}-${padNumber(date.getUTCDate())}`;
+
+const formatDate = (year: number, month: number, day: number): string =>
+	`${year}-${padNumber(month)}-${padNumber(day)}`;
+
+/**
+ * YYYY-MM-DD形式の実在する日付か（2月30日のような存在しない日付はfalse）
+ */
+export function isValidDate(date: string): boolean {
+	return (
+		/^\d{4}-\d{2}-\d{2}$/.test(date) && formatUtcDate(toUtcDate(date)) === date
+	);
+}
+
+/**
+ * 日本時間（JST）の今日の日付をYYYY-MM-DD形式で取得
+ *
+ * @param now - 現在日時（テスト用）
+ */
+export function getTodayInJst(now: Date = new Date()): string {
+	return new Date(now.getTime() + JST_OFFSET_MS).toISOString().split("T")[0];
+}
+
+/**
+ * 日付に日数を加算（負の値で減算）
+ */
+export function addDays(date: string, days: number): string {
+	const result = toUtcDate(date);
+	result.setUTCDate(result.getUTCDate() + days);
+	return formatUtcDate(result);
+}
+
+/**
+ * 2つの日付の間の日数（to - from）を計算
+ * 時刻を含まない日付同士の差のため、実行環境のタイムゾーンに影響されない
+ */
+export function getDaysBetween(from: string, to: string): number {
+	return Math.round(
+		(toUtcDate(to).getTime() - toUtcDate(from).getTime()) / DAY_MS,
+	);
+}
+
+/**
+ * 年月の日数を取得
+ *
+ * @param month - 月（1〜12）
+ */
+export function getDaysInMonth(year: number, month: number): number {
+	// 翌月の0日 = 当月の末日
+	return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * 曜日を取得（0: 日曜 〜 6: 土曜）
+ */
+function getDayOfWeek(date: string): number {
+	return toUtcDate(date).getUTCDay();
+}
+
+/**
+ * 第N月曜日の日を計算（ハッピーマンデー制度の祝日用）
+ */
+function getNthMonday(year: number, month: number, nth: number): number {
+	const firstDayOfWeek = getDayOfWeek(formatDate(year, month, 1));
+	return 1 + ((8 - firstDayOfWeek) % 7) + (nth - 1) * 7;
+}
+
+/**
+ * 春分の日・秋分の日の日を計算（1980〜2099年に有効な近似式）
+ */
+function getEquinoxDay(year: number, base: number): number {
+	return Math.floor(
+		base + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4),
+	);
+}
+
+// 年ごとの祝日（日付 → 祝日名）のキャッシュ
+const holidayCache = new Map<number, Map<string, string>>();
+
+/**
+ * 祝日法で定められた祝日（振替休日・国民の休日を除く）を計算
+ */
+function getStatutoryHolidays(year: number): [number, number, string][] {
+	const holidays: [number, number, string][] = [
+		[1, 1, "元日"],
+		[1, year >= 2000 ? getNthMonday(year, 1, 2) : 15, "成人の日"],
+		[2, 11, "建国記念の日"],
+		[3, getEquinoxDay(year, 20.8431), "春分の日"],
+		[4, 29, year >= 2007 ? "昭和の日" : "みどりの日"],
+		[5, 3, "憲法記念日"],
+		[5, 5, "こどもの日"],
+		[9, getEquinoxDay(year, 23.2488), "秋分の日"],
+		[11, 3, "文化の日"],
+		[11, 23, "勤労感謝の日"],
+	];
+
+	if (year >= 2007) {
+		holidays.push([5, 4, "みどりの日"]);
+	}
+
+	if (year >= 2020) {
+		holidays.push([2, 23, "天皇誕生日"]);
+	} else if (year >= 1989 && year <= 2018) {
+		holidays.push([12, 23, "天皇誕生日"]);
+	}
+
+	// 東京オリンピック・パラリンピックに伴う2020・2021年の移動を含む
+	if (year === 2020) {
+		holidays.push(
+			[7, 23, "海の日"],
+			[7, 24, "スポーツの日"],
+			[8, 10, "山の日"],
+		);
+	} else if (year === 2021) {
+		holidays.push([7, 22, "海の日"], [7, 23, "スポーツの日"], [8, 8, "山の日"]);
+	} else {
+		holidays.push([7, year >= 2003 ? getNthMonday(year, 7, 3) : 20, "海の日"]);
+		holidays.push([
+			10,
+			year >= 2000 ? getNthMonday(year, 10, 2) : 10,
+			year >= 2020 ? "スポーツの日" : "体育の日",
+		]);
+		if (year >= 2016) {
+			holidays.push([8, 11, "山の日"]);
+		}
+	}
+
+	holidays.push([9, year >= 2003 ? getNthMonday(year, 9, 3) : 15, "敬老の日"]);
+
+	if (year === 2019) {
+		holidays.push([5, 1, "天皇の即位の日"], [10, 22, "即位礼正殿の儀"]);
+	}
+
+	return holidays;
+}
+
+/**
+ * 指定した年の祝日（振替休日・国民の休日を含む）を取得
+ *
+ * @returns 日付（YYYY-MM-DD）から祝日名へのMap
+ */
+export function getJapaneseHolidays(year: number): Map<string, string> {
+	const cached = holidayCache.get(year);
+	if (cached) return cached;
+
+	const holidays = new Map<string, string>();
+	for (const [month, day, name] of getStatutoryHolidays(year)) {
+		holidays.set(formatDate(year, month, day), name);
+	}
+
+	// 国民の休日: 前日と翌日が祝日の、祝日でない日
+	for (const date of [...holidays.keys()]) {
+		const between = addDays(date, 1);
+		if (holidays.has(addDays(date, 2)) && !holidays.has(between)) {
+			holidays.set(between, "国民の休日");
+		}
+	}
+
+	// 振替休日: 日曜日の祝日の後の、最初の祝日でない日
+	for (const date of [...holidays.keys()].sort()) {
+		if (getDayOfWeek(date) !== 0) continue;
+
+		let substitute = addDays(date, 1);
+		while (holidays.has(substitute)) {
+			substitute = addDays(substitute, 1);
+		}
+		holidays.set(substitute, "振替休日");
+	}
+
+	holidayCache.set(year, holidays);
+	return holidays;
+}
+
+/**
+ * 日本の祝日（振替休日・国民の休日を含む）かどうかを判定
+ */
+export function isJapaneseHoliday(date: string): boolean {
+	return getJapaneseHolidays(parseDate(date)[0]).has(date);
+}
+
+/**
+ * 営業日（土日祝日・年末年始の金融機関の休業日以外）かどうかを判定
+ */
+export function isBusinessDay(date: string): boolean {
+	const dayOfWeek = getDayOfWeek(date);
+	if (dayOfWeek === 0 || dayOfWeek === 6) return false;
+
+	const [, month, day] = parseDate(date);
+	if ((month === 12 && day === 31) || (month === 1 && day <= 3)) return false;
+
+	return !isJapaneseHoliday(date);
+}
+
+/**
+ * 休業日の日付を前営業日・翌営業日にずらす（営業日はそのまま）
+ */
+export function adjustToBusinessDay(
+	date: string,
+	adjustment: string | null | undefined,
+): string {
+	if (adjustment !== "previous" && adjustment !== "next") return date;
+
+	const step = adjustment === "previous" ? -1 : 1;
+	let adjusted = date;
+	while (!isBusinessDay(adjusted)) {
+		adjusted = addDays(adjusted, step);
+	}
+	return adjusted;
+}
+
+/**
+ * 月の最終営業日を取得
+ *
+ * @param month - 月（1〜12）
+ */
+export function getLastBusinessDayOfMonth(year: number, month: number): string {
+	return adjustToBusinessDay(
+		formatDate(year, month, getDaysInMonth(year, month)),
+		"previous",
+	);
+}
+
+// 月単位の周期の1周期あたりの月数
+const FREQUENCY_MONTHS: Record<string, number> = {
+	monthly: 1,
+	quarterly: 3,
+	semiannual: 6,
+	yearly: 12,
+	biennial: 24,
+};
+
+/**
+ * 周期の単位が月（月次・四半期・半年・年次・2年）かどうか
+ */
+export function isMonthBasedFrequency(frequency: string): boolean {
+	return frequency in FREQUENCY_MONTHS;
+}
+
+/**
+ * 1回の支払いから次の支払いまでの月数（月単位の周期のみ）
+ */
+function getIntervalMonths(rule: RecurrenceRule): number {
+	return FREQUENCY_MONTHS[rule.frequency] * (rule.intervalCount ?? 1);
+}
+
+/**
+ * 1年あたりの支払回数を計算（支払い間隔を考慮）
+ * 月額・年額への換算は、サーバーの集計と画面の表示で同じ値になるようこの関数を使う
+ *
+ * - daily: 365回、weekly: 52回、月単位の周期: 12 / 1周期の月数
+ * - 未対応の周期は0回（集計に含めない）
+ */
+export function getAnnualPaymentCount(
+	frequency: string,
+	intervalCount = 1,
+): number {
+	const countPerYear =
+		frequency === "daily"
+			? 365
+			: frequency === "weekly"
+				? 52
+				: isMonthBasedFrequency(frequency)
+					? 12 / FREQUENCY_MONTHS[frequency]
+					: 0;
+	return countPerYear / intervalCount;
+}
+
+/**
+ * 支払額を月額に換算
+ */
+export function getMonthlyEquivalentAmount(
+	amount: number,
+	frequency: string,
+	intervalCount = 1,
+): number {
+	return (amount * getAnnualPaymentCount(frequency, intervalCount)) / 12;
+}
+
+/**
+ * 指定した年月の支払日を計算（支払日を月末に丸め、休業日の場合はずらす）
+ *
+ * @param monthIndex - 西暦0年1月からの月数（年をまたぐ加算を簡単にするため）
+ */
+function getOccurrenceInMonth(
+	monthIndex: number,
+	billingDay: number,
+	adjustment: RecurrenceRule["businessDayAdjustment"],
+): string {
+	const year = Math.floor(monthIndex / 12);
+	const month = (monthIndex % 12) + 1;
+	const day = Math.min(billingDay, getDaysInMonth(year, month));
+	return adjustToBusinessDay(formatDate(year, month, day), adjustment);
+}
+
+const getMonthIndex = (date: string): number => {
+	const [year, month] = parseDate(date);
+	return year * 12 + month - 1;
+};
+
+/**
+ * 支払日をルールに合わせる（初回の支払日の登録・変更時に使用）
+ *
+ * - 月単位の周期: 日付が支払日（月末に丸めた日）と一致する場合はその日を休業日に応じてずらし、
+ *   一致しない場合はその日以降の最初の支払日にする
+ * - 日次・週次: そのまま
+ */
+export function alignToRecurrence(date: string, rule: RecurrenceRule): string {
+	if (!isMonthBasedFrequency(rule.frequency)) return date;
+
+	const [year, month, day] = parseDate(date);
+	const billingDay = rule.billingDay ?? day;
+	const monthIndex = getMonthIndex(date);
+
+	if (Math.min(billingDay, getDaysInMonth(year, month)) === day) {
+		return adjustToBusinessDay(date, rule.businessDayAdjustment);
+	}
+
+	for (let offset = 0; ; offset++) {
+		const occurrence = getOccurrenceInMonth(
+			monthIndex + offset,
+			billingDay,
+			rule.businessDayAdjustment,
+		);
+		if (occurrence >= date) return occurrence;
+	}
+}
+
+/**
+ * 支払日の次の支払日を計算
+ *
+ * - 日次・週次: 日数（1日・7日 × 間隔）を加算
+ * - 月単位の周期: 支払日が属する月（休業日でずれる前の月）に月数を加算し、支払日を月末に丸めてずらす
+ *
+ * @param currentDate - 現在の支払日（YYYY-MM-DD）
+ * @param rule - 繰り返しルール
+ */
+export function calculateNextOccurrence(
+	currentDate: string,
+	rule: RecurrenceRule,
+): string {
+	const intervalCount = rule.intervalCount ?? 1;
+
+	switch (rule.frequency) {
+		case "daily":
+			return addDays(currentDate, intervalCount);
+		case "weekly":
+			return addDays(currentDate, 7 * intervalCount);
+		default:
+			if (!isMonthBasedFrequency(rule.frequency)) {
+				throw new Error(`Unsupported frequency: ${rule.frequency}`);
+			}
+	}
+
+	const billingDay = rule.billingDay ?? parseDate(currentDate)[2];
+	const monthIndex = getMonthIndex(currentDate);
+
+	// 休業日でずらした支払日は前月・翌月にまたがる場合があるため、支払日が属する月を探す
+	const baseMonthIndex =
+		[0, 1, -1]
+			.map((offset) => monthIndex + offset)
+			.find(
+				(candidate) =>
+					getOccurrenceInMonth(
+						candidate,
+						billingDay,
+						rule.businessDayAdjustment,
+					) === currentDate,
+			) ?? monthIndex;
+
+	const intervalMonths = getIntervalMonths(rule);
+	for (let count = 1; ; count++) {
+		const occurrence = getOccurrenceInMonth(
+			baseMonthIndex + intervalMonths * count,
+			billingDay,
+			rule.businessDayAdjustment,
+		);
+		if (occurrence > currentDate) return occurrence;
+	}
+}
+
+/**
+ * 今日から支払日までの日数を計算（今日: 0、過ぎた支払日: 負の値）
+ *
+ * @param date - 支払日（YYYY-MM-DD）
+ * @param today - 基準日（省略時は日本時間の今日）
+ */
+export function getDaysUntil(
+	date: string,
+	today: string = getTodayInJst(),
+): number {
+	return getDaysBetween(today, date);
+}
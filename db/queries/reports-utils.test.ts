@@ -0,0 +1,362 @@
+import { describe, expect, it } from "vitest";
+import {
+	buildTransactionStats,
+	getPreviousMonthStart,
+	listMonths,
+	mergeCategoryTypeTotals,
+	rollUpCategoryTypeTotals,
+} from "./reports";
+
+/**
+ * 収支レポート関数のユニットテスト
+ *
+ * データベースに依存しない集計・前月比計算のテスト
+ */
+
+describe("reports utils", () => {
+	describe("getPreviousMonthStart", () => {
+		it("正常ケース: 前月1日を返す（年をまたぐ場合を含む）", () => {
+			// 検証
+			expect(getPreviousMonthStart("2025-07-15")).toBe("2025-06-01");
+			expect(getPreviousMonthStart("2025-01-01")).toBe("2024-12-01");
+		});
+	});
+
+	describe("listMonths", () => {
+		it("正常ケース: 期間内の月を年をまたいで列挙", () => {
+			// 実行
+			const result = listMonths("2024-11-01", "2025-02-28");
+
+			// 検証
+			expect(result).toEqual(["2024-11", "2024-12", "2025-01", "2025-02"]);
+		});
+	});
+
+	describe("buildTransactionStats", () => {
+		const dailyTotals = [
+			// 期間開始の前月（前月比の計算のみに使用）
+			{ date: "2025-05-20", type: "expense", total: 30000, count: 3 },
+			{ date: "2025-06-01", type: "income", total: 200000, count: 1 },
+			{ date: "2025-06-01", type: "expense", total: 50000, count: 2 },
+			{ date: "2025-06-15", type: "expense", total: 10000, count: 1 },
+			{ date: "2025-07-03", type: "expense", total: 20000, count: 1 },
+		];
+		const categoryTotals = [
+			{
+				categoryId: 1,
+				name: "食費",
+				color: "#FF6B6B",
+				type: "expense",
+				total: 20000,
+				count: 2,
+			},
+			{
+				categoryId: null,
+				name: null,
+				color: null,
+				type: "expense",
+				total: 60000,
+				count: 2,
+			},
+			{
+				categoryId: 12,
+				name: "給与",
+				color: "#45B7D1",
+				type: "income",
+				total: 200000,
+				count: 1,
+			},
+		];
+
+		it("正常ケース: 合計と貯蓄率を期間内の取引のみで集計", () => {
+			// 実行
+			const result = buildTransactionStats(
+				"2025-06-01",
+				"2025-07-31",
+				dailyTotals,
+				categoryTotals,
+			);
+
+			// 検証
+			expect(result.totals).toEqual({
+				income: 200000,
+				expense: 80000,
+				balance: 120000,
+				savingsRate: 60,
+				incomeCount: 1,
+				expenseCount: 4,
+			});
+		});
+
+		it("正常ケース: 月別の前月比と累計、収入のない月の貯蓄率はnull", () => {
+			// 実行
+			const result = buildTransactionStats(
+				"2025-06-01",
+				"2025-07-31",
+				dailyTotals,
+				categoryTotals,
+			);
+
+			// 検証
+			expect(result.monthly).toEqual([
+				{
+					month: "2025-06",
+					income: 200000,
+					expense: 60000,
+					balance: 140000,
+					savingsRate: 70,
+					incomeChange: 200000,
+					expenseChange: 30000,
+					cumulativeBalance: 140000,
+				},
+				{
+					month: "2025-07",
+					income: 0,
+					expense: 20000,
+					balance: -20000,
+					savingsRate: null,
+					incomeChange: -200000,
+					expenseChange: -40000,
+					cumulativeBalance: 120000,
+				},
+			]);
+		});
+
+		it("正常ケース: 前月の取引がない場合の前月比はnull", () => {
+			// 実行
+			const result = buildTransactionStats(
+				"2025-07-01",
+				"2025-07-31",
+				dailyTotals.filter((row) => row.date >= "2025-07-01"),
+				[],
+			);
+
+			// 検証
+			expect(result.monthly[0].incomeChange).toBeNull();
+			expect(result.monthly[0].expenseChange).toBeNull();
+		});
+
+		it("正常ケース: 日別は取引のない日も0で埋めて累計する", () => {
+			// 実行
+			const result = buildTransactionStats(
+				"2025-06-01",
+				"2025-06-30",
+				dailyTotals,
+				[],
+			);
+
+			// 検証
+			expect(result.daily).toHaveLength(30);
+			expect(result.daily[1]).toEqual({
+				date: "2025-06-02",
+				income: 0,
+				expense: 0,
+				cumulativeBalance: 150000,
+			});
+			expect(result.daily.at(-1)?.cumulativeBalance).toBe(140000);
+		});
+
+		it("正常ケース: カテゴリ別は金額の大きい順に種別内の構成比を付与", () => {
+			// 実行
+			const result = buildTransactionStats(
+				"2025-06-01",
+				"2025-07-31",
+				dailyTotals,
+				categoryTotals,
+			);
+
+			// 検証
+			expect(
+				result.byCategory.map((category) => [
+					category.name,
+					category.percentage,
+				]),
+			).toEqual([
+				["給与", 100],
+				[null, 75],
+				["食費", 25],
+			]);
+		});
+	});
+
+	describe("mergeCategoryTypeTotals", () => {
+		it("正常ケース: 取引単位と内訳行単位の合計を同じカテゴリ・種別でまとめる", () => {
+			// 実行
+			const result = mergeCategoryTypeTotals(
+				[
+					{
+						categoryId: 1,
+						name: "食費",
+						color: "#f00",
+						type: "expense",
+						total: 3000,
+						count: 2,
+					},
+					{
+						categoryId: null,
+						name: null,
+						color: null,
+						type: "expense",
+						total: 500,
+						count: 1,
+					},
+				],
+				[
+					{
+						categoryId: 2,
+						name: "日用品",
+						color: "#0f0",
+						type: "expense",
+						total: 800,
+						count: 1,
+					},
+					{
+						categoryId: 1,
+						name: "食費",
+						color: "#f00",
+						type: "expense",
+						total: 1200,
+						count: 1,
+					},
+				],
+			);
+
+			// 検証
+			expect(
+				result.map((row) => [row.categoryId, row.total, row.count]),
+			).toEqual([
+				[1, 4200, 3],
+				[null, 500, 1],
+				[2, 800, 1],
+			]);
+		});
+
+		it("境界値ケース: 同じカテゴリでも種別が異なる場合は別の行とする", () => {
+			// 実行
+			const result = mergeCategoryTypeTotals(
+				[
+					{
+						categoryId: 1,
+						name: "立替",
+						color: null,
+						type: "expense",
+						total: 1000,
+						count: 1,
+					},
+				],
+				[
+					{
+						categoryId: 1,
+						name: "立替",
+						color: null,
+						type: "income",
+						total: 400,
+						count: 1,
+					},
+				],
+			);
+
+			// 検証
+			expect(result).toHaveLength(2);
+		});
+	});
+
+	describe("rollUpCategoryTypeTotals", () => {
+		const hierarchy = [
+			{ id: 1, parentId: null, name: "食費", color: "#EF4444" },
+			{ id: 2, parentId: 1, name: "外食", color: null },
+			{ id: 3, parentId: 2, name: "カフェ", color: null },
+			{ id: 4, parentId: null, name: "交通費", color: null },
+		];
+
+		it("正常ケース: 子・孫カテゴリの合計を最上位の親カテゴリにまとめる", () => {
+			// 実行
+			const result = rollUpCategoryTypeTotals(
+				[
+					{
+						categoryId: 2,
+						name: "外食",
+						color: null,
+						type: "expense",
+						total: 3000,
+						count: 2,
+					},
+					{
+						categoryId: 4,
+						name: "交通費",
+						color: null,
+						type: "expense",
+						total: 500,
+						count: 1,
+					},
+					{
+						categoryId: 3,
+						name: "カフェ",
+						color: null,
+						type: "expense",
+						total: 800,
+						count: 1,
+					},
+					{
+						categoryId: 1,
+						name: "食費",
+						color: "#EF4444",
+						type: "expense",
+						total: 1000,
+						count: 1,
+					},
+				],
+				hierarchy,
+			);
+
+			// 検証
+			expect(result).toEqual([
+				{
+					categoryId: 1,
+					name: "食費",
+					color: "#EF4444",
+					type: "expense",
+					total: 4800,
+					count: 4,
+				},
+				{
+					categoryId: 4,
+					name: "交通費",
+					color: null,
+					type: "expense",
+					total: 500,
+					count: 1,
+				},
+			]);
+		});
+
+		it("境界値ケース: 未分類の合計はそのまま残す", () => {
+			// 実行
+			const result = rollUpCategoryTypeTotals(
+				[
+					{
+						categoryId: null,
+						name: null,
+						color: null,
+						type: "expense",
+						total: 700,
+						count: 1,
+					},
+				],
+				hierarchy,
+			);
+
+			// 検証
+			expect(result).toEqual([
+				{
+					categoryId: null,
+					name: null,
+					color: null,
+					type: "expense",
+					total: 700,
+					count: 1,
+				},
+			]);
+		});
+	});
+});
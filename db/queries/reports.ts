@@ -0,0 +1,403 @@
+import { and, eq, gte, inArray, lte, not, sql } from "drizzle-orm";
+import type { Database } from "../connection";
+import { categories, transactionSplits, transactions } from "../schema";
+import { getCategoryHierarchy, getRootCategoryIds } from "./categories";
+import { isSplitTransaction } from "./transaction-splits";
+
+/**
+ * 収支レポート（統計）関連のデータベースクエリ関数
+ *
+ * 設計方針:
+ * - SQLでは日別・カテゴリ別の合計のみを集計し、月別集計や前月比・貯蓄率は純粋関数で計算する
+ *   （テスト容易性のため、予算の進捗計算と同じ構成）
+ * - 前月比を期間の初月にも出せるよう、日別集計は期間開始の前月から取得する
+ * - 取引のない日・月も0として埋め、グラフの軸が欠けないようにする
+ * - カテゴリの色はcategories.colorをそのまま返し、グラフの配色を画面間で揃える
+ * - 口座間の振替（type='transfer'）は資金の移動のため収入・支出の集計に含めない
+ * - 分割した取引はカテゴリ別の集計で内訳行ごとに数える（日別・月別の合計は親の金額で数える）
+ * - 子カテゴリの取引はカテゴリ別の集計で最上位の親カテゴリにまとめる（名前・色も親カテゴリのものを使う）
+ */
+
+export interface DailyTypeTotal {
+	date: string; // YYYY-MM-DD
+	type: string; // 'income' | 'expense'
+	total: number;
+	count: number;
+}
+
+export interface CategoryTypeTotal {
+	categoryId: number | null;
+	name: string | null;
+	color: string | null;
+	type: string;
+	total: number;
+	count: number;
+}
+
+export interface MonthlyStats {
+	month: string; // YYYY-MM
+	income: number;
+	expense: number;
+	balance: number;
+	savingsRate: number | null; // 収入がない月はnull
+	incomeChange: number | null; // 前月との差額（前月のデータがない場合はnull）
+	expenseChange: number | null;
+	cumulativeBalance: number; // 期間開始からの収支の累計
+}
+
+export interface DailyStats {
+	date: string;
+	income: number;
+	expense: number;
+	cumulativeBalance: number;
+}
+
+export interface CategoryStats extends CategoryTypeTotal {
+	percentage: number; // 同じ種別の合計に占める割合（%、小数第1位まで）
+}
+
+export interface TransactionStats {
+	startDate: string;
+	endDate: string;
+	totals: {
+		income: number;
+		expense: number;
+		balance: number;
+		savingsRate: number | null;
+		incomeCount: number;
+		expenseCount: number;
+	};
+	monthly: MonthlyStats[];
+	daily: DailyStats[];
+	byCategory: CategoryStats[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 収入・支出の集計対象とする取引の条件（振替を除外）
+ * ダッシュボードのサマリーでも同じ条件を使う
+ */
+export const isIncomeOrExpense = inArray(transactions.type, [
+	"income",
+	"expense",
+]);
+
+const pad2 = (value: number) => String(value).padStart(2, "0");
+
+// 小数第1位で丸めた百分率（分母が0の場合はnull）
+const toPercentage = (value: number, base: number): number | null =>
+	base === 0 ? null : Math.round((value / base) * 1000) / 10;
+
+/**
+ * 指定日を含む月の前月1日を取得（前月比の計算用）
+ */
+export function getPreviousMonthStart(date: string): string {
+	const [year, month] = date.split("-").map(Number);
+	const previous = new Date(Date.UTC(year, month - 2, 1));
+	return `${previous.getUTCFullYear()}-${pad2(previous.getUTCMonth() + 1)}-01`;
+}
+
+/**
+ * 期間内の月（YYYY-MM）を列挙
+ */
+export function listMonths(startDate: string, endDate: string): string[] {
+	const months: string[] = [];
+	let [year, month] = startDate.split("-").map(Number);
+	const end = endDate.slice(0, 7);
+
+	for (;;) {
+		const current = `${year}-${pad2(month)}`;
+		if (current > end) break;
+		months.push(current);
+		month++;
+		if (month > 12) {
+			month = 1;
+			year++;
+		}
+	}
+
+	return months;
+}
+
+/**
+ * 期間内の日付（YYYY-MM-DD）を列挙
+ */
+export function listDates(startDate: string, endDate: string): string[] {
+	const dates: string[] = [];
+	const end = Date.parse(`${endDate}T00:00:00Z`);
+	for (
+		let time = Date.parse(`${startDate}T00:00:00Z`);
+		time <= end;
+		time += DAY_MS
+	) {
+		dates.push(new Date(time).toISOString().slice(0, 10));
+	}
+	return dates;
+}
+
+/**
+ * 日別・カテゴリ別の集計結果からレポート用の統計を組み立てる
+ *
+ * @param dailyTotals - 日別・種別の合計（期間開始の前月分を含んでよい）
+ * @param categoryTotals - 期間内のカテゴリ別・種別の合計
+ */
+export function buildTransactionStats(
+	startDate: string,
+	endDate: string,
+	dailyTotals: DailyTypeTotal[],
+	categoryTotals: CategoryTypeTotal[],
+): TransactionStats {
+	// 日別・月別の収入・支出
+	const byDate = new Map<string, { income: number; expense: number }>();
+	const byMonth = new Map<string, { income: number; expense: number }>();
+	let incomeCount = 0;
+	let expenseCount = 0;
+
+	for (const row of dailyTotals) {
+		const key = row.type === "income" ? "income" : "expense";
+		const month = row.date.slice(0, 7);
+
+		const day = byDate.get(row.date) ?? { income: 0, expense: 0 };
+		day[key] += row.total;
+		byDate.set(row.date, day);
+
+		const monthTotal = byMonth.get(month) ?? { income: 0, expense: 0 };
+		monthTotal[key] += row.total;
+		byMonth.set(month, monthTotal);
+
+		if (row.date >= startDate && row.date <= endDate) {
+			if (key === "income") incomeCount += row.count;
+			else expenseCount += row.count;
+		}
+	}
+
+	// 日別の累計（期間内のみ）
+	let dailyCumulative = 0;
+	const daily = listDates(startDate, endDate).map((date) => {
+		const { income, expense } = byDate.get(date) ?? { income: 0, expense: 0 };
+		dailyCumulative += income - expense;
+		return { date, income, expense, cumulativeBalance: dailyCumulative };
+	});
+
+	// 月別の集計と前月比
+	const previousMonth = getPreviousMonthStart(startDate).slice(0, 7);
+	let previous = byMonth.get(previousMonth) ?? null;
+	let monthlyCumulative = 0;
+	const monthly = listMonths(startDate, endDate).map((month) => {
+		const { income, expense } = byMonth.get(month) ?? {
+			income: 0,
+			expense: 0,
+		};
+		const balance = income - expense;
+		monthlyCumulative += balance;
+
+		const stats: MonthlyStats = {
+			month,
+			income,
+			expense,
+			balance,
+			savingsRate: toPercentage(balance, income),
+			incomeChange: previous ? income - previous.income : null,
+			expenseChange: previous ? expense - previous.expense : null,
+			cumulativeBalance: monthlyCumulative,
+		};
+		previous = { income, expense };
+		return stats;
+	});
+
+	const income = daily.reduce((sum, day) => sum + day.income, 0);
+	const expense = daily.reduce((sum, day) => sum + day.expense, 0);
+
+	// カテゴリ別（種別ごとの構成比、金額の大きい順）
+	const typeTotals: Record<string, number> = { income, expense };
+	const byCategory = categoryTotals
+		.map((row) => ({
+			...row,
+			percentage: toPercentage(row.total, typeTotals[row.type] ?? 0) ?? 0,
+		}))
+		.sort((a, b) => b.total - a.total);
+
+	return {
+		startDate,
+		endDate,
+		totals: {
+			income,
+			expense,
+			balance: income - expense,
+			savingsRate: toPercentage(income - expense, income),
+			incomeCount,
+			expenseCount,
+		},
+		monthly,
+		daily,
+		byCategory,
+	};
+}
+
+/**
+ * 日別・種別の取引合計を取得
+ */
+export async function getDailyTypeTotals(
+	db: Database,
+	startDate: string,
+	endDate: string,
+): Promise<DailyTypeTotal[]> {
+	const rows = await (db as any)
+		.select({
+			date: transactions.transactionDate,
+			type: transactions.type,
+			total: sql<number>`COALESCE(SUM(${transactions.amount}), 0)`,
+			count: sql<number>`COUNT(*)`,
+		})
+		.from(transactions)
+		.where(
+			and(
+				gte(transactions.transactionDate, startDate),
+				lte(transactions.transactionDate, endDate),
+				isIncomeOrExpense,
+			),
+		)
+		.groupBy(transactions.transactionDate, transactions.type);
+
+	return rows.map((row: DailyTypeTotal) => ({
+		...row,
+		total: Number(row.total),
+		count: Number(row.count),
+	}));
+}
+
+/**
+ * カテゴリ別・種別の取引合計を取得（未分類はcategoryIdがnull）
+ * 分割していない取引は親のカテゴリ、分割した取引は内訳行のカテゴリで集計する
+ * 子カテゴリの合計は最上位の親カテゴリにまとめる
+ */
+export async function getCategoryTypeTotals(
+	db: Database,
+	startDate: string,
+	endDate: string,
+): Promise<CategoryTypeTotal[]> {
+	const isInRange = and(
+		gte(transactions.transactionDate, startDate),
+		lte(transactions.transactionDate, endDate),
+		isIncomeOrExpense,
+	);
+
+	const [rows, splitRows, hierarchy] = await Promise.all([
+		(db as any)
+			.select({
+				categoryId: transactions.categoryId,
+				name: categories.name,
+				color: categories.color,
+				type: transactions.type,
+				total: sql<number>`COALESCE(SUM(${transactions.amount}), 0)`,
+				count: sql<number>`COUNT(*)`,
+			})
+			.from(transactions)
+			.leftJoin(categories, eq(transactions.categoryId, categories.id))
+			.where(and(isInRange, not(isSplitTransaction)))
+			.groupBy(transactions.categoryId, transactions.type),
+		(db as any)
+			.select({
+				categoryId: transactionSplits.categoryId,
+				name: categories.name,
+				color: categories.color,
+				type: transactions.type,
+				total: sql<number>`COALESCE(SUM(${transactionSplits.amount}), 0)`,
+				count: sql<number>`COUNT(*)`,
+			})
+			.from(transactionSplits)
+			.innerJoin(
+				transactions,
+				eq(transactionSplits.transactionId, transactions.id),
+			)
+			.leftJoin(categories, eq(transactionSplits.categoryId, categories.id))
+			.where(isInRange)
+			.groupBy(transactionSplits.categoryId, transactions.type),
+		getCategoryHierarchy(db),
+	]);
+
+	return rollUpCategoryTypeTotals(
+		mergeCategoryTypeTotals(rows, splitRows),
+		hierarchy,
+	);
+}
+
+/**
+ * 子カテゴリの合計を最上位の親カテゴリの合計にまとめる
+ * 名前・色は親カテゴリのものに置き換え、並び順は最初に現れた順を保つ
+ */
+export function rollUpCategoryTypeTotals(
+	totals: CategoryTypeTotal[],
+	hierarchy: {
+		id: number;
+		parentId: number | null;
+		name: string;
+		color: string | null;
+	}[],
+): CategoryTypeTotal[] {
+	const rootIds = getRootCategoryIds(hierarchy);
+	const categoryById = new Map(
+		hierarchy.map((category) => [category.id, category]),
+	);
+
+	return mergeCategoryTypeTotals(
+		totals.map((row) => {
+			const rootId =
+				row.categoryId === null ? undefined : rootIds.get(row.categoryId);
+			const root = rootId === undefined ? undefined : categoryById.get(rootId);
+			if (!root || root.id === row.categoryId) return row;
+			return {
+				...row,
+				categoryId: root.id,
+				name: root.name,
+				color: root.color,
+			};
+		}),
+	);
+}
+
+/**
+ * 取引単位と内訳行単位のカテゴリ別合計を、カテゴリと種別ごとに1行へまとめる
+ * 並び順は最初に現れた順を保つ
+ */
+export function mergeCategoryTypeTotals(
+	...totalsList: CategoryTypeTotal[][]
+): CategoryTypeTotal[] {
+	const merged = new Map<string, CategoryTypeTotal>();
+
+	for (const totals of totalsList) {
+		for (const row of totals) {
+			const key = `${row.categoryId ?? "none"}:${row.type}`;
+			const existing = merged.get(key);
+			if (existing) {
+				existing.total += Number(row.total);
+				existing.count += Number(row.count);
+			} else {
+				merged.set(key, {
+					...row,
+					total: Number(row.total),
+					count: Number(row.count),
+				});
+			}
+		}
+	}
+
+	return [...merged.values()];
+}
+
+/**
+ * 期間内の収支統計を取得
+ */
+export async function getTransactionStats(
+	db: Database,
+	startDate: string,
+	endDate: string,
+): Promise<TransactionStats> {
+	const [dailyTotals, categoryTotals] = await Promise.all([
+		getDailyTypeTotals(db, getPreviousMonthStart(startDate), endDate),
+		getCategoryTypeTotals(db, startDate, endDate),
+	]);
+
+	return buildTransactionStats(startDate, endDate, dailyTotals, categoryTotals);
+}
@@ -0,0 +1,204 @@
+import { describe, expect, it } from "vitest";
+import {
+	calculatePaymentPeriods,
+	getPeriodRecordValidationError,
+	summarizeSubscriptionPayments,
+} from "./subscription-payments";
+
+/**
+ * サブスクリプションの支払い履歴関数のユニットテスト
+ *
+ * データベースに依存しない支払い期間の計算と、期間ごとの状態・合計の集計、記録の検証のテスト
+ */
+
+describe("subscription payments utils", () => {
+	const schedule = {
+		frequency: "monthly" as const,
+		nextPaymentDate: "2026-11-15",
+		intervalCount: 1,
+		billingDay: null,
+		businessDayAdjustment: "none" as const,
+		endDate: null,
+		trialEndDate: null,
+		amount: 1980,
+	};
+
+	const payment = (id: number, transactionDate: string, amount = 1490) => ({
+		id,
+		amount,
+		transactionDate,
+		description: "動画配信",
+		accountId: null,
+		isSplit: false,
+	});
+
+	describe("calculatePaymentPeriods", () => {
+		it("正常ケース: 開始日から次回支払日の前までの支払日を古い順に返す", () => {
+			// 実行
+			const result = calculatePaymentPeriods(
+				schedule,
+				"2026-07-15",
+				"2026-10-19",
+			);
+
+			// 検証
+			expect(result).toEqual([
+				"2026-07-15",
+				"2026-08-15",
+				"2026-09-15",
+				"2026-10-15",
+			]);
+		});
+
+		it("境界値ケース: 今日より後と終了日より後の支払日は含めない", () => {
+			// 検証
+			expect(
+				calculatePaymentPeriods(schedule, "2026-09-15", "2026-10-14"),
+			).toEqual(["2026-09-15"]);
+			expect(
+				calculatePaymentPeriods(
+					{ ...schedule, endDate: "2026-08-31" },
+					"2026-07-15",
+					"2026-10-19",
+				),
+			).toEqual(["2026-07-15", "2026-08-15"]);
+		});
+	});
+
+	describe("summarizeSubscriptionPayments", () => {
+		const prices = [
+			{ amount: 1490, effectiveDate: "2025-11-15" },
+			{ amount: 1980, effectiveDate: "2026-09-15" },
+		];
+
+		it("正常ケース: 期間ごとの支払済み・スキップ・未払いと累計・今年の合計を集計する", () => {
+			// 実行
+			const result = summarizeSubscriptionPayments(
+				schedule,
+				[
+					payment(1, "2025-11-15"),
+					payment(2, "2025-12-15"),
+					payment(3, "2026-02-16"),
+					payment(4, "2026-09-15", 1980),
+				],
+				prices,
+				["2026-01-15"],
+				"2026-10-19",
+			);
+
+			// 検証
+			expect(result.periods).toHaveLength(12);
+			expect(result.periods[0]).toMatchObject({
+				periodDate: "2026-10-15",
+				status: "missed",
+				expectedAmount: 1980,
+			});
+			expect(result.periods[1]).toMatchObject({
+				periodDate: "2026-09-15",
+				status: "paid",
+				paidAmount: 1980,
+				transactionIds: [4],
+			});
+			expect(
+				result.periods.find((period) => period.periodDate === "2026-01-15")
+					?.status,
+			).toBe("skipped");
+			expect(
+				result.periods.find((period) => period.periodDate === "2026-02-15"),
+			).toMatchObject({ status: "paid", transactionIds: [3] });
+			expect(result.transactions[0].id).toBe(4);
+			expect(result.lifetimeTotal).toBe(6450);
+			expect(result.lifetimeCount).toBe(4);
+			expect(result.yearToDateTotal).toBe(3470);
+			expect(result.yearToDateCount).toBe(2);
+			expect(result.skippedCount).toBe(1);
+			expect(result.missedCount).toBe(7);
+		});
+
+		it("境界値ケース: トライアル終了日より前の支払いのない期間は未払いとしない", () => {
+			// 実行
+			const result = summarizeSubscriptionPayments(
+				{ ...schedule, trialEndDate: "2026-09-15" },
+				[payment(1, "2026-09-15", 1980)],
+				[{ amount: 1980, effectiveDate: "2026-08-15" }],
+				[],
+				"2026-10-19",
+			);
+
+			// 検証
+			expect(result.periods.map((period) => period.status)).toEqual([
+				"missed",
+				"paid",
+				"trial",
+			]);
+			expect(result.missedCount).toBe(1);
+		});
+
+		it("境界値ケース: 価格の記録も支払いもない場合は期間を空にする", () => {
+			// 実行
+			const result = summarizeSubscriptionPayments(
+				schedule,
+				[],
+				[],
+				[],
+				"2026-10-19",
+			);
+
+			// 検証
+			expect(result.periods).toEqual([]);
+			expect(result.lifetimeTotal).toBe(0);
+		});
+	});
+
+	describe("getPeriodRecordValidationError", () => {
+		const summary = {
+			periods: [
+				{
+					periodDate: "2026-10-15",
+					status: "paid" as const,
+					expectedAmount: 1980,
+					paidAmount: 3960,
+					transactionIds: [1, 2],
+				},
+				{
+					periodDate: "2026-09-15",
+					status: "paid" as const,
+					expectedAmount: 1980,
+					paidAmount: 1980,
+					transactionIds: [3],
+				},
+			],
+			transactions: [
+				payment(1, "2026-10-15"),
+				payment(2, "2026-10-16"),
+				{ ...payment(3, "2026-09-15"), isSplit: true },
+			],
+		};
+
+		it("正常ケース: 期間をスキップにする場合は支払いがあっても記録できる", () => {
+			// 検証
+			expect(
+				getPeriodRecordValidationError(summary, "2026-10-15", "skipped"),
+			).toBeNull();
+		});
+
+		it("異常ケース: 支払い期間に含まれない日付はエラー", () => {
+			// 検証
+			expect(
+				getPeriodRecordValidationError(summary, "2026-10-20", "skipped"),
+			).toBe("指定された支払日は過去の支払い期間に含まれません");
+		});
+
+		it("異常ケース: 複数の支払いや内訳のある支払いの金額は修正できない", () => {
+			// 検証
+			expect(
+				getPeriodRecordValidationError(summary, "2026-10-15", "paid"),
+			).toBe(
+				"この期間には複数の支払いがあります。取引の画面から金額を修正してください",
+			);
+			expect(
+				getPeriodRecordValidationError(summary, "2026-09-15", "paid"),
+			).toBe("内訳のある取引の金額は取引の画面から修正してください");
+		});
+	});
+});
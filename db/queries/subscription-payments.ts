@@ -0,0 +1,393 @@
+import { and, asc, eq } from "drizzle-orm";
+import type { Database } from "../connection";
+import {
+	type SelectSubscription,
+	subscriptionSkippedPeriods,
+	transactions,
+} from "../schema";
+import {
+	categorizeTransaction,
+	getActiveCategorizationRules,
+} from "./categorization-rules";
+import { alignToRecurrence, calculateNextOccurrence } from "./recurrence";
+import {
+	type SubscriptionPrice,
+	getPriceOnDate,
+	getSubscriptionPrices,
+} from "./subscription-prices";
+import { isSplitTransaction } from "./transaction-splits";
+import {
+	createTransaction,
+	deleteTransaction,
+	updateTransaction,
+} from "./transactions";
+
+/**
+ * サブスクリプションの支払い履歴関連のデータベースクエリ関数
+ *
+ * 設計方針:
+ * - 支払いの実績は定期取引（transactions.recurringId）として生成・記録された取引とする
+ * - 支払い期間は価格履歴の最初の適用日（なければ最初の支払い）から次回支払日の前までを
+ *   現在の繰り返しルールで並べたものとし、取引は取引日を含む期間に数える
+ * - 取引のない過去の期間は「未払い」とし、請求がなかったと確認した期間は
+ *   スキップ（subscription_skipped_periods）として記録して未払いと区別する
+ * - 無料トライアルの終了日より前の期間は取引がなくても未払いとしない
+ * - 期間を支払済みにする場合は、取引があれば金額を修正し、なければ定期取引を作成する
+ *   スキップにする場合は、その期間に記録されていた取引を削除する（実際には請求されなかったため）
+ */
+
+/**
+ * 1件のサブスクリプションについて表示する支払い期間の上限（新しいものから）
+ * 日次で長期間利用している場合などに期間の一覧が大きくなりすぎないための安全装置
+ */
+export const MAX_PAYMENT_PERIODS = 366;
+
+/**
+ * 支払い期間の計算に使う繰り返しルールと契約の条件
+ */
+export type SubscriptionPaymentPeriodSchedule = Pick<
+	SelectSubscription,
+	| "frequency"
+	| "nextPaymentDate"
+	| "intervalCount"
+	| "billingDay"
+	| "businessDayAdjustment"
+	| "endDate"
+	| "trialEndDate"
+	| "amount"
+>;
+
+/**
+ * 定期取引として記録された支払い
+ */
+export interface SubscriptionPaymentTransaction {
+	id: number;
+	amount: number;
+	transactionDate: string;
+	description: string | null;
+	accountId: number | null;
+	isSplit: boolean;
+}
+
+export type SubscriptionPaymentPeriodStatus =
+	| "paid"
+	| "skipped"
+	| "missed"
+	| "trial";
+
+/**
+ * 支払い期間（1回分の支払日と実績）
+ */
+export interface SubscriptionPaymentPeriod {
+	periodDate: string; // 支払日（YYYY-MM-DD）
+	status: SubscriptionPaymentPeriodStatus;
+	expectedAmount: number; // その日の価格
+	paidAmount: number;
+	transactionIds: number[];
+}
+
+/**
+ * 支払い履歴の集計結果
+ */
+export interface SubscriptionPaymentSummary {
+	transactions: SubscriptionPaymentTransaction[]; // 新しい順
+	periods: SubscriptionPaymentPeriod[]; // 新しい順
+	lifetimeTotal: number;
+	lifetimeCount: number;
+	yearToDateTotal: number; // 今日の年の1月1日以降
+	yearToDateCount: number;
+	missedCount: number;
+	skippedCount: number;
+}
+
+/**
+ * 過去の支払い期間（支払日）を計算
+ * 開始日以降、次回支払日より前かつ今日以前（終了日がある場合は終了日以前）の支払日を古い順に返す
+ */
+export function calculatePaymentPeriods(
+	schedule: Omit<SubscriptionPaymentPeriodSchedule, "amount" | "trialEndDate">,
+	startDate: string,
+	today: string,
+): string[] {
+	const periods: string[] = [];
+	let date = alignToRecurrence(startDate, schedule);
+
+	while (
+		date < schedule.nextPaymentDate &&
+		date <= today &&
+		(!schedule.endDate || date <= schedule.endDate)
+	) {
+		periods.push(date);
+		date = calculateNextOccurrence(date, schedule);
+	}
+
+	return periods.slice(-MAX_PAYMENT_PERIODS);
+}
+
+/**
+ * 支払い期間の開始日を決定
+ * 価格履歴の最初の適用日と最初の支払いのうち早い方（どちらもなければ次回支払日）
+ */
+export function getPaymentHistoryStartDate(
+	prices: SubscriptionPrice[],
+	paymentTransactions: Pick<
+		SubscriptionPaymentTransaction,
+		"transactionDate"
+	>[],
+	nextPaymentDate: string,
+): string {
+	const candidates = [
+		prices[0]?.effectiveDate,
+		paymentTransactions[0]?.transactionDate,
+	].filter((date): date is string => date !== undefined);
+
+	return candidates.length > 0 ? candidates.sort()[0] : nextPaymentDate;
+}
+
+/**
+ * 支払いの実績・スキップした期間から支払い履歴を集計
+ *
+ * @param paymentTransactions 取引日の昇順に並んだ支払い
+ * @param prices 適用日の昇順に並んだ価格の記録
+ */
+export function summarizeSubscriptionPayments(
+	schedule: SubscriptionPaymentPeriodSchedule,
+	paymentTransactions: SubscriptionPaymentTransaction[],
+	prices: SubscriptionPrice[],
+	skippedDates: string[],
+	today: string,
+): SubscriptionPaymentSummary {
+	const periodDates = calculatePaymentPeriods(
+		schedule,
+		getPaymentHistoryStartDate(
+			prices,
+			paymentTransactions,
+			schedule.nextPaymentDate,
+		),
+		today,
+	);
+	const skipped = new Set(skippedDates);
+
+	const periods = periodDates.map((periodDate, index) => {
+		const nextPeriodDate = periodDates[index + 1];
+		const paid = paymentTransactions.filter(
+			(transaction) =>
+				(index === 0 || transaction.transactionDate >= periodDate) &&
+				(!nextPeriodDate || transaction.transactionDate < nextPeriodDate),
+		);
+
+		const status: SubscriptionPaymentPeriodStatus =
+			paid.length > 0
+				? "paid"
+				: skipped.has(periodDate)
+					? "skipped"
+					: schedule.trialEndDate && periodDate < schedule.trialEndDate
+						? "trial"
+						: "missed";
+
+		return {
+			periodDate,
+			status,
+			expectedAmount: getPriceOnDate(prices, periodDate, schedule.amount),
+			paidAmount: paid.reduce(
+				(sum, transaction) => sum + transaction.amount,
+				0,
+			),
+			transactionIds: paid.map((transaction) => transaction.id),
+		};
+	});
+
+	const yearStart = `${today.slice(0, 4)}-01-01`;
+	const yearToDate = paymentTransactions.filter(
+		(transaction) =>
+			transaction.transactionDate >= yearStart &&
+			transaction.transactionDate <= today,
+	);
+
+	return {
+		transactions: [...paymentTransactions].reverse(),
+		periods: periods.reverse(),
+		lifetimeTotal: paymentTransactions.reduce(
+			(sum, transaction) => sum + transaction.amount,
+			0,
+		),
+		lifetimeCount: paymentTransactions.length,
+		yearToDateTotal: yearToDate.reduce(
+			(sum, transaction) => sum + transaction.amount,
+			0,
+		),
+		yearToDateCount: yearToDate.length,
+		missedCount: periods.filter((period) => period.status === "missed").length,
+		skippedCount: periods.filter((period) => period.status === "skipped")
+			.length,
+	};
+}
+
+/**
+ * 定期取引として記録された支払いを取引日の昇順で取得
+ */
+async function getPaymentTransactions(
+	db: Database,
+	subscriptionId: number,
+): Promise<SubscriptionPaymentTransaction[]> {
+	const rows = await (db as any)
+		.select({
+			id: transactions.id,
+			amount: transactions.amount,
+			transactionDate: transactions.transactionDate,
+			description: transactions.description,
+			accountId: transactions.accountId,
+			isSplit: isSplitTransaction,
+		})
+		.from(transactions)
+		.where(eq(transactions.recurringId, subscriptionId))
+		.orderBy(asc(transactions.transactionDate), asc(transactions.id));
+
+	// EXISTSの結果は0/1で返るため真偽値に変換する
+	return rows.map((row: SubscriptionPaymentTransaction) => ({
+		...row,
+		isSplit: Boolean(row.isSplit),
+	}));
+}
+
+/**
+ * スキップした期間の支払日を取得
+ */
+async function getSkippedPeriodDates(
+	db: Database,
+	subscriptionId: number,
+): Promise<string[]> {
+	const rows: { periodDate: string }[] = await (db as any)
+		.select({ periodDate: subscriptionSkippedPeriods.periodDate })
+		.from(subscriptionSkippedPeriods)
+		.where(eq(subscriptionSkippedPeriods.subscriptionId, subscriptionId));
+
+	return rows.map((row) => row.periodDate);
+}
+
+/**
+ * サブスクリプションの支払い履歴（支払い・期間ごとの状態・合計）を取得
+ */
+export async function getSubscriptionPayments(
+	db: Database,
+	subscription: SubscriptionPaymentPeriodSchedule & { id: number },
+	today: string,
+): Promise<SubscriptionPaymentSummary> {
+	const [paymentTransactions, prices, skippedDates] = await Promise.all([
+		getPaymentTransactions(db, subscription.id),
+		getSubscriptionPrices(db, subscription.id),
+		getSkippedPeriodDates(db, subscription.id),
+	]);
+
+	return summarizeSubscriptionPayments(
+		subscription,
+		paymentTransactions,
+		prices,
+		skippedDates,
+		today,
+	);
+}
+
+/**
+ * 期間のスキップの記録を削除
+ */
+async function deleteSkippedPeriod(
+	db: Database,
+	subscriptionId: number,
+	periodDate: string,
+) {
+	await db
+		.delete(subscriptionSkippedPeriods)
+		.where(
+			and(
+				eq(subscriptionSkippedPeriods.subscriptionId, subscriptionId),
+				eq(subscriptionSkippedPeriods.periodDate, periodDate),
+			),
+		);
+}
+
+/**
+ * 期間の記録（スキップ・支払済み）の検証
+ *
+ * @returns エラーメッセージ（問題がなければnull）
+ */
+export function getPeriodRecordValidationError(
+	summary: Pick<SubscriptionPaymentSummary, "periods" | "transactions">,
+	periodDate: string,
+	status: "skipped" | "paid",
+): string | null {
+	const period = summary.periods.find(
+		(candidate) => candidate.periodDate === periodDate,
+	);
+	if (!period) {
+		return "指定された支払日は過去の支払い期間に含まれません";
+	}
+	if (status === "paid" && period.transactionIds.length > 1) {
+		return "この期間には複数の支払いがあります。取引の画面から金額を修正してください";
+	}
+	const hasSplit = summary.transactions.some(
+		(transaction) =>
+			period.transactionIds.includes(transaction.id) && transaction.isSplit,
+	);
+	if (status === "paid" && hasSplit) {
+		return "内訳のある取引の金額は取引の画面から修正してください";
+	}
+	return null;
+}
+
+/**
+ * 期間をスキップ（請求がなかった）として記録
+ * 期間に記録されていた支払いの取引は削除する
+ */
+export async function recordSubscriptionPeriodSkipped(
+	db: Database,
+	subscriptionId: number,
+	period: Pick<SubscriptionPaymentPeriod, "periodDate" | "transactionIds">,
+) {
+	for (const transactionId of period.transactionIds) {
+		await deleteTransaction(db, transactionId);
+	}
+	// 同じ期間の記録が既にある場合は置き換える
+	await deleteSkippedPeriod(db, subscriptionId, period.periodDate);
+	await db
+		.insert(subscriptionSkippedPeriods)
+		.values({ subscriptionId, periodDate: period.periodDate });
+}
+
+/**
+ * 期間を支払済みとして記録
+ * 期間の支払いがある場合はその金額を修正し、ない場合は自動生成と同じ定期取引を作成する
+ * スキップの記録がある場合は取り消す
+ */
+export async function recordSubscriptionPeriodPaid(
+	db: Database,
+	subscription: Pick<
+		SelectSubscription,
+		"id" | "name" | "categoryId" | "accountId"
+	>,
+	period: Pick<SubscriptionPaymentPeriod, "periodDate" | "transactionIds">,
+	amount: number,
+) {
+	await deleteSkippedPeriod(db, subscription.id, period.periodDate);
+
+	const [transactionId] = period.transactionIds;
+	if (transactionId !== undefined) {
+		await updateTransaction(db, transactionId, { amount });
+		return;
+	}
+
+	const rules = await getActiveCategorizationRules(db);
+	await createTransaction(
+		db,
+		categorizeTransaction(rules, {
+			amount,
+			type: "expense",
+			categoryId: subscription.categoryId,
+			accountId: subscription.accountId,
+			description: subscription.name,
+			transactionDate: period.periodDate,
+			isRecurring: true,
+			recurringId: subscription.id,
+		}),
+	);
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import {
+	getPriceOnDate,
+	summarizeSubscriptionPriceHistory,
+} from "./subscription-prices";
+
+/**
+ * サブスクリプションの価格履歴関数のユニットテスト
+ *
+ * データベースに依存しない支払日時点の金額の決定と、価格の推移・支払総額の集計のテスト
+ */
+
+describe("subscription prices utils", () => {
+	const prices = [
+		{ id: 1, amount: 1490, effectiveDate: "2024-01-15" },
+		{ id: 2, amount: 1980, effectiveDate: "2025-07-15" },
+		{ id: 3, amount: 2290, effectiveDate: "2026-11-01" },
+	];
+
+	describe("getPriceOnDate", () => {
+		it("正常ケース: その日以前で最も新しい適用日の金額を返す", () => {
+			// 検証
+			expect(getPriceOnDate(prices, "2025-07-14", 0)).toBe(1490);
+			expect(getPriceOnDate(prices, "2025-07-15", 0)).toBe(1980);
+			expect(getPriceOnDate(prices, "2026-11-15", 0)).toBe(2290);
+		});
+
+		it("境界値ケース: 最初の記録より前の日付は最初の金額、記録がなければ代替の金額", () => {
+			// 検証
+			expect(getPriceOnDate(prices, "2023-12-15", 0)).toBe(1490);
+			expect(getPriceOnDate([], "2026-10-19", 980)).toBe(980);
+		});
+	});
+
+	describe("summarizeSubscriptionPriceHistory", () => {
+		it("正常ケース: 適用期間・増減・適用状態と期間ごとの支払実績を集計する", () => {
+			// 実行
+			const result = summarizeSubscriptionPriceHistory(
+				prices,
+				[
+					{ amount: 1490, transactionDate: "2025-06-15" },
+					{ amount: 1980, transactionDate: "2025-07-15" },
+					{ amount: 1980, transactionDate: "2026-10-15" },
+				],
+				"2026-10-19",
+			);
+
+			// 検証
+			expect(result.timeline.map((entry) => entry.status)).toEqual([
+				"past",
+				"current",
+				"scheduled",
+			]);
+			expect(result.timeline[0].endDate).toBe("2025-07-14");
+			expect(result.timeline[1]).toMatchObject({
+				changeAmount: 490,
+				paidCount: 2,
+				paidAmount: 3960,
+				endDate: "2026-10-31",
+			});
+			expect(result.timeline[2].endDate).toBeNull();
+			expect(result.currentAmount).toBe(1980);
+			expect(result.scheduledChange?.amount).toBe(2290);
+			expect(result.totalPaid).toBe(5450);
+			expect(result.paidCount).toBe(3);
+		});
+
+		it("境界値ケース: 最初の適用日より前の支払いは最初の記録に数える", () => {
+			// 実行
+			const result = summarizeSubscriptionPriceHistory(
+				prices.slice(0, 1),
+				[{ amount: 1490, transactionDate: "2023-12-15" }],
+				"2024-01-15",
+			);
+
+			// 検証
+			expect(result.timeline[0]).toMatchObject({
+				status: "current",
+				changeAmount: null,
+				paidCount: 1,
+			});
+			expect(result.scheduledChange).toBeNull();
+		});
+
+		it("境界値ケース: 今日以前の記録がない場合は現在の金額をnullにする", () => {
+			// 実行
+			const result = summarizeSubscriptionPriceHistory(
+				prices.slice(2),
+				[],
+				"2026-10-19",
+			);
+
+			// 検証
+			expect(result.currentAmount).toBeNull();
+			expect(result.totalPaid).toBe(0);
+		});
+	});
+});
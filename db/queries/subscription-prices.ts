@@ -0,0 +1,228 @@
+import { and, asc, eq, gte, lte } from "drizzle-orm";
+import type { Database } from "../connection";
+import {
+	type SelectSubscriptionPrice,
+	subscriptionPrices,
+	transactions,
+} from "../schema";
+
+/**
+ * サブスクリプションの価格履歴関連のデータベースクエリ関数
+ *
+ * 設計方針:
+ * - 金額の変更は上書きせず、適用日付きの行として追加する（同じ適用日の記録は置き換える）
+ * - 作成時の記録は初回の支払日を適用日とするため、初回の支払い前の変更は
+ *   その日までの記録を置き換える（残すと初回の支払いに古い金額が適用される）
+ * - 支払日の金額は「その日以前で最も新しい適用日の金額」とし、
+ *   最初の記録より前の支払日には最初の金額を使う
+ * - subscriptions.amount は次回支払日に請求される金額を表し、
+ *   将来の適用日の変更はその日以降の最初の支払いから自動で反映する
+ * - 支払済みの金額は定期取引（recurringId）として生成・記録された取引から集計する
+ */
+
+/**
+ * 価格の記録（適用日と金額）
+ */
+export type SubscriptionPrice = Pick<
+	SelectSubscriptionPrice,
+	"amount" | "effectiveDate"
+>;
+
+/**
+ * 支払済みの取引（recurringIdで紐付いた支出）
+ */
+export interface SubscriptionPaidTransaction {
+	amount: number;
+	transactionDate: string;
+}
+
+export type SubscriptionPriceStatus = "past" | "current" | "scheduled";
+
+/**
+ * 価格の推移（1件の記録ごとの適用期間と支払実績）
+ */
+export interface SubscriptionPriceTimelineEntry extends SubscriptionPrice {
+	id: number;
+	endDate: string | null; // 次の記録の適用日の前日（最新の記録はnull）
+	changeAmount: number | null; // 直前の記録からの増減（最初の記録はnull）
+	status: SubscriptionPriceStatus;
+	paidCount: number;
+	paidAmount: number;
+}
+
+/**
+ * 価格履歴の集計結果
+ */
+export interface SubscriptionPriceHistory {
+	timeline: SubscriptionPriceTimelineEntry[];
+	currentAmount: number | null; // 今日時点の金額（今日以前の記録がない場合はnull）
+	scheduledChange: SubscriptionPriceTimelineEntry | null; // 適用前の最も近い変更
+	totalPaid: number;
+	paidCount: number;
+}
+
+/**
+ * 指定した日の金額を取得
+ *
+ * @param prices 適用日の昇順に並んだ価格の記録
+ * @param fallbackAmount 記録がない場合の金額
+ */
+export function getPriceOnDate(
+	prices: SubscriptionPrice[],
+	date: string,
+	fallbackAmount: number,
+): number {
+	if (prices.length === 0) return fallbackAmount;
+
+	let amount = prices[0].amount;
+	for (const price of prices) {
+		if (price.effectiveDate > date) break;
+		amount = price.amount;
+	}
+	return amount;
+}
+
+/**
+ * 前日の日付を取得（YYYY-MM-DD）
+ */
+function getPreviousDate(date: string): string {
+	const value = new Date(`${date}T00:00:00Z`);
+	value.setUTCDate(value.getUTCDate() - 1);
+	return value.toISOString().slice(0, 10);
+}
+
+/**
+ * 価格の記録と支払済みの取引から価格の推移を集計
+ * 支払済みの取引は取引日を含む適用期間の記録に数える
+ *
+ * @param prices 適用日の昇順に並んだ価格の記録
+ */
+export function summarizeSubscriptionPriceHistory(
+	prices: (SubscriptionPrice & { id: number })[],
+	paidTransactions: SubscriptionPaidTransaction[],
+	today: string,
+): SubscriptionPriceHistory {
+	// 今日時点で適用されている記録（適用日の昇順のため、今日以前の記録の最後）
+	const currentIndex =
+		prices.filter((price) => price.effectiveDate <= today).length - 1;
+
+	const timeline = prices.map(
+		(price, index): SubscriptionPriceTimelineEntry => {
+			const next = prices[index + 1];
+			const paid = paidTransactions.filter(
+				(transaction) =>
+					(index === 0 || transaction.transactionDate >= price.effectiveDate) &&
+					(!next || transaction.transactionDate < next.effectiveDate),
+			);
+
+			return {
+				id: price.id,
+				amount: price.amount,
+				effectiveDate: price.effectiveDate,
+				endDate: next ? getPreviousDate(next.effectiveDate) : null,
+				changeAmount:
+					index === 0 ? null : price.amount - prices[index - 1].amount,
+				status:
+					price.effectiveDate > today
+						? "scheduled"
+						: index === currentIndex
+							? "current"
+							: "past",
+				paidCount: paid.length,
+				paidAmount: paid.reduce(
+					(sum, transaction) => sum + transaction.amount,
+					0,
+				),
+			};
+		},
+	);
+
+	return {
+		timeline,
+		currentAmount: prices[currentIndex]?.amount ?? null,
+		scheduledChange:
+			timeline.find((entry) => entry.status === "scheduled") ?? null,
+		totalPaid: paidTransactions.reduce(
+			(sum, transaction) => sum + transaction.amount,
+			0,
+		),
+		paidCount: paidTransactions.length,
+	};
+}
+
+/**
+ * サブスクリプションの価格の記録を適用日の昇順で取得
+ */
+export async function getSubscriptionPrices(
+	db: Database,
+	subscriptionId: number,
+): Promise<SelectSubscriptionPrice[]> {
+	return db
+		.select()
+		.from(subscriptionPrices)
+		.where(eq(subscriptionPrices.subscriptionId, subscriptionId))
+		.orderBy(asc(subscriptionPrices.effectiveDate));
+}
+
+/**
+ * 金額の変更を記録
+ * 同じ適用日の記録がある場合は置き換える
+ *
+ * @param replaceUntil 適用日からこの日までの記録も置き換える（初回の支払い前の変更で、作成時の記録を置き換える場合に指定）
+ * @returns 記録後の価格の記録（適用日の昇順）
+ */
+export async function recordSubscriptionPrice(
+	db: Database,
+	subscriptionId: number,
+	price: SubscriptionPrice,
+	replaceUntil: string = price.effectiveDate,
+): Promise<SelectSubscriptionPrice[]> {
+	await db
+		.delete(subscriptionPrices)
+		.where(
+			and(
+				eq(subscriptionPrices.subscriptionId, subscriptionId),
+				gte(subscriptionPrices.effectiveDate, price.effectiveDate),
+				lte(subscriptionPrices.effectiveDate, replaceUntil),
+			),
+		);
+	await db.insert(subscriptionPrices).values({ subscriptionId, ...price });
+
+	return getSubscriptionPrices(db, subscriptionId);
+}
+
+/**
+ * サブスクリプションの支払済みの取引（recurringIdで紐付いた取引）があるか
+ */
+export async function hasSubscriptionPayments(
+	db: Database,
+	subscriptionId: number,
+): Promise<boolean> {
+	const [payment] = await (db as any)
+		.select({ id: transactions.id })
+		.from(transactions)
+		.where(eq(transactions.recurringId, subscriptionId))
+		.limit(1);
+	return payment !== undefined;
+}
+
+/**
+ * サブスクリプションの価格の推移と支払済みの合計を取得
+ */
+export async function getSubscriptionPriceHistory(
+	db: Database,
+	subscriptionId: number,
+	today: string,
+): Promise<SubscriptionPriceHistory> {
+	const prices = await getSubscriptionPrices(db, subscriptionId);
+	const paidTransactions: SubscriptionPaidTransaction[] = await (db as any)
+		.select({
+			amount: transactions.amount,
+			transactionDate: transactions.transactionDate,
+		})
+		.from(transactions)
+		.where(eq(transactions.recurringId, subscriptionId))
+		.orderBy(asc(transactions.transactionDate));
+
+	return summarizeSubscriptionPriceHistory(prices, paidTransactions, today);
+}
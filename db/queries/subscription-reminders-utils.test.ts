@@ -0,0 +1,235 @@
+import { describe, expect, it } from "vitest";
+import {
+	evaluateSubscriptionReminders,
+	getDueReminderTarget,
+	getNotificationKey,
+	listChargeDates,
+	listUpcomingSubscriptionEvents,
+} from "./subscription-reminders";
+
+/**
+ * サブスクリプションのリマインダー関数のユニットテスト
+ *
+ * データベースに依存しない支払日の列挙と、リマインダーの通知期間の判定・通知の重複排除、
+ * 今後の支払いの予定の列挙のテスト
+ */
+
+describe("subscription reminders utils", () => {
+	const subscription = {
+		id: 1,
+		name: "動画配信",
+		amount: 1490,
+		frequency: "monthly" as const,
+		nextPaymentDate: "2026-10-25",
+		intervalCount: 1,
+		billingDay: null,
+		businessDayAdjustment: "none" as const,
+		endDate: null as string | null,
+		remainingPayments: null as number | null,
+		trialEndDate: null as string | null,
+	};
+
+	const target = (
+		overrides: Partial<typeof subscription> = {},
+		reminders: {
+			type: "payment" | "trial_end" | "cancellation_deadline";
+			daysBefore: number;
+			noticeDays: number | null;
+		}[] = [],
+	) => ({
+		...subscription,
+		...overrides,
+		reminders,
+		prices: [],
+	});
+
+	describe("listChargeDates", () => {
+		it("正常ケース: 次回支払日から期間内の支払日を古い順に返す", () => {
+			// 実行
+			const result = listChargeDates(subscription, "2026-10-19", "2027-01-25");
+
+			// 検証
+			expect(result).toEqual([
+				"2026-10-25",
+				"2026-11-25",
+				"2026-12-25",
+				"2027-01-25",
+			]);
+		});
+
+		it("境界値ケース: トライアル中の支払日を除き、残りの支払回数と終了日を超えない", () => {
+			// 検証
+			expect(
+				listChargeDates(
+					{ ...subscription, trialEndDate: "2026-11-01", remainingPayments: 2 },
+					"2026-10-19",
+					"2027-03-31",
+				),
+			).toEqual(["2026-11-25", "2026-12-25"]);
+			expect(
+				listChargeDates(
+					{ ...subscription, endDate: "2026-11-30" },
+					"2026-10-19",
+					"2027-03-31",
+				),
+			).toEqual(["2026-10-25", "2026-11-25"]);
+		});
+	});
+
+	describe("getDueReminderTarget", () => {
+		it("正常ケース: 支払日が通知期間に入っていれば対象日を返す", () => {
+			// 検証
+			expect(
+				getDueReminderTarget(
+					subscription,
+					{ type: "payment", daysBefore: 7, noticeDays: null },
+					"2026-10-19",
+				),
+			).toEqual({ targetDate: "2026-10-25", paymentDate: "2026-10-25" });
+			expect(
+				getDueReminderTarget(
+					subscription,
+					{ type: "payment", daysBefore: 5, noticeDays: null },
+					"2026-10-19",
+				),
+			).toBeNull();
+		});
+
+		it("正常ケース: 解約期限は支払日の申し出日数前を対象日にする", () => {
+			// 実行
+			const result = getDueReminderTarget(
+				subscription,
+				{ type: "cancellation_deadline", daysBefore: 3, noticeDays: 5 },
+				"2026-10-19",
+			);
+
+			// 検証
+			expect(result).toEqual({
+				targetDate: "2026-10-20",
+				paymentDate: "2026-10-25",
+			});
+		});
+
+		it("境界値ケース: トライアル終了日が今日なら通知し、過ぎていれば通知しない", () => {
+			const reminder = {
+				type: "trial_end" as const,
+				daysBefore: 0,
+				noticeDays: null,
+			};
+
+			// 検証
+			expect(
+				getDueReminderTarget(
+					{ ...subscription, trialEndDate: "2026-10-19" },
+					reminder,
+					"2026-10-19",
+				),
+			).toEqual({ targetDate: "2026-10-19", paymentDate: null });
+			expect(
+				getDueReminderTarget(
+					{ ...subscription, trialEndDate: "2026-10-18" },
+					reminder,
+					"2026-10-19",
+				),
+			).toBeNull();
+		});
+	});
+
+	describe("evaluateSubscriptionReminders", () => {
+		const targets = [
+			target({}, [
+				{ type: "payment", daysBefore: 7, noticeDays: null },
+				{ type: "cancellation_deadline", daysBefore: 3, noticeDays: 5 },
+			]),
+		];
+
+		it("正常ケース: 通知期間に入ったリマインダーの通知を作成する", () => {
+			// 実行
+			const result = evaluateSubscriptionReminders(
+				targets,
+				new Set(),
+				"2026-10-19",
+			);
+
+			// 検証
+			expect(result).toEqual([
+				{
+					subscriptionId: 1,
+					type: "payment",
+					targetDate: "2026-10-25",
+					title: "動画配信の支払いが近づいています",
+					message: "2026/10/25（あと6日）に¥1,490の支払いがあります",
+				},
+				{
+					subscriptionId: 1,
+					type: "cancellation_deadline",
+					targetDate: "2026-10-20",
+					title: "動画配信の解約期限が近づいています",
+					message:
+						"2026/10/25の支払い（¥1,490）を止めるには2026/10/20（あと1日）までに解約してください",
+				},
+			]);
+		});
+
+		it("境界値ケース: 同じサブスクリプション・種類・対象日の通知が既にあれば作成しない", () => {
+			// 実行
+			const result = evaluateSubscriptionReminders(
+				targets,
+				new Set([
+					getNotificationKey({
+						subscriptionId: 1,
+						type: "payment",
+						targetDate: "2026-10-25",
+					}),
+				]),
+				"2026-10-20",
+			);
+
+			// 検証
+			expect(result.map((notification) => notification.type)).toEqual([
+				"cancellation_deadline",
+			]);
+			expect(result[0].message).toContain("2026/10/20（今日）");
+		});
+	});
+
+	describe("listUpcomingSubscriptionEvents", () => {
+		it("正常ケース: 支払い・トライアル終了・解約期限を日付順に並べる", () => {
+			// 実行
+			const result = listUpcomingSubscriptionEvents(
+				[
+					target({ id: 2, name: "音楽", nextPaymentDate: "2026-11-01" }),
+					target({ trialEndDate: "2026-10-25" }, [
+						{ type: "cancellation_deadline", daysBefore: 3, noticeDays: 0 },
+					]),
+				],
+				"2026-10-19",
+				14,
+			);
+
+			// 検証
+			expect(
+				result.map((event) => [event.subscriptionId, event.type, event.date]),
+			).toEqual([
+				[1, "cancellation_deadline", "2026-10-25"],
+				[1, "trial_end", "2026-10-25"],
+				[1, "payment", "2026-10-25"],
+				[2, "payment", "2026-11-01"],
+			]);
+			expect(result[0]).toMatchObject({ amount: 1490, daysUntil: 6 });
+			expect(result[1].amount).toBeNull();
+		});
+
+		it("境界値ケース: 解約期限のリマインダーがなければ解約期限を含めない", () => {
+			// 実行
+			const result = listUpcomingSubscriptionEvents(
+				[target()],
+				"2026-10-19",
+				6,
+			);
+
+			// 検証
+			expect(result.map((event) => event.type)).toEqual(["payment"]);
+		});
+	});
+});
@@ -0,0 +1,531 @@
+import { and, asc, eq, gte, inArray, not } from "drizzle-orm";
+import type { Database } from "../connection";
+import {
+	type SelectSubscription,
+	type SelectSubscriptionPrice,
+	type SelectSubscriptionReminder,
+	type SubscriptionReminderType,
+	notifications,
+	subscriptionPrices,
+	subscriptionReminders,
+	subscriptions,
+} from "../schema";
+import { isInstallmentSubscription } from "./installments";
+import {
+	addDays,
+	calculateNextOccurrence,
+	getDaysBetween,
+	getTodayInJst,
+} from "./recurrence";
+import { type SubscriptionPrice, getPriceOnDate } from "./subscription-prices";
+
+/**
+ * サブスクリプションのリマインダー関連のデータベースクエリ関数
+ *
+ * 設計方針:
+ * - リマインダーはサブスクリプションごとに種類（支払日・トライアル終了日・解約期限）ごと1件を
+ *   subscription_remindersに設定し、対象日の何日前から通知するかを持つ
+ * - 解約期限は「次回の支払日の noticeDays 日前」とし、更新のたびに次の期限を通知する
+ * - 支払日は取引を生成する支払日（トライアル中・終了日より後・残りの支払回数を超える支払日を除く）とし、
+ *   金額は価格履歴から支払日時点の金額を使う
+ * - 定期実行（workers/app.ts の scheduled）で今日が通知期間に入ったリマインダーを評価し、
+ *   同じサブスクリプション・種類・対象日の通知が既にあれば作成しない（冪等性の担保）
+ * - ダッシュボードの「今後の支払い」も同じ支払日の計算から、支払い・トライアル終了・解約期限を日付順に並べる
+ */
+
+/**
+ * 「今後の支払い」に表示する予定の上限
+ * 日次の支払いなどで一覧が大きくなりすぎないための安全装置
+ */
+export const MAX_UPCOMING_EVENTS = 100;
+
+// リマインダー・価格履歴の取得時の1クエリあたりのサブスクリプションID数（D1のバインドパラメータ上限100を考慮）
+const REMINDER_TARGET_CHUNK_SIZE = 90;
+
+/**
+ * リマインダーの設定（種類・何日前から通知するか・解約の申し出が必要な日数）
+ */
+export type SubscriptionReminderSettings = Pick<
+	SelectSubscriptionReminder,
+	"type" | "daysBefore" | "noticeDays"
+>;
+
+/**
+ * リマインダーの評価に必要なサブスクリプションの項目
+ */
+export type ReminderSubscription = Pick<
+	SelectSubscription,
+	| "id"
+	| "name"
+	| "amount"
+	| "frequency"
+	| "nextPaymentDate"
+	| "intervalCount"
+	| "billingDay"
+	| "businessDayAdjustment"
+	| "endDate"
+	| "remainingPayments"
+	| "trialEndDate"
+>;
+
+/**
+ * リマインダーの評価対象（サブスクリプションと設定・価格履歴）
+ */
+export interface ReminderTarget extends ReminderSubscription {
+	reminders: SubscriptionReminderSettings[];
+	prices: SubscriptionPrice[]; // 適用日の昇順
+}
+
+/**
+ * 作成する通知
+ */
+export interface ReminderNotification {
+	subscriptionId: number;
+	type: SubscriptionReminderType;
+	title: string;
+	message: string;
+	targetDate: string;
+}
+
+/**
+ * 今後の支払いの予定（支払い・トライアル終了・解約期限）
+ */
+export interface UpcomingSubscriptionEvent {
+	subscriptionId: number;
+	name: string;
+	type: SubscriptionReminderType;
+	date: string; // 支払日・トライアル終了日・解約期限（YYYY-MM-DD）
+	amount: number | null; // 支払い・解約期限の場合は対象の支払日の金額
+	daysUntil: number;
+}
+
+// 同じ日付の予定の並び順（期限を先に表示する）
+const EVENT_TYPE_ORDER: Record<SubscriptionReminderType, number> = {
+	cancellation_deadline: 0,
+	trial_end: 1,
+	payment: 2,
+};
+
+/**
+ * 指定期間内に取引を生成する支払日を古い順に列挙
+ * 次回支払日から繰り返しルールで進め、トライアル中の支払日は除き、
+ * 終了日より後・残りの支払回数を超える支払日は列挙しない
+ */
+export function listChargeDates(
+	subscription: Omit<ReminderSubscription, "id" | "name" | "amount">,
+	from: string,
+	until: string,
+	maxDates: number = MAX_UPCOMING_EVENTS,
+): string[] {
+	const { endDate, trialEndDate } = subscription;
+	const dates: string[] = [];
+	let remainingPayments = subscription.remainingPayments;
+	let date = subscription.nextPaymentDate;
+
+	while (
+		date <= until &&
+		(!endDate || date <= endDate) &&
+		(remainingPayments === null || remainingPayments > 0) &&
+		dates.length < maxDates
+	) {
+		if (!trialEndDate || date >= trialEndDate) {
+			if (date >= from) dates.push(date);
+			if (remainingPayments !== null) remainingPayments--;
+		}
+		date = calculateNextOccurrence(date, subscription);
+	}
+
+	return dates;
+}
+
+/**
+ * 今日が通知期間（対象日の daysBefore 日前〜対象日）に入っているリマインダーの対象日を取得
+ *
+ * @returns 対象日と、支払い・解約期限の場合は対象の支払日（通知期間外の場合はnull）
+ */
+export function getDueReminderTarget(
+	subscription: Omit<ReminderSubscription, "id" | "name" | "amount">,
+	reminder: SubscriptionReminderSettings,
+	today: string,
+): { targetDate: string; paymentDate: string | null } | null {
+	const { daysBefore } = reminder;
+
+	switch (reminder.type) {
+		case "payment": {
+			const [paymentDate] = listChargeDates(
+				subscription,
+				today,
+				addDays(today, daysBefore),
+				1,
+			);
+			return paymentDate ? { targetDate: paymentDate, paymentDate } : null;
+		}
+		case "trial_end": {
+			const { trialEndDate } = subscription;
+			if (
+				!trialEndDate ||
+				trialEndDate < today ||
+				trialEndDate > addDays(today, daysBefore)
+			) {
+				return null;
+			}
+			return { targetDate: trialEndDate, paymentDate: null };
+		}
+		case "cancellation_deadline": {
+			// 解約期限が今日以降になる最初の支払日
+			const noticeDays = reminder.noticeDays ?? 0;
+			const [paymentDate] = listChargeDates(
+				subscription,
+				addDays(today, noticeDays),
+				addDays(today, noticeDays + daysBefore),
+				1,
+			);
+			return paymentDate
+				? { targetDate: addDays(paymentDate, -noticeDays), paymentDate }
+				: null;
+		}
+		default:
+			return null;
+	}
+}
+
+// 日付の表示（YYYY/M/D）
+const formatDate = (date: string): string =>
+	date
+		.split("-")
+		.map((part) => Number(part))
+		.join("/");
+
+// 対象日までの日数の表示
+const formatDaysUntil = (today: string, date: string): string => {
+	const days = getDaysBetween(today, date);
+	return days === 0 ? "今日" : `あと${days}日`;
+};
+
+/**
+ * 通知の見出し・本文を作成
+ */
+export function buildReminderNotification(
+	subscription: Pick<ReminderTarget, "id" | "name" | "amount" | "prices">,
+	type: SubscriptionReminderType,
+	target: { targetDate: string; paymentDate: string | null },
+	today: string,
+): ReminderNotification {
+	const { targetDate, paymentDate } = target;
+	const amount =
+		paymentDate !== null
+			? getPriceOnDate(subscription.prices, paymentDate, subscription.amount)
+			: null;
+	const daysUntil = formatDaysUntil(today, targetDate);
+
+	const content: Record<
+		SubscriptionReminderType,
+		{ title: string; message: string }
+	> = {
+		payment: {
+			title: `${subscription.name}の支払いが近づいています`,
+			message: `${formatDate(targetDate)}（${daysUntil}）に¥${amount?.toLocaleString()}の支払いがあります`,
+		},
+		trial_end: {
+			title: `${subscription.name}の無料トライアルが終了します`,
+			message: `${formatDate(targetDate)}（${daysUntil}）に無料トライアルが終了します。継続しない場合は終了日までに解約してください`,
+		},
+		cancellation_deadline: {
+			title: `${subscription.name}の解約期限が近づいています`,
+			message: `${formatDate(paymentDate ?? targetDate)}の支払い（¥${amount?.toLocaleString()}）を止めるには${formatDate(targetDate)}（${daysUntil}）までに解約してください`,
+		},
+	};
+
+	return {
+		subscriptionId: subscription.id,
+		type,
+		targetDate,
+		...content[type],
+	};
+}
+
+/**
+ * 通知の重複判定に使うキー（サブスクリプション・種類・対象日）
+ */
+export function getNotificationKey(
+	notification: Pick<
+		ReminderNotification,
+		"subscriptionId" | "type" | "targetDate"
+	>,
+): string {
+	return `${notification.subscriptionId}:${notification.type}:${notification.targetDate}`;
+}
+
+/**
+ * 今日が通知期間に入ったリマインダーから、まだ作成していない通知を決定
+ *
+ * @param existingKeys 作成済みの通知のキー（getNotificationKey）
+ */
+export function evaluateSubscriptionReminders(
+	targets: ReminderTarget[],
+	existingKeys: Set<string>,
+	today: string,
+): ReminderNotification[] {
+	const created: ReminderNotification[] = [];
+	const keys = new Set(existingKeys);
+
+	for (const target of targets) {
+		for (const reminder of target.reminders) {
+			const dueTarget = getDueReminderTarget(target, reminder, today);
+			if (!dueTarget) continue;
+
+			const notification = buildReminderNotification(
+				target,
+				reminder.type as SubscriptionReminderType,
+				dueTarget,
+				today,
+			);
+			const key = getNotificationKey(notification);
+			if (keys.has(key)) continue;
+
+			keys.add(key);
+			created.push(notification);
+		}
+	}
+
+	return created;
+}
+
+/**
+ * 今日から指定日数後までの支払い・トライアル終了・解約期限を日付順に列挙
+ * 解約期限は解約期限のリマインダーを設定したサブスクリプションのみ
+ */
+export function listUpcomingSubscriptionEvents(
+	targets: ReminderTarget[],
+	today: string,
+	days: number,
+): UpcomingSubscriptionEvent[] {
+	const until = addDays(today, days);
+	const events: UpcomingSubscriptionEvent[] = [];
+
+	const pushEvent = (
+		target: ReminderTarget,
+		type: SubscriptionReminderType,
+		date: string,
+		amount: number | null,
+	) => {
+		events.push({
+			subscriptionId: target.id,
+			name: target.name,
+			type,
+			date,
+			amount,
+			daysUntil: getDaysBetween(today, date),
+		});
+	};
+
+	for (const target of targets) {
+		for (const paymentDate of listChargeDates(target, today, until)) {
+			pushEvent(
+				target,
+				"payment",
+				paymentDate,
+				getPriceOnDate(target.prices, paymentDate, target.amount),
+			);
+		}
+
+		if (
+			target.trialEndDate &&
+			target.trialEndDate >= today &&
+			target.trialEndDate <= until
+		) {
+			pushEvent(target, "trial_end", target.trialEndDate, null);
+		}
+
+		const cancellation = target.reminders.find(
+			(reminder) => reminder.type === "cancellation_deadline",
+		);
+		if (cancellation) {
+			const noticeDays = cancellation.noticeDays ?? 0;
+			for (const paymentDate of listChargeDates(
+				target,
+				addDays(today, noticeDays),
+				addDays(until, noticeDays),
+			)) {
+				pushEvent(
+					target,
+					"cancellation_deadline",
+					addDays(paymentDate, -noticeDays),
+					getPriceOnDate(target.prices, paymentDate, target.amount),
+				);
+			}
+		}
+	}
+
+	return events
+		.sort(
+			(a, b) =>
+				a.date.localeCompare(b.date) ||
+				EVENT_TYPE_ORDER[a.type] - EVENT_TYPE_ORDER[b.type] ||
+				a.subscriptionId - b.subscriptionId,
+		)
+		.slice(0, MAX_UPCOMING_EVENTS);
+}
+
+/**
+ * サブスクリプションのリマインダーの設定を取得
+ */
+export async function getSubscriptionReminders(
+	db: Database,
+	subscriptionId: number,
+): Promise<SelectSubscriptionReminder[]> {
+	return db
+		.select()
+		.from(subscriptionReminders)
+		.where(eq(subscriptionReminders.subscriptionId, subscriptionId))
+		.orderBy(asc(subscriptionReminders.id));
+}
+
+/**
+ * サブスクリプションのリマインダーの設定を置き換える
+ * 指定されなかった種類のリマインダーは削除する（種類ごと1件）
+ *
+ * @returns 置き換え後のリマインダーの設定
+ */
+export async function replaceSubscriptionReminders(
+	db: Database,
+	subscriptionId: number,
+	reminders: SubscriptionReminderSettings[],
+): Promise<SelectSubscriptionReminder[]> {
+	await db
+		.delete(subscriptionReminders)
+		.where(eq(subscriptionReminders.subscriptionId, subscriptionId));
+
+	// 同じ種類が複数指定された場合は後の設定を使う
+	const byType = new Map(
+		reminders.map((reminder) => [reminder.type, reminder]),
+	);
+	for (const reminder of byType.values()) {
+		await db.insert(subscriptionReminders).values({
+			subscriptionId,
+			type: reminder.type,
+			daysBefore: reminder.daysBefore,
+			noticeDays:
+				reminder.type === "cancellation_deadline"
+					? (reminder.noticeDays ?? 0)
+					: null,
+		});
+	}
+
+	return getSubscriptionReminders(db, subscriptionId);
+}
+
+/**
+ * アクティブなサブスクリプション（分割払いを除く）のリマインダーの評価対象を取得
+ */
+async function getReminderTargets(db: Database): Promise<ReminderTarget[]> {
+	const activeSubscriptions: ReminderSubscription[] = await (db as any)
+		.select({
+			id: subscriptions.id,
+			name: subscriptions.name,
+			amount: subscriptions.amount,
+			frequency: subscriptions.frequency,
+			nextPaymentDate: subscriptions.nextPaymentDate,
+			intervalCount: subscriptions.intervalCount,
+			billingDay: subscriptions.billingDay,
+			businessDayAdjustment: subscriptions.businessDayAdjustment,
+			endDate: subscriptions.endDate,
+			remainingPayments: subscriptions.remainingPayments,
+			trialEndDate: subscriptions.trialEndDate,
+		})
+		.from(subscriptions)
+		.where(
+			and(eq(subscriptions.isActive, true), not(isInstallmentSubscription)),
+		)
+		.orderBy(asc(subscriptions.nextPaymentDate), asc(subscriptions.id));
+	if (activeSubscriptions.length === 0) return [];
+
+	const ids = activeSubscriptions.map((subscription) => subscription.id);
+	const reminderRows: SelectSubscriptionReminder[] = [];
+	const priceRows: SelectSubscriptionPrice[] = [];
+	for (let i = 0; i < ids.length; i += REMINDER_TARGET_CHUNK_SIZE) {
+		const idsChunk = ids.slice(i, i + REMINDER_TARGET_CHUNK_SIZE);
+		const [reminderChunk, priceChunk] = await Promise.all([
+			db
+				.select()
+				.from(subscriptionReminders)
+				.where(inArray(subscriptionReminders.subscriptionId, idsChunk)),
+			db
+				.select()
+				.from(subscriptionPrices)
+				.where(inArray(subscriptionPrices.subscriptionId, idsChunk))
+				.orderBy(asc(subscriptionPrices.effectiveDate)),
+		]);
+		reminderRows.push(...reminderChunk);
+		priceRows.push(...priceChunk);
+	}
+
+	return activeSubscriptions.map((subscription) => ({
+		...subscription,
+		reminders: reminderRows.filter(
+			(reminder) => reminder.subscriptionId === subscription.id,
+		),
+		prices: priceRows.filter(
+			(price) => price.subscriptionId === subscription.id,
+		),
+	}));
+}
+
+/**
+ * 今日が通知期間に入ったリマインダーから通知を作成
+ *
+ * - 対象: アクティブなサブスクリプション（分割払いを除く）のリマインダー
+ * - 同じサブスクリプション・種類・対象日の通知が既にあれば作成しない（冪等性の担保）
+ * - 実行しなかった日があっても、対象日までの通知期間内であれば次の実行で作成する
+ */
+export async function generateSubscriptionReminders(
+	db: Database,
+	today: string = getTodayInJst(),
+) {
+	const targets = (await getReminderTargets(db)).filter(
+		(target) => target.reminders.length > 0,
+	);
+
+	// 対象日が今日以降の作成済みの通知（通知期間の対象日は常に今日以降）
+	const existing: ReminderNotification[] =
+		targets.length > 0
+			? await (db as any)
+					.select({
+						subscriptionId: notifications.subscriptionId,
+						type: notifications.type,
+						targetDate: notifications.targetDate,
+					})
+					.from(notifications)
+					.where(gte(notifications.targetDate, today))
+			: [];
+
+	const created = evaluateSubscriptionReminders(
+		targets,
+		new Set(existing.map(getNotificationKey)),
+		today,
+	);
+	for (const notification of created) {
+		await db.insert(notifications).values(notification);
+	}
+
+	return {
+		processedDate: today,
+		createdNotifications: created.length,
+		notifications: created,
+	};
+}
+
+/**
+ * 今日から指定日数後までの支払い・トライアル終了・解約期限を取得
+ */
+export async function getUpcomingSubscriptionEvents(
+	db: Database,
+	days: number,
+	today: string = getTodayInJst(),
+): Promise<UpcomingSubscriptionEvent[]> {
+	return listUpcomingSubscriptionEvents(
+		await getReminderTargets(db),
+		today,
+		days,
+	);
+}
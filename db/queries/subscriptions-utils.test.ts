@@ -1,5 +1,11 @@
 import { describe, expect, it } from "vitest";
-import { calculateNextPaymentDate } from "./subscriptions";
+import {
+	calculateDuePaymentDates,
+	calculateNextPaymentDate,
+	getSubscriptionTermValidationError,
+	planSubscriptionPayments,
+	resolveSubscriptionSchedule,
+} from "./subscriptions";
 
 /**
  * サブスクリプション関数のユニットテスト
@@ -46,8 +52,8 @@ describe("subscriptions utils", () => {
 			const result = calculateNextPaymentDate("2024-01-31", "monthly");
 
 			// 検証
-			// JavaScriptのDateオブジェクトは1月31日に1か月加算すると3月2日になる（2月は29日まで）
-			expect(result).toBe("2024-03-02");
+			// 月の日数を超える日は月末に丸める（2月は29日まで）
+			expect(result).toBe("2024-02-29");
 		});
 
 		it("正常ケース: うるう年でない年の2月末", () => {
@@ -55,8 +61,30 @@ describe("subscriptions utils", () => {
 			const result = calculateNextPaymentDate("2023-01-31", "monthly");
 
 			// 検証
-			// JavaScriptのDateオブジェクトは1月31日に1か月加算すると3月3日になる（2月は28日まで）
-			expect(result).toBe("2023-03-03");
+			expect(result).toBe("2023-02-28");
+		});
+
+		it("正常ケース: 支払日を指定すると月末に丸めた翌月も元の日に戻る", () => {
+			// 実行
+			const result = calculateNextPaymentDate("2024-02-29", "monthly", {
+				billingDay: 31,
+			});
+
+			// 検証
+			expect(result).toBe("2024-03-31");
+		});
+
+		it("正常ケース: 支払い間隔と土日祝日の扱いを指定して計算", () => {
+			// 実行
+			const quarterly = calculateNextPaymentDate("2026-01-10", "monthly", {
+				intervalCount: 3,
+				billingDay: 10,
+				businessDayAdjustment: "next",
+			});
+
+			// 検証
+			// 2026-04-10は金曜日のためそのまま
+			expect(quarterly).toBe("2026-04-10");
 		});
 
 		it("正常ケース: 30日の月から31日の月への移行", () => {
@@ -91,4 +119,218 @@ describe("subscriptions utils", () => {
 			expect(result).toBe("2025-01-06");
 		});
 	});
+
+	describe("calculateDuePaymentDates", () => {
+		it("正常ケース: 支払日当日は1回分を返し次回支払日を進める", () => {
+			// 実行
+			const result = calculateDuePaymentDates(
+				"2024-03-15",
+				"monthly",
+				"2024-03-15",
+			);
+
+			// 検証
+			expect(result).toEqual({
+				dueDates: ["2024-03-15"],
+				nextPaymentDate: "2024-04-15",
+			});
+		});
+
+		it("正常ケース: 取りこぼした複数回分の支払日をすべて返す", () => {
+			// 実行
+			const result = calculateDuePaymentDates(
+				"2024-01-10",
+				"monthly",
+				"2024-03-20",
+			);
+
+			// 検証
+			expect(result).toEqual({
+				dueDates: ["2024-01-10", "2024-02-10", "2024-03-10"],
+				nextPaymentDate: "2024-04-10",
+			});
+		});
+
+		it("正常ケース: 支払日が未到来の場合は空配列", () => {
+			// 実行
+			const result = calculateDuePaymentDates(
+				"2024-03-16",
+				"weekly",
+				"2024-03-15",
+			);
+
+			// 検証
+			expect(result).toEqual({
+				dueDates: [],
+				nextPaymentDate: "2024-03-16",
+			});
+		});
+
+		it("正常ケース: 支払日を指定すると取りこぼした月末の支払日がずれない", () => {
+			// 実行
+			const result = calculateDuePaymentDates(
+				"2024-01-31",
+				"monthly",
+				"2024-04-30",
+				undefined,
+				{ billingDay: 31 },
+			);
+
+			// 検証
+			expect(result).toEqual({
+				dueDates: ["2024-01-31", "2024-02-29", "2024-03-31", "2024-04-30"],
+				nextPaymentDate: "2024-05-31",
+			});
+		});
+
+		it("エッジケース: 上限件数を超える場合は上限までで打ち切る", () => {
+			// 実行
+			const result = calculateDuePaymentDates(
+				"2024-01-01",
+				"daily",
+				"2024-12-31",
+				3,
+			);
+
+			// 検証
+			// 残りは次回実行時に生成されるよう、次回支払日は4件目の日付になる
+			expect(result).toEqual({
+				dueDates: ["2024-01-01", "2024-01-02", "2024-01-03"],
+				nextPaymentDate: "2024-01-04",
+			});
+		});
+	});
+
+	describe("resolveSubscriptionSchedule", () => {
+		it("正常ケース: 月次で支払日が未指定の場合は次回支払日の日を支払日とする", () => {
+			// 実行
+			const result = resolveSubscriptionSchedule({
+				frequency: "monthly",
+				nextPaymentDate: "2026-01-31",
+			});
+
+			// 検証
+			expect(result).toEqual({ nextPaymentDate: "2026-01-31", billingDay: 31 });
+		});
+
+		it("正常ケース: 次回支払日を支払日・土日祝日の扱いに合わせる", () => {
+			// 実行
+			// 2026-10-31は土曜日のため、月末最終営業日は10月30日
+			const result = resolveSubscriptionSchedule({
+				frequency: "monthly",
+				nextPaymentDate: "2026-10-31",
+				billingDay: 31,
+				businessDayAdjustment: "previous",
+			});
+
+			// 検証
+			expect(result).toEqual({ nextPaymentDate: "2026-10-30", billingDay: 31 });
+		});
+
+		it("境界値ケース: 日次・週次は支払日を持たない", () => {
+			// 実行
+			const result = resolveSubscriptionSchedule({
+				frequency: "weekly",
+				nextPaymentDate: "2026-10-31",
+				billingDay: 31,
+				businessDayAdjustment: "previous",
+			});
+
+			// 検証
+			expect(result).toEqual({
+				nextPaymentDate: "2026-10-31",
+				billingDay: null,
+			});
+		});
+	});
+
+	describe("planSubscriptionPayments", () => {
+		const baseSchedule = {
+			frequency: "monthly",
+			nextPaymentDate: "2026-08-10",
+			intervalCount: 1,
+			billingDay: 10,
+			businessDayAdjustment: "none",
+			endDate: null,
+			remainingPayments: null,
+			trialEndDate: null,
+		};
+
+		it("正常ケース: 無料トライアル終了日より前の支払日は請求しない", () => {
+			// 実行
+			const result = planSubscriptionPayments(
+				{ ...baseSchedule, trialEndDate: "2026-09-10" },
+				"2026-10-19",
+			);
+
+			// 検証
+			expect(result.trialDates).toEqual(["2026-08-10"]);
+			expect(result.chargeDates).toEqual(["2026-09-10", "2026-10-10"]);
+			expect(result.nextPaymentDate).toBe("2026-11-10");
+			expect(result.isCompleted).toBe(false);
+		});
+
+		it("正常ケース: 残りの支払回数に達したら完了にする", () => {
+			// 実行
+			const result = planSubscriptionPayments(
+				{ ...baseSchedule, remainingPayments: 2 },
+				"2026-10-19",
+			);
+
+			// 検証
+			expect(result.chargeDates).toEqual(["2026-08-10", "2026-09-10"]);
+			expect(result.remainingPayments).toBe(0);
+			expect(result.isCompleted).toBe(true);
+		});
+
+		it("境界値ケース: 終了日より後の支払日は請求せず完了にする", () => {
+			// 実行
+			const result = planSubscriptionPayments(
+				{ ...baseSchedule, endDate: "2026-09-10" },
+				"2026-10-19",
+			);
+
+			// 検証
+			expect(result.chargeDates).toEqual(["2026-08-10", "2026-09-10"]);
+			expect(result.nextPaymentDate).toBe("2026-10-10");
+			expect(result.isCompleted).toBe(true);
+		});
+
+		it("境界値ケース: 終了日が次回支払日以降なら継続する", () => {
+			// 実行
+			const result = planSubscriptionPayments(
+				{ ...baseSchedule, endDate: "2026-11-10", remainingPayments: 5 },
+				"2026-10-19",
+			);
+
+			// 検証
+			expect(result.chargeDates).toHaveLength(3);
+			expect(result.remainingPayments).toBe(2);
+			expect(result.isCompleted).toBe(false);
+		});
+	});
+
+	describe("getSubscriptionTermValidationError", () => {
+		it("異常ケース: 終了日が次回支払日より前はエラー", () => {
+			// 検証
+			expect(
+				getSubscriptionTermValidationError({
+					nextPaymentDate: "2026-11-01",
+					endDate: "2026-10-31",
+				}),
+			).toBe("終了日は次回支払日以降の日付を指定してください");
+			expect(
+				getSubscriptionTermValidationError({
+					nextPaymentDate: "2026-11-01",
+					endDate: "2026-11-01",
+				}),
+			).toBeNull();
+			expect(
+				getSubscriptionTermValidationError({
+					nextPaymentDate: "2026-11-01",
+					endDate: null,
+				}),
+			).toBeNull();
+		});
+	});
 });
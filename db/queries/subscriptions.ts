@@ -1,11 +1,35 @@
-import { and, desc, eq, lte, sql } from "drizzle-orm";
+import { and, desc, eq, lte, not } from "drizzle-orm";
 import type { Database } from "../connection";
 import {
 	type InsertSubscription,
 	type SelectSubscription,
 	categories,
+	notifications,
+	subscriptionPrices,
+	subscriptionReminders,
+	subscriptionSkippedPeriods,
 	subscriptions,
+	transactions,
 } from "../schema";
+import {
+	categorizeTransaction,
+	getActiveCategorizationRules,
+} from "./categorization-rules";
+import { isInstallmentSubscription } from "./installments";
+import {
+	type RecurrenceRule,
+	alignToRecurrence,
+	calculateNextOccurrence,
+	getMonthlyEquivalentAmount,
+	getTodayInJst,
+	isMonthBasedFrequency,
+} from "./recurrence";
+import {
+	getPriceOnDate,
+	getSubscriptionPrices,
+	recordSubscriptionPrice,
+} from "./subscription-prices";
+import { createTransaction } from "./transactions";
 
 /**
  * サブスクリプション関連のデータベースクエリ関数
@@ -14,10 +38,73 @@ import {
  * - 定期支払いの自動化を前提とした設計
  * - 次回支払日の管理と更新機能を重視
  * - アクティブ・非アクティブの管理をサポート
+ * - 支払日到来時の取引自動生成は冪等に実行できるようにする
+ * - 自動生成する取引にも自動分類ルール（categorization-rules.ts）を適用する
+ * - 分割払い（installment_plans）の支払いを生成するサブスクリプションは一覧・集計・自動生成の対象外とする
+ *   （支払いの生成は installments.ts の generateInstallmentTransactions が担う）
+ * - 支払日の計算（月末の丸め・支払い間隔・土日祝日の前営業日/翌営業日への調整）は recurrence.ts に委ね、
+ *   「今日」は日本時間で判定する
+ * - 終了日・残りの支払回数に達したサブスクリプションは自動生成時に非アクティブにする
+ *   無料トライアルの終了日より前の支払日は取引を生成せず、支払回数にも数えない
+ * - 月額の集計は周期・支払い間隔から1年あたりの支払回数を求めて換算する（画面の表示と同じ計算）
+ * - 金額は作成時・変更時に価格履歴（subscription-prices.ts）に記録し、
+ *   自動生成する取引には支払日時点の金額を使う（将来の適用日の変更は次の支払いから反映される）
+ */
+
+/**
+ * 1回の実行で1件のサブスクリプションに対して生成する取引の上限
+ * 日次で長期間停止していた場合などに大量生成しないための安全装置
+ */
+export const MAX_CATCH_UP_PAYMENTS = 366;
+
+/**
+ * 支払いスケジュール（支払日・次回支払日）を繰り返しルールに合わせて決定
+ *
+ * - 月単位の周期で支払日が未指定の場合は次回支払日の日を支払日とする
+ *   （月末に丸めた日付から次の支払日を計算してもずれないよう、元の日を保存する）
+ * - 次回支払日は支払日に合わせ、土日祝日の場合は前営業日・翌営業日にずらす
+ * - 日次・週次は支払日を持たない
  */
+export function resolveSubscriptionSchedule(
+	schedule: RecurrenceRule & { nextPaymentDate: string },
+): { nextPaymentDate: string; billingDay: number | null } {
+	if (!isMonthBasedFrequency(schedule.frequency)) {
+		return { nextPaymentDate: schedule.nextPaymentDate, billingDay: null };
+	}
+
+	const billingDay =
+		schedule.billingDay ?? Number(schedule.nextPaymentDate.split("-")[2]);
+	return {
+		nextPaymentDate: alignToRecurrence(schedule.nextPaymentDate, {
+			...schedule,
+			billingDay,
+		}),
+		billingDay,
+	};
+}
+
+/**
+ * 契約の終了日を検証
+ *
+ * @returns エラーメッセージ（問題がなければnull）
+ */
+export function getSubscriptionTermValidationError(
+	subscription: Pick<SelectSubscription, "nextPaymentDate"> & {
+		endDate?: string | null;
+	},
+): string | null {
+	if (
+		subscription.endDate &&
+		subscription.endDate < subscription.nextPaymentDate
+	) {
+		return "終了日は次回支払日以降の日付を指定してください";
+	}
+	return null;
+}
 
 /**
  * 新しいサブスクリプションを作成
+ * 初回の支払日を適用日として、最初の金額を価格履歴に記録する
  */
 export async function createSubscription(
 	db: Database,
@@ -26,9 +113,17 @@ export async function createSubscription(
 	// createdAt/updatedAtはデータベースのCURRENT_TIMESTAMPデフォルト値を使用
 	const [created] = await db
 		.insert(subscriptions)
-		.values(subscription)
+		.values({
+			...subscription,
+			...resolveSubscriptionSchedule(subscription),
+		})
 		.returning();
 
+	await recordSubscriptionPrice(db, created.id, {
+		amount: created.amount,
+		effectiveDate: created.nextPaymentDate,
+	});
+
 	return created;
 }
 
@@ -43,7 +138,14 @@ export async function getSubscriptionById(db: Database, id: number) {
 			amount: subscriptions.amount,
 			frequency: subscriptions.frequency,
 			nextPaymentDate: subscriptions.nextPaymentDate,
+			intervalCount: subscriptions.intervalCount,
+			billingDay: subscriptions.billingDay,
+			businessDayAdjustment: subscriptions.businessDayAdjustment,
+			endDate: subscriptions.endDate,
+			remainingPayments: subscriptions.remainingPayments,
+			trialEndDate: subscriptions.trialEndDate,
 			description: subscriptions.description,
+			accountId: subscriptions.accountId,
 			isActive: subscriptions.isActive,
 			autoGenerate: subscriptions.autoGenerate,
 			createdAt: subscriptions.createdAt,
@@ -82,7 +184,14 @@ export async function getSubscriptionsList(
 			amount: subscriptions.amount,
 			frequency: subscriptions.frequency,
 			nextPaymentDate: subscriptions.nextPaymentDate,
+			intervalCount: subscriptions.intervalCount,
+			billingDay: subscriptions.billingDay,
+			businessDayAdjustment: subscriptions.businessDayAdjustment,
+			endDate: subscriptions.endDate,
+			remainingPayments: subscriptions.remainingPayments,
+			trialEndDate: subscriptions.trialEndDate,
 			description: subscriptions.description,
+			accountId: subscriptions.accountId,
 			isActive: subscriptions.isActive,
 			autoGenerate: subscriptions.autoGenerate,
 			createdAt: subscriptions.createdAt,
@@ -98,10 +207,13 @@ export async function getSubscriptionsList(
 		.from(subscriptions)
 		.leftJoin(categories, eq(subscriptions.categoryId, categories.id));
 
-	// アクティブ・非アクティブのフィルタリング
-	if (isActive !== undefined) {
-		query.where(eq(subscriptions.isActive, isActive));
-	}
+	// アクティブ・非アクティブのフィルタリング（分割払いは除く）
+	query.where(
+		and(
+			not(isInstallmentSubscription),
+			isActive !== undefined ? eq(subscriptions.isActive, isActive) : undefined,
+		),
+	);
 
 	return await (query as any).orderBy(desc(subscriptions.createdAt));
 }
@@ -117,6 +229,12 @@ export async function getActiveSubscriptions(db: Database) {
 			amount: subscriptions.amount,
 			frequency: subscriptions.frequency,
 			nextPaymentDate: subscriptions.nextPaymentDate,
+			intervalCount: subscriptions.intervalCount,
+			billingDay: subscriptions.billingDay,
+			businessDayAdjustment: subscriptions.businessDayAdjustment,
+			endDate: subscriptions.endDate,
+			remainingPayments: subscriptions.remainingPayments,
+			trialEndDate: subscriptions.trialEndDate,
 			description: subscriptions.description,
 			autoGenerate: subscriptions.autoGenerate,
 			category: {
@@ -128,7 +246,9 @@ export async function getActiveSubscriptions(db: Database) {
 		})
 		.from(subscriptions)
 		.leftJoin(categories, eq(subscriptions.categoryId, categories.id))
-		.where(eq(subscriptions.isActive, true))
+		.where(
+			and(eq(subscriptions.isActive, true), not(isInstallmentSubscription)),
+		)
 		.orderBy(subscriptions.nextPaymentDate)) as any;
 }
 
@@ -136,7 +256,7 @@ export async function getActiveSubscriptions(db: Database) {
  * 今日支払い予定のサブスクリプションを取得
  */
 export async function getSubscriptionsDueToday(db: Database) {
-	const today = new Date().toISOString().split("T")[0]; // YYYY-MM-DD形式
+	const today = getTodayInJst(); // YYYY-MM-DD形式
 
 	return (await (db as any)
 		.select({
@@ -145,6 +265,12 @@ export async function getSubscriptionsDueToday(db: Database) {
 			amount: subscriptions.amount,
 			frequency: subscriptions.frequency,
 			nextPaymentDate: subscriptions.nextPaymentDate,
+			intervalCount: subscriptions.intervalCount,
+			billingDay: subscriptions.billingDay,
+			businessDayAdjustment: subscriptions.businessDayAdjustment,
+			endDate: subscriptions.endDate,
+			remainingPayments: subscriptions.remainingPayments,
+			trialEndDate: subscriptions.trialEndDate,
 			autoGenerate: subscriptions.autoGenerate,
 			category: {
 				id: categories.id,
@@ -159,6 +285,7 @@ export async function getSubscriptionsDueToday(db: Database) {
 			and(
 				eq(subscriptions.isActive, true),
 				lte(subscriptions.nextPaymentDate, today),
+				not(isInstallmentSubscription),
 			),
 		)) as any;
 }
@@ -221,8 +348,20 @@ export async function deactivateSubscription(db: Database, id: number) {
 
 /**
  * サブスクリプションを完全削除
+ * 価格履歴・スキップした期間・リマインダーの設定と通知も合わせて削除する
  */
 export async function deleteSubscription(db: Database, id: number) {
+	await db
+		.delete(subscriptionPrices)
+		.where(eq(subscriptionPrices.subscriptionId, id));
+	await db
+		.delete(subscriptionSkippedPeriods)
+		.where(eq(subscriptionSkippedPeriods.subscriptionId, id));
+	await db
+		.delete(subscriptionReminders)
+		.where(eq(subscriptionReminders.subscriptionId, id));
+	await db.delete(notifications).where(eq(notifications.subscriptionId, id));
+
 	const [deleted] = await db
 		.delete(subscriptions)
 		.where(eq(subscriptions.id, id))
@@ -233,55 +372,246 @@ export async function deleteSubscription(db: Database, id: number) {
 
 /**
  * 月次サブスクリプション合計金額を計算
+ * 各周期・支払い間隔の金額を月額に換算して合計する（recurrence.ts の getMonthlyEquivalentAmount）
  */
 export async function getMonthlySubscriptionTotal(db: Database) {
-	// 各周期を月次に換算した金額を計算
-	// daily: 30倍, weekly: 4.33倍, monthly: 1倍, yearly: 1/12倍
-	const result = (await (db as any)
+	const rows = (await (db as any)
 		.select({
-			totalMonthly: sql<number>`
-        SUM(
-          CASE 
-            WHEN frequency = 'daily' THEN amount * 30
-            WHEN frequency = 'weekly' THEN amount * 4.33
-            WHEN frequency = 'monthly' THEN amount
-            WHEN frequency = 'yearly' THEN amount / 12
-            ELSE 0
-          END
-        )
-      `.as("totalMonthly"),
+			amount: subscriptions.amount,
+			frequency: subscriptions.frequency,
+			intervalCount: subscriptions.intervalCount,
 		})
 		.from(subscriptions)
-		.where(eq(subscriptions.isActive, true))) as any;
+		.where(
+			and(eq(subscriptions.isActive, true), not(isInstallmentSubscription)),
+		)) as Pick<SelectSubscription, "amount" | "frequency" | "intervalCount">[];
 
-	return (result[0] as any)?.totalMonthly || 0;
+	return Math.round(
+		rows.reduce(
+			(total, row) =>
+				total +
+				getMonthlyEquivalentAmount(
+					row.amount,
+					row.frequency,
+					row.intervalCount,
+				),
+			0,
+		),
+	);
 }
 
 /**
  * 頻度別の次回支払日を計算
+ *
+ * @param schedule - 支払い間隔・支払日・土日祝日の扱い（省略時は1周期ごと・現在の支払日の日・調整なし）
  */
 export function calculateNextPaymentDate(
 	currentDate: string,
 	frequency: string,
+	schedule: Omit<RecurrenceRule, "frequency"> = {},
 ): string {
-	const date = new Date(currentDate);
-
-	switch (frequency) {
-		case "daily":
-			date.setDate(date.getDate() + 1);
-			break;
-		case "weekly":
-			date.setDate(date.getDate() + 7);
-			break;
-		case "monthly":
-			date.setMonth(date.getMonth() + 1);
-			break;
-		case "yearly":
-			date.setFullYear(date.getFullYear() + 1);
-			break;
-		default:
-			throw new Error(`Unsupported frequency: ${frequency}`);
+	return calculateNextOccurrence(currentDate, { ...schedule, frequency });
+}
+
+/**
+ * 基準日までに到来した支払日の一覧と、その次の支払日を計算
+ * 複数回分の支払日を取りこぼした場合もすべて列挙する（上限あり）
+ */
+export function calculateDuePaymentDates(
+	nextPaymentDate: string,
+	frequency: string,
+	today: string,
+	maxPayments: number = MAX_CATCH_UP_PAYMENTS,
+	schedule: Omit<RecurrenceRule, "frequency"> = {},
+): { dueDates: string[]; nextPaymentDate: string } {
+	const dueDates: string[] = [];
+	let current = nextPaymentDate;
+
+	while (current <= today && dueDates.length < maxPayments) {
+		dueDates.push(current);
+		current = calculateNextPaymentDate(current, frequency, schedule);
+	}
+
+	return { dueDates, nextPaymentDate: current };
+}
+
+// 支払いの生成計画に必要なサブスクリプションの項目
+export type SubscriptionPaymentSchedule = Pick<
+	SelectSubscription,
+	| "frequency"
+	| "nextPaymentDate"
+	| "intervalCount"
+	| "billingDay"
+	| "businessDayAdjustment"
+	| "endDate"
+	| "remainingPayments"
+	| "trialEndDate"
+>;
+
+export interface SubscriptionPaymentPlan {
+	chargeDates: string[]; // 取引を生成する支払日
+	trialDates: string[]; // 無料トライアル中のため取引を生成しない支払日
+	nextPaymentDate: string;
+	remainingPayments: number | null;
+	isCompleted: boolean; // 終了日・残りの支払回数に達したか
+}
+
+/**
+ * 基準日までに到来した支払日から、取引を生成する支払日と生成後の状態を決定
+ *
+ * - 終了日より後の支払日は対象外
+ * - 無料トライアルの終了日より前の支払日は取引を生成せず、残りの支払回数も減らさない
+ * - 残りの支払回数が0になった時点で以降の支払日は対象外
+ */
+export function planSubscriptionPayments(
+	subscription: SubscriptionPaymentSchedule,
+	today: string,
+	maxPayments: number = MAX_CATCH_UP_PAYMENTS,
+): SubscriptionPaymentPlan {
+	const { endDate, trialEndDate } = subscription;
+	const { dueDates, nextPaymentDate } = calculateDuePaymentDates(
+		subscription.nextPaymentDate,
+		subscription.frequency,
+		endDate && endDate < today ? endDate : today,
+		maxPayments,
+		subscription,
+	);
+
+	const chargeDates: string[] = [];
+	const trialDates: string[] = [];
+	let remainingPayments = subscription.remainingPayments;
+
+	for (const dueDate of dueDates) {
+		if (remainingPayments !== null && remainingPayments <= 0) break;
+
+		if (trialEndDate && dueDate < trialEndDate) {
+			trialDates.push(dueDate);
+			continue;
+		}
+
+		chargeDates.push(dueDate);
+		if (remainingPayments !== null) remainingPayments--;
+	}
+
+	return {
+		chargeDates,
+		trialDates,
+		nextPaymentDate,
+		remainingPayments,
+		isCompleted:
+			(remainingPayments !== null && remainingPayments <= 0) ||
+			(endDate !== null && nextPaymentDate > endDate),
+	};
+}
+
+/**
+ * 支払日が到来した自動生成対象のサブスクリプションから支出取引を生成
+ *
+ * - 対象: アクティブかつautoGenerateが有効で、次回支払日が基準日以前のもの
+ * - 取りこぼした複数回分の支払日もまとめて生成し、次回支払日を基準日より後に進める
+ * - 同じサブスクリプション・同じ取引日の取引が既にあれば生成しない（冪等性の担保）
+ * - 無料トライアル中の支払日は生成せず、終了日・残りの支払回数に達したら非アクティブにする
+ * - 取引の金額は価格履歴から支払日時点の金額を使う
+ */
+export async function generateSubscriptionTransactions(
+	db: Database,
+	today: string = getTodayInJst(),
+) {
+	const dueSubscriptions = await db
+		.select()
+		.from(subscriptions)
+		.where(
+			and(
+				eq(subscriptions.isActive, true),
+				eq(subscriptions.autoGenerate, true),
+				lte(subscriptions.nextPaymentDate, today),
+				not(isInstallmentSubscription),
+			),
+		)
+		.orderBy(subscriptions.nextPaymentDate);
+
+	// 生成する取引に適用する自動分類ルール
+	const rules =
+		dueSubscriptions.length > 0 ? await getActiveCategorizationRules(db) : [];
+
+	const results: {
+		subscriptionId: number;
+		name: string;
+		createdDates: string[];
+		skippedDates: string[];
+		trialDates: string[];
+		nextPaymentDate: string;
+		isCompleted: boolean;
+	}[] = [];
+
+	for (const subscription of dueSubscriptions) {
+		const plan = planSubscriptionPayments(subscription, today);
+		const prices = await getSubscriptionPrices(db, subscription.id);
+
+		const createdDates: string[] = [];
+		const skippedDates: string[] = [];
+
+		for (const dueDate of plan.chargeDates) {
+			// 前回の実行が途中で失敗した場合に備え、生成済みの取引は再作成しない
+			const [existing] = (await (db as any)
+				.select({ id: transactions.id })
+				.from(transactions)
+				.where(
+					and(
+						eq(transactions.recurringId, subscription.id),
+						eq(transactions.transactionDate, dueDate),
+					),
+				)
+				.limit(1)) as any;
+
+			if (existing) {
+				skippedDates.push(dueDate);
+				continue;
+			}
+
+			await createTransaction(
+				db,
+				categorizeTransaction(rules, {
+					amount: getPriceOnDate(prices, dueDate, subscription.amount),
+					type: "expense",
+					categoryId: subscription.categoryId,
+					accountId: subscription.accountId,
+					description: subscription.name,
+					transactionDate: dueDate,
+					isRecurring: true,
+					recurringId: subscription.id,
+				}),
+			);
+			createdDates.push(dueDate);
+		}
+
+		// 全支払日の処理後に次回支払日・残りの支払回数を進め、終了したものは非アクティブにする
+		// 金額は次回支払日に適用される金額にする（将来の適用日の変更をここで反映する）
+		await updateSubscription(db, subscription.id, {
+			amount: getPriceOnDate(prices, plan.nextPaymentDate, subscription.amount),
+			nextPaymentDate: plan.nextPaymentDate,
+			remainingPayments: plan.remainingPayments,
+			...(plan.isCompleted ? { isActive: false } : {}),
+		});
+
+		results.push({
+			subscriptionId: subscription.id,
+			name: subscription.name,
+			createdDates,
+			skippedDates,
+			trialDates: plan.trialDates,
+			nextPaymentDate: plan.nextPaymentDate,
+			isCompleted: plan.isCompleted,
+		});
 	}
 
-	return date.toISOString().split("T")[0]; // YYYY-MM-DD形式で返す
+	return {
+		processedDate: today,
+		processedSubscriptions: results.length,
+		createdTransactions: results.reduce(
+			(sum, result) => sum + result.createdDates.length,
+			0,
+		),
+		subscriptions: results,
+	};
 }
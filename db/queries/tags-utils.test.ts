@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import { applyTagMapping, parseTagNames, summarizeTagTotals } from "./tags";
+
+/**
+ * タグ関連関数のユニットテスト
+ *
+ * データベースに依存しないタグの解析・書き換え・集計のテスト
+ */
+
+describe("tags utils", () => {
+	describe("parseTagNames", () => {
+		it("正常ケース: JSON配列の文字列のタグを返す", () => {
+			// 検証
+			expect(parseTagNames(JSON.stringify(["外食", "会社"]))).toEqual([
+				"外食",
+				"会社",
+			]);
+		});
+
+		it("異常ケース: 不正なJSON・配列以外・文字列以外・空文字は除外する", () => {
+			// 検証
+			expect(parseTagNames("broken")).toEqual([]);
+			expect(parseTagNames(JSON.stringify({ tag: "外食" }))).toEqual([]);
+			expect(parseTagNames(JSON.stringify(["外食", 1, " ", null]))).toEqual([
+				"外食",
+			]);
+			expect(parseTagNames(null)).toEqual([]);
+		});
+	});
+
+	describe("applyTagMapping", () => {
+		it("正常ケース: タグ名を変更し、並び順を保つ", () => {
+			// 実行
+			const result = applyTagMapping(
+				JSON.stringify(["外食", "会社", "出張"]),
+				new Map([["会社", "仕事"]]),
+			);
+
+			// 検証
+			expect(result).toBe(JSON.stringify(["外食", "仕事", "出張"]));
+		});
+
+		it("正常ケース: 統合で重複したタグは最初の位置に残す", () => {
+			// 実行
+			const result = applyTagMapping(
+				JSON.stringify(["ランチ", "外食", "会社"]),
+				new Map([["ランチ", "外食"]]),
+			);
+
+			// 検証
+			expect(result).toBe(JSON.stringify(["外食", "会社"]));
+		});
+
+		it("境界値ケース: 削除で最後のタグがなくなった場合はnull", () => {
+			// 検証
+			expect(
+				applyTagMapping(JSON.stringify(["外食"]), new Map([["外食", null]])),
+			).toBeNull();
+		});
+
+		it("境界値ケース: 対象のタグがない場合は変更なし（undefined）", () => {
+			// 検証
+			expect(
+				applyTagMapping(JSON.stringify(["外食"]), new Map([["会社", "仕事"]])),
+			).toBeUndefined();
+			expect(applyTagMapping(null, new Map([["会社", null]]))).toBeUndefined();
+		});
+	});
+
+	describe("summarizeTagTotals", () => {
+		it("正常ケース: タグごとに収入・支出をまとめ、支出の多い順に並べる", () => {
+			// 実行
+			const stats = summarizeTagTotals([
+				{
+					tagId: 1,
+					name: "旅行",
+					color: "#F59E0B",
+					type: "expense",
+					total: 80000,
+					count: 5,
+				},
+				{
+					tagId: 2,
+					name: "副業",
+					color: null,
+					type: "income",
+					total: 50000,
+					count: 2,
+				},
+				{
+					tagId: 2,
+					name: "副業",
+					color: null,
+					type: "expense",
+					total: 3000,
+					count: 1,
+				},
+			]);
+
+			// 検証
+			expect(stats).toEqual([
+				{
+					tagId: 1,
+					name: "旅行",
+					color: "#F59E0B",
+					income: 0,
+					expense: 80000,
+					incomeCount: 0,
+					expenseCount: 5,
+				},
+				{
+					tagId: 2,
+					name: "副業",
+					color: null,
+					income: 50000,
+					expense: 3000,
+					incomeCount: 2,
+					expenseCount: 1,
+				},
+			]);
+		});
+
+		it("境界値ケース: 集計対象がない場合は空配列", () => {
+			// 検証
+			expect(summarizeTagTotals([])).toEqual([]);
+		});
+	});
+});
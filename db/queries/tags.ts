@@ -0,0 +1,449 @@
+import { and, asc, desc, eq, gte, inArray, lte, or, sql } from "drizzle-orm";
+import type { Database } from "../connection";
+import {
+	type InsertTag,
+	type SelectTag,
+	categorizationRules,
+	tags,
+	transactionTags,
+	transactions,
+} from "../schema";
+
+/**
+ * タグ関連のデータベースクエリ関数
+ *
+ * 設計方針:
+ * - 取引ごとのタグの並び順はtransactions.tags（JSON配列）を正とし、
+ *   transaction_tagsはタグ別の件数・集計・絞り込みのための正規化した対応表として同期する
+ * - 取引のタグを書き換える処理は必ずsyncTransactionTagsを呼び、対応表とタグマスタを追従させる
+ * - タグ名の変更・統合・削除は該当する取引と自動分類ルールのタグを書き換える
+ *   （書き換え後の配列は純粋関数applyTagMappingで計算する）
+ * - どの取引にも付いていないタグもマスタに残し、色の設定を失わないようにする
+ */
+
+// 一括作成時の1クエリあたりの行数（D1のバインドパラメータ上限100を考慮）
+const TAG_BATCH_INSERT_SIZE = 18; // 全5カラム × 18行 = 90
+const TRANSACTION_TAG_BATCH_INSERT_SIZE = 30; // 全3カラム × 30行 = 90
+
+// 取得・削除時の1クエリあたりのID・名前の数
+const TAG_QUERY_CHUNK_SIZE = 90;
+
+export interface TagWithUsage extends SelectTag {
+	transactionCount: number;
+	lastUsedDate: string | null; // 最後に付けた取引の取引日（YYYY-MM-DD）
+}
+
+export interface TagTypeTotal {
+	tagId: number;
+	name: string;
+	color: string | null;
+	type: string; // 'income' | 'expense'
+	total: number;
+	count: number;
+}
+
+export interface TagStats {
+	tagId: number;
+	name: string;
+	color: string | null;
+	income: number;
+	expense: number;
+	incomeCount: number;
+	expenseCount: number;
+}
+
+const chunk = <T>(items: T[], size: number) =>
+	Array.from({ length: Math.ceil(items.length / size) }, (_, i) =>
+		items.slice(i * size, (i + 1) * size),
+	);
+
+// ========================================
+// 純粋関数
+// ========================================
+
+/**
+ * JSON文字列として保存されたタグを配列として解析（不正な値・空文字は除外）
+ */
+export function parseTagNames(tagsJson: string | null | undefined): string[] {
+	if (!tagsJson) return [];
+	try {
+		const parsed = JSON.parse(tagsJson);
+		return Array.isArray(parsed)
+			? parsed.filter(
+					(tag): tag is string =>
+						typeof tag === "string" && tag.trim().length > 0,
+				)
+			: [];
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * タグ名の対応表に従ってタグの配列を書き換える
+ * 変更先がnullのタグは取り除き、書き換えで重複したタグは最初の位置に残す
+ *
+ * @returns 書き換え後のJSON文字列（タグがなくなった場合はnull）、変更がない場合はundefined
+ */
+export function applyTagMapping(
+	tagsJson: string | null,
+	mapping: Map<string, string | null>,
+): string | null | undefined {
+	const current = parseTagNames(tagsJson);
+	const next = Array.from(
+		new Set(
+			current
+				.map((tag) => (mapping.has(tag) ? mapping.get(tag) : tag))
+				.filter((tag): tag is string => !!tag),
+		),
+	);
+
+	if (
+		next.length === current.length &&
+		next.every((tag, i) => tag === current[i])
+	) {
+		return undefined;
+	}
+	return next.length > 0 ? JSON.stringify(next) : null;
+}
+
+/**
+ * タグ別・種別の合計をタグごとの収入・支出にまとめる（支出の多い順）
+ */
+export function summarizeTagTotals(rows: TagTypeTotal[]): TagStats[] {
+	const byTag = new Map<number, TagStats>();
+	for (const row of rows) {
+		const stats = byTag.get(row.tagId) ?? {
+			tagId: row.tagId,
+			name: row.name,
+			color: row.color,
+			income: 0,
+			expense: 0,
+			incomeCount: 0,
+			expenseCount: 0,
+		};
+		if (row.type === "income") {
+			stats.income += row.total;
+			stats.incomeCount += row.count;
+		} else if (row.type === "expense") {
+			stats.expense += row.total;
+			stats.expenseCount += row.count;
+		}
+		byTag.set(row.tagId, stats);
+	}
+
+	return Array.from(byTag.values()).sort(
+		(a, b) =>
+			b.expense - a.expense ||
+			b.income - a.income ||
+			a.name.localeCompare(b.name, "ja"),
+	);
+}
+
+// ========================================
+// 取引とタグの同期
+// ========================================
+
+/**
+ * 取引のタグ（JSON配列）に合わせてタグマスタと対応表を更新する
+ * 取引を作成・更新してtagsを書き換えた後に呼び出す
+ */
+export async function syncTransactionTags(
+	db: Database,
+	rows: { id: number; tags: string | null }[],
+) {
+	if (rows.length === 0) return;
+
+	const tagNamesByTransaction = rows.map((row) => ({
+		transactionId: row.id,
+		names: Array.from(new Set(parseTagNames(row.tags))),
+	}));
+	const names = Array.from(
+		new Set(tagNamesByTransaction.flatMap((row) => row.names)),
+	);
+
+	// 未登録のタグをマスタに追加し、名前からIDを引けるようにする
+	const tagIds = new Map<string, number>();
+	for (const namesChunk of chunk(names, TAG_BATCH_INSERT_SIZE)) {
+		await db
+			.insert(tags)
+			.values(namesChunk.map((name) => ({ name })))
+			.onConflictDoNothing();
+	}
+	for (const namesChunk of chunk(names, TAG_QUERY_CHUNK_SIZE)) {
+		const found = await (db as any)
+			.select({ id: tags.id, name: tags.name })
+			.from(tags)
+			.where(inArray(tags.name, namesChunk));
+		for (const tag of found as { id: number; name: string }[]) {
+			tagIds.set(tag.name, tag.id);
+		}
+	}
+
+	// 対応表は取引ごとに全行を置き換える
+	for (const idsChunk of chunk(
+		rows.map((row) => row.id),
+		TAG_QUERY_CHUNK_SIZE,
+	)) {
+		await db
+			.delete(transactionTags)
+			.where(inArray(transactionTags.transactionId, idsChunk));
+	}
+	const links = tagNamesByTransaction.flatMap((row) =>
+		row.names.map((name) => ({
+			transactionId: row.transactionId,
+			tagId: tagIds.get(name) as number,
+		})),
+	);
+	for (const linksChunk of chunk(links, TRANSACTION_TAG_BATCH_INSERT_SIZE)) {
+		await db.insert(transactionTags).values(linksChunk);
+	}
+}
+
+/**
+ * 取引のタグの対応表を削除する（取引の削除前に呼び出す）
+ */
+export async function deleteTransactionTags(
+	db: Database,
+	transactionId: number,
+) {
+	await db
+		.delete(transactionTags)
+		.where(eq(transactionTags.transactionId, transactionId));
+}
+
+// ========================================
+// 取得系
+// ========================================
+
+/**
+ * タグ一覧を使用件数付きで取得（件数の多い順）
+ */
+export async function getTagsWithUsage(db: Database): Promise<TagWithUsage[]> {
+	const rows = await (db as any)
+		.select({
+			id: tags.id,
+			name: tags.name,
+			color: tags.color,
+			createdAt: tags.createdAt,
+			updatedAt: tags.updatedAt,
+			transactionCount: sql<number>`COUNT(${transactions.id})`,
+			lastUsedDate: sql<string | null>`MAX(${transactions.transactionDate})`,
+		})
+		.from(tags)
+		.leftJoin(transactionTags, eq(transactionTags.tagId, tags.id))
+		.leftJoin(transactions, eq(transactionTags.transactionId, transactions.id))
+		.groupBy(tags.id)
+		.orderBy(desc(sql`COUNT(${transactions.id})`), asc(tags.name));
+
+	return rows.map((row: TagWithUsage) => ({
+		...row,
+		transactionCount: Number(row.transactionCount),
+	}));
+}
+
+/**
+ * IDでタグを取得
+ */
+export async function getTagById(
+	db: Database,
+	id: number,
+): Promise<SelectTag | undefined> {
+	const [tag] = await (db as any).select().from(tags).where(eq(tags.id, id));
+	return tag;
+}
+
+/**
+ * 複数のIDでタグを取得
+ */
+export async function getTagsByIds(
+	db: Database,
+	ids: number[],
+): Promise<SelectTag[]> {
+	if (ids.length === 0) return [];
+	return (db as any).select().from(tags).where(inArray(tags.id, ids));
+}
+
+/**
+ * 名前でタグを取得（名前の重複チェック用）
+ */
+export async function getTagByName(
+	db: Database,
+	name: string,
+): Promise<SelectTag | undefined> {
+	const [tag] = await (db as any)
+		.select()
+		.from(tags)
+		.where(eq(tags.name, name));
+	return tag;
+}
+
+/**
+ * 期間内のタグ別の収入・支出を集計する
+ * 口座間の振替は資金の移動のため集計に含めない
+ */
+export async function getTagStats(
+	db: Database,
+	startDate: string,
+	endDate: string,
+): Promise<TagStats[]> {
+	const rows = await (db as any)
+		.select({
+			tagId: tags.id,
+			name: tags.name,
+			color: tags.color,
+			type: transactions.type,
+			total: sql<number>`COALESCE(SUM(${transactions.amount}), 0)`,
+			count: sql<number>`COUNT(*)`,
+		})
+		.from(transactionTags)
+		.innerJoin(tags, eq(transactionTags.tagId, tags.id))
+		.innerJoin(transactions, eq(transactionTags.transactionId, transactions.id))
+		.where(
+			and(
+				gte(transactions.transactionDate, startDate),
+				lte(transactions.transactionDate, endDate),
+				or(eq(transactions.type, "income"), eq(transactions.type, "expense")),
+			),
+		)
+		.groupBy(tags.id, transactions.type);
+
+	return summarizeTagTotals(
+		rows.map((row: TagTypeTotal) => ({
+			...row,
+			total: Number(row.total),
+			count: Number(row.count),
+		})),
+	);
+}
+
+// ========================================
+// 更新系
+// ========================================
+
+/**
+ * タグが付いた取引と自動分類ルールのタグ名を書き換える
+ *
+ * @param tagIds 書き換え対象のタグのID（対応表から該当する取引を探す）
+ * @param mapping 変更前のタグ名から変更後のタグ名（nullの場合は取り除く）への対応表
+ * @returns タグを書き換えた取引の件数
+ */
+async function rewriteTagReferences(
+	db: Database,
+	tagIds: number[],
+	mapping: Map<string, string | null>,
+) {
+	const affected: { id: number; tags: string | null }[] = [];
+	for (const idsChunk of chunk(tagIds, TAG_QUERY_CHUNK_SIZE)) {
+		affected.push(
+			...(await (db as any)
+				.selectDistinct({ id: transactions.id, tags: transactions.tags })
+				.from(transactions)
+				.innerJoin(
+					transactionTags,
+					eq(transactionTags.transactionId, transactions.id),
+				)
+				.where(inArray(transactionTags.tagId, idsChunk))),
+		);
+	}
+
+	const updatedAt = new Date().toISOString();
+	const updated: { id: number; tags: string | null }[] = [];
+	for (const transaction of affected) {
+		const nextTags = applyTagMapping(transaction.tags, mapping);
+		if (nextTags === undefined) continue;
+		await db
+			.update(transactions)
+			.set({ tags: nextTags, updatedAt })
+			.where(eq(transactions.id, transaction.id));
+		updated.push({ id: transaction.id, tags: nextTags });
+	}
+	await syncTransactionTags(db, updated);
+
+	// ルールが追加するタグも同じ名前に揃える（ルールの件数は少ないため全件を確認する）
+	const rules = await (db as any)
+		.select({ id: categorizationRules.id, tags: categorizationRules.tags })
+		.from(categorizationRules);
+	for (const rule of rules as { id: number; tags: string | null }[]) {
+		const nextTags = applyTagMapping(rule.tags, mapping);
+		if (nextTags === undefined) continue;
+		await db
+			.update(categorizationRules)
+			.set({ tags: nextTags, updatedAt })
+			.where(eq(categorizationRules.id, rule.id));
+	}
+
+	return updated.length;
+}
+
+/**
+ * タグを更新（名前を変更した場合は取引・ルールのタグも書き換える）
+ * 変更後の名前が他のタグと重複しないことは呼び出し側で確認する
+ *
+ * @returns 更新後のタグとタグを書き換えた取引の件数
+ */
+export async function updateTag(
+	db: Database,
+	tag: SelectTag,
+	updates: Partial<Pick<InsertTag, "name" | "color">>,
+) {
+	const isRenamed = updates.name !== undefined && updates.name !== tag.name;
+
+	const [updated] = await db
+		.update(tags)
+		.set({ ...updates, updatedAt: new Date().toISOString() })
+		.where(eq(tags.id, tag.id))
+		.returning();
+
+	const updatedTransactions = isRenamed
+		? await rewriteTagReferences(
+				db,
+				[tag.id],
+				new Map([[tag.name, updates.name as string]]),
+			)
+		: 0;
+
+	return { tag: updated as SelectTag, updatedTransactions };
+}
+
+/**
+ * 複数のタグを1つのタグに統合する
+ * 統合元のタグは取引・ルールから統合先のタグに置き換え、マスタから削除する
+ *
+ * @returns タグを書き換えた取引の件数
+ */
+export async function mergeTags(
+	db: Database,
+	sourceTags: SelectTag[],
+	targetTag: SelectTag,
+) {
+	const updatedTransactions = await rewriteTagReferences(
+		db,
+		sourceTags.map((tag) => tag.id),
+		new Map(sourceTags.map((tag) => [tag.name, targetTag.name])),
+	);
+	const sourceTagIds = sourceTags.map((tag) => tag.id);
+	await db
+		.delete(transactionTags)
+		.where(inArray(transactionTags.tagId, sourceTagIds));
+	await db.delete(tags).where(inArray(tags.id, sourceTagIds));
+
+	return updatedTransactions;
+}
+
+/**
+ * タグを削除する（取引・ルールからも取り除く）
+ *
+ * @returns タグを取り除いた取引の件数
+ */
+export async function deleteTag(db: Database, tag: SelectTag) {
+	const updatedTransactions = await rewriteTagReferences(
+		db,
+		[tag.id],
+		new Map([[tag.name, null]]),
+	);
+	await db.delete(transactionTags).where(eq(transactionTags.tagId, tag.id));
+	await db.delete(tags).where(eq(tags.id, tag.id));
+
+	return updatedTransactions;
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { MAX_SPLIT_LINES } from "../schema";
+import { getSplitValidationError } from "./transaction-splits";
+
+/**
+ * 取引の内訳関連関数のユニットテスト
+ *
+ * データベースに依存しない内訳行の整合性検証のテスト
+ */
+
+describe("transaction splits utils", () => {
+	describe("getSplitValidationError", () => {
+		it("正常ケース: 内訳の合計が取引の金額と一致する場合はnull", () => {
+			// 実行
+			const error = getSplitValidationError({
+				type: "expense",
+				amount: 3000,
+				splits: [
+					{ categoryId: 1, amount: 2200 },
+					{ categoryId: 2, amount: 800 },
+				],
+			});
+
+			// 検証
+			expect(error).toBeNull();
+		});
+
+		it("正常ケース: 内訳を指定しない・空の場合は分割しない取引として扱う", () => {
+			// 検証
+			expect(getSplitValidationError({ type: "expense", amount: 1000 })).toBe(
+				null,
+			);
+			expect(
+				getSplitValidationError({ type: "transfer", amount: 1000, splits: [] }),
+			).toBeNull();
+		});
+
+		it("異常ケース: 内訳の合計が取引の金額と一致しない", () => {
+			// 実行
+			const error = getSplitValidationError({
+				type: "expense",
+				amount: 3000,
+				splits: [
+					{ categoryId: 1, amount: 2000 },
+					{ categoryId: 2, amount: 800 },
+				],
+			});
+
+			// 検証
+			expect(error).toBe(
+				"内訳の合計（2,800円）が取引の金額（3,000円）と一致しません",
+			);
+		});
+
+		it("異常ケース: 振替は分割できない", () => {
+			// 実行
+			const error = getSplitValidationError({
+				type: "transfer",
+				amount: 1000,
+				splits: [
+					{ categoryId: 1, amount: 500 },
+					{ categoryId: 2, amount: 500 },
+				],
+			});
+
+			// 検証
+			expect(error).toBe("振替は分割できません");
+		});
+
+		it("境界値ケース: 内訳が1行のみ・上限を超える場合はエラー", () => {
+			// 検証
+			expect(
+				getSplitValidationError({
+					type: "expense",
+					amount: 1000,
+					splits: [{ categoryId: 1, amount: 1000 }],
+				}),
+			).toBe("分割には2行以上の内訳が必要です");
+			expect(
+				getSplitValidationError({
+					type: "expense",
+					amount: MAX_SPLIT_LINES + 1,
+					splits: Array.from({ length: MAX_SPLIT_LINES + 1 }, () => ({
+						categoryId: 1,
+						amount: 1,
+					})),
+				}),
+			).toBe(`内訳は${MAX_SPLIT_LINES}行までです`);
+		});
+	});
+});
@@ -0,0 +1,201 @@
+import { asc, eq, inArray, sql } from "drizzle-orm";
+import type { Database } from "../connection";
+import {
+	type InsertTransactionSplit,
+	MAX_SPLIT_LINES,
+	type TransactionSplitLine,
+	categories,
+	transactionSplits,
+	transactions,
+} from "../schema";
+import { getCategoryById } from "./categories";
+
+/**
+ * 取引の内訳（複数カテゴリへの分割）関連のデータベースクエリ関数
+ *
+ * 設計方針:
+ * - 分割した取引は親のcategoryIdをnullとし、カテゴリは内訳行のみが持つ
+ * - 内訳行の合計は常に親の金額と一致させる（検証は純粋関数で行う）
+ * - 内訳の更新は部分更新ではなく全行の置き換えとする
+ * - カテゴリ別の集計（予算・レポート）は、分割していない取引は親のカテゴリ、
+ *   分割した取引は内訳行のカテゴリで数える（isSplitTransactionで両者を区別する）
+ */
+
+// 一括作成時の1クエリあたりの行数（全6カラム × 16行 = 96 < 100）
+const SPLIT_BATCH_INSERT_SIZE = 16;
+
+// 取得時の1クエリあたりの取引ID数（D1のバインドパラメータ上限100を考慮）
+const SPLIT_FETCH_CHUNK_SIZE = 90;
+
+/**
+ * 取引が内訳行を持つかどうか（分割した取引かどうか）のSQL条件
+ */
+export const isSplitTransaction = sql`EXISTS (SELECT 1 FROM ${transactionSplits} WHERE ${transactionSplits.transactionId} = ${transactions.id})`;
+
+/**
+ * 内訳行のカテゴリ情報を含む取得時の選択フィールド
+ */
+const splitWithCategoryFields = {
+	id: transactionSplits.id,
+	transactionId: transactionSplits.transactionId,
+	categoryId: transactionSplits.categoryId,
+	amount: transactionSplits.amount,
+	memo: transactionSplits.memo,
+	category: {
+		id: categories.id,
+		name: categories.name,
+		type: categories.type,
+		color: categories.color,
+		icon: categories.icon,
+	},
+};
+
+export interface TransactionSplitWithCategory {
+	id: number;
+	transactionId: number;
+	categoryId: number | null;
+	amount: number;
+	memo: string | null;
+	category: {
+		id: number;
+		name: string;
+		type: string;
+		color: string | null;
+		icon: string | null;
+	} | null;
+}
+
+/**
+ * 内訳行の整合性を検証し、不正な場合はエラーメッセージを返す
+ * 内訳を指定しない（または空の）場合は分割しない取引として扱う
+ * 作成時は入力値、更新時は既存の値（内訳を含む）に更新内容を重ねた値を渡す
+ */
+export function getSplitValidationError(transaction: {
+	type: string;
+	amount: number;
+	splits?: Pick<TransactionSplitLine, "amount" | "categoryId">[] | null;
+}): string | null {
+	const splits = transaction.splits ?? [];
+	if (splits.length === 0) return null;
+
+	if (transaction.type === "transfer") {
+		return "振替は分割できません";
+	}
+	if (splits.length < 2) {
+		return "分割には2行以上の内訳が必要です";
+	}
+	if (splits.length > MAX_SPLIT_LINES) {
+		return `内訳は${MAX_SPLIT_LINES}行までです`;
+	}
+
+	const total = splits.reduce((sum, split) => sum + split.amount, 0);
+	if (total !== transaction.amount) {
+		return `内訳の合計（${total.toLocaleString()}円）が取引の金額（${transaction.amount.toLocaleString()}円）と一致しません`;
+	}
+	return null;
+}
+
+/**
+ * 内訳行のカテゴリの存在と取引タイプとの整合性を検証し、不正な場合はエラーメッセージを返す
+ */
+export async function getSplitCategoriesValidationError(
+	db: Database,
+	type: string,
+	splits: Pick<TransactionSplitLine, "categoryId">[],
+): Promise<string | null> {
+	const categoryIds = [...new Set(splits.map((split) => split.categoryId))];
+	for (const categoryId of categoryIds) {
+		const category = await getCategoryById(db, categoryId);
+		if (!category) {
+			return `カテゴリID ${categoryId} は存在しないか、無効です`;
+		}
+		// 収入取引に支出カテゴリ（またはその逆）の内訳は許可しない
+		if (category.type !== type) {
+			return `カテゴリ「${category.name}」は${category.type === "income" ? "収入" : "支出"}カテゴリです`;
+		}
+	}
+	return null;
+}
+
+/**
+ * 取引IDごとの内訳行をカテゴリ情報付きで取得
+ *
+ * @returns 取引IDをキーとした内訳行の配列（内訳のない取引は含まない）
+ */
+export async function getSplitsByTransactionIds(
+	db: Database,
+	transactionIds: number[],
+): Promise<Map<number, TransactionSplitWithCategory[]>> {
+	const splitsByTransaction = new Map<number, TransactionSplitWithCategory[]>();
+
+	for (let i = 0; i < transactionIds.length; i += SPLIT_FETCH_CHUNK_SIZE) {
+		const rows: TransactionSplitWithCategory[] = await (db as any)
+			.select(splitWithCategoryFields)
+			.from(transactionSplits)
+			.leftJoin(categories, eq(transactionSplits.categoryId, categories.id))
+			.where(
+				inArray(
+					transactionSplits.transactionId,
+					transactionIds.slice(i, i + SPLIT_FETCH_CHUNK_SIZE),
+				),
+			)
+			.orderBy(asc(transactionSplits.id));
+
+		for (const row of rows) {
+			const splits = splitsByTransaction.get(row.transactionId) ?? [];
+			splits.push(row);
+			splitsByTransaction.set(row.transactionId, splits);
+		}
+	}
+
+	return splitsByTransaction;
+}
+
+/**
+ * 取引の内訳行を置き換える（空の配列で分割を解除）
+ * 呼び出し前に getSplitValidationError で検証しておくこと
+ */
+export async function replaceTransactionSplits(
+	db: Database,
+	transactionId: number,
+	splits: TransactionSplitLine[],
+) {
+	await deleteTransactionSplits(db, transactionId);
+
+	await createTransactionSplitsBatch(
+		db,
+		splits.map((split) => ({
+			transactionId,
+			categoryId: split.categoryId,
+			amount: split.amount,
+			memo: split.memo ?? null,
+		})),
+	);
+}
+
+/**
+ * 内訳行を一括作成
+ * D1のバインド変数上限（1クエリ100個）を超えないよう分割して挿入する
+ */
+export async function createTransactionSplitsBatch(
+	db: Database,
+	rows: InsertTransactionSplit[],
+) {
+	for (let i = 0; i < rows.length; i += SPLIT_BATCH_INSERT_SIZE) {
+		await db
+			.insert(transactionSplits)
+			.values(rows.slice(i, i + SPLIT_BATCH_INSERT_SIZE));
+	}
+}
+
+/**
+ * 取引の内訳行をすべて削除
+ */
+export async function deleteTransactionSplits(
+	db: Database,
+	transactionId: number,
+) {
+	await db
+		.delete(transactionSplits)
+		.where(eq(transactionSplits.transactionId, transactionId));
+}
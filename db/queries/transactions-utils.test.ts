@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { getTransferValidationError } from "./transactions";
+
+/**
+ * 取引関連関数のユニットテスト
+ *
+ * データベースに依存しない振替の整合性チェックのテスト
+ */
+
+describe("transactions utils", () => {
+	describe("getTransferValidationError", () => {
+		it("正常ケース: 振替元・振替先が異なる振替は有効", () => {
+			// 検証
+			expect(
+				getTransferValidationError({
+					type: "transfer",
+					accountId: 1,
+					transferAccountId: 2,
+					categoryId: null,
+					fee: 110,
+				}),
+			).toBeNull();
+		});
+
+		it("正常ケース: 振替先を持たない収入・支出は有効", () => {
+			// 検証
+			expect(
+				getTransferValidationError({
+					type: "expense",
+					accountId: 1,
+					transferAccountId: null,
+					categoryId: 3,
+					fee: 0,
+				}),
+			).toBeNull();
+		});
+
+		it("異常ケース: 振替先の口座がない振替はエラー", () => {
+			// 検証
+			expect(
+				getTransferValidationError({ type: "transfer", accountId: 1 }),
+			).toBe("振替には振替元と振替先の口座が必要です");
+		});
+
+		it("異常ケース: 振替元と振替先が同じ口座の場合はエラー", () => {
+			// 検証
+			expect(
+				getTransferValidationError({
+					type: "transfer",
+					accountId: 1,
+					transferAccountId: 1,
+				}),
+			).toBe("振替元と振替先に同じ口座は指定できません");
+		});
+
+		it("異常ケース: 振替にカテゴリを指定した場合はエラー", () => {
+			// 検証
+			expect(
+				getTransferValidationError({
+					type: "transfer",
+					accountId: 1,
+					transferAccountId: 2,
+					categoryId: 1,
+				}),
+			).toBe("振替にはカテゴリを指定できません");
+		});
+
+		it("異常ケース: 収入・支出に振替先や手数料を指定した場合はエラー", () => {
+			// 検証
+			expect(
+				getTransferValidationError({
+					type: "income",
+					accountId: 1,
+					transferAccountId: 2,
+				}),
+			).toBe("振替先の口座は振替の場合のみ指定できます");
+			expect(getTransferValidationError({ type: "expense", fee: 100 })).toBe(
+				"手数料は振替の場合のみ指定できます",
+			);
+		});
+	});
+});
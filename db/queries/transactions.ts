@@ -0,0 +1,407 @@
+import { type SQL, and, asc, desc, eq, gte, lte, or, sql } from "drizzle-orm";
+import { alias } from "drizzle-orm/sqlite-core";
+import type { Database } from "../connection";
+import {
+	type InsertTransaction,
+	accounts,
+	cardStatements,
+	categories,
+	tags,
+	transactionSplits,
+	transactionTags,
+	transactions,
+} from "../schema";
+import { deleteTransactionTags, syncTransactionTags } from "./tags";
+import {
+	deleteTransactionSplits,
+	getSplitsByTransactionIds,
+} from "./transaction-splits";
+
+/**
+ * 取引（収入・支出・振替）関連のデータベースクエリ関数
+ *
+ * 設計方針:
+ * - 収入・支出・口座間の振替を単一のtransactionsテーブルで統一的に扱う
+ * - 振替は振替元（accountId）と振替先（transferAccountId）の1行で表し、
+ *   口座の絞り込みではどちら側の口座でも一致するものとする
+ * - タグはJSON文字列のまま扱い、配列への変換はAPI層（app/utils/tags）で行う
+ * - 取引の作成・更新・削除時はタグの対応表（transaction_tags）も同期し、タグでの絞り込みは対応表で行う
+ * - 取得系はカテゴリ・口座の情報をJOINした形で返し、分割した取引は内訳行（splits）を付与する
+ * - 取引は論理削除フラグを持たないため削除は物理削除とする
+ * - 一覧取得はフィルタ・ソート・ページネーションをSQL側で処理する
+ */
+
+/**
+ * 取引一覧のフィルタ条件
+ */
+export interface TransactionListFilters {
+	startDate?: string; // 取引日の下限（YYYY-MM-DD、含む）
+	endDate?: string; // 取引日の上限（YYYY-MM-DD、含む）
+	categoryId?: number;
+	accountId?: number;
+	type?: "income" | "expense" | "transfer";
+	search?: string; // 説明文の部分一致検索
+	tags?: string[]; // 指定した全てのタグを持つ取引に絞り込む
+	minAmount?: number;
+	maxAmount?: number;
+}
+
+/**
+ * 取引一覧のソート条件
+ */
+export interface TransactionListSort {
+	sortBy: "transactionDate" | "amount" | "createdAt";
+	sortOrder: "asc" | "desc";
+}
+
+// 一括作成時の1クエリあたりの行数（全17カラム × 5行 = 85 < 100）
+const BATCH_INSERT_SIZE = 5;
+
+// 振替先の口座（accountsを2回JOINするための別名）
+const transferAccounts = alias(accounts, "transfer_accounts");
+
+const sortColumns = {
+	transactionDate: transactions.transactionDate,
+	amount: transactions.amount,
+	createdAt: transactions.createdAt,
+} as const;
+
+/**
+ * カテゴリ・口座の情報を含む取引取得時の選択フィールド
+ * 一覧・詳細で同一のレスポンス形状を保つために共通化
+ */
+const transactionWithCategoryFields = {
+	id: transactions.id,
+	amount: transactions.amount,
+	type: transactions.type,
+	categoryId: transactions.categoryId,
+	description: transactions.description,
+	transactionDate: transactions.transactionDate,
+	paymentMethod: transactions.paymentMethod,
+	accountId: transactions.accountId,
+	transferAccountId: transactions.transferAccountId,
+	fee: transactions.fee,
+	tags: transactions.tags,
+	receiptUrl: transactions.receiptUrl,
+	isRecurring: transactions.isRecurring,
+	recurringId: transactions.recurringId,
+	createdAt: transactions.createdAt,
+	updatedAt: transactions.updatedAt,
+	category: {
+		id: categories.id,
+		name: categories.name,
+		type: categories.type,
+		color: categories.color,
+		icon: categories.icon,
+	},
+	account: {
+		id: accounts.id,
+		name: accounts.name,
+		type: accounts.type,
+	},
+	transferAccount: {
+		id: transferAccounts.id,
+		name: transferAccounts.name,
+		type: transferAccounts.type,
+	},
+};
+
+/**
+ * 振替に関する項目の整合性を検証し、不正な場合はエラーメッセージを返す
+ * 作成時は入力値、更新時は既存の値に更新内容を重ねた値を渡す
+ */
+export function getTransferValidationError(transaction: {
+	type: string;
+	accountId?: number | null;
+	transferAccountId?: number | null;
+	categoryId?: number | null;
+	fee?: number | null;
+}): string | null {
+	if (transaction.type !== "transfer") {
+		if (transaction.transferAccountId) {
+			return "振替先の口座は振替の場合のみ指定できます";
+		}
+		if (transaction.fee) {
+			return "手数料は振替の場合のみ指定できます";
+		}
+		return null;
+	}
+
+	if (!transaction.accountId || !transaction.transferAccountId) {
+		return "振替には振替元と振替先の口座が必要です";
+	}
+	if (transaction.accountId === transaction.transferAccountId) {
+		return "振替元と振替先に同じ口座は指定できません";
+	}
+	if (transaction.categoryId) {
+		return "振替にはカテゴリを指定できません";
+	}
+	return null;
+}
+
+/**
+ * 新しい取引を作成
+ */
+export async function createTransaction(
+	db: Database,
+	transaction: InsertTransaction,
+) {
+	// createdAt/updatedAtはデータベースのCURRENT_TIMESTAMPデフォルト値を使用
+	const [created] = await db
+		.insert(transactions)
+		.values(transaction)
+		.returning();
+	if (created.tags) {
+		await syncTransactionTags(db, [created]);
+	}
+
+	return created;
+}
+
+/**
+ * 複数の取引を一括作成
+ * D1のバインド変数上限（1クエリ100個）を超えないよう分割して挿入する
+ */
+export async function createTransactionsBatch(
+	db: Database,
+	rows: InsertTransaction[],
+) {
+	const created = [];
+	for (let i = 0; i < rows.length; i += BATCH_INSERT_SIZE) {
+		const chunk = rows.slice(i, i + BATCH_INSERT_SIZE);
+		created.push(...(await db.insert(transactions).values(chunk).returning()));
+	}
+	await syncTransactionTags(
+		db,
+		created.filter((transaction) => transaction.tags),
+	);
+
+	return created;
+}
+
+/**
+ * 期間内の取引を重複判定に必要な項目のみ取得（CSVインポート用）
+ */
+export async function getTransactionsForDuplicateCheck(
+	db: Database,
+	startDate: string,
+	endDate: string,
+) {
+	return (await (db as any)
+		.select({
+			transactionDate: transactions.transactionDate,
+			amount: transactions.amount,
+			type: transactions.type,
+			description: transactions.description,
+		})
+		.from(transactions)
+		.where(
+			and(
+				gte(transactions.transactionDate, startDate),
+				lte(transactions.transactionDate, endDate),
+			),
+		)) as {
+		transactionDate: string;
+		amount: number;
+		type: string;
+		description: string | null;
+	}[];
+}
+
+/**
+ * 取得した取引に内訳行を付与（分割していない取引は空の配列）
+ */
+async function attachTransactionSplits<T extends { id: number }>(
+	db: Database,
+	rows: T[],
+) {
+	const splitsByTransaction = await getSplitsByTransactionIds(
+		db,
+		rows.map((row) => row.id),
+	);
+	return rows.map((row) => ({
+		...row,
+		splits: splitsByTransaction.get(row.id) ?? [],
+	}));
+}
+
+/**
+ * IDで取引を取得（カテゴリ情報・内訳行含む）
+ */
+export async function getTransactionById(db: Database, id: number) {
+	const [transaction] = (await (db as any)
+		.select(transactionWithCategoryFields)
+		.from(transactions)
+		.leftJoin(categories, eq(transactions.categoryId, categories.id))
+		.leftJoin(accounts, eq(transactions.accountId, accounts.id))
+		.leftJoin(
+			transferAccounts,
+			eq(transactions.transferAccountId, transferAccounts.id),
+		)
+		.where(eq(transactions.id, id))
+		.limit(1)) as any;
+	if (!transaction) return transaction;
+
+	const [withSplits] = await attachTransactionSplits(db, [transaction]);
+	return withSplits;
+}
+
+/**
+ * フィルタ条件からWHERE句の条件を組み立てる
+ * 一覧取得・件数取得・エクスポートなどで同じ条件を共有するために公開する
+ */
+export function buildTransactionFilterConditions(
+	filters: TransactionListFilters = {},
+): SQL | undefined {
+	const conditions: SQL[] = [];
+
+	if (filters.startDate) {
+		conditions.push(gte(transactions.transactionDate, filters.startDate));
+	}
+	if (filters.endDate) {
+		conditions.push(lte(transactions.transactionDate, filters.endDate));
+	}
+	if (filters.categoryId !== undefined) {
+		// 分割した取引は内訳行のカテゴリでも一致させる
+		const categoryCondition = or(
+			eq(transactions.categoryId, filters.categoryId),
+			sql`EXISTS (SELECT 1 FROM ${transactionSplits} WHERE ${transactionSplits.transactionId} = ${transactions.id} AND ${transactionSplits.categoryId} = ${filters.categoryId})`,
+		);
+		if (categoryCondition) conditions.push(categoryCondition);
+	}
+	if (filters.accountId !== undefined) {
+		// 振替は振替元・振替先のどちらの口座でも一致させる
+		const accountCondition = or(
+			eq(transactions.accountId, filters.accountId),
+			eq(transactions.transferAccountId, filters.accountId),
+		);
+		if (accountCondition) conditions.push(accountCondition);
+	}
+	if (filters.type) {
+		conditions.push(eq(transactions.type, filters.type));
+	}
+	if (filters.minAmount !== undefined) {
+		conditions.push(gte(transactions.amount, filters.minAmount));
+	}
+	if (filters.maxAmount !== undefined) {
+		conditions.push(lte(transactions.amount, filters.maxAmount));
+	}
+	if (filters.search) {
+		// LIKEのワイルドカード文字をエスケープして部分一致検索
+		const escaped = filters.search.replace(/[\\%_]/g, (char) => `\\${char}`);
+		conditions.push(
+			sql`${transactions.description} LIKE ${`%${escaped}%`} ESCAPE '\\'`,
+		);
+	}
+	// 指定したタグがすべて付いている取引に絞り込む（タグの対応表で検索）
+	for (const tag of filters.tags ?? []) {
+		conditions.push(
+			sql`EXISTS (SELECT 1 FROM ${transactionTags} INNER JOIN ${tags} ON ${tags.id} = ${transactionTags.tagId} WHERE ${transactionTags.transactionId} = ${transactions.id} AND ${tags.name} = ${tag})`,
+		);
+	}
+
+	return conditions.length > 0 ? and(...conditions) : undefined;
+}
+
+/**
+ * 取引一覧を取得（フィルタ・ソート・ページネーション対応、カテゴリ情報・内訳行含む）
+ * デフォルトは取引日の降順
+ */
+export async function getTransactionsList(
+	db: Database,
+	options: {
+		filters?: TransactionListFilters;
+		sort?: TransactionListSort;
+		limit?: number;
+		offset?: number;
+	} = {},
+) {
+	const {
+		filters,
+		sort = { sortBy: "transactionDate", sortOrder: "desc" },
+		limit,
+		offset,
+	} = options;
+
+	const sortColumn = sortColumns[sort.sortBy];
+	const query = (db as any)
+		.select(transactionWithCategoryFields)
+		.from(transactions)
+		.leftJoin(categories, eq(transactions.categoryId, categories.id))
+		.leftJoin(accounts, eq(transactions.accountId, accounts.id))
+		.leftJoin(
+			transferAccounts,
+			eq(transactions.transferAccountId, transferAccounts.id),
+		)
+		.where(buildTransactionFilterConditions(filters))
+		.orderBy(
+			sort.sortOrder === "asc" ? asc(sortColumn) : desc(sortColumn),
+			// 同値の場合も順序を安定させるためIDで並べる
+			sort.sortOrder === "asc" ? asc(transactions.id) : desc(transactions.id),
+		);
+
+	if (limit !== undefined) {
+		query.limit(limit).offset(offset ?? 0);
+	}
+
+	return (await attachTransactionSplits(db, await query)) as any;
+}
+
+/**
+ * フィルタ条件に一致する取引件数を取得（ページネーション用）
+ */
+export async function countTransactions(
+	db: Database,
+	filters: TransactionListFilters = {},
+): Promise<number> {
+	const [result] = (await (db as any)
+		.select({ count: sql<number>`COUNT(*)` })
+		.from(transactions)
+		.where(buildTransactionFilterConditions(filters))) as any;
+
+	return Number(result?.count ?? 0);
+}
+
+/**
+ * 取引を更新
+ */
+export async function updateTransaction(
+	db: Database,
+	id: number,
+	updates: Partial<InsertTransaction>,
+) {
+	const [updated] = await db
+		.update(transactions)
+		.set({
+			...updates,
+			updatedAt: new Date().toISOString(),
+		})
+		.where(eq(transactions.id, id))
+		.returning();
+	if (updated && updates.tags !== undefined) {
+		await syncTransactionTags(db, [updated]);
+	}
+
+	return updated;
+}
+
+/**
+ * 取引を削除（物理削除）
+ * カードの引き落としとして作成された振替の場合は、請求側の参照を外してから削除する
+ * 分割した取引の場合は内訳行も削除する
+ */
+export async function deleteTransaction(db: Database, id: number) {
+	await deleteTransactionSplits(db, id);
+	await deleteTransactionTags(db, id);
+	await db
+		.update(cardStatements)
+		.set({ settlementTransactionId: null })
+		.where(eq(cardStatements.settlementTransactionId, id));
+
+	const [deleted] = await db
+		.delete(transactions)
+		.where(eq(transactions.id, id))
+		.returning();
+
+	return deleted;
+}
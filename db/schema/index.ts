@@ -1,4 +1,10 @@
-import { integer, real, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import {
+	type AnySQLiteColumn,
+	integer,
+	real,
+	sqliteTable,
+	text,
+} from "drizzle-orm/sqlite-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -8,7 +14,20 @@ import { z } from "zod";
  * 設計方針:
  * - 支出・収入を統一的に管理するためtransactionsテーブルを使用
  * - カテゴリは柔軟に追加できるよう独立したテーブルとして設計
+ *   （parentIdで親子の階層を持ち、レポート・予算では子カテゴリを親カテゴリに含めて集計する）
  * - サブスクリプションは定期的な支出として別テーブルで管理
+ *   （金額の変更はsubscription_pricesに適用日付きで記録し、適用日以降の支払いからその金額で生成する）
+ *   支払いの記録は定期取引（transactions.recurringId）とし、請求がなかった期間はsubscription_skipped_periodsに記録する
+ *   支払日・トライアル終了日・解約期限の事前通知はsubscription_remindersに設定し、定期実行で通知（notifications）を作成する
+ * - 口座（銀行・現金・カードなど）は独立したテーブルとし、残高は取引から都度計算する
+ * - 口座間の資金移動（振替）はtransactionsのtype='transfer'とし、収入・支出の集計から除外する
+ * - クレジットカードの締め日・支払日は口座に持ち、請求ごとの照合状態はcard_statementsで管理する
+ * - 複数カテゴリにまたがる取引はtransaction_splitsに内訳行を持ち、カテゴリ別の集計は内訳行ごとに行う
+ * - 分割払い・リボ払いはinstallment_plansに支払い条件を持ち、毎月の支出はサブスクリプションと同じ定期取引（recurringId）として生成する
+ *   （リボ払いは毎月の支払額と実質年率から支払予定を計算し、支払回数・利息の合計を作成時に確定する）
+ * - 取引の自動分類ルールはcategorization_rulesに優先順位付きで持ち、条件に一致した最初のルールのカテゴリ・タグ・メモを適用する
+ * - タグは取引ごとの並び順をtransactions.tags（JSON配列）に持ち、タグの色はtagsマスタ、
+ *   タグ別の件数・集計・絞り込みは正規化したtransaction_tagsで行う（取引のタグを書き換えるたびに同期する）
  * - 通貨は円（JPY）を前提とし、小数点以下は管理しない（整数で円単位）
  */
 
@@ -21,23 +40,56 @@ export const categories = sqliteTable("categories", {
 	type: text("type").notNull(), // 'income' | 'expense'
 	color: text("color"), // UI表示用の色コード（例: #FF6B6B）
 	icon: text("icon"), // アイコン名（例: food, transport, salary）
+	parentId: integer("parent_id").references(
+		(): AnySQLiteColumn => categories.id,
+	), // 親カテゴリ（最上位のカテゴリはnull、親と同じtypeのみ）
+	displayOrder: integer("display_order").notNull().default(0), // 表示順序（同じ親カテゴリ内での並び順）
+	isActive: integer("is_active", { mode: "boolean" }).notNull().default(true), // 論理削除フラグ
+	createdAt: text("created_at").notNull().default("CURRENT_TIMESTAMP"),
+	updatedAt: text("updated_at").notNull().default("CURRENT_TIMESTAMP"),
+});
+
+// ========================================
+// 口座マスタテーブル（銀行口座・現金・クレジットカード・電子マネー・証券口座）
+// ========================================
+export const accounts = sqliteTable("accounts", {
+	id: integer("id").primaryKey({ autoIncrement: true }),
+	name: text("name").notNull(), // 口座名（例: 三菱UFJ銀行、財布、楽天カード）
+	type: text("type").notNull(), // 'bank' | 'cash' | 'credit_card' | 'e_money' | 'securities'
+	openingBalance: integer("opening_balance").notNull().default(0), // 開始残高（円単位の整数、カードは負の値で未払い額）
+	color: text("color"), // UI表示用の色コード（例: #4ECDC4）
 	displayOrder: integer("display_order").notNull().default(0), // 表示順序
+	// クレジットカードの請求設定（type='credit_card'の場合のみ使用）
+	closingDay: integer("closing_day"), // 締め日（1〜31、31は月末締め）
+	paymentDay: integer("payment_day"), // 支払日（1〜31、月の日数を超える場合は月末）
+	paymentMonthOffset: integer("payment_month_offset").notNull().default(1), // 締め月から支払月までの月数（1: 翌月払い、2: 翌々月払い）
+	paymentAccountId: integer("payment_account_id").references(
+		(): AnySQLiteColumn => accounts.id,
+	), // 引き落とし口座
 	isActive: integer("is_active", { mode: "boolean" }).notNull().default(true), // 論理削除フラグ
 	createdAt: text("created_at").notNull().default("CURRENT_TIMESTAMP"),
 	updatedAt: text("updated_at").notNull().default("CURRENT_TIMESTAMP"),
 });
 
 // ========================================
-// 取引テーブル（収入・支出の統合管理）
+// 取引テーブル（収入・支出・振替の統合管理）
 // ========================================
 export const transactions = sqliteTable("transactions", {
 	id: integer("id").primaryKey({ autoIncrement: true }),
 	amount: integer("amount").notNull(), // 金額（円単位の整数）
-	type: text("type").notNull(), // 'income' | 'expense'
+	type: text("type").notNull(), // 'income' | 'expense' | 'transfer'
 	categoryId: integer("category_id").references(() => categories.id),
 	description: text("description"), // 取引の説明・メモ
 	transactionDate: text("transaction_date").notNull(), // 取引日（YYYY-MM-DD形式）
 	paymentMethod: text("payment_method"), // 支払い方法（現金、クレジットカード、銀行振込など）
+	accountId: integer("account_id").references(() => accounts.id), // 入出金の対象口座（振替の場合は振替元）
+	transferAccountId: integer("transfer_account_id").references(
+		() => accounts.id,
+	), // 振替先の口座（振替の場合のみ）
+	fee: integer("fee").notNull().default(0), // 振替手数料（振替元の口座から差し引く）
+	reconciledStatementId: integer("reconciled_statement_id").references(
+		(): AnySQLiteColumn => cardStatements.id,
+	), // カード明細との照合済みの請求（照合済みの場合のみ）
 	tags: text("tags"), // タグ（JSON配列として保存、例: ["外食", "会社"]）
 	receiptUrl: text("receipt_url"), // レシート画像のURL（将来の機能拡張用）
 	isRecurring: integer("is_recurring", { mode: "boolean" })
@@ -56,8 +108,17 @@ export const subscriptions = sqliteTable("subscriptions", {
 	name: text("name").notNull(), // サービス名（例: Netflix, Spotify, 家賃）
 	amount: integer("amount").notNull(), // 金額（円単位の整数）
 	categoryId: integer("category_id").references(() => categories.id),
-	frequency: text("frequency").notNull(), // 'monthly' | 'yearly' | 'weekly' | 'daily'
+	frequency: text("frequency").notNull(), // SUBSCRIPTION_FREQUENCIES（'daily' | 'weekly' | 'monthly' | 'quarterly' | 'semiannual' | 'yearly' | 'biennial'）
+	accountId: integer("account_id").references(() => accounts.id), // 引き落とし口座
 	nextPaymentDate: text("next_payment_date").notNull(), // 次回支払日（YYYY-MM-DD形式）
+	intervalCount: integer("interval_count").notNull().default(1), // 支払い間隔（frequencyの単位の倍数、例: monthly × 3 = 3か月ごと）
+	billingDay: integer("billing_day"), // 支払日（1〜31、月の日数を超える場合は月末。月単位の周期のみ）
+	businessDayAdjustment: text("business_day_adjustment")
+		.notNull()
+		.default("none"), // 支払日が土日祝日の場合の扱い（'none' | 'previous': 前営業日 | 'next': 翌営業日）
+	endDate: text("end_date"), // 契約の終了日（YYYY-MM-DD形式、この日より後の支払いは生成しない）
+	remainingPayments: integer("remaining_payments"), // 残りの支払回数（nullは回数の制限なし）
+	trialEndDate: text("trial_end_date"), // 無料トライアルの終了日（YYYY-MM-DD形式、この日より前の支払日は取引を生成しない）
 	description: text("description"), // 説明・メモ
 	isActive: integer("is_active", { mode: "boolean" }).notNull().default(true), // アクティブフラグ
 	autoGenerate: integer("auto_generate", { mode: "boolean" })
@@ -67,6 +128,65 @@ export const subscriptions = sqliteTable("subscriptions", {
 	updatedAt: text("updated_at").notNull().default("CURRENT_TIMESTAMP"),
 });
 
+// ========================================
+// サブスクリプションの価格履歴テーブル
+// ========================================
+export const subscriptionPrices = sqliteTable("subscription_prices", {
+	id: integer("id").primaryKey({ autoIncrement: true }),
+	subscriptionId: integer("subscription_id")
+		.notNull()
+		.references(() => subscriptions.id), // 対象のサブスクリプション
+	amount: integer("amount").notNull(), // 金額（円単位の整数）
+	effectiveDate: text("effective_date").notNull(), // 適用日（YYYY-MM-DD形式、この日以降の支払いに適用、同じ日の記録は1件）
+	createdAt: text("created_at").notNull().default("CURRENT_TIMESTAMP"),
+});
+
+// ========================================
+// サブスクリプションの請求がなかった期間（スキップ）テーブル
+// ========================================
+export const subscriptionSkippedPeriods = sqliteTable(
+	"subscription_skipped_periods",
+	{
+		id: integer("id").primaryKey({ autoIncrement: true }),
+		subscriptionId: integer("subscription_id")
+			.notNull()
+			.references(() => subscriptions.id), // 対象のサブスクリプション
+		periodDate: text("period_date").notNull(), // スキップした期間の支払日（YYYY-MM-DD形式）
+		createdAt: text("created_at").notNull().default("CURRENT_TIMESTAMP"),
+	},
+);
+
+// ========================================
+// サブスクリプションのリマインダー設定テーブル
+// ========================================
+export const subscriptionReminders = sqliteTable("subscription_reminders", {
+	id: integer("id").primaryKey({ autoIncrement: true }),
+	subscriptionId: integer("subscription_id")
+		.notNull()
+		.references(() => subscriptions.id), // 対象のサブスクリプション
+	type: text("type").notNull(), // SUBSCRIPTION_REMINDER_TYPES（'payment' | 'trial_end' | 'cancellation_deadline'）、サブスクリプションごとに種類ごと1件
+	daysBefore: integer("days_before").notNull().default(3), // 対象日の何日前から通知するか（0は当日のみ）
+	noticeDays: integer("notice_days"), // 解約の申し出が必要な日数（次回支払日の何日前が解約期限か、'cancellation_deadline'のみ）
+	createdAt: text("created_at").notNull().default("CURRENT_TIMESTAMP"),
+	updatedAt: text("updated_at").notNull().default("CURRENT_TIMESTAMP"),
+});
+
+// ========================================
+// 通知テーブル（アプリ内通知）
+// ========================================
+export const notifications = sqliteTable("notifications", {
+	id: integer("id").primaryKey({ autoIncrement: true }),
+	subscriptionId: integer("subscription_id")
+		.notNull()
+		.references(() => subscriptions.id), // 通知の対象のサブスクリプション
+	type: text("type").notNull(), // SUBSCRIPTION_REMINDER_TYPES（同じサブスクリプション・種類・対象日の通知は1件）
+	title: text("title").notNull(), // 通知の見出し（例: Netflixの支払いが近づいています）
+	message: text("message").notNull(), // 通知の本文
+	targetDate: text("target_date").notNull(), // 対象日（支払日・トライアル終了日・解約期限、YYYY-MM-DD形式）
+	isRead: integer("is_read", { mode: "boolean" }).notNull().default(false), // 既読フラグ
+	createdAt: text("created_at").notNull().default("CURRENT_TIMESTAMP"),
+});
+
 // ========================================
 // 予算管理テーブル
 // ========================================
@@ -81,6 +201,107 @@ export const budgets = sqliteTable("budgets", {
 	updatedAt: text("updated_at").notNull().default("CURRENT_TIMESTAMP"),
 });
 
+// ========================================
+// クレジットカードの請求（締め日ごとの明細照合）テーブル
+// ========================================
+export const cardStatements = sqliteTable("card_statements", {
+	id: integer("id").primaryKey({ autoIncrement: true }),
+	accountId: integer("account_id")
+		.notNull()
+		.references(() => accounts.id), // クレジットカードの口座
+	closingDate: text("closing_date").notNull(), // 締め日（YYYY-MM-DD形式）
+	paymentDate: text("payment_date").notNull(), // 支払日（YYYY-MM-DD形式）
+	statementAmount: integer("statement_amount"), // カード会社の明細上の請求額（未入力の場合はnull）
+	settlementTransactionId: integer("settlement_transaction_id").references(
+		(): AnySQLiteColumn => transactions.id,
+	), // 支払日に作成した引き落としの振替
+	createdAt: text("created_at").notNull().default("CURRENT_TIMESTAMP"),
+	updatedAt: text("updated_at").notNull().default("CURRENT_TIMESTAMP"),
+});
+
+// ========================================
+// 取引の内訳（複数カテゴリへの分割）テーブル
+// ========================================
+export const transactionSplits = sqliteTable("transaction_splits", {
+	id: integer("id").primaryKey({ autoIncrement: true }),
+	transactionId: integer("transaction_id")
+		.notNull()
+		.references(() => transactions.id), // 分割元の取引
+	categoryId: integer("category_id").references(() => categories.id),
+	amount: integer("amount").notNull(), // 内訳の金額（円単位の整数、合計は取引の金額と一致する）
+	memo: text("memo"), // 内訳ごとのメモ
+	createdAt: text("created_at").notNull().default("CURRENT_TIMESTAMP"),
+});
+
+// ========================================
+// 分割払い・リボ払いの計画テーブル
+// ========================================
+export const installmentPlans = sqliteTable("installment_plans", {
+	id: integer("id").primaryKey({ autoIncrement: true }),
+	subscriptionId: integer("subscription_id")
+		.notNull()
+		.unique()
+		.references(() => subscriptions.id), // 毎月の支払いを生成する定期支払い（名前・カテゴリ・口座を持つ）
+	paymentType: text("payment_type").notNull().default("installment"), // INSTALLMENT_PAYMENT_TYPES（'installment'（分割払い） | 'revolving'（リボ払い））
+	principalAmount: integer("principal_amount").notNull(), // 購入金額（元金、円単位の整数）
+	fee: integer("fee").notNull().default(0), // 分割手数料・利息の合計（円単位の整数、リボ払いは支払予定から計算）
+	paymentCount: integer("payment_count").notNull(), // 支払回数（リボ払いは支払予定から計算）
+	monthlyPayment: integer("monthly_payment"), // リボ払いの毎月の支払額（利息を含む元利定額、分割払いはnull）
+	interestRate: real("interest_rate"), // リボ払いの実質年率（%、分割払いはnull）
+	firstPaymentDate: text("first_payment_date").notNull(), // 初回の支払日（YYYY-MM-DD形式、以降は毎月同じ日）
+	paidOffDate: text("paid_off_date"), // 繰上げ返済で完済した日（YYYY-MM-DD形式、返済していない場合はnull）
+	createdAt: text("created_at").notNull().default("CURRENT_TIMESTAMP"),
+	updatedAt: text("updated_at").notNull().default("CURRENT_TIMESTAMP"),
+});
+
+// ========================================
+// 取引の自動分類ルールテーブル
+// ========================================
+export const categorizationRules = sqliteTable("categorization_rules", {
+	id: integer("id").primaryKey({ autoIncrement: true }),
+	name: text("name").notNull(), // ルール名（例: コンビニは食費）
+	type: text("type").notNull(), // 適用対象の取引タイプ 'income' | 'expense'
+	// 条件（指定した条件をすべて満たす取引に一致、未指定の条件は判定しない）
+	descriptionPattern: text("description_pattern"), // 取引の説明に対するパターン
+	matchType: text("match_type").notNull().default("contains"), // 'contains'（部分一致） | 'regex'（正規表現）、大文字小文字は区別しない
+	minAmount: integer("min_amount"), // 金額の下限（この金額を含む）
+	maxAmount: integer("max_amount"), // 金額の上限（この金額を含む）
+	accountId: integer("account_id").references(() => accounts.id), // 口座
+	paymentMethod: text("payment_method"), // 支払い方法（完全一致）
+	// 一致した取引に設定する値
+	categoryId: integer("category_id").references(() => categories.id), // カテゴリ（未分類の取引のみに設定）
+	tags: text("tags"), // 追加するタグ（JSON配列として保存、取引の既存のタグに追加）
+	memo: text("memo"), // 取引の説明に追記するメモ
+	priority: integer("priority").notNull().default(0), // 優先順位（小さいほど先に判定）
+	isActive: integer("is_active", { mode: "boolean" }).notNull().default(true), // 有効フラグ
+	createdAt: text("created_at").notNull().default("CURRENT_TIMESTAMP"),
+	updatedAt: text("updated_at").notNull().default("CURRENT_TIMESTAMP"),
+});
+
+// ========================================
+// タグマスタテーブル
+// ========================================
+export const tags = sqliteTable("tags", {
+	id: integer("id").primaryKey({ autoIncrement: true }),
+	name: text("name").notNull().unique(), // タグ名（取引のtagsに保存される文字列と完全一致）
+	color: text("color"), // UI表示用の色コード（例: #F59E0B、未設定の場合は既定の色で表示）
+	createdAt: text("created_at").notNull().default("CURRENT_TIMESTAMP"),
+	updatedAt: text("updated_at").notNull().default("CURRENT_TIMESTAMP"),
+});
+
+// ========================================
+// 取引とタグの対応テーブル
+// ========================================
+export const transactionTags = sqliteTable("transaction_tags", {
+	id: integer("id").primaryKey({ autoIncrement: true }),
+	transactionId: integer("transaction_id")
+		.notNull()
+		.references(() => transactions.id), // タグの付いた取引
+	tagId: integer("tag_id")
+		.notNull()
+		.references(() => tags.id), // 付いているタグ
+});
+
 // ========================================
 // Zodスキーマ定義（バリデーション用）
 // ========================================
@@ -92,23 +313,80 @@ export const insertCategorySchema = createInsertSchema(categories, {
 		.string()
 		.regex(/^#[0-9A-F]{6}$/i)
 		.optional(),
+	parentId: z.number().int().positive().nullable().optional(),
 	displayOrder: z.number().int().min(0).optional(),
 });
 export const selectCategorySchema = createSelectSchema(categories);
 export type InsertCategory = z.infer<typeof insertCategorySchema>;
 export type SelectCategory = z.infer<typeof selectCategorySchema>;
 
+// 口座のスキーマ
+export const ACCOUNT_TYPES = [
+	"bank",
+	"cash",
+	"credit_card",
+	"e_money",
+	"securities",
+] as const;
+export type AccountType = (typeof ACCOUNT_TYPES)[number];
+
+export const insertAccountSchema = createInsertSchema(accounts, {
+	name: z.string().min(1).max(100),
+	type: z.enum(ACCOUNT_TYPES),
+	openingBalance: z.number().int().optional(),
+	color: z
+		.string()
+		.regex(/^#[0-9A-F]{6}$/i)
+		.optional(),
+	displayOrder: z.number().int().min(0).optional(),
+	closingDay: z.number().int().min(1).max(31).nullable().optional(),
+	paymentDay: z.number().int().min(1).max(31).nullable().optional(),
+	paymentMonthOffset: z.number().int().min(1).max(2).optional(),
+});
+export const selectAccountSchema = createSelectSchema(accounts);
+export type InsertAccount = z.infer<typeof insertAccountSchema>;
+export type SelectAccount = z.infer<typeof selectAccountSchema>;
+
 // 取引のスキーマ
+export const TRANSACTION_TYPES = ["income", "expense", "transfer"] as const;
+export type TransactionType = (typeof TRANSACTION_TYPES)[number];
+
 // データベース保存用の基本スキーマ
 export const insertTransactionSchema = createInsertSchema(transactions, {
 	amount: z.number().int().positive(), // 正の整数のみ
-	type: z.enum(["income", "expense"]),
+	type: z.enum(TRANSACTION_TYPES),
+	fee: z.number().int().min(0).optional(),
 	transactionDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/), // YYYY-MM-DD形式
 });
 
-// アプリケーション入力用のスキーマ（タグを配列として受け取る）
+// 取引の内訳のスキーマ
+export const MAX_SPLIT_LINES = 20; // 1つの取引に登録できる内訳行の上限
+export const insertTransactionSplitSchema = createInsertSchema(
+	transactionSplits,
+	{
+		amount: z.number().int().positive(), // 正の整数のみ
+		memo: z.string().max(200).nullable().optional(),
+	},
+);
+export const selectTransactionSplitSchema =
+	createSelectSchema(transactionSplits);
+export type InsertTransactionSplit = z.infer<
+	typeof insertTransactionSplitSchema
+>;
+export type SelectTransactionSplit = z.infer<
+	typeof selectTransactionSplitSchema
+>;
+
+// 取引の作成・更新時に受け取る内訳行（カテゴリは必須）
+export const transactionSplitLineSchema = insertTransactionSplitSchema
+	.pick({ amount: true, memo: true })
+	.extend({ categoryId: z.number().int().positive() });
+export type TransactionSplitLine = z.infer<typeof transactionSplitLineSchema>;
+
+// アプリケーション入力用のスキーマ（タグを配列として、内訳を行の配列として受け取る）
 export const createTransactionSchema = insertTransactionSchema.extend({
 	tags: z.array(z.string()).optional(),
+	splits: z.array(transactionSplitLineSchema).max(MAX_SPLIT_LINES).optional(),
 });
 export const selectTransactionSchema = createSelectSchema(transactions);
 
@@ -126,15 +404,112 @@ export type SelectTransactionWithParsedTags = z.infer<
 >;
 
 // サブスクリプションのスキーマ
+export const SUBSCRIPTION_FREQUENCIES = [
+	"daily",
+	"weekly",
+	"monthly",
+	"quarterly",
+	"semiannual",
+	"yearly",
+	"biennial",
+] as const;
+export type SubscriptionFrequency = (typeof SUBSCRIPTION_FREQUENCIES)[number];
+
+export const BUSINESS_DAY_ADJUSTMENTS = ["none", "previous", "next"] as const;
+export type BusinessDayAdjustment = (typeof BUSINESS_DAY_ADJUSTMENTS)[number];
+export const MAX_SUBSCRIPTION_INTERVAL = 12; // 支払い間隔の上限（例: 12か月ごと）
+
 export const insertSubscriptionSchema = createInsertSchema(subscriptions, {
 	amount: z.number().int().positive(),
-	frequency: z.enum(["daily", "weekly", "monthly", "yearly"]),
+	frequency: z.enum(SUBSCRIPTION_FREQUENCIES),
 	nextPaymentDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+	endDate: z
+		.string()
+		.regex(/^\d{4}-\d{2}-\d{2}$/)
+		.nullable()
+		.optional(),
+	remainingPayments: z.number().int().min(0).nullable().optional(),
+	trialEndDate: z
+		.string()
+		.regex(/^\d{4}-\d{2}-\d{2}$/)
+		.nullable()
+		.optional(),
+	intervalCount: z
+		.number()
+		.int()
+		.min(1)
+		.max(MAX_SUBSCRIPTION_INTERVAL)
+		.optional(),
+	billingDay: z.number().int().min(1).max(31).nullable().optional(),
+	businessDayAdjustment: z.enum(BUSINESS_DAY_ADJUSTMENTS).optional(),
 });
 export const selectSubscriptionSchema = createSelectSchema(subscriptions);
 export type InsertSubscription = z.infer<typeof insertSubscriptionSchema>;
 export type SelectSubscription = z.infer<typeof selectSubscriptionSchema>;
 
+// サブスクリプションの価格履歴のスキーマ
+export const insertSubscriptionPriceSchema = createInsertSchema(
+	subscriptionPrices,
+	{
+		amount: z.number().int().positive(),
+		effectiveDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+	},
+);
+export const selectSubscriptionPriceSchema =
+	createSelectSchema(subscriptionPrices);
+export type InsertSubscriptionPrice = z.infer<
+	typeof insertSubscriptionPriceSchema
+>;
+export type SelectSubscriptionPrice = z.infer<
+	typeof selectSubscriptionPriceSchema
+>;
+
+// サブスクリプションのスキップした支払い期間のスキーマ
+export const insertSubscriptionSkippedPeriodSchema = createInsertSchema(
+	subscriptionSkippedPeriods,
+	{
+		periodDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+	},
+);
+
+// サブスクリプションのリマインダーのスキーマ
+export const SUBSCRIPTION_REMINDER_TYPES = [
+	"payment",
+	"trial_end",
+	"cancellation_deadline",
+] as const;
+export type SubscriptionReminderType =
+	(typeof SUBSCRIPTION_REMINDER_TYPES)[number];
+export const MAX_REMINDER_DAYS_BEFORE = 60; // 何日前から通知するかの上限
+
+export const insertSubscriptionReminderSchema = createInsertSchema(
+	subscriptionReminders,
+	{
+		type: z.enum(SUBSCRIPTION_REMINDER_TYPES),
+		daysBefore: z.number().int().min(0).max(MAX_REMINDER_DAYS_BEFORE),
+		noticeDays: z.number().int().min(0).max(365).nullable().optional(),
+	},
+);
+export const selectSubscriptionReminderSchema = createSelectSchema(
+	subscriptionReminders,
+);
+export type InsertSubscriptionReminder = z.infer<
+	typeof insertSubscriptionReminderSchema
+>;
+export type SelectSubscriptionReminder = z.infer<
+	typeof selectSubscriptionReminderSchema
+>;
+
+// 通知のスキーマ
+export const insertNotificationSchema = createInsertSchema(notifications, {
+	type: z.enum(SUBSCRIPTION_REMINDER_TYPES),
+	title: z.string().min(1),
+	message: z.string().min(1),
+	targetDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+});
+export const selectNotificationSchema = createSelectSchema(notifications);
+export type SelectNotification = z.infer<typeof selectNotificationSchema>;
+
 // 予算のスキーマ
 export const insertBudgetSchema = createInsertSchema(budgets, {
 	amount: z.number().int().positive(),
@@ -145,3 +520,141 @@ export const insertBudgetSchema = createInsertSchema(budgets, {
 export const selectBudgetSchema = createSelectSchema(budgets);
 export type InsertBudget = z.infer<typeof insertBudgetSchema>;
 export type SelectBudget = z.infer<typeof selectBudgetSchema>;
+
+// クレジットカードの請求のスキーマ
+export const insertCardStatementSchema = createInsertSchema(cardStatements, {
+	closingDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+	paymentDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+	statementAmount: z.number().int().nullable().optional(),
+});
+export const selectCardStatementSchema = createSelectSchema(cardStatements);
+export type InsertCardStatement = z.infer<typeof insertCardStatementSchema>;
+export type SelectCardStatement = z.infer<typeof selectCardStatementSchema>;
+
+// 分割払いの計画のスキーマ
+export const INSTALLMENT_PAYMENT_TYPES = ["installment", "revolving"] as const;
+export type InstallmentPaymentType = (typeof INSTALLMENT_PAYMENT_TYPES)[number];
+export const MAX_INSTALLMENT_PAYMENTS = 120; // 支払回数の上限（10年）
+export const MAX_REVOLVING_INTEREST_RATE = 20; // リボ払いの実質年率の上限（%、利息制限法の上限）
+export const insertInstallmentPlanSchema = createInsertSchema(
+	installmentPlans,
+	{
+		paymentType: z.enum(INSTALLMENT_PAYMENT_TYPES).optional(),
+		principalAmount: z.number().int().positive(),
+		fee: z.number().int().min(0).optional(),
+		paymentCount: z.number().int().min(2).max(MAX_INSTALLMENT_PAYMENTS),
+		firstPaymentDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+		paidOffDate: z
+			.string()
+			.regex(/^\d{4}-\d{2}-\d{2}$/)
+			.nullable()
+			.optional(),
+		monthlyPayment: z.number().int().positive().nullable().optional(),
+		interestRate: z
+			.number()
+			.min(0)
+			.max(MAX_REVOLVING_INTEREST_RATE)
+			.nullable()
+			.optional(),
+	},
+);
+export const selectInstallmentPlanSchema = createSelectSchema(installmentPlans);
+export type InsertInstallmentPlan = z.infer<typeof insertInstallmentPlanSchema>;
+export type SelectInstallmentPlan = z.infer<typeof selectInstallmentPlanSchema>;
+
+// 分割払いの作成時に受け取る値（支払条件と、定期支払いとして持つ名前・カテゴリ・口座）
+// 分割払いは支払回数、リボ払いは毎月の支払額と実質年率を指定する（リボ払いの支払回数・利息は計算する）
+export const createInstallmentPlanSchema = insertInstallmentPlanSchema
+	.pick({
+		paymentType: true,
+		principalAmount: true,
+		fee: true,
+		paymentCount: true,
+		firstPaymentDate: true,
+		monthlyPayment: true,
+		interestRate: true,
+	})
+	.partial({ paymentCount: true })
+	.extend(
+		insertSubscriptionSchema.pick({
+			name: true,
+			categoryId: true,
+			accountId: true,
+			description: true,
+		}).shape,
+	)
+	.superRefine((data, ctx) => {
+		if (data.paymentType === "revolving") {
+			if (data.monthlyPayment == null) {
+				ctx.addIssue({
+					code: z.ZodIssueCode.custom,
+					path: ["monthlyPayment"],
+					message: "リボ払いは毎月の支払額を指定してください",
+				});
+			}
+			if (data.interestRate == null) {
+				ctx.addIssue({
+					code: z.ZodIssueCode.custom,
+					path: ["interestRate"],
+					message: "リボ払いは実質年率を指定してください",
+				});
+			}
+		} else if (data.paymentCount === undefined) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["paymentCount"],
+				message: "分割払いは支払回数を指定してください",
+			});
+		}
+	});
+export type CreateInstallmentPlan = z.infer<typeof createInstallmentPlanSchema>;
+
+// 取引の自動分類ルールのスキーマ
+export const RULE_MATCH_TYPES = ["contains", "regex"] as const;
+export type RuleMatchType = (typeof RULE_MATCH_TYPES)[number];
+
+export const insertCategorizationRuleSchema = createInsertSchema(
+	categorizationRules,
+	{
+		name: z.string().min(1).max(100),
+		type: z.enum(["income", "expense"]),
+		descriptionPattern: z.string().min(1).max(200).nullable().optional(),
+		matchType: z.enum(RULE_MATCH_TYPES).optional(),
+		minAmount: z.number().int().min(0).nullable().optional(),
+		maxAmount: z.number().int().min(0).nullable().optional(),
+		paymentMethod: z.string().min(1).max(50).nullable().optional(),
+		memo: z.string().min(1).max(200).nullable().optional(),
+		priority: z.number().int().min(0).optional(),
+	},
+);
+export const selectCategorizationRuleSchema =
+	createSelectSchema(categorizationRules);
+export type InsertCategorizationRule = z.infer<
+	typeof insertCategorizationRuleSchema
+>;
+export type SelectCategorizationRule = z.infer<
+	typeof selectCategorizationRuleSchema
+>;
+
+// タグのスキーマ
+export const insertTagSchema = createInsertSchema(tags, {
+	name: z.string().trim().min(1).max(50),
+	color: z
+		.string()
+		.regex(/^#[0-9A-F]{6}$/i)
+		.nullable()
+		.optional(),
+});
+export const selectTagSchema = createSelectSchema(tags);
+export type InsertTag = z.infer<typeof insertTagSchema>;
+export type SelectTag = z.infer<typeof selectTagSchema>;
+
+// アプリケーション入力用のスキーマ（タグを配列として受け取る）
+export const createCategorizationRuleSchema = insertCategorizationRuleSchema
+	.omit({ id: true, tags: true, createdAt: true, updatedAt: true })
+	.extend({
+		tags: z.array(z.string().min(1).max(50)).max(10).nullable().optional(),
+	});
+export type CreateCategorizationRule = z.infer<
+	typeof createCategorizationRuleSchema
+>;
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import {
+	FIXED_EXPENSE_CATEGORIES,
+	FIXED_INCOME_CATEGORIES,
+} from "../../app/constants/fixed-categories";
+import type { Database } from "../connection";
+import {
+	getAllDefaultCategories,
+	planDefaultCategorySeed,
+	seedDefaultCategories,
+} from "./defaultCategories";
+
+/**
+ * デフォルトカテゴリシーダーのユニットテスト
+ *
+ * データベースに依存しない投入するカテゴリの決定と、固定リストとの一致のテスト
+ * シーダーはSQLiteと同じIDの採番（未指定は最大のID + 1、重複はエラー）を再現したモックで検証する
+ */
+
+// カテゴリテーブルのモック（1回のINSERTの行を順に採番・挿入する）
+const createCategoryTableMock = (
+	rows: { id: number; name: string; type: string }[],
+) =>
+	({
+		select: () => ({ from: async () => rows.map((row) => ({ ...row })) }),
+		insert: () => ({
+			values: async (values: { id?: number; name: string; type: string }[]) => {
+				for (const { id, name, type } of values) {
+					const newId = id ?? Math.max(0, ...rows.map((row) => row.id)) + 1;
+					if (rows.some((row) => row.id === newId)) {
+						throw new Error("UNIQUE constraint failed: categories.id");
+					}
+					rows.push({ id: newId, name, type });
+				}
+			},
+		}),
+	}) as unknown as Database;
+
+describe("defaultCategories", () => {
+	describe("planDefaultCategorySeed", () => {
+		it("正常ケース: 空のデータベースには固定のIDですべてのデフォルトカテゴリを投入する", () => {
+			// 実行
+			const rows = planDefaultCategorySeed([]);
+
+			// 検証
+			expect(rows).toHaveLength(getAllDefaultCategories().length);
+			expect(rows.map((row) => row.id)).toEqual([
+				1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12,
+			]);
+		});
+
+		it("正常ケース: 投入済みのデータベースでは何も投入しない（冪等）", () => {
+			// 実行
+			const rows = planDefaultCategorySeed(
+				getAllDefaultCategories().map(({ id, name, type }) => ({
+					id,
+					name,
+					type,
+				})),
+			);
+
+			// 検証
+			expect(rows).toEqual([]);
+		});
+
+		it("境界値ケース: 固定のIDが別のカテゴリで使われている場合はすべての固定のIDより大きいIDで投入する", () => {
+			// 実行
+			const rows = planDefaultCategorySeed([
+				{ id: 3, name: "日用品", type: "expense" },
+				{ id: 1, name: "食費", type: "expense" },
+			]);
+
+			// 検証
+			const utilities = rows.find((row) => row.name === "光熱費");
+			const dailyGoods = rows.find((row) => row.name === "日用品");
+			expect(rows.some((row) => row.name === "食費")).toBe(false);
+			expect(utilities?.id).toBe(13);
+			expect(dailyGoods).toBeUndefined();
+			expect(rows.find((row) => row.name === "交通費")?.id).toBe(2);
+		});
+	});
+
+	describe("seedDefaultCategories", () => {
+		it("境界値ケース: 固定のID 1が別名のカテゴリで使われていても、すべてのデフォルトカテゴリを投入する", async () => {
+			const rows = [{ id: 1, name: "趣味", type: "expense" }];
+
+			// 実行
+			const inserted = await seedDefaultCategories(
+				createCategoryTableMock(rows),
+			);
+
+			// 検証
+			expect(inserted).toBe(getAllDefaultCategories().length);
+			expect(rows.find((row) => row.name === "食費")?.id).toBe(13);
+			expect(rows.find((row) => row.name === "交通費")?.id).toBe(2);
+			expect(new Set(rows.map((row) => row.id)).size).toBe(rows.length);
+		});
+	});
+
+	it("正常ケース: フォームの代替リストはデフォルトカテゴリと同じIDと名前を持つ", () => {
+		// 検証
+		expect(
+			[...FIXED_EXPENSE_CATEGORIES, ...FIXED_INCOME_CATEGORIES].map(
+				(category) => [category.id, category.name, category.type],
+			),
+		).toEqual(
+			getAllDefaultCategories().map((category) => [
+				category.id,
+				category.name,
+				category.type,
+			]),
+		);
+	});
+});
@@ -1,4 +1,3 @@
-import { and, eq } from "drizzle-orm";
 import type { Database } from "../connection";
 import { categories } from "../schema";
 import type { InsertCategory } from "../schema";
@@ -8,7 +7,13 @@ import type { InsertCategory } from "../schema";
  *
  * 設計意図:
  * - Issue #12で指定されたデフォルトカテゴリを提供
- * - 重複チェック機能により安全に実行可能
+ * - デフォルトカテゴリの唯一の定義とし、フォームのオフライン時の代替リスト
+ *   （app/constants/fixed-categories.ts）や開発・テスト用データベースの初期化もここから参照する
+ * - IDを固定し、どの環境でも同じカテゴリが同じIDになるようにする
+ *   （代替リストから選んだcategoryIdがデータベースのカテゴリと一致するため）
+ * - 重複チェック機能により何度実行しても安全（同じ名前・種別のカテゴリがあれば挿入しない）
+ * - 固定のIDが別のカテゴリで使われている既存のデータベースでは、すべての固定のIDより大きい空きIDで挿入する
+ *   （自動採番に任せると、同じINSERT内の後続のカテゴリの固定のIDと衝突するため）
  * - カテゴリには適切な色とアイコンを設定
  * - displayOrderでUI表示順序を制御
  *
@@ -16,15 +21,21 @@ import type { InsertCategory } from "../schema";
  * TypeScriptによる型安全性と重複チェック機能を優先
  */
 
+/**
+ * デフォルトカテゴリの定義（IDは固定）
+ */
+export type DefaultCategory = Omit<
+	InsertCategory,
+	"id" | "parentId" | "createdAt" | "updatedAt"
+> & { id: number };
+
 /**
  * デフォルト支出カテゴリの定義
  * UI表示順序とビジュアル設計を考慮した配色・アイコン選択
  */
-const DEFAULT_EXPENSE_CATEGORIES: Omit<
-	InsertCategory,
-	"id" | "createdAt" | "updatedAt"
->[] = [
+export const DEFAULT_EXPENSE_CATEGORIES: DefaultCategory[] = [
 	{
+		id: 1,
 		name: "食費",
 		type: "expense",
 		color: "#FF6B6B",
@@ -33,6 +44,7 @@ const DEFAULT_EXPENSE_CATEGORIES: Omit<
 		isActive: true,
 	},
 	{
+		id: 2,
 		name: "交通費",
 		type: "expense",
 		color: "#4ECDC4",
@@ -41,6 +53,7 @@ const DEFAULT_EXPENSE_CATEGORIES: Omit<
 		isActive: true,
 	},
 	{
+		id: 3,
 		name: "光熱費",
 		type: "expense",
 		color: "#DDA0DD",
@@ -49,6 +62,7 @@ const DEFAULT_EXPENSE_CATEGORIES: Omit<
 		isActive: true,
 	},
 	{
+		id: 4,
 		name: "通信費",
 		type: "expense",
 		color: "#FFEAA7",
@@ -57,6 +71,7 @@ const DEFAULT_EXPENSE_CATEGORIES: Omit<
 		isActive: true,
 	},
 	{
+		id: 5,
 		name: "娯楽費",
 		type: "expense",
 		color: "#F7DC6F",
@@ -65,6 +80,7 @@ const DEFAULT_EXPENSE_CATEGORIES: Omit<
 		isActive: true,
 	},
 	{
+		id: 6,
 		name: "医療費",
 		type: "expense",
 		color: "#96CEB4",
@@ -73,6 +89,7 @@ const DEFAULT_EXPENSE_CATEGORIES: Omit<
 		isActive: true,
 	},
 	{
+		id: 7,
 		name: "日用品",
 		type: "expense",
 		color: "#45B7D1",
@@ -81,6 +98,7 @@ const DEFAULT_EXPENSE_CATEGORIES: Omit<
 		isActive: true,
 	},
 	{
+		id: 8,
 		name: "その他",
 		type: "expense",
 		color: "#D5DBDB",
@@ -94,11 +112,9 @@ const DEFAULT_EXPENSE_CATEGORIES: Omit<
  * デフォルト収入カテゴリの定義
  * 収入種別の一般的な優先順位に基づく表示順序
  */
-const DEFAULT_INCOME_CATEGORIES: Omit<
-	InsertCategory,
-	"id" | "createdAt" | "updatedAt"
->[] = [
+export const DEFAULT_INCOME_CATEGORIES: DefaultCategory[] = [
 	{
+		id: 9,
 		name: "給与",
 		type: "income",
 		color: "#58D68D",
@@ -107,6 +123,7 @@ const DEFAULT_INCOME_CATEGORIES: Omit<
 		isActive: true,
 	},
 	{
+		id: 10,
 		name: "副業",
 		type: "income",
 		color: "#1890FF",
@@ -115,6 +132,7 @@ const DEFAULT_INCOME_CATEGORIES: Omit<
 		isActive: true,
 	},
 	{
+		id: 11,
 		name: "投資",
 		type: "income",
 		color: "#722ED1",
@@ -123,6 +141,7 @@ const DEFAULT_INCOME_CATEGORIES: Omit<
 		isActive: true,
 	},
 	{
+		id: 12,
 		name: "その他",
 		type: "income",
 		color: "#13C2C2",
@@ -133,73 +152,31 @@ const DEFAULT_INCOME_CATEGORIES: Omit<
 ];
 
 /**
- * 指定されたカテゴリが既に存在するかチェック
- * @param db - データベース接続
- * @param name - カテゴリ名
- * @param type - カテゴリタイプ
- * @returns 存在する場合true
- */
-async function categoryExists(
-	db: Database,
-	name: string,
-	type: "income" | "expense",
-): Promise<boolean> {
-	const existing = (await (db as any)
-		.select()
-		.from(categories)
-		.where(and(eq(categories.name, name), eq(categories.type, type)))
-		.limit(1)) as any;
-
-	return existing.length > 0;
-}
-
-/**
- * デフォルトカテゴリを安全に挿入
- * 重複チェックを行い、存在しないカテゴリのみ挿入する
- * @param db - データベース接続
- * @param categoryList - 挿入するカテゴリリスト
- * @returns 挿入されたカテゴリ数
+ * 既存のカテゴリから、挿入するデフォルトカテゴリを決定する
+ * 同じ名前・種別のカテゴリがあるものは挿入せず、固定のIDが使われている場合は
+ * 既存のIDとすべての固定のIDより大きいIDを割り当てる（全行のIDを明示し、1回のINSERTで衝突しないようにする）
+ *
+ * @param existingCategories - データベースに登録済みのカテゴリ（無効化されたものを含む）
+ * @param categoryList - 挿入するデフォルトカテゴリ
+ * @returns 挿入するカテゴリ
  */
-async function insertCategoriesIfNotExists(
-	db: Database,
-	categoryList: Omit<InsertCategory, "id" | "createdAt" | "updatedAt">[],
-): Promise<number> {
-	// 既存カテゴリを一括取得（N+1問題の解決）
-	const existingCategories = await (db as any)
-		.select({ name: categories.name, type: categories.type })
-		.from(categories);
-
+export function planDefaultCategorySeed(
+	existingCategories: { id: number; name: string; type: string }[],
+	categoryList: DefaultCategory[] = getAllDefaultCategories(),
+): InsertCategory[] {
 	// 既存カテゴリのセットを作成（高速な重複チェック用）
 	const existingSet = new Set(
-		existingCategories.map((cat: any) => `${cat.name}-${cat.type}`),
+		existingCategories.map((cat) => `${cat.name}-${cat.type}`),
 	);
-
-	// 新規カテゴリをフィルタリング
-	const newCategories = categoryList.filter(
-		(category) => !existingSet.has(`${category.name}-${category.type}`),
-	);
-
-	// 新規カテゴリを一括挿入
-	if (newCategories.length > 0) {
-		await db.insert(categories).values(newCategories);
-		for (const category of newCategories) {
-			console.log(
-				`カテゴリを挿入しました: ${category.name} (${category.type})`,
-			);
-		}
-	}
-
-	// 既存カテゴリのログ出力
-	const existingCategoriesToLog = categoryList.filter((category) =>
-		existingSet.has(`${category.name}-${category.type}`),
-	);
-	for (const category of existingCategoriesToLog) {
-		console.log(
-			`カテゴリは既に存在します: ${category.name} (${category.type})`,
+	const usedIds = new Set(existingCategories.map((cat) => cat.id));
+	let nextId =
+		Math.max(0, ...usedIds, ...categoryList.map((category) => category.id)) + 1;
+
+	return categoryList
+		.filter((category) => !existingSet.has(`${category.name}-${category.type}`))
+		.map((category) =>
+			usedIds.has(category.id) ? { ...category, id: nextId++ } : category,
 		);
-	}
-
-	return newCategories.length;
 }
 
 /**
@@ -213,28 +190,33 @@ export async function seedDefaultCategories(db: Database): Promise<number> {
 	console.log("デフォルトカテゴリシーダーを開始します...");
 
 	try {
-		// 支出カテゴリの挿入
-		console.log("支出カテゴリを挿入中...");
-		const expenseInserted = await insertCategoriesIfNotExists(
-			db,
-			DEFAULT_EXPENSE_CATEGORIES,
-		);
-
-		// 収入カテゴリの挿入
-		console.log("収入カテゴリを挿入中...");
-		const incomeInserted = await insertCategoriesIfNotExists(
-			db,
-			DEFAULT_INCOME_CATEGORIES,
-		);
+		// 既存カテゴリを一括取得（N+1問題の解決）
+		const existingCategories = await (db as any)
+			.select({
+				id: categories.id,
+				name: categories.name,
+				type: categories.type,
+			})
+			.from(categories);
+
+		const newCategories = planDefaultCategorySeed(existingCategories);
+
+		// 新規カテゴリを一括挿入
+		if (newCategories.length > 0) {
+			await db.insert(categories).values(newCategories);
+		}
 
-		const totalInserted = expenseInserted + incomeInserted;
+		const expenseInserted = newCategories.filter(
+			(category) => category.type === "expense",
+		).length;
+		const incomeInserted = newCategories.length - expenseInserted;
 
 		console.log("デフォルトカテゴリシーダーが完了しました。");
 		console.log(`- 支出カテゴリ: ${expenseInserted}件挿入`);
 		console.log(`- 収入カテゴリ: ${incomeInserted}件挿入`);
-		console.log(`- 合計: ${totalInserted}件挿入`);
+		console.log(`- 合計: ${newCategories.length}件挿入`);
 
-		return totalInserted;
+		return newCategories.length;
 	} catch (error) {
 		console.error("デフォルトカテゴリシーダーでエラーが発生しました:", error);
 		throw error;
@@ -245,29 +227,20 @@ export async function seedDefaultCategories(db: Database): Promise<number> {
  * 全てのデフォルトカテゴリの定義を取得
  * テストやその他の用途で使用可能
  */
-export function getAllDefaultCategories(): Omit<
-	InsertCategory,
-	"id" | "createdAt" | "updatedAt"
->[] {
+export function getAllDefaultCategories(): DefaultCategory[] {
 	return [...DEFAULT_EXPENSE_CATEGORIES, ...DEFAULT_INCOME_CATEGORIES];
 }
 
 /**
  * 支出カテゴリの定義のみを取得
  */
-export function getDefaultExpenseCategories(): Omit<
-	InsertCategory,
-	"id" | "createdAt" | "updatedAt"
->[] {
+export function getDefaultExpenseCategories(): DefaultCategory[] {
 	return DEFAULT_EXPENSE_CATEGORIES;
 }
 
 /**
  * 収入カテゴリの定義のみを取得
  */
-export function getDefaultIncomeCategories(): Omit<
-	InsertCategory,
-	"id" | "createdAt" | "updatedAt"
->[] {
+export function getDefaultIncomeCategories(): DefaultCategory[] {
 	return DEFAULT_INCOME_CATEGORIES;
 }
@@ -1,7 +1,13 @@
+import { drizzle } from "drizzle-orm/d1";
 import { Hono } from "hono";
 import { cors } from "hono/cors";
 import { logger } from "hono/logger";
 import { createRequestHandler } from "react-router";
+import { generateCardSettlements } from "../db/queries/card-statements";
+import { generateInstallmentTransactions } from "../db/queries/installments";
+import { generateSubscriptionReminders } from "../db/queries/subscription-reminders";
+import { generateSubscriptionTransactions } from "../db/queries/subscriptions";
+import * as schema from "../db/schema";
 
 declare module "react-router" {
 	export interface AppLoadContext {
@@ -109,4 +115,60 @@ export default {
 			cloudflare: { env, ctx },
 		});
 	},
+
+	// Cron Trigger（wrangler.tomlのtriggers.crons）から定期実行される
+	// 支払日が到来したサブスクリプション・分割払いの取引と、クレジットカードの引き落としを作成する
+	// カードの引き落としは同じ日に作成された取引も請求に含めるため、取引の生成が終わってから作成する
+	// サブスクリプションのリマインダーは取引の生成で次回支払日を進めてから評価する
+	// 各処理は失敗しても後続の処理を止めないよう、個別にエラーを記録する
+	// 手動実行は POST /api/subscriptions/generate-transactions・POST /api/installments/generate-transactions・
+	// POST /api/subscriptions/generate-reminders・POST /api/accounts/generate-settlements で同じ処理を行う
+	async scheduled(
+		controller: ScheduledController,
+		env: Env,
+		ctx: ExecutionContext,
+	): Promise<void> {
+		// Workers上では常にD1を使用するため、createDbを介さず直接接続する
+		const db = drizzle(env.DB, { schema });
+
+		const run = async () => {
+			try {
+				const result = await generateSubscriptionTransactions(db);
+				console.log(
+					`サブスクリプション取引生成完了 (${controller.cron}): ${result.createdTransactions}件`,
+				);
+			} catch (error) {
+				console.error("サブスクリプション取引生成エラー:", error);
+			}
+
+			try {
+				const result = await generateInstallmentTransactions(db);
+				console.log(
+					`分割払い取引生成完了 (${controller.cron}): ${result.createdTransactions}件`,
+				);
+			} catch (error) {
+				console.error("分割払い取引生成エラー:", error);
+			}
+
+			try {
+				const result = await generateCardSettlements(db);
+				console.log(
+					`カード引き落とし作成完了 (${controller.cron}): ${result.createdSettlements}件`,
+				);
+			} catch (error) {
+				console.error("カード引き落とし作成エラー:", error);
+			}
+
+			try {
+				const result = await generateSubscriptionReminders(db);
+				console.log(
+					`サブスクリプション通知作成完了 (${controller.cron}): ${result.createdNotifications}件`,
+				);
+			} catch (error) {
+				console.error("サブスクリプションのリマインダー評価エラー:", error);
+			}
+		};
+
+		ctx.waitUntil(run());
+	},
 } satisfies ExportedHandler<Env>;